@@ -26,12 +26,15 @@ const EVENT_KINDS: EventKind[] = [
 	'time',
 	'location',
 	'forecast_generated',
+	'weather_override',
 	'character',
 	'relationship',
 	'topic_tone',
 	'tension',
 	'narrative_description',
 	'chapter',
+	'arc',
+	'scene',
 ];
 
 function EventStoreModal({ store, swipeContext, onClose }: EventStoreModalProps) {
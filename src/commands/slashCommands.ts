@@ -2,6 +2,7 @@
 // BlazeTracker Slash Commands (STScript)
 // ============================================
 
+import type moment from 'moment';
 import type { STContext } from '../types/st';
 import { EXTENSION_NAME, EXTENSION_KEY } from '../constants';
 import {
@@ -21,15 +22,41 @@ import {
 	getV2EventStoreForEditor,
 	buildSwipeContext,
 	abortExtraction,
+	exportV2EventStoreBundle,
+	buildV2EventStoreFromBundle,
+	replaceV2EventStore,
+	runV2StoreOperation,
+	getLatestExtractedMessageId,
+	getProjectionForMessage,
+	addV2WeatherOverride,
 } from '../v2Bridge';
 import {
 	unmountAllV2ProjectionDisplays,
+	mountAllV2ProjectionDisplays,
 	mountV2ProjectionDisplay,
 	setV2ExtractionInProgress,
 	updateV2ExtractionProgress,
+	applyV2EditHistory,
+	openV2StateDiffModal,
+	openV2InjectionPreviewModal,
 } from '../v2/ui/mountV2Display';
+import { previewInjection } from '../v2/injectors/promptHook';
+import { computeScenes, getSceneDiffRange } from '../v2/narrative/computeScenes';
+import { formatInjectionPreview } from '../v2/injectors/injectionPreview';
 import { openEventStoreModal } from './eventStoreModal';
+import { downloadEventStoreBundle, pickEventStoreBundleFile } from '../v2/ui/storeTransfer';
 import { getV2Settings } from '../v2/settings';
+import {
+	WEATHER_CONDITIONS,
+	isValidWeatherCondition,
+	serializeMoment,
+	deserializeMoment,
+	extractedDateTimeToMoment,
+} from '../v2/types/common';
+import { getActiveCalendar } from '../v2/cardExtensions';
+import { toStorageTemp } from '../utils/temperatures';
+import { parseCalendarDate } from '../utils/calendar';
+import { formatMoment } from '../utils/dateFormat';
 import { debugWarn } from '../utils/debug';
 import { st_echo } from 'sillytavern-utils-lib/config';
 
@@ -87,6 +114,9 @@ async function extractCommand(args: Record<string, unknown>, _value: string): Pr
 		return 'Error: No messages to extract (chat is empty or only has system message)';
 	}
 
+	// ST passes named arguments as strings
+	const reroll = String(args.reroll ?? '') === 'true';
+
 	log('Slash command: V2 extracting state for message', messageId);
 
 	// Mark extraction in progress and mount display to show loading
@@ -97,10 +127,13 @@ async function extractCommand(args: Record<string, unknown>, _value: string): Pr
 	setBatchExtractionInProgress(true);
 
 	try {
-		const result = await runV2Extraction(messageId, {
-			onProgress: updateV2ExtractionProgress,
-			isManual: true,
-		});
+		const result = await runV2StoreOperation(`Extract message ${messageId}`, () =>
+			runV2Extraction(messageId, {
+				onProgress: updateV2ExtractionProgress,
+				isManual: true,
+				reroll,
+			}),
+		);
 
 		if (result) {
 			mountV2ProjectionDisplay(messageId);
@@ -361,6 +394,257 @@ async function eventStoreCommand(_args: Record<string, string>, _value: string):
 	return '';
 }
 
+// ============================================
+// Command: /bt-export
+// ============================================
+
+async function exportCommand(_args: Record<string, string>, _value: string): Promise<string> {
+	const bundle = exportV2EventStoreBundle();
+
+	if (!bundle) {
+		return 'Error: No state to export. Run /bt-extract-all first.';
+	}
+
+	downloadEventStoreBundle(bundle);
+
+	return `Exported ${bundle.events.filter(e => !e.deleted).length} events and ${bundle.snapshots.length} snapshots`;
+}
+
+// ============================================
+// Command: /bt-import
+// ============================================
+
+async function importCommand(_args: Record<string, string>, _value: string): Promise<string> {
+	const context = SillyTavern.getContext() as unknown as STContext;
+
+	const picked = await pickEventStoreBundleFile();
+	if (!picked) {
+		return 'Import cancelled.';
+	}
+	if (picked.error !== undefined) {
+		return `Error: ${picked.error}`;
+	}
+
+	const imported = buildV2EventStoreFromBundle(picked.data);
+	if (imported.error !== undefined) {
+		return `Error: ${imported.error}`;
+	}
+
+	const { store, remapped, droppedEvents, droppedSnapshots } = imported.result;
+
+	if (hasV2InitialSnapshot()) {
+		const confirmMessage =
+			`This will replace the BlazeTracker state of this chat with the imported state.\n\n` +
+			`Imported events: ${store.activeEventCount}\n\n` +
+			`Continue?`;
+
+		const confirmed =
+			(await (context as any).callGenericPopup?.(
+				confirmMessage,
+				1 /* CONFIRM */,
+			)) ?? window.confirm(confirmMessage);
+
+		if (!confirmed) {
+			return 'Import cancelled.';
+		}
+	}
+
+	await replaceV2EventStore(store, 'Import state');
+
+	unmountAllV2ProjectionDisplays();
+	mountAllV2ProjectionDisplays();
+
+	const notes: string[] = [`${store.activeEventCount} events imported`];
+	if (remapped) notes.push('message IDs remapped');
+	if (droppedEvents > 0)
+		notes.push(`${droppedEvents} events without a matching message dropped`);
+	if (droppedSnapshots > 0) notes.push(`${droppedSnapshots} chapter snapshots dropped`);
+
+	if (droppedEvents > 0 || droppedSnapshots > 0) {
+		st_echo('warning', `🔥 Import: ${notes.join(', ')}`);
+	}
+
+	return `Import complete: ${notes.join(', ')}`;
+}
+
+// ============================================
+// Commands: /bt-undo, /bt-redo
+// ============================================
+
+async function undoCommand(_args: Record<string, string>, _value: string): Promise<string> {
+	return applyV2EditHistory('undo');
+}
+
+async function redoCommand(_args: Record<string, string>, _value: string): Promise<string> {
+	return applyV2EditHistory('redo');
+}
+
+// ============================================
+// Command: /bt-diff
+// ============================================
+
+async function diffCommand(args: Record<string, unknown>, _value: string): Promise<string> {
+	const context = SillyTavern.getContext() as unknown as STContext;
+	const store = getV2EventStoreForEditor();
+
+	if (!store?.hasInitialSnapshot) {
+		return 'Error: No state to compare. Run /bt-extract-all first.';
+	}
+
+	const lastId = context.chat.length - 1;
+
+	// A scene number picks the range for you: just before the scene to its end
+	const sceneArg = args.scene as string | undefined;
+	if (sceneArg !== undefined && sceneArg !== '') {
+		const scenes = computeScenes(store, buildSwipeContext(context));
+		const number = parseInt(sceneArg, 10);
+		const scene = scenes.find(s => s.index === number - 1);
+		if (!scene) {
+			return `Error: Invalid scene "${sceneArg}". Valid range: 1-${scenes.length}`;
+		}
+		const range = getSceneDiffRange(scene, lastId);
+		const from = Math.max(range.from, store.initialSnapshotMessageId);
+		openV2StateDiffModal(from, range.to);
+		return `Showing state changes in scene ${number} (messages ${from} to ${range.to})`;
+	}
+
+	const parseId = (name: string, fallback: number): number | string => {
+		const raw = args[name] as string | undefined;
+		if (raw === undefined || raw === '') return fallback;
+		const id = parseInt(raw, 10);
+		if (isNaN(id) || id < store.initialSnapshotMessageId || id > lastId) {
+			return `Error: Invalid ${name} message "${raw}". Valid range: ${store.initialSnapshotMessageId}-${lastId}`;
+		}
+		return id;
+	};
+
+	const from = parseId('from', store.initialSnapshotMessageId);
+	if (typeof from === 'string') return from;
+	const to = parseId('to', lastId);
+	if (typeof to === 'string') return to;
+
+	openV2StateDiffModal(from, to);
+	return `Showing state changes between messages ${Math.min(from, to)} and ${Math.max(from, to)}`;
+}
+
+// ============================================
+// Command: /bt-weather
+// ============================================
+
+async function weatherCommand(args: Record<string, unknown>, _value: string): Promise<string> {
+	if (batchExtractionInProgress) {
+		return 'Error: Cannot add weather while an extraction is running.';
+	}
+
+	// Added at the latest extracted message, so it takes effect from there on
+	const messageId = getLatestExtractedMessageId();
+	const projection = messageId >= 0 ? getProjectionForMessage(messageId) : null;
+	if (!projection) {
+		return 'Error: No extracted messages to add weather to. Run /bt-extract-all first.';
+	}
+
+	const rawCondition = ((args.condition as string | undefined) ?? '').trim();
+	const condition = rawCondition.toLowerCase().replace(/[\s-]+/g, '_');
+	if (!isValidWeatherCondition(condition)) {
+		return `Error: Invalid condition "${rawCondition}". Valid conditions: ${WEATHER_CONDITIONS.join(', ')}`;
+	}
+
+	const areaName =
+		((args.area as string | undefined) ?? '').trim() || projection.location?.area;
+	if (!areaName) {
+		return 'Error: No current area. Pass area=<name>.';
+	}
+
+	// Dates are written on the card's calendar if it has one
+	const calendar = getActiveCalendar();
+	const parseCalendarTime = (raw: string) => {
+		const match = /^(\S+)[ T](\d{1,2}):(\d{2})$/.exec(raw.trim());
+		const date = match && parseCalendarDate(match[1], calendar);
+		if (!match || !date) return null;
+		return extractedDateTimeToMoment({
+			...date,
+			hour: Number(match[2]),
+			minute: Number(match[3]),
+			second: 0,
+		});
+	};
+	const parseTime = (name: string) => {
+		const raw = args[name] as string | undefined;
+		if (raw === undefined || raw === '') return null;
+		const time = calendar ? parseCalendarTime(raw) : deserializeMoment(raw);
+		if (time?.isValid()) return time;
+		return calendar
+			? `Error: Invalid ${name} time "${raw}". Use YYYY-MM-DD HH:mm, with the year, month and day on the ${calendar.name ?? 'custom'} calendar.`
+			: `Error: Invalid ${name} time "${raw}". Use YYYY-MM-DD HH:mm.`;
+	};
+
+	const from = parseTime('from') ?? projection.time?.clone();
+	if (typeof from === 'string') return from;
+	if (!from) {
+		return 'Error: No current narrative time. Pass from=<YYYY-MM-DD HH:mm>.';
+	}
+
+	let to = parseTime('to');
+	if (typeof to === 'string') return to;
+	if (!to) {
+		const hours = parseFloat((args.hours as string | undefined) ?? '6');
+		if (isNaN(hours) || hours <= 0) {
+			return `Error: Invalid hours "${args.hours}". Must be a positive number.`;
+		}
+		to = from.clone().add(hours, 'hours');
+	}
+	if (!to.isAfter(from)) {
+		return 'Error: The end time must be after the start time.';
+	}
+
+	const rawTemp = args.temp as string | undefined;
+	let temperature: number | undefined;
+	if (rawTemp !== undefined && rawTemp !== '') {
+		temperature = parseFloat(rawTemp);
+		if (isNaN(temperature)) {
+			return `Error: Invalid temperature "${rawTemp}".`;
+		}
+		temperature = toStorageTemp(temperature, getV2Settings().v2TemperatureUnit);
+	}
+
+	const added = await addV2WeatherOverride(messageId, {
+		areaName,
+		startTime: serializeMoment(from),
+		endTime: serializeMoment(to),
+		condition,
+		...(temperature !== undefined && { temperature }),
+	});
+	if (!added) {
+		return `Error: Could not add weather at message ${messageId}. Weather can only be added after the initial snapshot.`;
+	}
+	mountAllV2ProjectionDisplays();
+
+	const formatTime = (time: moment.Moment) =>
+		formatMoment(time, 'YYYY-MM-DD HH:mm', calendar);
+	const range = `${formatTime(from)} to ${formatTime(to)}`;
+	const note = projection.forecasts[areaName]
+		? ''
+		: ' It will apply once the area has a forecast.';
+	return `Added ${condition.replace(/_/g, ' ')} weather for ${areaName} from ${range} (message ${messageId}).${note}`;
+}
+
+// ============================================
+// Command: /bt-inject-preview
+// ============================================
+
+async function injectPreviewCommand(
+	_args: Record<string, string>,
+	_value: string,
+): Promise<string> {
+	const result = await previewInjection();
+	if (result.error !== undefined) {
+		return `Error: ${result.error}`;
+	}
+
+	openV2InjectionPreviewModal();
+	return formatInjectionPreview(result.preview);
+}
+
 // ============================================
 // Command: /bt-status
 // ============================================
@@ -384,6 +668,13 @@ async function statusCommand(_args: Record<string, string>, _value: string): Pro
 	if (hasV2InitialSnapshot()) {
 		const messageIds = store.getMessageIdsWithEvents();
 		rows.push({ label: 'Messages with Events', value: String(messageIds.length) });
+		const parent = store.parentBranchPoint;
+		if (parent) {
+			rows.push({
+				label: 'Branched From',
+				value: `${parent.chatId} @ #${parent.messageId}`,
+			});
+		}
 	} else {
 		rows.push({ label: 'V2 State', value: 'Not initialized' });
 	}
@@ -465,6 +756,14 @@ export function registerSlashCommands(): void {
 						typeList: [ARGUMENT_TYPE.NUMBER],
 						isRequired: false,
 					}),
+					SlashCommandNamedArgument.fromProps({
+						name: 'reroll',
+						description:
+							'Ask the LLM again instead of reusing cached responses',
+						typeList: [ARGUMENT_TYPE.BOOLEAN],
+						defaultValue: 'false',
+						isRequired: false,
+					}),
 				],
 				helpString: `
 				<div>
@@ -474,6 +773,7 @@ export function registerSlashCommands(): void {
 					<ul>
 						<li><code>/bt-extract</code> - Extract most recent message</li>
 						<li><code>/bt-extract id=5</code> - Extract message #5</li>
+						<li><code>/bt-extract reroll=true</code> - Extract without reusing cached responses</li>
 					</ul>
 				</div>
 			`,
@@ -555,6 +855,238 @@ export function registerSlashCommands(): void {
 			}),
 		);
 
+		// /bt-export - Export the event store to a file
+		SlashCommandParser.addCommandObject(
+			SlashCommand.fromProps({
+				name: 'bt-export',
+				callback: exportCommand,
+				helpString: `
+				<div>
+					Export this chat's BlazeTracker state to a JSON file.
+					<br><br>
+					The file contains all snapshots and events plus a fingerprint of the
+					chat's messages, so it can be imported into a copy or branch of this chat.
+					<br><br>
+					<strong>Usage:</strong>
+					<ul>
+						<li><code>/bt-export</code> - Download the state as a file</li>
+					</ul>
+				</div>
+			`,
+				returns: ARGUMENT_TYPE.STRING,
+			}),
+		);
+
+		// /bt-import - Import the event store from a file
+		SlashCommandParser.addCommandObject(
+			SlashCommand.fromProps({
+				name: 'bt-import',
+				callback: importCommand,
+				helpString: `
+				<div>
+					Import BlazeTracker state from a file created by /bt-export.
+					<br><br>
+					If the messages in this chat don't line up with the exported chat, events
+					are moved to the matching messages. Events whose message can't be found
+					are dropped.
+					<br><br>
+					<strong>WARNING:</strong> This replaces any existing BlazeTracker state in this chat.
+					<br><br>
+					<strong>Usage:</strong>
+					<ul>
+						<li><code>/bt-import</code> - Choose a file to import</li>
+					</ul>
+				</div>
+			`,
+				returns: ARGUMENT_TYPE.STRING,
+			}),
+		);
+
+		// /bt-undo - Undo the latest manual state change
+		SlashCommandParser.addCommandObject(
+			SlashCommand.fromProps({
+				name: 'bt-undo',
+				callback: undoCommand,
+				helpString: `
+				<div>
+					Undo the latest manual change to BlazeTracker state.
+					<br><br>
+					Covers saves from the state, event and narrative editors, re-extractions,
+					and imports. The history is kept per chat and survives reloads.
+					<br><br>
+					<strong>Usage:</strong>
+					<ul>
+						<li><code>/bt-undo</code> - Revert the latest change</li>
+					</ul>
+				</div>
+			`,
+				returns: ARGUMENT_TYPE.STRING,
+			}),
+		);
+
+		// /bt-redo - Redo the latest undone change
+		SlashCommandParser.addCommandObject(
+			SlashCommand.fromProps({
+				name: 'bt-redo',
+				callback: redoCommand,
+				helpString: `
+				<div>
+					Reapply the latest change reverted with /bt-undo.
+					<br><br>
+					Making a new change after an undo clears what can be redone.
+					<br><br>
+					<strong>Usage:</strong>
+					<ul>
+						<li><code>/bt-redo</code> - Reapply the latest undone change</li>
+					</ul>
+				</div>
+			`,
+				returns: ARGUMENT_TYPE.STRING,
+			}),
+		);
+
+		// /bt-diff - Compare state between two messages
+		SlashCommandParser.addCommandObject(
+			SlashCommand.fromProps({
+				name: 'bt-diff',
+				callback: diffCommand,
+				namedArgumentList: [
+					SlashCommandNamedArgument.fromProps({
+						name: 'from',
+						description:
+							'Earlier message ID (defaults to the first extracted message)',
+						typeList: [ARGUMENT_TYPE.NUMBER],
+						isRequired: false,
+					}),
+					SlashCommandNamedArgument.fromProps({
+						name: 'to',
+						description:
+							'Later message ID (defaults to most recent)',
+						typeList: [ARGUMENT_TYPE.NUMBER],
+						isRequired: false,
+					}),
+					SlashCommandNamedArgument.fromProps({
+						name: 'scene',
+						description:
+							'Scene number; compares the state before the scene with its end (overrides from/to)',
+						typeList: [ARGUMENT_TYPE.NUMBER],
+						isRequired: false,
+					}),
+				],
+				helpString: `
+				<div>
+					Show what changed in BlazeTracker state between two messages.
+					<br><br>
+					Changes to characters, outfits, moods, relationships, location, props
+					and scene tension are grouped by entity, with links to the events
+					that caused them.
+					<br><br>
+					<strong>Usage:</strong>
+					<ul>
+						<li><code>/bt-diff</code> - Compare the first extracted message with the latest</li>
+						<li><code>/bt-diff from=40 to=95</code> - Compare message #40 with #95</li>
+						<li><code>/bt-diff scene=4</code> - Show what changed during scene 4</li>
+					</ul>
+				</div>
+			`,
+				returns: ARGUMENT_TYPE.STRING,
+			}),
+		);
+
+		// /bt-weather - Script the weather for an area
+		SlashCommandParser.addCommandObject(
+			SlashCommand.fromProps({
+				name: 'bt-weather',
+				callback: weatherCommand,
+				namedArgumentList: [
+					SlashCommandNamedArgument.fromProps({
+						name: 'condition',
+						description:
+							'Weather condition (e.g. rain, snow, thunderstorm)',
+						typeList: [ARGUMENT_TYPE.STRING],
+						isRequired: true,
+						enumList: [...WEATHER_CONDITIONS],
+					}),
+					SlashCommandNamedArgument.fromProps({
+						name: 'area',
+						description:
+							'Area name (defaults to the current area)',
+						typeList: [ARGUMENT_TYPE.STRING],
+						isRequired: false,
+					}),
+					SlashCommandNamedArgument.fromProps({
+						name: 'from',
+						description:
+							"Start time as YYYY-MM-DD HH:mm, on the card's calendar if it has one (defaults to the current narrative time)",
+						typeList: [ARGUMENT_TYPE.STRING],
+						isRequired: false,
+					}),
+					SlashCommandNamedArgument.fromProps({
+						name: 'to',
+						description:
+							"End time as YYYY-MM-DD HH:mm, on the card's calendar if it has one (overrides hours)",
+						typeList: [ARGUMENT_TYPE.STRING],
+						isRequired: false,
+					}),
+					SlashCommandNamedArgument.fromProps({
+						name: 'hours',
+						description:
+							'How many hours the weather lasts (default: 6)',
+						typeList: [ARGUMENT_TYPE.NUMBER],
+						isRequired: false,
+					}),
+					SlashCommandNamedArgument.fromProps({
+						name: 'temp',
+						description:
+							'Temperature in your display unit (defaults to the forecast)',
+						typeList: [ARGUMENT_TYPE.NUMBER],
+						isRequired: false,
+					}),
+				],
+				helpString: `
+				<div>
+					Script the weather for an area, replacing the forecast for a while.
+					<br><br>
+					The weather eases in and out over two hours on either side. The override
+					is added as an event at the latest extracted message and can be edited or
+					deleted in the event editor.
+					<br><br>
+					<strong>Usage:</strong>
+					<ul>
+						<li><code>/bt-weather condition=thunderstorm</code> - A storm for the next 6 hours</li>
+						<li><code>/bt-weather condition=snow hours=24 temp=20</code> - A day of snow at 20°</li>
+						<li><code>/bt-weather condition=foggy area="Harbor District" from="2024-10-31 20:00" to="2024-11-01 08:00"</code> - Fog over the harbor for the night</li>
+					</ul>
+				</div>
+			`,
+				returns: ARGUMENT_TYPE.STRING,
+			}),
+		);
+
+		// /bt-inject-preview - Dry run of the prompt injection
+		SlashCommandParser.addCommandObject(
+			SlashCommand.fromProps({
+				name: 'bt-inject-preview',
+				callback: injectPreviewCommand,
+				helpString: `
+				<div>
+					Show what BlazeTracker would inject for the next generation, without generating.
+					<br><br>
+					Lists the token count of each section, the chapters and events left out
+					for the token budget, and the first chat message kept in context, followed
+					by the injected blocks. Opens the report in a modal and returns it as text.
+					<br><br>
+					<strong>Usage:</strong>
+					<ul>
+						<li><code>/bt-inject-preview</code> - Preview the next injection</li>
+						<li><code>/bt-inject-preview | /clipboard-set</code> - Copy the report to the clipboard</li>
+					</ul>
+				</div>
+			`,
+				returns: ARGUMENT_TYPE.STRING,
+			}),
+		);
+
 		// /bt-status - Show BlazeTracker status
 		SlashCommandParser.addCommandObject(
 			SlashCommand.fromProps({
@@ -578,7 +1110,7 @@ export function registerSlashCommands(): void {
 		);
 
 		log(
-			'Slash commands registered: /bt-extract, /bt-extract-all, /bt-extract-remaining, /bt-event-store, /bt-status',
+			'Slash commands registered: /bt-extract, /bt-extract-all, /bt-extract-remaining, /bt-event-store, /bt-export, /bt-import, /bt-undo, /bt-redo, /bt-diff, /bt-weather, /bt-inject-preview, /bt-status',
 		);
 	} catch (e) {
 		console.error(`[${EXTENSION_NAME}] Failed to register slash commands:`, e);
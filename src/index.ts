@@ -36,6 +36,7 @@ import {
 	setV2ExtractionInProgress,
 	updateV2ExtractionProgress,
 	injectV2Styles,
+	registerV2EditHistoryShortcuts,
 } from './v2/ui';
 // Card Defaults UI
 import { initCardDefaultsButton } from './ui/cardDefaultsButton';
@@ -50,6 +51,7 @@ import {
 } from './v2/injectors/promptHook';
 // V2 Macros
 import { registerMacros, registerMacroBridgeFunctions } from './v2/injectors/macros';
+import { getFallbackInjectionDepth } from './v2/injectors/placement';
 
 // Use debugLog instead of local log function
 const log = debugLog;
@@ -185,7 +187,7 @@ function updateV2Injection(forMessageId: number): void {
 			includeChapters: settings.v2InjectNarrative,
 			includeEvents: settings.v2InjectNarrative && settings.v2Track.narrative,
 		},
-		settings.v2InjectionDepth,
+		getFallbackInjectionDepth(settings.v2InjectionPlacements),
 	);
 }
 
@@ -205,6 +207,9 @@ async function init() {
 	// Register slash commands
 	registerSlashCommands();
 
+	// Undo/redo shortcuts for manual state edits
+	registerV2EditHistoryShortcuts();
+
 	// Initialize card defaults button for character editor
 	initCardDefaultsButton(openCardDefaultsModal);
 
@@ -1,12 +1,43 @@
 // SillyTavern global types
 // Based on observed patterns from wTracker and ST documentation
 
+import type { WIFile } from './world-info';
+
 declare global {
 	const SillyTavern: {
 		getContext(): STContext;
 	};
 }
 
+/**
+ * An unnamed macro argument ({{name::arg1::arg2}}).
+ */
+export interface STMacroArgumentDefinition {
+	name: string;
+	description?: string;
+	optional?: boolean;
+	sampleValue?: string;
+}
+
+/**
+ * Definition of a macro registered with ST's macro engine.
+ */
+export interface STMacroDefinition {
+	category?: string;
+	description?: string;
+	unnamedArgs?: STMacroArgumentDefinition[];
+	exampleUsage?: string[];
+	handler: (context: { unnamedArgs: string[] }) => string;
+}
+
+/**
+ * ST's macro engine, which supports macros with arguments.
+ */
+export interface STMacroEngine {
+	register(name: string, definition: STMacroDefinition): void;
+	unregister(name: string): void;
+}
+
 export interface STContext {
 	// Event system
 	eventSource: EventEmitter;
@@ -15,6 +46,10 @@ export interface STContext {
 	// Chat state
 	chat: ChatMessage[];
 	chatMetadata: Record<string, unknown>;
+	getCurrentChatId?: () => string | undefined;
+	groupId?: string | null;
+	openCharacterChat?: (fileName: string) => Promise<void>;
+	openGroupChat?: (groupId: string, chatId: string) => Promise<void>;
 	characters: Character[];
 	characterId: number;
 
@@ -48,6 +83,14 @@ export interface STContext {
 
 	registerMacro: (key: string, value: string | (() => string), description?: string) => void;
 	unregisterMacro: (key: string) => void;
+	/** Macro engine with argument support (newer ST versions only) */
+	macros?: STMacroEngine;
+
+	// World Info (lorebooks)
+	loadWorldInfo?: (name: string) => Promise<WIFile | null>;
+	saveWorldInfo?: (name: string, data: WIFile, immediately?: boolean) => Promise<void>;
+	updateWorldInfoList?: () => Promise<void>;
+	reloadWorldInfoEditor?: (name: string, loadIfNotSelected?: boolean) => void;
 
 	// Persistence
 	saveChat(): Promise<void>;
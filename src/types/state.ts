@@ -112,6 +112,7 @@ export interface ProceduralClimate {
 	conditionType: WeatherCondition;
 	uvIndex: number;
 	daylight: DaylightPhase;
+	sky?: SkyState;
 	isIndoors: boolean;
 	buildingType?: BuildingType;
 }
@@ -122,11 +123,13 @@ import type {
 	LocationMapping as WeatherLocationMapping,
 	ForecastCacheEntry as WeatherForecastCacheEntry,
 	LocationForecast as WeatherLocationForecast,
+	SkyState as WeatherSkyState,
 } from '../weather/types';
 
 export type LocationMapping = WeatherLocationMapping;
 export type ForecastCacheEntry = WeatherForecastCacheEntry;
 export type LocationForecast = WeatherLocationForecast;
+export type SkyState = WeatherSkyState;
 
 export interface Scene {
 	topic: string;
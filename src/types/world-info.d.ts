@@ -22,6 +22,8 @@ export interface WIScanEntry {
 	content: string;
 	comment: string;
 	order: number;
+	/** Where the content goes in the prompt (0 = before, 1 = after the character defs) */
+	position?: number;
 	constant: boolean;
 	selective: boolean;
 	selectiveLogic?: number;
@@ -32,3 +34,36 @@ export interface WIActivated {
 	worldInfoAfter: string;
 	allActivatedEntries: Set<WIScanEntry>;
 }
+
+/**
+ * An entry as stored in a lorebook file (keyed by uid in WIFile.entries).
+ * ST keeps fields it doesn't know about, so extensions can store their own.
+ */
+export interface WIFileEntry {
+	uid: number;
+	key: string[];
+	keysecondary: string[];
+	comment: string;
+	content: string;
+	constant: boolean;
+	selective: boolean;
+	selectiveLogic: number;
+	order: number;
+	position: number;
+	disable: boolean;
+	addMemo: boolean;
+	excludeRecursion: boolean;
+	probability: number;
+	useProbability: boolean;
+	depth: number;
+	displayIndex?: number;
+	[field: string]: unknown;
+}
+
+/**
+ * A lorebook file.
+ */
+export interface WIFile {
+	entries: Record<string, WIFileEntry>;
+	[field: string]: unknown;
+}
@@ -12,10 +12,14 @@ import type {
 	CardExtensions,
 	BTLocationExtension,
 	BTTimeExtension,
+	BTCalendarExtension,
+	BTClimateExtension,
+	BTAstronomyExtension,
 	BTOutfitExtension,
 	BTProfileExtension,
 	BTRelationshipExtension,
 	BTRelationshipsExtension,
+	BTTemplatesExtension,
 	ProfileSex,
 } from '../v2/cardExtensions/types';
 import {
@@ -26,6 +30,13 @@ import {
 import { LOCATION_TYPES, OUTFIT_SLOTS, RELATIONSHIP_STATUSES } from '../v2/types/common';
 import { MILESTONE_WORTHY_SUBJECTS, type Subject } from '../v2/types/subject';
 import { v2SettingsManager } from '../v2/settings/manager';
+import { formatCalendarMonths, parseCalendarMonths } from '../utils/calendar';
+import { ClimateProfilesEditor } from './components/ClimateProfilesEditor';
+import {
+	DEFAULT_ASTRONOMY,
+	formatMoonDefinitions,
+	parseMoonDefinitions,
+} from '../weather/astronomy';
 import { errorLog } from '../utils/debug';
 
 // Debounce delay for auto-save (ms)
@@ -71,7 +82,16 @@ export function savePersonaDefaults(personaName: string, defaults: PersonaDefaul
 // Generic Defaults Modal
 // ============================================
 
-type SectionType = 'location' | 'time' | 'outfit' | 'profile' | 'relationships';
+type SectionType =
+	| 'location'
+	| 'time'
+	| 'calendar'
+	| 'climate'
+	| 'astronomy'
+	| 'outfit'
+	| 'profile'
+	| 'relationships'
+	| 'templates';
 
 interface DefaultsModalProps {
 	/** Display name for the modal title */
@@ -228,6 +248,48 @@ function DefaultsModal({
 						/>
 					)}
 
+					{sections.includes('calendar') && (
+						<CalendarSection
+							calendar={extensions.calendar}
+							expanded={expandedSections.has('calendar')}
+							onToggle={() => toggleSection('calendar')}
+							onChange={calendar =>
+								updateExtensions(prev => ({
+									...prev,
+									calendar,
+								}))
+							}
+						/>
+					)}
+
+					{sections.includes('climate') && (
+						<ClimateSection
+							climate={extensions.climate}
+							expanded={expandedSections.has('climate')}
+							onToggle={() => toggleSection('climate')}
+							onChange={climate =>
+								updateExtensions(prev => ({
+									...prev,
+									climate,
+								}))
+							}
+						/>
+					)}
+
+					{sections.includes('astronomy') && (
+						<AstronomySection
+							astronomy={extensions.astronomy}
+							expanded={expandedSections.has('astronomy')}
+							onToggle={() => toggleSection('astronomy')}
+							onChange={astronomy =>
+								updateExtensions(prev => ({
+									...prev,
+									astronomy,
+								}))
+							}
+						/>
+					)}
+
 					{sections.includes('outfit') && (
 						<OutfitSection
 							outfit={extensions.outfit}
@@ -276,6 +338,20 @@ function DefaultsModal({
 							}
 						/>
 					)}
+
+					{sections.includes('templates') && (
+						<TemplatesSection
+							templates={extensions.templates}
+							expanded={expandedSections.has('templates')}
+							onToggle={() => toggleSection('templates')}
+							onChange={templates =>
+								updateExtensions(prev => ({
+									...prev,
+									templates,
+								}))
+							}
+						/>
+					)}
 				</div>
 			</div>
 		</div>,
@@ -332,7 +408,17 @@ export function CardDefaultsModal({ characterId, onClose }: CardDefaultsModalPro
 			displayName={characterName}
 			initialData={initialData}
 			onSave={handleSave}
-			sections={['location', 'time', 'outfit', 'profile', 'relationships']}
+			sections={[
+				'location',
+				'time',
+				'calendar',
+				'climate',
+				'astronomy',
+				'outfit',
+				'profile',
+				'relationships',
+				'templates',
+			]}
 			onClose={onClose}
 		/>
 	);
@@ -594,6 +680,416 @@ function TimeSection({
 	);
 }
 
+/**
+ * Calendar section component.
+ */
+function CalendarSection({
+	calendar,
+	expanded,
+	onToggle,
+	onChange,
+}: SectionProps<BTCalendarExtension> & { calendar?: BTCalendarExtension }): JSX.Element {
+	const enabled = calendar?.enabled ?? false;
+
+	// Months and weekdays are edited as text and parsed on blur
+	const [monthsText, setMonthsText] = useState(() =>
+		formatCalendarMonths(calendar?.months ?? []),
+	);
+	const [weekdaysText, setWeekdaysText] = useState(() =>
+		(calendar?.weekdays ?? []).join(', '),
+	);
+
+	const updateField = <K extends keyof BTCalendarExtension>(
+		key: K,
+		value: BTCalendarExtension[K],
+	) => {
+		onChange({
+			...calendar,
+			enabled: calendar?.enabled ?? false,
+			[key]: value,
+		});
+	};
+
+	const updateLeap = (key: 'every' | 'month' | 'days', value: number | undefined) => {
+		const leap = { every: 0, month: 1, ...calendar?.leap, [key]: value };
+		// A leap rule needs a cycle length; clearing it removes the rule
+		updateField('leap', leap.every ? leap : undefined);
+	};
+
+	const parseNumber = (value: string): number | undefined =>
+		value ? parseInt(value, 10) : undefined;
+
+	return (
+		<div className={`bt-defaults-section ${expanded ? 'expanded' : ''}`}>
+			<div className="bt-defaults-section-header" onClick={onToggle}>
+				<div className="bt-defaults-section-title">
+					<i className="fa-solid fa-calendar-days" />
+					Calendar
+				</div>
+				<div className="bt-defaults-section-toggle">
+					<label
+						className="bt-defaults-enable-label"
+						onClick={e => e.stopPropagation()}
+					>
+						<input
+							type="checkbox"
+							checked={enabled}
+							onChange={e =>
+								updateField(
+									'enabled',
+									e.target.checked,
+								)
+							}
+						/>
+						Enable
+					</label>
+					<i className="fa-solid fa-chevron-down bt-defaults-section-arrow" />
+				</div>
+			</div>
+
+			<div
+				className={`bt-defaults-section-content ${!enabled ? 'disabled' : ''}`}
+			>
+				<div className="bt-defaults-field">
+					<label>Name</label>
+					<input
+						type="text"
+						value={calendar?.name ?? ''}
+						onChange={e =>
+							updateField(
+								'name',
+								e.target.value || undefined,
+							)
+						}
+						placeholder='e.g., "Shire Reckoning"'
+						disabled={!enabled}
+					/>
+				</div>
+
+				<div className="bt-defaults-field">
+					<label>Months</label>
+					<textarea
+						value={monthsText}
+						onChange={e => setMonthsText(e.target.value)}
+						onBlur={() => {
+							const months =
+								parseCalendarMonths(monthsText);
+							setMonthsText(formatCalendarMonths(months));
+							updateField(
+								'months',
+								months.length > 0
+									? months
+									: undefined,
+							);
+						}}
+						placeholder={
+							'Afteryule, 30, winter\nSolmath, 30, winter'
+						}
+						rows={8}
+						disabled={!enabled}
+					/>
+					<div className="bt-defaults-help">
+						One month per line: name, days and optionally a
+						season (winter, spring, summer or fall) used for
+						weather.
+					</div>
+				</div>
+
+				<div className="bt-defaults-field">
+					<label>Weekdays</label>
+					<input
+						type="text"
+						value={weekdaysText}
+						onChange={e => setWeekdaysText(e.target.value)}
+						onBlur={() => {
+							const weekdays = weekdaysText
+								.split(',')
+								.map(day => day.trim())
+								.filter(Boolean);
+							setWeekdaysText(weekdays.join(', '));
+							updateField(
+								'weekdays',
+								weekdays.length > 0
+									? weekdays
+									: undefined,
+							);
+						}}
+						placeholder="e.g., Sterday, Sunday, Monday, Trewsday"
+						disabled={!enabled}
+					/>
+					<div className="bt-defaults-help">
+						Comma-separated, in order. Year 1 starts on the
+						first weekday.
+					</div>
+				</div>
+
+				<div className="bt-defaults-field">
+					<label>Era Label</label>
+					<input
+						type="text"
+						value={calendar?.epochLabel ?? ''}
+						onChange={e =>
+							updateField(
+								'epochLabel',
+								e.target.value || undefined,
+							)
+						}
+						placeholder='e.g., "3E" for "3E 201"'
+						disabled={!enabled}
+					/>
+				</div>
+
+				<div className="bt-defaults-field">
+					<label>Leap Years</label>
+					<div className="bt-defaults-row">
+						<input
+							type="number"
+							min={1}
+							value={calendar?.leap?.every ?? ''}
+							onChange={e =>
+								updateLeap(
+									'every',
+									parseNumber(e.target.value),
+								)
+							}
+							placeholder="Every N years"
+							disabled={!enabled}
+						/>
+						<input
+							type="number"
+							min={1}
+							value={calendar?.leap?.month ?? ''}
+							onChange={e =>
+								updateLeap(
+									'month',
+									parseNumber(e.target.value),
+								)
+							}
+							placeholder="Month number"
+							disabled={!enabled || !calendar?.leap}
+						/>
+						<input
+							type="number"
+							min={1}
+							value={calendar?.leap?.days ?? ''}
+							onChange={e =>
+								updateLeap(
+									'days',
+									parseNumber(e.target.value),
+								)
+							}
+							placeholder="Extra days (1)"
+							disabled={!enabled || !calendar?.leap}
+						/>
+					</div>
+					<div className="bt-defaults-help">
+						Adds extra days to a month every N years. Leave
+						empty for no leap years.
+					</div>
+				</div>
+
+				<div className="bt-defaults-help">
+					Shown and extracted dates use this calendar instead of the
+					Gregorian one. Needs at least one month and one weekday.
+				</div>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Climate profiles section component.
+ */
+function ClimateSection({
+	climate,
+	expanded,
+	onToggle,
+	onChange,
+}: SectionProps<BTClimateExtension> & { climate?: BTClimateExtension }): JSX.Element {
+	const enabled = climate?.enabled ?? false;
+
+	return (
+		<div className={`bt-defaults-section ${expanded ? 'expanded' : ''}`}>
+			<div className="bt-defaults-section-header" onClick={onToggle}>
+				<div className="bt-defaults-section-title">
+					<i className="fa-solid fa-cloud-sun" />
+					Climate Profiles
+				</div>
+				<div className="bt-defaults-section-toggle">
+					<label
+						className="bt-defaults-enable-label"
+						onClick={e => e.stopPropagation()}
+					>
+						<input
+							type="checkbox"
+							checked={enabled}
+							onChange={e =>
+								onChange({
+									...climate,
+									enabled: e.target.checked,
+								})
+							}
+						/>
+						Enable
+					</label>
+					<i className="fa-solid fa-chevron-down bt-defaults-section-arrow" />
+				</div>
+			</div>
+
+			<div
+				className={`bt-defaults-section-content ${!enabled ? 'disabled' : ''}`}
+			>
+				<ClimateProfilesEditor
+					profiles={climate?.profiles ?? []}
+					onChange={profiles => onChange({ enabled, profiles })}
+					disabled={!enabled}
+				/>
+				<div className="bt-defaults-help">
+					Used for areas they match in chats with this character,
+					before the profiles in the settings.
+				</div>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * Astronomy section component.
+ */
+function AstronomySection({
+	astronomy,
+	expanded,
+	onToggle,
+	onChange,
+}: SectionProps<BTAstronomyExtension> & { astronomy?: BTAstronomyExtension }): JSX.Element {
+	const enabled = astronomy?.enabled ?? false;
+
+	// Moons are edited as text and parsed on blur
+	const [moonsText, setMoonsText] = useState(() =>
+		formatMoonDefinitions(astronomy?.moons ?? DEFAULT_ASTRONOMY.moons),
+	);
+
+	const updateField = <K extends keyof BTAstronomyExtension>(
+		key: K,
+		value: BTAstronomyExtension[K],
+	) => {
+		onChange({
+			...astronomy,
+			enabled: astronomy?.enabled ?? false,
+			[key]: value,
+		});
+	};
+
+	const parseNumber = (value: string): number | undefined =>
+		value ? parseFloat(value) : undefined;
+
+	return (
+		<div className={`bt-defaults-section ${expanded ? 'expanded' : ''}`}>
+			<div className="bt-defaults-section-header" onClick={onToggle}>
+				<div className="bt-defaults-section-title">
+					<i className="fa-solid fa-moon" />
+					Sun and Moons
+				</div>
+				<div className="bt-defaults-section-toggle">
+					<label
+						className="bt-defaults-enable-label"
+						onClick={e => e.stopPropagation()}
+					>
+						<input
+							type="checkbox"
+							checked={enabled}
+							onChange={e =>
+								updateField(
+									'enabled',
+									e.target.checked,
+								)
+							}
+						/>
+						Enable
+					</label>
+					<i className="fa-solid fa-chevron-down bt-defaults-section-arrow" />
+				</div>
+			</div>
+
+			<div
+				className={`bt-defaults-section-content ${!enabled ? 'disabled' : ''}`}
+			>
+				<div className="bt-defaults-field">
+					<label>Year Length (days)</label>
+					<input
+						type="number"
+						min={1}
+						step="any"
+						value={astronomy?.yearLength ?? ''}
+						onChange={e =>
+							updateField(
+								'yearLength',
+								parseNumber(e.target.value),
+							)
+						}
+						placeholder={String(DEFAULT_ASTRONOMY.yearLength)}
+						disabled={!enabled}
+					/>
+				</div>
+
+				<div className="bt-defaults-field">
+					<label>Axial Tilt (degrees)</label>
+					<input
+						type="number"
+						min={0}
+						max={90}
+						step="any"
+						value={astronomy?.axialTilt ?? ''}
+						onChange={e =>
+							updateField(
+								'axialTilt',
+								parseNumber(e.target.value),
+							)
+						}
+						placeholder={String(DEFAULT_ASTRONOMY.axialTilt)}
+						disabled={!enabled}
+					/>
+					<div className="bt-defaults-help">
+						How much day length changes through the year. 0
+						gives 12-hour days all year; larger values give
+						longer summer days and polar nights further from the
+						poles.
+					</div>
+				</div>
+
+				<div className="bt-defaults-field">
+					<label>Moons</label>
+					<textarea
+						value={moonsText}
+						onChange={e => setMoonsText(e.target.value)}
+						onBlur={() => {
+							const moons =
+								parseMoonDefinitions(moonsText);
+							setMoonsText(formatMoonDefinitions(moons));
+							updateField('moons', moons);
+						}}
+						placeholder={
+							'Masser, 32, 2024-01-01\nSecunda, 10, 2024-01-05'
+						}
+						rows={4}
+						disabled={!enabled}
+					/>
+					<div className="bt-defaults-help">
+						One moon per line: name, days from new moon to new
+						moon, and the date of any new moon. Leave empty for
+						no moons.
+					</div>
+				</div>
+
+				<div className="bt-defaults-help">
+					Used for sunrise, sunset and the moons in forecasts made for
+					chats with this character. Empty fields use Earth's values.
+				</div>
+			</div>
+		</div>
+	);
+}
+
 /**
  * Outfit section component.
  */
@@ -1134,6 +1630,95 @@ function RelationshipCard({
 	);
 }
 
+/**
+ * Injection templates section component.
+ */
+function TemplatesSection({
+	templates,
+	expanded,
+	onToggle,
+	onChange,
+}: SectionProps<BTTemplatesExtension> & { templates?: BTTemplatesExtension }): JSX.Element {
+	const enabled = templates?.enabled ?? false;
+
+	const updateField = <K extends keyof BTTemplatesExtension>(
+		key: K,
+		value: BTTemplatesExtension[K],
+	) => {
+		onChange({
+			...templates,
+			enabled: templates?.enabled ?? false,
+			[key]: value,
+		});
+	};
+
+	return (
+		<div className={`bt-defaults-section ${expanded ? 'expanded' : ''}`}>
+			<div className="bt-defaults-section-header" onClick={onToggle}>
+				<div className="bt-defaults-section-title">
+					<i className="fa-solid fa-file-code" />
+					Injection Templates
+				</div>
+				<div className="bt-defaults-section-toggle">
+					<label
+						className="bt-defaults-enable-label"
+						onClick={e => e.stopPropagation()}
+					>
+						<input
+							type="checkbox"
+							checked={enabled}
+							onChange={e =>
+								updateField(
+									'enabled',
+									e.target.checked,
+								)
+							}
+						/>
+						Enable
+					</label>
+					<i className="fa-solid fa-chevron-down bt-defaults-section-arrow" />
+				</div>
+			</div>
+
+			<div
+				className={`bt-defaults-section-content ${!enabled ? 'disabled' : ''}`}
+			>
+				<div className="bt-defaults-field">
+					<label>State Template</label>
+					<textarea
+						value={templates?.state ?? ''}
+						onChange={e =>
+							updateField(
+								'state',
+								e.target.value || undefined,
+							)
+						}
+						placeholder="Leave empty to use the template from settings"
+						rows={8}
+						disabled={!enabled}
+					/>
+				</div>
+
+				<div className="bt-defaults-field">
+					<label>Narrative Template</label>
+					<textarea
+						value={templates?.narrative ?? ''}
+						onChange={e =>
+							updateField(
+								'narrative',
+								e.target.value || undefined,
+							)
+						}
+						placeholder="Leave empty to use the template from settings"
+						rows={6}
+						disabled={!enabled}
+					/>
+				</div>
+			</div>
+		</div>
+	);
+}
+
 /**
  * Pill input component for array values (feelings, secrets, wants).
  */
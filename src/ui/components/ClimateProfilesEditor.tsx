@@ -0,0 +1,291 @@
+/**
+ * Climate Profiles Editor
+ *
+ * Edits a list of custom climate profiles. Shared by the settings panel
+ * and the character card defaults modal.
+ */
+
+import React, { useState, useEffect } from 'react';
+import type { BaseClimateType, CustomClimateProfile } from '../../weather/types';
+import {
+	CLIMATE_SEASONS,
+	createClimateProfile,
+	formatConditionWeights,
+	formatMonthlyValues,
+	parseConditionWeights,
+	parseMonthlyValues,
+} from '../../weather/climateProfiles';
+
+const BASE_CLIMATES: BaseClimateType[] = [
+	'temperate',
+	'desert',
+	'arctic',
+	'tropical',
+	'mediterranean',
+	'continental',
+	'oceanic',
+];
+
+const MONTHLY_FIELDS: {
+	key: 'monthlyHighs' | 'monthlyLows' | 'monthlyPrecipDays' | 'monthlyHumidity';
+	label: string;
+}[] = [
+	{ key: 'monthlyHighs', label: 'Highs (°F)' },
+	{ key: 'monthlyLows', label: 'Lows (°F)' },
+	{ key: 'monthlyPrecipDays', label: 'Precip days' },
+	{ key: 'monthlyHumidity', label: 'Humidity (%)' },
+];
+
+export interface ClimateProfilesEditorProps {
+	profiles: CustomClimateProfile[];
+	onChange: (profiles: CustomClimateProfile[]) => void;
+	disabled?: boolean;
+}
+
+/**
+ * Text input that is parsed when it loses focus. Text that does not parse
+ * is reset to the current value.
+ */
+function ParsedTextField<T>({
+	value,
+	format,
+	parse,
+	onCommit,
+	placeholder,
+	disabled,
+}: {
+	value: T;
+	format: (value: T) => string;
+	parse: (text: string) => T | null;
+	onCommit: (value: T) => void;
+	placeholder?: string;
+	disabled?: boolean;
+}) {
+	const formatted = format(value);
+	const [text, setText] = useState(formatted);
+
+	useEffect(() => {
+		setText(formatted);
+	}, [formatted]);
+
+	return (
+		<input
+			type="text"
+			className="text_pole"
+			value={text}
+			onChange={e => setText(e.target.value)}
+			onBlur={() => {
+				const parsed = parse(text);
+				if (parsed === null) {
+					setText(formatted);
+					return;
+				}
+				onCommit(parsed);
+			}}
+			placeholder={placeholder}
+			disabled={disabled}
+		/>
+	);
+}
+
+const parseAreas = (text: string): string[] =>
+	text
+		.split(',')
+		.map(area => area.trim())
+		.filter(Boolean);
+
+export function ClimateProfilesEditor({
+	profiles,
+	onChange,
+	disabled,
+}: ClimateProfilesEditorProps) {
+	const [base, setBase] = useState<BaseClimateType>('temperate');
+
+	const updateProfile = (index: number, update: Partial<CustomClimateProfile>) => {
+		onChange(profiles.map((p, i) => (i === index ? { ...p, ...update } : p)));
+	};
+
+	const addProfile = () => {
+		onChange([
+			...profiles,
+			createClimateProfile(`Climate ${profiles.length + 1}`, base),
+		]);
+	};
+
+	return (
+		<div className="bt-climate-profiles">
+			{profiles.map((profile, index) => (
+				<div key={index} className="bt-climate-profile">
+					<div className="bt-climate-profile-header">
+						<input
+							type="text"
+							className="text_pole"
+							value={profile.name}
+							onChange={e =>
+								updateProfile(index, {
+									name: e.target.value,
+								})
+							}
+							placeholder="Profile name"
+							disabled={disabled}
+						/>
+						<button
+							className="menu_button"
+							title="Remove profile"
+							onClick={() =>
+								onChange(
+									profiles.filter(
+										(_, i) =>
+											i !== index,
+									),
+								)
+							}
+							disabled={disabled}
+						>
+							<i className="fa-solid fa-trash" />
+						</button>
+					</div>
+
+					<div className="bt-climate-profile-field">
+						<span>Areas</span>
+						<ParsedTextField
+							value={profile.areas}
+							format={areas => areas.join(', ')}
+							parse={parseAreas}
+							onCommit={areas =>
+								updateProfile(index, { areas })
+							}
+							placeholder='e.g., "The Ashlands, *Wastes"'
+							disabled={disabled}
+						/>
+					</div>
+
+					{MONTHLY_FIELDS.map(({ key, label }) => (
+						<div key={key} className="bt-climate-profile-field">
+							<span>{label}</span>
+							<ParsedTextField
+								value={profile[key]}
+								format={formatMonthlyValues}
+								parse={parseMonthlyValues}
+								onCommit={values =>
+									updateProfile(index, {
+										[key]: values,
+									})
+								}
+								placeholder="12 values, January first"
+								disabled={disabled}
+							/>
+						</div>
+					))}
+
+					<div className="bt-climate-profile-field">
+						<span>Variation (°F)</span>
+						<input
+							type="number"
+							className="text_pole"
+							min={0}
+							step={0.5}
+							value={profile.tempStdDev}
+							onChange={e => {
+								const value = parseFloat(
+									e.target.value,
+								);
+								if (!isNaN(value) && value >= 0) {
+									updateProfile(index, {
+										tempStdDev: value,
+									});
+								}
+							}}
+							disabled={disabled}
+						/>
+					</div>
+
+					<div className="bt-climate-profile-field">
+						<span>Latitude</span>
+						<input
+							type="number"
+							className="text_pole"
+							min={-90}
+							max={90}
+							step="any"
+							value={profile.latitude ?? ''}
+							onChange={e => {
+								const value = parseFloat(
+									e.target.value,
+								);
+								if (isNaN(value)) {
+									updateProfile(index, {
+										latitude: undefined,
+									});
+								} else if (Math.abs(value) <= 90) {
+									updateProfile(index, {
+										latitude: value,
+									});
+								}
+							}}
+							placeholder="45"
+							disabled={disabled}
+						/>
+					</div>
+
+					{CLIMATE_SEASONS.map(season => (
+						<div
+							key={season}
+							className="bt-climate-profile-field"
+						>
+							<span>{season}</span>
+							<ParsedTextField
+								value={
+									profile.conditionWeights[
+										season
+									]
+								}
+								format={formatConditionWeights}
+								parse={parseConditionWeights}
+								onCommit={weights =>
+									updateProfile(index, {
+										conditionWeights: {
+											...profile.conditionWeights,
+											[season]: weights,
+										},
+									})
+								}
+								placeholder="e.g., sunny: 0.5, rain: 0.3, overcast: 0.2"
+								disabled={disabled}
+							/>
+						</div>
+					))}
+				</div>
+			))}
+
+			<div className="bt-climate-profile-add">
+				<select
+					className="text_pole"
+					value={base}
+					onChange={e => setBase(e.target.value as BaseClimateType)}
+					disabled={disabled}
+				>
+					{BASE_CLIMATES.map(climate => (
+						<option key={climate} value={climate}>
+							Based on {climate}
+						</option>
+					))}
+				</select>
+				<button
+					className="menu_button"
+					onClick={addProfile}
+					disabled={disabled}
+				>
+					<i className="fa-solid fa-plus" /> Add Profile
+				</button>
+			</div>
+			<small>
+				Areas are matched by name, or by any comma-separated part of the
+				area ("Skyrim" matches "Whiterun, Skyrim"). "*" matches any text.
+				Latitude sets sunrise, sunset and moonrise (negative is south).
+				Condition weights per season use: clear, sunny, partly_cloudy,
+				overcast, drizzle, rain, thunderstorm and snow.
+			</small>
+		</div>
+	);
+}
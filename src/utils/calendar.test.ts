@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest';
+import {
+	describeCalendar,
+	formatCalendarMonths,
+	fromCalendarDate,
+	getCalendarSeason,
+	getClimateMonth,
+	getYearLength,
+	isValidCalendarDate,
+	isValidCalendarDefinition,
+	parseCalendarDate,
+	parseCalendarMonths,
+	toCalendarDate,
+	type CalendarDefinition,
+} from './calendar';
+
+/**
+ * 13 months of 28 days (364 days), a 7-day week and a leap day every
+ * 4 years at the end of the last month.
+ */
+const thirteenMonths: CalendarDefinition = {
+	name: 'Reckoning',
+	months: Array.from({ length: 13 }, (_, i) => ({
+		name: `Month${i + 1}`,
+		days: 28,
+		season: (['winter', 'spring', 'summer', 'fall'] as const)[Math.floor(i / 3.25)],
+	})),
+	weekdays: ['One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven'],
+	epochLabel: '3E',
+	leap: { every: 4, month: 13 },
+};
+
+/**
+ * Two months of 5 days and a 10-day week.
+ */
+const tiny: CalendarDefinition = {
+	months: [
+		{ name: 'Frost', days: 5 },
+		{ name: 'Thaw', days: 5 },
+	],
+	weekdays: ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'],
+};
+
+describe('isValidCalendarDefinition', () => {
+	it('accepts a complete calendar', () => {
+		expect(isValidCalendarDefinition(thirteenMonths)).toBe(true);
+		expect(isValidCalendarDefinition(tiny)).toBe(true);
+	});
+
+	it('rejects calendars without months or weekdays', () => {
+		expect(isValidCalendarDefinition({ ...tiny, months: [] })).toBe(false);
+		expect(isValidCalendarDefinition({ ...tiny, weekdays: [] })).toBe(false);
+		expect(
+			isValidCalendarDefinition({
+				...tiny,
+				months: [{ name: 'Frost', days: 0 }],
+			}),
+		).toBe(false);
+	});
+
+	it('rejects leap rules pointing at a missing month', () => {
+		expect(isValidCalendarDefinition({ ...tiny, leap: { every: 4, month: 3 } })).toBe(
+			false,
+		);
+	});
+});
+
+describe('toCalendarDate / fromCalendarDate', () => {
+	it('starts year 1 on 0001-01-01 with the first weekday', () => {
+		expect(toCalendarDate({ year: 1, month: 1, day: 1 }, tiny)).toEqual({
+			year: 1,
+			month: 1,
+			day: 1,
+			dayOfWeek: 'A',
+		});
+	});
+
+	it('counts days through months, years and weeks', () => {
+		// 0001-01-13 is day index 12: year 2 (10 days per year), month 1, day 3
+		expect(toCalendarDate({ year: 1, month: 1, day: 13 }, tiny)).toEqual({
+			year: 2,
+			month: 1,
+			day: 3,
+			dayOfWeek: 'C',
+		});
+	});
+
+	it('round-trips dates across leap years', () => {
+		for (const date of [
+			{ year: 201, month: 13, day: 28 },
+			{ year: 204, month: 13, day: 29 },
+			{ year: 2024, month: 7, day: 14 },
+		]) {
+			const gregorian = fromCalendarDate(date, thirteenMonths);
+			expect(toCalendarDate(gregorian, thirteenMonths)).toMatchObject(date);
+		}
+	});
+
+	it('adds the leap days to leap years only', () => {
+		expect(getYearLength(thirteenMonths, 203)).toBe(364);
+		expect(getYearLength(thirteenMonths, 204)).toBe(365);
+	});
+
+	it('moves one day forward for each Gregorian day', () => {
+		const start = fromCalendarDate({ year: 204, month: 13, day: 28 }, thirteenMonths);
+		const next = new Date(0);
+		next.setUTCFullYear(start.year, start.month - 1, start.day + 1);
+
+		expect(
+			toCalendarDate(
+				{
+					year: next.getUTCFullYear(),
+					month: next.getUTCMonth() + 1,
+					day: next.getUTCDate(),
+				},
+				thirteenMonths,
+			),
+		).toMatchObject({ year: 204, month: 13, day: 29 });
+	});
+});
+
+describe('isValidCalendarDate', () => {
+	it('checks Gregorian dates without a calendar', () => {
+		expect(isValidCalendarDate({ year: 2024, month: 2, day: 29 }, null)).toBe(true);
+		expect(isValidCalendarDate({ year: 2023, month: 2, day: 29 }, null)).toBe(false);
+		expect(isValidCalendarDate({ year: 2024, month: 13, day: 1 }, null)).toBe(false);
+	});
+
+	it('checks month and day ranges of a custom calendar', () => {
+		expect(isValidCalendarDate({ year: 204, month: 13, day: 29 }, thirteenMonths)).toBe(
+			true,
+		);
+		expect(isValidCalendarDate({ year: 203, month: 13, day: 29 }, thirteenMonths)).toBe(
+			false,
+		);
+		expect(isValidCalendarDate({ year: 203, month: 14, day: 1 }, thirteenMonths)).toBe(
+			false,
+		);
+	});
+});
+
+describe('parseCalendarDate', () => {
+	it('reads Gregorian dates without a calendar', () => {
+		expect(parseCalendarDate('2024-02-29', null)).toEqual({
+			year: 2024,
+			month: 2,
+			day: 29,
+		});
+		expect(parseCalendarDate('2023-02-29', null)).toBeNull();
+	});
+
+	it('reads dates on a custom calendar', () => {
+		const date = parseCalendarDate('201-13-28', thirteenMonths);
+
+		expect(date).toEqual(
+			fromCalendarDate({ year: 201, month: 13, day: 28 }, thirteenMonths),
+		);
+		expect(toCalendarDate(date!, thirteenMonths)).toMatchObject({
+			year: 201,
+			month: 13,
+			day: 28,
+		});
+	});
+
+	it('rejects dates not on the calendar', () => {
+		expect(parseCalendarDate('201-14-01', thirteenMonths)).toBeNull();
+		expect(parseCalendarDate('201-01-29', thirteenMonths)).toBeNull();
+		expect(parseCalendarDate('Month1 3, 201', thirteenMonths)).toBeNull();
+	});
+});
+
+describe('seasons', () => {
+	it('uses Northern Hemisphere seasons without a calendar', () => {
+		expect(getCalendarSeason({ year: 2024, month: 1, day: 5 }, null)).toBe('winter');
+		expect(getClimateMonth({ year: 2024, month: 7, day: 5 }, null)).toBe(7);
+	});
+
+	it('takes the season from the custom month', () => {
+		const date = fromCalendarDate({ year: 10, month: 8, day: 1 }, thirteenMonths);
+
+		expect(getCalendarSeason(date, thirteenMonths)).toBe('summer');
+	});
+
+	it("spreads a season's months over its Gregorian months", () => {
+		const climateMonths = [8, 9, 10].map(month =>
+			getClimateMonth(
+				fromCalendarDate({ year: 10, month, day: 1 }, thirteenMonths),
+				thirteenMonths,
+			),
+		);
+
+		expect(climateMonths).toEqual([6, 7, 8]);
+	});
+
+	it('starts a season spanning the new year with its last months', () => {
+		const calendar: CalendarDefinition = {
+			months: [
+				{ name: 'Deep', days: 30, season: 'winter' },
+				{ name: 'Thaw', days: 30, season: 'spring' },
+				{ name: 'Sun', days: 30, season: 'summer' },
+				{ name: 'Fall', days: 30, season: 'fall' },
+				{ name: 'First Frost', days: 30, season: 'winter' },
+			],
+			weekdays: ['Day'],
+		};
+		const climateMonth = (month: number) =>
+			getClimateMonth(
+				fromCalendarDate({ year: 3, month, day: 1 }, calendar),
+				calendar,
+			);
+
+		expect(climateMonth(5)).toBe(12);
+		expect(climateMonth(1)).toBe(1);
+	});
+
+	it('falls back to the Gregorian month when the month has no season', () => {
+		expect(getCalendarSeason({ year: 5, month: 3, day: 1 }, tiny)).toBeNull();
+		expect(getClimateMonth({ year: 5, month: 3, day: 1 }, tiny)).toBe(3);
+	});
+});
+
+describe('describeCalendar', () => {
+	it('lists months, weekdays, era and leap rule', () => {
+		const description = describeCalendar(thirteenMonths);
+
+		expect(description).toContain('the Reckoning');
+		expect(description).toContain('13. Month13 (28 days)');
+		expect(description).toContain('One, Two, Three');
+		expect(description).toContain('"3E 201"');
+		expect(description).toContain('Every 4 years, Month13 has 1 extra day(s)');
+	});
+
+	it('describes the Gregorian calendar without a custom one', () => {
+		expect(describeCalendar(null)).toContain('Gregorian');
+	});
+});
+
+describe('parseCalendarMonths / formatCalendarMonths', () => {
+	it('parses one month per line and skips bad lines', () => {
+		expect(parseCalendarMonths('Frost, 30, Winter\nThaw, 28\nbroken\nNone, x')).toEqual(
+			[
+				{ name: 'Frost', days: 30, season: 'winter' },
+				{ name: 'Thaw', days: 28 },
+			],
+		);
+	});
+
+	it('formats months back to text', () => {
+		const text = 'Frost, 30, winter\nThaw, 28';
+
+		expect(formatCalendarMonths(parseCalendarMonths(text))).toBe(text);
+	});
+});
@@ -0,0 +1,454 @@
+// ============================================
+// Custom Calendar Utilities
+// ============================================
+//
+// Narrative time is always stored as a Gregorian moment, so deltas and all the
+// date arithmetic keep working unchanged. A custom calendar is only a way of
+// reading those days: day 1 of month 1 of year 1 in the calendar is the
+// Gregorian date 0001-01-01, and every later day is counted on from there.
+
+import type moment from 'moment';
+
+/**
+ * Season of a calendar month, used for weather.
+ */
+export type CalendarSeason = 'winter' | 'spring' | 'summer' | 'fall';
+
+export const CALENDAR_SEASONS: readonly CalendarSeason[] = ['winter', 'spring', 'summer', 'fall'];
+
+/**
+ * A month of a custom calendar.
+ */
+export interface CalendarMonth {
+	name: string;
+	/** Days in the month (in a common year) */
+	days: number;
+	/** Season the month falls in (omitted = weather uses the Gregorian month) */
+	season?: CalendarSeason;
+}
+
+/**
+ * Leap year rule: every Nth year, one month gets extra days.
+ */
+export interface CalendarLeapRule {
+	/** A leap year comes every this many years */
+	every: number;
+	/** Years where (year - offset) divides by every are leap years (default 0) */
+	offset?: number;
+	/** Month (1-based) that gets the extra days */
+	month: number;
+	/** Extra days in a leap year (default 1) */
+	days?: number;
+}
+
+/**
+ * A custom (fictional) calendar.
+ */
+export interface CalendarDefinition {
+	/** Calendar name, shown to the LLM (e.g., "Calendar of Tamriel") */
+	name?: string;
+	/** Months in order */
+	months: CalendarMonth[];
+	/** Weekday names in order; year 1 starts on the first one */
+	weekdays: string[];
+	/** Era written before the year (e.g., "3E" renders "3E 201") */
+	epochLabel?: string;
+	leap?: CalendarLeapRule;
+}
+
+/**
+ * A date on the Gregorian calendar (1-based month).
+ */
+export interface GregorianDate {
+	year: number;
+	month: number;
+	day: number;
+}
+
+/**
+ * A date on a custom calendar (1-based month).
+ */
+export interface CalendarDate {
+	year: number;
+	month: number;
+	day: number;
+	dayOfWeek: string;
+}
+
+/**
+ * Gregorian months each season covers, in order.
+ */
+const SEASON_MONTHS: Record<CalendarSeason, number[]> = {
+	winter: [12, 1, 2],
+	spring: [3, 4, 5],
+	summer: [6, 7, 8],
+	fall: [9, 10, 11],
+};
+
+// ============================================
+// Validation
+// ============================================
+
+function isPositiveInteger(value: unknown): value is number {
+	return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+function isValidCalendarMonth(value: unknown): value is CalendarMonth {
+	if (!value || typeof value !== 'object') return false;
+	const v = value as Record<string, unknown>;
+	if (typeof v.name !== 'string' || !v.name.trim()) return false;
+	if (!isPositiveInteger(v.days)) return false;
+	if (v.season !== undefined && !CALENDAR_SEASONS.includes(v.season as CalendarSeason))
+		return false;
+	return true;
+}
+
+/**
+ * Check if a value is a complete, usable calendar definition.
+ */
+export function isValidCalendarDefinition(value: unknown): value is CalendarDefinition {
+	if (!value || typeof value !== 'object') return false;
+	const v = value as Record<string, unknown>;
+	if (v.name !== undefined && typeof v.name !== 'string') return false;
+	if (v.epochLabel !== undefined && typeof v.epochLabel !== 'string') return false;
+	if (!Array.isArray(v.months) || v.months.length === 0) return false;
+	if (!v.months.every(isValidCalendarMonth)) return false;
+	if (!Array.isArray(v.weekdays) || v.weekdays.length === 0) return false;
+	if (!v.weekdays.every(day => typeof day === 'string' && day.trim())) return false;
+
+	if (v.leap !== undefined) {
+		if (!v.leap || typeof v.leap !== 'object') return false;
+		const leap = v.leap as Record<string, unknown>;
+		if (!isPositiveInteger(leap.every)) return false;
+		if (leap.offset !== undefined && !Number.isInteger(leap.offset)) return false;
+		if (!isPositiveInteger(leap.month) || leap.month > v.months.length) return false;
+		if (leap.days !== undefined && !isPositiveInteger(leap.days)) return false;
+	}
+	return true;
+}
+
+// ============================================
+// Year and Month Lengths
+// ============================================
+
+/**
+ * Check if a year of a custom calendar is a leap year.
+ */
+export function isLeapYear(calendar: CalendarDefinition, year: number): boolean {
+	const { leap } = calendar;
+	if (!leap) return false;
+	return (year - (leap.offset ?? 0)) % leap.every === 0;
+}
+
+/**
+ * Get the number of days in a month of a custom calendar.
+ * @param month - Month (1-based)
+ */
+export function getMonthLength(calendar: CalendarDefinition, year: number, month: number): number {
+	const base = calendar.months[month - 1]?.days ?? 0;
+	const { leap } = calendar;
+	if (leap && leap.month === month && isLeapYear(calendar, year)) {
+		return base + (leap.days ?? 1);
+	}
+	return base;
+}
+
+/**
+ * Get the number of days in a year of a custom calendar.
+ */
+export function getYearLength(calendar: CalendarDefinition, year: number): number {
+	const common = calendar.months.reduce((sum, month) => sum + month.days, 0);
+	return isLeapYear(calendar, year) ? common + (calendar.leap?.days ?? 1) : common;
+}
+
+/**
+ * Years and days in one full leap cycle. Every cycle starting at year 1 holds
+ * exactly one leap year, so whole cycles can be skipped at once.
+ */
+function getLeapCycle(calendar: CalendarDefinition): { years: number; days: number } {
+	const common = calendar.months.reduce((sum, month) => sum + month.days, 0);
+	if (!calendar.leap) return { years: 1, days: common };
+	return {
+		years: calendar.leap.every,
+		days: calendar.leap.every * common + (calendar.leap.days ?? 1),
+	};
+}
+
+// ============================================
+// Conversion
+// ============================================
+
+/**
+ * Days since 1970-01-01 for a Gregorian date.
+ */
+function daysFromGregorian({ year, month, day }: GregorianDate): number {
+	const y = month <= 2 ? year - 1 : year;
+	const era = Math.floor(y / 400);
+	const yearOfEra = y - era * 400;
+	const dayOfYear = Math.floor((153 * (month + (month > 2 ? -3 : 9)) + 2) / 5) + day - 1;
+	const dayOfEra =
+		yearOfEra * 365 +
+		Math.floor(yearOfEra / 4) -
+		Math.floor(yearOfEra / 100) +
+		dayOfYear;
+	return era * 146097 + dayOfEra - 719468;
+}
+
+/**
+ * Gregorian date for a number of days since 1970-01-01.
+ */
+function gregorianFromDays(days: number): GregorianDate {
+	const z = days + 719468;
+	const era = Math.floor(z / 146097);
+	const dayOfEra = z - era * 146097;
+	const yearOfEra = Math.floor(
+		(dayOfEra -
+			Math.floor(dayOfEra / 1460) +
+			Math.floor(dayOfEra / 36524) -
+			Math.floor(dayOfEra / 146096)) /
+			365,
+	);
+	const dayOfYear =
+		dayOfEra -
+		(365 * yearOfEra + Math.floor(yearOfEra / 4) - Math.floor(yearOfEra / 100));
+	const mp = Math.floor((5 * dayOfYear + 2) / 153);
+	const day = dayOfYear - Math.floor((153 * mp + 2) / 5) + 1;
+	const month = mp < 10 ? mp + 3 : mp - 9;
+	return { year: yearOfEra + era * 400 + (month <= 2 ? 1 : 0), month, day };
+}
+
+/** The Gregorian day the first day of every custom calendar falls on */
+const CALENDAR_START = daysFromGregorian({ year: 1, month: 1, day: 1 });
+
+/**
+ * Get the Gregorian date of a moment (local time, 1-based month).
+ */
+export function getGregorianDate(time: moment.Moment): GregorianDate {
+	return { year: time.year(), month: time.month() + 1, day: time.date() };
+}
+
+/**
+ * Read a Gregorian date on a custom calendar.
+ */
+export function toCalendarDate(date: GregorianDate, calendar: CalendarDefinition): CalendarDate {
+	const dayIndex = daysFromGregorian(date) - CALENDAR_START;
+	const cycle = getLeapCycle(calendar);
+	const cycles = Math.floor(dayIndex / cycle.days);
+
+	let year = 1 + cycles * cycle.years;
+	let remaining = dayIndex - cycles * cycle.days;
+	while (remaining >= getYearLength(calendar, year)) {
+		remaining -= getYearLength(calendar, year);
+		year++;
+	}
+
+	let month = 1;
+	while (
+		month < calendar.months.length &&
+		remaining >= getMonthLength(calendar, year, month)
+	) {
+		remaining -= getMonthLength(calendar, year, month);
+		month++;
+	}
+
+	const weekdays = calendar.weekdays.length;
+	return {
+		year,
+		month,
+		day: remaining + 1,
+		dayOfWeek: calendar.weekdays[((dayIndex % weekdays) + weekdays) % weekdays],
+	};
+}
+
+/**
+ * Get the Gregorian date a custom calendar date falls on.
+ * Days past the end of the month roll over into the next one.
+ */
+export function fromCalendarDate(
+	date: Pick<CalendarDate, 'year' | 'month' | 'day'>,
+	calendar: CalendarDefinition,
+): GregorianDate {
+	const cycle = getLeapCycle(calendar);
+	const cycles = Math.floor((date.year - 1) / cycle.years);
+
+	let dayIndex = cycles * cycle.days;
+	for (let year = 1 + cycles * cycle.years; year < date.year; year++) {
+		dayIndex += getYearLength(calendar, year);
+	}
+	for (let month = 1; month < date.month; month++) {
+		dayIndex += getMonthLength(calendar, date.year, month);
+	}
+	dayIndex += date.day - 1;
+
+	return gregorianFromDays(CALENDAR_START + dayIndex);
+}
+
+/**
+ * Check that a date exists on a calendar (null = Gregorian).
+ */
+export function isValidCalendarDate(
+	date: Pick<CalendarDate, 'year' | 'month' | 'day'>,
+	calendar: CalendarDefinition | null,
+): boolean {
+	if (!Number.isInteger(date.year) || !Number.isInteger(date.month)) return false;
+	if (!Number.isInteger(date.day) || date.day < 1) return false;
+
+	if (!calendar) {
+		if (date.month < 1 || date.month > 12) return false;
+		const daysInMonth = new Date(Date.UTC(2000, date.month, 0)).getUTCDate();
+		const isFebruary29 = date.month === 2 && date.day === 29;
+		const gregorianLeap =
+			(date.year % 4 === 0 && date.year % 100 !== 0) || date.year % 400 === 0;
+		return date.day <= daysInMonth && (!isFebruary29 || gregorianLeap);
+	}
+
+	if (date.month < 1 || date.month > calendar.months.length) return false;
+	return date.day <= getMonthLength(calendar, date.year, date.month);
+}
+
+/**
+ * Parse a date written as YYYY-MM-DD on a calendar (null = Gregorian).
+ *
+ * @returns The Gregorian date it falls on, or null if it isn't a date on the calendar
+ */
+export function parseCalendarDate(
+	text: string,
+	calendar: CalendarDefinition | null,
+): GregorianDate | null {
+	const match = /^(\d+)-(\d{1,2})-(\d{1,2})$/.exec(text.trim());
+	if (!match) return null;
+
+	const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+	if (!isValidCalendarDate(date, calendar)) return null;
+	return calendar ? fromCalendarDate(date, calendar) : date;
+}
+
+// ============================================
+// Display
+// ============================================
+
+/**
+ * Format a custom calendar year with its epoch label (e.g., "3E 201").
+ */
+export function formatCalendarYear(year: number, calendar: CalendarDefinition): string {
+	return calendar.epochLabel ? `${calendar.epochLabel} ${year}` : String(year);
+}
+
+/**
+ * Describe the calendar in effect for the LLM (null = Gregorian).
+ */
+export function describeCalendar(calendar: CalendarDefinition | null): string {
+	if (!calendar) {
+		return 'Gregorian calendar: months 1-12 (January = 1), weeks run Sunday to Saturday.';
+	}
+
+	const lines = [
+		calendar.name
+			? `This story uses its own calendar, the ${calendar.name}.`
+			: 'This story uses its own calendar.',
+		`Months (${calendar.months.length}): ${calendar.months
+			.map((month, i) => `${i + 1}. ${month.name} (${month.days} days)`)
+			.join(', ')}`,
+		`Days of the week (${calendar.weekdays.length}): ${calendar.weekdays.join(', ')}`,
+	];
+	if (calendar.epochLabel) {
+		lines.push(`Years are written with the era, e.g. "${calendar.epochLabel} 201"`);
+	}
+	if (calendar.leap) {
+		const month = calendar.months[calendar.leap.month - 1]?.name ?? '';
+		lines.push(
+			`Every ${calendar.leap.every} years, ${month} has ${calendar.leap.days ?? 1} extra day(s)`,
+		);
+	}
+	lines.push(
+		'Give dates on this calendar: month is the month number, dayOfWeek is one of the day names above, year is the number without the era.',
+	);
+	return lines.join('\n');
+}
+
+// ============================================
+// Seasons
+// ============================================
+
+/**
+ * Get the season of a Gregorian date on a calendar (null = Gregorian,
+ * Northern Hemisphere). Returns null if the month has no season set.
+ */
+export function getCalendarSeason(
+	date: GregorianDate,
+	calendar: CalendarDefinition | null,
+): CalendarSeason | null {
+	if (!calendar) {
+		return (
+			CALENDAR_SEASONS.find(season =>
+				SEASON_MONTHS[season].includes(date.month),
+			) ?? null
+		);
+	}
+	const { month } = toCalendarDate(date, calendar);
+	return calendar.months[month - 1].season ?? null;
+}
+
+/**
+ * Get the Gregorian month (1-12) whose climate fits a date, for weather.
+ *
+ * The custom months of each season are spread across that season's Gregorian
+ * months, so the first of three winter months is read as December and the
+ * last as February. Months without a season use the Gregorian month.
+ */
+export function getClimateMonth(date: GregorianDate, calendar: CalendarDefinition | null): number {
+	if (!calendar) return date.month;
+
+	const { month } = toCalendarDate(date, calendar);
+	const season = calendar.months[month - 1].season;
+	if (!season) return date.month;
+
+	// Months of this season in order, starting after a gap so that a season
+	// spanning the new year (e.g. 12, 1, 2) starts with its last months
+	const indices = calendar.months
+		.map((m, i) => (m.season === season ? i : -1))
+		.filter(i => i >= 0);
+	const gap = indices.findIndex((index, i) => i > 0 && index - indices[i - 1] > 1);
+	const ordered = gap > 0 ? [...indices.slice(gap), ...indices.slice(0, gap)] : indices;
+
+	const position = ordered.indexOf(month - 1);
+	const months = SEASON_MONTHS[season];
+	return months[Math.floor((position * months.length) / ordered.length)];
+}
+
+// ============================================
+// Editing
+// ============================================
+
+/**
+ * Parse months written one per line as "Name, days, season" (season optional).
+ * Lines that don't parse are skipped.
+ */
+export function parseCalendarMonths(text: string): CalendarMonth[] {
+	const months: CalendarMonth[] = [];
+	for (const line of text.split('\n')) {
+		const [name, days, season] = line.split(',').map(part => part.trim());
+		const dayCount = Number(days);
+		if (!name || !isPositiveInteger(dayCount)) continue;
+
+		const month: CalendarMonth = { name, days: dayCount };
+		if (CALENDAR_SEASONS.includes(season?.toLowerCase() as CalendarSeason)) {
+			month.season = season.toLowerCase() as CalendarSeason;
+		}
+		months.push(month);
+	}
+	return months;
+}
+
+/**
+ * Format months for editing (inverse of parseCalendarMonths).
+ */
+export function formatCalendarMonths(months: CalendarMonth[]): string {
+	return months
+		.map(month =>
+			month.season
+				? `${month.name}, ${month.days}, ${month.season}`
+				: `${month.name}, ${month.days}`,
+		)
+		.join('\n');
+}
@@ -1,6 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { getDayOrdinal, formatNarrativeDateTime } from './dateFormat';
+import moment from 'moment';
+import {
+	getDayOrdinal,
+	formatNarrativeDateTime,
+	formatMoment,
+	getDayAbbreviation,
+} from './dateFormat';
 import type { NarrativeDateTime } from '../types/state';
+import type { CalendarDefinition } from './calendar';
 
 describe('getDayOrdinal', () => {
 	it('returns "st" for 1, 21, 31', () => {
@@ -141,3 +148,51 @@ describe('formatNarrativeDateTime', () => {
 		});
 	});
 });
+
+describe('with a custom calendar', () => {
+	const calendar: CalendarDefinition = {
+		months: [
+			{ name: 'Frostfall', days: 30 },
+			{ name: 'Sun Height', days: 30 },
+		],
+		weekdays: ['Morndas', 'Tirdas', 'Middas'],
+		epochLabel: '3E',
+	};
+	// 0001-03-02 is day index 60: year 2, Frostfall 1st, a Morndas
+	const time = moment({ year: 1, month: 2, date: 2, hour: 14, minute: 30 });
+
+	it('formats moments on the calendar', () => {
+		expect(formatMoment(time, 'dddd, MMMM Do, YYYY [at] h:mm A', calendar)).toBe(
+			'Morndas, Frostfall 1st, 3E 2 at 2:30 PM',
+		);
+		expect(formatMoment(time, 'ddd, MMM D', calendar)).toBe('Mor, Fro 1');
+	});
+
+	it('formats moments on the Gregorian calendar without one', () => {
+		const gregorian = moment({ year: 2024, month: 5, date: 15, hour: 9 });
+
+		expect(formatMoment(gregorian, 'ddd, MMM D [at] HH:mm')).toBe(
+			'Sat, Jun 15 at 09:00',
+		);
+	});
+
+	it('formats narrative datetimes on the calendar', () => {
+		const narrative: NarrativeDateTime = {
+			year: 1,
+			month: 3,
+			day: 3,
+			hour: 9,
+			minute: 5,
+			second: 0,
+			dayOfWeek: 'Saturday',
+		};
+
+		expect(formatNarrativeDateTime(narrative, calendar)).toBe(
+			'Tirdas, Frostfall 2nd, 3E 2 at 9:05 AM',
+		);
+	});
+
+	it('abbreviates forecast days on the calendar', () => {
+		expect(getDayAbbreviation('0001-03-04', calendar)).toBe('Mid');
+	});
+});
@@ -2,8 +2,15 @@
 // Date Formatting Utilities
 // ============================================
 
+import type moment from 'moment';
 import type { NarrativeDateTime } from '../types/state';
 import { MONTH_NAMES } from '../ui/constants';
+import {
+	formatCalendarYear,
+	getGregorianDate,
+	toCalendarDate,
+	type CalendarDefinition,
+} from './calendar';
 
 /**
  * Day abbreviations for forecast display.
@@ -34,17 +41,97 @@ export function getDayOrdinal(day: number): string {
  * Output format: "Monday, June 15th, 2024 at 2:30 PM"
  *
  * @param time - The narrative datetime to format
+ * @param calendar - Custom calendar to show the date on (default Gregorian)
  * @returns Formatted date/time string
  */
-export function formatNarrativeDateTime(time: NarrativeDateTime): string {
+export function formatNarrativeDateTime(
+	time: NarrativeDateTime,
+	calendar?: CalendarDefinition | null,
+): string {
 	const hour12 = time.hour % 12 || 12;
 	const ampm = time.hour < 12 ? 'AM' : 'PM';
 	const minuteStr = String(time.minute).padStart(2, '0');
+
+	if (calendar) {
+		const date = toCalendarDate(time, calendar);
+		const monthName = calendar.months[date.month - 1].name;
+		return `${date.dayOfWeek}, ${monthName} ${date.day}${getDayOrdinal(date.day)}, ${formatCalendarYear(date.year, calendar)} at ${hour12}:${minuteStr} ${ampm}`;
+	}
+
 	const dayOrdinal = getDayOrdinal(time.day);
 
 	return `${time.dayOfWeek}, ${MONTH_NAMES[time.month - 1]} ${time.day}${dayOrdinal}, ${time.year} at ${hour12}:${minuteStr} ${ampm}`;
 }
 
+/**
+ * Date tokens of moment format strings that depend on the calendar.
+ * Bracketed literals are matched too, so they're left alone.
+ */
+const CALENDAR_TOKENS = /\[[^\]]*\]|dddd|ddd|MMMM|MMM|MM|Do|DD|D|M|YYYY/g;
+
+/**
+ * Format a moment with a moment format string, showing the date on a custom
+ * calendar. Without a calendar this is just time.format(pattern).
+ *
+ * Supported date tokens: dddd, ddd, MMMM, MMM, MM, M, Do, DD, D and YYYY
+ * (which includes the epoch label). Time tokens are formatted by moment.
+ *
+ * @param time - The moment to format
+ * @param pattern - moment format string (e.g., "dddd, MMMM D, YYYY [at] h:mm A")
+ * @param calendar - Custom calendar to show the date on (default Gregorian)
+ */
+export function formatMoment(
+	time: moment.Moment,
+	pattern: string,
+	calendar?: CalendarDefinition | null,
+): string {
+	if (!calendar) return time.format(pattern);
+
+	const date = toCalendarDate(getGregorianDate(time), calendar);
+	const monthName = calendar.months[date.month - 1].name;
+
+	const calendarPattern = pattern.replace(CALENDAR_TOKENS, token => {
+		if (token.startsWith('[')) return token;
+
+		let value: string;
+		switch (token) {
+			case 'dddd':
+				value = date.dayOfWeek;
+				break;
+			case 'ddd':
+				value = date.dayOfWeek.slice(0, 3);
+				break;
+			case 'MMMM':
+				value = monthName;
+				break;
+			case 'MMM':
+				value = monthName.slice(0, 3);
+				break;
+			case 'MM':
+				value = String(date.month).padStart(2, '0');
+				break;
+			case 'M':
+				value = String(date.month);
+				break;
+			case 'Do':
+				value = `${date.day}${getDayOrdinal(date.day)}`;
+				break;
+			case 'DD':
+				value = String(date.day).padStart(2, '0');
+				break;
+			case 'D':
+				value = String(date.day);
+				break;
+			default:
+				value = formatCalendarYear(date.year, calendar);
+		}
+		// Escape as a literal so moment leaves it alone
+		return `[${value.replace(/[[\]]/g, '')}]`;
+	});
+
+	return time.format(calendarPattern);
+}
+
 /**
  * Format a decimal hour to a time string.
  * @param decimalHour - Hour as decimal (e.g., 6.5 = 6:30)
@@ -68,9 +155,14 @@ export function formatDecimalHour(decimalHour: number, format: '12h' | '24h' = '
 /**
  * Get the day abbreviation from a date string.
  * @param dateStr - Date string in YYYY-MM-DD format
+ * @param calendar - Custom calendar to take the weekday from (default Gregorian)
  * @returns Day abbreviation (e.g., "Mon", "Tue")
  */
-export function getDayAbbreviation(dateStr: string): string {
+export function getDayAbbreviation(dateStr: string, calendar?: CalendarDefinition | null): string {
+	if (calendar) {
+		const [year, month, day] = dateStr.split('-').map(Number);
+		return toCalendarDate({ year, month, day }, calendar).dayOfWeek.slice(0, 3);
+	}
 	const date = new Date(dateStr + 'T00:00:00');
 	return DAY_ABBREVIATIONS[date.getDay()];
 }
@@ -9,23 +9,35 @@
 export type {
 	BTLocationExtension,
 	BTTimeExtension,
+	BTCalendarExtension,
+	BTClimateExtension,
+	BTAstronomyExtension,
 	BTOutfitExtension,
 	BTAttitudeExtension,
 	BTRelationshipExtension,
 	BTRelationshipsExtension,
+	BTTemplatesExtension,
 	CardExtensions,
 } from './types';
 
 export {
 	EXTENSION_KEY_LOCATION,
 	EXTENSION_KEY_TIME,
+	EXTENSION_KEY_CALENDAR,
+	EXTENSION_KEY_CLIMATE,
+	EXTENSION_KEY_ASTRONOMY,
 	EXTENSION_KEY_OUTFIT,
 	EXTENSION_KEY_RELATIONSHIPS,
+	EXTENSION_KEY_TEMPLATES,
 	isValidBTLocationExtension,
 	isValidBTTimeExtension,
+	isValidBTCalendarExtension,
+	isValidBTClimateExtension,
+	isValidBTAstronomyExtension,
 	isValidBTOutfitExtension,
 	isValidBTRelationshipExtension,
 	isValidBTRelationshipsExtension,
+	isValidBTTemplatesExtension,
 	hasEnabledExtensions,
 } from './types';
 
@@ -37,10 +49,21 @@ export {
 	namesMatch,
 	readCardExtensions,
 	readAndResolveCardExtensions,
+	readTemplatesExtension,
+	readCalendarExtension,
+	getActiveCalendar,
+	readClimateExtension,
+	getCardClimateProfiles,
+	readAstronomyExtension,
+	getActiveAstronomy,
 	writeLocationExtension,
 	writeTimeExtension,
+	writeCalendarExtension,
+	writeClimateExtension,
+	writeAstronomyExtension,
 	writeOutfitExtension,
 	writeRelationshipsExtension,
+	writeTemplatesExtension,
 	writeAllExtensions,
 	clearExtension,
 } from './reader';
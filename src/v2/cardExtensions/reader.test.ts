@@ -3,12 +3,20 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { namesMatch, writeAllExtensions } from './reader';
+import {
+	namesMatch,
+	readCalendarExtension,
+	readClimateExtension,
+	writeAllExtensions,
+} from './reader';
 import type { STContextWithExtensions } from './reader';
+import { createClimateProfile } from '../../weather/climateProfiles';
 import type { CardExtensions } from './types';
 import {
 	EXTENSION_KEY_LOCATION,
 	EXTENSION_KEY_TIME,
+	EXTENSION_KEY_CALENDAR,
+	EXTENSION_KEY_CLIMATE,
 	EXTENSION_KEY_OUTFIT,
 	EXTENSION_KEY_PROFILE,
 	EXTENSION_KEY_RELATIONSHIPS,
@@ -200,6 +208,19 @@ describe('writeAllExtensions', () => {
 		expect(mockWriteExtensionField).toHaveBeenCalledWith(0, EXTENSION_KEY_TIME, null);
 	});
 
+	it('writes null when calendar is undefined to clear extension', async () => {
+		const mockWriteExtensionField = vi.fn().mockResolvedValue(undefined);
+		const ctx = createMockContext({ writeExtensionField: mockWriteExtensionField });
+
+		await writeAllExtensions({ calendar: undefined } as CardExtensions, 0, ctx);
+
+		expect(mockWriteExtensionField).toHaveBeenCalledWith(
+			0,
+			EXTENSION_KEY_CALENDAR,
+			null,
+		);
+	});
+
 	it('writes null when outfit is undefined to clear extension', async () => {
 		const mockWriteExtensionField = vi.fn().mockResolvedValue(undefined);
 		const ctx = createMockContext({ writeExtensionField: mockWriteExtensionField });
@@ -247,3 +268,80 @@ describe('writeAllExtensions', () => {
 		);
 	});
 });
+
+describe('readCalendarExtension', () => {
+	const months = [{ name: 'Frostfall', days: 30 }];
+
+	function contextWithCalendar(calendar: unknown): STContextWithExtensions {
+		return createMockContext({
+			characters: [
+				{
+					name: 'Character',
+					data: {
+						extensions: { [EXTENSION_KEY_CALENDAR]: calendar },
+					},
+				},
+			],
+		});
+	}
+
+	it('returns an enabled, complete calendar', () => {
+		const calendar = { enabled: true, months, weekdays: ['Morndas'] };
+
+		expect(readCalendarExtension(0, contextWithCalendar(calendar))).toEqual(calendar);
+	});
+
+	it('returns null for a disabled or incomplete calendar', () => {
+		expect(
+			readCalendarExtension(
+				0,
+				contextWithCalendar({
+					enabled: false,
+					months,
+					weekdays: ['Morndas'],
+				}),
+			),
+		).toBeNull();
+		expect(
+			readCalendarExtension(0, contextWithCalendar({ enabled: true, months })),
+		).toBeNull();
+	});
+});
+
+describe('readClimateExtension', () => {
+	function contextWithClimate(climate: unknown): STContextWithExtensions {
+		return createMockContext({
+			characters: [
+				{
+					name: 'Character',
+					data: {
+						extensions: { [EXTENSION_KEY_CLIMATE]: climate },
+					},
+				},
+			],
+		});
+	}
+
+	it('returns the complete profiles of an enabled extension', () => {
+		const profile = { ...createClimateProfile('Ashlands', 'desert'), areas: ['Ash*'] };
+		const broken = { name: 'Broken', areas: [] };
+
+		expect(
+			readClimateExtension(
+				0,
+				contextWithClimate({ enabled: true, profiles: [profile, broken] }),
+			),
+		).toEqual([profile]);
+	});
+
+	it('returns no profiles for a disabled extension', () => {
+		const profile = createClimateProfile('Ashlands', 'desert');
+
+		expect(
+			readClimateExtension(
+				0,
+				contextWithClimate({ enabled: false, profiles: [profile] }),
+			),
+		).toEqual([]);
+	});
+});
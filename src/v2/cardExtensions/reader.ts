@@ -9,23 +9,39 @@ import type {
 	CardExtensions,
 	BTLocationExtension,
 	BTTimeExtension,
+	BTCalendarExtension,
+	BTClimateExtension,
+	BTAstronomyExtension,
 	BTOutfitExtension,
 	BTProfileExtension,
 	BTRelationshipsExtension,
 	BTRelationshipExtension,
+	BTTemplatesExtension,
 } from './types';
 import {
 	EXTENSION_KEY_LOCATION,
 	EXTENSION_KEY_TIME,
+	EXTENSION_KEY_CALENDAR,
+	EXTENSION_KEY_CLIMATE,
+	EXTENSION_KEY_ASTRONOMY,
 	EXTENSION_KEY_OUTFIT,
 	EXTENSION_KEY_PROFILE,
 	EXTENSION_KEY_RELATIONSHIPS,
+	EXTENSION_KEY_TEMPLATES,
 	isValidBTLocationExtension,
 	isValidBTTimeExtension,
+	isValidBTCalendarExtension,
+	isValidBTClimateExtension,
+	isValidBTAstronomyExtension,
 	isValidBTOutfitExtension,
 	isValidBTProfileExtension,
 	isValidBTRelationshipsExtension,
+	isValidBTTemplatesExtension,
 } from './types';
+import { isValidCalendarDefinition, type CalendarDefinition } from '../../utils/calendar';
+import { isValidCustomClimateProfile } from '../../weather/climateProfiles';
+import { DEFAULT_ASTRONOMY, isValidAstronomySettings } from '../../weather/astronomy';
+import type { AstronomySettings, CustomClimateProfile } from '../../weather/types';
 
 /**
  * Extended character interface that includes CCv2/v3 data extensions.
@@ -149,6 +165,24 @@ export function readCardExtensions(
 		result.time = timeData;
 	}
 
+	// Read calendar extension
+	const calendarData = extensions[EXTENSION_KEY_CALENDAR];
+	if (calendarData && isValidBTCalendarExtension(calendarData)) {
+		result.calendar = calendarData;
+	}
+
+	// Read climate extension
+	const climateData = extensions[EXTENSION_KEY_CLIMATE];
+	if (climateData && isValidBTClimateExtension(climateData)) {
+		result.climate = climateData;
+	}
+
+	// Read astronomy extension
+	const astronomyData = extensions[EXTENSION_KEY_ASTRONOMY];
+	if (astronomyData && isValidBTAstronomyExtension(astronomyData)) {
+		result.astronomy = astronomyData;
+	}
+
 	// Read outfit extension
 	const outfitData = extensions[EXTENSION_KEY_OUTFIT];
 	if (outfitData && isValidBTOutfitExtension(outfitData)) {
@@ -167,6 +201,12 @@ export function readCardExtensions(
 		result.relationships = relationshipsData;
 	}
 
+	// Read templates extension
+	const templatesData = extensions[EXTENSION_KEY_TEMPLATES];
+	if (templatesData && isValidBTTemplatesExtension(templatesData)) {
+		result.templates = templatesData;
+	}
+
 	return result;
 }
 
@@ -201,6 +241,21 @@ export function readAndResolveCardExtensions(
 		result.time = { ...raw.time };
 	}
 
+	// Calendar doesn't need macro resolution (names only)
+	if (raw.calendar) {
+		result.calendar = { ...raw.calendar };
+	}
+
+	// Climate doesn't need macro resolution (area patterns and numbers)
+	if (raw.climate) {
+		result.climate = { ...raw.climate };
+	}
+
+	// Astronomy doesn't need macro resolution (moon names and numbers)
+	if (raw.astronomy) {
+		result.astronomy = { ...raw.astronomy };
+	}
+
 	// Outfit doesn't need macro resolution (it's always for {{char}})
 	if (raw.outfit) {
 		result.outfit = { ...raw.outfit };
@@ -258,6 +313,111 @@ function resolveRelationshipExtension(
 	};
 }
 
+/**
+ * Read the injection template overrides of a character card.
+ *
+ * @param characterId - Optional character ID (defaults to current character)
+ * @param context - Optional ST context
+ * @returns The templates extension if enabled, otherwise null
+ */
+export function readTemplatesExtension(
+	characterId?: number,
+	context?: STContextWithExtensions,
+): BTTemplatesExtension | null {
+	const templates = readCardExtensions(characterId, context)?.templates;
+	return templates?.enabled ? templates : null;
+}
+
+/**
+ * Read the custom calendar of a character card.
+ *
+ * @param characterId - Optional character ID (defaults to current character)
+ * @param context - Optional ST context
+ * @returns The calendar if the extension is enabled and complete, otherwise null
+ */
+export function readCalendarExtension(
+	characterId?: number,
+	context?: STContextWithExtensions,
+): CalendarDefinition | null {
+	const calendar = readCardExtensions(characterId, context)?.calendar;
+	return calendar?.enabled && isValidCalendarDefinition(calendar) ? calendar : null;
+}
+
+/**
+ * Get the calendar in effect for the current chat: the character card's
+ * calendar when set, otherwise null (Gregorian).
+ */
+export function getActiveCalendar(): CalendarDefinition | null {
+	try {
+		return readCalendarExtension();
+	} catch {
+		// No character selected (or group chat) - Gregorian
+		return null;
+	}
+}
+
+/**
+ * Read the custom climate profiles of a character card.
+ *
+ * @param characterId - Character index (defaults to current character)
+ * @param context - ST context (defaults to SillyTavern.getContext())
+ * @returns The complete profiles if the extension is enabled, otherwise []
+ */
+export function readClimateExtension(
+	characterId?: number,
+	context?: STContextWithExtensions,
+): CustomClimateProfile[] {
+	const climate = readCardExtensions(characterId, context)?.climate;
+	if (!climate?.enabled) return [];
+	return (climate.profiles ?? []).filter(isValidCustomClimateProfile);
+}
+
+/**
+ * Get the climate profiles of the current character card ([] when there's
+ * no character selected).
+ */
+export function getCardClimateProfiles(): CustomClimateProfile[] {
+	try {
+		return readClimateExtension();
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Read the custom sun and moons of a character card.
+ *
+ * @param characterId - Character index (defaults to current character)
+ * @param context - ST context (defaults to SillyTavern.getContext())
+ * @returns The astronomy, with Earth's values for missing fields, if the
+ * extension is enabled and valid, otherwise null
+ */
+export function readAstronomyExtension(
+	characterId?: number,
+	context?: STContextWithExtensions,
+): AstronomySettings | null {
+	const astronomy = readCardExtensions(characterId, context)?.astronomy;
+	if (!astronomy?.enabled) return null;
+	const settings: AstronomySettings = {
+		yearLength: astronomy.yearLength ?? DEFAULT_ASTRONOMY.yearLength,
+		axialTilt: astronomy.axialTilt ?? DEFAULT_ASTRONOMY.axialTilt,
+		moons: astronomy.moons ?? DEFAULT_ASTRONOMY.moons,
+	};
+	return isValidAstronomySettings(settings) ? settings : null;
+}
+
+/**
+ * Get the astronomy of the current character card (null = Earth's, also
+ * when there's no character selected).
+ */
+export function getActiveAstronomy(): AstronomySettings | null {
+	try {
+		return readAstronomyExtension();
+	} catch {
+		return null;
+	}
+}
+
 // ============================================
 // Writing Extensions
 // ============================================
@@ -288,6 +448,45 @@ export async function writeTimeExtension(
 	await ctx.writeExtensionField(charId, EXTENSION_KEY_TIME, time);
 }
 
+/**
+ * Write a calendar extension to a character card.
+ */
+export async function writeCalendarExtension(
+	calendar: BTCalendarExtension,
+	characterId?: number,
+	context?: STContextWithExtensions,
+): Promise<void> {
+	const ctx = context ?? (SillyTavern.getContext() as unknown as STContextWithExtensions);
+	const charId = characterId ?? ctx.characterId;
+	await ctx.writeExtensionField(charId, EXTENSION_KEY_CALENDAR, calendar);
+}
+
+/**
+ * Write a climate extension to a character card.
+ */
+export async function writeClimateExtension(
+	climate: BTClimateExtension,
+	characterId?: number,
+	context?: STContextWithExtensions,
+): Promise<void> {
+	const ctx = context ?? (SillyTavern.getContext() as unknown as STContextWithExtensions);
+	const charId = characterId ?? ctx.characterId;
+	await ctx.writeExtensionField(charId, EXTENSION_KEY_CLIMATE, climate);
+}
+
+/**
+ * Write an astronomy extension to a character card.
+ */
+export async function writeAstronomyExtension(
+	astronomy: BTAstronomyExtension,
+	characterId?: number,
+	context?: STContextWithExtensions,
+): Promise<void> {
+	const ctx = context ?? (SillyTavern.getContext() as unknown as STContextWithExtensions);
+	const charId = characterId ?? ctx.characterId;
+	await ctx.writeExtensionField(charId, EXTENSION_KEY_ASTRONOMY, astronomy);
+}
+
 /**
  * Write an outfit extension to a character card.
  */
@@ -327,6 +526,19 @@ export async function writeRelationshipsExtension(
 	await ctx.writeExtensionField(charId, EXTENSION_KEY_RELATIONSHIPS, relationships);
 }
 
+/**
+ * Write a templates extension to a character card.
+ */
+export async function writeTemplatesExtension(
+	templates: BTTemplatesExtension,
+	characterId?: number,
+	context?: STContextWithExtensions,
+): Promise<void> {
+	const ctx = context ?? (SillyTavern.getContext() as unknown as STContextWithExtensions);
+	const charId = characterId ?? ctx.characterId;
+	await ctx.writeExtensionField(charId, EXTENSION_KEY_TEMPLATES, templates);
+}
+
 /**
  * Write all card extensions at once.
  *
@@ -364,6 +576,36 @@ export async function writeAllExtensions(
 		);
 	}
 
+	if ('calendar' in extensions) {
+		promises.push(
+			ctx.writeExtensionField(
+				charId,
+				EXTENSION_KEY_CALENDAR,
+				extensions.calendar ?? null,
+			),
+		);
+	}
+
+	if ('climate' in extensions) {
+		promises.push(
+			ctx.writeExtensionField(
+				charId,
+				EXTENSION_KEY_CLIMATE,
+				extensions.climate ?? null,
+			),
+		);
+	}
+
+	if ('astronomy' in extensions) {
+		promises.push(
+			ctx.writeExtensionField(
+				charId,
+				EXTENSION_KEY_ASTRONOMY,
+				extensions.astronomy ?? null,
+			),
+		);
+	}
+
 	if ('outfit' in extensions) {
 		promises.push(
 			ctx.writeExtensionField(
@@ -394,6 +636,16 @@ export async function writeAllExtensions(
 		);
 	}
 
+	if ('templates' in extensions) {
+		promises.push(
+			ctx.writeExtensionField(
+				charId,
+				EXTENSION_KEY_TEMPLATES,
+				extensions.templates ?? null,
+			),
+		);
+	}
+
 	await Promise.all(promises);
 }
 
@@ -404,9 +656,13 @@ export async function clearExtension(
 	key:
 		| typeof EXTENSION_KEY_LOCATION
 		| typeof EXTENSION_KEY_TIME
+		| typeof EXTENSION_KEY_CALENDAR
+		| typeof EXTENSION_KEY_CLIMATE
+		| typeof EXTENSION_KEY_ASTRONOMY
 		| typeof EXTENSION_KEY_OUTFIT
 		| typeof EXTENSION_KEY_PROFILE
-		| typeof EXTENSION_KEY_RELATIONSHIPS,
+		| typeof EXTENSION_KEY_RELATIONSHIPS
+		| typeof EXTENSION_KEY_TEMPLATES,
 	characterId?: number,
 	context?: STContextWithExtensions,
 ): Promise<void> {
@@ -8,6 +8,8 @@
 
 import type { LocationType, OutfitSlot, RelationshipStatus } from '../types/common';
 import type { Subject } from '../types/subject';
+import type { CalendarLeapRule, CalendarMonth } from '../../utils/calendar';
+import type { CustomClimateProfile, MoonDefinition } from '../../weather/types';
 
 // ============================================
 // Location Extension
@@ -45,6 +47,72 @@ export interface BTTimeExtension {
 	datetime?: string;
 }
 
+// ============================================
+// Calendar Extension
+// ============================================
+
+/**
+ * Custom calendar for chats with this character.
+ * Extension key: x-bt-calendar
+ *
+ * Time is still stored as a Gregorian moment; the calendar only changes how
+ * dates are shown, prompted for and mapped to weather seasons. It's used once
+ * it has at least one month and one weekday.
+ */
+export interface BTCalendarExtension {
+	/** Must be true for this extension to be applied */
+	enabled: boolean;
+	/** Calendar name (e.g., "Calendar of Tamriel") */
+	name?: string;
+	/** Months in order */
+	months?: CalendarMonth[];
+	/** Weekday names in order */
+	weekdays?: string[];
+	/** Era written before the year (e.g., "3E") */
+	epochLabel?: string;
+	/** Leap year rule */
+	leap?: CalendarLeapRule;
+}
+
+// ============================================
+// Climate Extension
+// ============================================
+
+/**
+ * Custom climate profiles for the areas of this character's world.
+ * Extension key: x-bt-climate
+ *
+ * Used before the profiles in settings, geocoding and the fallback climates.
+ */
+export interface BTClimateExtension {
+	/** Must be true for this extension to be applied */
+	enabled: boolean;
+	/** Profiles in order; the first one matching an area is used */
+	profiles?: CustomClimateProfile[];
+}
+
+// ============================================
+// Astronomy Extension
+// ============================================
+
+/**
+ * Sun and moons of this character's world.
+ * Extension key: x-bt-astronomy
+ *
+ * Missing fields use Earth's values; an empty moon list means no moons.
+ * Applies to forecasts generated after it's set.
+ */
+export interface BTAstronomyExtension {
+	/** Must be true for this extension to be applied */
+	enabled: boolean;
+	/** Days from one spring equinox to the next */
+	yearLength?: number;
+	/** Degrees; sets how much day length changes through the year */
+	axialTilt?: number;
+	/** Moons with their cycle length and a known new moon */
+	moons?: MoonDefinition[];
+}
+
 // ============================================
 // Outfit Extension
 // ============================================
@@ -143,6 +211,25 @@ export interface BTRelationshipExtension {
  */
 export type BTRelationshipsExtension = BTRelationshipExtension[];
 
+// ============================================
+// Templates Extension
+// ============================================
+
+/**
+ * Injection template overrides for chats with this character.
+ * Extension key: x-bt-templates
+ *
+ * Empty or missing templates fall back to the ones from settings.
+ */
+export interface BTTemplatesExtension {
+	/** Must be true for this extension to be applied */
+	enabled: boolean;
+	/** Scene state template */
+	state?: string;
+	/** Chapters and events template */
+	narrative?: string;
+}
+
 // ============================================
 // Combined Extensions
 // ============================================
@@ -153,9 +240,13 @@ export type BTRelationshipsExtension = BTRelationshipExtension[];
 export interface CardExtensions {
 	location?: BTLocationExtension;
 	time?: BTTimeExtension;
+	calendar?: BTCalendarExtension;
+	climate?: BTClimateExtension;
+	astronomy?: BTAstronomyExtension;
 	outfit?: BTOutfitExtension;
 	profile?: BTProfileExtension;
 	relationships?: BTRelationshipsExtension;
+	templates?: BTTemplatesExtension;
 }
 
 // ============================================
@@ -166,12 +257,20 @@ export interface CardExtensions {
 export const EXTENSION_KEY_LOCATION = 'x-bt-location';
 /** Extension key for time data */
 export const EXTENSION_KEY_TIME = 'x-bt-time';
+/** Extension key for custom calendar */
+export const EXTENSION_KEY_CALENDAR = 'x-bt-calendar';
+/** Extension key for custom climate profiles */
+export const EXTENSION_KEY_CLIMATE = 'x-bt-climate';
+/** Extension key for custom sun and moons */
+export const EXTENSION_KEY_ASTRONOMY = 'x-bt-astronomy';
 /** Extension key for outfit data */
 export const EXTENSION_KEY_OUTFIT = 'x-bt-outfit';
 /** Extension key for profile data */
 export const EXTENSION_KEY_PROFILE = 'x-bt-profile';
 /** Extension key for relationships data */
 export const EXTENSION_KEY_RELATIONSHIPS = 'x-bt-relationships';
+/** Extension key for injection template overrides */
+export const EXTENSION_KEY_TEMPLATES = 'x-bt-templates';
 
 // ============================================
 // Validation Functions
@@ -202,6 +301,48 @@ export function isValidBTTimeExtension(value: unknown): value is BTTimeExtension
 	return true;
 }
 
+/**
+ * Check if a value is a valid BTCalendarExtension.
+ * A partly filled in calendar is valid; it just isn't used until complete.
+ */
+export function isValidBTCalendarExtension(value: unknown): value is BTCalendarExtension {
+	if (!value || typeof value !== 'object') return false;
+	const v = value as Record<string, unknown>;
+	if (typeof v.enabled !== 'boolean') return false;
+	if (v.name !== undefined && typeof v.name !== 'string') return false;
+	if (v.months !== undefined && !Array.isArray(v.months)) return false;
+	if (v.weekdays !== undefined && !Array.isArray(v.weekdays)) return false;
+	if (v.epochLabel !== undefined && typeof v.epochLabel !== 'string') return false;
+	if (v.leap !== undefined && (!v.leap || typeof v.leap !== 'object')) return false;
+	return true;
+}
+
+/**
+ * Check if a value is a valid BTClimateExtension.
+ * Profiles are checked one by one when read; invalid ones are skipped.
+ */
+export function isValidBTClimateExtension(value: unknown): value is BTClimateExtension {
+	if (!value || typeof value !== 'object') return false;
+	const v = value as Record<string, unknown>;
+	if (typeof v.enabled !== 'boolean') return false;
+	if (v.profiles !== undefined && !Array.isArray(v.profiles)) return false;
+	return true;
+}
+
+/**
+ * Check if a value is a valid BTAstronomyExtension.
+ * Values are checked when read; invalid astronomy falls back to Earth's.
+ */
+export function isValidBTAstronomyExtension(value: unknown): value is BTAstronomyExtension {
+	if (!value || typeof value !== 'object') return false;
+	const v = value as Record<string, unknown>;
+	if (typeof v.enabled !== 'boolean') return false;
+	if (v.yearLength !== undefined && typeof v.yearLength !== 'number') return false;
+	if (v.axialTilt !== undefined && typeof v.axialTilt !== 'number') return false;
+	if (v.moons !== undefined && !Array.isArray(v.moons)) return false;
+	return true;
+}
+
 /**
  * Check if a value is a valid BTOutfitExtension.
  */
@@ -291,6 +432,18 @@ export function isValidBTRelationshipsExtension(value: unknown): value is BTRela
 	return value.every(isValidBTRelationshipExtension);
 }
 
+/**
+ * Check if a value is a valid BTTemplatesExtension.
+ */
+export function isValidBTTemplatesExtension(value: unknown): value is BTTemplatesExtension {
+	if (!value || typeof value !== 'object') return false;
+	const v = value as Record<string, unknown>;
+	if (typeof v.enabled !== 'boolean') return false;
+	if (v.state !== undefined && typeof v.state !== 'string') return false;
+	if (v.narrative !== undefined && typeof v.narrative !== 'string') return false;
+	return true;
+}
+
 /**
  * Check if any card extensions are enabled.
  */
@@ -0,0 +1,426 @@
+/**
+ * Arc Summary Event Extractor Tests
+ *
+ * Tests that verify the arc extractor condenses completed chapters into arcs
+ * once settings.chaptersPerArc chapters have ended since the last arc.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMockGenerator, type MockGenerator } from '../../generator';
+import { arcSummaryExtractor } from './arcSummaryExtractor';
+import { EventStore } from '../../store';
+import type { ExtractionContext, ExtractionSettings, RunStrategyContext } from '../types';
+import type {
+	MessageAndSwipe,
+	Snapshot,
+	Event,
+	ChapterEndedEvent,
+	ChapterDescribedEvent,
+	ArcSummarizedEvent,
+} from '../../types';
+
+/**
+ * Create a mock extraction context for testing.
+ */
+function createMockContext(overrides: Partial<ExtractionContext> = {}): ExtractionContext {
+	return {
+		chat: [
+			{
+				mes: '*The journey begins.*',
+				is_user: false,
+				is_system: false,
+				name: 'Elena',
+			},
+			{
+				mes: 'I follow her lead.',
+				is_user: true,
+				is_system: false,
+				name: 'User',
+			},
+			{
+				mes: '*We arrive at the destination.*',
+				is_user: false,
+				is_system: false,
+				name: 'Elena',
+			},
+		],
+		characters: [{ name: 'Elena', description: 'A mysterious woman.' }],
+		characterId: 0,
+		name1: 'User',
+		name2: 'Elena',
+		persona: 'A traveler.',
+		...overrides,
+	};
+}
+
+/**
+ * Create mock extraction settings.
+ */
+function createMockSettings(overrides: Partial<ExtractionSettings> = {}): ExtractionSettings {
+	return {
+		profileId: 'test-profile',
+		track: {
+			time: true,
+			location: true,
+			props: true,
+			climate: true,
+			characters: true,
+			relationships: true,
+			scene: true,
+			narrative: true,
+			chapters: true,
+		},
+		temperatures: {
+			time: 0.3,
+			location: 0.5,
+			climate: 0.3,
+			characters: 0.7,
+			relationships: 0.6,
+			scene: 0.6,
+			narrative: 0.7,
+			chapters: 0.5,
+		},
+		customPrompts: {},
+		maxMessagesToSend: 10,
+		maxChapterMessagesToSend: 24,
+		includeWorldinfo: true,
+		...overrides,
+	};
+}
+
+/**
+ * Create a mock initial snapshot.
+ */
+function createMockSnapshot(): Snapshot {
+	return {
+		type: 'initial',
+		source: { messageId: 0, swipeId: 0 },
+		timestamp: Date.now(),
+		swipeId: 0,
+		time: '2024-11-14T08:00:00',
+		location: {
+			area: 'Village',
+			place: 'Town Square',
+			position: 'standing',
+			props: ['fountain', 'benches'],
+			locationType: 'outdoor',
+		},
+		forecasts: {},
+		climate: {
+			temperature: 18,
+			outdoorTemperature: 18,
+			feelsLike: 17,
+			humidity: 50,
+			precipitation: 0,
+			cloudCover: 20,
+			windSpeed: 5,
+			windDirection: 'E',
+			conditions: 'Sunny',
+			conditionType: 'clear',
+			uvIndex: 5,
+			daylight: 'day',
+			isIndoors: false,
+		},
+		characters: {
+			Elena: {
+				name: 'Elena',
+				position: 'standing',
+				activity: 'waiting',
+				mood: ['eager'],
+				physicalState: [],
+				outfit: {
+					head: null,
+					neck: null,
+					jacket: null,
+					back: 'backpack',
+					torso: 'blouse',
+					legs: 'trousers',
+					footwear: 'boots',
+					socks: null,
+					underwear: null,
+				},
+				akas: [],
+			},
+		},
+		relationships: {},
+		scene: {
+			topic: 'Adventure begins',
+			tone: 'Exciting',
+			tension: { level: 'aware', type: 'suspense', direction: 'escalating' },
+		},
+		currentChapter: 0,
+		narrativeEvents: [],
+	};
+}
+
+/**
+ * Create a chapter ended event.
+ */
+function createChapterEndedEvent(messageId: number, chapterIndex: number): ChapterEndedEvent {
+	return {
+		id: `chapter-ended-${messageId}`,
+		kind: 'chapter',
+		subkind: 'ended',
+		chapterIndex,
+		reason: 'location_change',
+		source: { messageId, swipeId: 0 },
+		timestamp: Date.now(),
+	};
+}
+
+/**
+ * Create a chapter described event.
+ */
+function createChapterDescribedEvent(
+	messageId: number,
+	chapterIndex: number,
+	title: string,
+): ChapterDescribedEvent {
+	return {
+		id: `chapter-described-${messageId}`,
+		kind: 'chapter',
+		subkind: 'described',
+		chapterIndex,
+		title,
+		summary: `Summary of ${title}`,
+		source: { messageId, swipeId: 0 },
+		timestamp: Date.now(),
+	};
+}
+
+/**
+ * Create a run strategy context.
+ */
+function createRunStrategyContext(
+	settings: ExtractionSettings,
+	context: ExtractionContext,
+	store: EventStore,
+	currentMessage: MessageAndSwipe,
+	turnEvents: Event[] = [],
+): RunStrategyContext {
+	return {
+		store,
+		context,
+		settings,
+		currentMessage,
+		turnEvents,
+		ranAtMessages: [],
+		producedAtMessages: [],
+	};
+}
+
+const ARC_RESPONSE = JSON.stringify({
+	reasoning: 'The first three chapters set up the journey.',
+	title: 'Departure',
+	summary: 'Elena and User left the village and reached the destination.',
+});
+
+/**
+ * The events for chapters 0 and 1 (ended and described), already in the store.
+ */
+function createPastChapterEvents(): Event[] {
+	return [
+		createChapterEndedEvent(0, 0),
+		createChapterDescribedEvent(0, 0, 'The Village'),
+		createChapterEndedEvent(1, 1),
+		createChapterDescribedEvent(1, 1, 'The Road'),
+	];
+}
+
+/**
+ * This turn's events: chapter 2 ends and is described.
+ */
+function createTurnEvents(): Event[] {
+	return [createChapterEndedEvent(2, 2), createChapterDescribedEvent(2, 2, 'Arrival')];
+}
+
+describe('arcSummaryExtractor', () => {
+	let mockGenerator: MockGenerator;
+	let store: EventStore;
+
+	beforeEach(() => {
+		mockGenerator = createMockGenerator();
+		store = new EventStore();
+		store.replaceInitialSnapshot(createMockSnapshot());
+	});
+
+	describe('shouldRun', () => {
+		it('returns true when arcs are enabled and a chapter ended', () => {
+			const runContext = createRunStrategyContext(
+				createMockSettings({ chaptersPerArc: 3 }),
+				createMockContext(),
+				store,
+				{ messageId: 2, swipeId: 0 },
+				createTurnEvents(),
+			);
+
+			expect(arcSummaryExtractor.shouldRun(runContext)).toBe(true);
+		});
+
+		it('returns false when arcs are disabled', () => {
+			for (const chaptersPerArc of [undefined, 0]) {
+				const runContext = createRunStrategyContext(
+					createMockSettings({ chaptersPerArc }),
+					createMockContext(),
+					store,
+					{ messageId: 2, swipeId: 0 },
+					createTurnEvents(),
+				);
+
+				expect(arcSummaryExtractor.shouldRun(runContext)).toBe(false);
+			}
+		});
+
+		it('returns false when chapters tracking is disabled', () => {
+			const settings = createMockSettings({ chaptersPerArc: 3 });
+			const runContext = createRunStrategyContext(
+				{ ...settings, track: { ...settings.track, chapters: false } },
+				createMockContext(),
+				store,
+				{ messageId: 2, swipeId: 0 },
+				createTurnEvents(),
+			);
+
+			expect(arcSummaryExtractor.shouldRun(runContext)).toBe(false);
+		});
+
+		it('returns false when no chapter ended', () => {
+			const runContext = createRunStrategyContext(
+				createMockSettings({ chaptersPerArc: 3 }),
+				createMockContext(),
+				store,
+				{ messageId: 2, swipeId: 0 },
+				[],
+			);
+
+			expect(arcSummaryExtractor.shouldRun(runContext)).toBe(false);
+		});
+	});
+
+	describe('run', () => {
+		it('summarizes the chapters once enough have completed', async () => {
+			store.appendEvents(createPastChapterEvents());
+			mockGenerator.setDefaultResponse(ARC_RESPONSE);
+			const currentMessage: MessageAndSwipe = { messageId: 2, swipeId: 0 };
+
+			const result = await arcSummaryExtractor.run(
+				mockGenerator,
+				createMockContext(),
+				createMockSettings({ chaptersPerArc: 3 }),
+				store,
+				currentMessage,
+				createTurnEvents(),
+			);
+
+			expect(result).toHaveLength(1);
+			const arc = result[0] as ArcSummarizedEvent;
+			expect(arc).toMatchObject({
+				kind: 'arc',
+				subkind: 'summarized',
+				arcIndex: 0,
+				firstChapter: 0,
+				lastChapter: 2,
+				title: 'Departure',
+				source: currentMessage,
+			});
+
+			// The chapter that ended this turn is in the prompt with its summary
+			const prompt = mockGenerator
+				.getLastCall()!
+				.prompt.messages.map(m => m.content)
+				.join('\n');
+			expect(prompt).toContain('Chapter 1: The Village');
+			expect(prompt).toContain('Chapter 3: Arrival\nSummary of Arrival');
+			expect(prompt).toContain('Chapters 1-3');
+		});
+
+		it('waits until enough chapters have completed', async () => {
+			store.appendEvents(createPastChapterEvents());
+			mockGenerator.setDefaultResponse(ARC_RESPONSE);
+
+			const result = await arcSummaryExtractor.run(
+				mockGenerator,
+				createMockContext(),
+				createMockSettings({ chaptersPerArc: 4 }),
+				store,
+				{ messageId: 2, swipeId: 0 },
+				createTurnEvents(),
+			);
+
+			expect(result).toEqual([]);
+			expect(mockGenerator.getCalls()).toHaveLength(0);
+		});
+
+		it('continues after the previous arc', async () => {
+			store.appendEvents([
+				...createPastChapterEvents(),
+				{
+					id: 'arc-0',
+					kind: 'arc',
+					subkind: 'summarized',
+					arcIndex: 0,
+					firstChapter: 0,
+					lastChapter: 0,
+					title: 'Beginnings',
+					summary: 'Elena met User.',
+					source: { messageId: 0, swipeId: 0 },
+					timestamp: Date.now(),
+				},
+			]);
+			mockGenerator.setDefaultResponse(ARC_RESPONSE);
+
+			const result = await arcSummaryExtractor.run(
+				mockGenerator,
+				createMockContext(),
+				createMockSettings({ chaptersPerArc: 2 }),
+				store,
+				{ messageId: 2, swipeId: 0 },
+				createTurnEvents(),
+			);
+
+			expect(result[0]).toMatchObject({
+				arcIndex: 1,
+				firstChapter: 1,
+				lastChapter: 2,
+			});
+			const prompt = mockGenerator
+				.getLastCall()!
+				.prompt.messages.map(m => m.content)
+				.join('\n');
+			expect(prompt).toContain(
+				'Arc 1: Beginnings (Chapters 1-1) - Elena met User.',
+			);
+			expect(prompt).not.toContain('Chapter 1: The Village');
+		});
+
+		it('returns empty array when LLM returns invalid JSON', async () => {
+			store.appendEvents(createPastChapterEvents());
+			mockGenerator.setDefaultResponse('Not valid JSON');
+
+			const result = await arcSummaryExtractor.run(
+				mockGenerator,
+				createMockContext(),
+				createMockSettings({ chaptersPerArc: 3 }),
+				store,
+				{ messageId: 2, swipeId: 0 },
+				createTurnEvents(),
+			);
+
+			expect(result).toEqual([]);
+		});
+	});
+
+	describe('extractor configuration', () => {
+		it('has the correct name and category', () => {
+			expect(arcSummaryExtractor.name).toBe('arcSummary');
+			expect(arcSummaryExtractor.category).toBe('chapters');
+		});
+
+		it('sends no messages', () => {
+			expect(arcSummaryExtractor.messageStrategy).toEqual({
+				strategy: 'fixedNumber',
+				n: 0,
+			});
+		});
+	});
+});
@@ -0,0 +1,181 @@
+/**
+ * Arc Summary Event Extractor
+ *
+ * Condenses completed chapters into an arc once enough of them have ended
+ * since the last arc (settings.chaptersPerArc). Runs after the chapter
+ * description extractor, so the chapter that just ended has its summary.
+ *
+ * Works from chapter titles and summaries rather than messages.
+ */
+
+import type { Generator } from '../../generator';
+import type {
+	EventExtractor,
+	ExtractionContext,
+	ExtractionSettings,
+	RunStrategyContext,
+} from '../types';
+import type { Event, MessageAndSwipe, ExtractedArcSummary } from '../../types';
+import { isChapterEndedEvent } from '../../types';
+import { arcSummaryPrompt } from '../../prompts/events/arcSummaryPrompt';
+import {
+	buildExtractorPrompt,
+	generateAndParse,
+	mapArcSummary,
+	buildSwipeContextFromExtraction,
+	projectWithTurnEvents,
+	getExtractorTemperature,
+} from '../utils';
+import type { EventStore } from '../../store';
+import { getMilestoneDisplayName } from '../../store/projection';
+import { computeAllChapters, type ComputedChapter } from '../../narrative/computeChapters';
+import { computeArcs, getNextArcRange, type ComputedArc } from '../../narrative/computeArcs';
+import { debugWarn } from '../../../utils/debug';
+
+/**
+ * Format the chapters of an arc for the prompt.
+ */
+function formatArcChapters(chapters: ComputedChapter[]): string {
+	return chapters
+		.map(chapter => {
+			const lines = [`Chapter ${chapter.index + 1}: ${chapter.title}`];
+			lines.push(chapter.summary || 'No summary available');
+			if (chapter.milestones.length > 0) {
+				const milestones = chapter.milestones.map(
+					m =>
+						`${m.pair.join(' & ')}: ${getMilestoneDisplayName(m.subject)}`,
+				);
+				lines.push(`Milestones: ${milestones.join(', ')}`);
+			}
+			return lines.join('\n');
+		})
+		.join('\n\n');
+}
+
+/**
+ * Format earlier arcs for the prompt.
+ */
+function formatPreviousArcs(arcs: ComputedArc[]): string {
+	if (arcs.length === 0) return '(First arc - no previous)';
+	return arcs
+		.map(
+			arc =>
+				`Arc ${arc.index + 1}: ${arc.title} (Chapters ${arc.firstChapter + 1}-${arc.lastChapter + 1}) - ${arc.summary}`,
+		)
+		.join('\n');
+}
+
+/**
+ * Arc summary event extractor.
+ * Generates a title and one-paragraph summary for a run of completed chapters.
+ */
+export const arcSummaryExtractor: EventExtractor<ExtractedArcSummary> = {
+	name: 'arcSummary',
+	displayName: 'arc',
+	category: 'chapters',
+	defaultTemperature: 0.5,
+	prompt: arcSummaryPrompt,
+
+	// Arcs are built from chapter summaries, not messages
+	messageStrategy: { strategy: 'fixedNumber', n: 0 },
+	runStrategy: {
+		strategy: 'newEventsOfKind',
+		kinds: [{ kind: 'chapter', subkind: 'ended' }],
+	},
+
+	shouldRun(context: RunStrategyContext): boolean {
+		// Only run if chapters are tracked, arcs are enabled, and a chapter just ended
+		if (!context.settings.track.chapters) return false;
+		if (!context.settings.chaptersPerArc) return false;
+
+		return context.turnEvents.some(isChapterEndedEvent);
+	},
+
+	async run(
+		generator: Generator,
+		context: ExtractionContext,
+		settings: ExtractionSettings,
+		store: EventStore,
+		currentMessage: MessageAndSwipe,
+		turnEvents: Event[],
+		abortSignal?: AbortSignal,
+	): Promise<Event[]> {
+		const chapterEndedEvent = turnEvents.find(isChapterEndedEvent);
+		if (!chapterEndedEvent) {
+			return [];
+		}
+
+		// Include this turn's events, so the chapter that just ended has its description
+		const swipeContext = buildSwipeContextFromExtraction(context);
+		const workingStore = store.getDeepClone();
+		workingStore.appendEvents(turnEvents);
+
+		const arcs = computeArcs(workingStore, swipeContext);
+		const range = getNextArcRange(
+			arcs,
+			chapterEndedEvent.chapterIndex,
+			settings.chaptersPerArc ?? 0,
+		);
+		if (!range) {
+			return [];
+		}
+
+		const chapters = computeAllChapters(workingStore, swipeContext).filter(
+			chapter =>
+				chapter.index >= range.firstChapter &&
+				chapter.index <= range.lastChapter,
+		);
+
+		const projection = projectWithTurnEvents(
+			store,
+			turnEvents,
+			currentMessage.messageId,
+			context,
+		);
+
+		const additionalValues: Record<string, string> = {
+			arcChapters: formatArcChapters(chapters),
+			arcChapterRange: `Chapters ${range.firstChapter + 1}-${range.lastChapter + 1}`,
+			previousArcs: formatPreviousArcs(arcs),
+		};
+
+		const builtPrompt = buildExtractorPrompt(
+			arcSummaryPrompt,
+			context,
+			projection,
+			settings,
+			currentMessage.messageId,
+			currentMessage.messageId,
+			{ additionalValues },
+		);
+
+		// Get temperature (prompt override → category → default)
+		const temperature = getExtractorTemperature(
+			settings,
+			this.prompt.name,
+			'chapters',
+			this.defaultTemperature,
+		);
+
+		const result = await generateAndParse(
+			generator,
+			arcSummaryPrompt,
+			builtPrompt,
+			temperature,
+			{ abortSignal },
+		);
+
+		if (!result.success || !result.data) {
+			debugWarn('arcSummary extraction failed:', result.error);
+			return [];
+		}
+
+		return mapArcSummary(
+			result.data,
+			currentMessage,
+			range.arcIndex,
+			range.firstChapter,
+			range.lastChapter,
+		);
+	},
+};
@@ -39,6 +39,8 @@ import { computeNarrativeEvents, computeChapters } from '../../narrative/compute
 import type { NarrativeEvent } from '../../types/snapshot';
 import { debugWarn } from '../../../utils/debug';
 import { getWorldinfoForPrompt } from '../../utils/worldinfo';
+import { formatMoment } from '../../../utils/dateFormat';
+import type { CalendarDefinition } from '../../../utils/calendar';
 
 /**
  * Get the chapter start message ID (swipe-aware).
@@ -159,7 +161,10 @@ function formatChapterSummaries(
 /**
  * Format time range for chapter.
  */
-function formatTimeRange(narrativeEvents: NarrativeEvent[]): string {
+function formatTimeRange(
+	narrativeEvents: NarrativeEvent[],
+	calendar: CalendarDefinition | null,
+): string {
 	if (narrativeEvents.length === 0) return 'Unknown';
 
 	const eventsWithTime = narrativeEvents.filter(e => e.narrativeTime !== null);
@@ -172,11 +177,11 @@ function formatTimeRange(narrativeEvents: NarrativeEvent[]): string {
 
 	// If same day, format as "Day, Time1 to Time2"
 	if (firstTime.isSame(lastTime, 'day')) {
-		return `${firstTime.format('dddd')}, ${firstTime.format('h:mm A')} to ${lastTime.format('h:mm A')}`;
+		return `${formatMoment(firstTime, 'dddd', calendar)}, ${firstTime.format('h:mm A')} to ${lastTime.format('h:mm A')}`;
 	}
 
 	// Different days
-	return `${firstTime.format('dddd h:mm A')} to ${lastTime.format('dddd h:mm A')}`;
+	return `${formatMoment(firstTime, 'dddd h:mm A', calendar)} to ${formatMoment(lastTime, 'dddd h:mm A', calendar)}`;
 }
 
 /**
@@ -294,7 +299,10 @@ export const chapterDescriptionExtractor: EventExtractor<ExtractedChapterDescrip
 			allChapterMessages,
 			chapterNarrativeEvents: formatNarrativeEvents(chapterNarrativeEvents),
 			chapterMilestones: formatMilestones(chapterMilestones),
-			chapterTimeRange: formatTimeRange(chapterNarrativeEvents),
+			chapterTimeRange: formatTimeRange(
+				chapterNarrativeEvents,
+				settings.calendar ?? null,
+			),
 			chapterSummaries: formatChapterSummaries(store, context, chapterIndex),
 			worldinfo,
 		};
@@ -37,6 +37,8 @@ export const activityChangeExtractor: PerCharacterExtractor<ExtractedActivityCha
 	prompt: activityChangePrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 1 },
+	inputs: ['profiles', 'characters'],
+	outputs: ['characters'],
 	runStrategy: { strategy: 'everyMessage' },
 
 	shouldRun(context: RunStrategyContext): boolean {
@@ -64,6 +64,8 @@ export const appearedCharacterOutfitExtractor: EventExtractor<ExtractedCharacter
 	prompt: appearedCharacterOutfitPrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 3 } as MessageStrategy,
+	inputs: ['presence'],
+	outputs: ['characters'],
 	runStrategy: { strategy: 'custom', check: () => true } as RunStrategy, // We check turnEvents in shouldRun
 
 	shouldRun(context: RunStrategyContext): boolean {
@@ -46,6 +46,8 @@ export const appearedCharacterProfileExtractor: EventExtractor<ExtractedCharacte
 	prompt: appearedCharacterProfilePrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 6 } as MessageStrategy, // More context for profile extraction
+	inputs: ['presence'],
+	outputs: ['profiles'],
 	runStrategy: { strategy: 'custom', check: () => true } as RunStrategy, // We check turnEvents in shouldRun
 
 	shouldRun(context: RunStrategyContext): boolean {
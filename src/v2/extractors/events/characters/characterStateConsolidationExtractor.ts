@@ -34,6 +34,7 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
 } from '../../utils';
 import { debugWarn } from '../../../../utils/debug';
 
@@ -138,8 +139,11 @@ export const characterStateConsolidationExtractor: PerCharacterExtractor<Extract
 
 		// Last 6 messages for context
 		messageStrategy: { strategy: 'fixedNumber', n: 6 },
+		inputs: ['profiles', 'characters'],
+		outputs: ['characters'],
 		// Run every 6 messages
 		runStrategy: { strategy: 'everyNMessages', n: 6 },
+		configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
 
 		shouldRun(context: RunStrategyContext): boolean {
 			// Run if characters tracking is enabled AND the run strategy permits
@@ -50,6 +50,8 @@ export const moodChangeExtractor: PerCharacterExtractor<ExtractedMoodChange> = {
 	prompt: moodChangePrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 3 } as MessageStrategy,
+	inputs: ['profiles', 'characters'],
+	outputs: ['characters'],
 	runStrategy: { strategy: 'everyNMessages', n: 3 } as RunStrategy,
 
 	shouldRun(context: RunStrategyContext): boolean {
@@ -38,6 +38,8 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
+	ANY_MESSAGE_STRATEGY,
 } from '../../utils';
 import { debugWarn } from '../../../../utils/debug';
 
@@ -64,8 +66,11 @@ export const moodPhysicalChangeExtractor: PerCharacterExtractor<ExtractedMoodPhy
 			{ kind: 'character', subkind: 'physical_removed' },
 		],
 	},
+	inputs: ['profiles', 'characters'],
+	outputs: ['characters'],
 	// Every 2 messages, offset=0 (default) fires on messageId 1, 3, 5... (user messages in normal chat)
 	runStrategy: { strategy: 'everyNMessages', n: 2 },
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: ANY_MESSAGE_STRATEGY },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Run if characters tracking is enabled AND the run strategy permits
@@ -28,6 +28,7 @@ import {
 	findMatchingCharacterKey,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
 } from '../../utils';
 import { generateEventId } from '../../../store/serialization';
 import { debugLog, debugWarn } from '../../../../utils/debug';
@@ -47,7 +48,10 @@ export const nicknameExtractor: EventExtractor<ExtractedNicknames> = {
 	prompt: nicknameExtractionPrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 8 },
+	inputs: ['presence', 'characters'],
+	outputs: ['characters'],
 	runStrategy: { strategy: 'everyNMessages', n: 8 },
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		return (
@@ -26,6 +26,7 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
 } from '../../utils';
 import type { EventStore } from '../../../store';
 import { debugWarn } from '../../../../utils/debug';
@@ -42,7 +43,10 @@ export const outfitChangeExtractor: PerCharacterExtractor<ExtractedOutfitChange>
 	prompt: outfitChangePrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 2 },
+	inputs: ['profiles', 'characters'],
+	outputs: ['characters'],
 	runStrategy: { strategy: 'everyMessage' },
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Run if character tracking is enabled AND run strategy allows it
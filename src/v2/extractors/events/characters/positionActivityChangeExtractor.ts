@@ -30,6 +30,8 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
+	ANY_MESSAGE_STRATEGY,
 } from '../../utils';
 import type { EventStore } from '../../../store';
 import { debugWarn } from '../../../../utils/debug';
@@ -56,8 +58,11 @@ export const positionActivityChangeExtractor: PerCharacterExtractor<ExtractedPos
 				{ kind: 'character', subkind: 'activity_changed' },
 			],
 		},
+		inputs: ['profiles', 'characters'],
+		outputs: ['characters'],
 		// Every 2 messages starting at 1 (assistant messages in normal chat)
 		runStrategy: { strategy: 'everyNMessages', n: 2, offset: 1 },
+		configurableStrategies: { run: ANY_RUN_STRATEGY, message: ANY_MESSAGE_STRATEGY },
 
 		shouldRun(context: RunStrategyContext): boolean {
 			// Run if character tracking is enabled AND run strategy allows it
@@ -40,6 +40,8 @@ export const positionChangeExtractor: PerCharacterExtractor = {
 
 	messageStrategy: { strategy: 'fixedNumber', n: 1 } as MessageStrategy,
 
+	inputs: ['profiles', 'characters'],
+	outputs: ['characters'],
 	runStrategy: { strategy: 'everyMessage' } as RunStrategy,
 
 	shouldRun(ctx: RunStrategyContext): boolean {
@@ -37,6 +37,8 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
+	ANY_MESSAGE_STRATEGY,
 } from '../../utils';
 
 /**
@@ -53,7 +55,10 @@ export const presenceChangeExtractor: EventExtractor<ExtractedCharacterPresenceC
 	prompt: presenceChangePrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 2 } as MessageStrategy,
+	inputs: ['presence'],
+	outputs: ['presence', 'characters'],
 	runStrategy: { strategy: 'everyMessage' } as RunStrategy,
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: ANY_MESSAGE_STRATEGY },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Check if character tracking is enabled
@@ -23,18 +23,25 @@ import {
 	evaluateRunStrategy,
 	projectWithTurnEvents,
 	buildSwipeContextFromExtraction,
+	ANY_RUN_STRATEGY,
 } from '../utils';
 import type { EventStore } from '../../store';
 import { mapLocation } from '../../../weather/locationMapper';
 import { fetchClimateNormals } from '../../../weather/climateApi';
 import { getClimateNormalsFromFallback } from '../../../weather/fallbackProfiles';
+import {
+	findClimateProfile,
+	getClimateNormalsFromCustomProfile,
+} from '../../../weather/climateProfiles';
 import { generateForecast } from '../../../weather/forecastGenerator';
+import { BASE_CLIMATE_LATITUDES } from '../../../weather/astronomy';
 import {
 	needsNewForecast,
 	getDaysRemainingInForecast,
 	MIN_FORECAST_DAYS,
 } from '../../store/climateComputation';
 import type { LocationMapping } from '../../../weather/types';
+import { getClimateMonth, getGregorianDate } from '../../../utils/calendar';
 import { debugLog, errorLog } from '../../../utils/debug';
 
 /**
@@ -74,7 +81,10 @@ export const forecastExtractor: EventExtractor = {
 
 	messageStrategy: { strategy: 'fixedNumber', n: 0 } as MessageStrategy,
 
+	inputs: ['time', 'location', 'forecast'],
+	outputs: ['forecast'],
 	runStrategy: { strategy: 'custom', check: customCheck } as RunStrategy,
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
 
 	shouldRun(ctx: RunStrategyContext): boolean {
 		// Check if climate tracking is enabled
@@ -89,7 +99,7 @@ export const forecastExtractor: EventExtractor = {
 	async run(
 		_generator: Generator,
 		context: ExtractionContext,
-		_settings: ExtractionSettings,
+		settings: ExtractionSettings,
 		store: EventStore,
 		currentMessage: MessageAndSwipe,
 		turnEvents: Event[],
@@ -129,35 +139,63 @@ export const forecastExtractor: EventExtractor = {
 			// Get existing location mappings from store or start fresh
 			const existingMappings: LocationMapping[] = [];
 
-			// Map location to climate data source
-			const mapping = await mapLocation(
+			// A custom profile for this area skips location mapping entirely
+			const profile = findClimateProfile(
 				currentArea,
-				narrativeContext,
-				existingMappings,
+				settings.climateProfiles ?? [],
+			);
+
+			// Map location to climate data source
+			const mapping: Partial<LocationMapping> = profile
+				? {}
+				: await mapLocation(
+						currentArea,
+						narrativeContext,
+						existingMappings,
+					);
+
+			// Climate month follows the seasons of a custom calendar
+			const climateMonth = getClimateMonth(
+				getGregorianDate(currentTime),
+				settings.calendar ?? null,
 			);
 
 			// Fetch or generate climate normals
 			let climateNormals;
-			if (mapping.latitude !== undefined && mapping.longitude !== undefined) {
+			if (profile) {
+				climateNormals = getClimateNormalsFromCustomProfile(
+					profile,
+					climateMonth,
+				);
+			} else if (
+				mapping.latitude !== undefined &&
+				mapping.longitude !== undefined
+			) {
 				climateNormals = await fetchClimateNormals(
 					mapping.latitude,
 					mapping.longitude,
-					currentTime.month() + 1, // moment months are 0-indexed
+					climateMonth,
 					mapping.baseClimateType,
 				);
 			} else if (mapping.baseClimateType) {
 				climateNormals = getClimateNormalsFromFallback(
 					mapping.baseClimateType,
-					currentTime.month() + 1,
+					climateMonth,
 				);
 			} else {
 				// Ultimate fallback
 				climateNormals = getClimateNormalsFromFallback(
 					'temperate',
-					currentTime.month() + 1,
+					climateMonth,
 				);
 			}
 
+			// Latitude for the sun and moons
+			const latitude =
+				mapping.latitude ??
+				profile?.latitude ??
+				BASE_CLIMATE_LATITUDES[mapping.baseClimateType ?? 'temperate'];
+
 			// Check for existing forecast to preserve continuity
 			const existingForecast = projection.forecasts[currentArea];
 			const existingDaysRemaining = existingForecast
@@ -213,6 +251,8 @@ export const forecastExtractor: EventExtractor = {
 						: null,
 				seed,
 				days: daysToGenerate,
+				latitude,
+				astronomy: settings.astronomy ?? undefined,
 			});
 
 			// Build final forecast by splicing kept days + new days
@@ -258,9 +298,12 @@ export const forecastExtractor: EventExtractor = {
 			if (mapping.baseClimateType) {
 				forecast.baseClimateType = mapping.baseClimateType;
 			}
+			if (profile) {
+				forecast.climateProfile = profile.name;
+			}
 
 			debugLog(
-				`Generated forecast for "${currentArea}" (${mapping.realWorldAnalog || mapping.baseClimateType || 'temperate'})`,
+				`Generated forecast for "${currentArea}" (${profile?.name || mapping.realWorldAnalog || mapping.baseClimateType || 'temperate'})`,
 			);
 
 			const event: ForecastGeneratedEvent = {
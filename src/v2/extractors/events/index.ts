@@ -20,6 +20,9 @@ export { milestoneDescriptionExtractor } from './milestoneDescriptionExtractor';
 // Chapter extractors
 export { chapterEndedExtractor } from './chapterEndedExtractor';
 export { chapterDescriptionExtractor } from './chapterDescriptionExtractor';
+export { arcSummaryExtractor } from './arcSummaryExtractor';
+export { sceneEndedExtractor } from './sceneEndedExtractor';
+export { sceneDescriptionExtractor } from './sceneDescriptionExtractor';
 
 // Character extractors (re-export from subdirectory)
 export * from './characters';
@@ -28,6 +31,9 @@ export * from './characters';
 export * from './relationships';
 
 import type { EventExtractor } from '../types';
+import type { ScopedExtractor } from '../utils';
+import { globalCharacterExtractors, perCharacterExtractors } from './characters';
+import { globalRelationshipExtractors, perPairExtractors } from './relationships';
 import { timeChangeExtractor } from './timeChangeExtractor';
 import { locationChangeExtractor } from './locationChangeExtractor';
 import { propsChangeExtractor } from './propsChangeExtractor';
@@ -39,6 +45,9 @@ import { narrativeDescriptionExtractor } from './narrativeDescriptionExtractor';
 import { milestoneDescriptionExtractor } from './milestoneDescriptionExtractor';
 import { chapterEndedExtractor } from './chapterEndedExtractor';
 import { chapterDescriptionExtractor } from './chapterDescriptionExtractor';
+import { arcSummaryExtractor } from './arcSummaryExtractor';
+import { sceneEndedExtractor } from './sceneEndedExtractor';
+import { sceneDescriptionExtractor } from './sceneDescriptionExtractor';
 
 /**
  * Core event extractors - run on every turn for environment/scene tracking.
@@ -73,9 +82,36 @@ export const narrativeEventExtractors: EventExtractor[] = [
 ];
 
 /**
- * Chapter event extractors - run for chapter boundary detection.
+ * Chapter event extractors - run for chapter and scene boundary detection.
+ * The arc extractor runs once the ended chapter has been described; scene
+ * extractors run after the chapter ones, since a chapter break also ends a scene.
  */
 export const chapterEventExtractors: EventExtractor[] = [
 	chapterEndedExtractor,
 	chapterDescriptionExtractor,
+	arcSummaryExtractor,
+	sceneEndedExtractor,
+	sceneDescriptionExtractor,
 ];
+
+/**
+ * All event extractors in run order, with how each is run.
+ */
+export function getAllEventExtractors(): ScopedExtractor[] {
+	const global = (extractors: EventExtractor[]): ScopedExtractor[] =>
+		extractors.map(extractor => ({ extractor, scope: 'global' }));
+
+	return [
+		...global(coreEventExtractors),
+		...global(globalCharacterExtractors),
+		...perCharacterExtractors.map(extractor => ({
+			extractor,
+			scope: 'perCharacter' as const,
+		})),
+		...global(propsEventExtractors),
+		...global(globalRelationshipExtractors),
+		...perPairExtractors.map(extractor => ({ extractor, scope: 'perPair' as const })),
+		...global(narrativeEventExtractors),
+		...global(chapterEventExtractors),
+	];
+}
@@ -27,6 +27,8 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
+	ANY_MESSAGE_STRATEGY,
 } from '../utils';
 
 /**
@@ -42,7 +44,10 @@ export const locationChangeExtractor: EventExtractor<ExtractedLocationChange> =
 	prompt: locationChangePrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 2 } as MessageStrategy,
+	inputs: ['location'],
+	outputs: ['location'],
 	runStrategy: { strategy: 'everyMessage' } as RunStrategy,
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: ANY_MESSAGE_STRATEGY },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Check if location tracking is enabled
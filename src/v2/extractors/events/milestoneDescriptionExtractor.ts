@@ -135,6 +135,8 @@ export const milestoneDescriptionExtractor: EventExtractor<ExtractedMilestoneDes
 	prompt: milestoneDescriptionPrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 2 },
+	inputs: ['time', 'location', 'props', 'presence', 'profiles', 'subjects', 'relationships'],
+	outputs: ['narrative'],
 	runStrategy: {
 		strategy: 'newEventsOfKind',
 		kinds: [{ kind: 'relationship', subkind: 'subject' }],
@@ -25,6 +25,8 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
+	ANY_MESSAGE_STRATEGY,
 } from '../utils';
 import type { EventStore } from '../../store';
 import { debugLog, debugWarn } from '../../../utils/debug';
@@ -44,8 +46,11 @@ export const narrativeDescriptionExtractor: EventExtractor<ExtractedNarrativeDes
 
 	// Send last 4 messages
 	messageStrategy: { strategy: 'fixedNumber', n: 4 },
+	inputs: ['presence', 'profiles'],
+	outputs: ['narrative'],
 	// Run every 4 messages
 	runStrategy: { strategy: 'everyNMessages', n: 4 },
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: ANY_MESSAGE_STRATEGY },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Run if narrative tracking is enabled AND run strategy allows it
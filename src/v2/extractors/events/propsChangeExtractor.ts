@@ -30,6 +30,8 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
+	ANY_MESSAGE_STRATEGY,
 } from '../utils';
 import type { EventStore } from '../../store';
 import { debugLog, debugWarn } from '../../../utils/debug';
@@ -54,6 +56,8 @@ export const propsChangeExtractor: EventExtractor<ExtractedPropsChange> = {
 			{ kind: 'location', subkind: 'prop_removed' },
 		],
 	},
+	inputs: ['location', 'characters', 'props'],
+	outputs: ['props'],
 	// Every 4 messages OR if there's a location change
 	runStrategy: {
 		strategy: 'custom',
@@ -71,6 +75,7 @@ export const propsChangeExtractor: EventExtractor<ExtractedPropsChange> = {
 			return ctx.currentMessage.messageId - lastProduced.messageId >= 4;
 		},
 	},
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: ANY_MESSAGE_STRATEGY },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Run if props tracking is enabled AND run strategy allows it
@@ -52,6 +52,8 @@ export const propsConfirmationExtractor: EventExtractor<ExtractedPropsConfirmati
 			{ kind: 'location', subkind: 'prop_removed' },
 		],
 	},
+	inputs: ['location', 'characters', 'props'],
+	outputs: ['props'],
 	// Run if there's new props changes this turn
 	runStrategy: {
 		strategy: 'newEventsOfKind',
@@ -36,6 +36,7 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
 } from '../../utils';
 import { buildPrompt } from '../../../prompts';
 import { debugWarn } from '../../../../utils/debug';
@@ -208,8 +209,11 @@ export const relationshipAttitudeConsolidationExtractor: PerPairExtractor<Extrac
 
 		// Last 6 messages for context
 		messageStrategy: { strategy: 'fixedNumber', n: 6 },
+		inputs: ['profiles', 'relationships'],
+		outputs: ['relationships'],
 		// Run every 6 messages
 		runStrategy: { strategy: 'everyNMessages', n: 6 },
+		configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
 
 		shouldRun(context: RunStrategyContext): boolean {
 			// Run if relationships tracking is enabled AND the run strategy permits
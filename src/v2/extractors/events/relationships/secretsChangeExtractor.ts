@@ -35,6 +35,7 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
 } from '../../utils';
 import { debugWarn } from '../../../../utils/debug';
 import { getWorldinfoForRelationship } from '../../../utils/worldinfo';
@@ -53,7 +54,10 @@ export const secretsChangeExtractor: PerPairExtractor<ExtractedSecretsChange> =
 	prompt: secretsChangePrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 4 } as MessageStrategy,
+	inputs: ['profiles', 'relationships'],
+	outputs: ['relationships'],
 	runStrategy: { strategy: 'everyNMessages', n: 4 } as RunStrategy,
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Run if relationships tracking is enabled AND the run strategy permits
@@ -34,6 +34,7 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
 } from '../../utils';
 import { applyStatusGating } from '../../utils/statusGating';
 import { sortPair, getRelationshipKey } from '../../../types/snapshot';
@@ -56,11 +57,14 @@ export const statusChangeExtractor: PerPairExtractor<ExtractedStatusChange> = {
 	prompt: statusChangePrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 8 } as MessageStrategy,
+	inputs: ['profiles', 'relationships'],
+	outputs: ['relationships'],
 	runStrategy: {
 		strategy: 'nSinceLastEventOfKind',
 		n: 8,
 		kinds: [{ kind: 'relationship', subkind: 'status_changed' }],
 	} as RunStrategy,
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Run if relationships tracking is enabled AND the run strategy permits
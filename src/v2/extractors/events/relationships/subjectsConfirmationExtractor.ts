@@ -93,6 +93,8 @@ export const subjectsConfirmationExtractor: EventExtractor<ExtractedSubjectsConf
 	prompt: subjectsConfirmationPrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 2 },
+	inputs: ['subjects'],
+	outputs: ['subjects'],
 	runStrategy: {
 		strategy: 'newEventsOfKind',
 		kinds: [{ kind: 'relationship', subkind: 'subject' }],
@@ -21,6 +21,7 @@ import {
 	evaluateRunStrategy,
 	projectWithTurnEvents,
 	getExtractorTemperature,
+	ANY_RUN_STRATEGY,
 } from '../../utils';
 import type { EventStore } from '../../../store';
 import { debugWarn } from '../../../../utils/debug';
@@ -38,8 +39,11 @@ export const subjectsExtractor: EventExtractor<ExtractedSubjects> = {
 	prompt: subjectsPrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 2 },
+	inputs: ['presence', 'profiles'],
+	outputs: ['subjects'],
 	// Every 2 messages starting at 1 (assistant messages in normal chat)
 	runStrategy: { strategy: 'everyNMessages', n: 2, offset: 1 },
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Run if relationships tracking is enabled AND run strategy allows it
@@ -35,6 +35,7 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
 } from '../../utils';
 import { debugWarn } from '../../../../utils/debug';
 import { getWorldinfoForRelationship } from '../../../utils/worldinfo';
@@ -54,7 +55,10 @@ export const wantsChangeExtractor: PerPairExtractor<ExtractedWantsChange> = {
 	prompt: wantsChangePrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 4 } as MessageStrategy,
+	inputs: ['profiles', 'relationships'],
+	outputs: ['relationships'],
 	runStrategy: { strategy: 'everyNMessages', n: 4 } as RunStrategy,
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Run if relationships tracking is enabled AND the run strategy permits
@@ -0,0 +1,277 @@
+/**
+ * Scene Description Event Extractor Tests
+ *
+ * Tests that verify the scene description extractor titles and summarizes a
+ * scene that ended this turn, using the messages since the previous scene.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMockGenerator, type MockGenerator } from '../../generator';
+import { sceneDescriptionExtractor } from './sceneDescriptionExtractor';
+import { EventStore } from '../../store';
+import type { ExtractionContext, ExtractionSettings, RunStrategyContext } from '../types';
+import type { MessageAndSwipe, Snapshot, Event, SceneEndedEvent } from '../../types';
+
+/**
+ * Create a mock extraction context for testing.
+ */
+function createMockContext(overrides: Partial<ExtractionContext> = {}): ExtractionContext {
+	return {
+		chat: [
+			{
+				mes: '*The journey begins.*',
+				is_user: false,
+				is_system: false,
+				name: 'Elena',
+			},
+			{
+				mes: 'I follow her lead.',
+				is_user: true,
+				is_system: false,
+				name: 'User',
+			},
+			{
+				mes: '*We arrive at the destination.*',
+				is_user: false,
+				is_system: false,
+				name: 'Elena',
+			},
+		],
+		characters: [{ name: 'Elena', description: 'A mysterious woman.' }],
+		characterId: 0,
+		name1: 'User',
+		name2: 'Elena',
+		persona: 'A traveler.',
+		...overrides,
+	};
+}
+
+/**
+ * Create mock extraction settings.
+ */
+function createMockSettings(overrides: Partial<ExtractionSettings> = {}): ExtractionSettings {
+	return {
+		profileId: 'test-profile',
+		track: {
+			time: true,
+			location: true,
+			props: true,
+			climate: true,
+			characters: true,
+			relationships: true,
+			scene: true,
+			narrative: true,
+			chapters: true,
+		},
+		temperatures: {
+			time: 0.3,
+			location: 0.5,
+			climate: 0.3,
+			characters: 0.7,
+			relationships: 0.6,
+			scene: 0.6,
+			narrative: 0.7,
+			chapters: 0.5,
+		},
+		customPrompts: {},
+		maxMessagesToSend: 10,
+		maxChapterMessagesToSend: 24,
+		includeWorldinfo: true,
+		...overrides,
+	};
+}
+
+/**
+ * Create a mock initial snapshot.
+ */
+function createMockSnapshot(): Snapshot {
+	return {
+		type: 'initial',
+		source: { messageId: 0, swipeId: 0 },
+		timestamp: Date.now(),
+		swipeId: 0,
+		time: '2024-11-14T08:00:00',
+		location: {
+			area: 'Village',
+			place: 'Town Square',
+			position: 'standing',
+			props: ['fountain', 'benches'],
+			locationType: 'outdoor',
+		},
+		forecasts: {},
+		climate: {
+			temperature: 18,
+			outdoorTemperature: 18,
+			feelsLike: 17,
+			humidity: 50,
+			precipitation: 0,
+			cloudCover: 20,
+			windSpeed: 5,
+			windDirection: 'E',
+			conditions: 'Sunny',
+			conditionType: 'clear',
+			uvIndex: 5,
+			daylight: 'day',
+			isIndoors: false,
+		},
+		characters: {
+			Elena: {
+				name: 'Elena',
+				position: 'standing',
+				activity: 'waiting',
+				mood: ['eager'],
+				physicalState: [],
+				outfit: {
+					head: null,
+					neck: null,
+					jacket: null,
+					back: 'backpack',
+					torso: 'blouse',
+					legs: 'trousers',
+					footwear: 'boots',
+					socks: null,
+					underwear: null,
+				},
+				akas: [],
+			},
+		},
+		relationships: {},
+		scene: {
+			topic: 'Adventure begins',
+			tone: 'Exciting',
+			tension: { level: 'aware', type: 'suspense', direction: 'escalating' },
+		},
+		currentChapter: 0,
+		narrativeEvents: [],
+	};
+}
+
+function createSceneEndedEvent(messageId: number, sceneIndex: number): SceneEndedEvent {
+	return {
+		id: `scene-ended-${messageId}`,
+		kind: 'scene',
+		subkind: 'ended',
+		sceneIndex,
+		chapterIndex: 0,
+		reasons: ['location_change'],
+		source: { messageId, swipeId: 0 },
+		timestamp: Date.now(),
+	};
+}
+
+/**
+ * Create a run strategy context.
+ */
+function createRunStrategyContext(
+	settings: ExtractionSettings,
+	context: ExtractionContext,
+	store: EventStore,
+	currentMessage: MessageAndSwipe,
+	turnEvents: Event[] = [],
+): RunStrategyContext {
+	return {
+		store,
+		context,
+		settings,
+		currentMessage,
+		turnEvents,
+		ranAtMessages: [],
+		producedAtMessages: [],
+	};
+}
+
+const SCENE_RESPONSE = JSON.stringify({
+	reasoning: 'They set off together.',
+	title: 'Setting Out',
+	summary: 'Elena led User out of the village.',
+});
+
+describe('sceneDescriptionExtractor', () => {
+	let mockGenerator: MockGenerator;
+	let store: EventStore;
+	const settings = createMockSettings({
+		scenes: { confirm: false, timeJumpMinutes: 60, presenceChanges: true },
+	});
+
+	beforeEach(() => {
+		mockGenerator = createMockGenerator();
+		store = new EventStore();
+		store.replaceInitialSnapshot(createMockSnapshot());
+	});
+
+	describe('shouldRun', () => {
+		it('returns true when a scene ended this turn', () => {
+			const runContext = createRunStrategyContext(
+				settings,
+				createMockContext(),
+				store,
+				{ messageId: 2, swipeId: 0 },
+				[createSceneEndedEvent(2, 0)],
+			);
+
+			expect(sceneDescriptionExtractor.shouldRun(runContext)).toBe(true);
+		});
+
+		it('returns false when scenes are disabled', () => {
+			const runContext = createRunStrategyContext(
+				createMockSettings(),
+				createMockContext(),
+				store,
+				{ messageId: 2, swipeId: 0 },
+				[createSceneEndedEvent(2, 0)],
+			);
+
+			expect(sceneDescriptionExtractor.shouldRun(runContext)).toBe(false);
+		});
+	});
+
+	describe('run', () => {
+		it('describes the scene from its own messages', async () => {
+			store.appendEvents([createSceneEndedEvent(0, 0)]);
+			mockGenerator.setDefaultResponse(SCENE_RESPONSE);
+			const currentMessage: MessageAndSwipe = { messageId: 2, swipeId: 0 };
+
+			const result = await sceneDescriptionExtractor.run(
+				mockGenerator,
+				createMockContext(),
+				settings,
+				store,
+				currentMessage,
+				[createSceneEndedEvent(2, 1)],
+			);
+
+			expect(result).toHaveLength(1);
+			expect(result[0]).toMatchObject({
+				kind: 'scene',
+				subkind: 'described',
+				sceneIndex: 1,
+				title: 'Setting Out',
+				source: currentMessage,
+			});
+
+			// Scene 2 starts after message 0, where scene 1 ended
+			const prompt = mockGenerator
+				.getLastCall()!
+				.prompt.messages.map(m => m.content)
+				.join('\n');
+			expect(prompt).toContain('I follow her lead.');
+			expect(prompt).not.toContain('The journey begins.');
+			expect(prompt).toContain('Scene 1: Scene 1');
+		});
+
+		it('returns empty array when LLM returns invalid JSON', async () => {
+			mockGenerator.setDefaultResponse('Not valid JSON');
+
+			const result = await sceneDescriptionExtractor.run(
+				mockGenerator,
+				createMockContext(),
+				settings,
+				store,
+				{ messageId: 2, swipeId: 0 },
+				[createSceneEndedEvent(2, 0)],
+			);
+
+			expect(result).toEqual([]);
+		});
+	});
+});
@@ -0,0 +1,158 @@
+/**
+ * Scene Description Event Extractor
+ *
+ * Generates a short title and summary for a scene that just ended.
+ * Runs only when a SceneEndedEvent exists in turnEvents.
+ */
+
+import type { Generator } from '../../generator';
+import type {
+	EventExtractor,
+	ExtractionContext,
+	ExtractionSettings,
+	RunStrategyContext,
+} from '../types';
+import type { Event, MessageAndSwipe, ExtractedSceneDescription } from '../../types';
+import { isSceneEndedEvent } from '../../types';
+import { sceneDescriptionPrompt } from '../../prompts/events/sceneDescriptionPrompt';
+import {
+	buildExtractorPrompt,
+	generateAndParse,
+	mapSceneDescription,
+	buildSwipeContextFromExtraction,
+	projectWithTurnEvents,
+	getExtractorTemperature,
+	formatMessages,
+	limitMessageRange,
+	getMaxMessages,
+} from '../utils';
+import type { EventStore } from '../../store';
+import { computeScenes, type ComputedScene } from '../../narrative/computeScenes';
+import { debugWarn } from '../../../utils/debug';
+
+/**
+ * Format the earlier scenes of the chapter for the prompt.
+ */
+function formatPreviousScenes(scenes: ComputedScene[]): string {
+	if (scenes.length === 0) return '(First scene of the chapter)';
+	return scenes
+		.map(scene => {
+			const summary = scene.summary ? ` - ${scene.summary}` : '';
+			return `Scene ${scene.index + 1}: ${scene.title}${summary}`;
+		})
+		.join('\n');
+}
+
+/**
+ * Scene description event extractor.
+ * Generates a short title and one- or two-sentence summary for completed scenes.
+ */
+export const sceneDescriptionExtractor: EventExtractor<ExtractedSceneDescription> = {
+	name: 'sceneDescription',
+	displayName: 'scene',
+	category: 'chapters',
+	defaultTemperature: 0.5,
+	prompt: sceneDescriptionPrompt,
+
+	// Message range is computed in run() - we need the whole scene
+	messageStrategy: {
+		strategy: 'sinceLastEventOfKind',
+		kinds: [{ kind: 'scene', subkind: 'ended' }],
+	},
+	runStrategy: {
+		strategy: 'newEventsOfKind',
+		kinds: [{ kind: 'scene', subkind: 'ended' }],
+	},
+
+	shouldRun(context: RunStrategyContext): boolean {
+		// Only run if scenes are enabled AND a scene ended this turn
+		if (!context.settings.scenes) return false;
+
+		return context.turnEvents.some(isSceneEndedEvent);
+	},
+
+	async run(
+		generator: Generator,
+		context: ExtractionContext,
+		settings: ExtractionSettings,
+		store: EventStore,
+		currentMessage: MessageAndSwipe,
+		turnEvents: Event[],
+		abortSignal?: AbortSignal,
+	): Promise<Event[]> {
+		const sceneEndedEvent = turnEvents.find(isSceneEndedEvent);
+		if (!sceneEndedEvent) {
+			return [];
+		}
+
+		// Include this turn's events, so the ended scene has its final range
+		const swipeContext = buildSwipeContextFromExtraction(context);
+		const workingStore = store.getDeepClone();
+		workingStore.appendEvents(turnEvents);
+		const scenes = computeScenes(workingStore, swipeContext);
+		const scene = scenes.find(s => s.index === sceneEndedEvent.sceneIndex);
+		if (!scene) {
+			return [];
+		}
+
+		let sceneStartMsg = scene.startMessageId;
+		let sceneEndMsg = currentMessage.messageId;
+
+		// Apply message limiting (uses maxChapterMessagesToSend)
+		const maxMessages = getMaxMessages(settings, this.name);
+		({ messageStart: sceneStartMsg, messageEnd: sceneEndMsg } = limitMessageRange(
+			sceneStartMsg,
+			sceneEndMsg,
+			maxMessages,
+		));
+
+		const previousScenes = scenes.filter(
+			s => s.index < scene.index && s.chapterIndex === scene.chapterIndex,
+		);
+
+		const projection = projectWithTurnEvents(
+			store,
+			turnEvents,
+			currentMessage.messageId,
+			context,
+		);
+
+		const additionalValues: Record<string, string> = {
+			sceneMessages: formatMessages(context, sceneStartMsg, sceneEndMsg),
+			previousScenes: formatPreviousScenes(previousScenes),
+		};
+
+		const builtPrompt = buildExtractorPrompt(
+			sceneDescriptionPrompt,
+			context,
+			projection,
+			settings,
+			sceneStartMsg,
+			currentMessage.messageId,
+			{ additionalValues },
+		);
+
+		// Get temperature (prompt override → category → default)
+		const temperature = getExtractorTemperature(
+			settings,
+			this.prompt.name,
+			'chapters',
+			this.defaultTemperature,
+		);
+
+		const result = await generateAndParse(
+			generator,
+			sceneDescriptionPrompt,
+			builtPrompt,
+			temperature,
+			{ abortSignal },
+		);
+
+		if (!result.success || !result.data) {
+			debugWarn('sceneDescription extraction failed:', result.error);
+			return [];
+		}
+
+		return mapSceneDescription(result.data, currentMessage, scene.index);
+	},
+};
@@ -0,0 +1,408 @@
+/**
+ * Scene Ended Event Extractor Tests
+ *
+ * Tests that verify the scene extractor flags breaks on location moves, time
+ * jumps and cast changes, asks the LLM to confirm them when enabled, and
+ * always ends the scene when its chapter ends.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMockGenerator, type MockGenerator } from '../../generator';
+import { sceneEndedExtractor } from './sceneEndedExtractor';
+import { EventStore } from '../../store';
+import type { ExtractionContext, ExtractionSettings, RunStrategyContext } from '../types';
+import type {
+	MessageAndSwipe,
+	Snapshot,
+	Event,
+	ChapterEndedEvent,
+	LocationMovedEvent,
+	TimeDeltaEvent,
+	CharacterAppearedEvent,
+	SceneEndedEvent,
+} from '../../types';
+
+/**
+ * Create a mock extraction context for testing.
+ */
+function createMockContext(overrides: Partial<ExtractionContext> = {}): ExtractionContext {
+	return {
+		chat: [
+			{
+				mes: '*The journey begins.*',
+				is_user: false,
+				is_system: false,
+				name: 'Elena',
+			},
+			{
+				mes: 'I follow her lead.',
+				is_user: true,
+				is_system: false,
+				name: 'User',
+			},
+			{
+				mes: '*We arrive at the destination.*',
+				is_user: false,
+				is_system: false,
+				name: 'Elena',
+			},
+		],
+		characters: [{ name: 'Elena', description: 'A mysterious woman.' }],
+		characterId: 0,
+		name1: 'User',
+		name2: 'Elena',
+		persona: 'A traveler.',
+		...overrides,
+	};
+}
+
+/**
+ * Create mock extraction settings.
+ */
+function createMockSettings(overrides: Partial<ExtractionSettings> = {}): ExtractionSettings {
+	return {
+		profileId: 'test-profile',
+		track: {
+			time: true,
+			location: true,
+			props: true,
+			climate: true,
+			characters: true,
+			relationships: true,
+			scene: true,
+			narrative: true,
+			chapters: true,
+		},
+		temperatures: {
+			time: 0.3,
+			location: 0.5,
+			climate: 0.3,
+			characters: 0.7,
+			relationships: 0.6,
+			scene: 0.6,
+			narrative: 0.7,
+			chapters: 0.5,
+		},
+		customPrompts: {},
+		maxMessagesToSend: 10,
+		maxChapterMessagesToSend: 24,
+		includeWorldinfo: true,
+		...overrides,
+	};
+}
+
+/**
+ * Create a mock initial snapshot.
+ */
+function createMockSnapshot(): Snapshot {
+	return {
+		type: 'initial',
+		source: { messageId: 0, swipeId: 0 },
+		timestamp: Date.now(),
+		swipeId: 0,
+		time: '2024-11-14T08:00:00',
+		location: {
+			area: 'Village',
+			place: 'Town Square',
+			position: 'standing',
+			props: ['fountain', 'benches'],
+			locationType: 'outdoor',
+		},
+		forecasts: {},
+		climate: {
+			temperature: 18,
+			outdoorTemperature: 18,
+			feelsLike: 17,
+			humidity: 50,
+			precipitation: 0,
+			cloudCover: 20,
+			windSpeed: 5,
+			windDirection: 'E',
+			conditions: 'Sunny',
+			conditionType: 'clear',
+			uvIndex: 5,
+			daylight: 'day',
+			isIndoors: false,
+		},
+		characters: {
+			Elena: {
+				name: 'Elena',
+				position: 'standing',
+				activity: 'waiting',
+				mood: ['eager'],
+				physicalState: [],
+				outfit: {
+					head: null,
+					neck: null,
+					jacket: null,
+					back: 'backpack',
+					torso: 'blouse',
+					legs: 'trousers',
+					footwear: 'boots',
+					socks: null,
+					underwear: null,
+				},
+				akas: [],
+			},
+		},
+		relationships: {},
+		scene: {
+			topic: 'Adventure begins',
+			tone: 'Exciting',
+			tension: { level: 'aware', type: 'suspense', direction: 'escalating' },
+		},
+		currentChapter: 0,
+		narrativeEvents: [],
+	};
+}
+
+/**
+ * Scene settings with the LLM confirm step off unless overridden.
+ */
+function createSceneSettings(
+	overrides: Partial<NonNullable<ExtractionSettings['scenes']>> = {},
+): ExtractionSettings {
+	return createMockSettings({
+		scenes: {
+			confirm: false,
+			timeJumpMinutes: 60,
+			presenceChanges: true,
+			...overrides,
+		},
+	});
+}
+
+function createMovedEvent(messageId: number): LocationMovedEvent {
+	return {
+		id: `moved-${messageId}`,
+		kind: 'location',
+		subkind: 'moved',
+		newArea: 'Village',
+		newPlace: 'Tavern',
+		newPosition: 'at the bar',
+		previousPlace: 'Town Square',
+		source: { messageId, swipeId: 0 },
+		timestamp: Date.now(),
+	};
+}
+
+function createTimeDeltaEvent(messageId: number, hours: number, minutes = 0): TimeDeltaEvent {
+	return {
+		id: `delta-${messageId}`,
+		kind: 'time',
+		subkind: 'delta',
+		delta: { days: 0, hours, minutes, seconds: 0 },
+		source: { messageId, swipeId: 0 },
+		timestamp: Date.now(),
+	};
+}
+
+function createAppearedEvent(messageId: number, character: string): CharacterAppearedEvent {
+	return {
+		id: `appeared-${messageId}-${character}`,
+		kind: 'character',
+		subkind: 'appeared',
+		character,
+		source: { messageId, swipeId: 0 },
+		timestamp: Date.now(),
+	};
+}
+
+function createChapterEndedEvent(messageId: number, chapterIndex: number): ChapterEndedEvent {
+	return {
+		id: `chapter-ended-${messageId}`,
+		kind: 'chapter',
+		subkind: 'ended',
+		chapterIndex,
+		reason: 'location_change',
+		source: { messageId, swipeId: 0 },
+		timestamp: Date.now(),
+	};
+}
+
+/**
+ * Create a run strategy context.
+ */
+function createRunStrategyContext(
+	settings: ExtractionSettings,
+	context: ExtractionContext,
+	store: EventStore,
+	currentMessage: MessageAndSwipe,
+	turnEvents: Event[] = [],
+): RunStrategyContext {
+	return {
+		store,
+		context,
+		settings,
+		currentMessage,
+		turnEvents,
+		ranAtMessages: [],
+		producedAtMessages: [],
+	};
+}
+
+describe('sceneEndedExtractor', () => {
+	let mockGenerator: MockGenerator;
+	let store: EventStore;
+	const currentMessage: MessageAndSwipe = { messageId: 2, swipeId: 0 };
+
+	beforeEach(() => {
+		mockGenerator = createMockGenerator();
+		store = new EventStore();
+		store.replaceInitialSnapshot(createMockSnapshot());
+	});
+
+	const run = (settings: ExtractionSettings, turnEvents: Event[]) =>
+		sceneEndedExtractor.run(
+			mockGenerator,
+			createMockContext(),
+			settings,
+			store,
+			currentMessage,
+			turnEvents,
+		);
+
+	describe('shouldRun', () => {
+		it('returns false when scenes are disabled', () => {
+			const runContext = createRunStrategyContext(
+				createMockSettings(),
+				createMockContext(),
+				store,
+				currentMessage,
+				[createMovedEvent(2)],
+			);
+
+			expect(sceneEndedExtractor.shouldRun(runContext)).toBe(false);
+		});
+
+		it('returns true when the location changed', () => {
+			const runContext = createRunStrategyContext(
+				createSceneSettings(),
+				createMockContext(),
+				store,
+				currentMessage,
+				[createMovedEvent(2)],
+			);
+
+			expect(sceneEndedExtractor.shouldRun(runContext)).toBe(true);
+		});
+
+		it('returns false when nothing changed', () => {
+			const runContext = createRunStrategyContext(
+				createSceneSettings(),
+				createMockContext(),
+				store,
+				currentMessage,
+				[],
+			);
+
+			expect(sceneEndedExtractor.shouldRun(runContext)).toBe(false);
+		});
+	});
+
+	describe('run', () => {
+		it('ends the scene on a location move', async () => {
+			const result = await run(createSceneSettings(), [createMovedEvent(2)]);
+
+			expect(result).toHaveLength(1);
+			expect(result[0] as SceneEndedEvent).toMatchObject({
+				kind: 'scene',
+				subkind: 'ended',
+				sceneIndex: 0,
+				chapterIndex: 0,
+				reasons: ['location_change'],
+				source: currentMessage,
+			});
+			expect(mockGenerator.getCalls()).toHaveLength(0);
+		});
+
+		it('only counts time skips of at least timeJumpMinutes', async () => {
+			expect(
+				await run(createSceneSettings(), [createTimeDeltaEvent(2, 0, 30)]),
+			).toEqual([]);
+
+			const result = await run(createSceneSettings(), [
+				createTimeDeltaEvent(2, 2),
+			]);
+			expect(result[0]).toMatchObject({ reasons: ['time_jump'] });
+		});
+
+		it('ends the scene when half the cast changes', async () => {
+			// Elena was alone, so one arrival changes half the cast
+			const result = await run(createSceneSettings(), [
+				createAppearedEvent(2, 'Marcus'),
+			]);
+			expect(result[0]).toMatchObject({ reasons: ['presence_change'] });
+
+			expect(
+				await run(createSceneSettings({ presenceChanges: false }), [
+					createAppearedEvent(2, 'Marcus'),
+				]),
+			).toEqual([]);
+		});
+
+		it('continues the scene count after earlier scenes', async () => {
+			store.appendEvents([
+				{
+					id: 'scene-0',
+					kind: 'scene',
+					subkind: 'ended',
+					sceneIndex: 0,
+					chapterIndex: 0,
+					reasons: ['time_jump'],
+					source: { messageId: 0, swipeId: 0 },
+					timestamp: Date.now(),
+				},
+			]);
+
+			const result = await run(createSceneSettings(), [createMovedEvent(2)]);
+
+			expect(result[0]).toMatchObject({ sceneIndex: 1 });
+		});
+
+		it('ends the scene with its chapter without asking the LLM', async () => {
+			const result = await run(createSceneSettings({ confirm: true }), [
+				createChapterEndedEvent(2, 0),
+			]);
+
+			expect(result[0]).toMatchObject({
+				sceneIndex: 0,
+				chapterIndex: 0,
+				reasons: [],
+			});
+			expect(mockGenerator.getCalls()).toHaveLength(0);
+		});
+
+		it('asks the LLM to confirm when enabled', async () => {
+			mockGenerator.setDefaultResponse(
+				JSON.stringify({
+					reasoning: 'Same conversation.',
+					isNewScene: false,
+				}),
+			);
+
+			const result = await run(createSceneSettings({ confirm: true }), [
+				createMovedEvent(2),
+			]);
+
+			expect(result).toEqual([]);
+			const prompt = mockGenerator
+				.getLastCall()!
+				.prompt.messages.map(m => m.content)
+				.join('\n');
+			expect(prompt).toContain('- Location: Town Square -> Tavern');
+		});
+
+		it('ends the scene when the LLM confirms the break', async () => {
+			mockGenerator.setDefaultResponse(
+				JSON.stringify({ reasoning: 'They moved on.', isNewScene: true }),
+			);
+
+			const result = await run(createSceneSettings({ confirm: true }), [
+				createMovedEvent(2),
+			]);
+
+			expect(result[0]).toMatchObject({ reasons: ['location_change'] });
+		});
+	});
+});
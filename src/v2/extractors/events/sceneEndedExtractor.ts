@@ -0,0 +1,291 @@
+/**
+ * Scene Ended Event Extractor
+ *
+ * Splits chapters into scenes. A scene break is flagged when the characters
+ * move, when time skips ahead by settings.scenes.timeJumpMinutes or more, or
+ * when at least half the cast changes. Flagged breaks are optionally confirmed
+ * by the LLM. A chapter ending always ends its last scene.
+ *
+ * Runs after the chapter ended extractor so it can follow chapter breaks.
+ */
+
+import type { Generator } from '../../generator';
+import type { EventStore } from '../../store';
+import type { Event, MessageAndSwipe, SceneBreakReason, ExtractedSceneBreak } from '../../types';
+import {
+	isChapterEndedEvent,
+	isLocationMovedEvent,
+	isTimeDeltaEvent,
+	isCharacterAppearedEvent,
+	isCharacterDepartedEvent,
+} from '../../types';
+import type { Projection } from '../../types/snapshot';
+import { sceneBreakPrompt } from '../../prompts/events/sceneBreakPrompt';
+import type {
+	EventExtractor,
+	ExtractionContext,
+	ExtractionSettings,
+	MessageStrategy,
+	RunStrategy,
+	RunStrategyContext,
+} from '../types';
+import { getMessageCount } from '../types';
+import {
+	buildExtractorPrompt,
+	generateAndParse,
+	mapSceneEnded,
+	evaluateRunStrategy,
+	projectWithTurnEvents,
+	getExtractorTemperature,
+	limitMessageRange,
+	getMaxMessages,
+	buildSwipeContextFromExtraction,
+} from '../utils';
+import { getCurrentSceneIndex } from '../../narrative/computeScenes';
+import { debugWarn } from '../../../utils/debug';
+
+/**
+ * A flagged scene break and the changes behind it, for the confirm prompt.
+ */
+interface SceneBreakCandidate {
+	reasons: SceneBreakReason[];
+	triggers: string[];
+}
+
+/**
+ * Total minutes that passed in this turn's time delta events.
+ */
+function getMinutesPassed(turnEvents: Event[]): number {
+	let minutes = 0;
+	for (const event of turnEvents.filter(isTimeDeltaEvent)) {
+		const { delta } = event;
+		minutes +=
+			(delta.days ?? 0) * 24 * 60 +
+			(delta.hours ?? 0) * 60 +
+			(delta.minutes ?? 0);
+	}
+	return minutes;
+}
+
+/**
+ * Format a time skip for the confirm prompt.
+ */
+function formatMinutes(minutes: number): string {
+	if (minutes >= 24 * 60) return `${Math.floor(minutes / (24 * 60))} day(s)`;
+	if (minutes >= 60) return `${Math.floor(minutes / 60)} hour(s)`;
+	return `${minutes} minute(s)`;
+}
+
+/**
+ * Characters who arrived and left this turn.
+ */
+function getPresenceChanges(turnEvents: Event[]): { arrived: string[]; departed: string[] } {
+	const arrived = new Set<string>();
+	const departed = new Set<string>();
+	for (const event of turnEvents) {
+		if (isCharacterAppearedEvent(event)) arrived.add(event.character);
+		if (isCharacterDepartedEvent(event)) departed.add(event.character);
+	}
+	return { arrived: [...arrived], departed: [...departed] };
+}
+
+/**
+ * Work out whether this turn's events flag a scene break.
+ * The projection includes this turn's events; the previous cast is rebuilt
+ * from it by undoing arrivals and departures.
+ */
+function detectSceneBreak(
+	turnEvents: Event[],
+	projection: Projection,
+	scenes: NonNullable<ExtractionSettings['scenes']>,
+): SceneBreakCandidate {
+	const reasons: SceneBreakReason[] = [];
+	const triggers: string[] = [];
+
+	const moved = turnEvents.find(isLocationMovedEvent);
+	if (moved) {
+		reasons.push('location_change');
+		const previous = moved.previousPlace ?? moved.previousArea;
+		triggers.push(
+			previous
+				? `- Location: ${previous} -> ${moved.newPlace}`
+				: `- Location: moved to ${moved.newPlace}`,
+		);
+	}
+
+	const minutes = getMinutesPassed(turnEvents);
+	if (minutes > 0 && minutes >= scenes.timeJumpMinutes) {
+		reasons.push('time_jump');
+		triggers.push(`- Time: ${formatMinutes(minutes)} passed`);
+	}
+
+	if (scenes.presenceChanges) {
+		const { arrived, departed } = getPresenceChanges(turnEvents);
+		const previousCast = new Set(
+			projection.charactersPresent.filter(name => !arrived.includes(name)),
+		);
+		for (const name of departed) previousCast.add(name);
+
+		const changed = arrived.length + departed.length;
+		if (changed > 0 && changed >= Math.max(1, Math.ceil(previousCast.size / 2))) {
+			reasons.push('presence_change');
+			const parts = [
+				...departed.map(name => `${name} left`),
+				...arrived.map(name => `${name} arrived`),
+			];
+			triggers.push(`- Cast: ${parts.join(', ')}`);
+		}
+	}
+
+	return { reasons, triggers };
+}
+
+/**
+ * Custom run strategy check for the scene ended extractor.
+ * Returns true if this turn has anything that could end a scene; the
+ * thresholds are applied in run(), once the projection is available.
+ */
+function customCheck(context: RunStrategyContext): boolean {
+	return context.turnEvents.some(
+		e =>
+			isChapterEndedEvent(e) ||
+			isLocationMovedEvent(e) ||
+			isTimeDeltaEvent(e) ||
+			isCharacterAppearedEvent(e) ||
+			isCharacterDepartedEvent(e),
+	);
+}
+
+/**
+ * Scene Ended Extractor
+ *
+ * Detects scene breaks within chapters from location, time and cast changes.
+ */
+export const sceneEndedExtractor: EventExtractor<ExtractedSceneBreak> = {
+	name: 'sceneEnded',
+	displayName: 'scene end',
+	category: 'chapters',
+	defaultTemperature: 0.3,
+	prompt: sceneBreakPrompt,
+
+	messageStrategy: { strategy: 'fixedNumber', n: 3 } as MessageStrategy,
+	runStrategy: { strategy: 'custom', check: customCheck } as RunStrategy,
+
+	shouldRun(context: RunStrategyContext): boolean {
+		// Check if scene tracking is enabled
+		if (!context.settings.scenes) {
+			return false;
+		}
+		return evaluateRunStrategy(this.runStrategy, context);
+	},
+
+	async run(
+		generator: Generator,
+		context: ExtractionContext,
+		settings: ExtractionSettings,
+		store: EventStore,
+		currentMessage: MessageAndSwipe,
+		turnEvents: Event[],
+		abortSignal?: AbortSignal,
+	): Promise<Event[]> {
+		if (!settings.scenes) {
+			return [];
+		}
+
+		let projection;
+		try {
+			projection = projectWithTurnEvents(
+				store,
+				turnEvents,
+				currentMessage.messageId,
+				context,
+			);
+		} catch {
+			// No initial snapshot yet - nothing to split
+			return [];
+		}
+
+		const swipeContext = buildSwipeContextFromExtraction(context);
+		const sceneIndex = getCurrentSceneIndex(store, swipeContext);
+		const candidate = detectSceneBreak(turnEvents, projection, settings.scenes);
+
+		// The last scene of a chapter ends with it, no confirmation needed
+		const chapterEndedEvent = turnEvents.find(isChapterEndedEvent);
+		if (chapterEndedEvent) {
+			return mapSceneEnded(
+				currentMessage,
+				sceneIndex,
+				chapterEndedEvent.chapterIndex,
+				candidate.reasons,
+			);
+		}
+
+		if (candidate.reasons.length === 0) {
+			return [];
+		}
+
+		if (!settings.scenes.confirm) {
+			return mapSceneEnded(
+				currentMessage,
+				sceneIndex,
+				projection.currentChapter,
+				candidate.reasons,
+			);
+		}
+
+		// Determine message range
+		const messageCount = getMessageCount(this.messageStrategy, store, currentMessage);
+		let messageStart = Math.max(0, currentMessage.messageId - messageCount + 1);
+		let messageEnd = currentMessage.messageId;
+
+		// Apply message limiting
+		const maxMessages = getMaxMessages(settings, this.name);
+		({ messageStart, messageEnd } = limitMessageRange(
+			messageStart,
+			messageEnd,
+			maxMessages,
+		));
+
+		const builtPrompt = buildExtractorPrompt(
+			this.prompt,
+			context,
+			projection,
+			settings,
+			messageStart,
+			messageEnd,
+			{ additionalValues: { sceneTriggers: candidate.triggers.join('\n') } },
+		);
+
+		// Get temperature (prompt override → category → default)
+		const temperature = getExtractorTemperature(
+			settings,
+			this.prompt.name,
+			'chapters',
+			this.defaultTemperature,
+		);
+
+		const result = await generateAndParse<ExtractedSceneBreak>(
+			generator,
+			this.prompt,
+			builtPrompt,
+			temperature,
+			{ abortSignal },
+		);
+
+		if (!result.success || !result.data) {
+			debugWarn('sceneEnded extraction failed:', result.error);
+			return [];
+		}
+
+		if (!result.data.isNewScene) {
+			return [];
+		}
+
+		return mapSceneEnded(
+			currentMessage,
+			sceneIndex,
+			projection.currentChapter,
+			candidate.reasons,
+		);
+	},
+};
@@ -26,6 +26,7 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
 } from '../utils';
 import { debugWarn } from '../../../utils/debug';
 
@@ -48,8 +49,11 @@ export const tensionChangeExtractor: EventExtractor<ExtractedTensionChange> = {
 		strategy: 'sinceLastEventOfKind',
 		kinds: [{ kind: 'tension' }],
 	} as MessageStrategy,
+	inputs: ['tension'],
+	outputs: ['tension'],
 	// Every 2 messages starting at 1 (assistant messages in normal chat)
 	runStrategy: { strategy: 'everyNMessages', n: 2, offset: 1 } as RunStrategy,
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Run if scene tracking is enabled AND the run strategy permits
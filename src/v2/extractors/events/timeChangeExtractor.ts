@@ -20,6 +20,7 @@ import {
 	evaluateRunStrategy,
 	projectWithTurnEvents,
 	getExtractorTemperature,
+	ANY_RUN_STRATEGY,
 } from '../utils';
 import type { EventStore } from '../../store';
 import { debugLog, debugWarn } from '../../../utils/debug';
@@ -36,7 +37,10 @@ export const timeChangeExtractor: EventExtractor<ExtractedTimeChange> = {
 	prompt: timeChangePrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 1 },
+	inputs: ['time'],
+	outputs: ['time'],
 	runStrategy: { strategy: 'everyMessage' },
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Run if time tracking is enabled AND run strategy allows it
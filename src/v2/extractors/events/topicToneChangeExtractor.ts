@@ -26,6 +26,8 @@ import {
 	getExtractorTemperature,
 	limitMessageRange,
 	getMaxMessages,
+	ANY_RUN_STRATEGY,
+	ANY_MESSAGE_STRATEGY,
 } from '../utils';
 import { debugWarn } from '../../../utils/debug';
 
@@ -44,7 +46,10 @@ export const topicToneChangeExtractor: EventExtractor = {
 	prompt: topicToneChangePrompt,
 
 	messageStrategy: { strategy: 'fixedNumber', n: 2 } as MessageStrategy,
+	inputs: ['scene'],
+	outputs: ['scene'],
 	runStrategy: { strategy: 'everyMessage' } as RunStrategy,
+	configurableStrategies: { run: ANY_RUN_STRATEGY, message: ANY_MESSAGE_STRATEGY },
 
 	shouldRun(context: RunStrategyContext): boolean {
 		// Run if scene tracking is enabled AND the run strategy allows it
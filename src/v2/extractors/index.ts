@@ -9,8 +9,13 @@ export type {
 	ExtractionContext,
 	ExtractionSettings,
 	MessageStrategy,
+	MessageStrategyName,
 	RunStrategy,
 	RunStrategyContext,
+	ConfigurableRunStrategy,
+	ConfigurableRunStrategyName,
+	ConfigurableStrategies,
+	ExtractorStrategyOverride,
 	BaseExtractor,
 	InitialExtractor,
 	EventExtractor,
@@ -41,6 +41,12 @@ vi.mock('../../../weather/fallbackProfiles', () => ({
 		humidity: 70,
 		sunlightHours: 5,
 	}),
+	getClimateNormalsFromProfile: vi.fn().mockReturnValue({
+		temperature: { high: 30, low: 20, mean: 25 },
+		precipitation: { avgMm: 10, rainyDays: 2 },
+		humidity: 20,
+		sunlightHours: 9,
+	}),
 }));
 
 vi.mock('../../../weather/forecastGenerator', () => ({
@@ -277,6 +283,43 @@ describe('initialForecastExtractor', () => {
 
 			expect(result.forecasts!['Seattle'].baseClimateType).toBe('temperate');
 		});
+
+		it('uses a custom climate profile assigned to the area instead of mapping it', async () => {
+			const { mapLocation } = await import('../../../weather/locationMapper');
+			const { getClimateNormalsFromProfile } =
+				await import('../../../weather/fallbackProfiles');
+
+			const profile = {
+				name: 'Ashlands',
+				areas: ['Ash*'],
+				monthlyHighs: Array(12).fill(100),
+				monthlyLows: Array(12).fill(70),
+				monthlyPrecipDays: Array(12).fill(1),
+				monthlyHumidity: Array(12).fill(15),
+				tempStdDev: 5,
+				conditionWeights: { winter: {}, spring: {}, summer: {}, fall: {} },
+			};
+			const settings = { ...createMockSettings(), climateProfiles: [profile] };
+			const partialSnapshot = createPartialSnapshot({
+				location: createMockLocation({ area: 'Ashfall' }),
+				time: '2024-11-14T15:47:00.000Z',
+			});
+
+			const result = await initialForecastExtractor.run(
+				mockGenerator,
+				createMockContext(),
+				settings,
+				partialSnapshot,
+			);
+
+			expect(mapLocation).not.toHaveBeenCalled();
+			expect(getClimateNormalsFromProfile).toHaveBeenCalledWith(
+				profile,
+				11,
+				undefined,
+			);
+			expect(result.forecasts!['Ashfall'].climateProfile).toBe('Ashlands');
+		});
 	});
 
 	describe('metadata', () => {
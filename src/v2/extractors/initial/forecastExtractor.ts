@@ -5,9 +5,10 @@
  * Climate is computed from forecasts + time + location during projection.
  *
  * Resolution priority:
- * 1. Real-world location → use real climate data from API
- * 2. Fantastical location with real-world analog → use analog's climate data
- * 3. All else fails → use base climate type (temperate, desert, arctic, etc.)
+ * 1. Area assigned to a custom climate profile → use the profile
+ * 2. Real-world location → use real climate data from API
+ * 3. Fantastical location with real-world analog → use analog's climate data
+ * 4. All else fails → use base climate type (temperate, desert, arctic, etc.)
  */
 
 import type { Generator } from '../../generator';
@@ -18,8 +19,14 @@ import { deserializeMoment } from '../../types/common';
 import { mapLocation } from '../../../weather/locationMapper';
 import { fetchClimateNormals } from '../../../weather/climateApi';
 import { getClimateNormalsFromFallback } from '../../../weather/fallbackProfiles';
+import {
+	findClimateProfile,
+	getClimateNormalsFromCustomProfile,
+} from '../../../weather/climateProfiles';
 import { generateForecast } from '../../../weather/forecastGenerator';
+import { BASE_CLIMATE_LATITUDES } from '../../../weather/astronomy';
 import type { LocationMapping } from '../../../weather/types';
+import { getClimateMonth, getGregorianDate } from '../../../utils/calendar';
 import { debugLog, errorLog } from '../../../utils/debug';
 
 /**
@@ -40,7 +47,7 @@ export const initialForecastExtractor: InitialExtractor = {
 	async run(
 		_generator: Generator,
 		context: ExtractionContext,
-		_settings: ExtractionSettings,
+		settings: ExtractionSettings,
 		partialSnapshot: Partial<Snapshot>,
 		_abortSignal?: AbortSignal,
 	): Promise<Partial<Snapshot>> {
@@ -69,35 +76,59 @@ export const initialForecastExtractor: InitialExtractor = {
 			// Get existing location mappings from snapshot (or start fresh)
 			const existingMappings: LocationMapping[] = [];
 
-			// Map location to climate data source
-			const mapping = await mapLocation(
+			// A custom profile for this area skips location mapping entirely
+			const profile = findClimateProfile(
 				areaName,
-				narrativeContext,
-				existingMappings,
+				settings.climateProfiles ?? [],
+			);
+
+			// Map location to climate data source
+			const mapping: Partial<LocationMapping> = profile
+				? {}
+				: await mapLocation(areaName, narrativeContext, existingMappings);
+
+			// Climate month follows the seasons of a custom calendar
+			const climateMonth = getClimateMonth(
+				getGregorianDate(time),
+				settings.calendar ?? null,
 			);
 
 			// Fetch or generate climate normals
 			let climateNormals;
-			if (mapping.latitude !== undefined && mapping.longitude !== undefined) {
+			if (profile) {
+				climateNormals = getClimateNormalsFromCustomProfile(
+					profile,
+					climateMonth,
+				);
+			} else if (
+				mapping.latitude !== undefined &&
+				mapping.longitude !== undefined
+			) {
 				climateNormals = await fetchClimateNormals(
 					mapping.latitude,
 					mapping.longitude,
-					time.month() + 1, // moment months are 0-indexed
+					climateMonth,
 					mapping.baseClimateType,
 				);
 			} else if (mapping.baseClimateType) {
 				climateNormals = getClimateNormalsFromFallback(
 					mapping.baseClimateType,
-					time.month() + 1,
+					climateMonth,
 				);
 			} else {
 				// Ultimate fallback
 				climateNormals = getClimateNormalsFromFallback(
 					'temperate',
-					time.month() + 1,
+					climateMonth,
 				);
 			}
 
+			// Latitude for the sun and moons
+			const latitude =
+				mapping.latitude ??
+				profile?.latitude ??
+				BASE_CLIMATE_LATITUDES[mapping.baseClimateType ?? 'temperate'];
+
 			// Generate 28-day forecast
 			const seed = `${areaName}-${time.year()}-${time.month() + 1}-${time.date()}`;
 			const forecast = generateForecast({
@@ -114,6 +145,8 @@ export const initialForecastExtractor: InitialExtractor = {
 				initialConditions: null, // No prior conditions to anchor
 				seed,
 				days: 28,
+				latitude,
+				astronomy: settings.astronomy ?? undefined,
 			});
 
 			// Add location info to forecast
@@ -127,9 +160,12 @@ export const initialForecastExtractor: InitialExtractor = {
 			if (mapping.baseClimateType) {
 				forecast.baseClimateType = mapping.baseClimateType;
 			}
+			if (profile) {
+				forecast.climateProfile = profile.name;
+			}
 
 			debugLog(
-				`Generated initial forecast for "${areaName}" (${mapping.realWorldAnalog || mapping.baseClimateType || 'temperate'})`,
+				`Generated initial forecast for "${areaName}" (${profile?.name || mapping.realWorldAnalog || mapping.baseClimateType || 'temperate'})`,
 			);
 
 			return {
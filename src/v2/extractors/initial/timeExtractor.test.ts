@@ -10,6 +10,8 @@ import { createMockGenerator, type MockGenerator } from '../../generator';
 import { initialTimeExtractor } from './timeExtractor';
 import type { ExtractionContext, ExtractionSettings } from '../types';
 import type { Snapshot } from '../../types';
+import moment from 'moment';
+import { getGregorianDate, toCalendarDate, type CalendarDefinition } from '../../../utils/calendar';
 
 /**
  * Create a mock extraction context for testing.
@@ -233,6 +235,78 @@ describe('initialTimeExtractor', () => {
 			expect(result.time).toContain('15:47');
 		});
 
+		it('reads dates on the custom calendar', async () => {
+			const calendar: CalendarDefinition = {
+				months: Array.from({ length: 13 }, (_, i) => ({
+					name: `Month${i + 1}`,
+					days: 28,
+				})),
+				weekdays: ['Morndas', 'Tirdas'],
+				epochLabel: '3E',
+			};
+			const settings = createMockSettings({ calendar });
+
+			mockGenerator.setDefaultResponse(
+				JSON.stringify({
+					reasoning: 'The 20th of the thirteenth month, 3E 201.',
+					time: {
+						year: 201,
+						month: 13,
+						day: 20,
+						hour: 9,
+						minute: 0,
+						second: 0,
+						dayOfWeek: 'Tirdas',
+					},
+				}),
+			);
+
+			const result = await initialTimeExtractor.run(
+				mockGenerator,
+				createMockContext(),
+				settings,
+				{},
+			);
+
+			const time = moment(result.time);
+			expect(toCalendarDate(getGregorianDate(time), calendar)).toMatchObject({
+				year: 201,
+				month: 13,
+				day: 20,
+			});
+			expect(time.hour()).toBe(9);
+
+			const call = mockGenerator.getLastCall();
+			const promptContent = call!.prompt.messages.map(m => m.content).join('\n');
+			expect(promptContent).toContain('13. Month13 (28 days)');
+		});
+
+		it('returns empty object when the date is not on the calendar', async () => {
+			mockGenerator.setDefaultResponse(
+				JSON.stringify({
+					reasoning: 'February 30th.',
+					time: {
+						year: 2024,
+						month: 2,
+						day: 30,
+						hour: 9,
+						minute: 0,
+						second: 0,
+						dayOfWeek: 'Friday',
+					},
+				}),
+			);
+
+			const result = await initialTimeExtractor.run(
+				mockGenerator,
+				createMockContext(),
+				createMockSettings(),
+				{},
+			);
+
+			expect(result).toEqual({});
+		});
+
 		it('returns empty object when LLM returns invalid JSON', async () => {
 			const context = createMockContext();
 			const settings = createMockSettings();
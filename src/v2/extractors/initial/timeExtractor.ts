@@ -20,6 +20,7 @@ import {
 	limitMessageRange,
 	getMaxMessages,
 } from '../utils';
+import { fromCalendarDate, isValidCalendarDate } from '../../../utils/calendar';
 import { debugWarn } from '../../../utils/debug';
 
 /**
@@ -104,8 +105,19 @@ export const initialTimeExtractor: InitialExtractor<ExtractedInitialTime> = {
 			return {};
 		}
 
+		// Dates come back on the custom calendar if there is one
+		const extracted = result.data.time;
+		const calendar = settings.calendar ?? null;
+		if (!isValidCalendarDate(extracted, calendar)) {
+			debugWarn(
+				`initialTime extraction returned a date not on the calendar: ${extracted.year}-${extracted.month}-${extracted.day}`,
+			);
+			return {};
+		}
+		const date = calendar ? fromCalendarDate(extracted, calendar) : extracted;
+
 		// Convert ExtractedDateTime to ISO string
-		const isoString = extractedDateTimeToIsoString(result.data.time);
+		const isoString = extractedDateTimeToIsoString({ ...extracted, ...date });
 
 		return {
 			time: isoString,
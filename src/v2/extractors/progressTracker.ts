@@ -98,8 +98,9 @@ let progressCallback: ProgressCallback | null = null;
 // Current extraction run state
 let plannedSections: string[] = [];
 let completedSections: string[] = [];
-let currentSection: string | null = null;
-let sectionStartTime: number = 0;
+// Sections currently running (name -> start time); several can overlap when
+// extractors run concurrently
+const activeSections = new Map<string, number>();
 let currentLabel: string = '';
 
 // ============================================
@@ -186,11 +187,11 @@ function calculateProgress(): number {
 		0,
 	);
 
-	// Add elapsed time for current section (interpolate during run)
+	// Add elapsed time for running sections (interpolate during run)
 	let elapsedMs = completedMs;
-	if (currentSection && sectionStartTime > 0) {
-		const currentElapsed = Date.now() - sectionStartTime;
-		const currentExpected = getSectionAverage(currentSection);
+	for (const [name, startTime] of activeSections) {
+		const currentElapsed = Date.now() - startTime;
+		const currentExpected = getSectionAverage(name);
 		// Cap at 95% of expected time to avoid exceeding during slow sections
 		elapsedMs += Math.min(currentElapsed, currentExpected * 0.95);
 	}
@@ -204,7 +205,7 @@ function emitProgress(label: string): void {
 	const percentComplete = calculateProgress();
 
 	progressCallback({
-		step: currentSection ?? 'idle',
+		step: [...activeSections.keys()].pop() ?? 'idle',
 		percentComplete,
 		label,
 	});
@@ -227,8 +228,7 @@ export function setProgressCallback(callback: ProgressCallback | null): void {
 export function startExtractionRun(sectionNames: string[]): void {
 	plannedSections = [...sectionNames];
 	completedSections = [];
-	currentSection = null;
-	sectionStartTime = 0;
+	activeSections.clear();
 	currentLabel = '';
 
 	emitProgress('Starting extraction...');
@@ -238,8 +238,8 @@ export function startExtractionRun(sectionNames: string[]): void {
  * Start a section.
  */
 export function startSection(name: string, label?: string): void {
-	currentSection = name;
-	sectionStartTime = Date.now();
+	activeSections.delete(name);
+	activeSections.set(name, Date.now());
 	currentLabel = label ?? `Processing ${name}...`;
 
 	emitProgress(currentLabel);
@@ -257,18 +257,16 @@ export function updateSectionLabel(label: string): void {
  * Complete a section and record its timing.
  */
 export function completeSection(name: string): void {
-	if (sectionStartTime > 0 && currentSection === name) {
-		const duration = Date.now() - sectionStartTime;
-		recordSectionTiming(name, duration);
+	const startTime = activeSections.get(name);
+	if (startTime !== undefined) {
+		recordSectionTiming(name, Date.now() - startTime);
+		activeSections.delete(name);
 	}
 
 	if (!completedSections.includes(name)) {
 		completedSections.push(name);
 	}
 
-	currentSection = null;
-	sectionStartTime = 0;
-
 	// Emit updated progress
 	const remaining = plannedSections.length - completedSections.length;
 	if (remaining > 0) {
@@ -282,8 +280,7 @@ export function completeSection(name: string): void {
  * Mark extraction run as complete.
  */
 export function completeExtractionRun(): void {
-	currentSection = null;
-	sectionStartTime = 0;
+	activeSections.clear();
 
 	if (progressCallback) {
 		progressCallback({
@@ -8,6 +8,8 @@ import type { Generator } from '../generator';
 import type { EventStore } from '../store';
 import type { Snapshot, Event, KindAndSubkind, MessageAndSwipe } from '../types';
 import type { PromptTemplate } from '../prompts';
+import type { CalendarDefinition } from '../../utils/calendar';
+import type { AstronomySettings, CustomClimateProfile } from '../../weather/types';
 
 /**
  * SillyTavern context needed for extraction.
@@ -93,12 +95,35 @@ export interface ExtractionSettings {
 	maxMessagesToSend: number;
 	/** Max messages to send to chapter description extractor (default 24) */
 	maxChapterMessagesToSend: number;
+	/** Completed chapters condensed into each arc summary (0 or omitted = no arcs) */
+	chaptersPerArc?: number;
+	/** Scene segmentation (omitted = scenes off) */
+	scenes?: {
+		/** Ask the LLM to confirm each detected break */
+		confirm: boolean;
+		/** Smallest time skip (in minutes) that starts a new scene */
+		timeJumpMinutes: number;
+		/** Start a new scene when at least half the cast changes */
+		presenceChanges: boolean;
+	};
 	/** String to prepend to the user part of all prompts (e.g., "/nothink") */
 	promptPrefix?: string;
 	/** String to append to the user part of all prompts */
 	promptSuffix?: string;
 	/** Include worldinfo (lorebook) data in extractor prompts */
 	includeWorldinfo: boolean;
+	/** Max extractors to run at once when they don't depend on each other (default 1) */
+	concurrency?: number;
+	/** Categories whose per-character/per-pair extractors ask about all targets in one call */
+	batched?: Partial<Record<keyof ExtractionSettings['track'], boolean>>;
+	/** User-chosen strategies by extractor name (replace the extractor's built-in ones) */
+	strategyOverrides?: Record<string, ExtractorStrategyOverride>;
+	/** Custom calendar of the current character (omitted or null = Gregorian) */
+	calendar?: CalendarDefinition | null;
+	/** Custom climate profiles, card profiles first (used before geocoding and fallbacks) */
+	climateProfiles?: CustomClimateProfile[];
+	/** Custom sun and moons of the current character's world (omitted or null = Earth's) */
+	astronomy?: AstronomySettings | null;
 }
 
 // ============================================
@@ -114,6 +139,11 @@ export type MessageStrategy =
 	| { strategy: 'sinceLastEvent' }
 	| { strategy: 'sinceLastEventOfKind'; kinds: KindAndSubkind[] };
 
+/**
+ * Message strategy names.
+ */
+export type MessageStrategyName = MessageStrategy['strategy'];
+
 /**
  * Get the number of messages to include based on strategy.
  */
@@ -168,6 +198,34 @@ export type RunStrategy =
 	| { strategy: 'newEventsOfKind'; kinds: KindAndSubkind[] }
 	| { strategy: 'custom'; check: (context: RunStrategyContext) => boolean };
 
+/**
+ * Run strategies that can be chosen in settings (custom checks are code-only).
+ */
+export type ConfigurableRunStrategy = Exclude<RunStrategy, { strategy: 'custom' }>;
+
+/**
+ * Run strategy names that can be chosen in settings.
+ */
+export type ConfigurableRunStrategyName = ConfigurableRunStrategy['strategy'];
+
+/**
+ * Strategies chosen in settings for one extractor. Either may be omitted to
+ * keep the extractor's built-in strategy.
+ */
+export interface ExtractorStrategyOverride {
+	runStrategy?: ConfigurableRunStrategy;
+	messageStrategy?: MessageStrategy;
+}
+
+/**
+ * Strategies an extractor can be switched to in settings.
+ * An empty list keeps that strategy fixed.
+ */
+export interface ConfigurableStrategies {
+	run: ConfigurableRunStrategyName[];
+	message: MessageStrategyName[];
+}
+
 /**
  * Context for evaluating run strategies.
  */
@@ -184,6 +242,31 @@ export interface RunStrategyContext {
 	producedAtMessages: MessageAndSwipe[];
 }
 
+// ============================================
+// Extractor Resources
+// ============================================
+
+/**
+ * A slice of tracked state that event extractors read or change.
+ * The extraction scheduler uses these to decide which extractors can run
+ * at the same time. Per-character and per-pair extractors only touch the
+ * 'characters' and 'relationships' entries of their own target.
+ */
+export type ExtractorResource =
+	| 'time'
+	| 'location'
+	| 'forecast'
+	| 'scene'
+	| 'tension'
+	| 'presence'
+	| 'profiles'
+	| 'characters'
+	| 'props'
+	| 'subjects'
+	| 'relationships'
+	| 'narrative'
+	| 'chapters';
+
 // ============================================
 // Extractor Interfaces
 // ============================================
@@ -234,6 +317,12 @@ export interface EventExtractor<T = unknown> extends BaseExtractor {
 	messageStrategy: MessageStrategy;
 	/** When this extractor should run */
 	runStrategy: RunStrategy;
+	/** Strategies users may switch to in settings (omit to keep both fixed) */
+	configurableStrategies?: ConfigurableStrategies;
+	/** State this extractor reads from this turn's events (omit to wait for every earlier extractor) */
+	inputs?: ExtractorResource[];
+	/** State this extractor changes (omit to make every later extractor wait for it) */
+	outputs?: ExtractorResource[];
 	/** Check if this extractor should run given current state */
 	shouldRun(context: RunStrategyContext): boolean;
 	/** Run extraction and return events */
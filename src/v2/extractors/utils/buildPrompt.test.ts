@@ -81,6 +81,7 @@ function createMockProjection(overrides: Partial<Projection> = {}): Projection {
 			locationType: 'heated',
 		},
 		forecasts: {},
+		weatherOverrides: [],
 		climate: {
 			temperature: 15,
 			outdoorTemperature: 15,
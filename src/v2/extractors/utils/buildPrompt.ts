@@ -6,6 +6,9 @@ import type { ExtractionContext, ExtractionSettings } from '../types';
 import type { Projection, Event, CharacterOutfitChangedEvent, CharacterState } from '../../types';
 import type { PromptTemplate, BuiltPrompt } from '../../prompts';
 import { buildPrompt as fillPrompt } from '../../prompts';
+import type { CalendarDefinition } from '../../../utils/calendar';
+import { describeCalendar } from '../../../utils/calendar';
+import { formatMoment } from '../../../utils/dateFormat';
 
 /**
  * Format messages for prompt inclusion.
@@ -58,11 +61,11 @@ export function formatLocation(projection: Projection): string {
 }
 
 /**
- * Format time for prompt.
+ * Format time for prompt, on the custom calendar if there is one.
  */
-export function formatTime(projection: Projection): string {
+export function formatTime(projection: Projection, calendar?: CalendarDefinition | null): string {
 	if (!projection.time) return 'Unknown';
-	return projection.time.format('dddd, MMMM D, YYYY [at] h:mm A');
+	return formatMoment(projection.time, 'dddd, MMMM D, YYYY [at] h:mm A', calendar);
 }
 
 /**
@@ -327,6 +330,8 @@ export interface BuildPlaceholderOptions {
 	 * Should be pre-formatted text from getWorldinfoForPrompt or similar.
 	 */
 	worldinfo?: string;
+	/** Custom calendar to show dates on (omitted or null = Gregorian) */
+	calendar?: CalendarDefinition | null;
 	/**
 	 * Additional placeholder values to merge in.
 	 * Use this for extractor-specific values that aren't part of the core set.
@@ -351,7 +356,8 @@ export function buildPlaceholderValues(
 		characterDescription: getCharacterDescription(context),
 		userName: context.name1,
 		userDescription: getUserDescription(context),
-		currentTime: formatTime(projection),
+		currentTime: formatTime(projection, options?.calendar),
+		calendar: describeCalendar(options?.calendar ?? null),
 		currentLocation: formatLocation(projection),
 		currentArea: projection.location?.area || 'Unknown',
 		currentPlace: projection.location?.place || 'Unknown',
@@ -420,13 +426,10 @@ export function buildExtractorPrompt<T>(
 	messageEnd: number,
 	options?: BuildPlaceholderOptions,
 ): BuiltPrompt {
-	const values = buildPlaceholderValues(
-		context,
-		projection,
-		messageStart,
-		messageEnd,
-		options,
-	);
+	const values = buildPlaceholderValues(context, projection, messageStart, messageEnd, {
+		calendar: settings.calendar,
+		...options,
+	});
 	return fillPrompt(prompt, values, {
 		overrides: settings.customPrompts,
 		prefix: settings.promptPrefix,
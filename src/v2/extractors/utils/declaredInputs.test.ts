@@ -0,0 +1,34 @@
+/**
+ * Tests for checking prompts against declared extractor inputs.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findUndeclaredInputs } from './declaredInputs';
+import { timeChangeExtractor } from '../events/timeChangeExtractor';
+
+describe('findUndeclaredInputs', () => {
+	it('accepts the default prompt', () => {
+		expect(findUndeclaredInputs(timeChangeExtractor)).toEqual([]);
+	});
+
+	it('finds state a custom prompt reads without declaring it', () => {
+		const overrides = {
+			time_change: {
+				userTemplate:
+					'{{currentTime}} at {{currentLocation}}, {{charactersPresent}}',
+			},
+		};
+
+		expect(findUndeclaredInputs(timeChangeExtractor, overrides)).toEqual([
+			'location',
+			'presence',
+		]);
+	});
+
+	it('ignores extractors without declared inputs', () => {
+		const extractor = { ...timeChangeExtractor, inputs: undefined };
+		const overrides = { time_change: { systemPrompt: '{{currentTension}}' } };
+
+		expect(findUndeclaredInputs(extractor, overrides)).toEqual([]);
+	});
+});
@@ -0,0 +1,68 @@
+/**
+ * Declared Inputs Check
+ *
+ * Running concurrently, an extractor only sees this turn's events for the
+ * state it declares as inputs. A custom prompt can use placeholders that read
+ * other state, which would then miss this turn's changes.
+ */
+
+import type { EventExtractor, ExtractorResource } from '../types';
+import type { CustomPromptOverrides } from '../../prompts/types';
+import { extractPlaceholders } from '../../prompts/placeholders';
+
+/**
+ * The state each placeholder reads. Placeholders not listed here don't
+ * read tracked state (messages, character card, calendar, ...).
+ */
+const PLACEHOLDER_RESOURCES: Record<string, ExtractorResource> = {
+	currentTime: 'time',
+	currentLocation: 'location',
+	currentArea: 'location',
+	currentPlace: 'location',
+	currentPosition: 'location',
+	currentProps: 'props',
+	currentWeather: 'forecast',
+	charactersPresent: 'presence',
+	charactersSummary: 'characters',
+	characterProfiles: 'profiles',
+	characterProfile: 'profiles',
+	relationshipProfiles: 'profiles',
+	currentTopic: 'scene',
+	currentTone: 'scene',
+	currentTension: 'tension',
+	characterOutfits: 'characters',
+	targetCharacterState: 'characters',
+	relationshipState: 'relationships',
+};
+
+/**
+ * Find the state an extractor's prompt (custom or default) reads without
+ * declaring it as an input. Extractors without declared inputs see every
+ * earlier event, so they never miss anything.
+ *
+ * @returns The undeclared resources, empty if the inputs cover the prompt
+ */
+export function findUndeclaredInputs(
+	extractor: Pick<EventExtractor, 'prompt' | 'inputs'>,
+	overrides?: CustomPromptOverrides,
+): ExtractorResource[] {
+	if (!extractor.inputs) {
+		return [];
+	}
+
+	const custom = overrides?.[extractor.prompt.name];
+	const templates = [
+		custom?.systemPrompt ?? extractor.prompt.systemPrompt,
+		custom?.userTemplate ?? extractor.prompt.userTemplate,
+	];
+
+	const declared = new Set(extractor.inputs);
+	const undeclared = new Set<ExtractorResource>();
+	for (const name of templates.flatMap(extractPlaceholders)) {
+		const resource = PLACEHOLDER_RESOURCES[name];
+		if (resource && !declared.has(resource)) {
+			undeclared.add(resource);
+		}
+	}
+	return Array.from(undeclared);
+}
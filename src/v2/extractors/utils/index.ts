@@ -69,6 +69,9 @@ export {
 	mapNarrativeDescription,
 	mapChapterEnded,
 	mapChapterDescription,
+	mapArcSummary,
+	mapSceneEnded,
+	mapSceneDescription,
 } from './mapToEvents';
 
 // Temperature resolution
@@ -103,3 +106,27 @@ export {
 	filterCharactersAppeared,
 	filterCharactersDeparted,
 } from './validation';
+
+// Strategy overrides
+export type {
+	ExtractorScope,
+	ScopedExtractor,
+	ExtractorCallEstimate,
+	CallEstimate,
+} from './strategies';
+export {
+	ANY_RUN_STRATEGY,
+	ANY_MESSAGE_STRATEGY,
+	parseKinds,
+	formatKinds,
+	validateRunStrategy,
+	validateMessageStrategy,
+	validateStrategyOverride,
+	applyStrategyOverride,
+	describeRunStrategy,
+	describeMessageStrategy,
+	estimateCallsPerMessage,
+} from './strategies';
+
+// Declared inputs check
+export { findUndeclaredInputs } from './declaredInputs';
@@ -35,7 +35,7 @@ export function limitMessageRange(
 
 /**
  * Get the max messages limit for an extractor.
- * Chapter description extractor uses maxChapterMessagesToSend,
+ * Chapter and scene description extractors use maxChapterMessagesToSend,
  * all other extractors use maxMessagesToSend.
  *
  * Returns Infinity if the setting is not defined (no limit).
@@ -45,7 +45,7 @@ export function limitMessageRange(
  * @returns The max messages limit to use
  */
 export function getMaxMessages(settings: ExtractionSettings, extractorName: string): number {
-	if (extractorName === 'chapterDescription') {
+	if (extractorName === 'chapterDescription' || extractorName === 'sceneDescription') {
 		return settings.maxChapterMessagesToSend ?? Infinity;
 	}
 	return settings.maxMessagesToSend ?? Infinity;
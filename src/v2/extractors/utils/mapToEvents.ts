@@ -33,6 +33,10 @@ import type {
 	NarrativeDescriptionEvent,
 	ChapterEndedEvent,
 	ChapterDescribedEvent,
+	ArcSummarizedEvent,
+	SceneEndedEvent,
+	SceneDescribedEvent,
+	SceneBreakReason,
 } from '../../types';
 import type {
 	ExtractedTimeChange,
@@ -56,6 +60,8 @@ import type {
 	ExtractedNarrativeDescription,
 	ExtractedChapterEnded,
 	ExtractedChapterDescription,
+	ExtractedArcSummary,
+	ExtractedSceneDescription,
 } from '../../types/extraction';
 import { sortPair } from '../../types';
 import type {
@@ -711,3 +717,63 @@ export function mapChapterDescription(
 		},
 	];
 }
+
+export function mapArcSummary(
+	extraction: ExtractedArcSummary,
+	source: MessageAndSwipe,
+	arcIndex: number,
+	firstChapter: number,
+	lastChapter: number,
+): ArcSummarizedEvent[] {
+	return [
+		{
+			...baseEvent(source),
+			kind: 'arc',
+			subkind: 'summarized',
+			arcIndex,
+			firstChapter,
+			lastChapter,
+			title: extraction.title,
+			summary: extraction.summary,
+		},
+	];
+}
+
+// ============================================
+// Scene Events
+// ============================================
+
+export function mapSceneEnded(
+	source: MessageAndSwipe,
+	sceneIndex: number,
+	chapterIndex: number,
+	reasons: SceneBreakReason[],
+): SceneEndedEvent[] {
+	return [
+		{
+			...baseEvent(source),
+			kind: 'scene',
+			subkind: 'ended',
+			sceneIndex,
+			chapterIndex,
+			reasons,
+		},
+	];
+}
+
+export function mapSceneDescription(
+	extraction: ExtractedSceneDescription,
+	source: MessageAndSwipe,
+	sceneIndex: number,
+): SceneDescribedEvent[] {
+	return [
+		{
+			...baseEvent(source),
+			kind: 'scene',
+			subkind: 'described',
+			sceneIndex,
+			title: extraction.title,
+			summary: extraction.summary,
+		},
+	];
+}
@@ -2,7 +2,7 @@
  * Parse LLM responses with retry logic.
  */
 
-import type { Generator } from '../../generator';
+import type { Generator, GeneratorSettings } from '../../generator';
 import { buildPrompt } from '../../generator';
 import type { PromptTemplate, BuiltPrompt } from '../../prompts';
 import { debugLog, debugWarn, errorLog } from '../../../utils/debug';
@@ -94,11 +94,22 @@ export async function generateAndParse<T>(
 			);
 
 			const settings = getV2Settings();
-			const response = await generator.generate(generatorPrompt, {
+			const generatorSettings: GeneratorSettings = {
 				temperature: currentTemp,
 				maxTokens: settings.v2MaxTokens,
 				abortSignal,
-			});
+				...(settings.v2StructuredOutput !== 'off' && {
+					responseSchema: {
+						name: prompt.name,
+						schema: prompt.responseSchema,
+					},
+					structuredOutput: settings.v2StructuredOutput,
+				}),
+			};
+			const response = await generator.generate(
+				generatorPrompt,
+				generatorSettings,
+			);
 
 			lastResponse = response;
 
@@ -120,6 +131,8 @@ export async function generateAndParse<T>(
 				};
 			}
 
+			// Don't let the retry (or a later extraction) get this response from the cache
+			await generator.discardResponse?.(generatorPrompt, generatorSettings);
 			lastError = 'parseResponse returned null';
 		} catch (error) {
 			// Check if this was an abort
@@ -0,0 +1,327 @@
+/**
+ * Tests for strategy override utility functions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	ANY_MESSAGE_STRATEGY,
+	ANY_RUN_STRATEGY,
+	applyStrategyOverride,
+	estimateCallsPerMessage,
+	formatKinds,
+	parseKinds,
+	validateMessageStrategy,
+	validateRunStrategy,
+	type ScopedExtractor,
+} from './strategies';
+import type { EventExtractor, ExtractionSettings } from '../types';
+import type { PromptTemplate } from '../../prompts';
+import { noPrompt } from '../../prompts/initial/noPrompt';
+
+const testPrompt = { name: 'test_prompt' } as PromptTemplate<unknown>;
+
+/**
+ * Create an extractor with just the fields the strategy utilities read.
+ */
+function createExtractor(overrides: Partial<EventExtractor> = {}): EventExtractor {
+	return {
+		name: 'testExtractor',
+		displayName: 'test',
+		category: 'characters',
+		defaultTemperature: 0.5,
+		prompt: testPrompt,
+		messageStrategy: { strategy: 'fixedNumber', n: 2 },
+		runStrategy: { strategy: 'everyMessage' },
+		configurableStrategies: { run: ANY_RUN_STRATEGY, message: ANY_MESSAGE_STRATEGY },
+		shouldRun: () => true,
+		run: async () => [],
+		...overrides,
+	};
+}
+
+function createSettings(overrides: Partial<ExtractionSettings> = {}): ExtractionSettings {
+	return {
+		track: {
+			time: true,
+			location: true,
+			props: true,
+			climate: true,
+			characters: true,
+			relationships: true,
+			scene: true,
+			narrative: true,
+			chapters: true,
+		},
+		...overrides,
+	} as ExtractionSettings;
+}
+
+describe('parseKinds / formatKinds', () => {
+	it('parses kinds with and without subkinds', () => {
+		expect(parseKinds('location:moved, character ,')).toEqual([
+			{ kind: 'location', subkind: 'moved' },
+			{ kind: 'character' },
+		]);
+	});
+
+	it('formats kinds back to text', () => {
+		expect(formatKinds(parseKinds('location:moved,character'))).toBe(
+			'location:moved, character',
+		);
+	});
+});
+
+describe('validateRunStrategy', () => {
+	const extractor = createExtractor();
+
+	it('accepts allowed strategies', () => {
+		expect(
+			validateRunStrategy(extractor, { strategy: 'everyNMessages', n: 3 }),
+		).toBeNull();
+		expect(
+			validateRunStrategy(extractor, {
+				strategy: 'newEventsOfKind',
+				kinds: [{ kind: 'location', subkind: 'moved' }],
+			}),
+		).toBeNull();
+	});
+
+	it('rejects strategies the extractor does not allow', () => {
+		const fixed = createExtractor({
+			configurableStrategies: { run: ['everyMessage'], message: [] },
+		});
+
+		expect(validateRunStrategy(fixed, { strategy: 'everyNMessages', n: 3 })).toContain(
+			'not available',
+		);
+		expect(
+			validateRunStrategy(
+				createExtractor({ configurableStrategies: undefined }),
+				{
+					strategy: 'everyMessage',
+				},
+			),
+		).toContain('not available');
+	});
+
+	it('rejects bad numbers', () => {
+		expect(
+			validateRunStrategy(extractor, { strategy: 'everyNMessages', n: 0 }),
+		).not.toBeNull();
+		expect(
+			validateRunStrategy(extractor, {
+				strategy: 'everyNMessages',
+				n: 3,
+				offset: 3,
+			}),
+		).toBe('Offset must be between 0 and 2');
+		expect(
+			validateRunStrategy(extractor, {
+				strategy: 'nSinceLastProducedEvents',
+				n: 1.5,
+			}),
+		).not.toBeNull();
+	});
+
+	it('requires event kinds', () => {
+		expect(
+			validateRunStrategy(extractor, { strategy: 'newEventsOfKind', kinds: [] }),
+		).not.toBeNull();
+	});
+});
+
+describe('validateMessageStrategy', () => {
+	it('rejects message strategies on extractors with a fixed message range', () => {
+		const extractor = createExtractor({
+			configurableStrategies: { run: ANY_RUN_STRATEGY, message: [] },
+		});
+
+		expect(
+			validateMessageStrategy(extractor, { strategy: 'fixedNumber', n: 4 }),
+		).toContain('not available');
+	});
+
+	it('rejects a message count below 1', () => {
+		expect(
+			validateMessageStrategy(createExtractor(), {
+				strategy: 'fixedNumber',
+				n: 0,
+			}),
+		).not.toBeNull();
+	});
+});
+
+describe('applyStrategyOverride', () => {
+	it('returns the extractor itself without an override', () => {
+		const extractor = createExtractor();
+
+		expect(applyStrategyOverride(extractor, createSettings())).toBe(extractor);
+	});
+
+	it('replaces the strategies that were overridden', () => {
+		const extractor = createExtractor();
+		const settings = createSettings({
+			strategyOverrides: {
+				testExtractor: {
+					runStrategy: { strategy: 'everyNMessages', n: 3 },
+				},
+			},
+		});
+
+		const result = applyStrategyOverride(extractor, settings);
+
+		expect(result.runStrategy).toEqual({ strategy: 'everyNMessages', n: 3 });
+		expect(result.messageStrategy).toBe(extractor.messageStrategy);
+		expect(result.run).toBe(extractor.run);
+	});
+
+	it('ignores invalid overrides', () => {
+		const extractor = createExtractor();
+		const settings = createSettings({
+			strategyOverrides: {
+				testExtractor: {
+					runStrategy: { strategy: 'everyNMessages', n: 0 },
+				},
+			},
+		});
+
+		expect(applyStrategyOverride(extractor, settings)).toBe(extractor);
+	});
+
+	it('makes shouldRun use the new strategy', () => {
+		const extractor = createExtractor({
+			shouldRun(this: EventExtractor) {
+				return this.runStrategy.strategy === 'everyUserMessage';
+			},
+		});
+		const settings = createSettings({
+			strategyOverrides: {
+				testExtractor: { runStrategy: { strategy: 'everyUserMessage' } },
+			},
+		});
+
+		const result = applyStrategyOverride(extractor, settings);
+
+		expect(result.shouldRun({} as never)).toBe(true);
+	});
+});
+
+describe('estimateCallsPerMessage', () => {
+	const global = (extractor: EventExtractor): ScopedExtractor => ({
+		extractor,
+		scope: 'global',
+	});
+
+	it('averages calls over the run strategy', () => {
+		const estimate = estimateCallsPerMessage(
+			[
+				global(createExtractor({ name: 'a' })),
+				global(
+					createExtractor({
+						name: 'b',
+						runStrategy: { strategy: 'everyNMessages', n: 4 },
+					}),
+				),
+			],
+			createSettings(),
+			3,
+		);
+
+		expect(estimate.total).toBe(1.25);
+	});
+
+	it('multiplies per-character and per-pair extractors by their targets', () => {
+		const estimate = estimateCallsPerMessage(
+			[
+				{
+					extractor: createExtractor({ name: 'a' }),
+					scope: 'perCharacter',
+				},
+				{
+					extractor: createExtractor({
+						name: 'b',
+						category: 'relationships',
+					}),
+					scope: 'perPair',
+				},
+			],
+			createSettings(),
+			4,
+		);
+
+		expect(estimate.extractors.map(e => e.calls)).toEqual([4, 6]);
+	});
+
+	it('counts one call for batched categories', () => {
+		const estimate = estimateCallsPerMessage(
+			[{ extractor: createExtractor(), scope: 'perCharacter' }],
+			createSettings({ batched: { characters: true } }),
+			4,
+		);
+
+		expect(estimate.total).toBe(1);
+	});
+
+	it('uses the strategies chosen in settings', () => {
+		const estimate = estimateCallsPerMessage(
+			[global(createExtractor())],
+			createSettings({
+				strategyOverrides: {
+					testExtractor: {
+						runStrategy: { strategy: 'everyNMessages', n: 2 },
+					},
+				},
+			}),
+			3,
+		);
+
+		expect(estimate.total).toBe(0.5);
+	});
+
+	it('lists event-triggered extractors separately', () => {
+		const estimate = estimateCallsPerMessage(
+			[
+				global(
+					createExtractor({
+						runStrategy: {
+							strategy: 'newEventsOfKind',
+							kinds: [
+								{
+									kind: 'chapter',
+									subkind: 'ended',
+								},
+							],
+						},
+					}),
+				),
+			],
+			createSettings(),
+			3,
+		);
+
+		expect(estimate.total).toBe(0);
+		expect(estimate.extractors[0].eventTriggered).toBe(true);
+	});
+
+	it('skips untracked extractors and extractors without a prompt', () => {
+		const settings = createSettings();
+		settings.track.characters = false;
+
+		const estimate = estimateCallsPerMessage(
+			[
+				global(createExtractor({ name: 'untracked' })),
+				global(
+					createExtractor({
+						name: 'noLlm',
+						category: 'climate',
+						prompt: noPrompt,
+					}),
+				),
+			],
+			settings,
+			3,
+		);
+
+		expect(estimate.extractors).toEqual([]);
+	});
+});
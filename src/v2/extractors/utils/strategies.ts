@@ -0,0 +1,344 @@
+/**
+ * Strategy Override Utilities
+ *
+ * Lets users replace an extractor's built-in run and message strategies from
+ * settings. Overrides are checked against the strategies the extractor allows
+ * (EventExtractor.configurableStrategies); invalid ones are ignored and the
+ * built-in strategy is kept.
+ */
+
+import type {
+	ConfigurableRunStrategy,
+	ConfigurableRunStrategyName,
+	EventExtractor,
+	ExtractionSettings,
+	ExtractorStrategyOverride,
+	MessageStrategy,
+	MessageStrategyName,
+	RunStrategy,
+} from '../types';
+import type { EventKind, KindAndSubkind } from '../../types';
+import { noPrompt } from '../../prompts/initial/noPrompt';
+import { debugWarn } from '../../../utils/debug';
+
+/**
+ * Every run strategy that can be chosen in settings.
+ */
+export const ANY_RUN_STRATEGY: ConfigurableRunStrategyName[] = [
+	'everyMessage',
+	'everyUserMessage',
+	'everyAssistantMessage',
+	'everyNMessages',
+	'nSinceLastProducedEvents',
+	'nSinceLastEventOfKind',
+	'newEventsOfKind',
+];
+
+/**
+ * Every message strategy (lastXMessages is left out, it's the same as fixedNumber).
+ */
+export const ANY_MESSAGE_STRATEGY: MessageStrategyName[] = [
+	'fixedNumber',
+	'sinceLastEvent',
+	'sinceLastEventOfKind',
+];
+
+/**
+ * Parse a comma-separated kind list such as "location:moved, character".
+ */
+export function parseKinds(text: string): KindAndSubkind[] {
+	return text
+		.split(',')
+		.map(part => part.trim())
+		.filter(part => part.length > 0)
+		.map(part => {
+			const [kind, subkind] = part.split(':').map(p => p.trim());
+			return subkind
+				? { kind: kind as EventKind, subkind }
+				: { kind: kind as EventKind };
+		});
+}
+
+/**
+ * Format a kind list for display and editing (inverse of parseKinds).
+ */
+export function formatKinds(kinds: Array<{ kind: string; subkind?: string }>): string {
+	return kinds.map(k => (k.subkind ? `${k.kind}:${k.subkind}` : k.kind)).join(', ');
+}
+
+function isPositiveInteger(value: unknown): value is number {
+	return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+function validateKinds(kinds: KindAndSubkind[] | undefined): string | null {
+	if (!Array.isArray(kinds) || kinds.length === 0) {
+		return 'needs at least one event kind';
+	}
+	if (kinds.some(k => !k.kind || !/^[a-z_]+$/.test(k.kind))) {
+		return 'event kinds look like "location:moved"';
+	}
+	return null;
+}
+
+/**
+ * Check a run strategy against the strategies an extractor allows.
+ * @returns An error message, or null if the strategy is valid
+ */
+export function validateRunStrategy(
+	extractor: Pick<EventExtractor, 'configurableStrategies'>,
+	strategy: ConfigurableRunStrategy,
+): string | null {
+	const allowed = extractor.configurableStrategies?.run ?? [];
+	if (!allowed.includes(strategy.strategy)) {
+		return `Run strategy "${strategy.strategy}" is not available for this extractor`;
+	}
+
+	switch (strategy.strategy) {
+		case 'everyNMessages': {
+			if (!isPositiveInteger(strategy.n))
+				return 'N must be a whole number of at least 1';
+			const offset = strategy.offset ?? 0;
+			if (!Number.isInteger(offset) || offset < 0 || offset >= strategy.n) {
+				return `Offset must be between 0 and ${strategy.n - 1}`;
+			}
+			return null;
+		}
+		case 'nSinceLastProducedEvents':
+			return isPositiveInteger(strategy.n)
+				? null
+				: 'N must be a whole number of at least 1';
+		case 'nSinceLastEventOfKind': {
+			if (!isPositiveInteger(strategy.n))
+				return 'N must be a whole number of at least 1';
+			const kindsError = validateKinds(strategy.kinds);
+			return kindsError ? `Run strategy ${kindsError}` : null;
+		}
+		case 'newEventsOfKind': {
+			const kindsError = validateKinds(strategy.kinds);
+			return kindsError ? `Run strategy ${kindsError}` : null;
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * Check a message strategy against the strategies an extractor allows.
+ * @returns An error message, or null if the strategy is valid
+ */
+export function validateMessageStrategy(
+	extractor: Pick<EventExtractor, 'configurableStrategies'>,
+	strategy: MessageStrategy,
+): string | null {
+	const allowed = extractor.configurableStrategies?.message ?? [];
+	if (!allowed.includes(strategy.strategy)) {
+		return `Message strategy "${strategy.strategy}" is not available for this extractor`;
+	}
+
+	switch (strategy.strategy) {
+		case 'fixedNumber':
+			return isPositiveInteger(strategy.n)
+				? null
+				: 'Message count must be a whole number of at least 1';
+		case 'lastXMessages':
+			return isPositiveInteger(strategy.x)
+				? null
+				: 'Message count must be a whole number of at least 1';
+		case 'sinceLastEventOfKind': {
+			const kindsError = validateKinds(strategy.kinds);
+			return kindsError ? `Message strategy ${kindsError}` : null;
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * Check both halves of a strategy override.
+ * @returns An error message, or null if the override is valid
+ */
+export function validateStrategyOverride(
+	extractor: Pick<EventExtractor, 'configurableStrategies'>,
+	override: ExtractorStrategyOverride,
+): string | null {
+	if (override.runStrategy) {
+		const error = validateRunStrategy(extractor, override.runStrategy);
+		if (error) return error;
+	}
+	if (override.messageStrategy) {
+		const error = validateMessageStrategy(extractor, override.messageStrategy);
+		if (error) return error;
+	}
+	return null;
+}
+
+/**
+ * Get an extractor with the strategies chosen in settings applied.
+ * Returns the extractor itself when it has no (valid) override.
+ */
+export function applyStrategyOverride<T extends Omit<EventExtractor, 'run'>>(
+	extractor: T,
+	settings: ExtractionSettings,
+): T {
+	const override = settings.strategyOverrides?.[extractor.name];
+	if (!override || (!override.runStrategy && !override.messageStrategy)) {
+		return extractor;
+	}
+
+	const error = validateStrategyOverride(extractor, override);
+	if (error) {
+		debugWarn(`Ignoring strategy override for ${extractor.name}: ${error}`);
+		return extractor;
+	}
+
+	return {
+		...extractor,
+		runStrategy: override.runStrategy ?? extractor.runStrategy,
+		messageStrategy: override.messageStrategy ?? extractor.messageStrategy,
+	};
+}
+
+/**
+ * Describe a run strategy in a few words, e.g. "every 3 messages".
+ */
+export function describeRunStrategy(strategy: RunStrategy): string {
+	switch (strategy.strategy) {
+		case 'everyMessage':
+			return 'every message';
+		case 'everyUserMessage':
+			return 'every user message';
+		case 'everyAssistantMessage':
+			return 'every assistant message';
+		case 'everyNMessages':
+			return strategy.offset
+				? `every ${strategy.n} messages (offset ${strategy.offset})`
+				: `every ${strategy.n} messages`;
+		case 'nSinceLastProducedEvents':
+			return `${strategy.n} messages after its last change`;
+		case 'nSinceLastEventOfKind':
+			return `${strategy.n} messages after the last ${formatKinds(strategy.kinds)}`;
+		case 'newEventsOfKind':
+			return `on new ${formatKinds(strategy.kinds)}`;
+		case 'custom':
+			return 'built-in rule';
+	}
+}
+
+/**
+ * Describe a message strategy in a few words, e.g. "last 4 messages".
+ */
+export function describeMessageStrategy(strategy: MessageStrategy): string {
+	switch (strategy.strategy) {
+		case 'fixedNumber':
+			return `last ${strategy.n} messages`;
+		case 'lastXMessages':
+			return `last ${strategy.x} messages`;
+		case 'sinceLastEvent':
+			return 'since the last event';
+		case 'sinceLastEventOfKind':
+			return `since the last ${formatKinds(strategy.kinds)}`;
+	}
+}
+
+/**
+ * Average share of messages a run strategy fires on, or null if it depends
+ * on what happens in the story.
+ */
+function getRunRate(strategy: RunStrategy): number | null {
+	switch (strategy.strategy) {
+		case 'everyMessage':
+			return 1;
+		case 'everyUserMessage':
+		case 'everyAssistantMessage':
+			// Assumes user and assistant messages alternate
+			return 0.5;
+		case 'everyNMessages':
+		case 'nSinceLastProducedEvents':
+		case 'nSinceLastEventOfKind':
+			// At most once every N messages
+			return 1 / strategy.n;
+		case 'newEventsOfKind':
+		case 'custom':
+			return null;
+	}
+}
+
+/**
+ * How an extractor runs: once per turn, once per present character or once
+ * per pair of present characters.
+ */
+export type ExtractorScope = 'global' | 'perCharacter' | 'perPair';
+
+/**
+ * An event extractor and how it's run.
+ */
+export interface ScopedExtractor {
+	extractor: Omit<EventExtractor, 'run'>;
+	scope: ExtractorScope;
+}
+
+/**
+ * Projected LLM calls for one extractor.
+ */
+export interface ExtractorCallEstimate {
+	name: string;
+	displayName: string;
+	/** Average calls per message (0 for event-triggered extractors) */
+	calls: number;
+	/** Runs only when something happens in the story, so can't be averaged */
+	eventTriggered: boolean;
+}
+
+/**
+ * Projected LLM calls per message.
+ */
+export interface CallEstimate {
+	/** Average calls per message from extractors that run on a schedule */
+	total: number;
+	extractors: ExtractorCallEstimate[];
+}
+
+/**
+ * Project the LLM calls per message for the enabled extractors, with the
+ * strategies chosen in settings applied.
+ *
+ * @param extractors - Extractors and how they're run
+ * @param settings - The extraction settings
+ * @param characters - Number of characters present to assume
+ */
+export function estimateCallsPerMessage(
+	extractors: ScopedExtractor[],
+	settings: ExtractionSettings,
+	characters: number,
+): CallEstimate {
+	const pairs = (characters * (characters - 1)) / 2;
+	const estimates: ExtractorCallEstimate[] = [];
+
+	for (const { extractor: base, scope } of extractors) {
+		if (!settings.track[base.category]) continue;
+		// Extractors without a prompt don't call the LLM
+		if (base.prompt.name === noPrompt.name) continue;
+
+		const extractor = applyStrategyOverride(base, settings);
+		const rate = getRunRate(extractor.runStrategy);
+
+		let callsPerRun = 1;
+		if (scope !== 'global') {
+			const targets = scope === 'perCharacter' ? characters : pairs;
+			const batched = settings.batched?.[extractor.category] === true;
+			callsPerRun = batched ? Math.min(1, targets) : targets;
+		}
+
+		estimates.push({
+			name: extractor.name,
+			displayName: extractor.displayName,
+			calls: (rate ?? 0) * callsPerRun,
+			eventTriggered: rate === null,
+		});
+	}
+
+	return {
+		total: estimates.reduce((sum, e) => sum + e.calls, 0),
+		extractors: estimates,
+	};
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { CachingGenerator } from './CachingGenerator';
+import {
+	MemoryGenerationCacheStore,
+	computeGenerationCacheKey,
+	getGenerationCacheStats,
+} from './cache';
+import { createMockGenerator } from './MockGenerator';
+import { GeneratorAbortError } from './Generator';
+import { buildPrompt } from './types';
+import { generateAndParse } from '../extractors/utils/parse';
+import type { PromptTemplate } from '../prompts';
+
+const prompt = buildPrompt('Extract the time.', 'Alice checks her watch.', 'time');
+const settings = { maxTokens: 100, temperature: 0.5 };
+
+function setup() {
+	const inner = createMockGenerator().setDefaultResponse('{"hour": 9}');
+	const store = new MemoryGenerationCacheStore();
+	const generator = new CachingGenerator(inner, store, {
+		profile: 'sillytavern:profile-1',
+		maxEntries: 100,
+	});
+	return { inner, store, generator };
+}
+
+describe('computeGenerationCacheKey', () => {
+	it('is stable for identical requests', async () => {
+		const a = await computeGenerationCacheKey(prompt, settings, 'p');
+		const b = await computeGenerationCacheKey(
+			buildPrompt('Extract the time.', 'Alice checks her watch.', 'other_name'),
+			{ ...settings, abortSignal: new AbortController().signal },
+			'p',
+		);
+		expect(a).toMatch(/^[0-9a-f]{64}$/);
+		expect(b).toBe(a);
+	});
+
+	it('changes with the messages, temperature and profile', async () => {
+		const base = await computeGenerationCacheKey(prompt, settings, 'p');
+		const keys = await Promise.all([
+			computeGenerationCacheKey(
+				buildPrompt('Extract the time.', 'Bob checks his watch.'),
+				settings,
+				'p',
+			),
+			computeGenerationCacheKey(prompt, { ...settings, temperature: 0.1 }, 'p'),
+			computeGenerationCacheKey(prompt, settings, 'q'),
+		]);
+		for (const key of keys) {
+			expect(key).not.toBe(base);
+		}
+	});
+});
+
+describe('CachingGenerator', () => {
+	it('answers repeated requests from the cache', async () => {
+		const { inner, generator } = setup();
+		const before = getGenerationCacheStats();
+
+		expect(await generator.generate(prompt, settings)).toBe('{"hour": 9}');
+		expect(await generator.generate(prompt, settings)).toBe('{"hour": 9}');
+
+		const after = getGenerationCacheStats();
+		expect(inner.getCalls()).toHaveLength(1);
+		expect(after.hits - before.hits).toBe(1);
+		expect(after.misses - before.misses).toBe(1);
+	});
+
+	it('asks again when the temperature differs', async () => {
+		const { inner, generator } = setup();
+
+		await generator.generate(prompt, settings);
+		await generator.generate(prompt, { ...settings, temperature: 0.1 });
+
+		expect(inner.getCalls()).toHaveLength(2);
+	});
+
+	it('skips lookups but refreshes the entry when bypassed', async () => {
+		const { inner, store } = setup();
+		await new CachingGenerator(inner, store, {
+			profile: 'p',
+			maxEntries: 100,
+		}).generate(prompt, settings);
+
+		inner.setDefaultResponse('{"hour": 10}');
+		const reroll = new CachingGenerator(inner, store, {
+			profile: 'p',
+			maxEntries: 100,
+			bypass: true,
+		});
+		expect(await reroll.generate(prompt, settings)).toBe('{"hour": 10}');
+
+		const cached = new CachingGenerator(inner, store, {
+			profile: 'p',
+			maxEntries: 100,
+		});
+		expect(await cached.generate(prompt, settings)).toBe('{"hour": 10}');
+		expect(inner.getCalls()).toHaveLength(2);
+	});
+
+	it('does not cache failed requests', async () => {
+		const { inner, store, generator } = setup();
+		inner.setDefaultResponse(() => {
+			throw new Error('Backend unavailable');
+		});
+
+		await expect(generator.generate(prompt, settings)).rejects.toThrow();
+		expect(await store.count()).toBe(0);
+	});
+
+	it('does not serve responses that failed to parse', async () => {
+		const { inner, generator } = setup();
+		let calls = 0;
+		inner.setDefaultResponse(() => (++calls <= 2 ? 'not json' : '{"hour": 9}'));
+		const template: PromptTemplate<{ hour: number }> = {
+			name: 'time',
+			description: 'Extract the time',
+			placeholders: [],
+			systemPrompt: 'Extract the time.',
+			userTemplate: 'Alice checks her watch.',
+			responseSchema: { type: 'object' },
+			defaultTemperature: 0.5,
+			parseResponse: response => {
+				try {
+					return JSON.parse(response);
+				} catch {
+					return null;
+				}
+			},
+		};
+		const built = { system: 'Extract the time.', user: 'Alice checks her watch.' };
+		const extract = () =>
+			generateAndParse(generator, template, built, 0.5, {
+				maxRetries: 2,
+				retryTemperature: 0.1,
+				logReasoning: false,
+			});
+
+		// The second retry has the same key as the first, but asks again
+		expect((await extract()).data).toEqual({ hour: 9 });
+		expect(inner.getCalls()).toHaveLength(3);
+
+		// The next extraction asks again instead of replaying the first bad answer
+		expect((await extract()).data).toEqual({ hour: 9 });
+		expect(inner.getCalls()).toHaveLength(4);
+
+		// Parsed responses are still cached
+		expect((await extract()).data).toEqual({ hour: 9 });
+		expect(inner.getCalls()).toHaveLength(4);
+	});
+
+	it('throws instead of returning a cached response once aborted', async () => {
+		const { generator } = setup();
+		await generator.generate(prompt, settings);
+
+		const controller = new AbortController();
+		controller.abort();
+		await expect(
+			generator.generate(prompt, { ...settings, abortSignal: controller.signal }),
+		).rejects.toBeInstanceOf(GeneratorAbortError);
+	});
+});
+
+describe('MemoryGenerationCacheStore', () => {
+	it('drops the least recently used entries beyond the cap', async () => {
+		const store = new MemoryGenerationCacheStore();
+		await store.set('a', 'A', 2);
+		await store.set('b', 'B', 2);
+		await store.get('a');
+		await store.set('c', 'C', 2);
+
+		expect(await store.get('b')).toBeNull();
+		expect(await store.get('a')).toBe('A');
+		expect(await store.get('c')).toBe('C');
+		expect(await store.count()).toBe(2);
+	});
+});
@@ -0,0 +1,80 @@
+/**
+ * V2 Caching Generator
+ *
+ * Wraps a generator so identical requests are answered from the generation
+ * cache instead of calling the LLM again. Callers discard responses they
+ * couldn't parse, so a malformed answer is never replayed.
+ */
+
+import type { Generator } from './Generator';
+import { GeneratorAbortError } from './Generator';
+import type { GeneratorPrompt, GeneratorSettings } from './types';
+import {
+	computeGenerationCacheKey,
+	recordGenerationCacheLookup,
+	type GenerationCacheStore,
+} from './cache';
+import { debugLog, debugWarn } from '../../utils/debug';
+
+/**
+ * Options for a caching generator.
+ */
+export interface CachingGeneratorOptions {
+	/** Identifies the backend/model requests go to (part of the cache key) */
+	profile: string;
+	/** Max number of responses kept in the store (an entry count, not a size) */
+	maxEntries: number;
+	/**
+	 * Skip cache lookups (explicit re-rolls). Fresh responses are still stored,
+	 * replacing the old ones.
+	 */
+	bypass?: boolean;
+}
+
+/**
+ * Generator decorator that reads and writes the generation cache.
+ */
+export class CachingGenerator implements Generator {
+	constructor(
+		private readonly inner: Generator,
+		private readonly store: GenerationCacheStore,
+		private readonly options: CachingGeneratorOptions,
+	) {}
+
+	async generate(prompt: GeneratorPrompt, settings: GeneratorSettings): Promise<string> {
+		const key = await computeGenerationCacheKey(prompt, settings, this.options.profile);
+
+		if (this.options.bypass) {
+			recordGenerationCacheLookup('bypassed');
+		} else {
+			const cached = await this.store.get(key);
+			if (settings.abortSignal?.aborted) {
+				throw new GeneratorAbortError();
+			}
+			if (cached !== null) {
+				recordGenerationCacheLookup('hits');
+				debugLog(`Cache hit for ${prompt.name ?? 'prompt'}`);
+				return cached;
+			}
+			recordGenerationCacheLookup('misses');
+		}
+
+		const response = await this.inner.generate(prompt, settings);
+		try {
+			await this.store.set(key, response, this.options.maxEntries);
+		} catch (error) {
+			debugWarn('Failed to cache response:', error);
+		}
+		return response;
+	}
+
+	async discardResponse(prompt: GeneratorPrompt, settings: GeneratorSettings): Promise<void> {
+		const key = await computeGenerationCacheKey(prompt, settings, this.options.profile);
+		await this.store.delete(key);
+		debugLog(`Discarded cached response for ${prompt.name ?? 'prompt'}`);
+	}
+
+	abort(): void {
+		this.inner.abort();
+	}
+}
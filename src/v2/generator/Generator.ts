@@ -22,6 +22,16 @@ export interface Generator {
 	 */
 	generate(prompt: GeneratorPrompt, settings: GeneratorSettings): Promise<string>;
 
+	/**
+	 * Forget the response to a request the caller couldn't use (e.g. it didn't
+	 * parse), so the same request isn't answered with it again.
+	 * Only generators that keep responses implement this.
+	 *
+	 * @param prompt - The prompt that was sent
+	 * @param settings - The settings it was sent with
+	 */
+	discardResponse?(prompt: GeneratorPrompt, settings: GeneratorSettings): Promise<void>;
+
 	/**
 	 * Abort any in-progress generation.
 	 */
@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import {
+	createOpenAICompatibleGenerator,
+	getChatCompletionsUrl,
+	buildPrompt,
+	GeneratorAbortError,
+	GeneratorError,
+} from './index';
+import type { JSONSchema } from '../prompts/types';
+
+interface RecordedRequest {
+	url: string;
+	headers: IncomingMessage['headers'];
+	body: Record<string, unknown>;
+}
+
+type StubHandler = (req: RecordedRequest, res: ServerResponse) => void;
+
+function sendJson(res: ServerResponse, status: number, data: unknown): void {
+	res.writeHead(status, { 'Content-Type': 'application/json' });
+	res.end(JSON.stringify(data));
+}
+
+function completion(content: string) {
+	return { choices: [{ index: 0, message: { role: 'assistant', content } }] };
+}
+
+describe('OpenAICompatibleGenerator', () => {
+	let server: Server;
+	let baseUrl: string;
+	let requests: RecordedRequest[];
+	let handler: StubHandler;
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			let raw = '';
+			req.on('data', chunk => (raw += chunk));
+			req.on('end', () => {
+				const recorded = {
+					url: req.url ?? '',
+					headers: req.headers,
+					body: JSON.parse(raw || '{}') as Record<string, unknown>,
+				};
+				requests.push(recorded);
+				handler(recorded, res);
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+	});
+
+	afterAll(async () => {
+		server.closeAllConnections();
+		await new Promise<void>(resolve => server.close(() => resolve()));
+	});
+
+	beforeEach(() => {
+		requests = [];
+		handler = (_req, res) => sendJson(res, 200, completion('{"ok": true}'));
+	});
+
+	const prompt = buildPrompt('System', 'User', 'test_prompt');
+
+	describe('requests', () => {
+		it('posts the prompt to /chat/completions', async () => {
+			const generator = createOpenAICompatibleGenerator({
+				baseUrl: `${baseUrl}/`,
+				model: 'local-model',
+			});
+
+			const result = await generator.generate(prompt, {
+				maxTokens: 256,
+				temperature: 0.2,
+			});
+
+			expect(result).toBe('{"ok": true}');
+			expect(requests).toHaveLength(1);
+			expect(requests[0].url).toBe('/v1/chat/completions');
+			expect(requests[0].body).toEqual({
+				model: 'local-model',
+				messages: prompt.messages,
+				max_tokens: 256,
+				temperature: 0.2,
+				stream: false,
+			});
+			expect(requests[0].headers.authorization).toBeUndefined();
+		});
+
+		it('sends the API key as a bearer token', async () => {
+			const generator = createOpenAICompatibleGenerator({
+				baseUrl,
+				model: 'm',
+				apiKey: 'secret',
+			});
+
+			await generator.generate(prompt, { maxTokens: 10 });
+			expect(requests[0].headers.authorization).toBe('Bearer secret');
+		});
+
+		it('sends the response schema as a json_schema response_format', async () => {
+			const schema: JSONSchema = {
+				type: 'object',
+				properties: { ok: { type: 'boolean' } },
+				required: ['ok'],
+			};
+			const generator = createOpenAICompatibleGenerator({ baseUrl, model: 'm' });
+
+			await generator.generate(prompt, {
+				maxTokens: 10,
+				responseSchema: { name: 'test_prompt', schema },
+			});
+
+			expect(requests[0].body.response_format).toEqual({
+				type: 'json_schema',
+				json_schema: { name: 'test_prompt', schema, strict: false },
+			});
+		});
+
+		it('sends the response schema as a GBNF grammar or guided JSON', async () => {
+			const schema: JSONSchema = { type: 'boolean' };
+			const generator = createOpenAICompatibleGenerator({ baseUrl, model: 'm' });
+
+			await generator.generate(prompt, {
+				maxTokens: 10,
+				responseSchema: { name: 'test_prompt', schema },
+				structuredOutput: 'grammar',
+			});
+			await generator.generate(prompt, {
+				maxTokens: 10,
+				responseSchema: { name: 'test_prompt', schema },
+				structuredOutput: 'guided_json',
+			});
+
+			expect(requests[0].body.grammar).toContain('root ::= boolean');
+			expect(requests[0].body.response_format).toBeUndefined();
+			expect(requests[1].body.guided_json).toEqual(schema);
+			expect(requests[1].body.response_format).toBeUndefined();
+		});
+	});
+
+	describe('streaming', () => {
+		it('concatenates content deltas until [DONE]', async () => {
+			handler = (_req, res) => {
+				res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+				const chunks = ['{"ok"', ': ', 'true}'];
+				res.write(
+					`data: ${JSON.stringify({ choices: [{ delta: { role: 'assistant' } }] })}\n\n`,
+				);
+				for (const content of chunks) {
+					res.write(
+						`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`,
+					);
+				}
+				res.end('data: [DONE]\n\n');
+			};
+			const generator = createOpenAICompatibleGenerator({
+				baseUrl,
+				model: 'm',
+				stream: true,
+			});
+
+			const result = await generator.generate(prompt, { maxTokens: 10 });
+
+			expect(result).toBe('{"ok": true}');
+			expect(requests[0].body.stream).toBe(true);
+		});
+
+		it('surfaces errors sent inside the stream', async () => {
+			handler = (_req, res) => {
+				res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+				res.end(
+					`data: ${JSON.stringify({ error: { message: 'model crashed' } })}\n\n`,
+				);
+			};
+			const generator = createOpenAICompatibleGenerator({
+				baseUrl,
+				model: 'm',
+				stream: true,
+			});
+
+			await expect(generator.generate(prompt, { maxTokens: 10 })).rejects.toThrow(
+				'model crashed',
+			);
+		});
+	});
+
+	describe('errors', () => {
+		it('throws GeneratorError with the server message on HTTP errors', async () => {
+			handler = (_req, res) =>
+				sendJson(res, 400, { error: { message: 'bad model' } });
+			const generator = createOpenAICompatibleGenerator({ baseUrl, model: 'm' });
+
+			const error = await generator
+				.generate(prompt, { maxTokens: 10 })
+				.catch(e => e);
+			expect(error).toBeInstanceOf(GeneratorError);
+			expect(error.message).toBe('Request failed with status 400: bad model');
+		});
+
+		it('throws GeneratorError when the response has no content', async () => {
+			handler = (_req, res) => sendJson(res, 200, { choices: [] });
+			const generator = createOpenAICompatibleGenerator({ baseUrl, model: 'm' });
+
+			await expect(
+				generator.generate(prompt, { maxTokens: 10 }),
+			).rejects.toBeInstanceOf(GeneratorError);
+		});
+
+		it('throws GeneratorError when the server is unreachable', async () => {
+			const generator = createOpenAICompatibleGenerator({
+				baseUrl: 'http://127.0.0.1:1/v1',
+				model: 'm',
+			});
+
+			await expect(
+				generator.generate(prompt, { maxTokens: 10 }),
+			).rejects.toBeInstanceOf(GeneratorError);
+		});
+	});
+
+	describe('abort', () => {
+		it('throws GeneratorAbortError if already aborted', async () => {
+			const generator = createOpenAICompatibleGenerator({ baseUrl, model: 'm' });
+			const controller = new AbortController();
+			controller.abort();
+
+			await expect(
+				generator.generate(prompt, {
+					maxTokens: 10,
+					abortSignal: controller.signal,
+				}),
+			).rejects.toBeInstanceOf(GeneratorAbortError);
+			expect(requests).toHaveLength(0);
+		});
+
+		it('aborts an in-flight request via the signal', async () => {
+			handler = () => {
+				// Never respond
+			};
+			const generator = createOpenAICompatibleGenerator({ baseUrl, model: 'm' });
+			const controller = new AbortController();
+
+			const pending = generator.generate(prompt, {
+				maxTokens: 10,
+				abortSignal: controller.signal,
+			});
+			setTimeout(() => controller.abort(), 20);
+
+			await expect(pending).rejects.toBeInstanceOf(GeneratorAbortError);
+		});
+
+		it('aborts an in-flight request via abort()', async () => {
+			handler = () => {
+				// Never respond
+			};
+			const generator = createOpenAICompatibleGenerator({ baseUrl, model: 'm' });
+
+			const pending = generator.generate(prompt, { maxTokens: 10 });
+			setTimeout(() => generator.abort(), 20);
+
+			await expect(pending).rejects.toBeInstanceOf(GeneratorAbortError);
+		});
+	});
+});
+
+describe('getChatCompletionsUrl', () => {
+	it('appends the endpoint path without doubling slashes', () => {
+		expect(getChatCompletionsUrl('http://host/v1')).toBe(
+			'http://host/v1/chat/completions',
+		);
+		expect(getChatCompletionsUrl(' http://host/v1// ')).toBe(
+			'http://host/v1/chat/completions',
+		);
+	});
+});
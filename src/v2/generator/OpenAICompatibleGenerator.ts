@@ -0,0 +1,261 @@
+/**
+ * V2 OpenAI-Compatible Generator
+ *
+ * Production implementation that calls an OpenAI-compatible `/chat/completions`
+ * endpoint directly (OpenAI, llama.cpp server, vLLM, TabbyAPI, ...), bypassing
+ * SillyTavern's connection profiles and prompt formatting.
+ */
+
+import type { Generator } from './Generator';
+import { GeneratorAbortError, GeneratorError, isAbortError } from './Generator';
+import type { GeneratorPrompt, GeneratorSettings, OpenAICompatibleConfig } from './types';
+import { waitForGeneratorSlot } from './rateLimit';
+import { schemaToGbnf } from './gbnf';
+
+/**
+ * Shape of a chat completion response (only the fields we read).
+ */
+interface ChatCompletionResponse {
+	choices?: { message?: { content?: unknown } }[];
+	error?: { message?: string };
+}
+
+/**
+ * Shape of a streamed chat completion chunk (only the fields we read).
+ */
+interface ChatCompletionChunk {
+	choices?: { delta?: { content?: unknown } }[];
+	error?: { message?: string };
+}
+
+/**
+ * Build the chat completions URL from a base URL, tolerating a trailing slash.
+ */
+export function getChatCompletionsUrl(baseUrl: string): string {
+	return `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+}
+
+/**
+ * Generator that talks to an OpenAI-compatible API with fetch.
+ */
+export class OpenAICompatibleGenerator implements Generator {
+	private readonly config: OpenAICompatibleConfig;
+	/** Controllers for in-flight requests (several can run concurrently) */
+	private readonly abortControllers = new Set<AbortController>();
+
+	constructor(config: OpenAICompatibleConfig) {
+		this.config = config;
+	}
+
+	async generate(prompt: GeneratorPrompt, settings: GeneratorSettings): Promise<string> {
+		const { abortSignal } = settings;
+
+		// Check if already aborted
+		if (abortSignal?.aborted) {
+			throw new GeneratorAbortError('Generation aborted before start');
+		}
+
+		// Wait for and claim a rate limit slot
+		const slot = await waitForGeneratorSlot(abortSignal);
+
+		// Create abort controller for this request and link the external signal
+		const controller = new AbortController();
+		this.abortControllers.add(controller);
+		const onAbort = () => controller.abort();
+		abortSignal?.addEventListener('abort', onAbort);
+
+		try {
+			const response = await fetch(getChatCompletionsUrl(this.config.baseUrl), {
+				method: 'POST',
+				headers: this.buildHeaders(),
+				body: JSON.stringify(this.buildRequestBody(prompt, settings)),
+				signal: controller.signal,
+			});
+
+			if (!response.ok) {
+				throw new GeneratorError(
+					`Request failed with status ${response.status}: ${await readErrorMessage(response)}`,
+				);
+			}
+
+			const content = this.config.stream
+				? await readStreamedContent(response)
+				: await readContent(response);
+
+			slot.complete();
+			return content;
+		} catch (error) {
+			slot.release();
+			if (controller.signal.aborted || isAbortError(error)) {
+				throw new GeneratorAbortError('Generation aborted');
+			}
+			if (error instanceof GeneratorError) {
+				throw error;
+			}
+			const cause = error instanceof Error ? error : undefined;
+			throw new GeneratorError(cause?.message ?? String(error), cause);
+		} finally {
+			abortSignal?.removeEventListener('abort', onAbort);
+			this.abortControllers.delete(controller);
+		}
+	}
+
+	abort(): void {
+		for (const controller of this.abortControllers) {
+			controller.abort();
+		}
+		this.abortControllers.clear();
+	}
+
+	private buildHeaders(): Record<string, string> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (this.config.apiKey) {
+			headers.Authorization = `Bearer ${this.config.apiKey}`;
+		}
+		return headers;
+	}
+
+	private buildRequestBody(
+		prompt: GeneratorPrompt,
+		settings: GeneratorSettings,
+	): Record<string, unknown> {
+		const {
+			maxTokens,
+			temperature = 0.5,
+			responseSchema,
+			structuredOutput = 'json_schema',
+		} = settings;
+		const body: Record<string, unknown> = {
+			model: this.config.model,
+			messages: prompt.messages,
+			max_tokens: maxTokens,
+			temperature,
+			stream: this.config.stream ?? false,
+		};
+
+		if (responseSchema) {
+			switch (structuredOutput) {
+				case 'grammar':
+					// llama.cpp server
+					body.grammar = schemaToGbnf(responseSchema.schema);
+					break;
+				case 'guided_json':
+					// vLLM / TabbyAPI
+					body.guided_json = responseSchema.schema;
+					break;
+				default:
+					// Non-strict: our schemas don't meet OpenAI's strict-mode rules
+					// (every property required, no additional properties)
+					body.response_format = {
+						type: 'json_schema',
+						json_schema: {
+							name: responseSchema.name,
+							schema: responseSchema.schema,
+							strict: false,
+						},
+					};
+			}
+		}
+
+		return body;
+	}
+}
+
+/**
+ * Extract a readable error message from a failed response.
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+	const text = await response.text().catch(() => '');
+	try {
+		const data = JSON.parse(text) as ChatCompletionResponse;
+		if (data.error?.message) {
+			return data.error.message;
+		}
+	} catch {
+		// Not JSON - fall through to the raw text
+	}
+	return text || response.statusText;
+}
+
+/**
+ * Read the message content from a non-streamed response.
+ */
+async function readContent(response: Response): Promise<string> {
+	const data = (await response.json()) as ChatCompletionResponse;
+	if (data.error?.message) {
+		throw new GeneratorError(data.error.message);
+	}
+
+	const content = data.choices?.[0]?.message?.content;
+	if (typeof content !== 'string') {
+		throw new GeneratorError('Response did not contain message content');
+	}
+	return content;
+}
+
+/**
+ * Read and concatenate the content deltas from a server-sent events response.
+ */
+async function readStreamedContent(response: Response): Promise<string> {
+	if (!response.body) {
+		throw new GeneratorError('Streamed response has no body');
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+	let content = '';
+
+	const handleLine = (line: string): boolean => {
+		const trimmed = line.trim();
+		if (!trimmed.startsWith('data:')) {
+			return false;
+		}
+		const payload = trimmed.slice('data:'.length).trim();
+		if (payload === '[DONE]') {
+			return true;
+		}
+
+		let chunk: ChatCompletionChunk;
+		try {
+			chunk = JSON.parse(payload) as ChatCompletionChunk;
+		} catch {
+			throw new GeneratorError(`Invalid stream chunk: ${payload}`);
+		}
+		if (chunk.error?.message) {
+			throw new GeneratorError(chunk.error.message);
+		}
+		const delta = chunk.choices?.[0]?.delta?.content;
+		if (typeof delta === 'string') {
+			content += delta;
+		}
+		return false;
+	};
+
+	while (true) {
+		const { done, value } = await reader.read();
+		buffer += decoder.decode(value, { stream: !done });
+
+		const lines = buffer.split('\n');
+		buffer = done ? '' : (lines.pop() ?? '');
+		for (const line of lines) {
+			if (handleLine(line)) {
+				await reader.cancel();
+				return content;
+			}
+		}
+
+		if (done) {
+			return content;
+		}
+	}
+}
+
+/**
+ * Create a generator for an OpenAI-compatible API.
+ */
+export function createOpenAICompatibleGenerator(
+	config: OpenAICompatibleConfig,
+): OpenAICompatibleGenerator {
+	return new OpenAICompatibleGenerator(config);
+}
@@ -9,27 +9,35 @@ import { Generator as STGenerator } from 'sillytavern-utils-lib';
 import type { Generator } from './Generator';
 import { GeneratorAbortError, GeneratorError } from './Generator';
 import type { GeneratorPrompt, GeneratorSettings, GeneratorConfig } from './types';
-import { RateLimiter } from '../utils/rateLimiter';
-import { getV2Settings } from '../settings';
-
-// Module-level rate limiter instance
-let rateLimiter: RateLimiter | null = null;
-let lastMaxReqsPerMinute: number | null = null;
+import { schemaToGbnf } from './gbnf';
+import { waitForGeneratorSlot } from './rateLimit';
 
 /**
- * Get or create the rate limiter instance.
- * Re-creates if settings have changed.
+ * Request fields that pass a response schema through SillyTavern.
+ * `json_schema` with name/value is SillyTavern's chat-completion structured output;
+ * `grammar_string` and a bare `json_schema` are its text-completion fields,
+ * which it forwards in each backend's own format (e.g. guided_json for vLLM).
  */
-function getRateLimiter(): RateLimiter {
-	const settings = getV2Settings();
-	const maxReqs = settings.v2MaxReqsPerMinute;
-
-	if (!rateLimiter || lastMaxReqsPerMinute !== maxReqs) {
-		rateLimiter = new RateLimiter(maxReqs);
-		lastMaxReqsPerMinute = maxReqs;
+function buildStructuredOutputPayload(settings: GeneratorSettings): Record<string, unknown> {
+	const { responseSchema, structuredOutput = 'json_schema' } = settings;
+	if (!responseSchema) {
+		return {};
 	}
 
-	return rateLimiter;
+	switch (structuredOutput) {
+		case 'grammar':
+			return { grammar_string: schemaToGbnf(responseSchema.schema) };
+		case 'guided_json':
+			return { json_schema: responseSchema.schema };
+		default:
+			return {
+				json_schema: {
+					name: responseSchema.name,
+					value: responseSchema.schema,
+					strict: false,
+				},
+			};
+	}
 }
 
 /**
@@ -38,7 +46,8 @@ function getRateLimiter(): RateLimiter {
 export class SillyTavernGenerator implements Generator {
 	private readonly generator: STGenerator;
 	private readonly config: GeneratorConfig;
-	private abortController: AbortController | null = null;
+	/** Controllers for in-flight requests (several can run concurrently) */
+	private readonly abortControllers = new Set<AbortController>();
 
 	constructor(config: GeneratorConfig) {
 		this.config = config;
@@ -53,43 +62,41 @@ export class SillyTavernGenerator implements Generator {
 			throw new GeneratorAbortError('Generation aborted before start');
 		}
 
-		// Wait for rate limit slot
-		try {
-			await getRateLimiter().waitForSlot(abortSignal);
-		} catch (e) {
-			if (e instanceof Error && e.message === 'Aborted') {
-				throw new GeneratorAbortError(
-					'Generation aborted while waiting for rate limit',
-				);
-			}
-			throw e;
-		}
+		// Wait for and claim a rate limit slot
+		const slot = await waitForGeneratorSlot(abortSignal);
 
 		return new Promise<string>((resolve, reject) => {
 			// Create abort controller for this request
-			this.abortController = new AbortController();
+			const controller = new AbortController();
+			this.abortControllers.add(controller);
 
 			// Link external abort signal
-			if (abortSignal) {
-				abortSignal.addEventListener('abort', () => {
-					this.abortController?.abort();
-				});
-			}
+			const onAbort = () => controller.abort();
+			abortSignal?.addEventListener('abort', onAbort);
 
 			this.generator.generateRequest(
 				{
 					profileId: this.config.profileId,
 					prompt: prompt.messages,
 					maxTokens,
-					custom: { signal: this.abortController.signal },
+					custom: { signal: controller.signal },
 					overridePayload: {
 						temperature,
+						...buildStructuredOutputPayload(settings),
 					},
 				},
 				{
-					abortController: this.abortController,
+					abortController: controller,
 					onFinish: (_requestId, data, error) => {
-						this.abortController = null;
+						this.abortControllers.delete(controller);
+						abortSignal?.removeEventListener('abort', onAbort);
+
+						// Only successful requests count against the rate limit
+						if (error || !data) {
+							slot.release();
+						} else {
+							slot.complete();
+						}
 
 						if (error) {
 							if (error.name === 'AbortError') {
@@ -115,9 +122,6 @@ export class SillyTavernGenerator implements Generator {
 							);
 						}
 
-						// Record successful request for rate limiting
-						getRateLimiter().recordRequest();
-
 						const content = (data as ExtractedData).content;
 						if (typeof content === 'string') {
 							resolve(content);
@@ -131,8 +135,10 @@ export class SillyTavernGenerator implements Generator {
 	}
 
 	abort(): void {
-		this.abortController?.abort();
-		this.abortController = null;
+		for (const controller of this.abortControllers) {
+			controller.abort();
+		}
+		this.abortControllers.clear();
 	}
 }
 
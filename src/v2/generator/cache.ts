@@ -0,0 +1,276 @@
+/**
+ * V2 Generation Cache
+ *
+ * Content-addressed storage for LLM responses. Responses are keyed by a hash
+ * of everything that decides what the backend is asked (messages, temperature,
+ * token limit, response schema and connection profile), so re-extracting a
+ * message whose prompts haven't changed doesn't pay for the same calls again.
+ * The cache is capped by entry count, dropping the least recently used first.
+ */
+
+import type { GeneratorPrompt, GeneratorSettings } from './types';
+import { debugWarn } from '../../utils/debug';
+
+/**
+ * Storage for cached responses.
+ */
+export interface GenerationCacheStore {
+	/** Get a cached response (and mark it as recently used), or null */
+	get(key: string): Promise<string | null>;
+	/** Store a response, dropping the least recently used beyond `maxEntries` */
+	set(key: string, response: string, maxEntries: number): Promise<void>;
+	/** Remove a cached response */
+	delete(key: string): Promise<void>;
+	/** Number of cached responses */
+	count(): Promise<number>;
+	/** Remove every cached response */
+	clear(): Promise<void>;
+}
+
+/**
+ * Lookup counters for the current session.
+ */
+export interface GenerationCacheStats {
+	/** Requests answered from the cache */
+	hits: number;
+	/** Requests sent because nothing was cached */
+	misses: number;
+	/** Requests sent without looking at the cache (explicit re-rolls) */
+	bypassed: number;
+}
+
+/**
+ * Compute the cache key for a request.
+ *
+ * @param prompt - The prompt being sent
+ * @param settings - Generation settings (abort signal is ignored)
+ * @param profile - Identifies the backend/model the request goes to
+ * @returns Hex SHA-256 digest
+ */
+export async function computeGenerationCacheKey(
+	prompt: GeneratorPrompt,
+	settings: GeneratorSettings,
+	profile: string,
+): Promise<string> {
+	const content = JSON.stringify({
+		profile,
+		messages: prompt.messages.map(m => [m.role, m.content]),
+		temperature: settings.temperature ?? null,
+		maxTokens: settings.maxTokens,
+		responseSchema: settings.responseSchema ?? null,
+		structuredOutput: settings.structuredOutput ?? null,
+	});
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+	return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join(
+		'',
+	);
+}
+
+// ============================================
+// Stores
+// ============================================
+
+/**
+ * In-memory store, used where IndexedDB isn't available (and in tests).
+ */
+export class MemoryGenerationCacheStore implements GenerationCacheStore {
+	// Map iteration order doubles as recency order (oldest first)
+	private readonly entries = new Map<string, string>();
+
+	async get(key: string): Promise<string | null> {
+		const response = this.entries.get(key);
+		if (response === undefined) return null;
+		this.entries.delete(key);
+		this.entries.set(key, response);
+		return response;
+	}
+
+	async set(key: string, response: string, maxEntries: number): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, response);
+		for (const oldest of this.entries.keys()) {
+			if (this.entries.size <= maxEntries) break;
+			this.entries.delete(oldest);
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+
+	async count(): Promise<number> {
+		return this.entries.size;
+	}
+
+	async clear(): Promise<void> {
+		this.entries.clear();
+	}
+}
+
+const DB_NAME = 'blazetracker-generation-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+const LAST_USED_INDEX = 'lastUsed';
+
+interface CachedResponse {
+	key: string;
+	response: string;
+	lastUsed: number;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () => reject(transaction.error);
+		transaction.onabort = () => reject(transaction.error);
+	});
+}
+
+/**
+ * IndexedDB store, so the cache survives page reloads.
+ * Storage errors are logged and treated as misses; the cache never fails a request.
+ */
+export class IndexedDbGenerationCacheStore implements GenerationCacheStore {
+	private db: Promise<IDBDatabase> | null = null;
+
+	private open(): Promise<IDBDatabase> {
+		if (!this.db) {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const store = request.result.createObjectStore(STORE_NAME, {
+					keyPath: 'key',
+				});
+				store.createIndex(LAST_USED_INDEX, 'lastUsed');
+			};
+			this.db = requestToPromise(request);
+			// Allow a retry on the next call if opening failed
+			this.db.catch(() => (this.db = null));
+		}
+		return this.db;
+	}
+
+	async get(key: string): Promise<string | null> {
+		try {
+			const db = await this.open();
+			const transaction = db.transaction(STORE_NAME, 'readwrite');
+			const store = transaction.objectStore(STORE_NAME);
+			const entry = (await requestToPromise(store.get(key))) as
+				| CachedResponse
+				| undefined;
+			if (entry) {
+				store.put({ ...entry, lastUsed: Date.now() });
+			}
+			await transactionDone(transaction);
+			return entry?.response ?? null;
+		} catch (error) {
+			debugWarn('Generation cache read failed:', error);
+			return null;
+		}
+	}
+
+	async set(key: string, response: string, maxEntries: number): Promise<void> {
+		try {
+			const db = await this.open();
+			const transaction = db.transaction(STORE_NAME, 'readwrite');
+			const store = transaction.objectStore(STORE_NAME);
+			store.put({ key, response, lastUsed: Date.now() } satisfies CachedResponse);
+
+			let excess = (await requestToPromise(store.count())) - maxEntries;
+			if (excess > 0) {
+				const cursorRequest = store.index(LAST_USED_INDEX).openCursor();
+				cursorRequest.onsuccess = () => {
+					const cursor = cursorRequest.result;
+					if (!cursor || excess <= 0) return;
+					cursor.delete();
+					excess--;
+					cursor.continue();
+				};
+			}
+			await transactionDone(transaction);
+		} catch (error) {
+			debugWarn('Generation cache write failed:', error);
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		try {
+			const db = await this.open();
+			const transaction = db.transaction(STORE_NAME, 'readwrite');
+			transaction.objectStore(STORE_NAME).delete(key);
+			await transactionDone(transaction);
+		} catch (error) {
+			debugWarn('Generation cache delete failed:', error);
+		}
+	}
+
+	async count(): Promise<number> {
+		try {
+			const db = await this.open();
+			const transaction = db.transaction(STORE_NAME, 'readonly');
+			return await requestToPromise(transaction.objectStore(STORE_NAME).count());
+		} catch (error) {
+			debugWarn('Generation cache count failed:', error);
+			return 0;
+		}
+	}
+
+	async clear(): Promise<void> {
+		try {
+			const db = await this.open();
+			const transaction = db.transaction(STORE_NAME, 'readwrite');
+			transaction.objectStore(STORE_NAME).clear();
+			await transactionDone(transaction);
+		} catch (error) {
+			debugWarn('Generation cache clear failed:', error);
+		}
+	}
+}
+
+// ============================================
+// Shared Cache
+// ============================================
+
+let sharedStore: GenerationCacheStore | null = null;
+let stats: GenerationCacheStats = { hits: 0, misses: 0, bypassed: 0 };
+
+/**
+ * Get the store used by production generators.
+ */
+export function getGenerationCacheStore(): GenerationCacheStore {
+	if (!sharedStore) {
+		sharedStore =
+			typeof indexedDB !== 'undefined'
+				? new IndexedDbGenerationCacheStore()
+				: new MemoryGenerationCacheStore();
+	}
+	return sharedStore;
+}
+
+/**
+ * Record the outcome of a cache lookup.
+ */
+export function recordGenerationCacheLookup(outcome: keyof GenerationCacheStats): void {
+	stats[outcome]++;
+}
+
+/**
+ * Get lookup counters for the current session.
+ */
+export function getGenerationCacheStats(): GenerationCacheStats {
+	return { ...stats };
+}
+
+/**
+ * Remove every cached response and reset the counters.
+ */
+export async function clearGenerationCache(): Promise<void> {
+	await getGenerationCacheStore().clear();
+	stats = { hits: 0, misses: 0, bypassed: 0 };
+}
@@ -0,0 +1,71 @@
+/**
+ * V2 Generator From Settings
+ *
+ * Picks the production generator for the configured backend.
+ */
+
+import type { V2Settings } from '../settings';
+import type { Generator } from './Generator';
+import { SillyTavernGenerator } from './SillyTavernGenerator';
+import { OpenAICompatibleGenerator } from './OpenAICompatibleGenerator';
+import { CachingGenerator } from './CachingGenerator';
+import { getGenerationCacheStore } from './cache';
+
+/**
+ * Check whether the configured backend has what it needs to make requests.
+ */
+export function isGeneratorConfigured(settings: V2Settings): boolean {
+	if (settings.v2GeneratorBackend === 'openai-compatible') {
+		return !!settings.v2DirectBaseUrl.trim() && !!settings.v2DirectModel.trim();
+	}
+	return !!settings.v2ProfileId;
+}
+
+/**
+ * Options for creating a generator from settings.
+ */
+export interface CreateGeneratorOptions {
+	/** Don't answer from the generation cache (explicit re-rolls) */
+	bypassCache?: boolean;
+}
+
+/**
+ * Identify the backend and model requests go to, for the generation cache.
+ */
+export function getGeneratorProfileKey(settings: V2Settings): string {
+	if (settings.v2GeneratorBackend === 'openai-compatible') {
+		return `openai-compatible:${settings.v2DirectBaseUrl.trim()}:${settings.v2DirectModel.trim()}`;
+	}
+	return `sillytavern:${settings.v2ProfileId}`;
+}
+
+/**
+ * Create a generator for the configured backend, behind the generation cache
+ * if it is enabled.
+ */
+export function createGeneratorFromSettings(
+	settings: V2Settings,
+	options: CreateGeneratorOptions = {},
+): Generator {
+	const generator = createBackendGenerator(settings);
+	if (!settings.v2CacheEnabled) {
+		return generator;
+	}
+	return new CachingGenerator(generator, getGenerationCacheStore(), {
+		profile: getGeneratorProfileKey(settings),
+		maxEntries: settings.v2CacheMaxEntries,
+		bypass: options.bypassCache,
+	});
+}
+
+function createBackendGenerator(settings: V2Settings): Generator {
+	if (settings.v2GeneratorBackend === 'openai-compatible') {
+		return new OpenAICompatibleGenerator({
+			baseUrl: settings.v2DirectBaseUrl,
+			model: settings.v2DirectModel.trim(),
+			apiKey: settings.v2DirectApiKey || undefined,
+			stream: settings.v2DirectStream,
+		});
+	}
+	return new SillyTavernGenerator({ profileId: settings.v2ProfileId });
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { schemaToGbnf } from './gbnf';
+import { characterOutfitSchema, outfitChangeSchema } from '../prompts/schemas';
+
+/** Rule body for a rule name, or undefined */
+function getRule(grammar: string, name: string): string | undefined {
+	const line = grammar.split('\n').find(l => l.startsWith(`${name} ::= `));
+	return line?.slice(`${name} ::= `.length);
+}
+
+describe('schemaToGbnf', () => {
+	it('lists root first and only the primitives it uses', () => {
+		const grammar = schemaToGbnf({ type: 'boolean' });
+		expect(grammar).toBe(
+			'root ::= boolean\nws ::= | " " | "\\n" [ \\t]{0,20}\nboolean ::= ("true" | "false") ws\n',
+		);
+	});
+
+	it('writes required properties in order', () => {
+		const grammar = schemaToGbnf({
+			type: 'object',
+			properties: {
+				reasoning: { type: 'string' },
+				count: { type: 'number' },
+			},
+			required: ['reasoning', 'count'],
+		});
+
+		expect(getRule(grammar, 'root')).toBe(
+			'"{" ws "\\"reasoning\\"" ws ":" ws string "," ws "\\"count\\"" ws ":" ws number "}" ws',
+		);
+		expect(getRule(grammar, 'string')).toBeDefined();
+		expect(getRule(grammar, 'char')).toBeDefined();
+		expect(getRule(grammar, 'number')).toBeDefined();
+		expect(getRule(grammar, 'value')).toBeUndefined();
+	});
+
+	it('quotes enum values as JSON literals', () => {
+		const grammar = schemaToGbnf({ type: 'string', enum: ['a', 'say "hi"'] });
+		expect(getRule(grammar, 'root')).toBe(
+			'("\\"a\\"" | "\\"say \\\\\\"hi\\\\\\"\\"") ws',
+		);
+	});
+
+	it('applies array length limits', () => {
+		const grammar = schemaToGbnf({
+			type: 'array',
+			items: { type: 'string' },
+			minItems: 2,
+			maxItems: 5,
+		});
+		expect(getRule(grammar, 'root')).toBe('"[" ws string ("," ws string){1,4} "]" ws');
+
+		const optional = schemaToGbnf({ type: 'array', items: { type: 'string' } });
+		expect(getRule(optional, 'root')).toBe('"[" ws (string ("," ws string)*)? "]" ws');
+	});
+
+	it('applies string length limits', () => {
+		const grammar = schemaToGbnf({ type: 'string', minLength: 1, maxLength: 40 });
+		expect(getRule(grammar, 'root')).toBe('"\\"" char{1,40} "\\"" ws');
+	});
+
+	it('maps additionalProperties to a key/value map', () => {
+		const grammar = schemaToGbnf(outfitChangeSchema);
+		expect(getRule(grammar, 'root-added')).toBe(
+			'"{" ws (string ":" ws string ("," ws string ":" ws string)*)? "}" ws',
+		);
+		expect(getRule(grammar, 'root-removed-item')).toContain('"\\"underwear\\""');
+	});
+
+	it('makes optional properties skippable without stray commas', () => {
+		const grammar = schemaToGbnf({
+			type: 'object',
+			properties: {
+				a: { type: 'string' },
+				b: { type: 'number' },
+				c: { type: 'boolean' },
+			},
+			required: ['b'],
+		});
+
+		expect(getRule(grammar, 'root')).toBe('"{" ws root-props-0-first "}" ws');
+		expect(getRule(grammar, 'root-props-0-first')).toBe(
+			'("\\"a\\"" ws ":" ws string root-props-1-rest) | root-props-1-first',
+		);
+		expect(getRule(grammar, 'root-props-1-rest')).toBe(
+			'"," ws "\\"b\\"" ws ":" ws number root-props-2-rest',
+		);
+		expect(getRule(grammar, 'root-props-1-first')).toBe(
+			'"\\"b\\"" ws ":" ws number root-props-2-rest',
+		);
+		expect(getRule(grammar, 'root-props-2-rest')).toBe(
+			'("," ws "\\"c\\"" ws ":" ws boolean)?',
+		);
+	});
+
+	it('keeps the rule count linear for all-optional objects', () => {
+		const grammar = schemaToGbnf(characterOutfitSchema);
+		const propRules = grammar.split('\n').filter(l => l.startsWith('root-props-'));
+		// Nine slots: a "first" and a "rest" rule per position (no "rest" for the first)
+		expect(propRules).toHaveLength(17);
+	});
+
+	it('falls back to any JSON value for untyped objects', () => {
+		const grammar = schemaToGbnf({ type: 'object' });
+		expect(getRule(grammar, 'root')).toBe('object');
+		for (const name of [
+			'value',
+			'object',
+			'array',
+			'string',
+			'number',
+			'boolean',
+			'null',
+		]) {
+			expect(getRule(grammar, name)).toBeDefined();
+		}
+	});
+});
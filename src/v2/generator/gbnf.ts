@@ -0,0 +1,244 @@
+/**
+ * V2 Schema to GBNF
+ *
+ * Converts the JSONSchema subset used by prompt templates into a GBNF grammar
+ * for llama.cpp-style constrained decoding.
+ *
+ * Supported: object (properties, required, additionalProperties as a value
+ * schema), array (items, minItems, maxItems), string (enum, minLength,
+ * maxLength), number, boolean, null and enums of any of these.
+ * Objects with `properties` are closed: only the listed keys may appear, in
+ * the listed order. `minimum`/`maximum` can't be expressed in GBNF and are
+ * left to response validation.
+ */
+
+import type { JSONSchema } from '../prompts/types';
+
+/**
+ * Shared primitive rules, emitted only when referenced.
+ */
+const PRIMITIVE_RULES: Record<string, string> = {
+	ws: '| " " | "\\n" [ \\t]{0,20}',
+	char: '[^"\\\\\\x7F\\x00-\\x1F] | "\\\\" (["\\\\/bfnrt] | "u" [0-9a-fA-F] [0-9a-fA-F] [0-9a-fA-F] [0-9a-fA-F])',
+	string: '"\\"" char* "\\"" ws',
+	number: '"-"? ([0-9] | [1-9] [0-9]*) ("." [0-9]+)? ([eE] [-+]? [0-9]+)? ws',
+	boolean: '("true" | "false") ws',
+	null: '"null" ws',
+	value: 'object | array | string | number | boolean | null',
+	object: '"{" ws (string ":" ws value ("," ws string ":" ws value)*)? "}" ws',
+	array: '"[" ws (value ("," ws value)*)? "]" ws',
+};
+
+/**
+ * Primitive rules each primitive depends on.
+ */
+const PRIMITIVE_DEPENDENCIES: Record<string, string[]> = {
+	ws: [],
+	char: [],
+	string: ['char', 'ws'],
+	number: ['ws'],
+	boolean: ['ws'],
+	null: ['ws'],
+	value: ['object', 'array', 'string', 'number', 'boolean', 'null'],
+	object: ['ws', 'string', 'value'],
+	array: ['ws', 'value'],
+};
+
+/**
+ * Quote a string as a GBNF literal.
+ */
+function toLiteral(text: string): string {
+	return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * Make a schema path segment safe for a rule name.
+ */
+function toRuleName(segment: string): string {
+	return segment.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'x';
+}
+
+/**
+ * Repetition suffix for the items after the first, given the min/max total.
+ */
+function repeatSuffix(min: number, max: number | undefined): string {
+	const extraMin = Math.max(0, min - 1);
+	if (max === undefined) {
+		return extraMin === 0 ? '*' : `{${extraMin},}`;
+	}
+	return `{${extraMin},${Math.max(extraMin, max - 1)}}`;
+}
+
+class GbnfBuilder {
+	private readonly rules = new Map<string, string>();
+	private readonly primitives = new Set<string>();
+
+	build(schema: JSONSchema): string {
+		// Reserve the root rule so it is listed first
+		this.rules.set('root', '');
+		this.rules.set('root', this.visit(schema, 'root'));
+
+		const lines = [...this.rules].map(([name, body]) => `${name} ::= ${body}`);
+		for (const name of Object.keys(PRIMITIVE_RULES)) {
+			if (this.primitives.has(name)) {
+				lines.push(`${name} ::= ${PRIMITIVE_RULES[name]}`);
+			}
+		}
+		return lines.join('\n') + '\n';
+	}
+
+	private usePrimitive(name: string): string {
+		if (!this.primitives.has(name)) {
+			this.primitives.add(name);
+			for (const dependency of PRIMITIVE_DEPENDENCIES[name]) {
+				this.usePrimitive(dependency);
+			}
+		}
+		return name;
+	}
+
+	/**
+	 * Register a named rule and return its name.
+	 */
+	private addRule(name: string, body: string): string {
+		let unique = name;
+		for (let i = 2; this.rules.has(unique); i++) {
+			unique = `${name}${i}`;
+		}
+		this.rules.set(unique, body);
+		return unique;
+	}
+
+	/**
+	 * Return a rule name for a schema, adding a named rule unless the schema
+	 * maps directly to a primitive.
+	 */
+	private ruleFor(schema: JSONSchema, path: string): string {
+		const expression = this.visit(schema, path);
+		return /^[a-z]+$/.test(expression) ? expression : this.addRule(path, expression);
+	}
+
+	/**
+	 * Return a rule expression for a schema.
+	 */
+	private visit(schema: JSONSchema, path: string): string {
+		if (schema.enum) {
+			this.usePrimitive('ws');
+			const options = schema.enum.map(v => toLiteral(JSON.stringify(v)));
+			return `(${options.join(' | ')}) ws`;
+		}
+
+		switch (schema.type) {
+			case 'object':
+				return this.visitObject(schema, path);
+			case 'array':
+				return this.visitArray(schema, path);
+			case 'string':
+				return this.visitString(schema);
+			case 'number':
+			case 'boolean':
+			case 'null':
+				return this.usePrimitive(schema.type);
+			default:
+				return this.usePrimitive('value');
+		}
+	}
+
+	private visitString(schema: JSONSchema): string {
+		if (schema.minLength === undefined && schema.maxLength === undefined) {
+			return this.usePrimitive('string');
+		}
+		this.usePrimitive('char');
+		this.usePrimitive('ws');
+		const min = schema.minLength ?? 0;
+		const max = schema.maxLength ?? '';
+		return `"\\"" char{${min},${max}} "\\"" ws`;
+	}
+
+	private visitArray(schema: JSONSchema, path: string): string {
+		this.usePrimitive('ws');
+		if (schema.maxItems === 0) {
+			return '"[" ws "]" ws';
+		}
+		const item = schema.items
+			? this.ruleFor(schema.items, `${path}-item`)
+			: this.usePrimitive('value');
+		const min = schema.minItems ?? 0;
+		const items = `${item} ("," ws ${item})${repeatSuffix(min, schema.maxItems)}`;
+		return `"[" ws ${min > 0 ? items : `(${items})?`} "]" ws`;
+	}
+
+	private visitObject(schema: JSONSchema, path: string): string {
+		this.usePrimitive('ws');
+
+		if (!schema.properties) {
+			const valueSchema =
+				typeof schema.additionalProperties === 'object'
+					? schema.additionalProperties
+					: null;
+			if (!valueSchema) {
+				return schema.additionalProperties === false
+					? '"{" ws "}" ws'
+					: this.usePrimitive('object');
+			}
+			const key = this.usePrimitive('string');
+			const value = this.ruleFor(valueSchema, `${path}-value`);
+			const entry = `${key} ":" ws ${value}`;
+			return `"{" ws (${entry} ("," ws ${entry})*)? "}" ws`;
+		}
+
+		const required = new Set(schema.required ?? []);
+		const entries = Object.entries(schema.properties).map(([key, propSchema]) => {
+			const value = this.ruleFor(propSchema, `${path}-${toRuleName(key)}`);
+			return {
+				kv: `${toLiteral(JSON.stringify(key))} ws ":" ws ${value}`,
+				required: required.has(key),
+			};
+		});
+
+		if (entries.length === 0) {
+			return '"{" ws "}" ws';
+		}
+		if (entries.every(e => e.required)) {
+			return `"{" ws ${entries.map(e => e.kv).join(' "," ws ')} "}" ws`;
+		}
+
+		// Optional properties: one rule per position for "first property still to
+		// come" and "a property was already written", so commas stay correct
+		// without enumerating every combination.
+		const tails = new Map<string, string | null>();
+		const tail = (index: number, first: boolean): string | null => {
+			const id = `${index}-${first ? 'first' : 'rest'}`;
+			if (tails.has(id)) return tails.get(id)!;
+			if (index === entries.length) {
+				tails.set(id, null);
+				return null;
+			}
+
+			const entry = entries[index];
+			const separator = first ? '' : '"," ws ';
+			const after = tail(index + 1, false);
+			const present = `${separator}${entry.kv}${after ? ` ${after}` : ''}`;
+			let body: string;
+			if (entry.required) {
+				body = present;
+			} else {
+				const skipped = tail(index + 1, first);
+				body = skipped ? `(${present}) | ${skipped}` : `(${present})?`;
+			}
+			const name = this.addRule(`${path}-props-${id}`, body);
+			tails.set(id, name);
+			return name;
+		};
+
+		return `"{" ws ${tail(0, true)} "}" ws`;
+	}
+}
+
+/**
+ * Convert a JSON schema to a GBNF grammar whose `root` rule matches a JSON
+ * value of that shape.
+ */
+export function schemaToGbnf(schema: JSONSchema): string {
+	return new GbnfBuilder().build(schema);
+}
@@ -10,6 +10,9 @@ export type {
 	GeneratorPrompt,
 	GeneratorSettings,
 	GeneratorConfig,
+	GeneratorResponseSchema,
+	OpenAICompatibleConfig,
+	StructuredOutputMode,
 } from './types';
 
 export { buildPrompt, buildPromptWithPrefill } from './types';
@@ -21,6 +24,37 @@ export { GeneratorAbortError, GeneratorError, isAbortError } from './Generator';
 // SillyTavern implementation
 export { SillyTavernGenerator, createSillyTavernGenerator } from './SillyTavernGenerator';
 
+// OpenAI-compatible implementation
+export {
+	OpenAICompatibleGenerator,
+	createOpenAICompatibleGenerator,
+	getChatCompletionsUrl,
+} from './OpenAICompatibleGenerator';
+
+// Structured output
+export { schemaToGbnf } from './gbnf';
+
+// Response cache
+export type { GenerationCacheStore, GenerationCacheStats } from './cache';
+export {
+	computeGenerationCacheKey,
+	MemoryGenerationCacheStore,
+	IndexedDbGenerationCacheStore,
+	getGenerationCacheStore,
+	getGenerationCacheStats,
+	clearGenerationCache,
+} from './cache';
+export type { CachingGeneratorOptions } from './CachingGenerator';
+export { CachingGenerator } from './CachingGenerator';
+
+// Backend selection
+export type { CreateGeneratorOptions } from './fromSettings';
+export {
+	isGeneratorConfigured,
+	createGeneratorFromSettings,
+	getGeneratorProfileKey,
+} from './fromSettings';
+
 // Mock implementation
 export type { GeneratorCall, ResponseHandler } from './MockGenerator';
 export { MockGenerator, createMockGenerator } from './MockGenerator';
@@ -0,0 +1,49 @@
+/**
+ * V2 Generator Rate Limit
+ *
+ * Rate limiter shared by all production generators, so the requests-per-minute
+ * setting applies no matter which backend is in use.
+ */
+
+import { RateLimiter, type RateLimitSlot } from '../utils/rateLimiter';
+import { getV2Settings } from '../settings';
+import { GeneratorAbortError } from './Generator';
+
+// Module-level rate limiter instance
+let rateLimiter: RateLimiter | null = null;
+let lastMaxReqsPerMinute: number | null = null;
+
+/**
+ * Get or create the rate limiter instance.
+ * Re-creates if settings have changed.
+ */
+export function getGeneratorRateLimiter(): RateLimiter {
+	const settings = getV2Settings();
+	const maxReqs = settings.v2MaxReqsPerMinute;
+
+	if (!rateLimiter || lastMaxReqsPerMinute !== maxReqs) {
+		rateLimiter = new RateLimiter(maxReqs);
+		lastMaxReqsPerMinute = maxReqs;
+	}
+
+	return rateLimiter;
+}
+
+/**
+ * Wait for and claim a rate limit slot, converting an abort into a
+ * GeneratorAbortError. The slot is claimed before the request is sent so
+ * concurrent requests can't exceed the limit, but only counts once the
+ * request succeeds: complete it on success, release it otherwise.
+ */
+export async function waitForGeneratorSlot(abortSignal?: AbortSignal): Promise<RateLimitSlot> {
+	try {
+		return await getGeneratorRateLimiter().acquireSlot(abortSignal);
+	} catch (e) {
+		if (e instanceof Error && e.message === 'Aborted') {
+			throw new GeneratorAbortError(
+				'Generation aborted while waiting for rate limit',
+			);
+		}
+		throw e;
+	}
+}
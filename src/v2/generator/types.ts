@@ -4,6 +4,8 @@
  * Types for the LLM generation interface.
  */
 
+import type { JSONSchema } from '../prompts/types';
+
 /**
  * A message in the prompt.
  */
@@ -32,6 +34,30 @@ export interface GeneratorSettings {
 	temperature?: number;
 	/** Abort signal for cancellation */
 	abortSignal?: AbortSignal;
+	/**
+	 * Expected shape of the response.
+	 * Generators with native structured output constrain decoding to it; others ignore it.
+	 */
+	responseSchema?: GeneratorResponseSchema;
+	/** How `responseSchema` is sent to the backend (default 'json_schema') */
+	structuredOutput?: StructuredOutputMode;
+}
+
+/**
+ * How a response schema is sent to the backend.
+ * - json_schema: as a JSON schema (OpenAI `response_format`, SillyTavern structured output)
+ * - grammar: converted to a GBNF grammar (llama.cpp, KoboldCpp)
+ * - guided_json: as a guided-decoding JSON schema (vLLM, TabbyAPI)
+ */
+export type StructuredOutputMode = 'json_schema' | 'grammar' | 'guided_json';
+
+/**
+ * A named JSON schema for structured output.
+ */
+export interface GeneratorResponseSchema {
+	/** Schema name (letters, digits, underscores and dashes) */
+	name: string;
+	schema: JSONSchema;
 }
 
 /**
@@ -42,6 +68,20 @@ export interface GeneratorConfig {
 	profileId: string;
 }
 
+/**
+ * Configuration for a generator that calls an OpenAI-compatible API directly.
+ */
+export interface OpenAICompatibleConfig {
+	/** API base URL including the version path, e.g. "http://localhost:8080/v1" */
+	baseUrl: string;
+	/** Model name sent with each request */
+	model: string;
+	/** Bearer token, if the server requires one */
+	apiKey?: string;
+	/** Request a streamed (server-sent events) response */
+	stream?: boolean;
+}
+
 /**
  * Build a standard extraction prompt with system and user messages.
  */
@@ -37,7 +37,14 @@ export { EventStore } from './store';
 
 // Generator
 export type { Generator, GeneratorPrompt, GeneratorSettings } from './generator';
-export { SillyTavernGenerator, MockGenerator, buildPrompt } from './generator';
+export {
+	SillyTavernGenerator,
+	OpenAICompatibleGenerator,
+	MockGenerator,
+	buildPrompt,
+	isGeneratorConfigured,
+	createGeneratorFromSettings,
+} from './generator';
 
 // Extractors
 export type {
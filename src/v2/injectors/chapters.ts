@@ -9,6 +9,8 @@ import type { EventStore } from '../store/EventStore';
 import type { SwipeContext } from '../store/projection';
 import { getMilestoneDisplayName } from '../store/projection';
 import { computeAllChapters, type ComputedChapter } from '../narrative/computeChapters';
+import type { ComputedArc } from '../narrative/computeArcs';
+import type { ComputedScene } from '../narrative/computeScenes';
 
 /**
  * Format a character pair for display.
@@ -75,6 +77,34 @@ export function formatPastChapter(chapter: ComputedChapter): string {
 	return lines.join('\n');
 }
 
+/**
+ * Format a single arc for injection. Arcs stand in for their chapters
+ * in "Story So Far" once those chapters are left out.
+ *
+ * @param arc - The computed arc data
+ * @returns Formatted arc string
+ */
+export function formatPastArc(arc: ComputedArc): string {
+	return [
+		`Arc ${arc.index + 1}: ${arc.title} (Chapters ${arc.firstChapter + 1}-${arc.lastChapter + 1})`,
+		`  ${arc.summary}`,
+	].join('\n');
+}
+
+/**
+ * Format a single scene: its title and short summary.
+ *
+ * @param scene - The computed scene data
+ * @returns Formatted scene string
+ */
+export function formatScene(scene: ComputedScene): string {
+	const lines = [`Scene ${scene.index + 1}: ${scene.title}`];
+	if (scene.summary) {
+		lines.push(`  ${scene.summary}`);
+	}
+	return lines.join('\n');
+}
+
 /**
  * Format pre-computed chapters for injection.
  * Use this when you already have the chapters from computeOptimalContext.
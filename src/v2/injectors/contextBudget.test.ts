@@ -14,6 +14,7 @@ import {
 import { MockTokenCounter, FixedRatioTokenCounter } from '../utils/tokenCount';
 import type { ComputedChapter } from '../narrative/computeChapters';
 import type { SwipeContext } from '../store/projection';
+import type { HistoryRetriever } from './retrieval';
 
 // ============================================
 // Mock Factories
@@ -231,6 +232,225 @@ describe('computeOptimalContext', () => {
 		expect(result.pastChapters).toHaveLength(0);
 		expect(result.currentChapterEvents).toHaveLength(0);
 	});
+
+	it('uses the reduced state before pushing out messages', async () => {
+		const messageTokens = new Map([
+			[0, 100],
+			[1, 100],
+			[2, 100],
+		]);
+
+		const mockStore = {
+			getActiveEvents: () => [],
+			projectStateAtMessage: () => ({}),
+		} as any;
+
+		const result = await computeOptimalContext({
+			budget: 360, // Fits all messages with the reduced state only
+			stateTokens: 100,
+			reducedStateTokens: 40,
+			messageTokens,
+			store: mockStore,
+			swipeContext: createMockSwipeContext(),
+			maxPastChapters: 5,
+			maxEvents: 15,
+			totalMessages: 3,
+			tokenCounter: mockTokenCounter,
+		});
+
+		expect(result.firstMessageInContext).toBe(0);
+		expect(result.reducedState).toBe(true);
+		expect(result.breakdown.stateTokens).toBe(40);
+		expect(result.totalTokens).toBe(340);
+	});
+
+	it('keeps the full state when it fits', async () => {
+		const mockStore = {
+			getActiveEvents: () => [],
+			projectStateAtMessage: () => ({}),
+		} as any;
+
+		const result = await computeOptimalContext({
+			budget: 500,
+			stateTokens: 100,
+			reducedStateTokens: 40,
+			messageTokens: new Map([
+				[0, 100],
+				[1, 100],
+			]),
+			store: mockStore,
+			swipeContext: createMockSwipeContext(),
+			maxPastChapters: 5,
+			maxEvents: 15,
+			totalMessages: 2,
+			tokenCounter: mockTokenCounter,
+		});
+
+		expect(result.reducedState).toBe(false);
+		expect(result.totalTokens).toBe(300);
+	});
+
+	it('lets a retriever pick the past chapters', async () => {
+		// Chapters 0-2 end at messages 10, 20 and 30; chapter 3 is current
+		const chapterEnd = (chapterIndex: number, messageId: number) => ({
+			kind: 'chapter',
+			subkind: 'ended',
+			chapterIndex,
+			reason: 'location_change',
+			source: { messageId, swipeId: 0 },
+			timestamp: Date.now(),
+		});
+		const mockStore = {
+			getActiveEvents: () => [
+				chapterEnd(0, 10),
+				chapterEnd(1, 20),
+				chapterEnd(2, 30),
+			],
+			projectStateAtMessage: () => ({
+				charactersPresent: [],
+				location: { place: '' },
+			}),
+			initialSnapshot: {
+				type: 'initial',
+				source: { messageId: 0, swipeId: 0 },
+			},
+			getChapterSnapshotOnCanonicalPath: () => null,
+		} as any;
+		const candidates: number[][] = [];
+		const retriever: HistoryRetriever = {
+			selectChapters: async (chapters, max) => {
+				candidates.push(chapters.map(ch => ch.index));
+				return chapters.slice(0, max);
+			},
+			selectEvents: async (events, max) => events.slice(-max),
+		};
+
+		const result = await computeOptimalContext({
+			budget: 560, // Only messages 31-34 fit
+			stateTokens: 100,
+			messageTokens: new Map(Array.from({ length: 35 }, (_, i) => [i, 100])),
+			store: mockStore,
+			swipeContext: createMockSwipeContext(),
+			maxPastChapters: 1,
+			maxEvents: 15,
+			totalMessages: 35,
+			tokenCounter: mockTokenCounter,
+			retriever,
+		});
+
+		expect(result.firstMessageInContext).toBe(31);
+		expect(candidates.at(-1)).toEqual([0, 1, 2]);
+		expect(result.pastChapters.map(ch => ch.index)).toEqual([0]);
+	});
+
+	describe('arcs', () => {
+		// Chapters 0-2 end at messages 10, 20 and 30; chapter 3 is current.
+		// Chapters 0-1 are summarized as arc 0.
+		const createArcStore = () =>
+			({
+				getActiveEvents: () => [
+					...[10, 20, 30].map((messageId, chapterIndex) => ({
+						kind: 'chapter',
+						subkind: 'ended',
+						chapterIndex,
+						reason: 'location_change',
+						source: { messageId, swipeId: 0 },
+						timestamp: Date.now(),
+					})),
+					{
+						kind: 'arc',
+						subkind: 'summarized',
+						arcIndex: 0,
+						firstChapter: 0,
+						lastChapter: 1,
+						title: 'The Job',
+						summary: 'Elena and Marcus plan a heist.',
+						source: { messageId: 20, swipeId: 0 },
+						timestamp: Date.now(),
+					},
+				],
+				projectStateAtMessage: () => ({
+					charactersPresent: [],
+					location: { place: '' },
+				}),
+				initialSnapshot: {
+					type: 'initial',
+					source: { messageId: 0, swipeId: 0 },
+				},
+				getChapterSnapshotOnCanonicalPath: () => null,
+			}) as any;
+
+		// Chapters cost 50 tokens, arcs 30, tags nothing
+		const arcTokenCounter = new MockTokenCounter(new Map(), text =>
+			text.startsWith('Chapter ') ? 50 : text.startsWith('Arc ') ? 30 : 0,
+		);
+
+		it('covers chapters beyond the limit with their arc', async () => {
+			const result = await computeOptimalContext({
+				budget: 590, // Messages 31-34 + chapter 2 + arc 0
+				stateTokens: 100,
+				messageTokens: new Map(
+					Array.from({ length: 35 }, (_, i) => [i, 100]),
+				),
+				store: createArcStore(),
+				swipeContext: createMockSwipeContext(),
+				maxPastChapters: 1,
+				maxEvents: 15,
+				totalMessages: 35,
+				tokenCounter: arcTokenCounter,
+			});
+
+			expect(result.firstMessageInContext).toBe(31);
+			expect(result.pastChapters.map(ch => ch.index)).toEqual([2]);
+			expect(result.pastArcs.map(arc => arc.index)).toEqual([0]);
+			expect(result.breakdown.pastArcsTokens).toBe(30);
+		});
+
+		it('replaces chapters with arcs before pushing out messages', async () => {
+			const result = await computeOptimalContext({
+				budget: 600, // Messages 31-34 only fit with chapters 0-1 condensed
+				stateTokens: 100,
+				messageTokens: new Map(
+					Array.from({ length: 35 }, (_, i) => [i, 100]),
+				),
+				store: createArcStore(),
+				swipeContext: createMockSwipeContext(),
+				maxPastChapters: 5,
+				maxEvents: 15,
+				totalMessages: 35,
+				tokenCounter: arcTokenCounter,
+			});
+
+			expect(result.firstMessageInContext).toBe(31);
+			expect(result.pastChapters.map(ch => ch.index)).toEqual([2]);
+			expect(result.pastArcs.map(arc => arc.index)).toEqual([0]);
+			expect(result.totalTokens).toBe(580);
+		});
+
+		it('keeps every chapter when they fit', async () => {
+			const result = await computeOptimalContext({
+				budget: 650,
+				stateTokens: 100,
+				// Message 30 is too long to keep, even with the history condensed
+				messageTokens: new Map(
+					Array.from({ length: 35 }, (_, i) => [
+						i,
+						i === 30 ? 1000 : 100,
+					]),
+				),
+				store: createArcStore(),
+				swipeContext: createMockSwipeContext(),
+				maxPastChapters: 5,
+				maxEvents: 15,
+				totalMessages: 35,
+				tokenCounter: arcTokenCounter,
+			});
+
+			expect(result.firstMessageInContext).toBe(31);
+			expect(result.pastChapters.map(ch => ch.index)).toEqual([0, 1, 2]);
+			expect(result.pastArcs).toEqual([]);
+		});
+	});
 });
 
 // ============================================
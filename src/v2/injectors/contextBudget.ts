@@ -3,20 +3,27 @@
  *
  * Computes the optimal context for injection based on available token budget.
  * Uses an iterative algorithm to fit chapters, events, and messages into context.
+ * Arc summaries stand in for older chapters that are left out.
  */
 
 import type { EventStore } from '../store/EventStore';
 import type { SwipeContext } from '../store/projection';
 import type { TokenCounter } from '../utils/tokenCount';
 import { getDefaultTokenCounter } from '../utils/tokenCount';
-import { formatPastChapter } from './chapters';
+import { formatPastArc, formatPastChapter } from './chapters';
 import { formatEventForInjection, getOutOfContextEvents } from './events';
 import {
 	computeAllChapters,
 	type ComputedChapter,
 	getCurrentChapterIndex,
 } from '../narrative/computeChapters';
+import {
+	computeArcs,
+	type ComputedArc,
+	selectArcsForOmittedChapters,
+} from '../narrative/computeArcs';
 import type { NarrativeEvent } from '../types/snapshot';
+import type { HistoryRetriever } from './retrieval';
 
 /**
  * Result of optimal context computation.
@@ -26,15 +33,20 @@ export interface ContextPlan {
 	firstMessageInContext: number;
 	/** Past chapters to include (completed chapters before current) */
 	pastChapters: ComputedChapter[];
+	/** Arcs to include in place of past chapters that were left out */
+	pastArcs: ComputedArc[];
 	/** Events from current chapter whose messages are out of context */
 	currentChapterEvents: NarrativeEvent[];
 	/** The effective current chapter index based on first message in context */
 	effectiveCurrentChapter: number;
 	/** Total estimated tokens for the planned injection */
 	totalTokens: number;
+	/** Whether the relevance-filtered state (reducedStateTokens) was planned for */
+	reducedState: boolean;
 	/** Token breakdown for debugging */
 	breakdown: {
 		pastChaptersTokens: number;
+		pastArcsTokens: number;
 		currentChapterEventsTokens: number;
 		stateTokens: number;
 	};
@@ -48,6 +60,11 @@ export interface ContextBudgetOptions {
 	budget: number;
 	/** Tokens used by the state injection (time, location, climate, characters, relationships) */
 	stateTokens: number;
+	/**
+	 * Tokens used by the state with relevance filtering, if it may be used when the
+	 * full state doesn't fit. The smaller state is tried before pushing messages out.
+	 */
+	reducedStateTokens?: number;
 	/** Token counts for each message, indexed by message ID */
 	messageTokens: Map<number, number>;
 	/** The event store */
@@ -58,6 +75,8 @@ export interface ContextBudgetOptions {
 	maxPastChapters: number;
 	/** Maximum out-of-context events to include */
 	maxEvents: number;
+	/** Picks chapters and events by relevance (default: the most recent ones) */
+	retriever?: HistoryRetriever;
 	/** Total number of messages in the chat */
 	totalMessages: number;
 	/** Token counter to use (defaults to ST counter) */
@@ -100,6 +119,14 @@ async function getChapterTokenCost(
 	return tokenCounter.countTokens(formatted);
 }
 
+/**
+ * Calculate token cost for an arc.
+ */
+async function getArcTokenCost(arc: ComputedArc, tokenCounter: TokenCounter): Promise<number> {
+	const formatted = formatPastArc(arc);
+	return tokenCounter.countTokens(formatted);
+}
+
 /**
  * Calculate token cost for an event.
  */
@@ -116,8 +143,11 @@ async function getEventTokenCost(
  *
  * Algorithm:
  * 1. Start with all messages in context
- * 2. Iteratively push out oldest messages until we fit in budget
+ * 2. Iteratively push out oldest messages until we fit in budget (if allowed,
+ *    the relevance-filtered state is used before any message is pushed out)
  * 3. When messages are pushed out, we may need to add chapter summaries/events
+ *    (arcs cover older chapters that are left out, and if the history still
+ *    doesn't fit, arcs replace every chapter they cover before a message is pushed out)
  * 4. Repeat until stable
  *
  * @param options - Configuration options
@@ -126,7 +156,8 @@ async function getEventTokenCost(
 export async function computeOptimalContext(options: ContextBudgetOptions): Promise<ContextPlan> {
 	const {
 		budget,
-		stateTokens,
+		stateTokens: fullStateTokens,
+		reducedStateTokens,
 		messageTokens,
 		store,
 		swipeContext,
@@ -134,18 +165,30 @@ export async function computeOptimalContext(options: ContextBudgetOptions): Prom
 		maxEvents,
 		totalMessages,
 		tokenCounter = getDefaultTokenCounter(),
+		retriever,
 	} = options;
 
+	// The filtered state only helps if it's smaller
+	const canReduceState =
+		reducedStateTokens !== undefined && reducedStateTokens < fullStateTokens;
+	// State for plans that drop everything else: as small as allowed
+	const minimalStateTokens = canReduceState ? reducedStateTokens : fullStateTokens;
+
 	// Edge case: no messages
 	if (totalMessages === 0) {
+		const stateTokens =
+			fullStateTokens <= budget ? fullStateTokens : minimalStateTokens;
 		return {
 			firstMessageInContext: 0,
 			pastChapters: [],
+			pastArcs: [],
 			currentChapterEvents: [],
 			effectiveCurrentChapter: 0,
 			totalTokens: stateTokens,
+			reducedState: stateTokens !== fullStateTokens,
 			breakdown: {
 				pastChaptersTokens: 0,
+				pastArcsTokens: 0,
 				currentChapterEventsTokens: 0,
 				stateTokens,
 			},
@@ -166,6 +209,37 @@ export async function computeOptimalContext(options: ContextBudgetOptions): Prom
 		}
 	}
 
+	const allArcs = computeArcs(store, swipeContext);
+	const arcTokenCosts = new Map<number, number>();
+	for (const arc of allArcs) {
+		arcTokenCosts.set(arc.index, await getArcTokenCost(arc, tokenCounter));
+	}
+	const storySoFarTagTokens =
+		allChapters.length > 0 || allArcs.length > 0
+			? await tokenCounter.countTokens('[Story So Far]\n\n[/Story So Far]')
+			: 0;
+
+	// Token cost of the "Story So Far" section (tags go with the chapters if there are any)
+	const getHistoryTokens = (
+		chapters: ComputedChapter[],
+		arcs: ComputedArc[],
+	): { pastChaptersTokens: number; pastArcsTokens: number } => {
+		let pastChaptersTokens = 0;
+		for (const ch of chapters) {
+			pastChaptersTokens += chapterTokenCosts.get(ch.index) ?? 0;
+		}
+		let pastArcsTokens = 0;
+		for (const arc of arcs) {
+			pastArcsTokens += arcTokenCosts.get(arc.index) ?? 0;
+		}
+		if (chapters.length > 0) {
+			pastChaptersTokens += storySoFarTagTokens;
+		} else if (arcs.length > 0) {
+			pastArcsTokens += storySoFarTagTokens;
+		}
+		return { pastChaptersTokens, pastArcsTokens };
+	};
+
 	// Start with all messages in context
 	let firstMessageInContext = 0;
 	let previousFirstMessage = -1; // Track for convergence detection
@@ -188,23 +262,36 @@ export async function computeOptimalContext(options: ContextBudgetOptions): Prom
 		);
 
 		// 2. Calculate past chapters to include (chapters < effectiveCurrentChapter)
-		const pastChapters = allChapters
-			.filter(ch => ch.endReason !== null && ch.index < effectiveCurrentChapter)
-			.slice(-maxPastChapters);
+		const completedChapters = allChapters.filter(
+			ch => ch.endReason !== null && ch.index < effectiveCurrentChapter,
+		);
+		let pastChapters = retriever
+			? await retriever.selectChapters(completedChapters, maxPastChapters)
+			: completedChapters.slice(-maxPastChapters);
+		// Arcs for the older chapters that didn't make the cut
+		let pastArcs = selectArcsForOmittedChapters(
+			allArcs,
+			completedChapters,
+			pastChapters,
+			effectiveCurrentChapter,
+		);
 
 		// 3. Calculate out-of-context events from current chapter
-		const outOfContextEvents = getOutOfContextEvents(
+		const chapterEvents = getOutOfContextEvents(
 			store,
 			swipeContext,
 			effectiveCurrentChapter,
 			firstMessageInContext,
-		).slice(-maxEvents);
+		);
+		const outOfContextEvents = retriever
+			? await retriever.selectEvents(chapterEvents, maxEvents)
+			: chapterEvents.slice(-maxEvents);
 
 		// 4. Calculate token costs
-		let pastChaptersTokens = 0;
-		for (const ch of pastChapters) {
-			pastChaptersTokens += chapterTokenCosts.get(ch.index) ?? 0;
-		}
+		let { pastChaptersTokens, pastArcsTokens } = getHistoryTokens(
+			pastChapters,
+			pastArcs,
+		);
 
 		let currentChapterEventsTokens = 0;
 		for (const event of outOfContextEvents) {
@@ -212,12 +299,6 @@ export async function computeOptimalContext(options: ContextBudgetOptions): Prom
 		}
 
 		// Add section tags overhead
-		if (pastChapters.length > 0) {
-			// [Story So Far] ... [/Story So Far] tags
-			pastChaptersTokens += await tokenCounter.countTokens(
-				'[Story So Far]\n\n[/Story So Far]',
-			);
-		}
 		if (outOfContextEvents.length > 0) {
 			// [Recent Events] ... [/Recent Events] tags
 			currentChapterEventsTokens += await tokenCounter.countTokens(
@@ -231,12 +312,44 @@ export async function computeOptimalContext(options: ContextBudgetOptions): Prom
 			messageTokensTotal += messageTokens.get(i) ?? 0;
 		}
 
-		// 6. Total cost
-		const totalCost =
-			stateTokens +
+		// 6. Total cost, with the full state and (if allowed) the filtered one
+		let otherCost =
 			pastChaptersTokens +
+			pastArcsTokens +
 			currentChapterEventsTokens +
 			messageTokensTotal;
+		let stateTokens = fullStateTokens;
+		if (fullStateTokens + otherCost > budget && canReduceState) {
+			stateTokens = reducedStateTokens;
+		}
+
+		// Still over budget: condense the history, with arcs in place of the chapters they cover
+		if (stateTokens + otherCost > budget) {
+			const condensedArcs = allArcs.filter(
+				arc => arc.lastChapter < effectiveCurrentChapter,
+			);
+			const condensedChapters = pastChapters.filter(
+				ch =>
+					!condensedArcs.some(
+						arc =>
+							ch.index >= arc.firstChapter &&
+							ch.index <= arc.lastChapter,
+					),
+			);
+			const condensed = getHistoryTokens(condensedChapters, condensedArcs);
+			const condensedCost =
+				condensed.pastChaptersTokens +
+				condensed.pastArcsTokens +
+				currentChapterEventsTokens +
+				messageTokensTotal;
+			if (condensedCost < otherCost) {
+				pastChapters = condensedChapters;
+				pastArcs = condensedArcs;
+				({ pastChaptersTokens, pastArcsTokens } = condensed);
+				otherCost = condensedCost;
+			}
+		}
+		const totalCost = stateTokens + otherCost;
 
 		// 7. Check if we're within budget
 		if (totalCost <= budget) {
@@ -244,11 +357,14 @@ export async function computeOptimalContext(options: ContextBudgetOptions): Prom
 			return {
 				firstMessageInContext,
 				pastChapters,
+				pastArcs,
 				currentChapterEvents: outOfContextEvents,
 				effectiveCurrentChapter,
 				totalTokens: totalCost,
+				reducedState: stateTokens !== fullStateTokens,
 				breakdown: {
 					pastChaptersTokens,
+					pastArcsTokens,
 					currentChapterEventsTokens,
 					stateTokens,
 				},
@@ -264,13 +380,16 @@ export async function computeOptimalContext(options: ContextBudgetOptions): Prom
 			return {
 				firstMessageInContext: totalMessages,
 				pastChapters: [],
+				pastArcs: [],
 				currentChapterEvents: [],
 				effectiveCurrentChapter: currentChapterIndex,
-				totalTokens: stateTokens,
+				totalTokens: minimalStateTokens,
+				reducedState: canReduceState,
 				breakdown: {
 					pastChaptersTokens: 0,
+					pastArcsTokens: 0,
 					currentChapterEventsTokens: 0,
-					stateTokens,
+					stateTokens: minimalStateTokens,
 				},
 			};
 		}
@@ -281,13 +400,16 @@ export async function computeOptimalContext(options: ContextBudgetOptions): Prom
 	return {
 		firstMessageInContext,
 		pastChapters: [],
+		pastArcs: [],
 		currentChapterEvents: [],
 		effectiveCurrentChapter: currentChapterIndex,
-		totalTokens: stateTokens,
+		totalTokens: minimalStateTokens,
+		reducedState: canReduceState,
 		breakdown: {
 			pastChaptersTokens: 0,
+			pastArcsTokens: 0,
 			currentChapterEventsTokens: 0,
-			stateTokens,
+			stateTokens: minimalStateTokens,
 		},
 	};
 }
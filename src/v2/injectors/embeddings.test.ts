@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleEmbeddings, cosineSimilarity, getEmbeddingsUrl } from './embeddings';
+
+interface RecordedRequest {
+	url: string;
+	headers: IncomingMessage['headers'];
+	body: { model?: string; input?: string[] };
+}
+
+type StubHandler = (req: RecordedRequest, res: ServerResponse) => void;
+
+function sendJson(res: ServerResponse, status: number, data: unknown): void {
+	res.writeHead(status, { 'Content-Type': 'application/json' });
+	res.end(JSON.stringify(data));
+}
+
+/** Answer with a vector per input: [length of the text, 1], in reverse order */
+const reversedVectors: StubHandler = (req, res) => {
+	const input = req.body.input ?? [];
+	sendJson(res, 200, {
+		data: input
+			.map((text, index) => ({ index, embedding: [text.length, 1] }))
+			.reverse(),
+	});
+};
+
+describe('getEmbeddingsUrl', () => {
+	it('appends /embeddings, tolerating a trailing slash', () => {
+		expect(getEmbeddingsUrl('http://localhost:11434/v1/')).toBe(
+			'http://localhost:11434/v1/embeddings',
+		);
+	});
+});
+
+describe('cosineSimilarity', () => {
+	it('compares directions', () => {
+		expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+		expect(cosineSimilarity([1, 0], [0, 3])).toBeCloseTo(0);
+		expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+	});
+
+	it('is 0 for zero vectors', () => {
+		expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+	});
+});
+
+describe('OpenAICompatibleEmbeddings', () => {
+	let server: Server;
+	let baseUrl: string;
+	let requests: RecordedRequest[];
+	let handler: StubHandler;
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			let raw = '';
+			req.on('data', chunk => (raw += chunk));
+			req.on('end', () => {
+				const recorded = {
+					url: req.url ?? '',
+					headers: req.headers,
+					body: JSON.parse(raw || '{}') as RecordedRequest['body'],
+				};
+				requests.push(recorded);
+				handler(recorded, res);
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+	});
+
+	afterAll(async () => {
+		server.closeAllConnections();
+		await new Promise<void>(resolve => server.close(() => resolve()));
+	});
+
+	beforeEach(() => {
+		requests = [];
+		handler = reversedVectors;
+	});
+
+	function createProvider(apiKey = '') {
+		return new OpenAICompatibleEmbeddings({
+			embeddingsBaseUrl: baseUrl,
+			embeddingsModel: 'nomic-embed-text',
+			embeddingsApiKey: apiKey,
+		});
+	}
+
+	it('requests the model with the texts and the API key', async () => {
+		await createProvider('secret').embed(['one']);
+
+		expect(requests[0].url).toBe('/v1/embeddings');
+		expect(requests[0].body).toEqual({ model: 'nomic-embed-text', input: ['one'] });
+		expect(requests[0].headers.authorization).toBe('Bearer secret');
+	});
+
+	it('returns vectors in the order of the texts', async () => {
+		expect(await createProvider().embed(['a', 'bbb'])).toEqual([
+			[1, 1],
+			[3, 1],
+		]);
+	});
+
+	it('only requests texts it has not embedded before', async () => {
+		const provider = createProvider();
+		await provider.embed(['a', 'bb']);
+
+		expect(await provider.embed(['bb', 'ccc', 'ccc'])).toEqual([
+			[2, 1],
+			[3, 1],
+			[3, 1],
+		]);
+		expect(requests[1].body.input).toEqual(['ccc']);
+	});
+
+	it('throws with the API error message', async () => {
+		handler = (_req, res) =>
+			sendJson(res, 404, { error: { message: 'model not found' } });
+
+		await expect(createProvider().embed(['a'])).rejects.toThrow(
+			'Embeddings request failed with status 404: model not found',
+		);
+	});
+
+	it('throws when vectors are missing', async () => {
+		handler = (_req, res) => sendJson(res, 200, { data: [] });
+
+		await expect(createProvider().embed(['a'])).rejects.toThrow('missing the vector');
+	});
+});
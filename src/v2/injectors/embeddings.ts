@@ -0,0 +1,152 @@
+/**
+ * Embeddings
+ *
+ * Optional embedding backend for history retrieval: any OpenAI-compatible
+ * `/embeddings` endpoint, typically a local Ollama or llama.cpp server.
+ * Vectors are cached in memory by text, so chapters and events are only
+ * embedded once per session.
+ */
+
+import type { V2HistoryRetrievalSettings } from '../settings/types';
+
+/**
+ * Something that turns texts into vectors.
+ */
+export interface EmbeddingProvider {
+	/** Embed the texts, returning one vector per text in the same order */
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Shape of an embeddings response (only the fields we read).
+ */
+interface EmbeddingsResponse {
+	data?: { index?: number; embedding?: unknown }[];
+	error?: { message?: string };
+}
+
+/**
+ * Where to get embeddings from.
+ */
+type EmbeddingsConfig = Pick<
+	V2HistoryRetrievalSettings,
+	'embeddingsBaseUrl' | 'embeddingsModel' | 'embeddingsApiKey'
+>;
+
+/** Vectors kept in memory per provider */
+const MAX_CACHED_VECTORS = 2000;
+/** Give up on a request after this long; generation is waiting on it */
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Build the embeddings URL from a base URL, tolerating a trailing slash.
+ */
+export function getEmbeddingsUrl(baseUrl: string): string {
+	return `${baseUrl.trim().replace(/\/+$/, '')}/embeddings`;
+}
+
+/**
+ * Cosine similarity of two vectors (0 if either is empty or zero).
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+	const length = Math.min(a.length, b.length);
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	if (normA === 0 || normB === 0) return 0;
+	return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Embedding provider for an OpenAI-compatible API, with an in-memory cache.
+ */
+export class OpenAICompatibleEmbeddings implements EmbeddingProvider {
+	private readonly config: EmbeddingsConfig;
+	private readonly cache = new Map<string, number[]>();
+
+	constructor(config: EmbeddingsConfig) {
+		this.config = config;
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		const missing = [...new Set(texts.filter(text => !this.cache.has(text)))];
+		if (missing.length > 0) {
+			const vectors = await this.request(missing);
+			missing.forEach((text, i) => this.remember(text, vectors[i]));
+		}
+		return texts.map(text => this.cache.get(text)!);
+	}
+
+	private async request(input: string[]): Promise<number[][]> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (this.config.embeddingsApiKey) {
+			headers.Authorization = `Bearer ${this.config.embeddingsApiKey}`;
+		}
+
+		const response = await fetch(getEmbeddingsUrl(this.config.embeddingsBaseUrl), {
+			method: 'POST',
+			headers,
+			body: JSON.stringify({ model: this.config.embeddingsModel, input }),
+			signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+		});
+
+		const data = (await response.json().catch(() => ({}))) as EmbeddingsResponse;
+		if (!response.ok) {
+			throw new Error(
+				`Embeddings request failed with status ${response.status}: ` +
+					(data.error?.message ?? response.statusText),
+			);
+		}
+
+		// Entries may come back out of order; `index` says where each belongs
+		const vectors: number[][] = [];
+		(data.data ?? []).forEach((entry, i) => {
+			if (Array.isArray(entry.embedding)) {
+				vectors[entry.index ?? i] = entry.embedding as number[];
+			}
+		});
+		for (let i = 0; i < input.length; i++) {
+			if (!vectors[i]) {
+				throw new Error(
+					`Embeddings response is missing the vector for text ${i}`,
+				);
+			}
+		}
+		return vectors.slice(0, input.length);
+	}
+
+	private remember(text: string, vector: number[]): void {
+		if (this.cache.size >= MAX_CACHED_VECTORS) {
+			// Maps iterate in insertion order: drop the oldest
+			this.cache.delete(this.cache.keys().next().value!);
+		}
+		this.cache.set(text, vector);
+	}
+}
+
+let cachedProvider: { key: string; provider: EmbeddingProvider } | null = null;
+
+/**
+ * Get the embedding provider for the settings, or null if embeddings are off.
+ * The provider (and its cache) is reused while the configuration is unchanged.
+ */
+export function getEmbeddingProvider(
+	settings: V2HistoryRetrievalSettings,
+): EmbeddingProvider | null {
+	if (!settings.embeddings || !settings.embeddingsBaseUrl.trim()) return null;
+
+	const key = JSON.stringify([
+		settings.embeddingsBaseUrl,
+		settings.embeddingsModel,
+		settings.embeddingsApiKey,
+	]);
+	if (cachedProvider?.key !== key) {
+		cachedProvider = { key, provider: new OpenAICompatibleEmbeddings(settings) };
+	}
+	return cachedProvider.provider;
+}
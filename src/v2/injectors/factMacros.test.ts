@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import { FACT_MACROS, type FactMacroContext } from './factMacros';
+import { EventStore } from '../store/EventStore';
+import { createSwipeContext } from '../store/projection';
+import type { Event } from '../types/event';
+import {
+	createEmptySnapshot,
+	createEmptyCharacterState,
+	createEmptyRelationshipState,
+	type Snapshot,
+} from '../types/snapshot';
+
+function createInitialSnapshot(): Snapshot {
+	const snapshot = createEmptySnapshot({ messageId: 1, swipeId: 0 });
+	snapshot.time = '2024-06-14T21:30:00';
+	snapshot.location = {
+		area: 'Town',
+		place: 'Tavern',
+		position: 'bar',
+		props: ['mug', 'candle'],
+		locationType: 'heated',
+	};
+	snapshot.scene = {
+		topic: 'greetings',
+		tone: 'warm',
+		tension: { level: 'aware', type: 'conversation', direction: 'escalating' },
+	};
+	snapshot.characters = {
+		Alice: {
+			...createEmptyCharacterState('Alice'),
+			mood: ['calm', 'curious'],
+			akas: ['Ally'],
+			outfit: {
+				...createEmptyCharacterState('Alice').outfit,
+				torso: 'blue dress',
+				legs: 'tights',
+			},
+		},
+		Bob: { ...createEmptyCharacterState('Bob'), mood: ['tired'] },
+	};
+	const relationship = createEmptyRelationshipState(['Alice', 'Bob']);
+	relationship.status = 'friendly';
+	relationship.aToB.feelings = ['fond'];
+	snapshot.relationships = { 'Alice|Bob': relationship };
+	snapshot.forecasts = {
+		Town: {
+			locationId: 'town',
+			startDate: '2024-06-14',
+			days: [
+				{
+					date: '2024-06-14',
+					high: 71.6,
+					low: 55.2,
+					sunrise: 5.5,
+					sunset: 21,
+					hourly: [],
+					dominantCondition: 'clear',
+				},
+				{
+					date: '2024-06-15',
+					high: 64,
+					low: 50,
+					sunrise: 5.5,
+					sunset: 21,
+					hourly: [],
+					dominantCondition: 'rain',
+				},
+			],
+		},
+	};
+	return snapshot;
+}
+
+function base(id: string, messageId: number) {
+	return { id, source: { messageId, swipeId: 0 }, timestamp: messageId };
+}
+
+function createContext(): FactMacroContext {
+	const store = new EventStore();
+	store.replaceInitialSnapshot(createInitialSnapshot());
+	const events: Event[] = [
+		{
+			...base('described', 2),
+			kind: 'chapter',
+			subkind: 'described',
+			chapterIndex: 0,
+			title: 'Arrival',
+			summary: 'Alice reaches town.',
+		},
+		{
+			...base('ended', 2),
+			kind: 'chapter',
+			subkind: 'ended',
+			chapterIndex: 0,
+			reason: 'location_change',
+		},
+		{
+			...base('scene-ended', 2),
+			kind: 'scene',
+			subkind: 'ended',
+			sceneIndex: 0,
+			chapterIndex: 0,
+			reasons: ['location_change'],
+		},
+		{
+			...base('scene-described', 2),
+			kind: 'scene',
+			subkind: 'described',
+			sceneIndex: 0,
+			title: 'The Road In',
+			summary: 'Alice walks into town.',
+		},
+	];
+	store.appendEvents(events);
+	const swipeContext = createSwipeContext(Array.from({ length: 4 }, () => ({ swipe_id: 0 })));
+	return {
+		projection: store.projectStateAtMessage(3, swipeContext),
+		store,
+		swipeContext,
+		timeFormat: '24h',
+	};
+}
+
+function resolveWith(context: FactMacroContext, name: string, ...args: string[]): string {
+	const definition = FACT_MACROS.find(m => m.name === name)!;
+	return definition.resolve(
+		context,
+		definition.args.map((_, i) => args[i]),
+	);
+}
+
+function resolve(name: string, ...args: string[]): string {
+	return resolveWith(createContext(), name, ...args);
+}
+
+describe('FACT_MACROS', () => {
+	it('lists examples for every macro', () => {
+		for (const macro of FACT_MACROS) {
+			expect(macro.examples.length).toBeGreaterThan(0);
+			expect(macro.examples.every(e => e.startsWith(`{{${macro.name}`))).toBe(
+				true,
+			);
+		}
+	});
+
+	it('formats the time with presets, moment formats and the default', () => {
+		expect(resolve('btTime', 'time')).toBe('21:30');
+		expect(resolve('btTime', 'dddd')).toBe('Friday');
+		expect(resolve('btTime')).toContain('Friday, June 14, 2024');
+	});
+
+	it('formats the time on the custom calendar', () => {
+		const definition = FACT_MACROS.find(m => m.name === 'btTime')!;
+		const context = {
+			...createContext(),
+			calendar: {
+				months: [{ name: 'Frostfall', days: 30 }],
+				weekdays: ['Morndas', 'Tirdas', 'Middas'],
+				epochLabel: '3E',
+			},
+		};
+
+		expect(definition.resolve(context, ['time'])).toBe('21:30');
+		expect(definition.resolve(context, ['month'])).toBe('Frostfall');
+		expect(definition.resolve(context, ['year'])).toMatch(/^3E \d+$/);
+	});
+
+	it('resolves character facts by name or nickname, ignoring case', () => {
+		expect(resolve('btOutfit', 'alice')).toBe('blue dress, tights');
+		expect(resolve('btMood', 'Ally')).toBe('calm, curious');
+		expect(resolve('btMood')).toBe('Alice: calm, curious\nBob: tired');
+	});
+
+	it('returns an empty string for unknown names and arguments', () => {
+		expect(resolve('btOutfit', 'Zed')).toBe('');
+		expect(resolve('btRelationship', 'Alice', 'Zed')).toBe('');
+		expect(resolve('btTension', 'color')).toBe('');
+		expect(resolve('btChapter', '7')).toBe('');
+		expect(resolve('btScene', '7')).toBe('');
+		expect(resolve('btWeather', 'someday')).toBe('');
+	});
+
+	it('resolves relationships for a pair in either order', () => {
+		const relationship = resolve('btRelationship', 'Bob', 'Alice');
+		expect(relationship).toContain('Alice & Bob: friendly');
+		expect(relationship).toContain('Alice → Bob: feels fond');
+		expect(resolve('btRelationship', 'Alice')).toBe(relationship);
+	});
+
+	it('resolves props and tension', () => {
+		expect(resolve('btProps')).toBe('mug, candle');
+		expect(resolve('btTension')).toBe('aware (conversation, escalating)');
+		expect(resolve('btTension', 'direction')).toBe('escalating');
+	});
+
+	it('resolves chapters by number, defaulting to the last finished one', () => {
+		expect(resolve('btChapter', '1')).toBe('Chapter 1: Arrival\n  Alice reaches town.');
+		expect(resolve('btChapter')).toBe(resolve('btChapter', '1'));
+	});
+
+	it('resolves scenes by number, defaulting to the last finished one', () => {
+		expect(resolve('btScene', '1')).toBe(
+			'Scene 1: The Road In\n  Alice walks into town.',
+		);
+		expect(resolve('btScene')).toBe(resolve('btScene', '1'));
+		// The scene in progress has no title or summary yet
+		expect(resolve('btScene', '2')).toBe('Scene 2: Scene 2');
+	});
+
+	it('resolves the forecast for a day ahead', () => {
+		expect(resolve('btWeather', 'tomorrow')).toMatch(/, high 64°F, low 50°F$/);
+		expect(resolve('btWeather', 'today')).toMatch(/, high 72°F, low 55°F$/);
+		expect(resolve('btWeather', '5')).toBe('');
+	});
+});
+
+describe('btWeather with scripted weather', () => {
+	it('uses an override covering midday instead of the forecast', () => {
+		const context = createContext();
+		const tomorrowNoon = context.projection.time!.clone().add(1, 'day').hour(12);
+		context.projection.weatherOverrides = [
+			{
+				areaName: 'Town',
+				startTime: tomorrowNoon.clone().subtract(3, 'hours').toISOString(),
+				endTime: tomorrowNoon.clone().add(3, 'hours').toISOString(),
+				condition: 'snow',
+				temperature: 28,
+			},
+		];
+
+		expect(resolveWith(context, 'btWeather', 'tomorrow')).toMatch(/, around 28°F$/);
+		expect(resolveWith(context, 'btWeather', 'today')).toMatch(
+			/, high 72°F, low 55°F$/,
+		);
+	});
+});
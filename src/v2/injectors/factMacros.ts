@@ -0,0 +1,353 @@
+/**
+ * Fine-Grained Fact Macros
+ *
+ * Definitions for the parameterised BlazeTracker macros ({{btTime::format}},
+ * {{btOutfit::Alice}}, {{btRelationship::Alice::Bob}}, ...), which let preset
+ * authors place individual facts from the current projection anywhere in
+ * their prompts. Each macro resolves to an empty string when the fact is
+ * unknown (untracked, no such character, chapter not reached yet).
+ */
+
+import type { EventStore } from '../store/EventStore';
+import type { SwipeContext } from '../store/projection';
+import type { Projection, CharacterState, RelationshipState } from '../types/snapshot';
+import { computeAllChapters } from '../narrative/computeChapters';
+import { computeScenes } from '../narrative/computeScenes';
+import { describeCondition } from '../../weather/weatherDeriver';
+import { findActiveWeatherOverride } from '../store/climateComputation';
+import { formatPastChapter, formatScene } from './chapters';
+import { formatTime, formatClimate, formatOutfit, formatRelationship } from './state';
+import type { CalendarDefinition } from '../../utils/calendar';
+import { formatMoment } from '../../utils/dateFormat';
+
+/**
+ * Everything a fact macro resolves against.
+ */
+export interface FactMacroContext {
+	projection: Projection;
+	store: EventStore;
+	swipeContext: SwipeContext;
+	/** Time display format from settings */
+	timeFormat: '12h' | '24h';
+	/** Custom calendar of the current character (omitted or null = Gregorian) */
+	calendar?: CalendarDefinition | null;
+}
+
+/**
+ * An argument of a fact macro (separated by "::" in the macro).
+ */
+export interface FactMacroArgument {
+	name: string;
+	description: string;
+	optional: boolean;
+}
+
+/**
+ * A parameterised macro.
+ */
+export interface FactMacroDefinition {
+	/** Macro name as written in prompts */
+	name: string;
+	description: string;
+	args: FactMacroArgument[];
+	/** Example uses shown in the macro help */
+	examples: string[];
+	/** Resolve the macro; missing optional args are undefined */
+	resolve(context: FactMacroContext, args: Array<string | undefined>): string;
+}
+
+// ============================================
+// Lookup Helpers
+// ============================================
+
+function sameName(a: string, b: string): boolean {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Find a tracked character by name or nickname (case-insensitive).
+ */
+function findCharacter(projection: Projection, name: string): CharacterState | null {
+	const characters = Object.values(projection.characters);
+	return (
+		characters.find(c => sameName(c.name, name)) ??
+		characters.find(c => c.akas.some(aka => sameName(aka, name))) ??
+		null
+	);
+}
+
+function presentCharacters(projection: Projection): CharacterState[] {
+	return projection.charactersPresent
+		.map(name => projection.characters[name])
+		.filter((c): c is CharacterState => !!c);
+}
+
+/**
+ * Resolve a per-character fact for one named character, or for everyone
+ * present as "Name: fact" lines when no name is given.
+ */
+function perCharacter(
+	projection: Projection,
+	name: string | undefined,
+	fact: (character: CharacterState) => string,
+): string {
+	if (name) {
+		const character = findCharacter(projection, name);
+		return character ? fact(character) : '';
+	}
+	return presentCharacters(projection)
+		.map(character => ({ name: character.name, value: fact(character) }))
+		.filter(entry => entry.value)
+		.map(entry => `${entry.name}: ${entry.value}`)
+		.join('\n');
+}
+
+function involves(relationship: RelationshipState, character: CharacterState): boolean {
+	return relationship.pair.some(member => sameName(member, character.name));
+}
+
+const TIME_PRESETS: Record<string, (timeFormat: '12h' | '24h') => string> = {
+	time: timeFormat => (timeFormat === '24h' ? 'HH:mm' : 'h:mm A'),
+	date: () => 'MMMM D, YYYY',
+	weekday: () => 'dddd',
+	month: () => 'MMMM',
+	year: () => 'YYYY',
+};
+
+/**
+ * Turn a weather day argument ("today", "tomorrow", "3") into days from now.
+ */
+function parseDayOffset(day: string): number | null {
+	const normalized = day.trim().toLowerCase();
+	if (normalized === 'today') return 0;
+	if (normalized === 'tomorrow') return 1;
+	const offset = Number(normalized);
+	return Number.isInteger(offset) && offset >= 0 ? offset : null;
+}
+
+// ============================================
+// Definitions
+// ============================================
+
+export const FACT_MACROS: FactMacroDefinition[] = [
+	{
+		name: 'btTime',
+		description: 'Current story time',
+		args: [
+			{
+				name: 'format',
+				description:
+					'time, date, weekday, month, year or a moment.js format string (default: full date and time)',
+				optional: true,
+			},
+		],
+		examples: ['{{btTime}}', '{{btTime::time}}', '{{btTime::dddd [evening]}}'],
+		resolve({ projection, timeFormat, calendar }, [format]) {
+			const { time } = projection;
+			if (!time) return '';
+			if (!format)
+				return formatTime(time, projection.climate?.daylight, calendar);
+			const preset = TIME_PRESETS[format.trim().toLowerCase()];
+			return formatMoment(time, preset ? preset(timeFormat) : format, calendar);
+		},
+	},
+	{
+		name: 'btOutfit',
+		description: 'What a character is wearing (everyone present if no name is given)',
+		args: [{ name: 'character', description: 'Character name', optional: true }],
+		examples: ['{{btOutfit::Alice}}', '{{btOutfit::{{char}}}}', '{{btOutfit}}'],
+		resolve({ projection }, [name]) {
+			return perCharacter(projection, name, character =>
+				formatOutfit(character.outfit),
+			);
+		},
+	},
+	{
+		name: 'btMood',
+		description: "A character's current mood (everyone present if no name is given)",
+		args: [{ name: 'character', description: 'Character name', optional: true }],
+		examples: ['{{btMood::Alice}}', '{{btMood::{{user}}}}', '{{btMood}}'],
+		resolve({ projection }, [name]) {
+			return perCharacter(projection, name, character =>
+				character.mood.join(', '),
+			);
+		},
+	},
+	{
+		name: 'btRelationship',
+		description:
+			'Relationship between two characters, every relationship of one character, or every relationship between present characters',
+		args: [
+			{ name: 'character', description: 'First character', optional: true },
+			{ name: 'other', description: 'Second character', optional: true },
+		],
+		examples: [
+			'{{btRelationship::Alice::Bob}}',
+			'{{btRelationship::{{char}}}}',
+			'{{btRelationship}}',
+		],
+		resolve({ projection }, [first, second]) {
+			const relationships = Object.values(projection.relationships);
+			let matching: RelationshipState[];
+			if (first) {
+				const a = findCharacter(projection, first);
+				const b = second ? findCharacter(projection, second) : null;
+				if (!a || (second && !b)) return '';
+				matching = relationships.filter(
+					rel => involves(rel, a) && (!b || involves(rel, b)),
+				);
+			} else {
+				const present = presentCharacters(projection);
+				matching = relationships.filter(rel =>
+					rel.pair.every(member =>
+						present.some(c => sameName(c.name, member)),
+					),
+				);
+			}
+			return matching.map(rel => formatRelationship(rel, true)).join('\n\n');
+		},
+	},
+	{
+		name: 'btProps',
+		description: 'Notable objects at the current location',
+		args: [],
+		examples: ['{{btProps}}'],
+		resolve({ projection }) {
+			return projection.location?.props.join(', ') ?? '';
+		},
+	},
+	{
+		name: 'btTension',
+		description: 'Scene tension (or one part of it)',
+		args: [
+			{
+				name: 'part',
+				description: 'level, type or direction (default: all three)',
+				optional: true,
+			},
+		],
+		examples: ['{{btTension}}', '{{btTension::level}}'],
+		resolve({ projection }, [part]) {
+			const tension = projection.scene?.tension;
+			if (!tension) return '';
+			switch (part?.trim().toLowerCase()) {
+				case undefined:
+				case '':
+					return `${tension.level} (${tension.type}, ${tension.direction})`;
+				case 'level':
+					return tension.level;
+				case 'type':
+					return tension.type;
+				case 'direction':
+					return tension.direction;
+				default:
+					return '';
+			}
+		},
+	},
+	{
+		name: 'btChapter',
+		description: 'Title and summary of a chapter (the last finished one by default)',
+		args: [
+			{
+				name: 'number',
+				description: 'Chapter number, starting at 1',
+				optional: true,
+			},
+		],
+		examples: ['{{btChapter}}', '{{btChapter::3}}'],
+		resolve({ projection, store, swipeContext }, [number]) {
+			const chapters = computeAllChapters(store, swipeContext).filter(
+				chapter => chapter.index <= projection.currentChapter,
+			);
+			if (!number) {
+				const finished = chapters.filter(
+					chapter => chapter.endReason !== null,
+				);
+				const last = finished[finished.length - 1];
+				return last ? formatPastChapter(last) : '';
+			}
+			const index = Number(number.trim()) - 1;
+			const chapter = chapters.find(c => c.index === index);
+			return chapter ? formatPastChapter(chapter) : '';
+		},
+	},
+	{
+		name: 'btScene',
+		description: 'Title and summary of a scene (the last finished one by default)',
+		args: [
+			{
+				name: 'number',
+				description: 'Scene number, starting at 1',
+				optional: true,
+			},
+		],
+		examples: ['{{btScene}}', '{{btScene::4}}'],
+		resolve({ projection, store, swipeContext }, [number]) {
+			const messageId = projection.source.messageId;
+			const scenes = computeScenes(store, swipeContext).filter(
+				scene => scene.startMessageId <= messageId,
+			);
+			if (!number) {
+				const finished = scenes.filter(
+					scene =>
+						scene.endedAtMessage !== null &&
+						scene.endedAtMessage.messageId <= messageId,
+				);
+				const last = finished[finished.length - 1];
+				return last ? formatScene(last) : '';
+			}
+			const index = Number(number.trim()) - 1;
+			const scene = scenes.find(s => s.index === index);
+			return scene ? formatScene(scene) : '';
+		},
+	},
+	{
+		name: 'btWeather',
+		description: 'Current weather, or the forecast for a day at the current location',
+		args: [
+			{
+				name: 'day',
+				description:
+					'today, tomorrow or a number of days ahead (default: right now)',
+				optional: true,
+			},
+		],
+		examples: ['{{btWeather}}', '{{btWeather::tomorrow}}', '{{btWeather::3}}'],
+		resolve({ projection }, [day]) {
+			if (!day) {
+				return projection.climate ? formatClimate(projection.climate) : '';
+			}
+			const offset = parseDayOffset(day);
+			const area = projection.location?.area;
+			const forecast = area ? projection.forecasts[area] : undefined;
+			if (offset === null || !area || !forecast || !projection.time) return '';
+
+			const date = projection.time
+				.clone()
+				.add(offset, 'days')
+				.format('YYYY-MM-DD');
+			const forecastDay = forecast.days.find(d => d.date === date);
+			if (!forecastDay) return '';
+
+			// Scripted weather covering midday replaces the forecast for the day
+			const noon = projection.time.clone().add(offset, 'days').hour(12).minute(0);
+			const active = findActiveWeatherOverride(
+				projection.weatherOverrides,
+				area,
+				noon,
+			);
+			const override = active?.weight === 1 ? active.override : null;
+
+			// Always the first description, so the prompt doesn't change between calls
+			const conditions = describeCondition(
+				override?.condition ?? forecastDay.dominantCondition,
+				() => 0,
+			);
+			if (override?.temperature !== undefined) {
+				return `${conditions}, around ${Math.round(override.temperature)}°F`;
+			}
+			return `${conditions}, high ${Math.round(forecastDay.high)}°F, low ${Math.round(forecastDay.low)}°F`;
+		},
+	},
+];
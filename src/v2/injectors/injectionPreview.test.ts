@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import {
+	describePlacement,
+	formatInjectionPreview,
+	type InjectionPreview,
+} from './injectionPreview';
+import type { ComputedChapter } from '../narrative/computeChapters';
+import type { NarrativeEvent } from '../types/snapshot';
+
+function createChapter(index: number, title: string): ComputedChapter {
+	return {
+		index,
+		title,
+		summary: '',
+		endReason: 'location_change',
+		endedAtMessage: { messageId: index * 10 + 9, swipeId: 0 },
+		startMessageId: index * 10,
+		eventCount: 0,
+		milestones: [],
+		narrativeEvents: [],
+		startTime: null,
+		endTime: null,
+	};
+}
+
+function createEvent(messageId: number, description: string): NarrativeEvent {
+	return {
+		source: { messageId, swipeId: 0 },
+		description,
+		tension: { level: 'aware', type: 'conversation' },
+		witnesses: [],
+		subjects: [],
+		location: '',
+		chapterIndex: 1,
+		narrativeTime: null,
+	};
+}
+
+function createPreview(overrides: Partial<InjectionPreview> = {}): InjectionPreview {
+	return {
+		tokenCounter: 'SillyTavern',
+		maxBudget: 8000,
+		fixedTokens: 1200,
+		availableBudget: 6800,
+		totalMessages: 40,
+		firstMessageInContext: 25,
+		firstMessageId: 27,
+		reducedState: false,
+		totalTokens: 6500,
+		breakdown: {
+			pastChaptersTokens: 120,
+			pastArcsTokens: 0,
+			currentChapterEventsTokens: 40,
+			stateTokens: 300,
+		},
+		sections: [
+			{
+				section: 'chapters',
+				placement: { position: 'beforeHistory', depth: 0, role: 'system' },
+				tokens: 120,
+			},
+			{
+				section: 'scene',
+				placement: { position: 'atDepth', depth: 4, role: 'system' },
+				tokens: 0,
+			},
+		],
+		blocks: [
+			{
+				placement: { position: 'beforeHistory', depth: 0, role: 'system' },
+				sections: ['chapters'],
+				content: '[Story So Far]\nChapter 2: The Road',
+				tokens: 125,
+			},
+		],
+		includedChapters: [createChapter(1, 'The Road')],
+		droppedChapters: [createChapter(0, 'The Tavern')],
+		includedArcs: [],
+		includedEvents: [createEvent(12, 'Bob buys a sword')],
+		droppedEvents: [],
+		...overrides,
+	};
+}
+
+describe('describePlacement', () => {
+	it('describes each position with its role', () => {
+		expect(describePlacement({ position: 'system', depth: 0, role: 'system' })).toBe(
+			'System prompt',
+		);
+		expect(describePlacement({ position: 'atDepth', depth: 4, role: 'user' })).toBe(
+			'At depth 4 (user)',
+		);
+		expect(
+			describePlacement({
+				position: 'afterLastUser',
+				depth: 0,
+				role: 'assistant',
+			}),
+		).toBe('After last user message (assistant)');
+	});
+});
+
+describe('formatInjectionPreview', () => {
+	it('reports the budget, sections, history and blocks', () => {
+		expect(formatInjectionPreview(createPreview())).toBe(
+			[
+				'[Budget]',
+				'Token counter: SillyTavern',
+				'Context budget: 8000',
+				'Fixed prompt content: 1200 (last generation)',
+				'Available for messages and injection: 6800',
+				'Planned total: 6500',
+				'Injection: 120 chapters, 40 events, 300 state',
+				'Messages in context: 15 of 40, from message #27',
+				'',
+				'[Sections]',
+				'- chapters: 120 tokens, Before chat history (system)',
+				'- scene: 0 tokens, At depth 4 (system)',
+				'',
+				'[Chapters]',
+				'Included: 1',
+				'- Chapter 2: The Road',
+				'Left out: 1',
+				'- Chapter 1: The Tavern',
+				'',
+				'[Events]',
+				'Included: 1',
+				'- #12: Bob buys a sword',
+				'Left out: 0',
+				'',
+				'[Before chat history (system): chapters - 125 tokens]',
+				'[Story So Far]',
+				'Chapter 2: The Road',
+			].join('\n'),
+		);
+	});
+
+	it('notes an unknown fixed cost, filtered state and no messages in context', () => {
+		const text = formatInjectionPreview(
+			createPreview({
+				fixedTokens: null,
+				reducedState: true,
+				firstMessageId: null,
+			}),
+		);
+
+		expect(text).toContain('Fixed prompt content: unknown until the next generation');
+		expect(text).toContain('300 state (relevance-filtered)');
+		expect(text).toContain('Messages in context: none of 40');
+	});
+
+	it('lists the arcs standing in for left-out chapters', () => {
+		const text = formatInjectionPreview(
+			createPreview({
+				breakdown: {
+					pastChaptersTokens: 120,
+					pastArcsTokens: 60,
+					currentChapterEventsTokens: 40,
+					stateTokens: 300,
+				},
+				includedArcs: [
+					{
+						index: 0,
+						title: 'The Job',
+						summary: 'Elena and Marcus planned a heist.',
+						firstChapter: 0,
+						lastChapter: 0,
+						summarizedAt: { messageId: 9, swipeId: 0 },
+					},
+				],
+			}),
+		);
+
+		expect(text).toContain('Injection: 120 chapters, 60 arcs, 40 events, 300 state');
+		expect(text).toContain(
+			[
+				'Left out: 1',
+				'- Chapter 1: The Tavern',
+				'Covered by arcs: 1',
+				'- Arc 1: The Job (Chapters 1-1)',
+			].join('\n'),
+		);
+	});
+});
@@ -0,0 +1,199 @@
+/**
+ * Injection Preview
+ *
+ * A dry run of the prompt hook: what it would inject for a generation from the
+ * chat as it is now, with the token cost of each section, the chapters and
+ * events left out (and the arcs standing in for them), and the first message kept in context. Built by
+ * `previewInjection` in the prompt hook; this module holds the report types
+ * and the plain-text rendering used for copying.
+ */
+
+import type { EventStore } from '../store/EventStore';
+import type { SwipeContext } from '../store/projection';
+import type { ComputedChapter } from '../narrative/computeChapters';
+import { computeAllChapters } from '../narrative/computeChapters';
+import type { ComputedArc } from '../narrative/computeArcs';
+import type { NarrativeEvent } from '../types/snapshot';
+import type { V2InjectionSection, V2SectionPlacement } from '../settings/types';
+import type { ContextPlan } from './contextBudget';
+import { getOutOfContextEvents } from './events';
+
+/**
+ * One injected section and its cost on its own.
+ */
+export interface InjectionPreviewSection {
+	section: V2InjectionSection;
+	placement: V2SectionPlacement;
+	/** Tokens of the section rendered alone (0 = nothing to inject) */
+	tokens: number;
+}
+
+/**
+ * One block as it would be inserted into the prompt.
+ */
+export interface InjectionPreviewBlock {
+	placement: V2SectionPlacement;
+	sections: V2InjectionSection[];
+	content: string;
+	tokens: number;
+}
+
+/**
+ * What the prompt hook would inject for the next generation.
+ */
+export interface InjectionPreview {
+	/** Token counter used (e.g. 'SillyTavern') */
+	tokenCounter: string;
+	/** Context budget before fixed prompt content */
+	maxBudget: number;
+	/** Fixed prompt content (system prompt, card, ...) from the last generation; null if none yet */
+	fixedTokens: number | null;
+	/** Budget for messages and injection */
+	availableBudget: number;
+	/** Chat messages that would be sent */
+	totalMessages: number;
+	/** Index (among the sent messages) of the first one kept in context */
+	firstMessageInContext: number;
+	/** Chat message ID of the first message kept in context (null if none are kept) */
+	firstMessageId: number | null;
+	/** Whether the relevance-filtered state would be used */
+	reducedState: boolean;
+	/** Planned injection plus messages in context */
+	totalTokens: number;
+	breakdown: ContextPlan['breakdown'];
+	sections: InjectionPreviewSection[];
+	blocks: InjectionPreviewBlock[];
+	includedChapters: ComputedChapter[];
+	droppedChapters: ComputedChapter[];
+	/** Arcs injected in place of left-out chapters */
+	includedArcs: ComputedArc[];
+	includedEvents: NarrativeEvent[];
+	droppedEvents: NarrativeEvent[];
+}
+
+const POSITION_LABELS: Record<V2SectionPlacement['position'], string> = {
+	system: 'System prompt',
+	beforeHistory: 'Before chat history',
+	atDepth: 'At depth',
+	afterLastUser: 'After last user message',
+};
+
+/**
+ * Describe where a block is inserted (e.g. 'At depth 4 (system)').
+ */
+export function describePlacement(placement: V2SectionPlacement): string {
+	const label = POSITION_LABELS[placement.position];
+	if (placement.position === 'system') return label;
+	const where = placement.position === 'atDepth' ? `${label} ${placement.depth}` : label;
+	return `${where} (${placement.role})`;
+}
+
+function getEventKey(event: NarrativeEvent): string {
+	return `${event.source.messageId}:${event.source.swipeId}:${event.description}`;
+}
+
+/**
+ * Find the chapters and out-of-context events a plan could have injected but
+ * left out, for the limits or the token budget.
+ */
+export function findDroppedHistory(
+	plan: ContextPlan,
+	store: EventStore,
+	swipeContext: SwipeContext,
+): { chapters: ComputedChapter[]; events: NarrativeEvent[] } {
+	const includedChapters = new Set(plan.pastChapters.map(chapter => chapter.index));
+	const chapters = computeAllChapters(store, swipeContext).filter(
+		chapter =>
+			chapter.endReason !== null &&
+			chapter.index < plan.effectiveCurrentChapter &&
+			!includedChapters.has(chapter.index),
+	);
+
+	const includedEvents = new Set(plan.currentChapterEvents.map(getEventKey));
+	const events = getOutOfContextEvents(
+		store,
+		swipeContext,
+		plan.effectiveCurrentChapter,
+		plan.firstMessageInContext,
+	).filter(event => !includedEvents.has(getEventKey(event)));
+
+	return { chapters, events };
+}
+
+function formatChapterLine(chapter: ComputedChapter): string {
+	return `- Chapter ${chapter.index + 1}: ${chapter.title}`;
+}
+
+function formatArcLine(arc: ComputedArc): string {
+	return `- Arc ${arc.index + 1}: ${arc.title} (Chapters ${arc.firstChapter + 1}-${arc.lastChapter + 1})`;
+}
+
+function formatEventLine(event: NarrativeEvent): string {
+	return `- #${event.source.messageId}: ${event.description}`;
+}
+
+/**
+ * Render a preview as plain text (for copying or STScript).
+ */
+export function formatInjectionPreview(preview: InjectionPreview): string {
+	const lines: string[] = [];
+
+	lines.push('[Budget]');
+	lines.push(`Token counter: ${preview.tokenCounter}`);
+	lines.push(`Context budget: ${preview.maxBudget}`);
+	lines.push(
+		preview.fixedTokens === null
+			? 'Fixed prompt content: unknown until the next generation'
+			: `Fixed prompt content: ${preview.fixedTokens} (last generation)`,
+	);
+	lines.push(`Available for messages and injection: ${preview.availableBudget}`);
+	lines.push(`Planned total: ${preview.totalTokens}`);
+	lines.push(
+		`Injection: ${preview.breakdown.pastChaptersTokens} chapters, ` +
+			(preview.breakdown.pastArcsTokens > 0
+				? `${preview.breakdown.pastArcsTokens} arcs, `
+				: '') +
+			`${preview.breakdown.currentChapterEventsTokens} events, ` +
+			`${preview.breakdown.stateTokens} state` +
+			(preview.reducedState ? ' (relevance-filtered)' : ''),
+	);
+	lines.push(
+		preview.firstMessageId === null
+			? `Messages in context: none of ${preview.totalMessages}`
+			: `Messages in context: ${preview.totalMessages - preview.firstMessageInContext} ` +
+					`of ${preview.totalMessages}, from message #${preview.firstMessageId}`,
+	);
+
+	lines.push('', '[Sections]');
+	for (const section of preview.sections) {
+		lines.push(
+			`- ${section.section}: ${section.tokens} tokens, ${describePlacement(section.placement)}`,
+		);
+	}
+
+	lines.push('', '[Chapters]');
+	lines.push(`Included: ${preview.includedChapters.length}`);
+	lines.push(...preview.includedChapters.map(formatChapterLine));
+	lines.push(`Left out: ${preview.droppedChapters.length}`);
+	lines.push(...preview.droppedChapters.map(formatChapterLine));
+	if (preview.includedArcs.length > 0) {
+		lines.push(`Covered by arcs: ${preview.includedArcs.length}`);
+		lines.push(...preview.includedArcs.map(formatArcLine));
+	}
+
+	lines.push('', '[Events]');
+	lines.push(`Included: ${preview.includedEvents.length}`);
+	lines.push(...preview.includedEvents.map(formatEventLine));
+	lines.push(`Left out: ${preview.droppedEvents.length}`);
+	lines.push(...preview.droppedEvents.map(formatEventLine));
+
+	for (const block of preview.blocks) {
+		lines.push(
+			'',
+			`[${describePlacement(block.placement)}: ${block.sections.join(', ')} - ${block.tokens} tokens]`,
+			block.content,
+		);
+	}
+
+	return lines.join('\n');
+}
@@ -6,6 +6,8 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { EventStore } from '../store/EventStore';
+import type * as EventsModule from './events';
+import type * as ArcsModule from '../narrative/computeArcs';
 
 // Mock dependencies
 vi.mock('../settings', () => ({
@@ -22,6 +24,8 @@ vi.mock('../settings', () => ({
 		},
 		v2MaxRecentChapters: 5,
 		v2MaxRecentEvents: 15,
+		v2InjectionTemplates: { state: '', narrative: '' },
+		v2RelevanceFilter: { mode: 'off', topK: 4, recentMessages: 6 },
 	})),
 }));
 
@@ -29,13 +33,18 @@ vi.mock('./state', () => ({
 	formatStateForInjection: vi.fn(() => '[Scene State]\nTest state\n[/Scene State]'),
 }));
 
-vi.mock('./chapters', () => ({
-	formatPastChaptersWithTags: vi.fn(() => ''),
+vi.mock('../narrative/computeChapters', () => ({
+	computeAllChapters: vi.fn(() => []),
 }));
 
-vi.mock('./events', () => ({
+vi.mock('../narrative/computeArcs', async importOriginal => ({
+	...(await importOriginal<typeof ArcsModule>()),
+	computeArcs: vi.fn(() => []),
+}));
+
+vi.mock('./events', async importOriginal => ({
+	...(await importOriginal<typeof EventsModule>()),
 	getAllCurrentChapterEvents: vi.fn(() => []),
-	formatOutOfContextEvents: vi.fn(() => ''),
 }));
 
 // Mock SillyTavern global
@@ -46,7 +55,12 @@ const mockChat = [
 	{ mes: 'Hi there!', is_user: false },
 	{ mes: 'How are you?', is_user: true },
 ];
-const mockContext = {
+const mockContext: {
+	chat: typeof mockChat;
+	registerMacro: typeof mockRegisterMacro;
+	unregisterMacro: typeof mockUnregisterMacro;
+	macros?: { register: ReturnType<typeof vi.fn>; unregister: ReturnType<typeof vi.fn> };
+} = {
 	chat: mockChat,
 	registerMacro: mockRegisterMacro,
 	unregisterMacro: mockUnregisterMacro,
@@ -58,16 +72,37 @@ const mockContext = {
 
 // Import after mocking
 import { registerMacros, unregisterMacros, registerMacroBridgeFunctions } from './macros';
+import { FACT_MACROS } from './factMacros';
 import { getV2Settings } from '../settings';
 import { formatStateForInjection } from './state';
-import { formatPastChaptersWithTags } from './chapters';
-import { getAllCurrentChapterEvents, formatOutOfContextEvents } from './events';
+import { computeAllChapters } from '../narrative/computeChapters';
+import { getAllCurrentChapterEvents } from './events';
+import type { ComputedChapter } from '../narrative/computeChapters';
+import type { NarrativeEvent } from '../types/snapshot';
 
 const mockGetV2Settings = vi.mocked(getV2Settings);
 const mockFormatState = vi.mocked(formatStateForInjection);
-const mockFormatChapters = vi.mocked(formatPastChaptersWithTags);
+const mockComputeChapters = vi.mocked(computeAllChapters);
 const mockGetAllEvents = vi.mocked(getAllCurrentChapterEvents);
-const mockFormatEvents = vi.mocked(formatOutOfContextEvents);
+
+function finishedChapter(index: number): ComputedChapter {
+	return {
+		index,
+		title: `Title ${index + 1}`,
+		summary: 'Summary',
+		endReason: 'location_change',
+		milestones: [],
+	} as unknown as ComputedChapter;
+}
+
+function narrativeEvent(description: string): NarrativeEvent {
+	return {
+		description,
+		witnesses: ['Alice'],
+		subjects: [],
+		source: { messageId: 1, swipeId: 0 },
+	} as unknown as NarrativeEvent;
+}
 
 // ============================================
 // Test Setup
@@ -103,10 +138,45 @@ describe('macros', () => {
 			);
 		});
 
-		it('registers both macros', () => {
+		it('registers both macros and the fact macros', () => {
+			registerMacros();
+
+			expect(mockRegisterMacro).toHaveBeenCalledTimes(2 + FACT_MACROS.length);
+			expect(mockRegisterMacro).toHaveBeenCalledWith(
+				'btOutfit',
+				expect.any(Function),
+				expect.any(String),
+			);
+		});
+
+		it('registers fact macros with arguments and examples through the macro engine', () => {
+			const register = vi.fn();
+			mockContext.macros = { register, unregister: vi.fn() };
+
 			registerMacros();
 
 			expect(mockRegisterMacro).toHaveBeenCalledTimes(2);
+			expect(register).toHaveBeenCalledWith(
+				'btRelationship',
+				expect.objectContaining({
+					unnamedArgs: [
+						expect.objectContaining({
+							name: 'character',
+							optional: true,
+						}),
+						expect.objectContaining({
+							name: 'other',
+							optional: true,
+						}),
+					],
+					exampleUsage: expect.arrayContaining([
+						'{{btRelationship::Alice::Bob}}',
+					]),
+					handler: expect.any(Function),
+				}),
+			);
+
+			mockContext.macros = undefined;
 		});
 
 		it('does not throw when registerMacro is unavailable', () => {
@@ -250,6 +320,7 @@ describe('macro handlers', () => {
 					includeScene: true,
 					includeChapters: false,
 					includeEvents: false,
+					template: '',
 				}),
 			);
 		});
@@ -350,6 +421,8 @@ describe('macro handlers', () => {
 				},
 				v2MaxRecentChapters: 5,
 				v2MaxRecentEvents: 15,
+				v2InjectionTemplates: { state: '', narrative: '' },
+				v2RelevanceFilter: { mode: 'off', topK: 4, recentMessages: 6 },
 			} as ReturnType<typeof getV2Settings>);
 
 			btStateHandler();
@@ -376,7 +449,7 @@ describe('macro handlers', () => {
 
 	describe('btNarrative handler', () => {
 		it('returns empty string when no chapters or events', () => {
-			mockFormatChapters.mockReturnValue('');
+			mockComputeChapters.mockReturnValue([]);
 			mockGetAllEvents.mockReturnValue([]);
 
 			const result = btNarrativeHandler();
@@ -385,63 +458,60 @@ describe('macro handlers', () => {
 		});
 
 		it('returns chapters when available', () => {
-			mockFormatChapters.mockReturnValue(
-				'[Story So Far]\nChapter 1: Test\n  Summary\n[/Story So Far]',
-			);
+			mockComputeChapters.mockReturnValue([finishedChapter(0)]);
 			mockGetAllEvents.mockReturnValue([]);
 
 			const result = btNarrativeHandler();
 
-			expect(result).toContain('[Story So Far]');
-			expect(result).toContain('Chapter 1: Test');
+			expect(result).toBe(
+				'[Story So Far]\nChapter 1: Title 1\n  Summary\n[/Story So Far]',
+			);
 		});
 
 		it('returns events when available', () => {
-			mockFormatChapters.mockReturnValue('');
-			mockGetAllEvents.mockReturnValue([
-				{
-					description: 'Something happened',
-					witnesses: ['Alice'],
-					subjects: [],
-					source: { messageId: 1, swipeId: 0 },
-				},
-			] as never[]);
-			mockFormatEvents.mockReturnValue('- Something happened');
+			mockComputeChapters.mockReturnValue([]);
+			mockGetAllEvents.mockReturnValue([narrativeEvent('Something happened')]);
 
 			const result = btNarrativeHandler();
 
-			expect(result).toContain('[Recent Events]');
-			expect(result).toContain('- Something happened');
+			expect(result).toBe(
+				'[Recent Events]\n- Something happened\n[/Recent Events]',
+			);
 		});
 
 		it('returns both chapters and events when available', () => {
-			mockFormatChapters.mockReturnValue(
-				'[Story So Far]\nChapter 1: Test\n[/Story So Far]',
-			);
-			mockGetAllEvents.mockReturnValue([
-				{
-					description: 'Event',
-					witnesses: [],
-					subjects: [],
-					source: { messageId: 1, swipeId: 0 },
-				},
-			] as never[]);
-			mockFormatEvents.mockReturnValue('- Event');
+			mockComputeChapters.mockReturnValue([finishedChapter(0)]);
+			mockGetAllEvents.mockReturnValue([narrativeEvent('Event')]);
 
 			const result = btNarrativeHandler();
 
-			expect(result).toContain('[Story So Far]');
-			expect(result).toContain('[Recent Events]');
+			expect(result).toContain('[/Story So Far]\n\n[Recent Events]');
 		});
 
-		it('calls formatPastChaptersWithTags with settings', () => {
-			btNarrativeHandler();
+		it('skips the unfinished current chapter', () => {
+			mockComputeChapters.mockReturnValue([
+				finishedChapter(0),
+				{ ...finishedChapter(1), endReason: null },
+			]);
 
-			expect(mockFormatChapters).toHaveBeenCalledWith(
-				mockStore,
-				mockSwipeContext,
-				5,
-			);
+			const result = btNarrativeHandler();
+
+			expect(result).toContain('Chapter 1: Title 1');
+			expect(result).not.toContain('Chapter 2');
+		});
+
+		it('renders with the narrative template from settings', () => {
+			mockGetV2Settings.mockReturnValue({
+				v2MaxRecentChapters: 5,
+				v2MaxRecentEvents: 15,
+				v2InjectionTemplates: {
+					state: '',
+					narrative: '{{#each events}}<event>{{description}}</event>{{/each}}',
+				},
+			} as ReturnType<typeof getV2Settings>);
+			mockGetAllEvents.mockReturnValue([narrativeEvent('Event')]);
+
+			expect(btNarrativeHandler()).toBe('<event>Event</event>');
 		});
 
 		it('calls getAllCurrentChapterEvents with current chapter', () => {
@@ -548,15 +618,17 @@ describe('macro handlers', () => {
 				},
 				v2MaxRecentChapters: 3,
 				v2MaxRecentEvents: 10,
+				v2InjectionTemplates: { state: '', narrative: '' },
+				v2RelevanceFilter: { mode: 'off', topK: 4, recentMessages: 6 },
 			} as ReturnType<typeof getV2Settings>);
 
-			btNarrativeHandler();
+			mockComputeChapters.mockReturnValue([0, 1, 2, 3, 4].map(finishedChapter));
 
-			expect(mockFormatChapters).toHaveBeenCalledWith(
-				mockStore,
-				mockSwipeContext,
-				3,
-			);
+			const result = btNarrativeHandler();
+
+			expect(result).not.toContain('Chapter 2:');
+			expect(result).toContain('Chapter 3:');
+			expect(result).toContain('Chapter 5:');
 		});
 
 		it('respects maxRecentEvents setting', () => {
@@ -573,21 +645,21 @@ describe('macro handlers', () => {
 				},
 				v2MaxRecentChapters: 5,
 				v2MaxRecentEvents: 10,
+				v2InjectionTemplates: { state: '', narrative: '' },
+				v2RelevanceFilter: { mode: 'off', topK: 4, recentMessages: 6 },
 			} as ReturnType<typeof getV2Settings>);
 
-			mockGetAllEvents.mockReturnValue([
-				{
-					description: 'Event',
-					witnesses: [],
-					subjects: [],
-					source: { messageId: 1, swipeId: 0 },
-				},
-			] as never[]);
-			mockFormatEvents.mockReturnValue('- Event');
+			mockGetAllEvents.mockReturnValue(
+				Array.from({ length: 12 }, (_, i) =>
+					narrativeEvent(`Event ${i + 1}`),
+				),
+			);
 
-			btNarrativeHandler();
+			const result = btNarrativeHandler();
 
-			expect(mockFormatEvents).toHaveBeenCalledWith(expect.any(Array), 10);
+			expect(result).not.toContain('Event 2\n');
+			expect(result).toContain('Event 3\n');
+			expect(result.match(/^- /gm)).toHaveLength(10);
 		});
 	});
 });
@@ -3,7 +3,8 @@
  *
  * Registers {{btState}} and {{btNarrative}} macros with SillyTavern's
  * macro system, allowing users to manually place BlazeTracker content
- * anywhere in their prompts.
+ * anywhere in their prompts, plus the fine-grained fact macros
+ * ({{btOutfit::Alice}}, {{btWeather::tomorrow}}, ...) from factMacros.
  */
 
 import type { STContext } from '../../types/st.d';
@@ -12,8 +13,17 @@ import type { SwipeContext } from '../store/projection';
 import { getV2Settings } from '../settings';
 import { debugLog } from '../../utils/debug';
 import { formatStateForInjection } from './state';
-import { formatPastChaptersWithTags } from './chapters';
-import { getAllCurrentChapterEvents, formatOutOfContextEvents } from './events';
+import { getAllCurrentChapterEvents } from './events';
+import { computeAllChapters } from '../narrative/computeChapters';
+import { computeArcs, selectArcsForOmittedChapters } from '../narrative/computeArcs';
+import {
+	buildNarrativeTemplateData,
+	getActiveInjectionTemplates,
+	renderNarrativeTemplate,
+} from './templates';
+import { FACT_MACROS, type FactMacroDefinition } from './factMacros';
+import { buildRelevanceContext } from './relevance';
+import { getActiveCalendar } from '../cardExtensions/reader';
 
 // Bridge functions - set by registerMacroBridgeFunctions to avoid circular dependency
 let bridgeFunctions: {
@@ -94,6 +104,14 @@ function btStateHandler(): string {
 			includeScene: settings.v2Track.scene,
 			includeChapters: false,
 			includeEvents: false,
+			template: getActiveInjectionTemplates().state,
+			calendar: getActiveCalendar(),
+			...(settings.v2RelevanceFilter.mode === 'always' && {
+				relevance: buildRelevanceContext(
+					stContext,
+					settings.v2RelevanceFilter,
+				),
+			}),
 		});
 	} catch (error) {
 		debugLog('Error in btState macro handler:', error);
@@ -103,7 +121,7 @@ function btStateHandler(): string {
 
 /**
  * Handler for the {{btNarrative}} macro.
- * Returns formatted chapter summaries and current chapter events.
+ * Returns formatted chapter summaries (with arcs for older chapters) and current chapter events.
  */
 function btNarrativeHandler(): string {
 	const storeAndContext = getStoreAndContext();
@@ -122,43 +140,106 @@ function btNarrativeHandler(): string {
 		}
 
 		const projection = store.projectStateAtMessage(projectionMessageId, swipeContext);
-		const sections: string[] = [];
 
-		// Past chapters (Story So Far)
-		const chaptersContent = formatPastChaptersWithTags(
-			store,
-			swipeContext,
-			settings.v2MaxRecentChapters,
+		// Most recent completed chapters (Story So Far) and current chapter events
+		const completedChapters = computeAllChapters(store, swipeContext).filter(
+			ch => ch.endReason !== null,
+		);
+		const chapters = completedChapters.slice(-settings.v2MaxRecentChapters);
+		// Arcs stand in for the older chapters
+		const arcs = selectArcsForOmittedChapters(
+			computeArcs(store, swipeContext),
+			completedChapters,
+			chapters,
+			projection.currentChapter,
 		);
-		if (chaptersContent) {
-			sections.push(chaptersContent);
-		}
-
-		// Current chapter events
 		const events = getAllCurrentChapterEvents(
 			store,
 			swipeContext,
 			projection.currentChapter,
-		);
-		if (events.length > 0) {
-			const eventsContent = formatOutOfContextEvents(
-				events,
-				settings.v2MaxRecentEvents,
-			);
-			if (eventsContent) {
-				sections.push(
-					`[Recent Events]\n${eventsContent}\n[/Recent Events]`,
-				);
-			}
-		}
+		).slice(-settings.v2MaxRecentEvents);
 
-		return sections.join('\n\n');
+		const data = buildNarrativeTemplateData(chapters, events, arcs);
+		if (
+			data.arcs.length === 0 &&
+			data.chapters.length === 0 &&
+			data.events.length === 0
+		) {
+			return '';
+		}
+		return renderNarrativeTemplate(data, getActiveInjectionTemplates().narrative);
 	} catch (error) {
 		debugLog('Error in btNarrative macro handler:', error);
 		return '';
 	}
 }
 
+/**
+ * Resolve a fact macro against the projection before the message being generated.
+ *
+ * @param definition - The fact macro
+ * @param args - Arguments from the macro ("::"-separated)
+ */
+function resolveFactMacro(definition: FactMacroDefinition, args: string[]): string {
+	const storeAndContext = getStoreAndContext();
+	if (!storeAndContext) {
+		return '';
+	}
+
+	const { store, swipeContext, stContext } = storeAndContext;
+	const settings = getV2Settings();
+
+	try {
+		const projectionMessageId = stContext.chat.length - 2;
+		if (projectionMessageId < 0) {
+			return '';
+		}
+
+		const projection = store.projectStateAtMessage(projectionMessageId, swipeContext);
+		return definition.resolve(
+			{
+				projection,
+				store,
+				swipeContext,
+				timeFormat: settings.v2TimeFormat,
+				calendar: getActiveCalendar(),
+			},
+			definition.args.map((_, i) => args[i]?.trim() || undefined),
+		);
+	} catch (error) {
+		debugLog(`Error in ${definition.name} macro handler:`, error);
+		return '';
+	}
+}
+
+/**
+ * Register the fact macros. Arguments need ST's macro engine; older versions
+ * only get the argument-free form of each macro.
+ */
+function registerFactMacros(context: STContext): void {
+	for (const definition of FACT_MACROS) {
+		if (context.macros) {
+			context.macros.register(definition.name, {
+				description: `BlazeTracker: ${definition.description}`,
+				unnamedArgs: definition.args.map(arg => ({
+					name: arg.name,
+					description: arg.description,
+					optional: arg.optional,
+				})),
+				exampleUsage: definition.examples,
+				handler: ({ unnamedArgs }) =>
+					resolveFactMacro(definition, unnamedArgs),
+			});
+		} else {
+			context.registerMacro(
+				definition.name,
+				() => resolveFactMacro(definition, []),
+				`BlazeTracker: ${definition.description}`,
+			);
+		}
+	}
+}
+
 /**
  * Register BlazeTracker macros with SillyTavern.
  * Call after bridge functions are registered.
@@ -179,7 +260,9 @@ export function registerMacros(): void {
 			'BlazeTracker narrative context (chapter summaries and events)',
 		);
 
-		debugLog('Registered btState and btNarrative macros');
+		registerFactMacros(context);
+
+		debugLog('Registered BlazeTracker macros');
 	} catch (error) {
 		debugLog('Failed to register macros:', error);
 	}
@@ -193,7 +276,14 @@ export function unregisterMacros(): void {
 		const context = SillyTavern.getContext() as unknown as STContext;
 		context.unregisterMacro('btState');
 		context.unregisterMacro('btNarrative');
-		debugLog('Unregistered btState and btNarrative macros');
+		for (const definition of FACT_MACROS) {
+			if (context.macros) {
+				context.macros.unregister(definition.name);
+			} else {
+				context.unregisterMacro(definition.name);
+			}
+		}
+		debugLog('Unregistered BlazeTracker macros');
 	} catch (error) {
 		debugLog('Failed to unregister macros:', error);
 	}
@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest';
+import {
+	groupSectionsByPlacement,
+	getFallbackInjectionDepth,
+	insertChatInjections,
+	insertTextCompletionInjections,
+	type InjectionBlock,
+	type PlacementChatMessage,
+	type PlacementTextEntry,
+} from './placement';
+import { DEFAULT_V2_INJECTION_PLACEMENTS } from '../settings/defaults';
+import type { V2InjectionPlacements, V2SectionPlacement } from '../settings/types';
+
+function block(content: string, placement: Partial<V2SectionPlacement>): InjectionBlock {
+	return {
+		content,
+		placement: { position: 'atDepth', depth: 0, role: 'user', ...placement },
+	};
+}
+
+function createChat(): PlacementChatMessage[] {
+	return [
+		{ role: 'system', content: 'Main prompt' },
+		{ role: 'system', content: 'Character card' },
+		{ role: 'user', content: 'Hello' },
+		{ role: 'assistant', content: 'Hi!' },
+		{ role: 'user', content: 'How are you?' },
+	];
+}
+
+function createEntries(): PlacementTextEntry[] {
+	return [
+		{ message: 'User: Hello', extensionPrompts: [] },
+		{ message: 'Bot: Hi!', extensionPrompts: [] },
+		{ message: 'User: How are you?', extensionPrompts: [] },
+		{ message: 'Bot: I am', extensionPrompts: [] },
+	];
+}
+
+describe('groupSectionsByPlacement', () => {
+	it('groups the default placements into narrative and state', () => {
+		const groups = groupSectionsByPlacement(DEFAULT_V2_INJECTION_PLACEMENTS, [
+			'time',
+			'location',
+			'chapters',
+			'events',
+			'relationships',
+		]);
+
+		expect(groups).toHaveLength(2);
+		expect([...groups[0].sections]).toEqual(['chapters', 'events']);
+		expect(groups[0].placement.position).toBe('beforeHistory');
+		expect([...groups[1].sections]).toEqual(['time', 'location', 'relationships']);
+	});
+
+	it('separates sections by depth and role, ignoring settings the position does not use', () => {
+		const placements: V2InjectionPlacements = {
+			...DEFAULT_V2_INJECTION_PLACEMENTS,
+			time: { position: 'atDepth', depth: 2, role: 'user' },
+			climate: { position: 'atDepth', depth: 0, role: 'system' },
+			chapters: { position: 'system', depth: 4, role: 'user' },
+			events: { position: 'system', depth: 0, role: 'assistant' },
+		};
+
+		const groups = groupSectionsByPlacement(placements, [
+			'chapters',
+			'events',
+			'time',
+			'location',
+			'climate',
+		]);
+
+		expect(groups.map(group => [...group.sections])).toEqual([
+			['chapters', 'events'],
+			['time'],
+			['location'],
+			['climate'],
+		]);
+	});
+});
+
+describe('getFallbackInjectionDepth', () => {
+	it('uses the shallowest depth placement', () => {
+		expect(
+			getFallbackInjectionDepth({
+				...DEFAULT_V2_INJECTION_PLACEMENTS,
+				time: { position: 'atDepth', depth: 3, role: 'user' },
+				scene: { position: 'system', depth: 0, role: 'user' },
+			}),
+		).toBe(0);
+	});
+
+	it('is 0 without depth placements', () => {
+		const placements = Object.fromEntries(
+			Object.keys(DEFAULT_V2_INJECTION_PLACEMENTS).map(section => [
+				section,
+				{ position: 'beforeHistory', depth: 5, role: 'user' },
+			]),
+		) as V2InjectionPlacements;
+		expect(getFallbackInjectionDepth(placements)).toBe(0);
+	});
+});
+
+describe('insertChatInjections', () => {
+	it('places each block at its position with its role', () => {
+		const chat = createChat();
+		insertChatInjections(chat, [
+			block('narrative', { position: 'beforeHistory' }),
+			block('state', { position: 'atDepth', depth: 0 }),
+			block('deep', { position: 'atDepth', depth: 2, role: 'system' }),
+			block('rules', { position: 'system' }),
+		]);
+
+		expect(chat).toEqual([
+			{ role: 'system', content: 'Main prompt\n\nrules' },
+			{ role: 'system', content: 'Character card' },
+			{ role: 'user', content: 'narrative' },
+			{ role: 'user', content: 'Hello' },
+			{ role: 'system', content: 'deep' },
+			{ role: 'assistant', content: 'Hi!' },
+			{ role: 'user', content: 'How are you?' },
+			{ role: 'user', content: 'state' },
+		]);
+	});
+
+	it('keeps depth placements before an assistant prefill', () => {
+		const chat = [...createChat(), { role: 'assistant' as const, content: 'I am' }];
+		insertChatInjections(chat, [block('state', { position: 'atDepth', depth: 0 })]);
+
+		expect(chat.slice(-2)).toEqual([
+			{ role: 'user', content: 'state' },
+			{ role: 'assistant', content: 'I am' },
+		]);
+	});
+
+	it('places after the last user message', () => {
+		const chat = [...createChat(), { role: 'assistant' as const, content: 'Fine.' }];
+		insertChatInjections(chat, [
+			block('after user', { position: 'afterLastUser', role: 'assistant' }),
+		]);
+
+		expect(chat.slice(-3)).toEqual([
+			{ role: 'user', content: 'How are you?' },
+			{ role: 'assistant', content: 'after user' },
+			{ role: 'assistant', content: 'Fine.' },
+		]);
+	});
+
+	it('keeps block order at a shared insertion point', () => {
+		const chat = createChat();
+		insertChatInjections(chat, [
+			block('first', { position: 'atDepth', depth: 0 }),
+			block('second', { position: 'afterLastUser', role: 'system' }),
+		]);
+
+		expect(chat.slice(-2).map(m => m.content)).toEqual(['first', 'second']);
+	});
+
+	it('adds a system message when there is none', () => {
+		const chat: PlacementChatMessage[] = [{ role: 'user', content: 'Hello' }];
+		insertChatInjections(chat, [block('rules', { position: 'system' })]);
+
+		expect(chat[0]).toEqual({ role: 'system', content: 'rules' });
+	});
+
+	it('does not place depth blocks inside the leading system messages', () => {
+		const chat = createChat();
+		insertChatInjections(chat, [block('deep', { position: 'atDepth', depth: 50 })]);
+
+		expect(chat[2]).toEqual({ role: 'user', content: 'deep' });
+	});
+});
+
+describe('insertTextCompletionInjections', () => {
+	it('prepends system and before-history blocks to the first entry in order', () => {
+		const entries = createEntries();
+		entries[0].extensionPrompts.push('other extension');
+		insertTextCompletionInjections(
+			entries,
+			[
+				block('narrative', { position: 'beforeHistory' }),
+				block('rules', { position: 'system' }),
+			],
+			false,
+			2,
+		);
+
+		expect(entries[0].extensionPrompts).toEqual([
+			'rules\n\n',
+			'narrative\n\n',
+			'other extension',
+		]);
+	});
+
+	it('appends depth blocks, skipping the prefill in continuation mode', () => {
+		const entries = createEntries();
+		insertTextCompletionInjections(
+			entries,
+			[
+				block('state', { position: 'atDepth', depth: 0 }),
+				block('deep', { position: 'atDepth', depth: 1 }),
+			],
+			true,
+			2,
+		);
+
+		expect(entries.map(e => e.message)).toEqual([
+			'User: Hello',
+			'Bot: Hi!\n\ndeep',
+			'User: How are you?\n\nstate',
+			'Bot: I am',
+		]);
+	});
+
+	it('appends to the last entry in normal mode', () => {
+		const entries = createEntries();
+		insertTextCompletionInjections(
+			entries,
+			[block('state', { position: 'atDepth', depth: 0 })],
+			false,
+			2,
+		);
+
+		expect(entries[3].message).toBe('Bot: I am\n\nstate');
+	});
+
+	it('appends after-last-user blocks to the last user entry', () => {
+		const entries = createEntries();
+		insertTextCompletionInjections(
+			entries,
+			[block('after user', { position: 'afterLastUser' })],
+			false,
+			2,
+		);
+
+		expect(entries[2].message).toBe('User: How are you?\n\nafter user');
+	});
+});
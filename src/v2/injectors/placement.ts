@@ -0,0 +1,227 @@
+/**
+ * Injection Placement
+ *
+ * Groups the injected sections by their configured placement and inserts the
+ * resulting blocks into the prompt:
+ * - chat completion: as messages (or into the system prompt)
+ * - text completion: into finalMesSend entries, which have no roles
+ */
+
+import type {
+	V2InjectionPlacements,
+	V2InjectionSection,
+	V2SectionPlacement,
+} from '../settings/types';
+
+/**
+ * All injectable sections, in the order blocks sharing an insertion point appear.
+ */
+export const INJECTION_SECTIONS: V2InjectionSection[] = [
+	'chapters',
+	'events',
+	'scene',
+	'time',
+	'location',
+	'climate',
+	'characters',
+	'relationships',
+];
+
+/**
+ * Sections rendered with the state template (the rest use the narrative template).
+ */
+export const STATE_SECTIONS: V2InjectionSection[] = [
+	'scene',
+	'time',
+	'location',
+	'climate',
+	'characters',
+	'relationships',
+];
+
+/**
+ * Sections that share one placement and are injected as one block.
+ */
+export interface InjectionGroup {
+	placement: V2SectionPlacement;
+	sections: Set<V2InjectionSection>;
+}
+
+/**
+ * Rendered content for one placement.
+ */
+export interface InjectionBlock {
+	placement: V2SectionPlacement;
+	content: string;
+}
+
+/**
+ * Chat completion message, as in CHAT_COMPLETION_PROMPT_READY.
+ */
+export interface PlacementChatMessage {
+	role: 'system' | 'user' | 'assistant';
+	content: string;
+}
+
+/**
+ * Text completion entry, as in GENERATE_BEFORE_COMBINE_PROMPTS' finalMesSend.
+ */
+export interface PlacementTextEntry {
+	message: string;
+	extensionPrompts: unknown[];
+}
+
+/**
+ * Key identifying a placement; settings that don't apply to the position are ignored.
+ */
+function getPlacementKey(placement: V2SectionPlacement): string {
+	const depth = placement.position === 'atDepth' ? placement.depth : 0;
+	const role = placement.position === 'system' ? 'system' : placement.role;
+	return `${placement.position}:${depth}:${role}`;
+}
+
+/**
+ * Group the given sections by placement, in INJECTION_SECTIONS order.
+ */
+export function groupSectionsByPlacement(
+	placements: V2InjectionPlacements,
+	sections: V2InjectionSection[],
+): InjectionGroup[] {
+	const groups = new Map<string, InjectionGroup>();
+
+	for (const section of INJECTION_SECTIONS) {
+		if (!sections.includes(section)) continue;
+		const placement = placements[section];
+		const key = getPlacementKey(placement);
+		const group = groups.get(key);
+		if (group) {
+			group.sections.add(section);
+		} else {
+			groups.set(key, { placement, sections: new Set([section]) });
+		}
+	}
+
+	return [...groups.values()];
+}
+
+/**
+ * Get the depth of the single extension prompt used when prompt hooks are
+ * unavailable: the shallowest 'atDepth' placement, or 0.
+ */
+export function getFallbackInjectionDepth(placements: V2InjectionPlacements): number {
+	const depths = Object.values(placements)
+		.filter(placement => placement.position === 'atDepth')
+		.map(placement => placement.depth);
+	return depths.length > 0 ? Math.min(...depths) : 0;
+}
+
+/**
+ * Insert blocks into chat completion messages (in place).
+ *
+ * If the last message is from the assistant (prefill/continuation), depths
+ * count from the message before it so state never lands after the prefill.
+ */
+export function insertChatInjections(
+	messages: PlacementChatMessage[],
+	blocks: InjectionBlock[],
+): void {
+	let chatStart = messages.findIndex(m => m.role !== 'system');
+	if (chatStart < 0) chatStart = messages.length;
+
+	const isContinuation =
+		messages.length > chatStart && messages[messages.length - 1].role === 'assistant';
+	const end = messages.length - (isContinuation ? 1 : 0);
+
+	const atDepth = (depth: number) => Math.max(chatStart, end - depth);
+
+	let lastUser = -1;
+	for (let i = messages.length - 1; i >= chatStart; i--) {
+		if (messages[i].role === 'user') {
+			lastUser = i;
+			break;
+		}
+	}
+
+	// Resolve every insertion point against the original messages
+	const insertions: { index: number; order: number; message: PlacementChatMessage }[] = [];
+	const systemContent: string[] = [];
+
+	blocks.forEach((block, order) => {
+		const { position, depth, role } = block.placement;
+		let index: number;
+		switch (position) {
+			case 'system':
+				systemContent.push(block.content);
+				return;
+			case 'beforeHistory':
+				index = chatStart;
+				break;
+			case 'afterLastUser':
+				index = lastUser >= 0 ? lastUser + 1 : atDepth(0);
+				break;
+			case 'atDepth':
+				index = atDepth(depth);
+				break;
+		}
+		insertions.push({ index, order, message: { role, content: block.content } });
+	});
+
+	// Splice from the back so earlier indices stay valid; blocks sharing an
+	// index keep their order
+	insertions
+		.sort((a, b) => b.index - a.index || b.order - a.order)
+		.forEach(({ index, message }) => messages.splice(index, 0, message));
+
+	if (systemContent.length > 0) {
+		const content = systemContent.join('\n\n');
+		const systemMessage = messages.find(m => m.role === 'system');
+		if (systemMessage) {
+			systemMessage.content = `${systemMessage.content}\n\n${content}`;
+		} else {
+			messages.unshift({ role: 'system', content });
+		}
+	}
+}
+
+/**
+ * Insert blocks into text completion entries (in place).
+ *
+ * The story string can't be changed from this event, so 'system' placements
+ * go before the chat history like 'beforeHistory'. Roles don't apply.
+ *
+ * @param isContinuation - The last entry is the assistant's prefill
+ * @param lastUserIndex - Entry holding the last user message, or -1
+ */
+export function insertTextCompletionInjections(
+	entries: PlacementTextEntry[],
+	blocks: InjectionBlock[],
+	isContinuation: boolean,
+	lastUserIndex: number,
+): void {
+	if (entries.length === 0) return;
+
+	const end = entries.length - (isContinuation && entries.length > 1 ? 2 : 1);
+	const atDepth = (depth: number) => Math.max(0, end - depth);
+
+	const before = [
+		...blocks.filter(block => block.placement.position === 'system'),
+		...blocks.filter(block => block.placement.position === 'beforeHistory'),
+	];
+	// Unshift in reverse so the blocks keep their order ahead of other extensions
+	for (const block of [...before].reverse()) {
+		entries[0].extensionPrompts.unshift(block.content + '\n\n');
+	}
+
+	for (const block of blocks) {
+		const { position, depth } = block.placement;
+		let index: number;
+		if (position === 'atDepth') {
+			index = atDepth(depth);
+		} else if (position === 'afterLastUser') {
+			index = lastUserIndex >= 0 ? lastUserIndex : atDepth(0);
+		} else {
+			continue;
+		}
+		entries[index].message = entries[index].message + '\n\n' + block.content;
+	}
+}
@@ -14,17 +14,43 @@ import type { EventStore } from '../store/EventStore';
 import type { SwipeContext } from '../store/projection';
 import { getV2Settings } from '../settings';
 import { debugLog } from '../../utils/debug';
-import { formatPrecomputedChapters } from './chapters';
-import { formatOutOfContextEvents } from './events';
 import { formatStateForInjection, type InjectOptions } from './state';
+import {
+	buildNarrativeTemplateData,
+	getActiveInjectionTemplates,
+	renderNarrativeTemplate,
+} from './templates';
 import type { Projection } from '../types/snapshot';
+import type { V2InjectionSection } from '../settings/types';
+import {
+	INJECTION_SECTIONS,
+	STATE_SECTIONS,
+	groupSectionsByPlacement,
+	insertChatInjections,
+	insertTextCompletionInjections,
+	type InjectionBlock,
+	type InjectionGroup,
+} from './placement';
 import { computeOptimalContext, estimateMessageTokens, type ContextPlan } from './contextBudget';
 import { getDefaultTokenCounter, type TokenCounter } from '../utils/tokenCount';
+import { buildRelevanceContext } from './relevance';
+import { getActiveCalendar } from '../cardExtensions/reader';
+import { buildRetrievalContext, createHistoryRetriever, type HistoryRetriever } from './retrieval';
+import { getEmbeddingProvider } from './embeddings';
+import {
+	findDroppedHistory,
+	type InjectionPreview,
+	type InjectionPreviewBlock,
+	type InjectionPreviewSection,
+} from './injectionPreview';
 
 // Track if hooks are registered
 let chatCompletionHookRegistered = false;
 let textCompletionHookRegistered = false;
 
+// Fixed prompt content of the last generation, for the injection preview
+let lastFixedContentTokens: number | null = null;
+
 // Bridge functions - set by registerBridgeFunctions to avoid circular dependency
 let bridgeFunctions: {
 	getV2EventStore: () => EventStore | null;
@@ -162,10 +188,22 @@ async function countChatFixedContentTokens(
 	return total;
 }
 
+/**
+ * Count the combined tokens of several pieces of content.
+ */
+async function countTokensOf(contents: string[], tokenCounter: TokenCounter): Promise<number> {
+	const counts = await Promise.all(
+		contents.map(content =>
+			content ? tokenCounter.countTokens(content) : Promise.resolve(0),
+		),
+	);
+	return counts.reduce((sum, count) => sum + count, 0);
+}
+
 /**
  * Build injection options from V2 settings.
  */
-function buildInjectOptions(): InjectOptions {
+export function buildInjectOptions(): InjectOptions {
 	const settings = getV2Settings();
 	return {
 		includeTime: settings.v2Track.time,
@@ -179,6 +217,14 @@ function buildInjectOptions(): InjectOptions {
 		includeEvents: false,
 		maxChapters: settings.v2MaxRecentChapters,
 		maxEvents: settings.v2MaxRecentEvents,
+		template: getActiveInjectionTemplates().state,
+		calendar: getActiveCalendar(),
+		...(settings.v2RelevanceFilter.mode === 'always' && {
+			relevance: buildRelevanceContext(
+				SillyTavern.getContext() as unknown as STContext,
+				settings.v2RelevanceFilter,
+			),
+		}),
 	};
 }
 
@@ -256,45 +302,222 @@ function getAvailableBudget(stContext: STContext): number {
 }
 
 /**
- * Build the "before messages" injection content from a context plan.
- * This goes after the system prompt but before chat messages.
+ * Get the sections to inject, per the auto-injection toggles.
  */
-function buildBeforeMessagesContentFromPlan(plan: ContextPlan): string {
-	const sections: string[] = [];
-
-	// 1. Past chapters (Story So Far)
-	if (plan.pastChapters.length > 0) {
-		const chaptersContent = formatPrecomputedChapters(plan.pastChapters);
-		if (chaptersContent) {
-			sections.push(`[Story So Far]\n${chaptersContent}\n[/Story So Far]`);
-		}
-	}
+function getInjectedSections(): V2InjectionSection[] {
+	const settings = getV2Settings();
+	return [
+		...(settings.v2InjectNarrative ? (['chapters', 'events'] as const) : []),
+		...(settings.v2InjectState ? STATE_SECTIONS : []),
+	];
+}
 
-	// 2. Out-of-context events from current chapter
-	if (plan.currentChapterEvents.length > 0) {
-		const eventsContent = formatOutOfContextEvents(
-			plan.currentChapterEvents,
-			plan.currentChapterEvents.length,
-		);
-		if (eventsContent) {
-			sections.push(`[Recent Events]\n${eventsContent}\n[/Recent Events]`);
-		}
+/**
+ * Build the state content for one placement group (its state sections only).
+ */
+function buildStateContent(
+	store: EventStore,
+	swipeContext: SwipeContext,
+	projection: Projection,
+	sections: Set<V2InjectionSection>,
+	injectOptions: InjectOptions,
+): string {
+	if (!STATE_SECTIONS.some(section => sections.has(section))) {
+		return '';
 	}
-
-	return sections.join('\n\n');
+	return formatStateForInjection(projection, store, swipeContext, {
+		...injectOptions,
+		includeTime: injectOptions.includeTime && sections.has('time'),
+		includeLocation: injectOptions.includeLocation && sections.has('location'),
+		includeClimate: injectOptions.includeClimate && sections.has('climate'),
+		includeCharacters: injectOptions.includeCharacters && sections.has('characters'),
+		includeRelationships:
+			injectOptions.includeRelationships && sections.has('relationships'),
+		includeScene: injectOptions.includeScene && sections.has('scene'),
+	});
 }
 
 /**
- * Build the "after messages" injection content (current state).
- * This goes after all chat messages.
+ * Build the state content of every placement group. With the 'overBudget'
+ * relevance mode, also builds the relevance-filtered variant for the planner
+ * to fall back on.
  */
-function buildAfterMessagesContent(
+function buildStateContents(
 	store: EventStore,
 	swipeContext: SwipeContext,
 	projection: Projection,
-): string {
+	stContext: STContext,
+	groups: InjectionGroup[],
+): {
+	full: string[];
+	reduced: string[] | null;
+	options: InjectOptions;
+	reducedOptions: InjectOptions | null;
+} {
+	const settings = getV2Settings();
 	const injectOptions = buildInjectOptions();
-	return formatStateForInjection(projection, store, swipeContext, injectOptions);
+	const full = groups.map(group =>
+		buildStateContent(store, swipeContext, projection, group.sections, injectOptions),
+	);
+	if (settings.v2RelevanceFilter.mode !== 'overBudget') {
+		return { full, reduced: null, options: injectOptions, reducedOptions: null };
+	}
+
+	const reducedOptions: InjectOptions = {
+		...injectOptions,
+		relevance: buildRelevanceContext(stContext, settings.v2RelevanceFilter),
+	};
+	const reduced = groups.map(group =>
+		buildStateContent(store, swipeContext, projection, group.sections, reducedOptions),
+	);
+	return { full, reduced, options: injectOptions, reducedOptions };
+}
+
+/**
+ * Build the retriever that picks past chapters and events by relevance, or
+ * undefined to pick the most recent ones.
+ */
+function buildHistoryRetriever(
+	projection: Projection,
+	stContext: STContext,
+): HistoryRetriever | undefined {
+	const settings = getV2Settings();
+	const retrieval = settings.v2HistoryRetrieval;
+	if (!settings.v2InjectNarrative || retrieval.selection !== 'relevant') {
+		return undefined;
+	}
+	return createHistoryRetriever(
+		buildRetrievalContext(projection, stContext, retrieval),
+		getEmbeddingProvider(retrieval),
+	);
+}
+
+/**
+ * Build the narrative content for one placement group from a context plan:
+ * past arcs and chapters (Story So Far) and out-of-context events from the current chapter.
+ */
+function buildNarrativeContentFromPlan(
+	plan: ContextPlan,
+	sections: Set<V2InjectionSection>,
+): string {
+	const data = buildNarrativeTemplateData(
+		sections.has('chapters') ? plan.pastChapters : [],
+		sections.has('events') ? plan.currentChapterEvents : [],
+		sections.has('chapters') ? plan.pastArcs : [],
+	);
+	if (data.arcs.length === 0 && data.chapters.length === 0 && data.events.length === 0) {
+		return '';
+	}
+	return renderNarrativeTemplate(data, getActiveInjectionTemplates().narrative);
+}
+
+/**
+ * Build the injection block of each placement group, narrative before state.
+ * Blocks of groups without content are empty.
+ */
+function buildInjectionBlocks(
+	groups: InjectionGroup[],
+	stateContents: string[],
+	plan: ContextPlan,
+): InjectionBlock[] {
+	return groups.map((group, i) => ({
+		placement: group.placement,
+		content: [buildNarrativeContentFromPlan(plan, group.sections), stateContents[i]]
+			.filter(Boolean)
+			.join('\n\n'),
+	}));
+}
+
+/**
+ * What the hooks need to plan an injection.
+ */
+interface PlanInjectionInput {
+	store: EventStore;
+	swipeContext: SwipeContext;
+	stContext: STContext;
+	/** Projection the state is rendered from */
+	projection: Projection;
+	/** Budget for messages and injection (after fixed content) */
+	budget: number;
+	/** Token counts of the messages that would be sent, in order */
+	messageTokens: Map<number, number>;
+	totalMessages: number;
+	tokenCounter: TokenCounter;
+}
+
+/**
+ * A planned injection: the context plan and the blocks built from it.
+ */
+interface PlannedInjection {
+	plan: ContextPlan;
+	groups: InjectionGroup[];
+	/** Options the planned state was rendered with (full or relevance-filtered) */
+	stateOptions: InjectOptions;
+	/** Block of each group, in the order of `groups` (empty if nothing to inject) */
+	groupBlocks: InjectionBlock[];
+	/** Blocks to insert */
+	blocks: InjectionBlock[];
+}
+
+/**
+ * Plan what to inject within the budget and build the injection blocks.
+ * Shared by both prompt hooks and the injection preview.
+ */
+async function planInjection(input: PlanInjectionInput): Promise<PlannedInjection> {
+	const { store, swipeContext, stContext, projection, tokenCounter } = input;
+	const settings = getV2Settings();
+
+	// Build state content per placement to know its token cost
+	const groups = groupSectionsByPlacement(
+		settings.v2InjectionPlacements,
+		getInjectedSections(),
+	);
+	const stateContents = buildStateContents(
+		store,
+		swipeContext,
+		projection,
+		stContext,
+		groups,
+	);
+	const stateTokens = await countTokensOf(stateContents.full, tokenCounter);
+	const reducedStateTokens = stateContents.reduced
+		? await countTokensOf(stateContents.reduced, tokenCounter)
+		: undefined;
+
+	// Note: stateTokens is passed separately, and narrative tokens
+	// are calculated inside computeOptimalContext as part of chapters/events
+	// If narrative injection is disabled, set maxPastChapters and maxEvents to 0
+	const plan = await computeOptimalContext({
+		budget: input.budget,
+		stateTokens,
+		reducedStateTokens,
+		messageTokens: input.messageTokens,
+		store,
+		swipeContext,
+		maxPastChapters: settings.v2InjectNarrative ? settings.v2MaxRecentChapters : 0,
+		maxEvents: settings.v2InjectNarrative ? settings.v2MaxRecentEvents : 0,
+		totalMessages: input.totalMessages,
+		tokenCounter,
+		retriever: buildHistoryRetriever(projection, stContext),
+	});
+
+	// Build content from plan
+	const useReduced = plan.reducedState && stateContents.reduced !== null;
+	const groupBlocks = buildInjectionBlocks(
+		groups,
+		useReduced && stateContents.reduced ? stateContents.reduced : stateContents.full,
+		plan,
+	);
+	return {
+		plan,
+		groups,
+		stateOptions:
+			useReduced && stateContents.reducedOptions
+				? stateContents.reducedOptions
+				: stateContents.options,
+		groupBlocks,
+		blocks: groupBlocks.filter(block => block.content),
+	};
 }
 
 /**
@@ -388,12 +611,7 @@ async function handlePromptReady(eventData: ChatCompletionPromptReadyData): Prom
 		debugLog(
 			`Budget: max=${maxBudget}, fixed=${fixedContentTokens}, available=${availableBudget}`,
 		);
-
-		// Build state content to know its token cost (skip if state injection disabled)
-		const stateContent = settings.v2InjectState
-			? buildAfterMessagesContent(store, swipeContext, projection)
-			: '';
-		const stateTokens = stateContent ? await tokenCounter.countTokens(stateContent) : 0;
+		lastFixedContentTokens = fixedContentTokens;
 
 		// Estimate message tokens from ST's chat array
 		// Note: ST's chat array has messages in order, but may include system messages
@@ -410,17 +628,13 @@ async function handlePromptReady(eventData: ChatCompletionPromptReadyData): Prom
 		);
 
 		// Compute optimal context with available budget (after fixed content)
-		// If narrative injection is disabled, set maxPastChapters and maxEvents to 0
-		const plan = await computeOptimalContext({
-			budget: availableBudget,
-			stateTokens,
-			messageTokens,
+		const { plan, blocks } = await planInjection({
 			store,
 			swipeContext,
-			maxPastChapters: settings.v2InjectNarrative
-				? settings.v2MaxRecentChapters
-				: 0,
-			maxEvents: settings.v2InjectNarrative ? settings.v2MaxRecentEvents : 0,
+			stContext,
+			projection,
+			budget: availableBudget,
+			messageTokens,
 			totalMessages: chatOnlyMessages.length,
 			tokenCounter,
 		});
@@ -428,13 +642,10 @@ async function handlePromptReady(eventData: ChatCompletionPromptReadyData): Prom
 		debugLog(
 			`Context plan: firstMessage=${plan.firstMessageInContext}, ` +
 				`chapters=${plan.pastChapters.length}, events=${plan.currentChapterEvents.length}, ` +
-				`totalTokens=${plan.totalTokens}`,
+				`totalTokens=${plan.totalTokens}, reducedState=${plan.reducedState}`,
 		);
 
-		// Build content from plan
-		const beforeContent = buildBeforeMessagesContentFromPlan(plan);
-
-		if (!beforeContent && !stateContent) {
+		if (blocks.length === 0) {
 			debugLog('No injection content generated');
 			return;
 		}
@@ -453,55 +664,10 @@ async function handlePromptReady(eventData: ChatCompletionPromptReadyData): Prom
 			}
 		}
 
-		// Find system message index (after potential message removal)
-		const systemMessageIndex = chatMessages.findIndex(m => m.role === 'system');
-
-		// Insert state before the last message if it's an assistant message (prefill/continuation)
-		// Otherwise insert at the end
-		if (stateContent) {
-			const lastMessage = chatMessages[chatMessages.length - 1];
-			if (lastMessage && lastMessage.role === 'assistant') {
-				// Prefill/continuation - insert before the assistant's partial response if custom depth is disabled.
-				chatMessages.splice(
-					chatMessages.length - (settings.v2InjectionDepth + 1),
-					0,
-					{
-						role: 'user' as const,
-						content: stateContent,
-					},
-				);
-				debugLog('Injected BlazeTracker state before assistant prefill');
-			} else {
-				chatMessages.splice(
-					chatMessages.length - settings.v2InjectionDepth,
-					0,
-					{
-						role: 'user' as const,
-						content: stateContent,
-					},
-				);
-				debugLog('Injected BlazeTracker state at end of messages');
-			}
-		}
-
-		// Insert chapters/events after the system message
-		if (beforeContent) {
-			if (systemMessageIndex >= 0) {
-				// Insert new message after system
-				chatMessages.splice(systemMessageIndex + 1, 0, {
-					role: 'user' as const,
-					content: beforeContent,
-				});
-				debugLog('Injected BlazeTracker context after system message');
-			} else {
-				// No system message - insert at beginning
-				chatMessages.unshift({
-					role: 'user' as const,
-					content: beforeContent,
-				});
-				debugLog('Injected BlazeTracker context at beginning');
-			}
-		}
+		insertChatInjections(chatMessages, blocks);
+		debugLog(
+			`Injected BlazeTracker context at: ${blocks.map(b => b.placement.position).join(', ')}`,
+		);
 	} catch (error) {
 		debugLog('Error in chat completion prompt hook:', error);
 	}
@@ -584,12 +750,7 @@ async function handleTextCompletionPromptReady(
 		debugLog(
 			`Budget: max=${maxBudget}, fixed=${fixedContentTokens}, available=${availableBudget}`,
 		);
-
-		// Build state content to know its token cost (skip if state injection disabled)
-		const stateContent = settings.v2InjectState
-			? buildAfterMessagesContent(store, swipeContext, projection)
-			: '';
-		const stateTokens = stateContent ? await tokenCounter.countTokens(stateContent) : 0;
+		lastFixedContentTokens = fixedContentTokens;
 
 		// Count tokens for each message in finalMesSend
 		// Each entry has: { message: string, extensionPrompts: string[] }
@@ -604,19 +765,13 @@ async function handleTextCompletionPromptReady(
 		}
 
 		// Compute optimal context with proper per-message token counts
-		// Note: stateTokens is passed separately, and beforeContent tokens
-		// are calculated inside computeOptimalContext as part of chapters/events
-		// If narrative injection is disabled, set maxPastChapters and maxEvents to 0
-		const plan = await computeOptimalContext({
-			budget: availableBudget,
-			stateTokens,
-			messageTokens,
+		const { plan, blocks } = await planInjection({
 			store,
 			swipeContext,
-			maxPastChapters: settings.v2InjectNarrative
-				? settings.v2MaxRecentChapters
-				: 0,
-			maxEvents: settings.v2InjectNarrative ? settings.v2MaxRecentEvents : 0,
+			stContext,
+			projection,
+			budget: availableBudget,
+			messageTokens,
 			totalMessages: eventData.finalMesSend.length,
 			tokenCounter,
 		});
@@ -624,7 +779,7 @@ async function handleTextCompletionPromptReady(
 		debugLog(
 			`Text completion context plan: firstMessage=${plan.firstMessageInContext}, ` +
 				`chapters=${plan.pastChapters.length}, events=${plan.currentChapterEvents.length}, ` +
-				`totalTokens=${plan.totalTokens}`,
+				`totalTokens=${plan.totalTokens}, reducedState=${plan.reducedState}`,
 		);
 
 		// Remove messages that are before firstMessageInContext
@@ -638,10 +793,7 @@ async function handleTextCompletionPromptReady(
 			}
 		}
 
-		// Build content from plan
-		const beforeContent = buildBeforeMessagesContentFromPlan(plan);
-
-		if (!beforeContent && !stateContent) {
+		if (blocks.length === 0) {
 			debugLog('No injection content generated');
 			return;
 		}
@@ -658,51 +810,164 @@ async function handleTextCompletionPromptReady(
 		//
 		// finalMesSend structure: Array<{message: string, extensionPrompts: string[]}>
 		// combine() does: finalMesSend.map(e => `${e.extensionPrompts.join('')}${e.message}`).join('')
-
-		// Prepend chapters/events BEFORE all messages
-		// We add to the first message's extensionPrompts array
-		if (beforeContent) {
-			const firstMessage = eventData.finalMesSend[0];
-			if (!firstMessage.extensionPrompts) {
-				firstMessage.extensionPrompts = [];
+		//
+		// finalMesSend ends with the latest chat messages (plus the assistant's
+		// prefill in continuation mode), so entries map onto the end of the chat
+		const lastChatMessage = stContext.chat[stContext.chat.length - 1];
+		const isContinuation = !!lastChatMessage && !lastChatMessage.is_user;
+		const chatOffset = stContext.chat.length - eventData.finalMesSend.length;
+		let lastUserIndex = -1;
+		for (let i = eventData.finalMesSend.length - 1; i >= 0; i--) {
+			if (stContext.chat[chatOffset + i]?.is_user) {
+				lastUserIndex = i;
+				break;
 			}
-			// Add our content at the START of extension prompts (before other extensions)
-			(firstMessage.extensionPrompts as string[]).unshift(beforeContent + '\n\n');
-			debugLog('Injected BlazeTracker context before messages via finalMesSend');
 		}
 
-		// Append state AFTER all messages (or before assistant prefill in continuation mode)
-		if (stateContent) {
-			const lastChatMessage = stContext.chat[stContext.chat.length - 1];
-			const isContinuation = lastChatMessage && !lastChatMessage.is_user;
-
-			if (isContinuation && eventData.finalMesSend.length > 1) {
-				// Continuation mode: append state to second-to-last message
-				// (the last one is the assistant's prefill)
-				const targetMessage =
-					eventData.finalMesSend[
-						eventData.finalMesSend.length -
-							(settings.v2InjectionDepth + 2)
-					];
-				targetMessage.message =
-					targetMessage.message + '\n\n' + stateContent;
-				debugLog('Injected BlazeTracker state before assistant prefill');
-			} else {
-				// Normal mode OR only one message: append to last message
-				const lastMessage =
-					eventData.finalMesSend[
-						eventData.finalMesSend.length -
-							(settings.v2InjectionDepth + 1)
-					];
-				lastMessage.message = lastMessage.message + '\n\n' + stateContent;
-				debugLog('Injected BlazeTracker state after messages');
-			}
-		}
+		insertTextCompletionInjections(
+			eventData.finalMesSend,
+			blocks,
+			isContinuation,
+			lastUserIndex,
+		);
+		debugLog(
+			`Injected BlazeTracker context via finalMesSend at: ${blocks.map(b => b.placement.position).join(', ')}`,
+		);
 	} catch (error) {
 		debugLog('Error in text completion prompt hook:', error);
 	}
 }
 
+/**
+ * Preview what the prompt hook would inject for a generation from the chat as
+ * it is now, without generating.
+ *
+ * Fixed prompt content (system prompt, character card, world info) is only
+ * known during a generation, so the last generation's is assumed. Messages are
+ * the chat's visible messages, counted like chat completion prompts.
+ */
+export async function previewInjection(): Promise<
+	{ preview: InjectionPreview; error?: never } | { preview?: never; error: string }
+> {
+	const storeAndContext = getStoreAndContext();
+	if (!storeAndContext) {
+		return { error: 'No tracked state in this chat. Run /bt-extract-all first.' };
+	}
+	if (!isEnabled()) {
+		return { error: 'Nothing would be injected: auto extraction is disabled.' };
+	}
+
+	const { store, swipeContext, stContext } = storeAndContext;
+	const settings = getV2Settings();
+	if (!settings.v2InjectState && !settings.v2InjectNarrative) {
+		return {
+			error: 'Nothing would be injected: state and narrative injection are disabled.',
+		};
+	}
+
+	// Same projection as the hooks: the state before the last message
+	const projectionMessageId = stContext.chat.length - 2;
+	if (projectionMessageId < 0) {
+		return { error: 'Nothing would be injected: the chat has no earlier messages.' };
+	}
+	let projection: Projection;
+	try {
+		projection = store.projectStateAtMessage(projectionMessageId, swipeContext);
+	} catch (e) {
+		debugLog('Failed to project state:', e);
+		return { error: 'Unable to compute the state for the latest message.' };
+	}
+
+	const tokenCounter = getDefaultTokenCounter();
+	const maxBudget = getAvailableBudget(stContext);
+	const fixedTokens = lastFixedContentTokens;
+	const availableBudget = Math.max(0, maxBudget - (fixedTokens ?? 0));
+
+	// Hidden messages aren't sent
+	const sentMessageIds = stContext.chat
+		.map((message, id) => ({ message, id }))
+		.filter(({ message }) => !(message as { is_system?: boolean }).is_system)
+		.map(({ id }) => id);
+	const messageTokens = await estimateMessageTokens(
+		sentMessageIds.map(id => ({
+			mes: stContext.chat[id].mes,
+			extra: stContext.chat[id].extra as { token_count?: number } | undefined,
+		})),
+		tokenCounter,
+	);
+
+	const { plan, groups, stateOptions, groupBlocks } = await planInjection({
+		store,
+		swipeContext,
+		stContext,
+		projection,
+		budget: availableBudget,
+		messageTokens,
+		totalMessages: sentMessageIds.length,
+		tokenCounter,
+	});
+
+	// Each section rendered alone, in injection order
+	const sections: InjectionPreviewSection[] = [];
+	for (const section of INJECTION_SECTIONS) {
+		const group = groups.find(g => g.sections.has(section));
+		if (!group) continue;
+		const content = STATE_SECTIONS.includes(section)
+			? buildStateContent(
+					store,
+					swipeContext,
+					projection,
+					new Set([section]),
+					stateOptions,
+				)
+			: buildNarrativeContentFromPlan(plan, new Set([section]));
+		sections.push({
+			section,
+			placement: group.placement,
+			tokens: await tokenCounter.countTokens(content),
+		});
+	}
+
+	const blocks: InjectionPreviewBlock[] = [];
+	for (const [i, block] of groupBlocks.entries()) {
+		if (!block.content) continue;
+		blocks.push({
+			placement: block.placement,
+			sections: INJECTION_SECTIONS.filter(section =>
+				groups[i].sections.has(section),
+			),
+			content: block.content,
+			tokens: await tokenCounter.countTokens(block.content),
+		});
+	}
+
+	const dropped = settings.v2InjectNarrative
+		? findDroppedHistory(plan, store, swipeContext)
+		: { chapters: [], events: [] };
+
+	return {
+		preview: {
+			tokenCounter: tokenCounter.getName(),
+			maxBudget,
+			fixedTokens,
+			availableBudget,
+			totalMessages: sentMessageIds.length,
+			firstMessageInContext: plan.firstMessageInContext,
+			firstMessageId: sentMessageIds[plan.firstMessageInContext] ?? null,
+			reducedState: plan.reducedState,
+			totalTokens: plan.totalTokens,
+			breakdown: plan.breakdown,
+			sections,
+			blocks,
+			includedChapters: plan.pastChapters,
+			droppedChapters: dropped.chapters,
+			includedArcs: plan.pastArcs,
+			includedEvents: plan.currentChapterEvents,
+			droppedEvents: dropped.events,
+		},
+	};
+}
+
 /**
  * Register the prompt hooks with SillyTavern.
  * Should be called once during extension initialization.
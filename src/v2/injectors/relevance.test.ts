@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+	scoreCharacters,
+	scoreRelationship,
+	selectTopK,
+	buildRelevanceContext,
+	type RelevanceContext,
+} from './relevance';
+import type { STContext } from '../../types/st.d';
+import type { NarrativeEvent, Projection, RelationshipState } from '../types/snapshot';
+
+function createProjection(present: string[], akas: Record<string, string[]> = {}): Projection {
+	return {
+		source: { messageId: 1, swipeId: 0 },
+		time: null,
+		location: null,
+		forecasts: {},
+		weatherOverrides: [],
+		climate: null,
+		scene: null,
+		characters: Object.fromEntries(
+			present.map(name => [
+				name,
+				{
+					name,
+					position: '',
+					activity: null,
+					mood: [],
+					physicalState: [],
+					outfit: {
+						head: null,
+						neck: null,
+						jacket: null,
+						back: null,
+						torso: null,
+						legs: null,
+						underwear: null,
+						socks: null,
+						footwear: null,
+					},
+					akas: akas[name] ?? [],
+				},
+			]),
+		),
+		relationships: {},
+		currentChapter: 0,
+		charactersPresent: present,
+		narrativeEvents: [],
+	};
+}
+
+function createEvent(witnesses: string[], subjects: Array<[string, string]> = []): NarrativeEvent {
+	return {
+		source: { messageId: 1, swipeId: 0 },
+		description: 'Something happens',
+		tension: { level: 'aware', type: 'conversation' },
+		witnesses,
+		subjects: subjects.map(pair => ({ pair, subject: 'argument', isMilestone: false })),
+		location: 'Tavern',
+		chapterIndex: 0,
+		narrativeTime: null,
+	};
+}
+
+function createContext(overrides: Partial<RelevanceContext> = {}): RelevanceContext {
+	return {
+		topK: 2,
+		recentMessages: [],
+		userName: '',
+		charName: '',
+		...overrides,
+	};
+}
+
+function createRelationship(a: string, b: string): RelationshipState {
+	return {
+		pair: [a, b],
+		status: 'friendly',
+		aToB: { feelings: [], secrets: [], wants: [] },
+		bToA: { feelings: [], secrets: [], wants: [] },
+	};
+}
+
+describe('buildRelevanceContext', () => {
+	it('takes the last messages and the chat names', () => {
+		const stContext = {
+			chat: [{ mes: 'one' }, { mes: 'two' }, { mes: 'three' }],
+			name1: 'Alice',
+			name2: 'Bob',
+		} as unknown as STContext;
+
+		expect(
+			buildRelevanceContext(stContext, {
+				mode: 'always',
+				topK: 3,
+				recentMessages: 2,
+			}),
+		).toEqual({
+			topK: 3,
+			recentMessages: ['two', 'three'],
+			userName: 'Alice',
+			charName: 'Bob',
+		});
+	});
+});
+
+describe('scoreCharacters', () => {
+	it('ranks {{user}} and {{char}} above other present characters', () => {
+		const scores = scoreCharacters(
+			createProjection(['Alice', 'Bob', 'Carl']),
+			[],
+			createContext({ userName: 'alice', charName: 'Bob' }),
+		);
+
+		expect(scores.get('Alice')).toBeGreaterThan(scores.get('Carl')!);
+		expect(scores.get('Bob')).toBeGreaterThan(scores.get('Carl')!);
+	});
+
+	it('weights recent mentions, including akas, over older ones', () => {
+		const scores = scoreCharacters(
+			createProjection(['Alice', 'Bob', 'Carl'], { Carl: ['the innkeeper'] }),
+			[],
+			createContext({
+				recentMessages: ['Alice laughs.', 'The innkeeper brings ale.'],
+			}),
+		);
+
+		expect(scores.get('Carl')).toBeGreaterThan(scores.get('Alice')!);
+		expect(scores.get('Alice')).toBeGreaterThan(scores.get('Bob')!);
+	});
+
+	it('only counts whole-word mentions', () => {
+		const scores = scoreCharacters(
+			createProjection(['Al', 'Bob']),
+			[],
+			createContext({ recentMessages: ['Alice and Albert talk.'] }),
+		);
+
+		expect(scores.get('Al')).toBe(scores.get('Bob'));
+	});
+
+	it('counts recent events the character witnessed or was a subject of', () => {
+		const scores = scoreCharacters(
+			createProjection(['Alice', 'Bob', 'Carl']),
+			[createEvent(['Alice', 'Bob'], [['Bob', 'Dana']])],
+			createContext(),
+		);
+
+		expect(scores.get('Bob')).toBeGreaterThan(scores.get('Alice')!);
+		expect(scores.get('Alice')).toBeGreaterThan(scores.get('Carl')!);
+	});
+});
+
+describe('scoreRelationship', () => {
+	it('adds both characters and recent events about the pair', () => {
+		const scores = new Map([
+			['Alice', 2],
+			['Bob', 1],
+		]);
+
+		expect(scoreRelationship(createRelationship('Alice', 'Bob'), scores, [])).toBe(3);
+		expect(
+			scoreRelationship(createRelationship('Alice', 'Bob'), scores, [
+				createEvent([], [['Bob', 'Alice']]),
+			]),
+		).toBe(4);
+	});
+});
+
+describe('selectTopK', () => {
+	it('keeps the highest scores and the original order', () => {
+		const scores: Record<string, number> = { a: 1, b: 5, c: 3, d: 5 };
+
+		expect(selectTopK(['a', 'b', 'c', 'd'], item => scores[item], 3)).toEqual({
+			focused: ['b', 'c', 'd'],
+			others: ['a'],
+		});
+	});
+
+	it('prefers earlier items on ties', () => {
+		expect(selectTopK(['a', 'b', 'c'], () => 1, 2)).toEqual({
+			focused: ['a', 'b'],
+			others: ['c'],
+		});
+	});
+});
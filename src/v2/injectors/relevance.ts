@@ -0,0 +1,177 @@
+/**
+ * Relevance Filtering
+ *
+ * In a big cast, injecting every present character and relationship spends
+ * the budget on people who aren't part of the current exchange. Characters
+ * are scored by recent mentions, presence, being {{user}} or {{char}}, and
+ * recent narrative events; the state injection shows the top-K characters
+ * and relationships in full and summarises the rest in one line.
+ */
+
+import type { STContext } from '../../types/st.d';
+import type { NarrativeEvent, Projection, RelationshipState } from '../types/snapshot';
+import type { V2RelevanceSettings } from '../settings/types';
+
+/**
+ * What relevance is scored against.
+ */
+export interface RelevanceContext {
+	/** Characters (and relationships) injected in full */
+	topK: number;
+	/** Recent chat messages, oldest first */
+	recentMessages: string[];
+	/** {{user}} */
+	userName: string;
+	/** {{char}} */
+	charName: string;
+}
+
+/** Score for being in the scene */
+const PRESENCE_SCORE = 1;
+/** Score for being {{user}} or {{char}} */
+const USER_OR_CHAR_SCORE = 3;
+/** Score per mention in the newest message (older messages count less) */
+const MENTION_SCORE = 2;
+/** Mentions counted per message, so one long message can't dominate */
+const MAX_MENTIONS_PER_MESSAGE = 3;
+/** Recent narrative events considered */
+const RECENT_EVENT_COUNT = 5;
+/** Score per recent event witnessed */
+const WITNESS_SCORE = 0.5;
+/** Score per recent event with a relationship subject involving the character (or pair) */
+const EVENT_SUBJECT_SCORE = 1;
+
+/**
+ * Build the relevance context from the current chat.
+ */
+export function buildRelevanceContext(
+	stContext: STContext,
+	settings: V2RelevanceSettings,
+): RelevanceContext {
+	return {
+		topK: settings.topK,
+		recentMessages: stContext.chat
+			.slice(-settings.recentMessages)
+			.map(message => message.mes ?? ''),
+		userName: stContext.name1 ?? '',
+		charName: stContext.name2 ?? '',
+	};
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Count whole-word mentions of any of the names in a text.
+ */
+function countMentions(text: string, names: string[]): number {
+	const alternatives = names.filter(Boolean).map(escapeRegExp).join('|');
+	if (!alternatives) return 0;
+	const pattern = new RegExp(
+		`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`,
+		'giu',
+	);
+	return text.match(pattern)?.length ?? 0;
+}
+
+function isSamePair(a: [string, string], b: [string, string]): boolean {
+	const [a0, a1] = a.map(name => name.toLowerCase());
+	const [b0, b1] = b.map(name => name.toLowerCase());
+	return (a0 === b0 && a1 === b1) || (a0 === b1 && a1 === b0);
+}
+
+/**
+ * Score every present character.
+ *
+ * @param events - Narrative events of the current chapter, oldest first
+ */
+export function scoreCharacters(
+	projection: Projection,
+	events: NarrativeEvent[],
+	context: RelevanceContext,
+): Map<string, number> {
+	const scores = new Map<string, number>();
+	const recentEvents = events.slice(-RECENT_EVENT_COUNT);
+	const messageCount = context.recentMessages.length;
+	const userOrChar = [context.userName, context.charName]
+		.filter(Boolean)
+		.map(name => name.toLowerCase());
+
+	for (const name of projection.charactersPresent) {
+		const lower = name.toLowerCase();
+		let score = PRESENCE_SCORE;
+
+		if (userOrChar.includes(lower)) {
+			score += USER_OR_CHAR_SCORE;
+		}
+
+		// Mentions, weighted by recency (the newest message counts fully)
+		const names = [name, ...(projection.characters[name]?.akas ?? [])];
+		context.recentMessages.forEach((message, i) => {
+			const mentions = Math.min(
+				countMentions(message, names),
+				MAX_MENTIONS_PER_MESSAGE,
+			);
+			score += (MENTION_SCORE * mentions * (i + 1)) / messageCount;
+		});
+
+		for (const event of recentEvents) {
+			if (event.witnesses.some(witness => witness.toLowerCase() === lower)) {
+				score += WITNESS_SCORE;
+			}
+			if (
+				event.subjects.some(s =>
+					s.pair.some(member => member.toLowerCase() === lower),
+				)
+			) {
+				score += EVENT_SUBJECT_SCORE;
+			}
+		}
+
+		scores.set(name, score);
+	}
+
+	return scores;
+}
+
+/**
+ * Score a relationship: both characters' scores, plus recent events about the pair.
+ */
+export function scoreRelationship(
+	relationship: RelationshipState,
+	characterScores: Map<string, number>,
+	events: NarrativeEvent[],
+): number {
+	const [a, b] = relationship.pair;
+	const eventScore = events
+		.slice(-RECENT_EVENT_COUNT)
+		.filter(event =>
+			event.subjects.some(s => isSamePair(s.pair, relationship.pair)),
+		).length;
+	return (
+		(characterScores.get(a) ?? 0) +
+		(characterScores.get(b) ?? 0) +
+		eventScore * EVENT_SUBJECT_SCORE
+	);
+}
+
+/**
+ * Split items into the top-K by score and the rest, both in their original order.
+ * Ties keep the earlier item.
+ */
+export function selectTopK<T>(
+	items: T[],
+	score: (item: T) => number,
+	topK: number,
+): { focused: T[]; others: T[] } {
+	const ranked = items
+		.map((item, index) => ({ index, score: score(item) }))
+		.sort((a, b) => b.score - a.score || a.index - b.index);
+	const focusedIndices = new Set(ranked.slice(0, Math.max(0, topK)).map(r => r.index));
+
+	return {
+		focused: items.filter((_, index) => focusedIndices.has(index)),
+		others: items.filter((_, index) => !focusedIndices.has(index)),
+	};
+}
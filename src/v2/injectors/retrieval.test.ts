@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest';
+import {
+	buildRetrievalContext,
+	createHistoryRetriever,
+	extractKeywords,
+	scoreChapter,
+	scoreEvent,
+	type RetrievalContext,
+} from './retrieval';
+import type { EmbeddingProvider } from './embeddings';
+import type { STContext } from '../../types/st.d';
+import type { ComputedChapter } from '../narrative/computeChapters';
+import type { NarrativeEvent, Projection } from '../types/snapshot';
+
+function createEvent(
+	description: string,
+	witnesses: string[] = [],
+	location = 'bar · Tavern',
+): NarrativeEvent {
+	return {
+		source: { messageId: 1, swipeId: 0 },
+		description,
+		tension: { level: 'aware', type: 'conversation' },
+		witnesses,
+		subjects: [],
+		location,
+		chapterIndex: 0,
+		narrativeTime: null,
+	};
+}
+
+function createChapter(
+	index: number,
+	events: NarrativeEvent[] = [],
+	summary = 'Things happen.',
+): ComputedChapter {
+	return {
+		index,
+		title: `Chapter ${index + 1}`,
+		summary,
+		endReason: 'location_change',
+		endedAtMessage: { messageId: index * 10 + 9, swipeId: 0 },
+		startMessageId: index * 10,
+		eventCount: events.length,
+		milestones: [],
+		narrativeEvents: events,
+		startTime: null,
+		endTime: null,
+	};
+}
+
+function createContext(overrides: Partial<RetrievalContext> = {}): RetrievalContext {
+	return {
+		characters: [],
+		place: '',
+		keywords: new Set(),
+		queryText: '',
+		...overrides,
+	};
+}
+
+describe('extractKeywords', () => {
+	it('keeps longer words, lowercased, without common words or possessives', () => {
+		expect([
+			...extractKeywords("The Dragon's hoard was there, in the old mine."),
+		]).toEqual(['dragon', 'hoard', 'mine']);
+	});
+});
+
+describe('buildRetrievalContext', () => {
+	it('takes the scene and the last messages', () => {
+		const projection = {
+			charactersPresent: ['Alice', 'Bob'],
+			location: { place: 'Old Mill' },
+		} as unknown as Projection;
+		const stContext = {
+			chat: [
+				{ mes: 'Lanterns flicker.' },
+				{ mes: 'Bob returns.' },
+				{ mes: 'Silence.' },
+			],
+		} as unknown as STContext;
+
+		const context = buildRetrievalContext(projection, stContext, {
+			selection: 'relevant',
+			recentMessages: 2,
+			embeddings: false,
+			embeddingsBaseUrl: '',
+			embeddingsModel: '',
+			embeddingsApiKey: '',
+		});
+
+		expect(context.characters).toEqual(['alice', 'bob']);
+		expect(context.place).toBe('old mill');
+		expect([...context.keywords]).toEqual(['returns', 'silence']);
+		expect(context.queryText).toBe('Bob returns.\nSilence.');
+	});
+});
+
+describe('scoreChapter', () => {
+	it('scores present characters, milestones between them, place and keywords', () => {
+		const chapter = createChapter(0, [
+			createEvent('Alice hid the amulet', ['Alice', 'Carl']),
+		]);
+		chapter.milestones = [{ pair: ['Alice', 'Bob'], subject: 'intimate_kiss' }];
+
+		expect(scoreChapter(chapter, createContext())).toBe(0);
+		expect(scoreChapter(chapter, createContext({ characters: ['alice'] }))).toBe(1);
+		expect(scoreChapter(chapter, createContext({ characters: ['alice', 'bob'] }))).toBe(
+			4,
+		);
+		expect(scoreChapter(chapter, createContext({ place: 'tavern' }))).toBe(2);
+		expect(
+			scoreChapter(chapter, createContext({ keywords: new Set(['amulet']) })),
+		).toBe(0.5);
+	});
+
+	it('counts each subject between present characters once', () => {
+		const event = createEvent('They argue', ['Alice', 'Bob']);
+		event.subjects = [
+			{ pair: ['Alice', 'Bob'], subject: 'argument', isMilestone: false },
+		];
+		const chapter = createChapter(0, [event, { ...event }]);
+
+		expect(scoreChapter(chapter, createContext({ characters: ['alice', 'bob'] }))).toBe(
+			3,
+		);
+	});
+});
+
+describe('scoreEvent', () => {
+	it('matches the place within the event location', () => {
+		const event = createEvent('A toast', [], 'corner booth · Rusty Anchor');
+
+		expect(scoreEvent(event, createContext({ place: 'rusty anchor' }))).toBe(2);
+		expect(scoreEvent(event, createContext({ place: 'harbour' }))).toBe(0);
+	});
+});
+
+describe('createHistoryRetriever', () => {
+	it('picks the most recent items when nothing matches', async () => {
+		const chapters = [createChapter(0), createChapter(1), createChapter(2)];
+		const retriever = createHistoryRetriever(createContext());
+
+		const selected = await retriever.selectChapters(chapters, 2);
+
+		expect(selected.map(ch => ch.index)).toEqual([1, 2]);
+	});
+
+	it('brings back a chapter with a returning character, in story order', async () => {
+		const chapters = [
+			createChapter(0, [createEvent('Dana leaves town', ['Dana'])]),
+			createChapter(1),
+			createChapter(2),
+		];
+		const retriever = createHistoryRetriever(createContext({ characters: ['dana'] }));
+
+		const selected = await retriever.selectChapters(chapters, 2);
+
+		expect(selected.map(ch => ch.index)).toEqual([0, 2]);
+	});
+
+	it('picks events the same way', async () => {
+		const events = [
+			createEvent('Bob buys a sword'),
+			createEvent('Bob eats'),
+			createEvent('Bob sleeps'),
+		];
+		const retriever = createHistoryRetriever(
+			createContext({ keywords: new Set(['sword']) }),
+		);
+
+		expect(await retriever.selectEvents(events, 1)).toEqual([events[0]]);
+	});
+
+	it('returns everything when under the limit', async () => {
+		const chapters = [createChapter(0)];
+		const retriever = createHistoryRetriever(createContext());
+
+		expect(await retriever.selectChapters(chapters, 5)).toBe(chapters);
+		expect(await retriever.selectChapters([...chapters, createChapter(1)], 0)).toEqual(
+			[],
+		);
+	});
+
+	it('adds embedding similarity to the recent messages', async () => {
+		const chapters = [
+			createChapter(0, [], 'A storm at sea'),
+			createChapter(1, [], 'A quiet dinner'),
+			createChapter(2, [], 'A market day'),
+		];
+		const embeddings: EmbeddingProvider = {
+			embed: async texts =>
+				texts.map(text => (/storm|waves/i.test(text) ? [1, 0] : [0, 1])),
+		};
+		const retriever = createHistoryRetriever(
+			createContext({ queryText: 'The waves rise.' }),
+			embeddings,
+		);
+
+		const selected = await retriever.selectChapters(chapters, 1);
+
+		expect(selected.map(ch => ch.index)).toEqual([0]);
+	});
+
+	it('carries on without embeddings when they fail', async () => {
+		const chapters = [createChapter(0), createChapter(1)];
+		let calls = 0;
+		const embeddings: EmbeddingProvider = {
+			embed: async () => {
+				calls++;
+				throw new Error('connection refused');
+			},
+		};
+		const retriever = createHistoryRetriever(
+			createContext({ queryText: 'Hello' }),
+			embeddings,
+		);
+
+		expect((await retriever.selectChapters(chapters, 1)).map(ch => ch.index)).toEqual([
+			1,
+		]);
+		const callsAfterFailure = calls;
+		await retriever.selectEvents([createEvent('a'), createEvent('b')], 1);
+		expect(calls).toBe(callsAfterFailure);
+	});
+});
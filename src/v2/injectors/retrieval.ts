@@ -0,0 +1,342 @@
+/**
+ * History Retrieval
+ *
+ * Picks the past chapters and out-of-context events worth injecting by how
+ * well they match the current scene, instead of by recency alone, so a
+ * character returning after many chapters brings their history back with
+ * them. Items are scored by the present characters they involve, relationship
+ * subjects between present characters, the current place, keyword overlap with
+ * recent messages and, optionally, embedding similarity. A small recency bonus
+ * breaks ties, so with nothing to go on the most recent items win.
+ */
+
+import type { STContext } from '../../types/st.d';
+import type { NarrativeEvent, Projection } from '../types/snapshot';
+import type { ComputedChapter } from '../narrative/computeChapters';
+import type { V2HistoryRetrievalSettings } from '../settings/types';
+import { debugWarn } from '../../utils/debug';
+import { cosineSimilarity, type EmbeddingProvider } from './embeddings';
+import { selectTopK } from './relevance';
+
+/**
+ * What past chapters and events are scored against.
+ */
+export interface RetrievalContext {
+	/** Present characters, lowercased */
+	characters: string[];
+	/** Current place, lowercased ('' if unknown) */
+	place: string;
+	/** Keywords of the recent messages */
+	keywords: Set<string>;
+	/** Recent messages joined, for embedding similarity */
+	queryText: string;
+}
+
+/**
+ * Picks past chapters and events for the context plan.
+ */
+export interface HistoryRetriever {
+	/** Pick up to `max` chapters, keeping their order */
+	selectChapters(chapters: ComputedChapter[], max: number): Promise<ComputedChapter[]>;
+	/** Pick up to `max` events, keeping their order */
+	selectEvents(events: NarrativeEvent[], max: number): Promise<NarrativeEvent[]>;
+}
+
+/** Score per present character involved */
+const CHARACTER_SCORE = 1;
+/** Score per relationship subject between two present characters */
+const SUBJECT_SCORE = 1;
+/** Score per relationship milestone between two present characters */
+const MILESTONE_SCORE = 2;
+/** Score for happening at the current place */
+const LOCATION_SCORE = 2;
+/** Score per keyword shared with the recent messages */
+const KEYWORD_SCORE = 0.5;
+/** Shared keywords counted, so long chapter summaries can't dominate */
+const MAX_KEYWORD_MATCHES = 6;
+/** Score for a perfect embedding match */
+const EMBEDDING_SCORE = 4;
+/** Score for being the most recent item (older items get less) */
+const RECENCY_SCORE = 0.5;
+/** Characters of recent messages embedded as the query */
+const MAX_QUERY_LENGTH = 2000;
+/** Shortest word counted as a keyword */
+const MIN_KEYWORD_LENGTH = 4;
+
+/** Common words that say nothing about what a passage is about */
+const STOPWORDS = new Set([
+	'about',
+	'after',
+	'again',
+	'also',
+	'back',
+	'been',
+	'before',
+	'being',
+	'both',
+	'came',
+	'come',
+	'could',
+	'down',
+	'each',
+	'even',
+	'from',
+	'have',
+	'here',
+	'into',
+	'just',
+	'like',
+	'made',
+	'make',
+	'more',
+	'much',
+	'only',
+	'other',
+	'over',
+	'said',
+	'some',
+	'still',
+	'such',
+	'than',
+	'that',
+	'their',
+	'them',
+	'then',
+	'there',
+	'these',
+	'they',
+	'this',
+	'those',
+	'through',
+	'very',
+	'want',
+	'were',
+	'what',
+	'when',
+	'where',
+	'which',
+	'while',
+	'will',
+	'with',
+	'would',
+	'your',
+]);
+
+/**
+ * Extract the keywords of a text: lowercased words of four or more letters,
+ * without common words.
+ */
+export function extractKeywords(text: string): Set<string> {
+	const keywords = new Set<string>();
+	for (const word of text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []) {
+		const trimmed = word.replace(/'s$|'/g, '');
+		if (trimmed.length >= MIN_KEYWORD_LENGTH && !STOPWORDS.has(trimmed)) {
+			keywords.add(trimmed);
+		}
+	}
+	return keywords;
+}
+
+/**
+ * Build the retrieval context from the scene and the recent messages.
+ */
+export function buildRetrievalContext(
+	projection: Projection,
+	stContext: STContext,
+	settings: V2HistoryRetrievalSettings,
+): RetrievalContext {
+	const recentText = stContext.chat
+		.slice(-settings.recentMessages)
+		.map(message => message.mes ?? '')
+		.join('\n');
+
+	return {
+		characters: projection.charactersPresent.map(name => name.toLowerCase()),
+		place: projection.location?.place.toLowerCase() ?? '',
+		keywords: extractKeywords(recentText),
+		queryText: recentText.slice(-MAX_QUERY_LENGTH),
+	};
+}
+
+/**
+ * The text of a chapter that's matched against the scene.
+ */
+function getChapterText(chapter: ComputedChapter): string {
+	return [
+		chapter.title,
+		chapter.summary,
+		...chapter.narrativeEvents.map(event => event.description),
+	]
+		.filter(Boolean)
+		.join('\n');
+}
+
+function scoreKeywords(text: string, context: RetrievalContext): number {
+	let matches = 0;
+	for (const keyword of extractKeywords(text)) {
+		if (context.keywords.has(keyword)) matches++;
+	}
+	return Math.min(matches, MAX_KEYWORD_MATCHES) * KEYWORD_SCORE;
+}
+
+/**
+ * Score what a set of events (and milestones) says about the scene: the
+ * present characters involved, subjects between present characters, and
+ * whether any happened at the current place.
+ */
+function scoreEvents(
+	events: NarrativeEvent[],
+	milestonePairs: Array<[string, string]>,
+	context: RetrievalContext,
+): number {
+	const present = new Set(context.characters);
+	const isPresentPair = (pair: [string, string]) =>
+		pair.every(name => present.has(name.toLowerCase()));
+	const pairKey = (pair: [string, string]) =>
+		pair
+			.map(name => name.toLowerCase())
+			.sort()
+			.join('|');
+
+	const involved = new Set<string>();
+	const subjects = new Set<string>();
+	const milestones = new Set<string>();
+	let atPlace = false;
+
+	for (const pair of milestonePairs) {
+		pair.forEach(name => involved.add(name.toLowerCase()));
+		if (isPresentPair(pair)) milestones.add(pairKey(pair));
+	}
+
+	for (const event of events) {
+		event.witnesses.forEach(name => involved.add(name.toLowerCase()));
+		for (const { pair, subject, isMilestone } of event.subjects) {
+			pair.forEach(name => involved.add(name.toLowerCase()));
+			if (!isPresentPair(pair)) continue;
+			if (isMilestone) {
+				milestones.add(pairKey(pair));
+			} else {
+				subjects.add(`${pairKey(pair)}:${subject}`);
+			}
+		}
+		if (context.place && event.location.toLowerCase().includes(context.place)) {
+			atPlace = true;
+		}
+	}
+
+	let score = 0;
+	for (const name of involved) {
+		if (present.has(name)) score += CHARACTER_SCORE;
+	}
+	score += subjects.size * SUBJECT_SCORE;
+	score += milestones.size * MILESTONE_SCORE;
+	if (atPlace) score += LOCATION_SCORE;
+	return score;
+}
+
+/**
+ * Score a past chapter against the scene (without recency or embeddings).
+ */
+export function scoreChapter(chapter: ComputedChapter, context: RetrievalContext): number {
+	return (
+		scoreEvents(
+			chapter.narrativeEvents,
+			chapter.milestones.map(milestone => milestone.pair),
+			context,
+		) + scoreKeywords(getChapterText(chapter), context)
+	);
+}
+
+/**
+ * Score a narrative event against the scene (without recency or embeddings).
+ */
+export function scoreEvent(event: NarrativeEvent, context: RetrievalContext): number {
+	return scoreEvents([event], [], context) + scoreKeywords(event.description, context);
+}
+
+/**
+ * Create a retriever that picks the highest-scoring items.
+ *
+ * Scores are cached, so the retriever can be asked repeatedly while the context
+ * plan is computed. If the embedding provider fails, retrieval carries on
+ * without it.
+ *
+ * @param embeddings - Optional provider for embedding similarity
+ */
+export function createHistoryRetriever(
+	context: RetrievalContext,
+	embeddings: EmbeddingProvider | null = null,
+): HistoryRetriever {
+	const scores = new Map<string, number>();
+	let provider = embeddings;
+	let queryVector: Promise<number[]> | null = null;
+
+	/**
+	 * Embedding similarity of each text to the recent messages (0 without embeddings).
+	 */
+	const getSimilarities = async (texts: string[]): Promise<number[]> => {
+		if (!provider || texts.length === 0 || !context.queryText.trim()) {
+			return texts.map(() => 0);
+		}
+		try {
+			queryVector ??= provider
+				.embed([context.queryText])
+				.then(([vector]) => vector);
+			const [query, vectors] = await Promise.all([
+				queryVector,
+				provider.embed(texts),
+			]);
+			return vectors.map(vector => Math.max(0, cosineSimilarity(query, vector)));
+		} catch (error) {
+			debugWarn('Embeddings unavailable, retrieving by keywords only:', error);
+			provider = null;
+			return texts.map(() => 0);
+		}
+	};
+
+	const select = async <T>(
+		items: T[],
+		max: number,
+		getKey: (item: T) => string,
+		getText: (item: T) => string,
+		score: (item: T) => number,
+	): Promise<T[]> => {
+		if (items.length <= max) return items;
+		if (max <= 0) return [];
+
+		const unscored = items.filter(item => !scores.has(getKey(item)));
+		const similarities = await getSimilarities(unscored.map(getText));
+		unscored.forEach((item, i) => {
+			scores.set(getKey(item), score(item) + similarities[i] * EMBEDDING_SCORE);
+		});
+
+		const positions = new Map(items.map((item, index) => [item, index]));
+		return selectTopK(
+			items,
+			item =>
+				scores.get(getKey(item))! +
+				(RECENCY_SCORE * (positions.get(item)! + 1)) / items.length,
+			max,
+		).focused;
+	};
+
+	return {
+		selectChapters: (chapters, max) =>
+			select(
+				chapters,
+				max,
+				chapter => `chapter:${chapter.index}`,
+				getChapterText,
+				chapter => scoreChapter(chapter, context),
+			),
+		selectEvents: (events, max) =>
+			select(
+				events,
+				max,
+				event =>
+					`event:${event.source.messageId}:${event.source.swipeId}:${event.description}`,
+				event => event.description,
+				event => scoreEvent(event, context),
+			),
+	};
+}
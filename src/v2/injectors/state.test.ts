@@ -95,6 +95,7 @@ function createTestProjection(overrides: Partial<Projection> = {}): Projection {
 		time: null,
 		location: null,
 		forecasts: {},
+		weatherOverrides: [],
 		climate: null,
 		scene: null,
 		characters: {},
@@ -675,6 +676,69 @@ describe('formatStateForInjection', () => {
 		});
 	});
 
+	describe('relevance filtering', () => {
+		function createCastProjection(): Projection {
+			return createTestProjection({
+				characters: {
+					Alice: createTestCharacter('Alice'),
+					Bob: createTestCharacter('Bob'),
+					Carl: createTestCharacter('Carl'),
+					Dana: createTestCharacter('Dana'),
+				},
+				charactersPresent: ['Alice', 'Bob', 'Carl', 'Dana'],
+				relationships: {
+					'Alice|Bob': createTestRelationship('Alice', 'Bob'),
+					'Carl|Dana': createTestRelationship('Carl', 'Dana', {
+						status: 'strangers',
+					}),
+				},
+			});
+		}
+
+		const relevance = {
+			topK: 1,
+			recentMessages: ['Bob waves at Alice.'],
+			userName: 'Alice',
+			charName: '',
+		};
+
+		it('details the focused characters and summarises the rest', () => {
+			const result = formatStateForInjection(
+				createCastProjection(),
+				store,
+				swipeContext,
+				{ relevance: { ...relevance, topK: 2 } },
+			);
+			expect(result).toContain('Alice: standing nearby');
+			expect(result).toContain('Bob: standing nearby');
+			expect(result).not.toContain('Carl: standing nearby');
+			expect(result).toContain('Also present: Carl, Dana');
+		});
+
+		it('summarises relationships outside the top K in one line', () => {
+			const result = formatStateForInjection(
+				createCastProjection(),
+				store,
+				swipeContext,
+				{ relevance },
+			);
+			expect(result).toContain('Alice → Bob: feels fond');
+			expect(result).not.toContain('Carl → Dana');
+			expect(result).toContain('Other relationships: Carl & Dana: strangers');
+		});
+
+		it('injects everyone in full without a relevance context', () => {
+			const result = formatStateForInjection(
+				createCastProjection(),
+				store,
+				swipeContext,
+			);
+			expect(result).toContain('Dana: standing nearby');
+			expect(result).not.toContain('Also present:');
+			expect(result).not.toContain('Other relationships:');
+		});
+	});
+
 	describe('chapters formatting', () => {
 		it('includes story so far section with chapters', () => {
 			mockComputeChapters.mockReturnValue([
@@ -14,20 +14,20 @@ import type {
 import type { EventStore } from '../store/EventStore';
 import type { SwipeContext } from '../store/projection';
 import { computeNarrativeEvents, computeChapters } from '../narrative';
+import {
+	renderStateTemplate,
+	toTemplateEvent,
+	type StateTemplateData,
+	type TemplateRelationship,
+} from './templates';
+import { scoreCharacters, scoreRelationship, selectTopK, type RelevanceContext } from './relevance';
+import type { CalendarDefinition } from '../../utils/calendar';
+import { formatMoment } from '../../utils/dateFormat';
+import type { SkyState } from '../types/common';
+import { describeSky } from '../../weather/astronomy';
 
 const EXTENSION_KEY = 'blazetracker';
 
-/**
- * Chapter summary for injection (matches computeChapters return type).
- */
-interface ChapterSummary {
-	index: number;
-	title: string;
-	summary: string;
-	endReason: string | null;
-	eventCount: number;
-}
-
 /**
  * Options for state injection.
  */
@@ -54,6 +54,12 @@ export interface InjectOptions {
 	maxEvents?: number;
 	/** Include relationship secrets */
 	includeSecrets?: boolean;
+	/** State template to render with (empty = default template) */
+	template?: string;
+	/** Inject only the most relevant characters and relationships in full */
+	relevance?: RelevanceContext;
+	/** Custom calendar to show the date on (omitted or null = Gregorian) */
+	calendar?: CalendarDefinition | null;
 }
 
 const DEFAULT_OPTIONS: InjectOptions = {
@@ -75,11 +81,15 @@ const DEFAULT_OPTIONS: InjectOptions = {
 // ============================================
 
 /**
- * Format time from projection's moment object.
+ * Format time from projection's moment object, on the custom calendar if given.
  * Includes daylight phase (dawn, day, dusk, night) if provided.
  */
-function formatTime(time: moment.Moment, daylight?: string): string {
-	const formatted = time.format('dddd, MMMM D, YYYY [at] h:mm A');
+export function formatTime(
+	time: moment.Moment,
+	daylight?: string,
+	calendar?: CalendarDefinition | null,
+): string {
+	const formatted = formatMoment(time, 'dddd, MMMM D, YYYY [at] h:mm A', calendar);
 	if (daylight) {
 		return `${formatted} (${daylight})`;
 	}
@@ -97,12 +107,13 @@ function formatLocation(location: { area: string; place: string; position: strin
 /**
  * Format climate for injection.
  */
-function formatClimate(climate: {
+export function formatClimate(climate: {
 	conditions: string;
 	temperature: number;
 	humidity: number;
 	windSpeed: number;
 	isIndoors: boolean;
+	sky?: SkyState;
 }): string {
 	const parts = [climate.conditions];
 
@@ -119,6 +130,10 @@ function formatClimate(climate: {
 		if (climate.windSpeed > 15) {
 			parts.push(`windy (${Math.round(climate.windSpeed)} mph)`);
 		}
+		const sky = climate.sky ? describeSky(climate.sky) : '';
+		if (sky) {
+			parts.push(sky);
+		}
 	}
 
 	return parts.join(', ');
@@ -127,7 +142,7 @@ function formatClimate(climate: {
 /**
  * Format a character's outfit.
  */
-function formatOutfit(outfit: CharacterState['outfit']): string {
+export function formatOutfit(outfit: CharacterState['outfit']): string {
 	const parts: string[] = [];
 
 	if (outfit.torso) parts.push(outfit.torso);
@@ -173,7 +188,7 @@ function formatCharacter(char: CharacterState): string {
 /**
  * Format a relationship for injection.
  */
-function formatRelationship(rel: RelationshipState, includeSecrets: boolean): string {
+export function formatRelationship(rel: RelationshipState, includeSecrets: boolean): string {
 	const [a, b] = rel.pair;
 	const lines: string[] = [`${a} & ${b}: ${rel.status}`];
 
@@ -210,49 +225,13 @@ function formatRelationship(rel: RelationshipState, includeSecrets: boolean): st
 	return lines.join('\n');
 }
 
-/**
- * Format chapters for injection (story so far).
- */
-function formatChapters(chapters: ChapterSummary[], maxChapters: number): string {
-	// Get completed chapters (those with end reason)
-	const completedChapters = chapters.filter(ch => ch.endReason !== null);
-
-	if (completedChapters.length === 0) {
-		return '';
-	}
-
-	// Take the most recent chapters
-	const recentChapters = completedChapters.slice(-maxChapters);
-
-	const lines: string[] = [];
-	for (const chapter of recentChapters) {
-		if (chapter.summary) {
-			lines.push(`Chapter ${chapter.index + 1}: ${chapter.title}`);
-			lines.push(`  ${chapter.summary}`);
-		}
-	}
-
-	return lines.join('\n');
-}
-
-/**
- * Format narrative events for injection.
- */
-function formatEvents(events: NarrativeEvent[], maxEvents: number): string {
-	if (events.length === 0) {
-		return '';
-	}
-
-	// Take most recent events
-	const recentEvents = events.slice(-maxEvents);
-
-	return recentEvents.map(e => `- ${e.description}`).join('\n');
-}
-
 /**
  * Build knowledge gaps - events that present characters missed.
  */
-function buildKnowledgeGaps(events: NarrativeEvent[], presentCharacters: string[]): string[] {
+function buildKnowledgeGaps(
+	events: NarrativeEvent[],
+	presentCharacters: string[],
+): StateTemplateData['knowledgeGaps'] {
 	const gaps = new Map<string, string[]>();
 	const presentSet = new Set(presentCharacters.map(c => c.toLowerCase()));
 
@@ -275,144 +254,224 @@ function buildKnowledgeGaps(events: NarrativeEvent[], presentCharacters: string[
 		}
 	}
 
-	// Format as strings
-	const result: string[] = [];
-	for (const [character, missedEvents] of gaps) {
-		if (missedEvents.length > 0) {
-			result.push(`${character} was not present for: ${missedEvents.join('; ')}`);
+	const result: StateTemplateData['knowledgeGaps'] = [];
+	for (const [character, missed] of gaps) {
+		if (missed.length > 0) {
+			result.push({
+				character,
+				missed,
+				text: `${character} was not present for: ${missed.join('; ')}`,
+			});
 		}
 	}
 
 	return result;
 }
 
+/**
+ * Convert a relationship into template data.
+ */
+function toTemplateRelationship(
+	rel: RelationshipState,
+	includeSecrets: boolean,
+): TemplateRelationship {
+	const [a, b] = rel.pair;
+	return {
+		a,
+		b,
+		status: rel.status,
+		aToB: {
+			feelings: rel.aToB.feelings,
+			wants: rel.aToB.wants,
+			secrets: includeSecrets ? rel.aToB.secrets : [],
+		},
+		bToA: {
+			feelings: rel.bToA.feelings,
+			wants: rel.bToA.wants,
+			secrets: includeSecrets ? rel.bToA.secrets : [],
+		},
+		text: formatRelationship(rel, includeSecrets),
+	};
+}
+
 // ============================================
 // Main Formatting Function
 // ============================================
 
 /**
- * Format projection state for prompt injection.
- * Returns the formatted string to inject.
+ * Collect the data the state template renders, honouring the include options.
  */
-export function formatStateForInjection(
+export function buildStateTemplateData(
 	projection: Projection,
 	store: EventStore,
 	swipeContext: SwipeContext,
 	options: InjectOptions = {},
-): string {
+): StateTemplateData {
 	const opts = { ...DEFAULT_OPTIONS, ...options };
-	const sections: string[] = [];
+	const data: StateTemplateData = {
+		chapters: [],
+		scene: null,
+		time: null,
+		location: null,
+		climate: null,
+		characters: [],
+		otherCharacters: [],
+		events: [],
+		knowledgeGaps: [],
+		relationships: [],
+		otherRelationships: [],
+	};
+
+	// Relevance scores, when only the characters in focus are injected in full
+	let relevanceEvents: NarrativeEvent[] = [];
+	let characterScores: Map<string, number> | null = null;
+	if (opts.relevance && (opts.includeCharacters || opts.includeRelationships)) {
+		relevanceEvents = computeNarrativeEvents(
+			store,
+			swipeContext,
+			projection.currentChapter,
+		);
+		characterScores = scoreCharacters(projection, relevanceEvents, opts.relevance);
+	}
 
-	// ========================================
-	// Previous Chapters (Story So Far)
-	// ========================================
+	// Previous chapters (story so far) - the most recent completed ones with a summary
 	if (opts.includeChapters) {
-		const chapters = computeChapters(store, swipeContext);
-		const chaptersStr = formatChapters(chapters, opts.maxChapters ?? 3);
-		if (chaptersStr) {
-			sections.push(`[Story So Far]\n${chaptersStr}\n[/Story So Far]`);
-		}
+		data.chapters = computeChapters(store, swipeContext)
+			.filter(ch => ch.endReason !== null)
+			.slice(-(opts.maxChapters ?? 3))
+			.filter(ch => ch.summary)
+			.map(ch => ({
+				number: ch.index + 1,
+				title: ch.title,
+				summary: ch.summary,
+				milestones: '',
+			}));
 	}
 
-	// ========================================
-	// Current Scene State
-	// ========================================
-	const scenePrefix = `[Scene State]`;
-	const sceneSuffix = `\n[/Scene State]`;
-	let sceneOutput = ``;
-
-	// Scene info first - it's the narrative context
 	if (opts.includeScene && projection.scene) {
-		const scene = projection.scene;
-		sceneOutput += `\nTopic: ${scene.topic}`;
-		sceneOutput += `\nTone: ${scene.tone}`;
-		sceneOutput += `\nTension: ${scene.tension.level} (${scene.tension.type}, ${scene.tension.direction})`;
+		const { topic, tone, tension } = projection.scene;
+		data.scene = { topic, tone, tension: { ...tension } };
 	}
 
-	// Time
 	if (opts.includeTime && projection.time) {
-		sceneOutput += `\nTime: ${formatTime(projection.time, projection.climate?.daylight)}`;
+		data.time = formatTime(
+			projection.time,
+			projection.climate?.daylight,
+			opts.calendar,
+		);
 	}
 
-	// Location
 	if (opts.includeLocation && projection.location) {
-		sceneOutput += `\nLocation: ${formatLocation(projection.location)}`;
-
-		// Props
-		if (projection.location.props.length > 0) {
-			sceneOutput += `\nNearby objects: ${projection.location.props.join(', ')}`;
-		}
+		const { area, place, position, props } = projection.location;
+		data.location = {
+			area,
+			place,
+			position,
+			text: formatLocation(projection.location),
+			props,
+		};
 	}
 
-	// Climate
 	if (opts.includeClimate && projection.climate) {
-		sceneOutput += `\nClimate: ${formatClimate(projection.climate)}`;
-	}
-
-	// Characters
-	if (opts.includeCharacters && projection.charactersPresent.length > 0) {
-		const characters = projection.charactersPresent
+		const climate = projection.climate;
+		data.climate = {
+			conditions: climate.conditions,
+			temperature: Math.round(climate.temperature),
+			humidity: climate.humidity,
+			windSpeed: climate.windSpeed,
+			indoors: climate.isIndoors,
+			sky: climate.sky ? describeSky(climate.sky) : '',
+			text: formatClimate(climate),
+		};
+	}
+
+	if (opts.includeCharacters) {
+		let present = projection.charactersPresent
 			.map(name => projection.characters[name])
-			.filter(Boolean)
-			.map(char => formatCharacter(char))
-			.join('\n');
-
-		sceneOutput += `\nCharacters present:\n${characters}`;
-	}
-
-	if (sceneOutput !== ``) {
-		sections.push(scenePrefix, sceneOutput, sceneSuffix);
-	}
-
-	// ========================================
-	// Recent Events in Current Chapter
-	// ========================================
+			.filter(Boolean);
+		if (opts.relevance && characterScores) {
+			const scores = characterScores;
+			const { focused, others } = selectTopK(
+				present,
+				char => scores.get(char.name) ?? 0,
+				opts.relevance.topK,
+			);
+			present = focused;
+			data.otherCharacters = others.map(char => char.name);
+		}
+		data.characters = present.map(char => ({
+			name: char.name,
+			position: char.position || 'present',
+			activity: char.activity ?? '',
+			mood: char.mood,
+			physicalState: char.physicalState,
+			outfit: formatOutfit(char.outfit),
+			text: formatCharacter(char),
+		}));
+	}
+
+	// Recent events in the current chapter, plus what present characters missed
 	if (opts.includeEvents) {
 		const allEvents = computeNarrativeEvents(
 			store,
 			swipeContext,
 			projection.currentChapter,
 		);
-		const eventsStr = formatEvents(allEvents, opts.maxEvents ?? 10);
-
-		if (eventsStr) {
-			sections.push(`[Recent Events]\n${eventsStr}\n[/Recent Events]`);
-
-			// Add knowledge gaps for dramatic irony
-			if (opts.includeCharacters && projection.charactersPresent.length > 0) {
-				const knowledgeGaps = buildKnowledgeGaps(
-					allEvents,
-					projection.charactersPresent,
-				);
-				if (knowledgeGaps.length > 0) {
-					sections.push(
-						`[Knowledge Gaps]\n${knowledgeGaps.join('\n')}\n[/Knowledge Gaps]`,
-					);
-				}
-			}
+		data.events = allEvents.slice(-(opts.maxEvents ?? 10)).map(toTemplateEvent);
+
+		if (
+			data.events.length > 0 &&
+			opts.includeCharacters &&
+			projection.charactersPresent.length > 0
+		) {
+			data.knowledgeGaps = buildKnowledgeGaps(
+				allEvents,
+				projection.charactersPresent,
+			);
 		}
 	}
 
-	// ========================================
-	// Relationships (filtered for present characters)
-	// ========================================
-	if (opts.includeRelationships && Object.keys(projection.relationships).length > 0) {
+	// Relationships between present characters
+	if (opts.includeRelationships) {
 		const presentSet = new Set(projection.charactersPresent);
-
-		const relevantRelationships = Object.values(projection.relationships).filter(
+		let relationships = Object.values(projection.relationships).filter(
 			rel => presentSet.has(rel.pair[0]) && presentSet.has(rel.pair[1]),
 		);
-
-		if (relevantRelationships.length > 0) {
-			const relationshipsStr = relevantRelationships
-				.map(rel => formatRelationship(rel, opts.includeSecrets ?? true))
-				.join('\n\n');
-
-			sections.push(`[Relationships]\n${relationshipsStr}\n[/Relationships]`);
+		if (opts.relevance && characterScores) {
+			const scores = characterScores;
+			const { focused, others } = selectTopK(
+				relationships,
+				rel => scoreRelationship(rel, scores, relevanceEvents),
+				opts.relevance.topK,
+			);
+			relationships = focused;
+			data.otherRelationships = others.map(rel => ({
+				a: rel.pair[0],
+				b: rel.pair[1],
+				status: rel.status,
+			}));
 		}
+		data.relationships = relationships.map(rel =>
+			toTemplateRelationship(rel, opts.includeSecrets ?? true),
+		);
 	}
 
-	return sections.join('\n\n');
+	return data;
+}
+
+/**
+ * Format projection state for prompt injection.
+ * Returns the formatted string to inject, rendered with `options.template`
+ * (or the default template).
+ */
+export function formatStateForInjection(
+	projection: Projection,
+	store: EventStore,
+	swipeContext: SwipeContext,
+	options: InjectOptions = {},
+): string {
+	const data = buildStateTemplateData(projection, store, swipeContext, options);
+	return renderStateTemplate(data, options.template);
 }
 
 // ============================================
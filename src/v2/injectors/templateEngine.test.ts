@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, compileTemplate, TemplateError } from './templateEngine';
+
+describe('renderTemplate', () => {
+	it('substitutes dotted paths and leaves unknown values empty', () => {
+		expect(renderTemplate('{{a.b}}-{{missing.c}}-{{n}}', { a: { b: 'x' }, n: 0 })).toBe(
+			'x--0',
+		);
+	});
+
+	it('joins arrays when output directly', () => {
+		expect(renderTemplate('{{mood}}', { mood: ['calm', 'curious'] })).toBe(
+			'calm, curious',
+		);
+	});
+
+	it('loops with @index, @number, @first, @last and parent access', () => {
+		const template =
+			'{{#each items}}{{@number}}.{{this}}{{#if @first}}*{{/if}}{{#unless @last}}{{../sep}}{{/unless}}{{/each}}';
+		expect(renderTemplate(template, { items: ['a', 'b', 'c'], sep: ' | ' })).toBe(
+			'1.a* | 2.b | 3.c',
+		);
+	});
+
+	it('renders the else branch for empty lists and falsy values', () => {
+		const template =
+			'{{#each items}}{{name}}{{else}}none{{/each}}/{{#if flag}}y{{else}}n{{/if}}';
+		expect(renderTemplate(template, { items: [], flag: false })).toBe('none/n');
+	});
+
+	it('supports helpers and subexpressions', () => {
+		const data = { list: ['a', 'b'], x: '', y: 'Y', z: 'z' };
+		expect(renderTemplate('{{join list "; "}}', data)).toBe('a; b');
+		expect(renderTemplate('{{#if (or x y)}}yes{{/if}}', data)).toBe('yes');
+		expect(renderTemplate('{{#if (and x y)}}yes{{else}}no{{/if}}', data)).toBe('no');
+		expect(renderTemplate('{{#if (eq z "z")}}{{upper z}}{{/if}}', data)).toBe('Z');
+	});
+
+	it('enters objects with #with and reaches the root with @root', () => {
+		expect(
+			renderTemplate('{{#with scene}}{{topic}} ({{@root.name}}){{/with}}', {
+				scene: { topic: 'tea' },
+				name: 'Alice',
+			}),
+		).toBe('tea (Alice)');
+	});
+
+	it('removes lines that only hold block tags or comments', () => {
+		const template = [
+			'Start',
+			'{{! a comment }}',
+			'{{#each items}}',
+			'  - {{this}}',
+			'{{/each}}',
+			'End',
+		].join('\n');
+		expect(renderTemplate(template, { items: ['a', 'b'] })).toBe(
+			'Start\n  - a\n  - b\nEnd',
+		);
+	});
+
+	it('keeps inline block tags on their line', () => {
+		expect(renderTemplate('A {{#if x}}B{{/if}}\nC', { x: true })).toBe('A B\nC');
+	});
+
+	it('can be compiled once and rendered many times', () => {
+		const template = compileTemplate('Hi {{name}}');
+		expect(template.render({ name: 'Alice' })).toBe('Hi Alice');
+		expect(template.render({ name: 'Bob' })).toBe('Hi Bob');
+	});
+});
+
+describe('template errors', () => {
+	it.each([
+		['{{#if x}}unclosed', /Unclosed "#if"/],
+		['{{#each x}}{{/if}}', /Expected "\/each"/],
+		['{{/if}}', /Unexpected "\/if"/],
+		['{{#repeat x}}{{/repeat}}', /Unknown block "#repeat"/],
+		['{{shout name}}', /Unknown helper "shout"/],
+		['{{name', /Unclosed "{{"/],
+		['{{else}}', /Unexpected "else"/],
+	])('rejects %s', (template, message) => {
+		expect(() => renderTemplate(template, {})).toThrow(message);
+		expect(() => renderTemplate(template, {})).toThrow(TemplateError);
+	});
+
+	it('reports the line of the offending tag', () => {
+		try {
+			renderTemplate('line one\nline two {{#if}}', {});
+			expect.unreachable();
+		} catch (error) {
+			expect((error as TemplateError).line).toBe(2);
+		}
+	});
+});
@@ -0,0 +1,475 @@
+/**
+ * Injection Template Engine
+ *
+ * A small Handlebars-style template engine for the injection templates.
+ * Supports:
+ * - {{path}}, {{a.b.c}}, {{this}}, {{../parent}}, {{@root.path}}
+ * - {{@index}}, {{@number}} (1-based), {{@first}}, {{@last}}, {{@key}} inside #each
+ * - {{#if}}, {{#unless}}, {{#each}}, {{#with}} blocks with {{else}}
+ * - helpers and subexpressions: {{join list ", "}}, {{#if (or a b)}}
+ * - comments: {{! ... }} and {{!-- ... --}}
+ *
+ * Block tags and comments alone on a line remove the whole line, as in
+ * Handlebars, so templates can put each tag on its own line. Output is
+ * never escaped - the result goes into a prompt, not HTML.
+ */
+
+/**
+ * Error thrown for malformed templates (unclosed blocks, unknown helpers, ...).
+ */
+export class TemplateError extends Error {
+	constructor(
+		message: string,
+		/** 1-based line of the offending tag */
+		public readonly line: number,
+	) {
+		super(`${message} (line ${line})`);
+		this.name = 'TemplateError';
+	}
+}
+
+/**
+ * A parsed template, ready to render against data.
+ */
+export interface CompiledTemplate {
+	render(data: unknown): string;
+}
+
+// ============================================
+// AST
+// ============================================
+
+type Expression =
+	| { type: 'path'; path: string }
+	| { type: 'literal'; value: string | number | boolean | null }
+	| { type: 'call'; helper: string; args: Expression[] };
+
+type TemplateNode =
+	| { type: 'text'; text: string }
+	| { type: 'value'; expression: Expression }
+	| {
+			type: 'block';
+			name: BlockName;
+			expression: Expression;
+			body: TemplateNode[];
+			inverse: TemplateNode[];
+	  };
+
+type BlockName = 'if' | 'unless' | 'each' | 'with';
+
+const BLOCK_NAMES: BlockName[] = ['if', 'unless', 'each', 'with'];
+
+// ============================================
+// Helpers
+// ============================================
+
+type Helper = (...args: unknown[]) => unknown;
+
+const HELPERS: Record<string, Helper> = {
+	/** Join a list with a separator (default ", ") */
+	join: (list, separator) =>
+		Array.isArray(list)
+			? list.map(stringify).join(typeof separator === 'string' ? separator : ', ')
+			: stringify(list),
+	/** First truthy argument */
+	or: (...args) => args.find(isTruthy) ?? args[args.length - 1],
+	/** Whether every argument is truthy */
+	and: (...args) => args.every(isTruthy),
+	/** Negation */
+	not: value => !isTruthy(value),
+	/** Strict equality */
+	eq: (a, b) => a === b,
+	/** Number of items in a list */
+	length: list => (Array.isArray(list) ? list.length : 0),
+	/** Upper-case a string */
+	upper: value => stringify(value).toUpperCase(),
+	/** Lower-case a string */
+	lower: value => stringify(value).toLowerCase(),
+};
+
+/**
+ * Names of the helpers templates can call.
+ */
+export const TEMPLATE_HELPERS = Object.keys(HELPERS);
+
+function isTruthy(value: unknown): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	return !!value;
+}
+
+function stringify(value: unknown): string {
+	if (value === null || value === undefined) return '';
+	if (Array.isArray(value)) return value.map(stringify).join(', ');
+	if (typeof value === 'object') return '';
+	return String(value);
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+function lineAt(source: string, index: number): number {
+	let line = 1;
+	for (let i = 0; i < index; i++) {
+		if (source[i] === '\n') line++;
+	}
+	return line;
+}
+
+/**
+ * Split a tag's contents into argument tokens, keeping quoted strings and
+ * parenthesised subexpressions together.
+ */
+function tokenize(content: string, line: number): string[] {
+	const tokens: string[] = [];
+	let i = 0;
+	while (i < content.length) {
+		const char = content[i];
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+		const start = i;
+		if (char === '"' || char === "'") {
+			i++;
+			while (i < content.length && content[i] !== char) i++;
+			if (i >= content.length) {
+				throw new TemplateError('Unterminated string', line);
+			}
+			i++;
+		} else if (char === '(') {
+			let depth = 0;
+			for (; i < content.length; i++) {
+				if (content[i] === '(') depth++;
+				if (content[i] === ')') depth--;
+				if (depth === 0) break;
+			}
+			if (depth !== 0) {
+				throw new TemplateError('Unbalanced parentheses', line);
+			}
+			i++;
+		} else {
+			while (i < content.length && !/[\s()]/.test(content[i])) i++;
+		}
+		tokens.push(content.slice(start, i));
+	}
+	return tokens;
+}
+
+function parseArgument(token: string, line: number): Expression {
+	if (token.startsWith('(')) {
+		return parseExpression(token.slice(1, -1), line);
+	}
+	if (token.startsWith('"') || token.startsWith("'")) {
+		return { type: 'literal', value: token.slice(1, -1) };
+	}
+	if (/^-?\d+(\.\d+)?$/.test(token)) {
+		return { type: 'literal', value: Number(token) };
+	}
+	if (token === 'true' || token === 'false') {
+		return { type: 'literal', value: token === 'true' };
+	}
+	if (token === 'null') {
+		return { type: 'literal', value: null };
+	}
+	return { type: 'path', path: token };
+}
+
+function parseExpression(content: string, line: number): Expression {
+	const tokens = tokenize(content, line);
+	if (tokens.length === 0) {
+		throw new TemplateError('Empty expression', line);
+	}
+	const [head, ...rest] = tokens;
+	if (rest.length === 0) {
+		return parseArgument(head, line);
+	}
+	if (!HELPERS[head]) {
+		throw new TemplateError(`Unknown helper "${head}"`, line);
+	}
+	return { type: 'call', helper: head, args: rest.map(t => parseArgument(t, line)) };
+}
+
+interface OpenBlock {
+	name: BlockName;
+	expression: Expression;
+	body: TemplateNode[];
+	inverse: TemplateNode[];
+	inElse: boolean;
+	line: number;
+}
+
+/**
+ * Parse a template into nodes.
+ *
+ * @throws TemplateError if the template is malformed
+ */
+function parse(source: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	const stack: OpenBlock[] = [];
+	const current = (): TemplateNode[] => {
+		const top = stack[stack.length - 1];
+		if (!top) return root;
+		return top.inElse ? top.inverse : top.body;
+	};
+
+	let position = 0;
+	while (position < source.length) {
+		const open = source.indexOf('{{', position);
+		if (open === -1) {
+			current().push({ type: 'text', text: source.slice(position) });
+			break;
+		}
+
+		const line = lineAt(source, open);
+		const isLongComment = source.startsWith('{{!--', open);
+		const close = isLongComment
+			? source.indexOf('--}}', open)
+			: source.indexOf('}}', open);
+		if (close === -1) {
+			throw new TemplateError('Unclosed "{{"', line);
+		}
+		const end = close + (isLongComment ? 4 : 2);
+		const content = source.slice(open + 2, close).trim();
+		const kind = content[0];
+		const isStandaloneKind =
+			kind === '!' || kind === '#' || kind === '/' || content === 'else';
+
+		// Standalone block tags take their whole line with them
+		let textBefore = source.slice(position, open);
+		let next = end;
+		if (isStandaloneKind) {
+			const lineStart = textBefore.lastIndexOf('\n') + 1;
+			const atLineStart =
+				lineStart > 0 || position === 0 || source[position - 1] === '\n';
+			const newline = source.indexOf('\n', end);
+			const rest = source.slice(end, newline === -1 ? source.length : newline);
+			if (atLineStart && !textBefore.slice(lineStart).trim() && !rest.trim()) {
+				textBefore = textBefore.slice(0, lineStart);
+				next = newline === -1 ? source.length : newline + 1;
+			}
+		}
+		if (textBefore) {
+			current().push({ type: 'text', text: textBefore });
+		}
+		position = next;
+
+		if (kind === '!') {
+			continue;
+		}
+
+		if (kind === '#') {
+			const [name, ...args] = tokenize(content.slice(1), line);
+			if (!BLOCK_NAMES.includes(name as BlockName)) {
+				throw new TemplateError(`Unknown block "#${name}"`, line);
+			}
+			if (args.length === 0) {
+				throw new TemplateError(`"#${name}" needs an argument`, line);
+			}
+			stack.push({
+				name: name as BlockName,
+				expression: parseExpression(args.join(' '), line),
+				body: [],
+				inverse: [],
+				inElse: false,
+				line,
+			});
+			continue;
+		}
+
+		if (content === 'else') {
+			const top = stack[stack.length - 1];
+			if (!top || top.inElse) {
+				throw new TemplateError('Unexpected "else"', line);
+			}
+			top.inElse = true;
+			continue;
+		}
+
+		if (kind === '/') {
+			const name = content.slice(1).trim();
+			const top = stack.pop();
+			if (!top) {
+				throw new TemplateError(`Unexpected "/${name}"`, line);
+			}
+			if (top.name !== name) {
+				throw new TemplateError(
+					`Expected "/${top.name}" (opened on line ${top.line}) but found "/${name}"`,
+					line,
+				);
+			}
+			current().push({
+				type: 'block',
+				name: top.name,
+				expression: top.expression,
+				body: top.body,
+				inverse: top.inverse,
+			});
+			continue;
+		}
+
+		current().push({ type: 'value', expression: parseExpression(content, line) });
+	}
+
+	const unclosed = stack.pop();
+	if (unclosed) {
+		throw new TemplateError(`Unclosed "#${unclosed.name}"`, unclosed.line);
+	}
+	return root;
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+interface Frame {
+	value: unknown;
+	/** @index/@first/@last/@key inside #each */
+	data: Record<string, unknown>;
+}
+
+function lookupProperty(value: unknown, key: string): unknown {
+	if (value === null || value === undefined || typeof value !== 'object') {
+		return undefined;
+	}
+	return (value as Record<string, unknown>)[key];
+}
+
+function resolvePath(path: string, frames: Frame[]): unknown {
+	let depth = frames.length - 1;
+	let rest = path;
+	while (rest.startsWith('../')) {
+		depth = Math.max(0, depth - 1);
+		rest = rest.slice(3);
+	}
+
+	if (rest.startsWith('@')) {
+		const [name, ...keys] = rest.slice(1).split('.');
+		let value = name === 'root' ? frames[0].value : frames[depth].data[name];
+		for (const key of keys) value = lookupProperty(value, key);
+		return value;
+	}
+
+	if (rest === 'this' || rest === '.') {
+		return frames[depth].value;
+	}
+	if (rest.startsWith('this.')) {
+		rest = rest.slice(5);
+	}
+
+	let value = frames[depth].value;
+	for (const key of rest.split('.')) {
+		value = lookupProperty(value, key);
+	}
+	return value;
+}
+
+function evaluate(expression: Expression, frames: Frame[]): unknown {
+	switch (expression.type) {
+		case 'literal':
+			return expression.value;
+		case 'path':
+			return resolvePath(expression.path, frames);
+		case 'call':
+			return HELPERS[expression.helper](
+				...expression.args.map(arg => evaluate(arg, frames)),
+			);
+	}
+}
+
+function renderEach(
+	value: unknown,
+	node: Extract<TemplateNode, { type: 'block' }>,
+	frames: Frame[],
+): string {
+	const entries: Array<[string | number, unknown]> = Array.isArray(value)
+		? value.map((item, i) => [i, item])
+		: value && typeof value === 'object'
+			? Object.entries(value)
+			: [];
+	if (entries.length === 0) {
+		return renderNodes(node.inverse, frames);
+	}
+	return entries
+		.map(([key, item], index) =>
+			renderNodes(node.body, [
+				...frames,
+				{
+					value: item,
+					data: {
+						index,
+						number: index + 1,
+						key,
+						first: index === 0,
+						last: index === entries.length - 1,
+					},
+				},
+			]),
+		)
+		.join('');
+}
+
+function renderNodes(nodes: TemplateNode[], frames: Frame[]): string {
+	let output = '';
+	for (const node of nodes) {
+		if (node.type === 'text') {
+			output += node.text;
+			continue;
+		}
+		const value = evaluate(node.expression, frames);
+		if (node.type === 'value') {
+			output += stringify(value);
+			continue;
+		}
+		switch (node.name) {
+			case 'if':
+				output += renderNodes(
+					isTruthy(value) ? node.body : node.inverse,
+					frames,
+				);
+				break;
+			case 'unless':
+				output += renderNodes(
+					isTruthy(value) ? node.inverse : node.body,
+					frames,
+				);
+				break;
+			case 'with':
+				output += isTruthy(value)
+					? renderNodes(node.body, [...frames, { value, data: {} }])
+					: renderNodes(node.inverse, frames);
+				break;
+			case 'each':
+				output += renderEach(value, node, frames);
+				break;
+		}
+	}
+	return output;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Parse a template.
+ *
+ * @param source - Template source
+ * @returns The compiled template
+ * @throws TemplateError if the template is malformed
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+	const nodes = parse(source);
+	return {
+		render: data => renderNodes(nodes, [{ value: data, data: {} }]),
+	};
+}
+
+/**
+ * Parse and render a template in one go.
+ *
+ * @throws TemplateError if the template is malformed
+ */
+export function renderTemplate(source: string, data: unknown): string {
+	return compileTemplate(source).render(data);
+}
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import {
+	DEFAULT_NARRATIVE_TEMPLATE,
+	DEFAULT_STATE_TEMPLATE,
+	INJECTION_TEMPLATE_PRESETS,
+	renderNarrativeTemplate,
+	renderStateTemplate,
+	type NarrativeTemplateData,
+	type StateTemplateData,
+} from './templates';
+import { compileTemplate } from './templateEngine';
+
+function createStateData(): StateTemplateData {
+	return {
+		chapters: [
+			{
+				number: 1,
+				title: 'Arrival',
+				summary: 'Alice reaches town.',
+				milestones: '',
+			},
+		],
+		scene: {
+			topic: 'greetings',
+			tone: 'warm',
+			tension: { level: 'aware', type: 'conversation', direction: 'stable' },
+		},
+		time: 'Friday, June 14, 2024 at 9:30 PM',
+		location: {
+			area: 'Town',
+			place: 'Tavern',
+			position: '',
+			text: 'Town - Tavern',
+			props: ['mug', 'candle'],
+		},
+		climate: null,
+		characters: [
+			{
+				name: 'Alice',
+				position: 'at the bar',
+				activity: '',
+				mood: ['calm'],
+				physicalState: [],
+				outfit: 'dress, tights',
+				text: 'Alice: at the bar; mood: calm; wearing: dress, tights',
+			},
+		],
+		otherCharacters: [],
+		events: [{ description: 'Bob spills a drink', witnesses: ['Bob'], milestones: [] }],
+		knowledgeGaps: [
+			{
+				character: 'Alice',
+				missed: ['Bob spills a drink'],
+				text: 'Alice was not present for: Bob spills a drink',
+			},
+		],
+		relationships: [
+			{
+				a: 'Alice',
+				b: 'Bob',
+				status: 'friendly',
+				aToB: { feelings: ['fond'], wants: [], secrets: [] },
+				bToA: { feelings: [], wants: [], secrets: [] },
+				text: 'Alice & Bob: friendly\n  Alice → Bob: feels fond',
+			},
+			{
+				a: 'Alice',
+				b: 'Carl',
+				status: 'strangers',
+				aToB: { feelings: [], wants: [], secrets: [] },
+				bToA: { feelings: [], wants: [], secrets: [] },
+				text: 'Alice & Carl: strangers',
+			},
+		],
+		otherRelationships: [],
+	};
+}
+
+function createNarrativeData(): NarrativeTemplateData {
+	return {
+		arcs: [],
+		chapters: [
+			{
+				number: 2,
+				title: 'Storm',
+				summary: 'The road floods.',
+				milestones: 'Alice & Bob: First Kiss',
+			},
+		],
+		events: [
+			{
+				description: 'Bob proposes',
+				witnesses: ['Alice', 'Bob'],
+				milestones: ['Alice & Bob - Marriage: Bob proposes at dawn'],
+			},
+		],
+	};
+}
+
+describe('default templates', () => {
+	it('render the bracketed state format', () => {
+		expect(renderStateTemplate(createStateData())).toBe(
+			[
+				'[Story So Far]\nChapter 1: Arrival\n  Alice reaches town.\n[/Story So Far]',
+				'[Scene State]\n\n\nTopic: greetings\nTone: warm\nTension: aware (conversation, stable)' +
+					'\nTime: Friday, June 14, 2024 at 9:30 PM\nLocation: Town - Tavern' +
+					'\nNearby objects: mug, candle\nCharacters present:' +
+					'\nAlice: at the bar; mood: calm; wearing: dress, tights\n\n\n[/Scene State]',
+				'[Recent Events]\n- Bob spills a drink\n[/Recent Events]',
+				'[Knowledge Gaps]\nAlice was not present for: Bob spills a drink\n[/Knowledge Gaps]',
+				'[Relationships]\nAlice & Bob: friendly\n  Alice → Bob: feels fond\n\nAlice & Carl: strangers\n[/Relationships]',
+			].join('\n\n'),
+		);
+	});
+
+	it('render the bracketed narrative format', () => {
+		expect(renderNarrativeTemplate(createNarrativeData())).toBe(
+			'[Story So Far]\nChapter 2: Storm\n  The road floods.\n  Milestones: Alice & Bob: First Kiss\n[/Story So Far]' +
+				'\n\n[Recent Events]\n- Bob proposes\n  [Milestone: Alice & Bob - Marriage: Bob proposes at dawn]\n[/Recent Events]',
+		);
+	});
+
+	it('render arcs before the chapters they stand in for', () => {
+		const data: NarrativeTemplateData = {
+			...createNarrativeData(),
+			arcs: [
+				{
+					number: 1,
+					title: 'Departure',
+					summary: 'Alice and Bob leave town.',
+					firstChapter: 1,
+					lastChapter: 1,
+				},
+			],
+			events: [],
+		};
+
+		expect(renderNarrativeTemplate(data)).toBe(
+			'[Story So Far]\nArc 1: Departure (Chapters 1-1)\n  Alice and Bob leave town.' +
+				'\nChapter 2: Storm\n  The road floods.\n  Milestones: Alice & Bob: First Kiss\n[/Story So Far]',
+		);
+	});
+
+	it('render nothing when there is nothing to inject', () => {
+		const empty: StateTemplateData = {
+			chapters: [],
+			scene: null,
+			time: null,
+			location: null,
+			climate: null,
+			characters: [],
+			otherCharacters: [],
+			events: [],
+			knowledgeGaps: [],
+			relationships: [],
+			otherRelationships: [],
+		};
+		expect(renderStateTemplate(empty)).toBe('');
+		expect(renderNarrativeTemplate({ arcs: [], chapters: [], events: [] })).toBe('');
+	});
+});
+
+describe('custom templates', () => {
+	it('render instead of the default', () => {
+		expect(
+			renderStateTemplate(
+				createStateData(),
+				'{{#each characters}}<char name="{{name}}">{{outfit}}</char>{{/each}}',
+			),
+		).toBe('<char name="Alice">dress, tights</char>');
+	});
+
+	it('fall back to the default when malformed', () => {
+		expect(renderNarrativeTemplate(createNarrativeData(), '{{#each events}}')).toBe(
+			renderNarrativeTemplate(createNarrativeData()),
+		);
+	});
+});
+
+describe('INJECTION_TEMPLATE_PRESETS', () => {
+	it('start with the default templates', () => {
+		expect(INJECTION_TEMPLATE_PRESETS[0].templates).toEqual({
+			state: DEFAULT_STATE_TEMPLATE,
+			narrative: DEFAULT_NARRATIVE_TEMPLATE,
+		});
+	});
+
+	it.each(INJECTION_TEMPLATE_PRESETS.map(preset => [preset.id, preset]))(
+		'%s compiles and mentions every section',
+		(_, preset) => {
+			expect(() => compileTemplate(preset.templates.state)).not.toThrow();
+			expect(() => compileTemplate(preset.templates.narrative)).not.toThrow();
+
+			const state = renderStateTemplate(
+				createStateData(),
+				preset.templates.state,
+			);
+			expect(state).toContain('Bob spills a drink');
+			expect(state).toContain('dress, tights');
+			expect(state).toContain('friendly');
+		},
+	);
+});
@@ -0,0 +1,702 @@
+/**
+ * Injection Templates
+ *
+ * The injected state and narrative text is rendered from templates (see
+ * templateEngine for the syntax). The default templates reproduce the
+ * bracketed [Scene State] / [Story So Far] format; presets offer XML, YAML
+ * and prose variants for models that follow those better. Users can edit the
+ * templates in settings, and character cards can override them (x-bt-templates).
+ */
+
+import type { NarrativeEvent } from '../types/snapshot';
+import type { ComputedChapter } from '../narrative/computeChapters';
+import type { ComputedArc } from '../narrative/computeArcs';
+import type { V2InjectionTemplates } from '../settings/types';
+import { getV2Settings } from '../settings';
+import { readTemplatesExtension } from '../cardExtensions/reader';
+import { debugWarn } from '../../utils/debug';
+import { formatMilestones } from './chapters';
+import { formatMilestoneSubject } from './events';
+import { renderTemplate, TemplateError } from './templateEngine';
+
+// ============================================
+// Template Data
+// ============================================
+
+/**
+ * A past chapter as seen by templates.
+ */
+export interface TemplateChapter {
+	/** 1-based chapter number */
+	number: number;
+	title: string;
+	summary: string;
+	/** Milestones reached, grouped by pair ("Alice & Bob: First Kiss") */
+	milestones: string;
+}
+
+/**
+ * A past arc (a summarized run of chapters) as seen by templates.
+ */
+export interface TemplateArc {
+	/** 1-based arc number */
+	number: number;
+	title: string;
+	summary: string;
+	/** 1-based numbers of the first and last chapters in the arc */
+	firstChapter: number;
+	lastChapter: number;
+}
+
+/**
+ * A narrative event as seen by templates.
+ */
+export interface TemplateEvent {
+	description: string;
+	witnesses: string[];
+	/** Milestone descriptions ("Alice & Bob - First Kiss: ...") */
+	milestones: string[];
+}
+
+/**
+ * A present character as seen by templates.
+ */
+export interface TemplateCharacter {
+	name: string;
+	position: string;
+	activity: string;
+	mood: string[];
+	physicalState: string[];
+	/** Formatted outfit ("blue dress, tights, boots") */
+	outfit: string;
+	/** The whole character as one line, as in the default template */
+	text: string;
+}
+
+/**
+ * One side of a relationship as seen by templates.
+ */
+export interface TemplateAttitude {
+	feelings: string[];
+	wants: string[];
+	/** Empty unless secrets are included */
+	secrets: string[];
+}
+
+/**
+ * A relationship between two present characters as seen by templates.
+ */
+export interface TemplateRelationship {
+	a: string;
+	b: string;
+	status: string;
+	aToB: TemplateAttitude;
+	bToA: TemplateAttitude;
+	/** The whole relationship as formatted by the default template */
+	text: string;
+}
+
+/**
+ * Data available to the state template. Sections that are disabled or
+ * unknown are null (or empty lists).
+ */
+export interface StateTemplateData {
+	chapters: TemplateChapter[];
+	scene: {
+		topic: string;
+		tone: string;
+		tension: { level: string; type: string; direction: string };
+	} | null;
+	/** Formatted time ("Friday, June 14, 2024 at 9:30 PM (night)") */
+	time: string | null;
+	location: {
+		area: string;
+		place: string;
+		position: string;
+		/** "area - place - position" */
+		text: string;
+		props: string[];
+	} | null;
+	climate: {
+		conditions: string;
+		/** °F, rounded */
+		temperature: number;
+		humidity: number;
+		windSpeed: number;
+		indoors: boolean;
+		/** Moons in the sky ("full moon rising"), empty when none are up */
+		sky: string;
+		/** Formatted climate ("clear, 72°F, humid, full moon rising") */
+		text: string;
+	} | null;
+	characters: TemplateCharacter[];
+	/** Present characters left out of `characters` by relevance filtering */
+	otherCharacters: string[];
+	events: TemplateEvent[];
+	/** Events present characters missed */
+	knowledgeGaps: Array<{ character: string; missed: string[]; text: string }>;
+	relationships: TemplateRelationship[];
+	/** Relationships left out of `relationships` by relevance filtering */
+	otherRelationships: Array<{ a: string; b: string; status: string }>;
+}
+
+/**
+ * Data available to the narrative template.
+ */
+export interface NarrativeTemplateData {
+	/** Arcs standing in for older chapters that were left out */
+	arcs: TemplateArc[];
+	chapters: TemplateChapter[];
+	events: TemplateEvent[];
+}
+
+/**
+ * Convert a computed chapter into template data.
+ */
+export function toTemplateChapter(chapter: ComputedChapter): TemplateChapter {
+	return {
+		number: chapter.index + 1,
+		title: chapter.title,
+		summary: chapter.summary,
+		milestones: formatMilestones(chapter.milestones),
+	};
+}
+
+/**
+ * Convert a computed arc into template data.
+ */
+export function toTemplateArc(arc: ComputedArc): TemplateArc {
+	return {
+		number: arc.index + 1,
+		title: arc.title,
+		summary: arc.summary,
+		firstChapter: arc.firstChapter + 1,
+		lastChapter: arc.lastChapter + 1,
+	};
+}
+
+/**
+ * Convert a narrative event into template data.
+ */
+export function toTemplateEvent(event: NarrativeEvent): TemplateEvent {
+	return {
+		description: event.description,
+		witnesses: event.witnesses,
+		milestones: event.subjects
+			.filter(s => s.isMilestone)
+			.map(formatMilestoneSubject)
+			.filter(Boolean),
+	};
+}
+
+/**
+ * Build the narrative template data from already selected chapters, events and arcs.
+ */
+export function buildNarrativeTemplateData(
+	chapters: ComputedChapter[],
+	events: NarrativeEvent[],
+	arcs: ComputedArc[] = [],
+): NarrativeTemplateData {
+	return {
+		arcs: arcs.map(toTemplateArc),
+		chapters: chapters.map(toTemplateChapter),
+		events: events.map(toTemplateEvent),
+	};
+}
+
+// ============================================
+// Default Templates
+// ============================================
+
+export const DEFAULT_STATE_TEMPLATE = `{{#if chapters}}
+[Story So Far]
+{{#each chapters}}
+Chapter {{number}}: {{title}}
+  {{summary}}
+{{/each}}
+[/Story So Far]
+
+{{/if}}
+{{#if (or scene time location climate characters)}}
+[Scene State]
+
+
+{{#if scene}}
+Topic: {{scene.topic}}
+Tone: {{scene.tone}}
+Tension: {{scene.tension.level}} ({{scene.tension.type}}, {{scene.tension.direction}})
+{{/if}}
+{{#if time}}
+Time: {{time}}
+{{/if}}
+{{#if location}}
+Location: {{location.text}}
+{{#if location.props}}
+Nearby objects: {{join location.props ", "}}
+{{/if}}
+{{/if}}
+{{#if climate}}
+Climate: {{climate.text}}
+{{/if}}
+{{#if characters}}
+Characters present:
+{{#each characters}}
+{{text}}
+{{/each}}
+{{#if otherCharacters}}
+Also present: {{join otherCharacters ", "}}
+{{/if}}
+{{/if}}
+
+
+[/Scene State]
+
+{{/if}}
+{{#if events}}
+[Recent Events]
+{{#each events}}
+- {{description}}
+{{/each}}
+[/Recent Events]
+
+{{/if}}
+{{#if knowledgeGaps}}
+[Knowledge Gaps]
+{{#each knowledgeGaps}}
+{{text}}
+{{/each}}
+[/Knowledge Gaps]
+
+{{/if}}
+{{#if relationships}}
+[Relationships]
+{{#each relationships}}
+{{text}}
+{{#unless @last}}
+
+{{/unless}}
+{{/each}}
+{{#if otherRelationships}}
+
+Other relationships: {{#each otherRelationships}}{{a}} & {{b}}: {{status}}{{#unless @last}}; {{/unless}}{{/each}}
+{{/if}}
+[/Relationships]
+{{/if}}
+`;
+
+export const DEFAULT_NARRATIVE_TEMPLATE = `{{#if (or arcs chapters)}}
+[Story So Far]
+{{#each arcs}}
+Arc {{number}}: {{title}} (Chapters {{firstChapter}}-{{lastChapter}})
+  {{summary}}
+{{/each}}
+{{#each chapters}}
+Chapter {{number}}: {{title}}
+{{#if summary}}
+  {{summary}}
+{{/if}}
+{{#if milestones}}
+  Milestones: {{milestones}}
+{{/if}}
+{{/each}}
+[/Story So Far]
+
+{{/if}}
+{{#if events}}
+[Recent Events]
+{{#each events}}
+- {{description}}
+{{#each milestones}}
+  [Milestone: {{this}}]
+{{/each}}
+{{/each}}
+[/Recent Events]
+{{/if}}
+`;
+
+// ============================================
+// Presets
+// ============================================
+
+/**
+ * A ready-made pair of templates.
+ */
+export interface InjectionTemplatePreset {
+	id: string;
+	name: string;
+	description: string;
+	templates: V2InjectionTemplates;
+}
+
+const XML_STATE_TEMPLATE = `{{#if chapters}}
+<story_so_far>
+{{#each chapters}}
+<chapter number="{{number}}" title="{{title}}">{{summary}}</chapter>
+{{/each}}
+</story_so_far>
+{{/if}}
+{{#if (or scene time location climate characters)}}
+<scene>
+{{#if scene}}
+<topic>{{scene.topic}}</topic>
+<tone>{{scene.tone}}</tone>
+<tension level="{{scene.tension.level}}" type="{{scene.tension.type}}" direction="{{scene.tension.direction}}" />
+{{/if}}
+{{#if time}}
+<time>{{time}}</time>
+{{/if}}
+{{#if location}}
+<location area="{{location.area}}" place="{{location.place}}" position="{{location.position}}">
+{{#each location.props}}
+<prop>{{this}}</prop>
+{{/each}}
+</location>
+{{/if}}
+{{#if climate}}
+<climate>{{climate.text}}</climate>
+{{/if}}
+{{#each characters}}
+<character name="{{name}}">
+<position>{{position}}</position>
+{{#if activity}}
+<activity>{{activity}}</activity>
+{{/if}}
+{{#if mood}}
+<mood>{{join mood ", "}}</mood>
+{{/if}}
+{{#if physicalState}}
+<physical>{{join physicalState ", "}}</physical>
+{{/if}}
+<outfit>{{outfit}}</outfit>
+</character>
+{{/each}}
+{{#if otherCharacters}}
+<also_present>{{join otherCharacters ", "}}</also_present>
+{{/if}}
+</scene>
+{{/if}}
+{{#if events}}
+<recent_events>
+{{#each events}}
+<event>{{description}}</event>
+{{/each}}
+</recent_events>
+{{/if}}
+{{#if knowledgeGaps}}
+<knowledge_gaps>
+{{#each knowledgeGaps}}
+<missed by="{{character}}">{{join missed "; "}}</missed>
+{{/each}}
+</knowledge_gaps>
+{{/if}}
+{{#if relationships}}
+<relationships>
+{{#each relationships}}
+<relationship a="{{a}}" b="{{b}}" status="{{status}}">
+{{#if (or aToB.feelings aToB.wants aToB.secrets)}}
+<attitude from="{{a}}" to="{{b}}" feelings="{{join aToB.feelings ", "}}" wants="{{join aToB.wants ", "}}"{{#if aToB.secrets}} secrets="{{join aToB.secrets ", "}}"{{/if}} />
+{{/if}}
+{{#if (or bToA.feelings bToA.wants bToA.secrets)}}
+<attitude from="{{b}}" to="{{a}}" feelings="{{join bToA.feelings ", "}}" wants="{{join bToA.wants ", "}}"{{#if bToA.secrets}} secrets="{{join bToA.secrets ", "}}"{{/if}} />
+{{/if}}
+</relationship>
+{{/each}}
+{{#each otherRelationships}}
+<relationship a="{{a}}" b="{{b}}" status="{{status}}" />
+{{/each}}
+</relationships>
+{{/if}}
+`;
+
+const XML_NARRATIVE_TEMPLATE = `{{#if (or arcs chapters)}}
+<story_so_far>
+{{#each arcs}}
+<arc number="{{number}}" title="{{title}}" chapters="{{firstChapter}}-{{lastChapter}}">{{summary}}</arc>
+{{/each}}
+{{#each chapters}}
+<chapter number="{{number}}" title="{{title}}">
+{{#if summary}}
+<summary>{{summary}}</summary>
+{{/if}}
+{{#if milestones}}
+<milestones>{{milestones}}</milestones>
+{{/if}}
+</chapter>
+{{/each}}
+</story_so_far>
+{{/if}}
+{{#if events}}
+<recent_events>
+{{#each events}}
+<event>{{description}}{{#each milestones}} <milestone>{{this}}</milestone>{{/each}}</event>
+{{/each}}
+</recent_events>
+{{/if}}
+`;
+
+const YAML_STATE_TEMPLATE = `{{#if chapters}}
+story_so_far:
+{{#each chapters}}
+  - chapter: {{number}}
+    title: "{{title}}"
+    summary: "{{summary}}"
+{{/each}}
+{{/if}}
+{{#if (or scene time location climate)}}
+scene:
+{{#if scene}}
+  topic: "{{scene.topic}}"
+  tone: "{{scene.tone}}"
+  tension: {{scene.tension.level}} ({{scene.tension.type}}, {{scene.tension.direction}})
+{{/if}}
+{{#if time}}
+  time: "{{time}}"
+{{/if}}
+{{#if location}}
+  location: "{{location.text}}"
+{{#if location.props}}
+  nearby_objects: [{{join location.props ", "}}]
+{{/if}}
+{{/if}}
+{{#if climate}}
+  climate: "{{climate.text}}"
+{{/if}}
+{{/if}}
+{{#if characters}}
+characters:
+{{#each characters}}
+  - name: {{name}}
+    position: "{{position}}"
+{{#if activity}}
+    activity: "{{activity}}"
+{{/if}}
+{{#if mood}}
+    mood: [{{join mood ", "}}]
+{{/if}}
+{{#if physicalState}}
+    physical: [{{join physicalState ", "}}]
+{{/if}}
+    wearing: "{{outfit}}"
+{{/each}}
+{{#if otherCharacters}}
+also_present: [{{join otherCharacters ", "}}]
+{{/if}}
+{{/if}}
+{{#if events}}
+recent_events:
+{{#each events}}
+  - "{{description}}"
+{{/each}}
+{{/if}}
+{{#if knowledgeGaps}}
+knowledge_gaps:
+{{#each knowledgeGaps}}
+  {{character}} missed: [{{join missed "; "}}]
+{{/each}}
+{{/if}}
+{{#if relationships}}
+relationships:
+{{#each relationships}}
+  - pair: [{{a}}, {{b}}]
+    status: {{status}}
+    attitudes:
+      - from: {{a}}
+        feelings: [{{join aToB.feelings ", "}}]
+        wants: [{{join aToB.wants ", "}}]
+{{#if aToB.secrets}}
+        secrets: [{{join aToB.secrets ", "}}]
+{{/if}}
+      - from: {{b}}
+        feelings: [{{join bToA.feelings ", "}}]
+        wants: [{{join bToA.wants ", "}}]
+{{#if bToA.secrets}}
+        secrets: [{{join bToA.secrets ", "}}]
+{{/if}}
+{{/each}}
+{{#each otherRelationships}}
+  - pair: [{{a}}, {{b}}]
+    status: {{status}}
+{{/each}}
+{{/if}}
+`;
+
+const YAML_NARRATIVE_TEMPLATE = `{{#if (or arcs chapters)}}
+story_so_far:
+{{#each arcs}}
+  - arc: {{number}}
+    title: "{{title}}"
+    chapters: {{firstChapter}}-{{lastChapter}}
+    summary: "{{summary}}"
+{{/each}}
+{{#each chapters}}
+  - chapter: {{number}}
+    title: "{{title}}"
+{{#if summary}}
+    summary: "{{summary}}"
+{{/if}}
+{{#if milestones}}
+    milestones: "{{milestones}}"
+{{/if}}
+{{/each}}
+{{/if}}
+{{#if events}}
+recent_events:
+{{#each events}}
+  - event: "{{description}}"
+{{#if milestones}}
+    milestones:
+{{#each milestones}}
+      - "{{this}}"
+{{/each}}
+{{/if}}
+{{/each}}
+{{/if}}
+`;
+
+const PROSE_STATE_TEMPLATE = `{{#if chapters}}
+Previously: {{#each chapters}}{{summary}}{{#unless @last}} {{/unless}}{{/each}}
+
+{{/if}}
+{{#if time}}
+It is {{time}}.
+{{/if}}
+{{#if location}}
+The scene is set at {{location.text}}{{#if location.props}}, near {{join location.props ", "}}{{/if}}.
+{{/if}}
+{{#if climate}}
+Weather: {{climate.text}}.
+{{/if}}
+{{#if scene}}
+The conversation is about {{scene.topic}}; the tone is {{scene.tone}} and the tension is {{scene.tension.level}} ({{scene.tension.type}}, {{scene.tension.direction}}).
+{{/if}}
+{{#each characters}}
+{{name}} is {{position}}{{#if activity}}, {{activity}}{{/if}}{{#if mood}}, feeling {{join mood ", "}}{{/if}}{{#if physicalState}} ({{join physicalState ", "}}){{/if}}; wearing {{outfit}}.
+{{/each}}
+{{#if otherCharacters}}
+Also present: {{join otherCharacters ", "}}.
+{{/if}}
+{{#if events}}
+
+Recently: {{#each events}}{{description}}{{#unless @last}}; {{/unless}}{{/each}}.
+{{/if}}
+{{#each knowledgeGaps}}
+{{text}}.
+{{/each}}
+{{#if relationships}}
+
+{{#each relationships}}
+{{a}} and {{b}} are {{status}}.{{#if aToB.feelings}} {{a}} feels {{join aToB.feelings ", "}} toward {{b}}.{{/if}}{{#if bToA.feelings}} {{b}} feels {{join bToA.feelings ", "}} toward {{a}}.{{/if}}
+{{/each}}
+{{#if otherRelationships}}
+Also: {{#each otherRelationships}}{{a}} and {{b}} are {{status}}{{#unless @last}}; {{/unless}}{{/each}}.
+{{/if}}
+{{/if}}
+`;
+
+const PROSE_NARRATIVE_TEMPLATE = `{{#if (or arcs chapters)}}
+The story so far:
+{{#each arcs}}
+Chapters {{firstChapter}}-{{lastChapter}}, "{{title}}": {{summary}}
+{{/each}}
+{{#each chapters}}
+Chapter {{number}}, "{{title}}": {{summary}}
+{{/each}}
+{{/if}}
+{{#if events}}
+
+Earlier in this chapter: {{#each events}}{{description}}{{#unless @last}}; {{/unless}}{{/each}}.
+{{/if}}
+`;
+
+export const INJECTION_TEMPLATE_PRESETS: InjectionTemplatePreset[] = [
+	{
+		id: 'default',
+		name: 'Default',
+		description: 'Bracketed sections ([Scene State], [Story So Far], ...)',
+		templates: { state: DEFAULT_STATE_TEMPLATE, narrative: DEFAULT_NARRATIVE_TEMPLATE },
+	},
+	{
+		id: 'xml',
+		name: 'XML',
+		description: 'XML tags, for models trained to follow tagged context',
+		templates: { state: XML_STATE_TEMPLATE, narrative: XML_NARRATIVE_TEMPLATE },
+	},
+	{
+		id: 'yaml',
+		name: 'YAML',
+		description: 'YAML-style keys and lists',
+		templates: { state: YAML_STATE_TEMPLATE, narrative: YAML_NARRATIVE_TEMPLATE },
+	},
+	{
+		id: 'prose',
+		name: 'Prose',
+		description: 'Terse sentences instead of structured sections',
+		templates: { state: PROSE_STATE_TEMPLATE, narrative: PROSE_NARRATIVE_TEMPLATE },
+	},
+];
+
+// ============================================
+// Rendering
+// ============================================
+
+/**
+ * Render an injection template, falling back to the default template if a
+ * custom one is malformed. Blank lines around the result are removed.
+ *
+ * @param template - Template source ('' or undefined = default)
+ * @param defaultTemplate - Built-in template to fall back to
+ * @param data - Template data
+ */
+function renderWithFallback(
+	template: string | undefined,
+	defaultTemplate: string,
+	data: StateTemplateData | NarrativeTemplateData,
+): string {
+	let output: string;
+	try {
+		output = renderTemplate(template || defaultTemplate, data);
+	} catch (error) {
+		if (!(error instanceof TemplateError)) throw error;
+		debugWarn('Invalid injection template, using the default:', error.message);
+		output = renderTemplate(defaultTemplate, data);
+	}
+	return output.replace(/^\s*\n|\n\s*$/g, '');
+}
+
+/**
+ * Render the state template.
+ *
+ * @param data - State template data
+ * @param template - Template source ('' or undefined = default)
+ */
+export function renderStateTemplate(data: StateTemplateData, template?: string): string {
+	return renderWithFallback(template, DEFAULT_STATE_TEMPLATE, data);
+}
+
+/**
+ * Render the narrative template.
+ *
+ * @param data - Narrative template data
+ * @param template - Template source ('' or undefined = default)
+ */
+export function renderNarrativeTemplate(data: NarrativeTemplateData, template?: string): string {
+	return renderWithFallback(template, DEFAULT_NARRATIVE_TEMPLATE, data);
+}
+
+/**
+ * Get the templates in effect for the current chat: the character card's
+ * overrides when enabled, otherwise the templates from settings.
+ */
+export function getActiveInjectionTemplates(): V2InjectionTemplates {
+	const { v2InjectionTemplates } = getV2Settings();
+	let cardTemplates: ReturnType<typeof readTemplatesExtension> = null;
+	try {
+		cardTemplates = readTemplatesExtension();
+	} catch {
+		// No character selected (or group chat) - use settings
+	}
+	return {
+		state: cardTemplates?.state || v2InjectionTemplates.state,
+		narrative: cardTemplates?.narrative || v2InjectionTemplates.narrative,
+	};
+}
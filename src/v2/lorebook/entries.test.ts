@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { createEventStore } from '../store/EventStore';
+import { NoSwipeFiltering } from '../../test/testUtils';
+import {
+	createEmptyCharacterState,
+	createEmptyRelationshipState,
+	createEmptySnapshot,
+	type Projection,
+} from '../types/snapshot';
+import type { ComputedChapter } from '../narrative/computeChapters';
+import type { Event } from '../types/event';
+import type { V2LorebookSyncSettings } from '../settings/types';
+import {
+	buildCharacterEntry,
+	buildLorebookEntries,
+	buildRelationshipEntry,
+	collectVisitedLocations,
+} from './entries';
+
+const ALL_SECTIONS: V2LorebookSyncSettings = {
+	enabled: true,
+	lorebook: '',
+	characters: true,
+	relationships: true,
+	locations: true,
+	chapters: true,
+};
+
+function baseEvent(id: string, messageId: number) {
+	return { id, source: { messageId, swipeId: 0 }, timestamp: 0 };
+}
+
+function createProjection(): Projection {
+	const alice = createEmptyCharacterState('Alice');
+	alice.akas = ['Al'];
+	alice.position = 'at the bar';
+	alice.mood = ['calm'];
+	alice.profile = {
+		sex: 'F',
+		species: 'human',
+		age: 28,
+		appearance: ['red hair'],
+		personality: ['curious'],
+	};
+	const bob = createEmptyCharacterState('Bob');
+	const relationship = createEmptyRelationshipState(['Alice', 'Bob']);
+	relationship.status = 'friendly';
+
+	return {
+		source: { messageId: 3, swipeId: 0 },
+		time: null,
+		location: null,
+		forecasts: {},
+		weatherOverrides: [],
+		climate: null,
+		scene: null,
+		characters: { Alice: alice, Bob: bob },
+		relationships: { 'Alice|Bob': relationship },
+		currentChapter: 1,
+		charactersPresent: ['Alice'],
+		narrativeEvents: [],
+	};
+}
+
+function createChapter(index: number, ended: boolean): ComputedChapter {
+	return {
+		index,
+		title: `Chapter Title ${index}`,
+		summary: 'Things happen.',
+		endReason: ended ? 'location_change' : null,
+		endedAtMessage: ended ? { messageId: 2, swipeId: 0 } : null,
+		startMessageId: 0,
+		eventCount: 0,
+		milestones: [],
+		narrativeEvents: [],
+		startTime: null,
+		endTime: null,
+	};
+}
+
+describe('collectVisitedLocations', () => {
+	it('keeps each place with its props as last seen', () => {
+		const store = createEventStore();
+		const snapshot = createEmptySnapshot({ messageId: 0, swipeId: 0 });
+		snapshot.location = {
+			area: 'Town',
+			place: 'Tavern',
+			position: 'bar',
+			props: ['mug'],
+			locationType: 'heated',
+		};
+		store.replaceInitialSnapshot(snapshot);
+		store.appendEvents([
+			{
+				...baseEvent('1', 1),
+				kind: 'location',
+				subkind: 'prop_added',
+				prop: 'candle',
+			},
+			{
+				...baseEvent('2', 2),
+				kind: 'location',
+				subkind: 'moved',
+				newArea: '',
+				newPlace: 'Market',
+				newPosition: 'stall',
+				newLocationType: 'outdoor',
+			},
+			{
+				...baseEvent('3', 3),
+				kind: 'location',
+				subkind: 'prop_added',
+				prop: 'cart',
+			},
+		] as Event[]);
+
+		expect(collectVisitedLocations(store, NoSwipeFiltering)).toEqual([
+			{
+				area: 'Town',
+				place: 'Tavern',
+				locationType: 'heated',
+				props: ['mug', 'candle'],
+			},
+			{ area: 'Town', place: 'Market', locationType: 'outdoor', props: ['cart'] },
+		]);
+	});
+
+	it('is empty without a location', () => {
+		const store = createEventStore();
+		store.replaceInitialSnapshot(createEmptySnapshot({ messageId: 0, swipeId: 0 }));
+		expect(collectVisitedLocations(store, NoSwipeFiltering)).toEqual([]);
+	});
+});
+
+describe('buildCharacterEntry', () => {
+	it('keys the entry by name and aliases', () => {
+		const entry = buildCharacterEntry(createProjection().characters.Alice);
+
+		expect(entry.id).toBe('character:alice');
+		expect(entry.keys).toEqual(['Alice', 'Al']);
+		expect(entry.content).toBe(
+			[
+				'Name: Alice',
+				'Also known as: Al',
+				'Profile: female human, 28',
+				'Appearance: red hair',
+				'Personality: curious',
+				'Last seen: at the bar; mood: calm; wearing: topless, bottomless',
+			].join('\n'),
+		);
+	});
+});
+
+describe('buildRelationshipEntry', () => {
+	it('needs both characters to be mentioned', () => {
+		const projection = createProjection();
+		const entry = buildRelationshipEntry(
+			projection.relationships['Alice|Bob'],
+			projection.characters,
+		);
+
+		expect(entry.keys).toEqual(['Alice', 'Al']);
+		expect(entry.secondaryKeys).toEqual(['Bob']);
+		expect(entry.content).toContain('Alice & Bob: friendly');
+	});
+});
+
+describe('buildLorebookEntries', () => {
+	it('builds entries for every section, with completed chapters only', () => {
+		const entries = buildLorebookEntries(
+			createProjection(),
+			[createChapter(0, true), createChapter(1, false)],
+			[{ area: 'Town', place: 'Tavern', locationType: null, props: [] }],
+			ALL_SECTIONS,
+		);
+
+		expect(entries.map(entry => entry.id)).toEqual([
+			'character:alice',
+			'character:bob',
+			'relationship:alice|bob',
+			'location:town|tavern',
+			'chapter:0',
+		]);
+	});
+
+	it('skips disabled sections', () => {
+		const entries = buildLorebookEntries(
+			createProjection(),
+			[createChapter(0, true)],
+			[{ area: 'Town', place: 'Tavern', locationType: null, props: [] }],
+			{ ...ALL_SECTIONS, characters: false, chapters: false },
+		);
+
+		expect(entries.map(entry => entry.id)).toEqual([
+			'relationship:alice|bob',
+			'location:town|tavern',
+		]);
+	});
+});
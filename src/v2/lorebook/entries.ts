@@ -0,0 +1,250 @@
+/**
+ * Lorebook Entries
+ *
+ * Builds the entries of the managed lorebook from the tracked state: one per
+ * character, relationship, visited place and completed chapter. Entries are
+ * keyed so SillyTavern activates them when their subject is mentioned.
+ */
+
+import type { EventStore } from '../store/EventStore';
+import type { SwipeContext } from '../store/projection';
+import { filterCanonicalEvents, sortEvents } from '../store/projection';
+import type { CharacterState, Projection, RelationshipState } from '../types/snapshot';
+import type { LocationType } from '../types/common';
+import type { ComputedChapter } from '../narrative/computeChapters';
+import type { V2LorebookSyncSettings } from '../settings/types';
+import {
+	isLocationMovedEvent,
+	isLocationPropAddedEvent,
+	isLocationPropRemovedEvent,
+} from '../types/event';
+import { formatOutfit, formatRelationship } from '../injectors/state';
+import { formatPastChapter } from '../injectors/chapters';
+
+/**
+ * An entry BlazeTracker writes to the lorebook.
+ */
+export interface ManagedLorebookEntry {
+	/** Stable identity across syncs (e.g. 'character:alice') */
+	id: string;
+	/** Entry title in the lorebook editor */
+	comment: string;
+	/** Primary keywords */
+	keys: string[];
+	/** Secondary keywords; when present, one of them must also match */
+	secondaryKeys: string[];
+	content: string;
+}
+
+/**
+ * A place visited in the chat, as last seen.
+ */
+export interface VisitedLocation {
+	area: string;
+	place: string;
+	locationType: LocationType | null;
+	props: string[];
+}
+
+const SEX_LABELS: Record<NonNullable<CharacterState['profile']>['sex'], string> = {
+	M: 'male',
+	F: 'female',
+	O: 'other',
+};
+
+function getLocationKey(area: string, place: string): string {
+	return `${area}|${place}`.toLowerCase();
+}
+
+/**
+ * Collect every place visited in the chat, in order of first visit.
+ *
+ * Replays the canonical location events from the initial snapshot, so each
+ * place keeps the props it had when it was last left.
+ */
+export function collectVisitedLocations(
+	store: EventStore,
+	swipeContext: SwipeContext,
+): VisitedLocation[] {
+	const locations = new Map<string, VisitedLocation>();
+	const initial = store.initialSnapshot?.location;
+	let current: VisitedLocation | null = initial
+		? {
+				area: initial.area,
+				place: initial.place,
+				locationType: initial.locationType,
+				props: [...initial.props],
+			}
+		: null;
+
+	const record = () => {
+		if (!current?.place) return;
+		locations.set(getLocationKey(current.area, current.place), {
+			...current,
+			props: [...current.props],
+		});
+	};
+	record();
+
+	const events = sortEvents(filterCanonicalEvents(store.getActiveEvents(), swipeContext));
+	for (const event of events) {
+		// Same rules as event application: empty fields keep their value,
+		// props are cleared only when the place changes
+		if (isLocationMovedEvent(event)) {
+			const previous = current;
+			const isNewPlace = !!event.newPlace && event.newPlace !== previous?.place;
+			current = {
+				area: event.newArea || previous?.area || '',
+				place: event.newPlace || previous?.place || '',
+				locationType:
+					event.newLocationType ?? previous?.locationType ?? null,
+				props: isNewPlace ? [] : [...(previous?.props ?? [])],
+			};
+		} else if (isLocationPropAddedEvent(event) && current) {
+			if (!current.props.includes(event.prop)) {
+				current.props.push(event.prop);
+			}
+		} else if (isLocationPropRemovedEvent(event) && current) {
+			current.props = current.props.filter(prop => prop !== event.prop);
+		} else {
+			continue;
+		}
+		record();
+	}
+
+	return [...locations.values()];
+}
+
+/**
+ * Build a character's entry: profile, aliases and last known state.
+ */
+export function buildCharacterEntry(character: CharacterState): ManagedLorebookEntry {
+	const lines = [`Name: ${character.name}`];
+
+	if (character.akas.length > 0) {
+		lines.push(`Also known as: ${character.akas.join(', ')}`);
+	}
+
+	const profile = character.profile;
+	if (profile) {
+		lines.push(
+			`Profile: ${SEX_LABELS[profile.sex]} ${profile.species}, ${profile.age}`,
+		);
+		if (profile.appearance.length > 0) {
+			lines.push(`Appearance: ${profile.appearance.join(', ')}`);
+		}
+		if (profile.personality.length > 0) {
+			lines.push(`Personality: ${profile.personality.join(', ')}`);
+		}
+	}
+
+	const lastSeen = [character.position || 'present'];
+	if (character.activity) lastSeen.push(`doing: ${character.activity}`);
+	if (character.mood.length > 0) lastSeen.push(`mood: ${character.mood.join(', ')}`);
+	if (character.physicalState.length > 0) {
+		lastSeen.push(`physical: ${character.physicalState.join(', ')}`);
+	}
+	lastSeen.push(`wearing: ${formatOutfit(character.outfit)}`);
+	lines.push(`Last seen: ${lastSeen.join('; ')}`);
+
+	return {
+		id: `character:${character.name.toLowerCase()}`,
+		comment: character.name,
+		keys: [character.name, ...character.akas],
+		secondaryKeys: [],
+		content: lines.join('\n'),
+	};
+}
+
+/**
+ * Build a relationship's entry, activated when both characters are mentioned.
+ */
+export function buildRelationshipEntry(
+	relationship: RelationshipState,
+	characters: Projection['characters'],
+): ManagedLorebookEntry {
+	const [a, b] = relationship.pair;
+	return {
+		id: `relationship:${a.toLowerCase()}|${b.toLowerCase()}`,
+		comment: `${a} & ${b}`,
+		keys: [a, ...(characters[a]?.akas ?? [])],
+		secondaryKeys: [b, ...(characters[b]?.akas ?? [])],
+		content: formatRelationship(relationship, true),
+	};
+}
+
+/**
+ * Build a place's entry.
+ */
+export function buildLocationEntry(location: VisitedLocation): ManagedLorebookEntry {
+	const where = location.area ? `${location.place}, in ${location.area}` : location.place;
+	const lines = [location.locationType ? `${where} (${location.locationType})` : where];
+	if (location.props.length > 0) {
+		lines.push(`Last seen here: ${location.props.join(', ')}`);
+	}
+
+	return {
+		id: `location:${getLocationKey(location.area, location.place)}`,
+		comment: location.area ? `${location.place} (${location.area})` : location.place,
+		keys: [location.place],
+		secondaryKeys: [],
+		content: lines.join('\n'),
+	};
+}
+
+/**
+ * Build a completed chapter's entry, activated by its title.
+ */
+export function buildChapterEntry(chapter: ComputedChapter): ManagedLorebookEntry {
+	return {
+		id: `chapter:${chapter.index}`,
+		comment: `Chapter ${chapter.index + 1}: ${chapter.title}`,
+		keys: [chapter.title],
+		secondaryKeys: [],
+		content: formatPastChapter(chapter),
+	};
+}
+
+/**
+ * Build every entry the managed lorebook should hold.
+ *
+ * @param projection - Projection at the latest message
+ * @param chapters - All chapters (only completed ones get an entry)
+ * @param locations - Visited places
+ */
+export function buildLorebookEntries(
+	projection: Projection,
+	chapters: ComputedChapter[],
+	locations: VisitedLocation[],
+	settings: V2LorebookSyncSettings,
+): ManagedLorebookEntry[] {
+	const entries: ManagedLorebookEntry[] = [];
+
+	if (settings.characters) {
+		for (const character of Object.values(projection.characters)) {
+			entries.push(buildCharacterEntry(character));
+		}
+	}
+
+	if (settings.relationships) {
+		for (const relationship of Object.values(projection.relationships)) {
+			entries.push(buildRelationshipEntry(relationship, projection.characters));
+		}
+	}
+
+	if (settings.locations) {
+		for (const location of locations) {
+			entries.push(buildLocationEntry(location));
+		}
+	}
+
+	if (settings.chapters) {
+		for (const chapter of chapters) {
+			if (chapter.endReason !== null) {
+				entries.push(buildChapterEntry(chapter));
+			}
+		}
+	}
+
+	return entries;
+}
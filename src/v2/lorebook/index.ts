@@ -0,0 +1,21 @@
+/**
+ * V2 Lorebook Index
+ *
+ * Re-exports the managed lorebook writer.
+ */
+
+export type { ManagedLorebookEntry, VisitedLocation } from './entries';
+export {
+	buildLorebookEntries,
+	buildCharacterEntry,
+	buildRelationshipEntry,
+	buildLocationEntry,
+	buildChapterEntry,
+	collectVisitedLocations,
+} from './entries';
+
+export type { LorebookEntryMarker } from './marker';
+export { LOREBOOK_MARKER_KEY, getLorebookMarker } from './marker';
+
+export type { LorebookSyncResult } from './sync';
+export { hashLorebookEntry, applyLorebookEntries, syncLorebook, requestLorebookSync } from './sync';
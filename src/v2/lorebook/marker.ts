@@ -0,0 +1,32 @@
+/**
+ * Lorebook Entry Marker
+ *
+ * Entries BlazeTracker writes to a lorebook carry a marker, which tells them
+ * apart from the user's own entries.
+ */
+
+/** Field of a lorebook entry holding BlazeTracker's marker */
+export const LOREBOOK_MARKER_KEY = 'blazetracker';
+
+/**
+ * Marker on entries BlazeTracker manages.
+ */
+export interface LorebookEntryMarker {
+	/** ManagedLorebookEntry id */
+	id: string;
+	/** Hash of the title, keys and content as last written */
+	hash: string;
+}
+
+/**
+ * Get the marker of a lorebook entry, or null if BlazeTracker didn't write it.
+ */
+export function getLorebookMarker(entry: object): LorebookEntryMarker | null {
+	const marker = (entry as Record<string, unknown>)[LOREBOOK_MARKER_KEY] as
+		| Partial<LorebookEntryMarker>
+		| undefined;
+	if (!marker || typeof marker.id !== 'string' || typeof marker.hash !== 'string') {
+		return null;
+	}
+	return { id: marker.id, hash: marker.hash };
+}
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { STContext } from '../../types/st.d';
+import type { WIFile, WIFileEntry } from '../../types/world-info';
+import type { EventStore } from '../store/EventStore';
+import type { SwipeContext } from '../store/projection';
+import { createDefaultV2Settings } from '../settings/defaults';
+import type { ManagedLorebookEntry } from './entries';
+import { applyLorebookEntries, hashLorebookEntry, syncLorebook } from './sync';
+import { LOREBOOK_MARKER_KEY } from './marker';
+
+const mockSettings = createDefaultV2Settings();
+vi.mock('../settings', () => ({
+	getV2Settings: vi.fn(() => mockSettings),
+}));
+
+vi.mock('../narrative/computeChapters', () => ({
+	computeAllChapters: vi.fn(() => []),
+}));
+
+vi.mock('./entries', () => ({
+	buildLorebookEntries: vi.fn(() => [
+		{
+			id: 'character:elena',
+			comment: 'Elena',
+			keys: ['Elena'],
+			secondaryKeys: [],
+			content: 'A thief.',
+		},
+	]),
+	collectVisitedLocations: vi.fn(() => []),
+}));
+
+function managed(id: string, content: string): ManagedLorebookEntry {
+	return { id, comment: id, keys: [id], secondaryKeys: [], content };
+}
+
+function userEntry(uid: number): WIFileEntry {
+	return {
+		uid,
+		key: ['dragon'],
+		keysecondary: [],
+		comment: 'Dragons',
+		content: 'Dragons are real.',
+		constant: false,
+		selective: true,
+		selectiveLogic: 0,
+		order: 100,
+		position: 0,
+		disable: false,
+		addMemo: true,
+		excludeRecursion: false,
+		probability: 100,
+		useProbability: true,
+		depth: 4,
+	};
+}
+
+/**
+ * A lorebook after a first sync of the given entries.
+ */
+function syncedFile(entries: ManagedLorebookEntry[]): WIFile {
+	const file: WIFile = { entries: { 0: userEntry(0) } };
+	applyLorebookEntries(file, entries);
+	return file;
+}
+
+function findEntry(file: WIFile, id: string): WIFileEntry | undefined {
+	return Object.values(file.entries).find(
+		entry => (entry[LOREBOOK_MARKER_KEY] as { id: string } | undefined)?.id === id,
+	);
+}
+
+describe('applyLorebookEntries', () => {
+	it('creates marked entries after the existing ones', () => {
+		const file = syncedFile([managed('character:alice', 'Alice')]);
+
+		const entry = file.entries['1'];
+		expect(entry.uid).toBe(1);
+		expect(entry.key).toEqual(['character:alice']);
+		expect(entry.content).toBe('Alice');
+		expect(entry[LOREBOOK_MARKER_KEY]).toEqual({
+			id: 'character:alice',
+			hash: hashLorebookEntry(managed('character:alice', 'Alice')),
+		});
+	});
+
+	it('updates entries when the state changes', () => {
+		const file = syncedFile([managed('character:alice', 'Alice')]);
+
+		const result = applyLorebookEntries(file, [
+			managed('character:alice', 'Alice, tired'),
+		]);
+
+		expect(result).toMatchObject({ created: 0, updated: 1, removed: 0, changed: true });
+		expect(findEntry(file, 'character:alice')?.content).toBe('Alice, tired');
+	});
+
+	it('reports nothing to save when up to date', () => {
+		const file = syncedFile([managed('character:alice', 'Alice')]);
+
+		expect(applyLorebookEntries(file, [managed('character:alice', 'Alice')])).toEqual({
+			created: 0,
+			updated: 0,
+			removed: 0,
+			edited: [],
+			changed: false,
+		});
+	});
+
+	it('does not overwrite entries edited by hand', () => {
+		const file = syncedFile([managed('character:alice', 'Alice')]);
+		findEntry(file, 'character:alice')!.content = 'Alice, my notes';
+
+		const result = applyLorebookEntries(file, [
+			managed('character:alice', 'Alice, tired'),
+		]);
+
+		expect(result.updated).toBe(0);
+		expect(result.edited).toEqual(['character:alice']);
+		expect(findEntry(file, 'character:alice')?.content).toBe('Alice, my notes');
+	});
+
+	it('keeps updating entries whose other fields were changed', () => {
+		const file = syncedFile([managed('character:alice', 'Alice')]);
+		findEntry(file, 'character:alice')!.disable = true;
+
+		applyLorebookEntries(file, [managed('character:alice', 'Alice, tired')]);
+
+		expect(findEntry(file, 'character:alice')).toMatchObject({
+			content: 'Alice, tired',
+			disable: true,
+		});
+	});
+
+	it('removes entries no longer wanted unless edited by hand', () => {
+		const file = syncedFile([
+			managed('character:alice', 'Alice'),
+			managed('character:bob', 'Bob'),
+		]);
+		findEntry(file, 'character:bob')!.key.push('Robert');
+
+		const result = applyLorebookEntries(file, []);
+
+		expect(result.removed).toBe(1);
+		expect(result.edited).toEqual(['character:bob']);
+		expect(findEntry(file, 'character:alice')).toBeUndefined();
+		expect(findEntry(file, 'character:bob')).toBeDefined();
+	});
+
+	it('never touches unmarked entries', () => {
+		const file = syncedFile([managed('character:alice', 'Alice')]);
+
+		applyLorebookEntries(file, []);
+
+		expect(file.entries['0']).toEqual(userEntry(0));
+	});
+});
+
+describe('syncLorebook', () => {
+	const store = {
+		hasInitialSnapshot: true,
+		chatId: 'Chat 1',
+		initialSnapshotMessageId: 0,
+		projectStateAtMessage: vi.fn(() => ({})),
+	} as unknown as EventStore;
+	const swipeContext = {} as SwipeContext;
+
+	function createContext(chatMetadata: Record<string, unknown> = {}) {
+		const lorebooks = new Map<string, WIFile>();
+		const context = {
+			chat: [{}],
+			chatMetadata,
+			getCurrentChatId: () => 'Chat 1',
+			loadWorldInfo: vi.fn(async (name: string) => lorebooks.get(name) ?? null),
+			saveWorldInfo: vi.fn(async (name: string, data: WIFile) => {
+				lorebooks.set(name, data);
+			}),
+			saveMetadataDebounced: vi.fn(),
+		} as unknown as STContext;
+		return { context, lorebooks };
+	}
+
+	it('creates a lorebook for the chat and binds it', async () => {
+		const { context, lorebooks } = createContext();
+
+		const result = await syncLorebook(store, context, swipeContext);
+
+		expect(result?.lorebook).toBe('BlazeTracker - Chat 1');
+		expect(result?.created).toBe(1);
+		expect(lorebooks.has('BlazeTracker - Chat 1')).toBe(true);
+		expect(context.chatMetadata.world_info).toBe('BlazeTracker - Chat 1');
+	});
+
+	it('keeps syncing into its own bound lorebook', async () => {
+		const { context } = createContext({ world_info: 'BlazeTracker - Old name' });
+
+		const result = await syncLorebook(store, context, swipeContext);
+
+		expect(result?.lorebook).toBe('BlazeTracker - Old name');
+	});
+
+	it("does not write into the user's chat lorebook unless configured", async () => {
+		const { context } = createContext({ world_info: 'My lore' });
+
+		expect(await syncLorebook(store, context, swipeContext)).toBeNull();
+		expect(context.saveWorldInfo).not.toHaveBeenCalled();
+		expect(context.chatMetadata.world_info).toBe('My lore');
+
+		mockSettings.v2LorebookSync = {
+			...mockSettings.v2LorebookSync,
+			lorebook: 'My lore',
+		};
+		try {
+			const result = await syncLorebook(store, context, swipeContext);
+			expect(result?.lorebook).toBe('My lore');
+		} finally {
+			mockSettings.v2LorebookSync = {
+				...mockSettings.v2LorebookSync,
+				lorebook: '',
+			};
+		}
+	});
+});
@@ -0,0 +1,325 @@
+/**
+ * Lorebook Sync
+ *
+ * Keeps the managed lorebook in step with the tracked state. Every entry
+ * BlazeTracker writes carries a marker with a hash of what it wrote; an entry
+ * whose title, keys or content no longer match that hash was edited by hand
+ * and is left alone (neither updated nor removed). Other fields, like
+ * disabling an entry or changing its order, can be edited freely.
+ */
+
+import type { STContext } from '../../types/st.d';
+import type { WIFile, WIFileEntry } from '../../types/world-info';
+import type { EventStore } from '../store/EventStore';
+import type { SwipeContext } from '../store/projection';
+import { createSwipeContext } from '../store/projection';
+import { hashString } from '../store/exportBundle';
+import { computeAllChapters } from '../narrative/computeChapters';
+import { getV2Settings } from '../settings';
+import { debugLog, debugWarn, errorLog } from '../../utils/debug';
+import {
+	buildLorebookEntries,
+	collectVisitedLocations,
+	type ManagedLorebookEntry,
+} from './entries';
+import { LOREBOOK_MARKER_KEY, getLorebookMarker } from './marker';
+
+/** Chat metadata key SillyTavern binds the chat lorebook under */
+const CHAT_LOREBOOK_METADATA_KEY = 'world_info';
+
+/** Name prefix of the lorebooks BlazeTracker creates for chats */
+const CHAT_LOREBOOK_PREFIX = 'BlazeTracker - ';
+
+/**
+ * What a sync changed.
+ */
+export interface LorebookSyncResult {
+	created: number;
+	updated: number;
+	removed: number;
+	/** Titles of managed entries left alone because they were edited by hand */
+	edited: string[];
+	/** Whether the lorebook needs saving */
+	changed: boolean;
+}
+
+/**
+ * Hash what BlazeTracker writes to an entry.
+ */
+export function hashLorebookEntry(
+	entry: Pick<ManagedLorebookEntry, 'comment' | 'keys' | 'secondaryKeys' | 'content'>,
+): string {
+	return hashString(
+		JSON.stringify([entry.comment, entry.keys, entry.secondaryKeys, entry.content]),
+	);
+}
+
+/**
+ * Hash an entry as it currently is in the lorebook.
+ */
+function hashFileEntry(entry: WIFileEntry): string {
+	return hashLorebookEntry({
+		comment: entry.comment ?? '',
+		keys: entry.key ?? [],
+		secondaryKeys: entry.keysecondary ?? [],
+		content: entry.content ?? '',
+	});
+}
+
+/**
+ * Create a lorebook entry with SillyTavern's defaults.
+ */
+function createFileEntry(uid: number, entry: ManagedLorebookEntry): WIFileEntry {
+	return {
+		uid,
+		key: [...entry.keys],
+		keysecondary: [...entry.secondaryKeys],
+		comment: entry.comment,
+		content: entry.content,
+		constant: false,
+		vectorized: false,
+		selective: true,
+		selectiveLogic: 0,
+		addMemo: true,
+		order: 100,
+		position: 0,
+		disable: false,
+		excludeRecursion: false,
+		preventRecursion: false,
+		delayUntilRecursion: false,
+		probability: 100,
+		useProbability: true,
+		depth: 4,
+		group: '',
+		groupOverride: false,
+		groupWeight: 100,
+		scanDepth: null,
+		caseSensitive: null,
+		matchWholeWords: null,
+		useGroupScoring: null,
+		automationId: '',
+		role: null,
+		sticky: 0,
+		cooldown: 0,
+		delay: 0,
+		displayIndex: uid,
+		[LOREBOOK_MARKER_KEY]: { id: entry.id, hash: hashLorebookEntry(entry) },
+	};
+}
+
+/**
+ * Write the managed entries into a lorebook (in place).
+ *
+ * Managed entries are created, updated, or removed when they're no longer
+ * wanted, unless they were edited by hand. Entries without a marker are
+ * never touched.
+ */
+export function applyLorebookEntries(
+	file: WIFile,
+	entries: ManagedLorebookEntry[],
+): LorebookSyncResult {
+	const result: LorebookSyncResult = {
+		created: 0,
+		updated: 0,
+		removed: 0,
+		edited: [],
+		changed: false,
+	};
+
+	const existing = new Map<string, { uid: string; entry: WIFileEntry }>();
+	let nextUid = 0;
+	for (const [uid, entry] of Object.entries(file.entries)) {
+		nextUid = Math.max(nextUid, Number(entry.uid ?? uid) + 1);
+		const marker = getLorebookMarker(entry);
+		if (marker) {
+			existing.set(marker.id, { uid, entry });
+		}
+	}
+
+	for (const wanted of entries) {
+		const hash = hashLorebookEntry(wanted);
+		const match = existing.get(wanted.id);
+		existing.delete(wanted.id);
+
+		if (!match) {
+			file.entries[String(nextUid)] = createFileEntry(nextUid, wanted);
+			nextUid++;
+			result.created++;
+			result.changed = true;
+			continue;
+		}
+
+		const { entry } = match;
+		const marker = getLorebookMarker(entry)!;
+		const currentHash = hashFileEntry(entry);
+
+		if (currentHash === hash) {
+			// Up to date (possibly edited by hand to exactly what we'd write)
+			if (marker.hash !== hash) {
+				entry[LOREBOOK_MARKER_KEY] = { id: wanted.id, hash };
+				result.changed = true;
+			}
+			continue;
+		}
+
+		if (currentHash !== marker.hash) {
+			result.edited.push(entry.comment || wanted.comment);
+			continue;
+		}
+
+		entry.comment = wanted.comment;
+		entry.key = [...wanted.keys];
+		entry.keysecondary = [...wanted.secondaryKeys];
+		entry.content = wanted.content;
+		entry[LOREBOOK_MARKER_KEY] = { id: wanted.id, hash };
+		result.updated++;
+		result.changed = true;
+	}
+
+	// Managed entries that are no longer wanted
+	for (const { uid, entry } of existing.values()) {
+		if (hashFileEntry(entry) !== getLorebookMarker(entry)!.hash) {
+			result.edited.push(entry.comment);
+			continue;
+		}
+		delete file.entries[uid];
+		result.removed++;
+		result.changed = true;
+	}
+
+	return result;
+}
+
+/**
+ * Get the lorebook to sync to: the configured one, or BlazeTracker's own
+ * lorebook for the chat. A chat lorebook the user bound is never written to
+ * unless configured. Null without an open chat, or if the chat is bound to a
+ * lorebook of the user's.
+ */
+function getLorebookName(stContext: STContext, configured: string): string | null {
+	if (configured) return configured;
+
+	const bound = stContext.chatMetadata[CHAT_LOREBOOK_METADATA_KEY];
+	if (typeof bound === 'string' && bound) {
+		if (bound.startsWith(CHAT_LOREBOOK_PREFIX)) return bound;
+		debugWarn(
+			`Lorebook sync: the chat is bound to "${bound}", which BlazeTracker didn't create. ` +
+				'Enter it in the Lorebook setting to sync into it.',
+		);
+		return null;
+	}
+
+	const chatId = stContext.getCurrentChatId?.();
+	return chatId ? `${CHAT_LOREBOOK_PREFIX}${chatId}` : null;
+}
+
+/**
+ * Sync the managed lorebook with the state at the latest message.
+ *
+ * @returns What changed, or null if nothing could be synced
+ */
+export async function syncLorebook(
+	store: EventStore,
+	stContext: STContext,
+	swipeContext: SwipeContext,
+): Promise<(LorebookSyncResult & { lorebook: string }) | null> {
+	const settings = getV2Settings().v2LorebookSync;
+	if (!store.hasInitialSnapshot) return null;
+
+	if (!stContext.loadWorldInfo || !stContext.saveWorldInfo) {
+		debugWarn(
+			'Lorebook sync unavailable: this SillyTavern version has no World Info API',
+		);
+		return null;
+	}
+
+	// The store may belong to a chat we've already left
+	const chatId = stContext.getCurrentChatId?.();
+	if (store.chatId && chatId && store.chatId !== chatId) return null;
+
+	const lorebook = getLorebookName(stContext, settings.lorebook);
+	if (!lorebook) return null;
+
+	try {
+		const messageId = Math.max(
+			store.initialSnapshotMessageId,
+			stContext.chat.length - 1,
+		);
+		const projection = store.projectStateAtMessage(messageId, swipeContext);
+		const entries = buildLorebookEntries(
+			projection,
+			computeAllChapters(store, swipeContext),
+			collectVisitedLocations(store, swipeContext),
+			settings,
+		);
+
+		const file = (await stContext.loadWorldInfo(lorebook)) ?? { entries: {} };
+		file.entries ??= {};
+		const isNew = Object.keys(file.entries).length === 0;
+
+		const result = applyLorebookEntries(file, entries);
+		if (result.edited.length > 0) {
+			debugWarn(
+				`Lorebook "${lorebook}": not updating entries edited by hand:`,
+				result.edited,
+			);
+		}
+
+		if (result.changed) {
+			await stContext.saveWorldInfo(lorebook, file, true);
+			if (isNew) {
+				await stContext.updateWorldInfoList?.();
+			}
+			stContext.reloadWorldInfoEditor?.(lorebook, false);
+			debugLog(
+				`Lorebook "${lorebook}": ${result.created} created, ` +
+					`${result.updated} updated, ${result.removed} removed`,
+			);
+		}
+
+		// Bind BlazeTracker's lorebook to the chat
+		if (!settings.lorebook && !stContext.chatMetadata[CHAT_LOREBOOK_METADATA_KEY]) {
+			stContext.chatMetadata[CHAT_LOREBOOK_METADATA_KEY] = lorebook;
+			stContext.saveMetadataDebounced();
+		}
+
+		return { ...result, lorebook };
+	} catch (error) {
+		errorLog('Failed to sync lorebook:', error);
+		return null;
+	}
+}
+
+// ============================================
+// Background Sync
+// ============================================
+
+let activeSync: Promise<void> | null = null;
+let syncQueued = false;
+
+/**
+ * Sync the lorebook in the background if enabled. Requests made while a sync
+ * runs are folded into one more sync afterwards, with the state at that time.
+ *
+ * @param getStore - Returns the current event store
+ */
+export function requestLorebookSync(getStore: () => EventStore | null): void {
+	if (!getV2Settings().v2LorebookSync.enabled) return;
+
+	if (activeSync) {
+		syncQueued = true;
+		return;
+	}
+
+	activeSync = (async () => {
+		do {
+			syncQueued = false;
+			const store = getStore();
+			if (!store) break;
+			const stContext = SillyTavern.getContext() as unknown as STContext;
+			await syncLorebook(store, stContext, createSwipeContext(stContext.chat));
+		} while (syncQueued);
+	})().finally(() => {
+		activeSync = null;
+	});
+}
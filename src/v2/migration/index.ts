@@ -3,3 +3,15 @@
  */
 
 export { migrateFromLegacy } from './migrateFromLegacy';
+export type {
+	RawSerializedStore,
+	StoreMigration,
+	StoreMigrationStepReport,
+	StoreMigrationReport,
+} from './storeMigrations';
+export {
+	STORE_MIGRATIONS,
+	needsStoreMigration,
+	migrateSerializedStore,
+	formatStoreMigrationReport,
+} from './storeMigrations';
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+	STORE_MIGRATIONS,
+	formatStoreMigrationReport,
+	migrateSerializedStore,
+	needsStoreMigration,
+} from './storeMigrations';
+import { STORE_VERSION } from '../store/serialization';
+import { EventStore } from '../store/EventStore';
+
+function createV1Store(): Record<string, unknown> {
+	return {
+		version: 1,
+		snapshots: [
+			{
+				type: 'initial',
+				source: { messageId: 1, swipeId: 0 },
+				timestamp: 1,
+				swipeId: 0,
+				time: null,
+				location: null,
+				climate: null,
+				scene: null,
+				characters: {
+					Alice: {
+						name: 'Alice',
+						position: 'standing',
+						activity: null,
+						mood: [],
+						physicalState: [],
+						outfit: {},
+					},
+				},
+				relationships: {},
+				currentChapter: 0,
+			},
+		],
+		events: [],
+	};
+}
+
+describe('STORE_MIGRATIONS', () => {
+	it('forms a contiguous chain ending at STORE_VERSION', () => {
+		for (let i = 0; i < STORE_MIGRATIONS.length; i++) {
+			const step = STORE_MIGRATIONS[i];
+			expect(step.to).toBe(step.from + 1);
+			if (i > 0) {
+				expect(step.from).toBe(STORE_MIGRATIONS[i - 1].to);
+			}
+		}
+		expect(STORE_MIGRATIONS[STORE_MIGRATIONS.length - 1].to).toBe(STORE_VERSION);
+	});
+});
+
+describe('needsStoreMigration', () => {
+	it('is true for older versions', () => {
+		expect(needsStoreMigration({ version: 1 })).toBe(true);
+	});
+
+	it('is false for the current version', () => {
+		expect(needsStoreMigration({ version: STORE_VERSION })).toBe(false);
+	});
+
+	it('is false for invalid data', () => {
+		expect(needsStoreMigration(null)).toBe(false);
+		expect(needsStoreMigration({})).toBe(false);
+		expect(needsStoreMigration({ version: '1' })).toBe(false);
+	});
+});
+
+describe('migrateSerializedStore', () => {
+	it('returns null when no migration is needed', () => {
+		expect(migrateSerializedStore({ version: STORE_VERSION })).toBeNull();
+	});
+
+	it('migrates v1 data to the current version', () => {
+		const result = migrateSerializedStore(createV1Store());
+
+		expect(result).not.toBeNull();
+		expect('error' in result!).toBe(false);
+		if (!result || 'error' in result) return;
+
+		expect(result.data.version).toBe(STORE_VERSION);
+		const snapshot = (result.data.snapshots as Record<string, any>[])[0];
+		expect(snapshot.forecasts).toEqual({});
+		expect(snapshot.narrativeEvents).toEqual([]);
+		expect(snapshot.characters.Alice.akas).toEqual([]);
+	});
+
+	it('reports what changed', () => {
+		const result = migrateSerializedStore(createV1Store());
+		if (!result || 'error' in result) throw new Error('expected migration');
+
+		expect(result.report.fromVersion).toBe(1);
+		expect(result.report.toVersion).toBe(STORE_VERSION);
+		expect(result.report.steps[0].changes).toEqual([
+			'Added forecasts to 1 snapshot(s)',
+			'Added narrative events to 1 snapshot(s)',
+			'Added akas to 1 character(s)',
+		]);
+		expect(formatStoreMigrationReport(result.report)).toContain('v1 -> v');
+	});
+
+	it('does not mutate the input', () => {
+		const data = createV1Store();
+		migrateSerializedStore(data);
+		expect(data.version).toBe(1);
+		expect((data.snapshots as Record<string, unknown>[])[0].forecasts).toBeUndefined();
+	});
+
+	it('returns an error for versions without a migration path', () => {
+		const result = migrateSerializedStore({ version: 0, snapshots: [], events: [] });
+		expect(result).toEqual({ error: 'No store migration from version 0' });
+	});
+});
+
+describe('EventStore.loadFromSerialized with migrations', () => {
+	it('loads v1 data and records the migration', () => {
+		const store = EventStore.fromSerialized(createV1Store());
+
+		expect(store).not.toBeNull();
+		expect(store!.hasInitialSnapshot).toBe(true);
+		expect(store!.initialSnapshot!.forecasts).toEqual({});
+		expect(store!.lastMigration?.fromVersion).toBe(1);
+	});
+
+	it('has no migration report for current data', () => {
+		const store = EventStore.fromSerialized(createV1Store())!;
+		const reloaded = EventStore.fromSerialized(store.serialize());
+		expect(reloaded!.lastMigration).toBeNull();
+	});
+
+	it('fails to load data with no migration path', () => {
+		const data = { ...createV1Store(), version: 0 };
+		expect(EventStore.fromSerialized(data)).toBeNull();
+	});
+});
@@ -0,0 +1,178 @@
+/**
+ * V2 Store Migrations
+ *
+ * Ordered vN -> vN+1 transforms for SerializedEventStore.
+ * Each migration receives a deep clone of the serialized data at its `from` version
+ * and returns the data at its `to` version plus a list of human-readable changes.
+ *
+ * To add a migration: bump STORE_VERSION in store/serialization.ts and append a
+ * migration from the previous version to STORE_MIGRATIONS.
+ */
+
+import { STORE_VERSION } from '../store/serialization';
+
+/**
+ * Loosely typed serialized store, as read from chat metadata.
+ * Older versions may be missing fields that the current types require.
+ */
+export type RawSerializedStore = Record<string, unknown> & {
+	version: number;
+	snapshots?: unknown;
+	events?: unknown;
+};
+
+/**
+ * A single version step.
+ */
+export interface StoreMigration {
+	from: number;
+	to: number;
+	/** Short description shown in logs */
+	description: string;
+	/**
+	 * Transform the data. May mutate the given object (it is already a clone).
+	 * @returns Human-readable list of what changed (empty if nothing needed changing)
+	 */
+	migrate: (data: RawSerializedStore) => string[];
+}
+
+/**
+ * Report for one applied migration step.
+ */
+export interface StoreMigrationStepReport {
+	from: number;
+	to: number;
+	description: string;
+	changes: string[];
+}
+
+/**
+ * Report for a full migration run.
+ */
+export interface StoreMigrationReport {
+	fromVersion: number;
+	toVersion: number;
+	steps: StoreMigrationStepReport[];
+}
+
+function asRecordArray(value: unknown): Record<string, unknown>[] {
+	return Array.isArray(value)
+		? value.filter((v): v is Record<string, unknown> => !!v && typeof v === 'object')
+		: [];
+}
+
+/**
+ * All store migrations, in order.
+ */
+export const STORE_MIGRATIONS: StoreMigration[] = [
+	{
+		from: 1,
+		to: 2,
+		description: 'Fill snapshot fields added after the first store format',
+		migrate: data => {
+			let forecasts = 0;
+			let narrativeEvents = 0;
+			let akas = 0;
+
+			for (const snapshot of asRecordArray(data.snapshots)) {
+				// Added in v2 climate update
+				if (!snapshot.forecasts) {
+					snapshot.forecasts = {};
+					forecasts++;
+				}
+				if (!Array.isArray(snapshot.narrativeEvents)) {
+					snapshot.narrativeEvents = [];
+					narrativeEvents++;
+				}
+				const characters = snapshot.characters;
+				if (characters && typeof characters === 'object') {
+					for (const character of Object.values(characters)) {
+						if (character && !Array.isArray(character.akas)) {
+							character.akas = [];
+							akas++;
+						}
+					}
+				}
+			}
+
+			const changes: string[] = [];
+			if (forecasts > 0) {
+				changes.push(`Added forecasts to ${forecasts} snapshot(s)`);
+			}
+			if (narrativeEvents > 0) {
+				changes.push(
+					`Added narrative events to ${narrativeEvents} snapshot(s)`,
+				);
+			}
+			if (akas > 0) {
+				changes.push(`Added akas to ${akas} character(s)`);
+			}
+			return changes;
+		},
+	},
+];
+
+/**
+ * Check whether data needs migrating to the current store version.
+ */
+export function needsStoreMigration(data: unknown): boolean {
+	if (!data || typeof data !== 'object') return false;
+	const version = (data as Record<string, unknown>).version;
+	return typeof version === 'number' && version < STORE_VERSION;
+}
+
+/**
+ * Run all migrations needed to bring serialized store data up to STORE_VERSION.
+ * The input is never mutated.
+ *
+ * @returns null if no migration is needed, an error if a step is missing or throws,
+ *   otherwise the migrated data and a report of what changed
+ */
+export function migrateSerializedStore(
+	data: unknown,
+): { data: RawSerializedStore; report: StoreMigrationReport } | { error: string } | null {
+	if (!needsStoreMigration(data)) {
+		return null;
+	}
+
+	const migrated = JSON.parse(JSON.stringify(data)) as RawSerializedStore;
+	const report: StoreMigrationReport = {
+		fromVersion: migrated.version,
+		toVersion: STORE_VERSION,
+		steps: [],
+	};
+
+	while (migrated.version < STORE_VERSION) {
+		const step = STORE_MIGRATIONS.find(m => m.from === migrated.version);
+		if (!step) {
+			return { error: `No store migration from version ${migrated.version}` };
+		}
+
+		try {
+			const changes = step.migrate(migrated);
+			report.steps.push({
+				from: step.from,
+				to: step.to,
+				description: step.description,
+				changes,
+			});
+		} catch (e) {
+			return {
+				error: `Store migration v${step.from} -> v${step.to} failed: ${(e as Error).message}`,
+			};
+		}
+
+		migrated.version = step.to;
+	}
+
+	return { data: migrated, report };
+}
+
+/**
+ * Summarize a migration report in one line for logs and toasts.
+ */
+export function formatStoreMigrationReport(report: StoreMigrationReport): string {
+	const changes = report.steps.flatMap(s => s.changes);
+	const summary = changes.length > 0 ? changes.join('; ') : 'no data changes';
+	return `v${report.fromVersion} -> v${report.toVersion}: ${summary}`;
+}
@@ -0,0 +1,206 @@
+/**
+ * Compute Arcs Module Tests
+ *
+ * Tests for arc computation and for picking the next arc's chapters.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { EventStore } from '../store/EventStore';
+import { createEventStore } from '../store/EventStore';
+import type { SwipeContext } from '../store/projection';
+import type { ArcSummarizedEvent } from '../types/event';
+import type { ComputedChapter } from './computeChapters';
+import {
+	computeArcs,
+	getArcForChapter,
+	getNextArcRange,
+	selectArcsForOmittedChapters,
+	type ComputedArc,
+} from './computeArcs';
+
+/**
+ * Create an ArcSummarizedEvent.
+ */
+function createArcEvent(
+	id: string,
+	messageId: number,
+	arcIndex: number,
+	firstChapter: number,
+	lastChapter: number,
+	title: string,
+	swipeId: number = 0,
+): ArcSummarizedEvent {
+	return {
+		id,
+		source: { messageId, swipeId },
+		timestamp: Date.now(),
+		kind: 'arc',
+		subkind: 'summarized',
+		arcIndex,
+		firstChapter,
+		lastChapter,
+		title,
+		summary: `Summary of ${title}`,
+	};
+}
+
+/**
+ * Create a computed arc.
+ */
+function createArc(index: number, firstChapter: number, lastChapter: number): ComputedArc {
+	return {
+		index,
+		title: `Arc ${index + 1}`,
+		summary: '',
+		firstChapter,
+		lastChapter,
+		summarizedAt: { messageId: 0, swipeId: 0 },
+	};
+}
+
+/**
+ * Create a completed chapter.
+ */
+function createChapter(index: number): ComputedChapter {
+	return {
+		index,
+		title: `Chapter ${index + 1}`,
+		summary: '',
+		endReason: 'location_change',
+		endedAtMessage: { messageId: index * 10 + 9, swipeId: 0 },
+		startMessageId: index * 10,
+		eventCount: 0,
+		milestones: [],
+		narrativeEvents: [],
+		startTime: null,
+		endTime: null,
+	};
+}
+
+const swipeContext: SwipeContext = {
+	getCanonicalSwipeId: () => 0,
+};
+
+describe('computeArcs', () => {
+	let store: EventStore;
+
+	beforeEach(() => {
+		store = createEventStore();
+	});
+
+	it('returns no arcs when none have been summarized', () => {
+		expect(computeArcs(store, swipeContext)).toEqual([]);
+	});
+
+	it('returns arcs in story order', () => {
+		store.appendEvents([
+			createArcEvent('a2', 60, 1, 3, 5, 'Fallout'),
+			createArcEvent('a1', 30, 0, 0, 2, 'The Job'),
+		]);
+
+		const arcs = computeArcs(store, swipeContext);
+
+		expect(arcs.map(arc => arc.title)).toEqual(['The Job', 'Fallout']);
+		expect(arcs[0]).toMatchObject({
+			index: 0,
+			firstChapter: 0,
+			lastChapter: 2,
+			summary: 'Summary of The Job',
+			summarizedAt: { messageId: 30, swipeId: 0 },
+		});
+	});
+
+	it('lets a later event for the same arc replace an earlier one', () => {
+		store.appendEvents([
+			createArcEvent('a1', 30, 0, 0, 2, 'The Job'),
+			createArcEvent('a1b', 40, 0, 0, 2, 'The Setup'),
+		]);
+
+		const arcs = computeArcs(store, swipeContext);
+
+		expect(arcs).toHaveLength(1);
+		expect(arcs[0].title).toBe('The Setup');
+	});
+
+	it('ignores arcs from swipes off the canonical path', () => {
+		store.appendEvents([createArcEvent('a1', 30, 0, 0, 2, 'The Job', 1)]);
+
+		expect(computeArcs(store, swipeContext)).toEqual([]);
+	});
+
+	it('ignores deleted arcs', () => {
+		const event = createArcEvent('a1', 30, 0, 0, 2, 'The Job');
+		event.deleted = true;
+		store.appendEvents([event]);
+
+		expect(computeArcs(store, swipeContext)).toEqual([]);
+	});
+});
+
+describe('getArcForChapter', () => {
+	it('finds the arc covering a chapter', () => {
+		const arcs = [createArc(0, 0, 2), createArc(1, 3, 5)];
+
+		expect(getArcForChapter(arcs, 0)?.index).toBe(0);
+		expect(getArcForChapter(arcs, 4)?.index).toBe(1);
+		expect(getArcForChapter(arcs, 6)).toBeUndefined();
+	});
+});
+
+describe('getNextArcRange', () => {
+	it('starts the first arc at chapter 0 once enough chapters completed', () => {
+		expect(getNextArcRange([], 1, 3)).toBeNull();
+		expect(getNextArcRange([], 2, 3)).toEqual({
+			arcIndex: 0,
+			firstChapter: 0,
+			lastChapter: 2,
+		});
+	});
+
+	it('continues after the last arc', () => {
+		const arcs = [createArc(0, 0, 2)];
+
+		expect(getNextArcRange(arcs, 4, 3)).toBeNull();
+		expect(getNextArcRange(arcs, 5, 3)).toEqual({
+			arcIndex: 1,
+			firstChapter: 3,
+			lastChapter: 5,
+		});
+	});
+
+	it('returns null when arcs are disabled', () => {
+		expect(getNextArcRange([], 10, 0)).toBeNull();
+	});
+});
+
+describe('selectArcsForOmittedChapters', () => {
+	const arcs = [createArc(0, 0, 2), createArc(1, 3, 5)];
+	const pastChapters = [0, 1, 2, 3, 4, 5, 6].map(createChapter);
+
+	it('picks the arcs of chapters that were left out', () => {
+		const selected = pastChapters.slice(-3); // chapters 4-6
+
+		expect(selectArcsForOmittedChapters(arcs, pastChapters, selected, 7)).toEqual([
+			arcs[0],
+			arcs[1],
+		]);
+	});
+
+	it('skips arcs whose chapters were all selected', () => {
+		const selected = pastChapters.slice(-4); // chapters 3-6
+
+		expect(selectArcsForOmittedChapters(arcs, pastChapters, selected, 7)).toEqual([
+			arcs[0],
+		]);
+	});
+
+	it('skips arcs that reach the current chapter', () => {
+		// Chapter 5 is current, so arc 1 isn't complete yet
+		const beforeCurrent = pastChapters.slice(0, 5);
+		const selected = beforeCurrent.slice(-1);
+
+		expect(selectArcsForOmittedChapters(arcs, beforeCurrent, selected, 5)).toEqual([
+			arcs[0],
+		]);
+	});
+});
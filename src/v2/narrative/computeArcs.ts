@@ -0,0 +1,139 @@
+/**
+ * Compute Arc Data from Events
+ *
+ * Arcs group runs of completed chapters under a single summary, one level
+ * above chapters. Like chapters, they are computed rather than stored: each
+ * ArcSummarizedEvent on the canonical path describes one arc, and a later
+ * event for the same arc index replaces an earlier one.
+ */
+
+import type { EventStore } from '../store';
+import type { SwipeContext } from '../store/projection';
+import type { MessageAndSwipe } from '../types/common';
+import { isArcSummarizedEvent } from '../types/event';
+import type { ComputedChapter } from './computeChapters';
+
+/**
+ * Computed arc data from events.
+ */
+export interface ComputedArc {
+	/** Arc index (0-based) */
+	index: number;
+	/** Arc title */
+	title: string;
+	/** Arc summary */
+	summary: string;
+	/** First chapter in the arc (0-based) */
+	firstChapter: number;
+	/** Last chapter in the arc (0-based, inclusive) */
+	lastChapter: number;
+	/** Message/swipe where the arc was summarized */
+	summarizedAt: MessageAndSwipe;
+}
+
+/**
+ * The chapters the next arc would cover.
+ */
+export interface ArcRange {
+	arcIndex: number;
+	firstChapter: number;
+	lastChapter: number;
+}
+
+/**
+ * Compute all arcs from events, in story order.
+ *
+ * @param store - The event store
+ * @param swipeContext - Swipe context for filtering
+ * @returns Arcs on the canonical path
+ */
+export function computeArcs(store: EventStore, swipeContext: SwipeContext): ComputedArc[] {
+	const arcs = new Map<number, ComputedArc>();
+
+	for (const event of store.getActiveEvents()) {
+		const canonicalSwipeId = swipeContext.getCanonicalSwipeId(event.source.messageId);
+		if (event.source.swipeId !== canonicalSwipeId) continue;
+		if (!isArcSummarizedEvent(event)) continue;
+
+		arcs.set(event.arcIndex, {
+			index: event.arcIndex,
+			title: event.title,
+			summary: event.summary,
+			firstChapter: event.firstChapter,
+			lastChapter: event.lastChapter,
+			summarizedAt: event.source,
+		});
+	}
+
+	return [...arcs.values()].sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Get the arc a chapter belongs to, if it has been summarized into one.
+ */
+export function getArcForChapter(
+	arcs: ComputedArc[],
+	chapterIndex: number,
+): ComputedArc | undefined {
+	return arcs.find(
+		arc => chapterIndex >= arc.firstChapter && chapterIndex <= arc.lastChapter,
+	);
+}
+
+/**
+ * Get the chapters the next arc should cover, once enough chapters have
+ * completed since the last arc.
+ *
+ * @param arcs - Existing arcs
+ * @param lastCompletedChapter - Index of the most recently completed chapter
+ * @param chaptersPerArc - Chapters per arc (0 = arcs disabled)
+ * @returns The next arc's range, or null if it isn't due yet
+ */
+export function getNextArcRange(
+	arcs: ComputedArc[],
+	lastCompletedChapter: number,
+	chaptersPerArc: number,
+): ArcRange | null {
+	if (chaptersPerArc <= 0) return null;
+
+	const lastArc = arcs[arcs.length - 1];
+	const firstChapter = lastArc ? lastArc.lastChapter + 1 : 0;
+	const lastChapter = firstChapter + chaptersPerArc - 1;
+	if (lastChapter > lastCompletedChapter) return null;
+
+	return {
+		arcIndex: lastArc ? lastArc.index + 1 : 0,
+		firstChapter,
+		lastChapter,
+	};
+}
+
+/**
+ * Pick the arcs that stand in for completed chapters left out of the
+ * injection: every arc that ends before `beforeChapter` and covers at least
+ * one past chapter that wasn't selected.
+ *
+ * @param arcs - All arcs
+ * @param pastChapters - Completed chapters before `beforeChapter`
+ * @param selectedChapters - The past chapters being injected
+ * @param beforeChapter - The chapter the injected history leads up to
+ */
+export function selectArcsForOmittedChapters(
+	arcs: ComputedArc[],
+	pastChapters: ComputedChapter[],
+	selectedChapters: ComputedChapter[],
+	beforeChapter: number,
+): ComputedArc[] {
+	const selected = new Set(selectedChapters.map(chapter => chapter.index));
+	const omitted = pastChapters.filter(chapter => !selected.has(chapter.index));
+
+	return arcs.filter(
+		arc =>
+			arc.lastChapter < beforeChapter &&
+			omitted.some(
+				chapter =>
+					chapter.index >= arc.firstChapter &&
+					chapter.index <= arc.lastChapter,
+			),
+	);
+}
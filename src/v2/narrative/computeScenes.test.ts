@@ -0,0 +1,152 @@
+/**
+ * Compute Scenes Module Tests
+ *
+ * Tests for scene computation and scene diff ranges.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { EventStore } from '../store/EventStore';
+import { createEventStore } from '../store/EventStore';
+import type { SwipeContext } from '../store/projection';
+import type { SceneEndedEvent, SceneDescribedEvent } from '../types/event';
+import {
+	computeScenes,
+	getCurrentSceneIndex,
+	getSceneDiffRange,
+	type ComputedScene,
+} from './computeScenes';
+
+/**
+ * Create a SceneEndedEvent.
+ */
+function createEndedEvent(
+	id: string,
+	messageId: number,
+	sceneIndex: number,
+	swipeId: number = 0,
+): SceneEndedEvent {
+	return {
+		id,
+		source: { messageId, swipeId },
+		timestamp: Date.now(),
+		kind: 'scene',
+		subkind: 'ended',
+		sceneIndex,
+		chapterIndex: 0,
+		reasons: ['location_change'],
+	};
+}
+
+/**
+ * Create a SceneDescribedEvent.
+ */
+function createDescribedEvent(
+	id: string,
+	messageId: number,
+	sceneIndex: number,
+	title: string,
+): SceneDescribedEvent {
+	return {
+		id,
+		source: { messageId, swipeId: 0 },
+		timestamp: Date.now(),
+		kind: 'scene',
+		subkind: 'described',
+		sceneIndex,
+		title,
+		summary: `Summary of ${title}`,
+	};
+}
+
+const swipeContext: SwipeContext = {
+	getCanonicalSwipeId: () => 0,
+};
+
+describe('computeScenes', () => {
+	let store: EventStore;
+
+	beforeEach(() => {
+		store = createEventStore();
+	});
+
+	it('returns only the open scene when none have ended', () => {
+		const scenes = computeScenes(store, swipeContext);
+
+		expect(scenes).toHaveLength(1);
+		expect(scenes[0]).toMatchObject({
+			index: 0,
+			title: 'Scene 1',
+			startMessageId: 0,
+			endedAtMessage: null,
+		});
+	});
+
+	it('starts each scene after the previous one ended', () => {
+		store.appendEvents([
+			createEndedEvent('s1', 4, 0),
+			createDescribedEvent('d1', 4, 0, 'The Road In'),
+			createEndedEvent('s2', 9, 1),
+		]);
+
+		const scenes = computeScenes(store, swipeContext);
+
+		expect(scenes.map(scene => scene.startMessageId)).toEqual([0, 5, 10]);
+		expect(scenes[0]).toMatchObject({
+			title: 'The Road In',
+			summary: 'Summary of The Road In',
+			reasons: ['location_change'],
+			endedAtMessage: { messageId: 4, swipeId: 0 },
+		});
+		expect(scenes[1].title).toBe('Scene 2');
+		expect(scenes[2].endedAtMessage).toBeNull();
+	});
+
+	it('lets a later description replace an earlier one', () => {
+		store.appendEvents([
+			createEndedEvent('s1', 4, 0),
+			createDescribedEvent('d1', 4, 0, 'The Road In'),
+			createDescribedEvent('d1b', 5, 0, 'Arrival'),
+		]);
+
+		expect(computeScenes(store, swipeContext)[0].title).toBe('Arrival');
+	});
+
+	it('ignores scene ends from swipes off the canonical path', () => {
+		store.appendEvents([createEndedEvent('s1', 4, 0, 1)]);
+
+		expect(computeScenes(store, swipeContext)).toHaveLength(1);
+		expect(getCurrentSceneIndex(store, swipeContext)).toBe(0);
+	});
+});
+
+describe('getCurrentSceneIndex', () => {
+	it('returns one past the last ended scene', () => {
+		const store = createEventStore();
+		store.appendEvents([createEndedEvent('s1', 4, 0), createEndedEvent('s2', 9, 1)]);
+
+		expect(getCurrentSceneIndex(store, swipeContext)).toBe(2);
+	});
+});
+
+describe('getSceneDiffRange', () => {
+	const scene: ComputedScene = {
+		index: 1,
+		title: 'Scene 2',
+		summary: '',
+		reasons: [],
+		chapterIndex: 0,
+		startMessageId: 5,
+		endedAtMessage: { messageId: 9, swipeId: 0 },
+	};
+
+	it('diffs from the message before the scene to its last message', () => {
+		expect(getSceneDiffRange(scene, 20)).toEqual({ from: 4, to: 9 });
+	});
+
+	it('runs an open scene to the latest message', () => {
+		expect(getSceneDiffRange({ ...scene, endedAtMessage: null }, 20)).toEqual({
+			from: 4,
+			to: 20,
+		});
+	});
+});
@@ -0,0 +1,128 @@
+/**
+ * Compute Scene Data from Events
+ *
+ * Scenes are a finer segmentation than chapters: a new scene starts whenever
+ * the story moves somewhere else, skips ahead or changes cast. Like chapters,
+ * they are computed rather than stored. Each SceneEndedEvent on the canonical
+ * path closes a scene at its message, and SceneDescribedEvents add titles and
+ * summaries (a later event for the same scene replaces an earlier one).
+ */
+
+import type { EventStore } from '../store';
+import type { SwipeContext } from '../store/projection';
+import type { MessageAndSwipe } from '../types/common';
+import type { SceneBreakReason } from '../types/event';
+import { isSceneEndedEvent, isSceneDescribedEvent } from '../types/event';
+import { getCurrentChapterIndex } from './computeChapters';
+
+/**
+ * Computed scene data from events.
+ */
+export interface ComputedScene {
+	/** Scene index (0-based, counted across the whole chat) */
+	index: number;
+	/** Scene title (from SceneDescribedEvent or default) */
+	title: string;
+	/** Scene summary (from SceneDescribedEvent or empty) */
+	summary: string;
+	/** What ended the scene (empty for the current scene, or when it ended with its chapter) */
+	reasons: SceneBreakReason[];
+	/** Chapter the scene belongs to (0-based) */
+	chapterIndex: number;
+	/** Scene start message ID (previous scene's end + 1, or 0) */
+	startMessageId: number;
+	/** Message/swipe where the scene ended (null for the current scene) */
+	endedAtMessage: MessageAndSwipe | null;
+}
+
+/**
+ * Compute all scenes from events, in story order.
+ * The last entry is the scene still in progress.
+ *
+ * @param store - The event store
+ * @param swipeContext - Swipe context for filtering
+ * @returns Scenes on the canonical path
+ */
+export function computeScenes(store: EventStore, swipeContext: SwipeContext): ComputedScene[] {
+	const ended = new Map<
+		number,
+		{ source: MessageAndSwipe; chapterIndex: number; reasons: SceneBreakReason[] }
+	>();
+	const described = new Map<number, { title: string; summary: string }>();
+
+	for (const event of store.getActiveEvents()) {
+		const canonicalSwipeId = swipeContext.getCanonicalSwipeId(event.source.messageId);
+		if (event.source.swipeId !== canonicalSwipeId) continue;
+
+		if (isSceneEndedEvent(event)) {
+			ended.set(event.sceneIndex, {
+				source: event.source,
+				chapterIndex: event.chapterIndex,
+				reasons: event.reasons,
+			});
+		} else if (isSceneDescribedEvent(event)) {
+			described.set(event.sceneIndex, {
+				title: event.title,
+				summary: event.summary,
+			});
+		}
+	}
+
+	const scenes: ComputedScene[] = [];
+	let startMessageId = 0;
+	const lastEnded = Math.max(-1, ...ended.keys());
+
+	for (let index = 0; index <= lastEnded + 1; index++) {
+		const end = ended.get(index);
+		// A missing end in the middle means the event was deleted; the scene
+		// then runs on into the next one
+		if (!end && index <= lastEnded) continue;
+
+		const description = described.get(index);
+		scenes.push({
+			index,
+			title: description?.title ?? `Scene ${index + 1}`,
+			summary: description?.summary ?? '',
+			reasons: end?.reasons ?? [],
+			chapterIndex:
+				end?.chapterIndex ?? getCurrentChapterIndex(store, swipeContext),
+			startMessageId,
+			endedAtMessage: end?.source ?? null,
+		});
+
+		if (end) startMessageId = end.source.messageId + 1;
+	}
+
+	return scenes;
+}
+
+/**
+ * Get the index of the scene in progress: one past the last ended scene.
+ */
+export function getCurrentSceneIndex(store: EventStore, swipeContext: SwipeContext): number {
+	let current = 0;
+
+	for (const event of store.getActiveEvents()) {
+		const canonicalSwipeId = swipeContext.getCanonicalSwipeId(event.source.messageId);
+		if (event.source.swipeId !== canonicalSwipeId) continue;
+		if (!isSceneEndedEvent(event)) continue;
+
+		current = Math.max(current, event.sceneIndex + 1);
+	}
+
+	return current;
+}
+
+/**
+ * Get the message range to diff for a scene: the state just before it started
+ * against the state at its last message (or the latest message if it's still going).
+ */
+export function getSceneDiffRange(
+	scene: ComputedScene,
+	lastMessageId: number,
+): { from: number; to: number } {
+	return {
+		from: Math.max(0, scene.startMessageId - 1),
+		to: scene.endedAtMessage?.messageId ?? lastMessageId,
+	};
+}
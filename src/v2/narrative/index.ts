@@ -9,3 +9,17 @@ export {
 	computeChapters,
 	type SwipeContext,
 } from './computeNarrativeEvents';
+export {
+	computeArcs,
+	getArcForChapter,
+	getNextArcRange,
+	selectArcsForOmittedChapters,
+	type ComputedArc,
+	type ArcRange,
+} from './computeArcs';
+export {
+	computeScenes,
+	getCurrentSceneIndex,
+	getSceneDiffRange,
+	type ComputedScene,
+} from './computeScenes';
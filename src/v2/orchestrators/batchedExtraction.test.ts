@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { runBatched, buildBatchedPrompt, type BatchTarget } from './batchedExtraction';
+import { createMockGenerator, buildPrompt, type Generator } from '../generator';
+import type { PromptTemplate } from '../prompts';
+
+interface MoodResult {
+	mood: string;
+}
+
+const moodPrompt: PromptTemplate<MoodResult> = {
+	name: 'test_mood',
+	description: 'Test prompt',
+	placeholders: [],
+	systemPrompt: 'Extract the mood.',
+	userTemplate: '',
+	responseSchema: {
+		type: 'object',
+		properties: { mood: { type: 'string' } },
+		required: ['mood'],
+	},
+	defaultTemperature: 0.5,
+	parseResponse(response: string): MoodResult | null {
+		try {
+			const parsed = JSON.parse(response);
+			return typeof parsed?.mood === 'string' ? parsed : null;
+		} catch {
+			return null;
+		}
+	},
+};
+
+function userPrompt(character: string): string {
+	return `## Messages\nAlice waves at Bob.\n\n## Target Character\n${character}\n\n## Task\nWhat is ${character}'s mood?`;
+}
+
+/**
+ * Target that makes one call and parses it like an extractor would.
+ */
+function target(character: string): BatchTarget<string | null> {
+	return {
+		key: character,
+		run: async (generator: Generator) => {
+			const response = await generator.generate(
+				buildPrompt(
+					moodPrompt.systemPrompt,
+					userPrompt(character),
+					moodPrompt.name,
+				),
+				{ maxTokens: 100 },
+			);
+			return moodPrompt.parseResponse(response)?.mood ?? null;
+		},
+	};
+}
+
+function values<T>(results: PromiseSettledResult<T>[]): (T | undefined)[] {
+	return results.map(r => (r.status === 'fulfilled' ? r.value : undefined));
+}
+
+describe('buildBatchedPrompt', () => {
+	it('sends shared sections once and the rest under a heading per target', () => {
+		const prompt = buildBatchedPrompt(
+			['Alice', 'Bob'].map(key => ({
+				key,
+				prompt: buildPrompt('System', userPrompt(key), 'test_mood'),
+			})),
+			'character',
+		);
+		const user = prompt.messages[1].content;
+
+		expect(prompt.name).toBe('test_mood_batch');
+		expect(prompt.messages[0].content).toContain('several characters');
+		expect(user.match(/## Messages/g)).toHaveLength(1);
+		expect(user.indexOf('## Messages')).toBeLessThan(user.indexOf('# Alice'));
+		expect(user).toContain(
+			"# Bob\n\n## Target Character\nBob\n\n## Task\nWhat is Bob's mood?",
+		);
+		expect(user).toContain('keys are exactly: "Alice", "Bob"');
+	});
+});
+
+describe('runBatched', () => {
+	it('answers every target with a single call', async () => {
+		const generator = createMockGenerator().setDefaultResponse(
+			JSON.stringify({ Alice: { mood: 'happy' }, Bob: { mood: 'wary' } }),
+		);
+
+		const results = await runBatched(
+			generator,
+			moodPrompt,
+			[target('Alice'), target('Bob')],
+			'character',
+		);
+
+		expect(values(results)).toEqual(['happy', 'wary']);
+		expect(generator.getCalls()).toHaveLength(1);
+		expect(generator.getCalls()[0].prompt.name).toBe('test_mood_batch');
+	});
+
+	it("gives the batched request every target's token budget", async () => {
+		const generator = createMockGenerator().setDefaultResponse(
+			JSON.stringify({
+				Alice: { mood: 'happy' },
+				Bob: { mood: 'wary' },
+				Carol: { mood: 'calm' },
+			}),
+		);
+
+		await runBatched(
+			generator,
+			moodPrompt,
+			[target('Alice'), target('Bob'), target('Carol')],
+			'character',
+		);
+
+		expect(generator.getCalls()[0].settings.maxTokens).toBe(300);
+	});
+
+	it('asks separately for targets missing from the batched answer', async () => {
+		const generator = createMockGenerator()
+			.setResponse('# Alice', JSON.stringify({ Alice: { mood: 'happy' } }))
+			.setDefaultResponse(JSON.stringify({ mood: 'tired' }));
+
+		const results = await runBatched(
+			generator,
+			moodPrompt,
+			[target('Alice'), target('Bob')],
+			'character',
+		);
+
+		expect(values(results)).toEqual(['happy', 'tired']);
+		expect(generator.getCalls().map(c => c.prompt.name)).toEqual([
+			'test_mood_batch',
+			'test_mood',
+		]);
+	});
+
+	it('falls back to one call per target when the answer is not JSON', async () => {
+		const generator = createMockGenerator()
+			.setResponse('# Alice', 'I cannot do that.')
+			.setDefaultResponse(JSON.stringify({ mood: 'calm' }));
+
+		const results = await runBatched(
+			generator,
+			moodPrompt,
+			[target('Alice'), target('Bob'), target('Carol')],
+			'character',
+		);
+
+		expect(values(results)).toEqual(['calm', 'calm', 'calm']);
+		expect(generator.getCalls()).toHaveLength(4);
+	});
+
+	it('does not wait for targets that finish without generating', async () => {
+		const generator = createMockGenerator().setDefaultResponse(
+			JSON.stringify({ mood: 'happy' }),
+		);
+		const skipped: BatchTarget<string | null> = { key: 'Bob', run: async () => null };
+
+		const results = await runBatched(
+			generator,
+			moodPrompt,
+			[target('Alice'), skipped],
+			'character',
+		);
+
+		// Only one call left, so it is sent as a normal request
+		expect(values(results)).toEqual(['happy', null]);
+		expect(generator.getCalls()[0].prompt.name).toBe('test_mood');
+	});
+
+	it('reports targets that throw without affecting the others', async () => {
+		const generator = createMockGenerator().setDefaultResponse(
+			JSON.stringify({ Alice: { mood: 'happy' }, Bob: { mood: 'wary' } }),
+		);
+		const failing: BatchTarget<string | null> = {
+			key: 'Carol',
+			run: async () => {
+				throw new Error('boom');
+			},
+		};
+
+		const results = await runBatched(
+			generator,
+			moodPrompt,
+			[target('Alice'), failing, target('Bob')],
+			'character',
+		);
+
+		expect(values(results)).toEqual(['happy', undefined, 'wary']);
+		expect(results[1].status).toBe('rejected');
+	});
+});
@@ -0,0 +1,269 @@
+/**
+ * V2 Batched Extraction
+ *
+ * Runs a per-character or per-pair extractor for several targets with a single
+ * LLM call. Each target's run is started against a capturing generator that
+ * holds on to the prompt it would send. The captured prompts are merged into
+ * one request asking for a JSON object keyed by target, and each run then
+ * continues with its own slice of the answer, so extractors need no batching
+ * logic of their own. Targets whose slice is missing or doesn't parse fall back
+ * to a request of their own.
+ */
+
+import type { Generator, GeneratorPrompt, GeneratorSettings } from '../generator';
+import { isAbortError } from '../generator';
+import type { JSONSchema, PromptTemplate } from '../prompts';
+import { parseJsonResponse } from '../../utils/json';
+import { debugLog, debugWarn } from '../../utils/debug';
+
+/**
+ * One target of a batched run.
+ */
+export interface BatchTarget<T> {
+	/** Key for this target in the batched response (e.g. "Alice", "Alice & Bob") */
+	key: string;
+	/** Run the extractor for this target with the given generator */
+	run(generator: Generator): Promise<T>;
+}
+
+/**
+ * A generate() call held back until the batched response is in.
+ */
+interface CapturedCall {
+	key: string;
+	prompt: GeneratorPrompt;
+	settings: GeneratorSettings;
+	resolve(response: string): void;
+	reject(error: unknown): void;
+}
+
+/**
+ * Generator that captures its first request and passes any later ones
+ * (e.g. parse retries) straight through.
+ */
+class CapturingGenerator implements Generator {
+	private captured = false;
+
+	constructor(
+		private readonly inner: Generator,
+		private readonly onCapture: (call: Omit<CapturedCall, 'key'>) => void,
+	) {}
+
+	generate(prompt: GeneratorPrompt, settings: GeneratorSettings): Promise<string> {
+		if (this.captured) {
+			return this.inner.generate(prompt, settings);
+		}
+		this.captured = true;
+		return new Promise((resolve, reject) =>
+			this.onCapture({ prompt, settings, resolve, reject }),
+		);
+	}
+
+	async discardResponse(prompt: GeneratorPrompt, settings: GeneratorSettings): Promise<void> {
+		await this.inner.discardResponse?.(prompt, settings);
+	}
+
+	abort(): void {
+		this.inner.abort();
+	}
+}
+
+const BATCH_INSTRUCTIONS = `## Batched Request
+This request covers several {{noun}}s at once. Handle each one exactly as you would on its own: the sections under its "# " heading are specific to it, everything before the first "# " heading applies to all of them.
+
+Respond with a single JSON object with one key per {{noun}} (the text of its "# " heading). Each value is the complete JSON response for that {{noun}}, in the format described above.`;
+
+/**
+ * Split a user prompt into its "## " sections (text before the first heading
+ * is a section of its own).
+ */
+function splitSections(text: string): string[] {
+	return text
+		.split(/\n(?=## )/)
+		.map(section => section.trim())
+		.filter(section => section.length > 0);
+}
+
+function getContent(prompt: GeneratorPrompt, role: 'system' | 'user'): string {
+	return prompt.messages
+		.filter(m => m.role === role)
+		.map(m => m.content)
+		.join('\n\n');
+}
+
+/**
+ * Merge per-target prompts into one. Sections every target shares (messages,
+ * worldinfo, ...) are sent once; the rest go under a "# <key>" heading per target.
+ */
+export function buildBatchedPrompt(
+	entries: Array<{ key: string; prompt: GeneratorPrompt }>,
+	noun: string,
+): GeneratorPrompt {
+	const sectionLists = entries.map(e => splitSections(getContent(e.prompt, 'user')));
+	const shared = sectionLists[0].filter(section =>
+		sectionLists.every(list => list.includes(section)),
+	);
+
+	const parts = [...shared];
+	entries.forEach((entry, i) => {
+		const own = sectionLists[i].filter(section => !shared.includes(section));
+		parts.push(`# ${entry.key}\n\n${own.join('\n\n')}`);
+	});
+	parts.push(
+		`Respond with one JSON object whose keys are exactly: ${entries
+			.map(e => JSON.stringify(e.key))
+			.join(', ')}.`,
+	);
+
+	const system = `${getContent(entries[0].prompt, 'system')}\n\n${BATCH_INSTRUCTIONS.replace(/\{\{noun\}\}/g, noun)}`;
+	const name = entries[0].prompt.name;
+	return {
+		messages: [
+			{ role: 'system', content: system },
+			{ role: 'user', content: parts.join('\n\n') },
+		],
+		name: name ? `${name}_batch` : undefined,
+	};
+}
+
+/**
+ * Schema for a batched response: the single-target schema under each key.
+ */
+export function buildBatchedSchema(keys: string[], schema: JSONSchema): JSONSchema {
+	return {
+		type: 'object',
+		properties: Object.fromEntries(keys.map(key => [key, schema])),
+		required: keys,
+		additionalProperties: false,
+	};
+}
+
+/**
+ * Parse a batched response into per-key values, or null if it isn't an object.
+ */
+function parseBatchedResponse(response: string): Record<string, unknown> | null {
+	try {
+		const parsed = parseJsonResponse(response, { shape: 'object' });
+		if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+			return parsed as Record<string, unknown>;
+		}
+	} catch {
+		// Fall through
+	}
+	return null;
+}
+
+/**
+ * Send the captured calls as one request and hand each its slice, falling
+ * back to individual requests (one at a time) where that fails.
+ */
+async function dispatchBatch(
+	generator: Generator,
+	template: PromptTemplate,
+	calls: CapturedCall[],
+	noun: string,
+): Promise<void> {
+	const forward = (call: CapturedCall) =>
+		generator.generate(call.prompt, call.settings).then(call.resolve, call.reject);
+
+	if (calls.length === 1) {
+		await forward(calls[0]);
+		return;
+	}
+
+	const { settings } = calls[0];
+	const keys = calls.map(c => c.key);
+	const batchedPrompt = buildBatchedPrompt(calls, noun);
+	const batchedSettings: GeneratorSettings = {
+		...settings,
+		// Room for every target's answer
+		maxTokens: calls.reduce((total, call) => total + call.settings.maxTokens, 0),
+		responseSchema: settings.responseSchema && {
+			name: `${settings.responseSchema.name}_batch`,
+			schema: buildBatchedSchema(keys, settings.responseSchema.schema),
+		},
+	};
+	let slices: Record<string, unknown> | null = null;
+	try {
+		const response = await generator.generate(batchedPrompt, batchedSettings);
+		slices = parseBatchedResponse(response);
+		if (!slices) {
+			debugWarn(`Batched ${template.name} response was not a JSON object`);
+			await generator.discardResponse?.(batchedPrompt, batchedSettings);
+		}
+	} catch (error) {
+		if (isAbortError(error) || settings.abortSignal?.aborted) {
+			calls.forEach(call => call.reject(error));
+			return;
+		}
+		debugWarn(`Batched ${template.name} failed:`, error);
+	}
+
+	const fallbacks: CapturedCall[] = [];
+	for (const call of calls) {
+		const slice = slices?.[call.key];
+		const text = slice === undefined ? null : JSON.stringify(slice);
+		if (text !== null && template.parseResponse(text) !== null) {
+			call.resolve(text);
+		} else {
+			fallbacks.push(call);
+		}
+	}
+
+	for (const call of fallbacks) {
+		debugLog(
+			`Batched ${template.name}: no usable answer for ${call.key}, asking separately`,
+		);
+		await forward(call);
+	}
+}
+
+/**
+ * Run an extractor for several targets, batching their first LLM call.
+ *
+ * @param generator - The real generator
+ * @param template - The extractor's prompt template (used to validate each slice)
+ * @param targets - Targets to run, keyed by name
+ * @param noun - What a target is, for the prompt (e.g. "character")
+ * @returns The settled result of each target's run, in target order
+ */
+export async function runBatched<T>(
+	generator: Generator,
+	template: PromptTemplate,
+	targets: BatchTarget<T>[],
+	noun: string,
+): Promise<PromiseSettledResult<T>[]> {
+	// Each target either captures a call or finishes without generating
+	const calls: Array<CapturedCall | null | undefined> = targets.map(() => undefined);
+	let waiting = targets.length;
+	let onAllSettled!: () => void;
+	const allSettled = new Promise<void>(resolve => (onAllSettled = resolve));
+	const settle = (index: number, call: CapturedCall | null) => {
+		if (calls[index] !== undefined) return;
+		calls[index] = call;
+		if (--waiting === 0) onAllSettled();
+	};
+	if (waiting === 0) onAllSettled();
+
+	const runs = targets.map((target, index) => {
+		const capturing = new CapturingGenerator(generator, call =>
+			settle(index, { ...call, key: target.key }),
+		);
+		const run = target.run(capturing);
+		run.then(
+			() => settle(index, null),
+			() => settle(index, null),
+		);
+		return run;
+	});
+
+	await allSettled;
+	await dispatchBatch(
+		generator,
+		template,
+		calls.filter((call): call is CapturedCall => !!call),
+		noun,
+	);
+
+	return Promise.allSettled(runs);
+}
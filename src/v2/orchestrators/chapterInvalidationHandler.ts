@@ -22,11 +22,13 @@ import {
 import { chapterDescriptionPrompt } from '../prompts/events/chapterDescriptionPrompt';
 import { chapterEndedExtractor } from '../extractors/events/chapterEndedExtractor';
 import type { ChapterEndedEvent, ChapterDescribedEvent } from '../types/event';
-import { isChapterEndedEvent } from '../types/event';
+import { isChapterEndedEvent, isArcSummarizedEvent } from '../types/event';
 import { computeNarrativeEvents, computeChapters } from '../narrative/computeNarrativeEvents';
 import type { NarrativeEvent } from '../types/snapshot';
 import { debugLog, debugWarn } from '../../utils/debug';
 import { getWorldinfoForPrompt } from '../utils/worldinfo';
+import { formatMoment } from '../../utils/dateFormat';
+import type { CalendarDefinition } from '../../utils/calendar';
 
 /**
  * Milestone info for chapter milestones.
@@ -251,7 +253,8 @@ export async function recalculateChapterDescription(
 // ============================================
 
 /**
- * Delete all chapter events (ChapterEndedEvent and ChapterDescribedEvent) for a chapter.
+ * Delete all chapter events (ChapterEndedEvent and ChapterDescribedEvent) for a chapter,
+ * and the arcs that include it or come after it (they're summarized again as chapters end).
  */
 function deleteChapterEvents(
 	store: EventStore,
@@ -278,6 +281,10 @@ function deleteChapterEvents(
 				event.deleted = true;
 			}
 		}
+
+		if (isArcSummarizedEvent(event) && event.lastChapter >= chapterIndex) {
+			event.deleted = true;
+		}
 	}
 }
 
@@ -366,7 +373,10 @@ async function regenerateChapterDescription(
 		allChapterMessages,
 		chapterNarrativeEvents: formatNarrativeEvents(chapterNarrativeEvents),
 		chapterMilestones: formatMilestones(chapterMilestones),
-		chapterTimeRange: formatTimeRange(chapterNarrativeEvents),
+		chapterTimeRange: formatTimeRange(
+			chapterNarrativeEvents,
+			settings.calendar ?? null,
+		),
 		chapterSummaries: formatChapterSummaries(store, swipeContext, chapterIndex),
 		worldinfo,
 	};
@@ -482,7 +492,10 @@ function formatMilestones(milestones: MilestoneInfo[]): string {
 /**
  * Format time range for chapter.
  */
-function formatTimeRange(narrativeEvents: NarrativeEvent[]): string {
+function formatTimeRange(
+	narrativeEvents: NarrativeEvent[],
+	calendar: CalendarDefinition | null,
+): string {
 	if (narrativeEvents.length === 0) return 'Unknown';
 
 	const eventsWithTime = narrativeEvents.filter(e => e.narrativeTime !== null);
@@ -494,10 +507,10 @@ function formatTimeRange(narrativeEvents: NarrativeEvent[]): string {
 	if (!firstTime || !lastTime) return 'Unknown';
 
 	if (firstTime.isSame(lastTime, 'day')) {
-		return `${firstTime.format('dddd')}, ${firstTime.format('h:mm A')} to ${lastTime.format('h:mm A')}`;
+		return `${formatMoment(firstTime, 'dddd', calendar)}, ${firstTime.format('h:mm A')} to ${lastTime.format('h:mm A')}`;
 	}
 
-	return `${firstTime.format('dddd h:mm A')} to ${lastTime.format('dddd h:mm A')}`;
+	return `${formatMoment(firstTime, 'dddd h:mm A', calendar)} to ${formatMoment(lastTime, 'dddd h:mm A', calendar)}`;
 }
 
 /**
@@ -7,6 +7,7 @@ import type {
 	RunStrategyContext,
 	ExtractorState,
 	EventExtractor,
+	ExtractorResource,
 	PerCharacterExtractor,
 	PerPairExtractor,
 } from '../extractors/types';
@@ -14,7 +15,11 @@ import { createExtractorState } from '../extractors/types';
 import type { Event, MessageAndSwipe } from '../types';
 import { isCharacterAppearedEvent, isCharacterAkasAddEvent } from '../types';
 import { sortPair } from '../types/snapshot';
-import { buildSwipeContextFromExtraction } from '../extractors/utils';
+import {
+	buildSwipeContextFromExtraction,
+	applyStrategyOverride,
+	findUndeclaredInputs,
+} from '../extractors/utils';
 import {
 	buildAkaLookup,
 	resolveNamesInEvents,
@@ -33,7 +38,67 @@ import {
 	perPairExtractors,
 } from '../extractors/events';
 import { startSection, completeSection, updateSectionLabel } from '../extractors/progressTracker';
-import { debugLog, errorLog } from '../../utils/debug';
+import { runTaskGraph, type ExtractionTask, type ResourceAccess } from './extractionScheduler';
+import { runBatched } from './batchedExtraction';
+import { debugLog, debugWarn, errorLog } from '../../utils/debug';
+
+type ExtractionSection =
+	| 'core'
+	| 'characterPresence'
+	| 'perCharacter'
+	| 'props'
+	| 'relationshipSubjects'
+	| 'perPair'
+	| 'narrative'
+	| 'chapter';
+
+const SECTION_LABELS: Record<ExtractionSection, string> = {
+	core: 'Extracting core state...',
+	characterPresence: 'Detecting character presence...',
+	perCharacter: 'Extracting character states...',
+	props: 'Extracting props changes...',
+	relationshipSubjects: 'Extracting relationship subjects...',
+	perPair: 'Extracting relationship details...',
+	narrative: 'Extracting narrative...',
+	chapter: 'Checking chapter boundaries...',
+};
+
+/**
+ * Turn an extractor's declared resources into scheduler accesses, narrowing
+ * per-entity resources to the task's target.
+ */
+function toAccess(
+	resources: ExtractorResource[] | undefined,
+	scope: Partial<Record<ExtractorResource, string[]>> = {},
+): ResourceAccess[] | null {
+	if (!resources) return null;
+	return resources.map(resource => ({ resource, keys: scope[resource] }));
+}
+
+/**
+ * Warn about extractors whose prompts read state they don't declare as
+ * inputs. Running concurrently, they won't see this turn's changes to it.
+ */
+function warnUndeclaredInputs(settings: ExtractionSettings): void {
+	const extractors = [
+		...coreEventExtractors,
+		...globalCharacterExtractors,
+		...perCharacterExtractors,
+		...propsEventExtractors,
+		...globalRelationshipExtractors,
+		...perPairExtractors,
+		...narrativeEventExtractors,
+		...chapterEventExtractors,
+	];
+	for (const extractor of extractors) {
+		const undeclared = findUndeclaredInputs(extractor, settings.customPrompts);
+		if (undeclared.length > 0) {
+			debugWarn(
+				`${extractor.name} prompt reads ${undeclared.join(', ')} without declaring it as an input; it won't see this turn's changes to it`,
+			);
+		}
+	}
+}
 
 /** State tracked for each extractor across turns */
 const extractorStates: Map<string, ExtractorState> = new Map();
@@ -57,12 +122,35 @@ export async function extractEvents(
 	setStatus?: (status: string) => void,
 	abortSignal?: AbortSignal,
 ): Promise<ExtractionResult> {
-	const errors: Array<{ extractor: string; error: Error }> = [];
-	const turnEvents: Event[] = [];
-	let chapterEnded = false;
+	// Helper to create aborted result (no events saved)
+	const abortedResult = (errors: ExtractionResult['errors']): ExtractionResult => ({
+		store,
+		newEvents: [],
+		chapterEnded: false,
+		errors,
+		aborted: true,
+	});
+
+	const swipeContext = buildSwipeContextFromExtraction(context);
+
+	// Presence only changes through this turn's events, so the characters and
+	// pairs for per-character/per-pair extractors are known up front
+	const characters = store.projectStateAtMessage(
+		currentMessage.messageId,
+		swipeContext,
+	).charactersPresent;
+	const pairs: [string, string][] = [];
+	for (let i = 0; i < characters.length; i++) {
+		for (let j = i + 1; j < characters.length; j++) {
+			pairs.push(sortPair(characters[i], characters[j]));
+		}
+	}
 
 	// Build run strategy context
-	const buildContext = (extractor: EventExtractor): RunStrategyContext => {
+	const buildContext = (
+		extractor: Pick<EventExtractor, 'name'>,
+		turnEvents: Event[],
+	): RunStrategyContext => {
 		const state = getExtractorState(extractor.name);
 		return {
 			store,
@@ -75,269 +163,412 @@ export async function extractEvents(
 		};
 	};
 
-	// Helper to run an extractor (progress is tracked at section level)
-	async function runExtractor(extractor: EventExtractor): Promise<void> {
-		const strategyContext = buildContext(extractor);
-		if (!extractor.shouldRun(strategyContext)) {
-			debugLog(`Skipping ${extractor.name} - shouldRun returned false`);
-			return;
+	// Sections start with their first task and complete with their last
+	const pendingTasks = new Map<ExtractionSection, number>();
+	const startedSections = new Set<ExtractionSection>();
+	const enterSection = (section: ExtractionSection) => {
+		if (!startedSections.has(section)) {
+			startedSections.add(section);
+			startSection(section, SECTION_LABELS[section]);
+		}
+	};
+	const leaveSection = (section: ExtractionSection) => {
+		const remaining = (pendingTasks.get(section) ?? 1) - 1;
+		pendingTasks.set(section, remaining);
+		if (remaining === 0) {
+			completeSection(section);
 		}
+	};
 
-		const label = `Extracting ${extractor.displayName}...`;
+	const reportLabel = (label: string) => {
 		updateSectionLabel(label);
 		setStatus?.(label);
+	};
 
-		try {
-			const events = await extractor.run(
-				generator,
-				context,
-				settings,
-				store,
-				currentMessage,
-				turnEvents,
-				abortSignal,
-			);
-
-			// Update extractor state
-			const state = getExtractorState(extractor.name);
-			state.ranAtMessages.push(currentMessage);
-			if (events.length > 0) {
-				state.producedAtMessages.push(currentMessage);
-				debugLog(`${extractor.name} produced ${events.length} events`);
-			} else {
-				debugLog(`${extractor.name} produced no events`);
+	// Task for an extractor that runs once per turn
+	const globalTask = (
+		section: ExtractionSection,
+		extractor: EventExtractor,
+	): ExtractionTask => ({
+		id: extractor.name,
+		inputs: toAccess(extractor.inputs),
+		outputs: toAccess(extractor.outputs),
+		run: async turnEvents => {
+			enterSection(section);
+			try {
+				if (!extractor.shouldRun(buildContext(extractor, turnEvents))) {
+					debugLog(
+						`Skipping ${extractor.name} - shouldRun returned false`,
+					);
+					return [];
+				}
+				reportLabel(`Extracting ${extractor.displayName}...`);
+
+				const events = await extractor
+					.run(
+						generator,
+						context,
+						settings,
+						store,
+						currentMessage,
+						turnEvents,
+						abortSignal,
+					)
+					.catch(error => {
+						errorLog(`${extractor.name} failed:`, error);
+						throw error;
+					});
+
+				// Update extractor state
+				const state = getExtractorState(extractor.name);
+				state.ranAtMessages.push(currentMessage);
+				if (events.length > 0) {
+					state.producedAtMessages.push(currentMessage);
+					debugLog(
+						`${extractor.name} produced ${events.length} events`,
+					);
+				} else {
+					debugLog(`${extractor.name} produced no events`);
+				}
+				return events;
+			} finally {
+				leaveSection(section);
 			}
+		},
+	});
 
-			// Add events to turn
-			turnEvents.push(...events);
-		} catch (error) {
-			errorLog(`${extractor.name} failed:`, error);
-			errors.push({
-				extractor: extractor.name,
-				error: error instanceof Error ? error : new Error(String(error)),
-			});
-		}
-	}
-
-	// Helper to run per-character extractor for all present characters
-	async function runPerCharacter(extractor: PerCharacterExtractor): Promise<boolean> {
-		const swipeContext = buildSwipeContextFromExtraction(context);
-		const projection = store.projectStateAtMessage(
-			currentMessage.messageId,
-			swipeContext,
-		);
-		const characters = projection.charactersPresent;
-
-		for (const character of characters) {
-			// Check if aborted before each character
-			if (abortSignal?.aborted) {
-				return true; // Signal that we aborted
-			}
+	// Task for a per-character extractor and one present character
+	const perCharacterTask = (
+		extractor: PerCharacterExtractor,
+		character: string,
+	): ExtractionTask => {
+		const scope = { characters: [character] };
+		return {
+			id: `${extractor.name}:${character}`,
+			inputs: toAccess(extractor.inputs, scope),
+			outputs: toAccess(extractor.outputs, scope),
+			run: async turnEvents => {
+				enterSection('perCharacter');
+				try {
+					if (
+						!extractor.shouldRun(
+							buildContext(extractor, turnEvents),
+						)
+					)
+						return [];
+					reportLabel(
+						`Extracting ${extractor.displayName} for ${character}...`,
+					);
+					return await extractor
+						.run(
+							generator,
+							context,
+							settings,
+							store,
+							currentMessage,
+							turnEvents,
+							character,
+							abortSignal,
+						)
+						.catch(error => {
+							errorLog(
+								`${extractor.name} (${character}) failed:`,
+								error,
+							);
+							throw error;
+						});
+				} finally {
+					leaveSection('perCharacter');
+				}
+			},
+		};
+	};
 
-			const strategyContext = buildContext(extractor as any);
-			if (!extractor.shouldRun(strategyContext)) continue;
+	// Task for a per-pair extractor and one present pair
+	const perPairTask = (
+		extractor: PerPairExtractor,
+		pair: [string, string],
+	): ExtractionTask => {
+		const scope = { characters: pair, relationships: [pair.join('|')] };
+		return {
+			id: `${extractor.name}:${pair.join('/')}`,
+			inputs: toAccess(extractor.inputs, scope),
+			outputs: toAccess(extractor.outputs, scope),
+			run: async turnEvents => {
+				enterSection('perPair');
+				try {
+					if (
+						!extractor.shouldRun(
+							buildContext(extractor, turnEvents),
+						)
+					)
+						return [];
+					reportLabel(
+						`Extracting ${extractor.displayName} for ${pair[0]} & ${pair[1]}...`,
+					);
+					return await extractor
+						.run(
+							generator,
+							context,
+							settings,
+							store,
+							currentMessage,
+							turnEvents,
+							pair,
+							abortSignal,
+						)
+						.catch(error => {
+							errorLog(
+								`${extractor.name} (${pair.join('/')}) failed:`,
+								error,
+							);
+							throw error;
+						});
+				} finally {
+					leaveSection('perPair');
+				}
+			},
+		};
+	};
 
-			const label = `Extracting ${extractor.displayName} for ${character}...`;
-			updateSectionLabel(label);
-			setStatus?.(label);
+	// Errors from individual targets of batched tasks (which don't throw)
+	const batchErrors = new Map<string, ExtractionResult['errors']>();
+
+	// Task for a per-character or per-pair extractor that covers all its
+	// targets with one LLM call, falling back to a call per target
+	const batchedTask = (
+		section: 'perCharacter' | 'perPair',
+		extractor: Omit<EventExtractor, 'run'>,
+		scope: Partial<Record<ExtractorResource, string[]>>,
+		noun: string,
+		targets: Array<{
+			key: string;
+			id: string;
+			run(generator: Generator, turnEvents: Event[]): Promise<Event[]>;
+		}>,
+	): ExtractionTask => {
+		const id = `${extractor.name}:batch`;
+		return {
+			id,
+			inputs: toAccess(extractor.inputs, scope),
+			outputs: toAccess(extractor.outputs, scope),
+			run: async turnEvents => {
+				enterSection(section);
+				try {
+					if (
+						!extractor.shouldRun(
+							buildContext(extractor, turnEvents),
+						)
+					)
+						return [];
+					reportLabel(
+						`Extracting ${extractor.displayName} for ${targets.length} ${noun}s (batched)...`,
+					);
+					const results = await runBatched(
+						generator,
+						extractor.prompt,
+						targets.map(target => ({
+							key: target.key,
+							run: batchGenerator =>
+								target.run(
+									batchGenerator,
+									turnEvents,
+								),
+						})),
+						noun,
+					);
+
+					const events: Event[] = [];
+					const errors: ExtractionResult['errors'] = [];
+					results.forEach((result, i) => {
+						if (result.status === 'fulfilled') {
+							events.push(...result.value);
+							return;
+						}
+						errorLog(
+							`${extractor.name} (${targets[i].key}) failed:`,
+							result.reason,
+						);
+						errors.push({
+							extractor: targets[i].id,
+							error:
+								result.reason instanceof Error
+									? result.reason
+									: new Error(
+											String(
+												result.reason,
+											),
+										),
+						});
+					});
+					batchErrors.set(id, errors);
+					return events;
+				} finally {
+					leaveSection(section);
+				}
+			},
+		};
+	};
 
-			try {
-				const events = await extractor.run(
-					generator,
-					context,
-					settings,
-					store,
-					currentMessage,
-					turnEvents,
-					character,
-					abortSignal,
-				);
-				turnEvents.push(...events);
-			} catch (error) {
-				errorLog(`${extractor.name} (${character}) failed:`, error);
-				errors.push({
-					extractor: `${extractor.name}:${character}`,
-					error:
-						error instanceof Error
-							? error
-							: new Error(String(error)),
-				});
-			}
-		}
-		return false; // Not aborted
+	const isBatched = (extractor: Omit<EventExtractor, 'run'>) =>
+		settings.batched?.[extractor.category] === true;
+
+	const characterTasks = (extractor: PerCharacterExtractor): ExtractionTask[] =>
+		isBatched(extractor) && characters.length > 1
+			? [
+					batchedTask(
+						'perCharacter',
+						extractor,
+						{ characters },
+						'character',
+						characters.map(character => ({
+							key: character,
+							id: `${extractor.name}:${character}`,
+							run: (batchGenerator, turnEvents) =>
+								extractor.run(
+									batchGenerator,
+									context,
+									settings,
+									store,
+									currentMessage,
+									turnEvents,
+									character,
+									abortSignal,
+								),
+						})),
+					),
+				]
+			: characters.map(character => perCharacterTask(extractor, character));
+
+	const pairTasks = (extractor: PerPairExtractor): ExtractionTask[] =>
+		isBatched(extractor) && pairs.length > 1
+			? [
+					batchedTask(
+						'perPair',
+						extractor,
+						{
+							characters,
+							relationships: pairs.map(pair =>
+								pair.join('|'),
+							),
+						},
+						'character pair',
+						pairs.map(pair => ({
+							key: `${pair[0]} & ${pair[1]}`,
+							id: `${extractor.name}:${pair.join('/')}`,
+							run: (batchGenerator, turnEvents) =>
+								extractor.run(
+									batchGenerator,
+									context,
+									settings,
+									store,
+									currentMessage,
+									turnEvents,
+									pair,
+									abortSignal,
+								),
+						})),
+					),
+				]
+			: pairs.map(pair => perPairTask(extractor, pair));
+
+	// Extractors with the run/message strategies chosen in settings
+	const withStrategies = <T extends Omit<EventExtractor, 'run'>>(extractors: T[]): T[] =>
+		extractors.map(extractor => applyStrategyOverride(extractor, settings));
+
+	// Tasks in the order extractors ran before scheduling existed; events
+	// are merged back in this order
+	const sectionTasks: Array<{ section: ExtractionSection; tasks: ExtractionTask[] }> = [
+		{
+			section: 'core',
+			tasks: withStrategies(coreEventExtractors).map(e => globalTask('core', e)),
+		},
+		{
+			section: 'characterPresence',
+			tasks: withStrategies(globalCharacterExtractors).map(e =>
+				globalTask('characterPresence', e),
+			),
+		},
+		{
+			section: 'perCharacter',
+			tasks: withStrategies(perCharacterExtractors).flatMap(characterTasks),
+		},
+		// Props run AFTER outfit changes to integrate clothing as props
+		{
+			section: 'props',
+			tasks: withStrategies(propsEventExtractors).map(e =>
+				globalTask('props', e),
+			),
+		},
+		{
+			section: 'relationshipSubjects',
+			tasks: withStrategies(globalRelationshipExtractors).map(e =>
+				globalTask('relationshipSubjects', e),
+			),
+		},
+		{
+			section: 'perPair',
+			tasks: withStrategies(perPairExtractors).flatMap(pairTasks),
+		},
+		{
+			section: 'narrative',
+			tasks: withStrategies(narrativeEventExtractors).map(e =>
+				globalTask('narrative', e),
+			),
+		},
+		{
+			section: 'chapter',
+			tasks: withStrategies(chapterEventExtractors).map(e =>
+				globalTask('chapter', e),
+			),
+		},
+	];
+	for (const { section, tasks } of sectionTasks) {
+		pendingTasks.set(section, tasks.length);
 	}
 
-	// Helper to run per-pair extractor for all present pairs
-	async function runPerPair(extractor: PerPairExtractor): Promise<boolean> {
-		const swipeContext = buildSwipeContextFromExtraction(context);
-		const projection = store.projectStateAtMessage(
-			currentMessage.messageId,
-			swipeContext,
-		);
-		const characters = projection.charactersPresent;
-
-		// Generate all pairs
-		const pairs: [string, string][] = [];
-		for (let i = 0; i < characters.length; i++) {
-			for (let j = i + 1; j < characters.length; j++) {
-				pairs.push(sortPair(characters[i], characters[j]));
-			}
-		}
-
-		for (const pair of pairs) {
-			// Check if aborted before each pair
-			if (abortSignal?.aborted) {
-				return true; // Signal that we aborted
-			}
-
-			const strategyContext = buildContext(extractor as any);
-			if (!extractor.shouldRun(strategyContext)) continue;
-
-			const label = `Extracting ${extractor.displayName} for ${pair[0]} & ${pair[1]}...`;
-			updateSectionLabel(label);
-			setStatus?.(label);
+	if (abortSignal?.aborted) {
+		return abortedResult([]);
+	}
 
-			try {
-				const events = await extractor.run(
-					generator,
-					context,
-					settings,
-					store,
-					currentMessage,
-					turnEvents,
-					pair,
-					abortSignal,
-				);
-				turnEvents.push(...events);
-			} catch (error) {
-				errorLog(`${extractor.name} (${pair.join('/')}) failed:`, error);
-				errors.push({
-					extractor: `${extractor.name}:${pair.join('/')}`,
-					error:
-						error instanceof Error
-							? error
-							: new Error(String(error)),
-				});
-			}
-		}
-		return false; // Not aborted
+	if ((settings.concurrency ?? 1) > 1) {
+		warnUndeclaredInputs(settings);
 	}
 
-	// Helper to create aborted result (no events saved)
-	const abortedResult = (): ExtractionResult => ({
-		store,
-		newEvents: [],
-		chapterEnded: false,
-		errors,
-		aborted: true,
+	const allTasks = sectionTasks.flatMap(s => s.tasks);
+	const result = await runTaskGraph(allTasks, {
+		concurrency: settings.concurrency,
+		abortSignal,
 	});
 
-	// Run extractors in phases (sections)
-
-	// Section: Core extractors (time, location, climate, topic/tone, tension)
-	if (abortSignal?.aborted) return abortedResult();
-	startSection('core', 'Extracting core state...');
-	for (const extractor of coreEventExtractors) {
-		await runExtractor(extractor);
-		if (abortSignal?.aborted) {
-			completeSection('core');
-			return abortedResult();
-		}
-	}
-	completeSection('core');
-
-	// Section: Character presence (global)
-	if (abortSignal?.aborted) return abortedResult();
-	startSection('characterPresence', 'Detecting character presence...');
-	for (const extractor of globalCharacterExtractors) {
-		await runExtractor(extractor);
-		if (abortSignal?.aborted) {
-			completeSection('characterPresence');
-			return abortedResult();
-		}
-	}
-	completeSection('characterPresence');
-
-	// Section: Per-character extractors (includes outfit changes)
-	if (abortSignal?.aborted) return abortedResult();
-	startSection('perCharacter', 'Extracting character states...');
-	for (const extractor of perCharacterExtractors) {
-		const wasAborted = await runPerCharacter(extractor);
-		if (wasAborted || abortSignal?.aborted) {
-			completeSection('perCharacter');
-			return abortedResult();
-		}
-	}
-	completeSection('perCharacter');
-
-	// Section: Props extractors (runs AFTER outfit changes to integrate clothing as props)
-	if (abortSignal?.aborted) return abortedResult();
-	startSection('props', 'Extracting props changes...');
-	for (const extractor of propsEventExtractors) {
-		await runExtractor(extractor);
-		if (abortSignal?.aborted) {
-			completeSection('props');
-			return abortedResult();
-		}
-	}
-	completeSection('props');
-
-	// Section: Relationship subjects (global)
-	if (abortSignal?.aborted) return abortedResult();
-	startSection('relationshipSubjects', 'Extracting relationship subjects...');
-	for (const extractor of globalRelationshipExtractors) {
-		await runExtractor(extractor);
-		if (abortSignal?.aborted) {
-			completeSection('relationshipSubjects');
-			return abortedResult();
-		}
-	}
-	completeSection('relationshipSubjects');
-
-	// Section: Per-pair relationship extractors
-	if (abortSignal?.aborted) return abortedResult();
-	startSection('perPair', 'Extracting relationship details...');
-	for (const extractor of perPairExtractors) {
-		const wasAborted = await runPerPair(extractor);
-		if (wasAborted || abortSignal?.aborted) {
-			completeSection('perPair');
-			return abortedResult();
+	if (result.aborted) {
+		for (const section of startedSections) {
+			if (pendingTasks.get(section) !== 0) completeSection(section);
 		}
+		return abortedResult(result.errors);
 	}
-	completeSection('perPair');
-
-	// Section: Narrative extractors
-	if (abortSignal?.aborted) return abortedResult();
-	startSection('narrative', 'Extracting narrative...');
-	for (const extractor of narrativeEventExtractors) {
-		await runExtractor(extractor);
-		if (abortSignal?.aborted) {
-			completeSection('narrative');
-			return abortedResult();
-		}
-	}
-	completeSection('narrative');
-
-	// Section: Chapter extractors
-	if (abortSignal?.aborted) return abortedResult();
-	startSection('chapter', 'Checking chapter boundaries...');
-	for (const extractor of chapterEventExtractors) {
-		await runExtractor(extractor);
-		if (abortSignal?.aborted) {
-			completeSection('chapter');
-			return abortedResult();
+
+	// Sections without tasks (no characters, no pairs) still count as done
+	for (const { section, tasks } of sectionTasks) {
+		if (tasks.length === 0) {
+			startSection(section, SECTION_LABELS[section]);
+			completeSection(section);
 		}
 	}
-	completeSection('chapter');
+
+	const errors = allTasks.flatMap(task => [
+		...result.errors.filter(e => e.extractor === task.id),
+		...(batchErrors.get(task.id) ?? []),
+	]);
+	const turnEvents = result.events;
 
 	// Check if chapter ended
-	chapterEnded = turnEvents.some(
+	const chapterEnded = turnEvents.some(
 		e => e.kind === 'chapter' && 'subkind' in e && e.subkind === 'ended',
 	);
 
 	// --- Post-extraction name resolution ---
 	// Build AKA lookup from current projection + new characters in turnEvents
-	const swipeContext = buildSwipeContextFromExtraction(context);
 	const projection = store.projectStateAtMessage(currentMessage.messageId, swipeContext);
 	const akaLookup = buildAkaLookup(projection.characters);
 
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import {
+	buildTaskDependencies,
+	runTaskGraph,
+	type ExtractionTask,
+	type ResourceAccess,
+} from './extractionScheduler';
+import type { Event } from '../types';
+import type { ExtractorResource } from '../extractors/types';
+
+function access(...resources: ExtractorResource[]): ResourceAccess[] {
+	return resources.map(resource => ({ resource }));
+}
+
+function marker(id: string): Event {
+	return {
+		id,
+		source: { messageId: 1, swipeId: 0 },
+		timestamp: 0,
+		kind: 'time',
+		delta: { days: 0, hours: 0, minutes: 0, seconds: 0 },
+	} as Event;
+}
+
+interface TestTask extends ExtractionTask {
+	/** IDs of the events this task saw */
+	seen: string[];
+}
+
+/**
+ * Create a task that waits `delayMs`, records what it saw and emits one event
+ * named after itself.
+ */
+function task(
+	id: string,
+	inputs: ResourceAccess[] | null,
+	outputs: ResourceAccess[] | null,
+	options: { delayMs?: number; log?: string[]; fail?: boolean } = {},
+): TestTask {
+	const created: TestTask = {
+		id,
+		inputs,
+		outputs,
+		seen: [],
+		run: async turnEvents => {
+			created.seen = turnEvents.map(e => e.id);
+			options.log?.push(`start:${id}`);
+			await new Promise(resolve => setTimeout(resolve, options.delayMs ?? 0));
+			options.log?.push(`end:${id}`);
+			if (options.fail) throw new Error(`${id} failed`);
+			return [marker(id)];
+		},
+	};
+	return created;
+}
+
+describe('buildTaskDependencies', () => {
+	it('links tasks whose inputs read earlier outputs', () => {
+		const tasks = [
+			task('time', access('time'), access('time')),
+			task('location', access('location'), access('location')),
+			task('forecast', access('time', 'location'), access('forecast')),
+		];
+		expect(buildTaskDependencies(tasks)).toEqual([[], [], [0, 1]]);
+	});
+
+	it('keeps scoped resources for different entities independent', () => {
+		const alice = [{ resource: 'characters' as const, keys: ['Alice'] }];
+		const bob = [{ resource: 'characters' as const, keys: ['Bob'] }];
+		const tasks = [
+			task('presence', [], access('characters')),
+			task('mood:Alice', alice, alice),
+			task('mood:Bob', bob, bob),
+			task('outfit:Alice', alice, alice),
+		];
+		expect(buildTaskDependencies(tasks)).toEqual([[], [0], [0], [0, 1]]);
+	});
+
+	it('treats undeclared inputs and outputs as touching everything', () => {
+		const tasks = [
+			task('time', access('time'), access('time')),
+			task('chapter', null, null),
+			task('narrative', access('narrative'), access('narrative')),
+			task('nothing', [], []),
+		];
+		expect(buildTaskDependencies(tasks)).toEqual([[], [0], [1], []]);
+	});
+});
+
+describe('runTaskGraph', () => {
+	it('runs tasks one at a time in order with concurrency 1', async () => {
+		const log: string[] = [];
+		const tasks = [
+			task('a', access('time'), access('time'), { delayMs: 5, log }),
+			task('b', access('location'), access('location'), { log }),
+		];
+
+		const result = await runTaskGraph(tasks);
+
+		expect(log).toEqual(['start:a', 'end:a', 'start:b', 'end:b']);
+		expect(result.events.map(e => e.id)).toEqual(['a', 'b']);
+	});
+
+	it('runs independent tasks concurrently up to the limit', async () => {
+		const log: string[] = [];
+		const tasks = [
+			task('a', access('time'), access('time'), { delayMs: 20, log }),
+			task('b', access('location'), access('location'), { delayMs: 5, log }),
+			task('c', access('scene'), access('scene'), { delayMs: 5, log }),
+		];
+
+		await runTaskGraph(tasks, { concurrency: 2 });
+
+		expect(log.slice(0, 2)).toEqual(['start:a', 'start:b']);
+		expect(log.indexOf('start:c')).toBeGreaterThan(log.indexOf('end:b'));
+		expect(log.indexOf('start:c')).toBeLessThan(log.indexOf('end:a'));
+	});
+
+	it('returns events in task order regardless of finish order', async () => {
+		const tasks = [
+			task('slow', access('time'), access('time'), { delayMs: 20 }),
+			task('fast', access('location'), access('location')),
+		];
+
+		const result = await runTaskGraph(tasks, { concurrency: 4 });
+
+		expect(result.events.map(e => e.id)).toEqual(['slow', 'fast']);
+	});
+
+	it('gives each task only the events of its dependencies', async () => {
+		const tasks = [
+			task('time', access('time'), access('time'), { delayMs: 10 }),
+			task('location', access('location'), access('location')),
+			task('forecast', access('time', 'location'), access('forecast')),
+			task('tension', access('tension'), access('tension')),
+		];
+
+		await runTaskGraph(tasks, { concurrency: 4 });
+
+		expect(tasks[2].seen).toEqual(['time', 'location']);
+		expect(tasks[3].seen).toEqual([]);
+	});
+
+	it('gives each task every earlier event with concurrency 1', async () => {
+		const tasks = [
+			task('time', access('time'), access('time')),
+			task('location', access('location'), access('location')),
+			task('tension', access('tension'), access('tension')),
+		];
+
+		await runTaskGraph(tasks);
+
+		expect(tasks[2].seen).toEqual(['time', 'location']);
+	});
+
+	it('includes transitive dependencies in task order', async () => {
+		const tasks = [
+			task('presence', [], access('presence')),
+			task('profiles', access('presence'), access('profiles')),
+			task('pair', access('profiles'), access('relationships')),
+		];
+
+		await runTaskGraph(tasks, { concurrency: 2 });
+
+		expect(tasks[2].seen).toEqual(['presence', 'profiles']);
+	});
+
+	it('collects errors in task order and keeps running dependents', async () => {
+		const tasks = [
+			task('a', access('time'), access('time'), { delayMs: 10, fail: true }),
+			task('b', access('location'), access('location'), { fail: true }),
+			task('c', access('time'), access('time')),
+		];
+
+		const result = await runTaskGraph(tasks, { concurrency: 2 });
+
+		expect(result.errors.map(e => e.extractor)).toEqual(['a', 'b']);
+		expect(result.events.map(e => e.id)).toEqual(['c']);
+		expect(tasks[2].seen).toEqual([]);
+	});
+
+	it('stops starting tasks once aborted', async () => {
+		const controller = new AbortController();
+		const log: string[] = [];
+		const tasks = [
+			task('a', access('time'), access('time'), { delayMs: 10, log }),
+			task('b', access('time'), access('time'), { log }),
+		];
+		setTimeout(() => controller.abort(), 2);
+
+		const result = await runTaskGraph(tasks, {
+			concurrency: 2,
+			abortSignal: controller.signal,
+		});
+
+		expect(result.aborted).toBe(true);
+		expect(log).toEqual(['start:a', 'end:a']);
+	});
+});
@@ -0,0 +1,172 @@
+/**
+ * V2 Extraction Scheduler
+ *
+ * Runs extraction tasks as a dependency graph. A task depends on every earlier
+ * task whose outputs overlap its inputs. Independent tasks run concurrently up
+ * to a limit, and results come back in task order.
+ *
+ * With a concurrency of 1, tasks run one at a time in order and each sees the
+ * events of every earlier task, as extraction always has. With more, a task
+ * only sees the events of the tasks it (transitively) depends on, so what it
+ * sees doesn't depend on which tasks happen to finish first.
+ */
+
+import type { ExtractorResource } from '../extractors/types';
+import type { Event } from '../types';
+
+/**
+ * A resource a task reads or changes. `keys` narrows it to specific entities
+ * (character names, pair keys); omitted means the whole resource.
+ */
+export interface ResourceAccess {
+	resource: ExtractorResource;
+	keys?: string[];
+}
+
+/**
+ * A single unit of work in the extraction graph.
+ */
+export interface ExtractionTask {
+	/** Unique ID (also used to report errors) */
+	id: string;
+	/** Resources read from earlier tasks' events (null = everything) */
+	inputs: ResourceAccess[] | null;
+	/** Resources changed by this task (null = everything) */
+	outputs: ResourceAccess[] | null;
+	/**
+	 * Run the task with the events produced by earlier tasks (only the ones
+	 * it depends on when running concurrently), in task order. Returns the
+	 * events this task produced.
+	 */
+	run(turnEvents: Event[]): Promise<Event[]>;
+}
+
+/**
+ * Options for running a task graph.
+ */
+export interface RunTaskGraphOptions {
+	/** Max tasks running at once (default 1) */
+	concurrency?: number;
+	/** Stop starting new tasks once aborted */
+	abortSignal?: AbortSignal;
+}
+
+/**
+ * Result of running a task graph.
+ */
+export interface TaskGraphResult {
+	/** Events from every finished task, in task order */
+	events: Event[];
+	/** Tasks that threw */
+	errors: Array<{ extractor: string; error: Error }>;
+	/** Whether the run stopped early because of the abort signal */
+	aborted: boolean;
+}
+
+function overlaps(a: ResourceAccess[] | null, b: ResourceAccess[] | null): boolean {
+	if (a === null) return b === null || b.length > 0;
+	if (b === null) return a.length > 0;
+	return a.some(x =>
+		b.some(
+			y =>
+				x.resource === y.resource &&
+				(!x.keys || !y.keys || x.keys.some(key => y.keys!.includes(key))),
+		),
+	);
+}
+
+/**
+ * Build the direct dependencies of each task (indices of earlier tasks whose
+ * outputs overlap the task's inputs).
+ */
+export function buildTaskDependencies(tasks: ExtractionTask[]): number[][] {
+	return tasks.map((task, index) => {
+		const dependencies: number[] = [];
+		for (let i = 0; i < index; i++) {
+			if (overlaps(tasks[i].outputs, task.inputs)) {
+				dependencies.push(i);
+			}
+		}
+		return dependencies;
+	});
+}
+
+/**
+ * Run tasks in dependency order, running independent tasks concurrently.
+ */
+export async function runTaskGraph(
+	tasks: ExtractionTask[],
+	options: RunTaskGraphOptions = {},
+): Promise<TaskGraphResult> {
+	const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+	const { abortSignal } = options;
+	const dependencies = buildTaskDependencies(tasks);
+
+	// Transitive dependencies, sorted so each task's view keeps task order
+	const ancestors: number[][] = [];
+	dependencies.forEach((direct, index) => {
+		const all = new Set<number>();
+		for (const dependency of direct) {
+			all.add(dependency);
+			for (const ancestor of ancestors[dependency]) all.add(ancestor);
+		}
+		ancestors[index] = [...all].sort((a, b) => a - b);
+	});
+
+	const results: Event[][] = tasks.map(() => []);
+	const errors: Array<{ index: number; error: Error }> = [];
+	const remaining = dependencies.map(direct => direct.length);
+	const ready = tasks.map((_, index) => index).filter(index => remaining[index] === 0);
+	const running = new Map<number, Promise<number>>();
+
+	const start = (index: number) => {
+		// One at a time, every earlier task has finished
+		const view =
+			concurrency === 1
+				? results.slice(0, index).flat()
+				: ancestors[index].flatMap(ancestor => results[ancestor]);
+		const promise = tasks[index].run(view).then(
+			events => {
+				results[index] = events;
+				return index;
+			},
+			error => {
+				errors.push({
+					index,
+					error:
+						error instanceof Error
+							? error
+							: new Error(String(error)),
+				});
+				return index;
+			},
+		);
+		running.set(index, promise);
+	};
+
+	while (true) {
+		// Always start the lowest ready index first, so a concurrency of 1
+		// runs tasks in their original order
+		while (!abortSignal?.aborted && running.size < concurrency && ready.length > 0) {
+			ready.sort((a, b) => a - b);
+			start(ready.shift()!);
+		}
+		if (running.size === 0) break;
+
+		const finished = await Promise.race(running.values());
+		running.delete(finished);
+		dependencies.forEach((direct, index) => {
+			if (direct.includes(finished) && --remaining[index] === 0) {
+				ready.push(index);
+			}
+		});
+	}
+
+	return {
+		events: results.flat(),
+		errors: errors
+			.sort((a, b) => a.index - b.index)
+			.map(({ index, error }) => ({ extractor: tasks[index].id, error })),
+		aborted: abortSignal?.aborted ?? false,
+	};
+}
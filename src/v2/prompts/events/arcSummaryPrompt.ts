@@ -0,0 +1,169 @@
+/**
+ * Arc Summary Generation Prompt
+ *
+ * Condenses a run of completed chapters into a single arc: a short title and a
+ * one-paragraph summary. Arcs stand in for their chapters once a long story has
+ * more chapter summaries than fit in the prompt.
+ */
+
+import type { PromptTemplate } from '../types';
+import type { ExtractedArcSummary } from '../../types/extraction';
+import { arcSummarySchema } from '../schemas';
+import { parseJsonResponse } from '../../../utils/json';
+
+// Arc-specific placeholders
+const ARC_PLACEHOLDERS = {
+	arcChapters: {
+		name: 'arcChapters',
+		description: 'Titles, summaries and milestones of the chapters in the arc',
+		example: `Chapter 1: Strange Bedfellows
+Elena met Marcus at The Rusty Nail, where he pitched a heist on Meridian Corporation's vault. She agreed to hear him out.
+
+Chapter 2: Blueprints
+They cased the Meridian building for a week. Elena found a gap in the guard rotation.
+Milestones: Elena & Marcus: First Laugh
+
+Chapter 3: Blood and Gasoline
+Viktor's men captured Marcus. Elena tracked him to a warehouse, broke him out and stitched his wounds at a motel.
+Milestones: Elena & Marcus: Defended, Crisis Together`,
+	},
+	arcChapterRange: {
+		name: 'arcChapterRange',
+		description: 'The chapters the arc covers',
+		example: 'Chapters 1-3',
+	},
+	previousArcs: {
+		name: 'previousArcs',
+		description: 'Summaries of earlier arcs',
+		example: '(First arc - no previous)',
+	},
+};
+
+export const arcSummaryPrompt: PromptTemplate<ExtractedArcSummary> = {
+	name: 'arc_summary',
+	description: 'Condense completed chapters into an arc title and one-paragraph summary',
+
+	placeholders: [
+		ARC_PLACEHOLDERS.arcChapters,
+		ARC_PLACEHOLDERS.arcChapterRange,
+		ARC_PLACEHOLDERS.previousArcs,
+	],
+
+	systemPrompt: `You are condensing several chapters of a roleplay narrative into a single story arc. Return ONLY valid JSON.
+
+<instructions>
+Write ONE paragraph (4-6 sentences) that summarizes the arc as a whole:
+- Where the arc started and where it left the characters
+- The turning points that changed the story's direction
+- How the central relationships changed
+- Anything unresolved that later chapters may pick up
+
+TITLE REQUIREMENTS:
+- Keep titles SHORT (1-4 words)
+- Name the arc as a whole, not its last chapter
+- Avoid character names and generic titles
+
+SUMMARY REQUIREMENTS:
+- Be factual and concise; drop details that didn't matter later
+- Keep names, places, promises, secrets and debts that may come back
+- Write in past tense, third person
+- Don't repeat the chapter titles
+</instructions>
+
+<output_format>
+{
+  "reasoning": "What ties these chapters together and what matters going forward",
+  "title": "Short evocative title (1-4 words)",
+  "summary": "One-paragraph summary of the arc"
+}
+</output_format>
+
+<examples>
+<example genre="heist_thriller">
+<chapters>
+Chapter 1: Strange Bedfellows
+Elena met Marcus at The Rusty Nail, where he pitched a heist on Meridian Corporation's vault. She agreed to hear him out.
+
+Chapter 2: Blueprints
+They cased the Meridian building for a week. Elena found a gap in the guard rotation.
+Milestones: Elena & Marcus: First Laugh
+
+Chapter 3: Blood and Gasoline
+Viktor's men captured Marcus. Elena tracked him to a warehouse, broke him out and stitched his wounds at a motel.
+Milestones: Elena & Marcus: Defended, Crisis Together
+</chapters>
+<previous_arcs>
+(First arc - no previous)
+</previous_arcs>
+<output>
+{
+  "reasoning": "These chapters form the setup of the heist story: the partnership forms, the plan takes shape, and Viktor emerges as the threat. The rescue turns a business arrangement into trust. Viktor and the unfinished heist carry forward.",
+  "title": "The Job",
+  "summary": "Elena, a former thief, was drawn back into the life when Marcus pitched a heist on Meridian Corporation's vault. A week of reconnaissance turned up a gap in the guard rotation and an easy rapport between them. The plan unraveled when Viktor, who wanted the account numbers Marcus held, had him captured and beaten. Elena tracked him to a warehouse and broke him out, and the rescue changed the partnership from wary business into trust. The heist is still unfinished, and Viktor is still looking for them."
+}
+</output>
+</example>
+
+<example genre="slice_of_life_romance">
+<chapters>
+Chapter 4: Constellations
+James and Luna's first date ended with a kiss under the stars at the observatory.
+Milestones: Luna & James: First Kiss
+
+Chapter 5: Small Hours
+Luna stayed over for the first time. In the morning James admitted he had been offered a job in Seattle.
+Milestones: Luna & James: First Night Together
+
+Chapter 6: Fault Lines
+They argued about the Seattle offer. Luna said she wouldn't ask him to stay; James didn't answer.
+</chapters>
+<previous_arcs>
+Arc 1: Chance Meetings (Chapters 1-3) - Luna and James met at a party and kept running into each other until they agreed to a date.
+</previous_arcs>
+<output>
+{
+  "reasoning": "The arc follows the relationship from its first real step to its first real test. The Seattle offer is the open thread.",
+  "title": "Gravity",
+  "summary": "After their first date ended with a kiss at the observatory, Luna and James fell quickly into a relationship, and Luna began staying over. The morning after their first night together, James admitted he had been offered a job in Seattle. The news turned into their first serious argument. Luna refused to ask him to stay, and James left the question of whether he would go unanswered."
+}
+</output>
+</example>
+</examples>`,
+
+	userTemplate: `<chapters>
+{{arcChapters}}
+</chapters>
+
+<chapter_range>
+{{arcChapterRange}}
+</chapter_range>
+
+<previous_arcs>
+{{previousArcs}}
+</previous_arcs>
+
+Condense these chapters into one arc. Return valid JSON with "reasoning", "title", and "summary" fields.`,
+
+	responseSchema: arcSummarySchema,
+
+	defaultTemperature: 0.5,
+
+	parseResponse(response: string): ExtractedArcSummary | null {
+		let parsed: Record<string, unknown>;
+		try {
+			const result = parseJsonResponse(response);
+			if (!result || typeof result !== 'object' || Array.isArray(result))
+				return null;
+			parsed = result as Record<string, unknown>;
+		} catch {
+			return null;
+		}
+
+		// Validate required fields
+		if (typeof parsed.reasoning !== 'string') return null;
+		if (typeof parsed.title !== 'string' || parsed.title.trim() === '') return null;
+		if (typeof parsed.summary !== 'string' || parsed.summary.trim() === '') return null;
+
+		return parsed as unknown as ExtractedArcSummary;
+	},
+};
@@ -7,6 +7,9 @@
 // Chapter prompts
 export { chapterEndedPrompt } from './chapterEndedPrompt';
 export { chapterDescriptionPrompt } from './chapterDescriptionPrompt';
+export { arcSummaryPrompt } from './arcSummaryPrompt';
+export { sceneBreakPrompt } from './sceneBreakPrompt';
+export { sceneDescriptionPrompt } from './sceneDescriptionPrompt';
 
 // Narrative prompts
 export { narrativeDescriptionPrompt } from './narrativeDescriptionPrompt';
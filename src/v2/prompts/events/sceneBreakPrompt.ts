@@ -0,0 +1,134 @@
+/**
+ * Scene Break Confirmation Prompt
+ *
+ * Confirms a scene break flagged by a location move, time jump or cast change.
+ * Scenes are smaller than chapters: a new scene starts whenever the story cuts
+ * to a new place, moment or group, even if the chapter carries on.
+ */
+
+import type { PromptTemplate } from '../types';
+import type { ExtractedSceneBreak } from '../../types/extraction';
+import { sceneBreakSchema } from '../schemas';
+import { PLACEHOLDERS } from '../placeholders';
+import { parseJsonResponse } from '../../../utils/json';
+
+// Scene-specific placeholders
+const SCENE_PLACEHOLDERS = {
+	sceneTriggers: {
+		name: 'sceneTriggers',
+		description: 'The changes that flagged a possible scene break',
+		example: `- Location: The Rusty Nail bar -> Elena's apartment
+- Cast: Marcus left`,
+	},
+};
+
+export const sceneBreakPrompt: PromptTemplate<ExtractedSceneBreak> = {
+	name: 'scene_break',
+	description: 'Confirm whether a location, time or cast change starts a new scene',
+
+	placeholders: [
+		PLACEHOLDERS.messages,
+		SCENE_PLACEHOLDERS.sceneTriggers,
+		PLACEHOLDERS.currentLocation,
+		PLACEHOLDERS.currentTime,
+		PLACEHOLDERS.charactersPresent,
+	],
+
+	systemPrompt: `You are analyzing roleplay messages to detect scene breaks. Return ONLY valid JSON.
+
+<instructions>
+A scene is one continuous stretch of action in one place, at one time, with one group of characters. Something changed in the latest messages; decide whether the story has cut to a new scene.
+
+A NEW SCENE starts when:
+- The characters arrive somewhere else and the action picks up there
+- The story skips ahead in time ("an hour later", "that evening")
+- The group changes enough that the conversation or action starts over (someone leaves and the rest move on, or new characters take over)
+
+NOT a new scene:
+- Walking to another room while the same conversation continues
+- A character stepping out briefly and returning
+- Minutes passing during continuous action
+- Someone joining a conversation that carries on
+- A change in mood or topic without a cut
+</instructions>
+
+<output_format>
+{
+  "reasoning": "What changed and whether the action continues or starts over",
+  "isNewScene": true
+}
+</output_format>
+
+<examples>
+<example>
+<triggers>
+- Location: The Rusty Nail bar -> Elena's apartment
+- Cast: Marcus left
+</triggers>
+<messages>
+Elena: *Back home, Elena drops her keys in the bowl by the door and pours herself a glass of wine. The folder Marcus gave her sits on the kitchen table, unopened.*
+</messages>
+<output>
+{
+  "reasoning": "Elena has left the bar and Marcus behind. The action now continues alone in her apartment, so the story has cut to a new scene.",
+  "isNewScene": true
+}
+</output>
+</example>
+
+<example>
+<triggers>
+- Location: Kitchen -> Living room
+</triggers>
+<messages>
+James: "You can't just drop that on me and walk away." *He follows Luna into the living room.*
+
+Luna: *She sinks onto the couch.* "I'm not walking away. I'm sitting down."
+</messages>
+<output>
+{
+  "reasoning": "They moved rooms, but the same argument carries on without a break. This is the same scene.",
+  "isNewScene": false
+}
+</output>
+</example>
+</examples>`,
+
+	userTemplate: `<triggers>
+{{sceneTriggers}}
+</triggers>
+
+<current_state>
+Location: {{currentLocation}}
+Time: {{currentTime}}
+Present: {{charactersPresent}}
+</current_state>
+
+<messages>
+{{messages}}
+</messages>
+
+Decide whether these messages start a new scene. Return valid JSON with "reasoning" and "isNewScene" fields.`,
+
+	responseSchema: sceneBreakSchema,
+
+	defaultTemperature: 0.3,
+
+	parseResponse(response: string): ExtractedSceneBreak | null {
+		let parsed: Record<string, unknown>;
+		try {
+			const result = parseJsonResponse(response);
+			if (!result || typeof result !== 'object' || Array.isArray(result))
+				return null;
+			parsed = result as Record<string, unknown>;
+		} catch {
+			return null;
+		}
+
+		// Validate required fields
+		if (typeof parsed.reasoning !== 'string') return null;
+		if (typeof parsed.isNewScene !== 'boolean') return null;
+
+		return parsed as unknown as ExtractedSceneBreak;
+	},
+};
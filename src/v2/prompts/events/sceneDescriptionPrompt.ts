@@ -0,0 +1,129 @@
+/**
+ * Scene Description Generation Prompt
+ *
+ * Gives a scene that just ended a short title and a one- or two-sentence
+ * summary. Scene summaries are much shorter than chapter summaries; they are
+ * for navigating the story, not for retelling it.
+ */
+
+import type { PromptTemplate } from '../types';
+import type { ExtractedSceneDescription } from '../../types/extraction';
+import { sceneDescriptionSchema } from '../schemas';
+import { PLACEHOLDERS } from '../placeholders';
+import { parseJsonResponse } from '../../../utils/json';
+
+// Scene-specific placeholders
+const SCENE_PLACEHOLDERS = {
+	sceneMessages: {
+		name: 'sceneMessages',
+		description: 'Messages from the scene start to end',
+		example: `Elena: *She walked into the dimly lit bar...* "You wanted to see me?"
+
+Marcus: "I have a proposition for you." *He slid a folder across the table.*
+
+Elena: *She flipped through the documents, her expression hardening.* "This is suicide."`,
+	},
+	previousScenes: {
+		name: 'previousScenes',
+		description: 'Titles and summaries of the earlier scenes in this chapter',
+		example: '(First scene of the chapter)',
+	},
+};
+
+export const sceneDescriptionPrompt: PromptTemplate<ExtractedSceneDescription> = {
+	name: 'scene_description',
+	description: 'Generate a short scene title and one- or two-sentence summary',
+
+	placeholders: [
+		SCENE_PLACEHOLDERS.sceneMessages,
+		SCENE_PLACEHOLDERS.previousScenes,
+		PLACEHOLDERS.charactersPresent,
+		PLACEHOLDERS.currentLocation,
+	],
+
+	systemPrompt: `You are labelling scenes in a roleplay narrative. Return ONLY valid JSON.
+
+<instructions>
+TITLE REQUIREMENTS:
+- Keep titles SHORT (1-4 words)
+- Name what the scene is about, not where it happens
+- Avoid character names
+
+SUMMARY REQUIREMENTS:
+- One or two sentences
+- Say who was there, what happened and how the scene ended
+- Write in past tense, third person
+</instructions>
+
+<output_format>
+{
+  "reasoning": "What the scene was about",
+  "title": "Short title (1-4 words)",
+  "summary": "One or two sentences"
+}
+</output_format>
+
+<examples>
+<example>
+<scene_messages>
+Elena: *She walked into the dimly lit bar...* "You wanted to see me?"
+
+Marcus: "I have a proposition for you." *He slid a folder across the table.*
+
+Elena: *She flipped through the documents, her expression hardening.* "This is suicide."
+
+Marcus: "Not if we do it right. I need someone with your skills."
+
+Elena: *She closes the folder.* "I'll think about it."
+</scene_messages>
+<output>
+{
+  "reasoning": "Marcus pitches the heist and Elena doesn't commit either way.",
+  "title": "The Proposition",
+  "summary": "Marcus met Elena at The Rusty Nail and pitched a heist on Meridian Corporation's vault. Elena called it suicide but agreed to think it over."
+}
+</output>
+</example>
+</examples>`,
+
+	userTemplate: `<scene_messages>
+{{sceneMessages}}
+</scene_messages>
+
+<characters_involved>
+{{charactersPresent}}
+</characters_involved>
+
+<location>
+{{currentLocation}}
+</location>
+
+<previous_scenes>
+{{previousScenes}}
+</previous_scenes>
+
+Create a title and short summary for this scene. Return valid JSON with "reasoning", "title", and "summary" fields.`,
+
+	responseSchema: sceneDescriptionSchema,
+
+	defaultTemperature: 0.5,
+
+	parseResponse(response: string): ExtractedSceneDescription | null {
+		let parsed: Record<string, unknown>;
+		try {
+			const result = parseJsonResponse(response);
+			if (!result || typeof result !== 'object' || Array.isArray(result))
+				return null;
+			parsed = result as Record<string, unknown>;
+		} catch {
+			return null;
+		}
+
+		// Validate required fields
+		if (typeof parsed.reasoning !== 'string') return null;
+		if (typeof parsed.title !== 'string' || parsed.title.trim() === '') return null;
+		if (typeof parsed.summary !== 'string' || parsed.summary.trim() === '') return null;
+
+		return parsed as unknown as ExtractedSceneDescription;
+	},
+};
@@ -173,7 +173,12 @@ export const timeChangePrompt: PromptTemplate<ExtractedTimeChange> = {
 	name: 'time_change',
 	description: 'Estimate how much time has passed in the narrative',
 
-	placeholders: [PLACEHOLDERS.messages, PLACEHOLDERS.currentTime, PLACEHOLDERS.characterName],
+	placeholders: [
+		PLACEHOLDERS.messages,
+		PLACEHOLDERS.currentTime,
+		PLACEHOLDERS.calendar,
+		PLACEHOLDERS.characterName,
+	],
 
 	systemPrompt: `You are analyzing roleplay messages to estimate how much narrative time has passed.
 
@@ -221,6 +226,7 @@ Always respond with a JSON object containing:
 - minutes: 0-59
 - seconds: 0-59 (usually 0 unless explicitly stated)
 - When crossing midnight, calculate correctly
+- Skips like "next month" or "a week later" follow the month and week lengths of the calendar given
 - Be conservative - if unsure, prefer smaller values
 
 ${GOOD_EXAMPLES}
@@ -234,6 +240,9 @@ Name: {{characterName}}
 ## Previous Time
 {{currentTime}}
 
+## Calendar
+{{calendar}}
+
 ## Messages to Analyze
 {{messages}}
 
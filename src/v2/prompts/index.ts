@@ -48,6 +48,9 @@ export {
 	// Chapter prompts
 	chapterEndedPrompt,
 	chapterDescriptionPrompt,
+	arcSummaryPrompt,
+	sceneBreakPrompt,
+	sceneDescriptionPrompt,
 	// Narrative prompts
 	narrativeDescriptionPrompt,
 	milestoneDescriptionPrompt,
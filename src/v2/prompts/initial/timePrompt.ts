@@ -492,7 +492,7 @@ export const initialTimePrompt: PromptTemplate<ExtractedInitialTime> = {
 	name: 'initial_time',
 	description: 'Extract the initial date and time from the opening of a roleplay',
 
-	placeholders: [PLACEHOLDERS.messages, PLACEHOLDERS.characterName],
+	placeholders: [PLACEHOLDERS.messages, PLACEHOLDERS.characterName, PLACEHOLDERS.calendar],
 
 	systemPrompt: `You are analyzing roleplay messages to extract the current date and time.
 
@@ -502,7 +502,7 @@ Read the provided roleplay messages and determine the precise date and time when
 ## Output Format
 Respond with a JSON object containing:
 - "reasoning": Your step-by-step analysis of time clues in the text
-- "time": An object with year, month (1-12), day, hour (0-23), minute, second, and dayOfWeek
+- "time": An object with year, month, day, hour (0-23), minute, second, and dayOfWeek, on the calendar given with the messages
 
 ## Time Clue Priority (from highest to lowest)
 1. Explicit timestamps (clocks, watches, digital displays)
@@ -514,12 +514,12 @@ Respond with a JSON object containing:
 
 ## Important Rules
 - Use 24-hour format for hours (0-23)
-- Months are 1-12 (January = 1, December = 12)
+- Months are numbered from 1 on the calendar given (Gregorian: January = 1, December = 12)
 - Always calculate the correct day of week for the given date
 - When time is ambiguous, prefer reasonable defaults over random guesses
 - Current scene time matters, not past events mentioned in dialogue
 - Character cards may specify the story's time period - use this if no other clues exist
-- Fantasy/sci-fi calendars should be mapped to reasonable real-world equivalents
+- If a custom calendar is given, use its month numbers and day names; otherwise map fantasy/sci-fi calendars to reasonable real-world equivalents
 
 ${GOOD_EXAMPLES}
 
@@ -529,6 +529,9 @@ ${BAD_EXAMPLES}
 	userTemplate: `## Character Context
 Name: {{characterName}}
 
+## Calendar
+{{calendar}}
+
 ## Messages to Analyze
 {{messages}}
 
@@ -537,7 +540,7 @@ Extract the current date and time from these messages. Think through the time cl
 
 Remember:
 - Use 24-hour format (0-23 for hours)
-- Months are 1-12
+- Use the month numbers and day names of the calendar above
 - Calculate the day of week correctly
 - Focus on the CURRENT scene time, not past events mentioned`,
 
@@ -562,18 +565,9 @@ Remember:
 
 		const time = parsed.time as Record<string, unknown>;
 		if (typeof time.year !== 'number') return null;
-		if (
-			typeof time.month !== 'number' ||
-			(time.month as number) < 1 ||
-			(time.month as number) > 12
-		)
-			return null;
-		if (
-			typeof time.day !== 'number' ||
-			(time.day as number) < 1 ||
-			(time.day as number) > 31
-		)
-			return null;
+		// Month and day ranges depend on the calendar, the extractor checks them
+		if (typeof time.month !== 'number' || (time.month as number) < 1) return null;
+		if (typeof time.day !== 'number' || (time.day as number) < 1) return null;
 		if (
 			typeof time.hour !== 'number' ||
 			(time.hour as number) < 0 ||
@@ -593,16 +587,7 @@ Remember:
 		)
 			return null;
 
-		const validDays = [
-			'Sunday',
-			'Monday',
-			'Tuesday',
-			'Wednesday',
-			'Thursday',
-			'Friday',
-			'Saturday',
-		];
-		if (!validDays.includes(time.dayOfWeek as string)) return null;
+		if (typeof time.dayOfWeek !== 'string') return null;
 
 		return parsed as unknown as ExtractedInitialTime;
 	},
@@ -50,6 +50,12 @@ export const PLACEHOLDERS: Record<string, Placeholder> = {
 		description: 'Current narrative time as formatted string',
 		example: 'Monday, June 15, 2024 at 2:30 PM',
 	},
+	calendar: {
+		name: 'calendar',
+		description:
+			"The calendar dates are given in: Gregorian, or the character card's custom calendar",
+		example: 'Gregorian calendar: months 1-12 (January = 1), weeks run Sunday to Saturday.',
+	},
 	currentLocation: {
 		name: 'currentLocation',
 		description: 'Current location summary (area - place - position)',
@@ -24,6 +24,9 @@ import {
 import {
 	chapterEndedPrompt,
 	chapterDescriptionPrompt,
+	arcSummaryPrompt,
+	sceneBreakPrompt,
+	sceneDescriptionPrompt,
 	narrativeDescriptionPrompt,
 	milestoneDescriptionPrompt,
 	timeChangePrompt,
@@ -69,6 +72,9 @@ export const V2_PROMPT_REGISTRY: Record<string, PromptTemplate<unknown>> = {
 	// Event prompts - Chapter/Narrative
 	[chapterEndedPrompt.name]: chapterEndedPrompt,
 	[chapterDescriptionPrompt.name]: chapterDescriptionPrompt,
+	[arcSummaryPrompt.name]: arcSummaryPrompt,
+	[sceneBreakPrompt.name]: sceneBreakPrompt,
+	[sceneDescriptionPrompt.name]: sceneDescriptionPrompt,
 	[narrativeDescriptionPrompt.name]: narrativeDescriptionPrompt,
 	[milestoneDescriptionPrompt.name]: milestoneDescriptionPrompt,
 
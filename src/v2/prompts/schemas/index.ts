@@ -49,8 +49,13 @@ export const extractedDateTimeSchema: JSONSchema = {
 	type: 'object',
 	properties: {
 		year: { type: 'number', description: 'Four-digit year (e.g., 2024)' },
-		month: { type: 'number', minimum: 1, maximum: 12, description: 'Month 1-12' },
-		day: { type: 'number', minimum: 1, maximum: 31, description: 'Day of month' },
+		month: {
+			type: 'number',
+			minimum: 1,
+			description:
+				'Month number (1-12, or up to the month count of a custom calendar)',
+		},
+		day: { type: 'number', minimum: 1, description: 'Day of month' },
 		hour: {
 			type: 'number',
 			minimum: 0,
@@ -61,16 +66,7 @@ export const extractedDateTimeSchema: JSONSchema = {
 		second: { type: 'number', minimum: 0, maximum: 59, description: 'Seconds' },
 		dayOfWeek: {
 			type: 'string',
-			enum: [
-				'Sunday',
-				'Monday',
-				'Tuesday',
-				'Wednesday',
-				'Thursday',
-				'Friday',
-				'Saturday',
-			],
-			description: 'Day of the week',
+			description: 'Day of the week, as named by the calendar in use',
 		},
 	},
 	required: ['year', 'month', 'day', 'hour', 'minute', 'second', 'dayOfWeek'],
@@ -882,6 +878,50 @@ export const chapterDescriptionSchema: JSONSchema = {
 	required: ['reasoning', 'title', 'summary'],
 };
 
+/**
+ * Schema for condensing completed chapters into an arc summary.
+ */
+export const arcSummarySchema: JSONSchema = {
+	type: 'object',
+	properties: {
+		reasoning: reasoningField,
+		title: { type: 'string', description: 'Arc title (short, evocative)' },
+		summary: {
+			type: 'string',
+			description: 'Condensed summary of the chapters in the arc',
+		},
+	},
+	required: ['reasoning', 'title', 'summary'],
+};
+
+/**
+ * Schema for confirming a scene break.
+ */
+export const sceneBreakSchema: JSONSchema = {
+	type: 'object',
+	properties: {
+		reasoning: reasoningField,
+		isNewScene: { type: 'boolean', description: 'Whether a new scene has started' },
+	},
+	required: ['reasoning', 'isNewScene'],
+};
+
+/**
+ * Schema for scene title and summary generation.
+ */
+export const sceneDescriptionSchema: JSONSchema = {
+	type: 'object',
+	properties: {
+		reasoning: reasoningField,
+		title: { type: 'string', description: 'Scene title (1-4 words)' },
+		summary: {
+			type: 'string',
+			description: 'One- or two-sentence summary of the scene',
+		},
+	},
+	required: ['reasoning', 'title', 'summary'],
+};
+
 // ============================================
 // Consolidation Schemas
 // ============================================
@@ -2,7 +2,13 @@
  * V2 Settings Defaults
  */
 
-import type { V2Settings, V2TrackSettings, V2TemperatureSettings } from './types';
+import type {
+	V2Settings,
+	V2TrackSettings,
+	V2TemperatureSettings,
+	V2InjectionPlacements,
+	V2InjectionSection,
+} from './types';
 
 /**
  * Default track settings (all enabled).
@@ -32,17 +38,68 @@ export const DEFAULT_V2_TEMPERATURES: V2TemperatureSettings = {
 	narrative: 0.6, // Used for narrative + chapter extractors
 };
 
+/**
+ * Default injection placements: state at the end of the chat,
+ * chapters and events before the chat history.
+ */
+export const DEFAULT_V2_INJECTION_PLACEMENTS: V2InjectionPlacements = {
+	time: { position: 'atDepth', depth: 0, role: 'user' },
+	location: { position: 'atDepth', depth: 0, role: 'user' },
+	climate: { position: 'atDepth', depth: 0, role: 'user' },
+	characters: { position: 'atDepth', depth: 0, role: 'user' },
+	relationships: { position: 'atDepth', depth: 0, role: 'user' },
+	scene: { position: 'atDepth', depth: 0, role: 'user' },
+	chapters: { position: 'beforeHistory', depth: 0, role: 'user' },
+	events: { position: 'beforeHistory', depth: 0, role: 'user' },
+};
+
+/**
+ * Merge stored placements with the defaults, per section.
+ * Settings from before per-section placement had a single v2InjectionDepth
+ * for the state; it becomes the depth of the state sections.
+ */
+function mergeInjectionPlacements(
+	partial: Partial<V2Settings> & { v2InjectionDepth?: number },
+): V2InjectionPlacements {
+	const merged = {} as V2InjectionPlacements;
+	for (const section of Object.keys(
+		DEFAULT_V2_INJECTION_PLACEMENTS,
+	) as V2InjectionSection[]) {
+		const fallback = DEFAULT_V2_INJECTION_PLACEMENTS[section];
+		merged[section] = {
+			...fallback,
+			...(fallback.position === 'atDepth' &&
+			partial.v2InjectionDepth !== undefined
+				? { depth: partial.v2InjectionDepth }
+				: {}),
+			...partial.v2InjectionPlacements?.[section],
+		};
+	}
+	return merged;
+}
+
 /**
  * Create default V2Settings.
  */
 export function createDefaultV2Settings(): V2Settings {
 	return {
 		// Core
+		v2GeneratorBackend: 'sillytavern',
 		v2ProfileId: '',
+		v2DirectBaseUrl: '',
+		v2DirectModel: '',
+		v2DirectApiKey: '',
+		v2DirectStream: false,
+		v2StructuredOutput: 'off',
 		v2AutoExtract: true,
 		v2MaxTokens: 4096,
 		v2MaxReqsPerMinute: 0, // disabled by default
+		v2ExtractionConcurrency: 1, // one extractor at a time
+		v2BatchedExtraction: { characters: false, relationships: false },
+		v2CacheEnabled: true,
+		v2CacheMaxEntries: 2000,
 		v2IncludeWorldinfo: true, // include lorebook data in extractors
+		v2ExtractorStrategies: {}, // built-in strategies
 
 		// Debug & Display
 		v2DebugLogging: false,
@@ -70,11 +127,17 @@ export function createDefaultV2Settings(): V2Settings {
 		// Message limits
 		v2MaxMessagesToSend: 10,
 		v2MaxChapterMessagesToSend: 24,
+		v2ChaptersPerArc: 5,
+		v2Scenes: {
+			enabled: false,
+			confirmWithLLM: true,
+			timeJumpMinutes: 60,
+			presenceChanges: true,
+		},
 
 		// Prompt customization
 		v2PromptPrefix: '',
 		v2PromptSuffix: '',
-		v2InjectionDepth: 0,
 
 		// Auto-injection toggles
 		v2InjectState: true,
@@ -84,6 +147,35 @@ export function createDefaultV2Settings(): V2Settings {
 		v2MaxRecentChapters: 5,
 		v2MaxRecentEvents: 15,
 		v2InjectionTokenBudget: 0, // 0 = use ST's context size
+		v2InjectionTemplates: { state: '', narrative: '' }, // '' = built-in default
+		v2InjectionPlacements: mergeInjectionPlacements({}),
+		v2RelevanceFilter: { mode: 'off', topK: 4, recentMessages: 6 },
+		v2HistoryRetrieval: {
+			selection: 'recent',
+			recentMessages: 6,
+			embeddings: false,
+			embeddingsBaseUrl: 'http://localhost:11434/v1',
+			embeddingsModel: 'nomic-embed-text',
+			embeddingsApiKey: '',
+		},
+
+		// Lorebook
+		v2LorebookSync: {
+			enabled: false,
+			lorebook: '', // '' = BlazeTracker's lorebook for the chat
+			characters: true,
+			relationships: true,
+			locations: true,
+			chapters: true,
+		},
+
+		// Weather
+		v2ClimateProfiles: [],
+		v2ClimateData: {
+			source: 'auto',
+			fileName: '',
+			fileCities: [],
+		},
 	};
 }
 
@@ -94,11 +186,29 @@ export function mergeV2WithDefaults(partial: Partial<V2Settings>): V2Settings {
 	const defaults = createDefaultV2Settings();
 	return {
 		// Core
+		v2GeneratorBackend: partial.v2GeneratorBackend ?? defaults.v2GeneratorBackend,
 		v2ProfileId: partial.v2ProfileId ?? defaults.v2ProfileId,
+		v2DirectBaseUrl: partial.v2DirectBaseUrl ?? defaults.v2DirectBaseUrl,
+		v2DirectModel: partial.v2DirectModel ?? defaults.v2DirectModel,
+		v2DirectApiKey: partial.v2DirectApiKey ?? defaults.v2DirectApiKey,
+		v2DirectStream: partial.v2DirectStream ?? defaults.v2DirectStream,
+		v2StructuredOutput: partial.v2StructuredOutput ?? defaults.v2StructuredOutput,
 		v2AutoExtract: partial.v2AutoExtract ?? defaults.v2AutoExtract,
 		v2MaxTokens: partial.v2MaxTokens ?? defaults.v2MaxTokens,
 		v2MaxReqsPerMinute: partial.v2MaxReqsPerMinute ?? defaults.v2MaxReqsPerMinute,
+		v2ExtractionConcurrency:
+			partial.v2ExtractionConcurrency ?? defaults.v2ExtractionConcurrency,
+		v2BatchedExtraction: {
+			...defaults.v2BatchedExtraction,
+			...partial.v2BatchedExtraction,
+		},
+		v2CacheEnabled: partial.v2CacheEnabled ?? defaults.v2CacheEnabled,
+		v2CacheMaxEntries: partial.v2CacheMaxEntries ?? defaults.v2CacheMaxEntries,
 		v2IncludeWorldinfo: partial.v2IncludeWorldinfo ?? defaults.v2IncludeWorldinfo,
+		v2ExtractorStrategies: {
+			...defaults.v2ExtractorStrategies,
+			...partial.v2ExtractorStrategies,
+		},
 
 		// Debug & Display
 		v2DebugLogging: partial.v2DebugLogging ?? defaults.v2DebugLogging,
@@ -142,11 +252,15 @@ export function mergeV2WithDefaults(partial: Partial<V2Settings>): V2Settings {
 		v2MaxMessagesToSend: partial.v2MaxMessagesToSend ?? defaults.v2MaxMessagesToSend,
 		v2MaxChapterMessagesToSend:
 			partial.v2MaxChapterMessagesToSend ?? defaults.v2MaxChapterMessagesToSend,
+		v2ChaptersPerArc: partial.v2ChaptersPerArc ?? defaults.v2ChaptersPerArc,
+		v2Scenes: {
+			...defaults.v2Scenes,
+			...partial.v2Scenes,
+		},
 
 		// Prompt customization
 		v2PromptPrefix: partial.v2PromptPrefix ?? defaults.v2PromptPrefix,
 		v2PromptSuffix: partial.v2PromptSuffix ?? defaults.v2PromptSuffix,
-		v2InjectionDepth: partial.v2InjectionDepth ?? defaults.v2InjectionDepth,
 
 		// Auto-injection toggles
 		v2InjectState: partial.v2InjectState ?? defaults.v2InjectState,
@@ -157,5 +271,31 @@ export function mergeV2WithDefaults(partial: Partial<V2Settings>): V2Settings {
 		v2MaxRecentEvents: partial.v2MaxRecentEvents ?? defaults.v2MaxRecentEvents,
 		v2InjectionTokenBudget:
 			partial.v2InjectionTokenBudget ?? defaults.v2InjectionTokenBudget,
+		v2InjectionTemplates: {
+			...defaults.v2InjectionTemplates,
+			...partial.v2InjectionTemplates,
+		},
+		v2InjectionPlacements: mergeInjectionPlacements(partial),
+		v2RelevanceFilter: {
+			...defaults.v2RelevanceFilter,
+			...partial.v2RelevanceFilter,
+		},
+		v2HistoryRetrieval: {
+			...defaults.v2HistoryRetrieval,
+			...partial.v2HistoryRetrieval,
+		},
+
+		// Lorebook
+		v2LorebookSync: {
+			...defaults.v2LorebookSync,
+			...partial.v2LorebookSync,
+		},
+
+		// Weather
+		v2ClimateProfiles: partial.v2ClimateProfiles ?? defaults.v2ClimateProfiles,
+		v2ClimateData: {
+			...defaults.v2ClimateData,
+			...partial.v2ClimateData,
+		},
 	};
 }
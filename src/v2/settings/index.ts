@@ -2,7 +2,35 @@
  * V2 Settings Index
  */
 
-export type { V2Settings, V2TrackSettings, V2TemperatureSettings, V2CustomPrompt } from './types';
+export type {
+	V2Settings,
+	V2GeneratorBackend,
+	V2StructuredOutput,
+	V2TrackSettings,
+	V2TemperatureSettings,
+	V2BatchedExtractionSettings,
+	V2CustomPrompt,
+	V2StrategyEventKind,
+	V2RunStrategy,
+	V2MessageStrategy,
+	V2ExtractorStrategy,
+	V2InjectionTemplates,
+	V2InjectionSection,
+	V2InjectionPosition,
+	V2InjectionRole,
+	V2SectionPlacement,
+	V2InjectionPlacements,
+	V2RelevanceMode,
+	V2RelevanceSettings,
+	V2HistorySelection,
+	V2HistoryRetrievalSettings,
+	V2SceneSettings,
+	V2LorebookSyncSettings,
+	V2ClimateProfile,
+	V2ClimateSource,
+	V2ClimateCity,
+	V2ClimateDataSettings,
+} from './types';
 
 export {
 	isV2Settings,
@@ -14,6 +42,7 @@ export {
 export {
 	DEFAULT_V2_TRACK,
 	DEFAULT_V2_TEMPERATURES,
+	DEFAULT_V2_INJECTION_PLACEMENTS,
 	createDefaultV2Settings,
 	mergeV2WithDefaults,
 } from './defaults';
@@ -27,6 +27,13 @@ describe('V2 Settings', () => {
 			expect(settings.v2MaxTokens).toBe(4096);
 		});
 
+		it('uses the SillyTavern backend by default', () => {
+			const settings = createDefaultV2Settings();
+			expect(settings.v2GeneratorBackend).toBe('sillytavern');
+			expect(settings.v2DirectBaseUrl).toBe('');
+			expect(settings.v2DirectStream).toBe(false);
+		});
+
 		it('v2MaxReqsPerMinute defaults to 0 (disabled)', () => {
 			const settings = createDefaultV2Settings();
 			expect(settings.v2MaxReqsPerMinute).toBe(0);
@@ -158,6 +165,30 @@ describe('V2 Settings', () => {
 			const merged = mergeV2WithDefaults({ v2ProfileId: 'test' });
 			expect(merged.v2InjectNarrative).toBe(true);
 		});
+
+		it('merges injection placements per section', () => {
+			const merged = mergeV2WithDefaults({
+				v2InjectionPlacements: {
+					time: { position: 'system', depth: 0, role: 'system' },
+				},
+			} as Partial<V2Settings>);
+
+			expect(merged.v2InjectionPlacements.time.position).toBe('system');
+			expect(merged.v2InjectionPlacements.location.position).toBe('atDepth');
+			expect(merged.v2InjectionPlacements.chapters.position).toBe(
+				'beforeHistory',
+			);
+		});
+
+		it('uses the old v2InjectionDepth for the state sections', () => {
+			const merged = mergeV2WithDefaults({
+				v2InjectionDepth: 3,
+			} as Partial<V2Settings>);
+
+			expect(merged.v2InjectionPlacements.time.depth).toBe(3);
+			expect(merged.v2InjectionPlacements.relationships.depth).toBe(3);
+			expect(merged.v2InjectionPlacements.chapters.depth).toBe(0);
+		});
 	});
 
 	describe('isV2Settings', () => {
@@ -32,6 +32,52 @@ export interface V2TemperatureSettings {
 	narrative: number; // Used for narrative + chapter extractors
 }
 
+/**
+ * Categories whose per-character/per-pair extractors are batched into one
+ * LLM call covering every present character (or pair).
+ */
+export interface V2BatchedExtractionSettings {
+	characters: boolean;
+	relationships: boolean;
+}
+
+/**
+ * Event kind (and optional subkind) a strategy watches, e.g. location/moved.
+ */
+export interface V2StrategyEventKind {
+	kind: string;
+	subkind?: string;
+}
+
+/**
+ * When an extractor runs (mirrors the extractor RunStrategy, minus custom checks).
+ */
+export type V2RunStrategy =
+	| { strategy: 'everyMessage' }
+	| { strategy: 'everyUserMessage' }
+	| { strategy: 'everyAssistantMessage' }
+	| { strategy: 'everyNMessages'; n: number; offset?: number }
+	| { strategy: 'nSinceLastProducedEvents'; n: number }
+	| { strategy: 'nSinceLastEventOfKind'; n: number; kinds: V2StrategyEventKind[] }
+	| { strategy: 'newEventsOfKind'; kinds: V2StrategyEventKind[] };
+
+/**
+ * Which messages an extractor is sent (mirrors the extractor MessageStrategy).
+ */
+export type V2MessageStrategy =
+	| { strategy: 'fixedNumber'; n: number }
+	| { strategy: 'lastXMessages'; x: number }
+	| { strategy: 'sinceLastEvent' }
+	| { strategy: 'sinceLastEventOfKind'; kinds: V2StrategyEventKind[] };
+
+/**
+ * Strategies chosen for one extractor (omitted = the extractor's built-in one).
+ */
+export interface V2ExtractorStrategy {
+	runStrategy?: V2RunStrategy;
+	messageStrategy?: V2MessageStrategy;
+}
+
 /**
  * Custom prompt override for an extractor.
  */
@@ -40,22 +86,246 @@ export interface V2CustomPrompt {
 	userTemplate?: string;
 }
 
+/**
+ * Injection templates (empty = built-in default).
+ */
+export interface V2InjectionTemplates {
+	/** Template for the scene state block ({{btState}}) */
+	state: string;
+	/** Template for chapters and events ({{btNarrative}}) */
+	narrative: string;
+}
+
+/**
+ * Sections of the injected context that can be placed independently.
+ * Location includes nearby props; chapters and events are the narrative sections.
+ */
+export type V2InjectionSection =
+	| 'time'
+	| 'location'
+	| 'climate'
+	| 'characters'
+	| 'relationships'
+	| 'scene'
+	| 'chapters'
+	| 'events';
+
+/**
+ * Where an injected section goes in the prompt.
+ * - system: appended to the system prompt
+ * - beforeHistory: before the first chat history message
+ * - atDepth: N messages from the end of the chat (0 = after the last message)
+ * - afterLastUser: right after the last user message
+ */
+export type V2InjectionPosition = 'system' | 'beforeHistory' | 'atDepth' | 'afterLastUser';
+
+/**
+ * Message role of an injected section (chat completion only).
+ */
+export type V2InjectionRole = 'system' | 'user' | 'assistant';
+
+/**
+ * Placement of one injected section.
+ */
+export interface V2SectionPlacement {
+	position: V2InjectionPosition;
+	/** Messages from the end of the chat, for 'atDepth' */
+	depth: number;
+	role: V2InjectionRole;
+}
+
+/**
+ * Placement of every injected section.
+ */
+export type V2InjectionPlacements = Record<V2InjectionSection, V2SectionPlacement>;
+
+/**
+ * When to filter injected characters and relationships by relevance.
+ * - off: inject everyone present
+ * - always: inject the most relevant in full, summarise the rest
+ * - overBudget: only filter when the full state doesn't fit the token budget
+ */
+export type V2RelevanceMode = 'off' | 'always' | 'overBudget';
+
+/**
+ * Relevance filtering of injected characters and relationships.
+ */
+export interface V2RelevanceSettings {
+	mode: V2RelevanceMode;
+	/** Characters (and relationships) injected in full */
+	topK: number;
+	/** Recent messages scanned for mentions */
+	recentMessages: number;
+}
+
+/**
+ * How past chapters and out-of-context events are picked for injection.
+ * - recent: the most recent ones
+ * - relevant: the ones that best match the current scene
+ */
+export type V2HistorySelection = 'recent' | 'relevant';
+
+/**
+ * Picking the past chapters and events to inject.
+ */
+export interface V2HistoryRetrievalSettings {
+	selection: V2HistorySelection;
+	/** Recent messages scanned for keywords */
+	recentMessages: number;
+	/** Also score by embedding similarity */
+	embeddings: boolean;
+	/** OpenAI-compatible API serving /embeddings (e.g. a local Ollama or llama.cpp server) */
+	embeddingsBaseUrl: string;
+	embeddingsModel: string;
+	embeddingsApiKey: string;
+}
+
+/**
+ * Splitting chapters into scenes at location moves, time jumps and cast changes.
+ */
+export interface V2SceneSettings {
+	enabled: boolean;
+	/** Ask the LLM to confirm each detected break */
+	confirmWithLLM: boolean;
+	/** Smallest time skip (in minutes) that starts a new scene */
+	timeJumpMinutes: number;
+	/** Start a new scene when at least half the cast changes */
+	presenceChanges: boolean;
+}
+
+/**
+ * Writing tracked state into a BlazeTracker-managed lorebook, for keyword
+ * activation instead of (or alongside) always-on injection.
+ */
+export interface V2LorebookSyncSettings {
+	enabled: boolean;
+	/** Lorebook to write to ('' = one created for the chat and bound to it) */
+	lorebook: string;
+	/** One entry per character */
+	characters: boolean;
+	/** One entry per relationship */
+	relationships: boolean;
+	/** One entry per visited place */
+	locations: boolean;
+	/** One entry per completed chapter */
+	chapters: boolean;
+}
+
+/**
+ * User-authored climate for fictional areas (mirrors the weather
+ * CustomClimateProfile). Temperatures in °F, monthly arrays start at January.
+ */
+export interface V2ClimateProfile {
+	name: string;
+	/** Area names or patterns ("*" matches any text) the profile is used for */
+	areas: string[];
+	monthlyHighs: number[];
+	monthlyLows: number[];
+	/** Days with precipitation per month */
+	monthlyPrecipDays: number[];
+	/** Average humidity per month (%) */
+	monthlyHumidity: number[];
+	/** Day-to-day temperature variation (°F) */
+	tempStdDev: number;
+	/** Relative weights of conditions (e.g. { sunny: 0.6, rain: 0.4 }) by season */
+	conditionWeights: Record<'winter' | 'spring' | 'summer' | 'fall', Record<string, number>>;
+	/** Latitude for sunrise, sunset and moonrise (45 if not set) */
+	latitude?: number;
+}
+
+/**
+ * Where climate normals for real places come from.
+ * - auto: the network, or the bundled dataset when the network is unreachable
+ * - network: geocoding and historical weather APIs
+ * - offline: the bundled dataset of major cities
+ * - file: a user-supplied climate data file, then the bundled dataset
+ */
+export type V2ClimateSource = 'auto' | 'network' | 'offline' | 'file';
+
+/**
+ * A city in a user-supplied climate data file (mirrors the weather
+ * CityClimate). Metric units, monthly arrays start at January.
+ */
+export interface V2ClimateCity {
+	name: string;
+	country: string;
+	aliases?: string[];
+	latitude: number;
+	longitude: number;
+	/** Average daily highs (°C) */
+	highs: number[];
+	/** Average daily lows (°C) */
+	lows: number[];
+	/** Precipitation per month (mm) */
+	precip: number[];
+	/** Days with precipitation per month */
+	precipDays: number[];
+	/** Average humidity per month (%) */
+	humidity: number[];
+}
+
+export interface V2ClimateDataSettings {
+	source: V2ClimateSource;
+	/** Name of the loaded climate data file ('' = none) */
+	fileName: string;
+	/** Cities read from the climate data file */
+	fileCities: V2ClimateCity[];
+}
+
+/**
+ * Backend for extraction requests.
+ * - sillytavern: through a SillyTavern connection profile
+ * - openai-compatible: directly to an OpenAI-compatible /chat/completions endpoint
+ */
+export type V2GeneratorBackend = 'sillytavern' | 'openai-compatible';
+
+/**
+ * Constrained decoding mode for extraction requests.
+ * - off: rely on prompt instructions and response parsing only
+ * - json_schema: JSON schema (OpenAI response_format, SillyTavern structured output)
+ * - grammar: GBNF grammar converted from the schema (llama.cpp, KoboldCpp)
+ * - guided_json: guided-decoding JSON schema (vLLM, TabbyAPI)
+ */
+export type V2StructuredOutput = 'off' | 'json_schema' | 'grammar' | 'guided_json';
+
 /**
  * V2 extension settings.
  * All keys use v2 prefix to avoid conflicts with v1 settings.
  */
 export interface V2Settings {
 	// Core
+	/** Which backend extraction requests go through */
+	v2GeneratorBackend: V2GeneratorBackend;
 	/** Connection profile ID for LLM calls */
 	v2ProfileId: string;
+	/** Base URL of the OpenAI-compatible API, including the version path (e.g. http://localhost:8080/v1) */
+	v2DirectBaseUrl: string;
+	/** Model name for the OpenAI-compatible API */
+	v2DirectModel: string;
+	/** API key for the OpenAI-compatible API (empty = none) */
+	v2DirectApiKey: string;
+	/** Stream responses from the OpenAI-compatible API */
+	v2DirectStream: boolean;
+	/** How prompt response schemas are sent for constrained decoding ('off' = not sent) */
+	v2StructuredOutput: V2StructuredOutput;
 	/** Auto-extraction on/off (extractors handle their own run intervals) */
 	v2AutoExtract: boolean;
 	/** Maximum tokens for LLM responses */
 	v2MaxTokens: number;
 	/** Max LLM requests per minute (0 = no limit) */
 	v2MaxReqsPerMinute: number;
+	/** Max extractors running at once when they don't depend on each other (1 = one at a time) */
+	v2ExtractionConcurrency: number;
+	/** Ask about all characters/pairs in one call instead of one call each */
+	v2BatchedExtraction: V2BatchedExtractionSettings;
+	/** Reuse stored responses for requests identical to earlier ones */
+	v2CacheEnabled: boolean;
+	/** Max number of responses kept in the cache (least recently used are dropped first) */
+	v2CacheMaxEntries: number;
 	/** Include worldinfo (lorebook) data in extractor prompts */
 	v2IncludeWorldinfo: boolean;
+	/** Run and message strategies by extractor name */
+	v2ExtractorStrategies: Record<string, V2ExtractorStrategy>;
 
 	// Debug & Display
 	/** Enable debug logging to console */
@@ -94,6 +364,10 @@ export interface V2Settings {
 	v2MaxMessagesToSend: number;
 	/** Max messages to send to chapter description extractor (default 24) */
 	v2MaxChapterMessagesToSend: number;
+	/** Completed chapters condensed into each arc summary (0 = no arcs, default 5) */
+	v2ChaptersPerArc: number;
+	/** Scene segmentation within chapters */
+	v2Scenes: V2SceneSettings;
 
 	// Prompt customization
 	/** String to prepend to the user part of all prompts (e.g., "/nothink") */
@@ -101,8 +375,6 @@ export interface V2Settings {
 	/** String to append to the user part of all prompts */
 	v2PromptSuffix: string;
 
-	v2InjectionDepth: number;
-
 	// Auto-injection toggles
 	/** Auto-inject scene state into prompts (disable for macro-only workflow) */
 	v2InjectState: boolean;
@@ -116,6 +388,24 @@ export interface V2Settings {
 	v2MaxRecentEvents: number;
 	/** Token budget for injection (0 = use ST's context size) */
 	v2InjectionTokenBudget: number;
+	/** Templates the injected text is rendered with */
+	v2InjectionTemplates: V2InjectionTemplates;
+	/** Where each section is injected in the prompt */
+	v2InjectionPlacements: V2InjectionPlacements;
+	/** Inject only the characters and relationships in focus in full */
+	v2RelevanceFilter: V2RelevanceSettings;
+	/** How past chapters and out-of-context events are picked */
+	v2HistoryRetrieval: V2HistoryRetrievalSettings;
+
+	// Lorebook
+	/** Keep a managed lorebook in sync with the tracked state */
+	v2LorebookSync: V2LorebookSyncSettings;
+
+	// Weather
+	/** Custom climate profiles for fictional areas (character card profiles take precedence) */
+	v2ClimateProfiles: V2ClimateProfile[];
+	/** Source of climate normals for real places */
+	v2ClimateData: V2ClimateDataSettings;
 }
 
 /**
@@ -126,10 +416,24 @@ export function isV2Settings(obj: unknown): obj is V2Settings {
 	const s = obj as Record<string, unknown>;
 	return (
 		typeof s.v2ProfileId === 'string' &&
+		(typeof s.v2GeneratorBackend === 'string' || s.v2GeneratorBackend === undefined) &&
+		(typeof s.v2DirectBaseUrl === 'string' || s.v2DirectBaseUrl === undefined) &&
+		(typeof s.v2DirectModel === 'string' || s.v2DirectModel === undefined) &&
+		(typeof s.v2DirectApiKey === 'string' || s.v2DirectApiKey === undefined) &&
+		(typeof s.v2DirectStream === 'boolean' || s.v2DirectStream === undefined) &&
+		(typeof s.v2StructuredOutput === 'string' || s.v2StructuredOutput === undefined) &&
 		typeof s.v2AutoExtract === 'boolean' &&
 		(typeof s.v2MaxTokens === 'number' || s.v2MaxTokens === undefined) &&
 		(typeof s.v2MaxReqsPerMinute === 'number' || s.v2MaxReqsPerMinute === undefined) &&
+		(typeof s.v2ExtractionConcurrency === 'number' ||
+			s.v2ExtractionConcurrency === undefined) &&
+		(typeof s.v2BatchedExtraction === 'object' ||
+			s.v2BatchedExtraction === undefined) &&
+		(typeof s.v2CacheEnabled === 'boolean' || s.v2CacheEnabled === undefined) &&
+		(typeof s.v2CacheMaxEntries === 'number' || s.v2CacheMaxEntries === undefined) &&
 		(typeof s.v2IncludeWorldinfo === 'boolean' || s.v2IncludeWorldinfo === undefined) &&
+		(typeof s.v2ExtractorStrategies === 'object' ||
+			s.v2ExtractorStrategies === undefined) &&
 		typeof s.v2DebugLogging === 'boolean' &&
 		typeof s.v2DisplayPosition === 'string' &&
 		typeof s.v2TemperatureUnit === 'string' &&
@@ -143,16 +447,26 @@ export function isV2Settings(obj: unknown): obj is V2Settings {
 			s.v2MaxMessagesToSend === undefined) &&
 		(typeof s.v2MaxChapterMessagesToSend === 'number' ||
 			s.v2MaxChapterMessagesToSend === undefined) &&
+		(typeof s.v2ChaptersPerArc === 'number' || s.v2ChaptersPerArc === undefined) &&
+		(typeof s.v2Scenes === 'object' || s.v2Scenes === undefined) &&
 		(typeof s.v2PromptPrefix === 'string' || s.v2PromptPrefix === undefined) &&
 		(typeof s.v2PromptSuffix === 'string' || s.v2PromptSuffix === undefined) &&
-		typeof s.v2InjectionDepth === 'number' &&
 		(typeof s.v2MaxRecentChapters === 'number' ||
 			s.v2MaxRecentChapters === undefined) &&
 		(typeof s.v2MaxRecentEvents === 'number' || s.v2MaxRecentEvents === undefined) &&
 		(typeof s.v2InjectionTokenBudget === 'number' ||
 			s.v2InjectionTokenBudget === undefined) &&
 		(typeof s.v2InjectState === 'boolean' || s.v2InjectState === undefined) &&
-		(typeof s.v2InjectNarrative === 'boolean' || s.v2InjectNarrative === undefined)
+		(typeof s.v2InjectNarrative === 'boolean' || s.v2InjectNarrative === undefined) &&
+		(typeof s.v2InjectionTemplates === 'object' ||
+			s.v2InjectionTemplates === undefined) &&
+		(typeof s.v2InjectionPlacements === 'object' ||
+			s.v2InjectionPlacements === undefined) &&
+		(typeof s.v2RelevanceFilter === 'object' || s.v2RelevanceFilter === undefined) &&
+		(typeof s.v2HistoryRetrieval === 'object' || s.v2HistoryRetrieval === undefined) &&
+		(typeof s.v2LorebookSync === 'object' || s.v2LorebookSync === undefined) &&
+		(Array.isArray(s.v2ClimateProfiles) || s.v2ClimateProfiles === undefined) &&
+		(typeof s.v2ClimateData === 'object' || s.v2ClimateData === undefined)
 	);
 }
 
@@ -747,4 +747,88 @@ describe('EventStore', () => {
 			expect(() => store.projectStateAtMessage(2, swipeContext)).not.toThrow();
 		});
 	});
+
+	describe('branch lineage', () => {
+		function createChapterSnapshot(messageId: number): Snapshot {
+			const snapshot = createInitialSnapshot(messageId);
+			snapshot.type = 'chapter';
+			snapshot.chapterIndex = 0;
+			snapshot.chapterTriggerMessage = { messageId, swipeId: 0 };
+			return snapshot;
+		}
+
+		it('starts with no chat ID or lineage', () => {
+			expect(store.chatId).toBeNull();
+			expect(store.lineage).toHaveLength(0);
+			expect(store.parentBranchPoint).toBeNull();
+		});
+
+		it('convertToBranch drops events after the branch point', () => {
+			store.setChatId('parent');
+			store.replaceInitialSnapshot(createInitialSnapshot(0));
+			store.appendEvents([
+				createTimeDeltaEvent('1', 2),
+				createTimeDeltaEvent('2', 4),
+				createTimeDeltaEvent('3', 6),
+			]);
+
+			store.convertToBranch('parent', 4, 'branch');
+
+			expect(store.getActiveEvents().map(e => e.id)).toEqual(['1', '2']);
+			expect(store.chatId).toBe('branch');
+		});
+
+		it('convertToBranch drops chapter snapshots after the branch point', () => {
+			store.replaceInitialSnapshot(createInitialSnapshot(0));
+			store.addChapterSnapshot(createChapterSnapshot(3));
+			store.addChapterSnapshot(createChapterSnapshot(8));
+
+			store.convertToBranch('parent', 5, 'branch');
+
+			expect(store.snapshots.map(s => s.source.messageId)).toEqual([0, 3]);
+		});
+
+		it('convertToBranch records the parent in the lineage', () => {
+			store.replaceInitialSnapshot(createInitialSnapshot(0));
+
+			store.convertToBranch('root', 10, 'child');
+			store.convertToBranch('child', 5, 'grandchild');
+
+			expect(store.lineage.map(b => [b.chatId, b.messageId])).toEqual([
+				['root', 10],
+				['child', 5],
+			]);
+			expect(store.parentBranchPoint?.chatId).toBe('child');
+		});
+
+		it('convertToBranch clears the store when branching before the initial snapshot', () => {
+			store.replaceInitialSnapshot(createInitialSnapshot(5));
+			store.appendEvents([createTimeDeltaEvent('1', 6)]);
+
+			store.convertToBranch('parent', 3, 'branch');
+
+			expect(store.hasInitialSnapshot).toBe(false);
+			expect(store.lineage).toHaveLength(1);
+		});
+
+		it('survives serialization and cloning', () => {
+			store.replaceInitialSnapshot(createInitialSnapshot(0));
+			store.convertToBranch('parent', 2, 'branch');
+
+			const restored = EventStore.fromSerialized(store.serialize())!;
+			expect(restored.chatId).toBe('branch');
+			expect(restored.lineage).toEqual(store.lineage);
+
+			const clone = store.getDeepClone();
+			expect(clone.chatId).toBe('branch');
+			expect(clone.lineage).toEqual(store.lineage);
+			expect(clone.lineage[0]).not.toBe(store.lineage[0]);
+		});
+
+		it('omits chat ID and lineage from serialization when unset', () => {
+			const serialized = store.serialize();
+			expect('chatId' in serialized).toBe(false);
+			expect('lineage' in serialized).toBe(false);
+		});
+	});
 });
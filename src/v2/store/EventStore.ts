@@ -23,7 +23,10 @@ import {
 	serializeEventStore,
 	deserializeEventStore,
 	type SerializedEventStore,
+	type BranchPoint,
 } from './serialization';
+import { migrateSerializedStore, type StoreMigrationReport } from '../migration/storeMigrations';
+import { debugWarn } from '../../utils/debug';
 
 /**
  * EventStore - The core event sourcing container.
@@ -33,6 +36,9 @@ import {
 export class EventStore {
 	private _snapshots: Snapshot[] = [];
 	private _events: Event[] = [];
+	private _lastMigration: StoreMigrationReport | null = null;
+	private _chatId: string | null = null;
+	private _lineage: BranchPoint[] = [];
 
 	/**
 	 * Get all snapshots (read-only).
@@ -182,6 +188,77 @@ export class EventStore {
 		return null;
 	}
 
+	// ============================================
+	// Chat Lineage
+	// ============================================
+
+	/**
+	 * ST chat ID this store belongs to (null if not yet saved with one).
+	 */
+	get chatId(): string | null {
+		return this._chatId;
+	}
+
+	/**
+	 * Set the ST chat ID this store belongs to.
+	 */
+	setChatId(chatId: string | null): void {
+		this._chatId = chatId;
+	}
+
+	/**
+	 * Branch ancestry, oldest ancestor first and direct parent last.
+	 * Empty for chats that were not branched from another tracked chat.
+	 */
+	get lineage(): readonly BranchPoint[] {
+		return this._lineage;
+	}
+
+	/**
+	 * The branch point in the direct parent chat, or null if not a branch.
+	 */
+	get parentBranchPoint(): BranchPoint | null {
+		return this._lineage[this._lineage.length - 1] ?? null;
+	}
+
+	/**
+	 * Turn this store into the store of a branch created from its chat.
+	 * Events and chapter snapshots after the branch point are dropped, the parent
+	 * is appended to the lineage and the store is re-assigned to the branch chat.
+	 *
+	 * If the initial snapshot lies after the branch point, nothing before the branch
+	 * point was tracked and the store is cleared (lineage is still recorded).
+	 *
+	 * @param parentChatId - Chat the branch was created from
+	 * @param branchMessageId - Last message copied into the branch
+	 * @param branchChatId - Chat ID of the new branch
+	 */
+	convertToBranch(
+		parentChatId: string,
+		branchMessageId: number,
+		branchChatId: string | null,
+	): void {
+		if (this.initialSnapshotMessageId > branchMessageId) {
+			this.clear();
+		} else {
+			this.deleteEventsAfterMessage(branchMessageId);
+			this.rebuildSnapshotsAfterMessage({
+				messageId: branchMessageId + 1,
+				swipeId: 0,
+			});
+		}
+
+		this._lineage = [
+			...this._lineage,
+			{
+				chatId: parentChatId,
+				messageId: branchMessageId,
+				branchedAt: Date.now(),
+			},
+		];
+		this._chatId = branchChatId;
+	}
+
 	// ============================================
 	// Cloning
 	// ============================================
@@ -202,6 +279,8 @@ export class EventStore {
 				: {}),
 			...('pair' in e && Array.isArray(e.pair) ? { pair: [...e.pair] } : {}),
 		})) as Event[];
+		clone._chatId = this._chatId;
+		clone._lineage = this._lineage.map(b => ({ ...b }));
 		return clone;
 	}
 
@@ -457,19 +536,42 @@ export class EventStore {
 	 * Serialize the store for JSON storage.
 	 */
 	serialize(): SerializedEventStore {
-		return serializeEventStore(this._snapshots, this._events);
+		return serializeEventStore(
+			this._snapshots,
+			this._events,
+			this._chatId,
+			this._lineage,
+		);
+	}
+
+	/**
+	 * Report of the migration run by the last loadFromSerialized call.
+	 * Null if the loaded data was already at the current version.
+	 */
+	get lastMigration(): StoreMigrationReport | null {
+		return this._lastMigration;
 	}
 
 	/**
 	 * Load store data from serialized format.
-	 * Returns false if deserialization fails.
+	 * Data from an older store version is migrated first (the input is not mutated).
+	 * Returns false if migration or deserialization fails.
 	 */
 	loadFromSerialized(data: unknown): boolean {
-		const result = deserializeEventStore(data);
+		const migration = migrateSerializedStore(data);
+		if (migration && 'error' in migration) {
+			debugWarn(migration.error);
+			return false;
+		}
+
+		const result = deserializeEventStore(migration ? migration.data : data);
 		if (!result) return false;
 
 		this._snapshots = result.snapshots;
 		this._events = sortEvents(result.events);
+		this._chatId = result.chatId;
+		this._lineage = result.lineage;
+		this._lastMigration = migration ? migration.report : null;
 		return true;
 	}
 
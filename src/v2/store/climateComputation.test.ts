@@ -6,17 +6,21 @@
  * - needsNewForecast
  * - isTimeWithinForecast
  * - MIN_FORECAST_DAYS constant
+ * - computeClimate with weather overrides
  */
 
 import { describe, it, expect } from 'vitest';
 import moment from 'moment';
 import {
+	computeClimate,
+	findActiveWeatherOverride,
 	getDaysRemainingInForecast,
 	isTimeWithinForecast,
 	needsNewForecast,
 	MIN_FORECAST_DAYS,
 } from './climateComputation';
 import type { LocationForecast, DailyForecast, HourlyWeather } from '../../weather/types';
+import type { LocationState, WeatherOverride } from '../types/common';
 
 /**
  * Create a mock hourly weather entry.
@@ -261,3 +265,89 @@ describe('needsNewForecast', () => {
 		});
 	});
 });
+
+describe('weather overrides', () => {
+	const forecasts = { Harbor: createMockForecast('2024-01-01', 28) };
+	const location: LocationState = {
+		area: 'Harbor',
+		place: 'Docks',
+		position: 'pier',
+		props: [],
+		locationType: 'outdoor',
+	};
+	const storm: WeatherOverride = {
+		areaName: 'Harbor',
+		startTime: moment('2024-01-05T12:00:00').toISOString(),
+		endTime: moment('2024-01-05T18:00:00').toISOString(),
+		condition: 'thunderstorm',
+	};
+
+	it('replaces the forecast during the override', () => {
+		const climate = computeClimate(forecasts, moment('2024-01-05T14:00:00'), location, [
+			storm,
+		]);
+
+		expect(climate?.conditionType).toBe('thunderstorm');
+		expect(climate?.precipitation).toBe(0.3);
+	});
+
+	it('uses the override temperature', () => {
+		const climate = computeClimate(forecasts, moment('2024-01-05T14:00:00'), location, [
+			{ ...storm, temperature: 50 },
+		]);
+
+		expect(climate?.outdoorTemperature).toBe(50);
+	});
+
+	it('blends into the forecast during the transition', () => {
+		const climate = computeClimate(forecasts, moment('2024-01-05T11:00:00'), location, [
+			storm,
+		]);
+
+		expect(climate?.cloudCover).toBe(65);
+		expect(climate?.precipitation).toBe(0.15);
+	});
+
+	it('leaves other times and areas alone', () => {
+		const later = computeClimate(forecasts, moment('2024-01-05T21:00:00'), location, [
+			storm,
+		]);
+		const elsewhere = computeClimate(
+			forecasts,
+			moment('2024-01-05T14:00:00'),
+			location,
+			[{ ...storm, areaName: 'Uptown' }],
+		);
+
+		expect(later?.precipitation).toBe(0);
+		expect(elsewhere?.precipitation).toBe(0);
+	});
+
+	it('prefers the later of two overlapping overrides', () => {
+		const snow: WeatherOverride = { ...storm, condition: 'snow' };
+		const active = findActiveWeatherOverride(
+			[storm, snow],
+			'Harbor',
+			moment('2024-01-05T14:00:00'),
+		);
+
+		expect(active?.override.condition).toBe('snow');
+		expect(active?.weight).toBe(1);
+	});
+
+	it('prefers the override in effect over one that is easing out', () => {
+		const fog: WeatherOverride = {
+			...storm,
+			startTime: moment('2024-01-05T09:00:00').toISOString(),
+			endTime: moment('2024-01-05T11:00:00').toISOString(),
+			condition: 'foggy',
+		};
+		const active = findActiveWeatherOverride(
+			[storm, fog],
+			'Harbor',
+			moment('2024-01-05T12:00:00'),
+		);
+
+		expect(active?.override.condition).toBe('thunderstorm');
+	});
+});
@@ -5,21 +5,27 @@
  * - Forecasts (28-day weather data per area)
  * - Time (current narrative datetime)
  * - Location (current area, place, position)
+ * - Weather overrides (scripted weather that replaces the forecast)
  *
  * Climate is a derived/computed value, not stored as events.
  */
 
 import type { Moment } from 'moment';
 import type { LocationForecast, HourlyWeather, DailyForecast } from '../../weather/types';
-import type { ClimateForecast, LocationState } from '../types/common';
+import type { ClimateForecast, LocationState, WeatherOverride } from '../types/common';
 import {
 	deriveCondition,
 	describeCondition,
 	getWindDirection,
-	getDaylightPhase,
 	calculateFeelsLike,
 } from '../../weather/weatherDeriver';
+import { getDaylightPhase, getForecastLatitude, getSkyState } from '../../weather/astronomy';
 import { calculateEffectiveTemperature } from '../../weather/indoorTemperature';
+import {
+	blendWeather,
+	getOverrideWeather,
+	getOverrideWeight,
+} from '../../weather/weatherTransitions';
 
 /**
  * Format a date as YYYY-MM-DD
@@ -46,6 +52,32 @@ function lookupWeatherAtTime(
 	return { hourly, daily: day };
 }
 
+/**
+ * Find the override with the most effect on an area at a time.
+ * Later overrides win ties, so the newest one is used where they overlap.
+ */
+export function findActiveWeatherOverride(
+	overrides: readonly WeatherOverride[],
+	area: string,
+	time: Moment,
+): { override: WeatherOverride; weight: number } | null {
+	let active: { override: WeatherOverride; weight: number } | null = null;
+
+	for (const override of overrides) {
+		if (override.areaName !== area) continue;
+		const weight = getOverrideWeight(
+			time.valueOf(),
+			Date.parse(override.startTime),
+			Date.parse(override.endTime),
+		);
+		if (weight > 0 && weight >= (active?.weight ?? 0)) {
+			active = { override, weight };
+		}
+	}
+
+	return active;
+}
+
 /**
  * Get the number of days remaining in a forecast from the given time.
  * Returns 0 if time is outside forecast range or before start.
@@ -78,6 +110,8 @@ export function isTimeWithinForecast(forecast: LocationForecast, time: Moment):
 
 /**
  * Compute climate from forecasts, time, and location.
+ * An override for the area replaces the forecast weather, blended in
+ * during its transition hours.
  *
  * Returns null if:
  * - No time available
@@ -89,6 +123,7 @@ export function computeClimate(
 	forecasts: Record<string, LocationForecast>,
 	time: Moment | null,
 	location: LocationState | null,
+	overrides: readonly WeatherOverride[] = [],
 ): ClimateForecast | null {
 	if (!time || !location?.area) {
 		return null;
@@ -104,14 +139,39 @@ export function computeClimate(
 		return null;
 	}
 
-	const { hourly, daily } = weather;
+	const active = findActiveWeatherOverride(overrides, location.area, time);
+	const hourly = active
+		? blendWeather(
+				weather.hourly,
+				getOverrideWeather(
+					weather.hourly,
+					active.override.condition,
+					active.override.temperature,
+				),
+				active.weight,
+			)
+		: weather.hourly;
 
 	// Calculate indoor/outdoor temperature
 	const tempResult = calculateEffectiveTemperature(hourly.temperature, location, time.hour());
 
-	// Derive condition
-	const conditionType = deriveCondition(hourly);
-	const daylight = getDaylightPhase(time.hour(), daily.sunrise, daily.sunset);
+	// Sun and moons at this time and place
+	const sky = getSkyState(
+		{
+			year: time.year(),
+			month: time.month() + 1,
+			day: time.date(),
+			hour: time.hour(),
+			minute: time.minute(),
+		},
+		getForecastLatitude(forecast),
+		forecast.astronomy,
+	);
+
+	// Derive condition (a fully applied override uses its own condition)
+	const conditionType =
+		active?.weight === 1 ? active.override.condition : deriveCondition(hourly);
+	const daylight = getDaylightPhase(sky.sunElevation, sky.sunRising);
 	const isNight = daylight === 'night' || daylight === 'dusk';
 	const conditions = describeCondition(conditionType, undefined, isNight);
 
@@ -134,6 +194,7 @@ export function computeClimate(
 		conditionType,
 		uvIndex: hourly.uvIndex,
 		daylight,
+		sky,
 		isIndoors: tempResult.isIndoors,
 		buildingType: tempResult.buildingType,
 	};
@@ -0,0 +1,288 @@
+import { describe, it, expect } from 'vitest';
+import moment from 'moment';
+import { EventStore } from './EventStore';
+import { EditHistory, applyStorePatch, diffStores } from './editHistory';
+import type { CharacterAppearedEvent } from '../types/event';
+import { createEmptySnapshot, type Snapshot } from '../types/snapshot';
+import { serializeMoment } from '../types/common';
+
+function createAppearedEvent(
+	id: string,
+	messageId: number,
+	character: string,
+	timestamp: number = messageId,
+): CharacterAppearedEvent {
+	return {
+		id,
+		source: { messageId, swipeId: 0 },
+		timestamp,
+		kind: 'character',
+		subkind: 'appeared',
+		character,
+		initialPosition: 'standing',
+	};
+}
+
+function createInitialSnapshot(messageId: number): Snapshot {
+	const snapshot = createEmptySnapshot({ messageId, swipeId: 0 });
+	snapshot.time = serializeMoment(moment({ year: 2024, month: 0, date: 15, hour: 10 }));
+	return snapshot;
+}
+
+function createStore(): EventStore {
+	const store = new EventStore();
+	store.replaceInitialSnapshot(createInitialSnapshot(1));
+	store.appendEvents([
+		createAppearedEvent('e2', 2, 'Bob'),
+		createAppearedEvent('e3', 3, 'Carol'),
+	]);
+	return store;
+}
+
+/** Edit the way V2EventEditorModal does: same event ID, old copy soft-deleted */
+function editCharacterAt(store: EventStore, messageId: number, character: string): EventStore {
+	const edited = store.getDeepClone();
+	const [event] = edited.getEventsAtMessage({ messageId, swipeId: 0 });
+	edited.replaceEventsAtMessage({ messageId, swipeId: 0 }, [
+		{ ...(event as CharacterAppearedEvent), character },
+	]);
+	return edited;
+}
+
+function activeCharacters(store: EventStore | null): string[] {
+	return (store?.getActiveEvents() ?? []).map(e => (e as CharacterAppearedEvent).character);
+}
+
+describe('diffStores', () => {
+	it('returns null for identical stores', () => {
+		const store = createStore();
+		expect(diffStores(store.serialize(), store.serialize())).toBeNull();
+	});
+
+	it('captures events changed in place and added', () => {
+		const before = createStore();
+		const after = editCharacterAt(before, 3, 'Dave');
+
+		const patch = diffStores(before.serialize(), after.serialize())!;
+
+		// Carol flipped to deleted, Dave added with the same ID
+		expect(patch.removedEvents.map(e => e.deleted ?? false)).toEqual([false]);
+		expect(patch.addedEvents).toHaveLength(2);
+		expect(patch.snapshots).toBeNull();
+	});
+
+	it('includes snapshots only when they change', () => {
+		const before = createStore();
+		const after = before.getDeepClone();
+		after.replaceInitialSnapshot(createInitialSnapshot(2));
+
+		const patch = diffStores(before.serialize(), after.serialize())!;
+		expect(patch.removedEvents).toHaveLength(0);
+		expect(patch.snapshots?.before[0].source.messageId).toBe(1);
+		expect(patch.snapshots?.after[0].source.messageId).toBe(2);
+	});
+});
+
+describe('applyStorePatch', () => {
+	it('round-trips an edit', () => {
+		const before = createStore();
+		const after = editCharacterAt(before, 3, 'Dave');
+		const patch = diffStores(before.serialize(), after.serialize())!;
+
+		const undone = applyStorePatch(after.serialize(), patch, 'undo');
+		expect(undone).toEqual(before.serialize());
+
+		const redone = applyStorePatch(undone, patch, 'redo');
+		expect(redone).toEqual(after.serialize());
+	});
+
+	it('keeps events added after the patched operation', () => {
+		const before = createStore();
+		const after = editCharacterAt(before, 2, 'Eve');
+		const patch = diffStores(before.serialize(), after.serialize())!;
+
+		after.appendEvents([createAppearedEvent('e5', 5, 'Frank')]);
+		const undone = EventStore.fromSerialized(
+			applyStorePatch(after.serialize(), patch, 'undo'),
+		);
+
+		expect(activeCharacters(undone)).toEqual(['Bob', 'Carol', 'Frank']);
+	});
+
+	it('does not mutate its input', () => {
+		const before = createStore();
+		const after = editCharacterAt(before, 3, 'Dave');
+		const patch = diffStores(before.serialize(), after.serialize())!;
+		const data = after.serialize();
+		const copy = JSON.parse(JSON.stringify(data));
+
+		applyStorePatch(data, patch, 'undo');
+		expect(data).toEqual(copy);
+	});
+});
+
+describe('EditHistory', () => {
+	it('undoes and redoes in order', () => {
+		const history = new EditHistory();
+		const s0 = createStore();
+		const s1 = editCharacterAt(s0, 2, 'Eve');
+		const s2 = editCharacterAt(s1, 3, 'Dave');
+		history.record('first', s0.serialize(), s1.serialize());
+		history.record('second', s1.serialize(), s2.serialize());
+
+		expect(history.undoLabel).toBe('second');
+		const u1 = history.undo(s2.serialize())!;
+		expect(u1.label).toBe('second');
+		expect(activeCharacters(EventStore.fromSerialized(u1.data))).toEqual([
+			'Eve',
+			'Carol',
+		]);
+
+		const u2 = history.undo(u1.data)!;
+		expect(activeCharacters(EventStore.fromSerialized(u2.data))).toEqual([
+			'Bob',
+			'Carol',
+		]);
+		expect(history.canUndo).toBe(false);
+		expect(history.undo(u2.data)).toBeNull();
+
+		expect(history.redoLabel).toBe('first');
+		const r1 = history.redo(u2.data)!;
+		expect(activeCharacters(EventStore.fromSerialized(r1.data))).toEqual([
+			'Eve',
+			'Carol',
+		]);
+		expect(history.redoLabel).toBe('second');
+	});
+
+	it('takes back an undo or redo', () => {
+		const history = new EditHistory();
+		const s0 = createStore();
+		const s1 = editCharacterAt(s0, 2, 'Eve');
+		history.record('first', s0.serialize(), s1.serialize());
+
+		history.undo(s1.serialize());
+		history.cancel('undo');
+		expect(history.undoLabel).toBe('first');
+		expect(history.canRedo).toBe(false);
+
+		const undone = history.undo(s1.serialize())!;
+		history.redo(undone.data);
+		history.cancel('redo');
+		expect(history.redoLabel).toBe('first');
+		expect(history.canUndo).toBe(false);
+	});
+
+	it('ignores operations that change nothing', () => {
+		const history = new EditHistory();
+		const store = createStore();
+		expect(history.record('noop', store.serialize(), store.serialize())).toBe(false);
+		expect(history.canUndo).toBe(false);
+	});
+
+	it('clears redo when a new operation is recorded', () => {
+		const history = new EditHistory();
+		const s0 = createStore();
+		const s1 = editCharacterAt(s0, 2, 'Eve');
+		history.record('first', s0.serialize(), s1.serialize());
+		const undone = history.undo(s1.serialize())!;
+
+		history.record('other', undone.data, editCharacterAt(s0, 3, 'Dave').serialize());
+		expect(history.canRedo).toBe(false);
+	});
+
+	it('drops the oldest entries beyond the cap', () => {
+		const history = new EditHistory(2);
+		let store = createStore();
+		for (const name of ['A', 'B', 'C']) {
+			const next = editCharacterAt(store, 2, name);
+			history.record(`rename ${name}`, store.serialize(), next.serialize());
+			store = next;
+		}
+
+		history.undo(store.serialize());
+		const last = history.undo(store.serialize());
+		expect(last?.label).toBe('rename B');
+		expect(history.canUndo).toBe(false);
+	});
+
+	it('drops the oldest entries beyond the size cap', () => {
+		const s0 = createStore();
+		const probe = new EditHistory();
+		probe.record('rename A', s0.serialize(), editCharacterAt(s0, 2, 'A').serialize());
+		const entrySize = JSON.stringify(probe.serialize().undo[0]).length;
+
+		const history = new EditHistory(30, entrySize * 2.5);
+		let store = s0;
+		for (const name of ['A', 'B', 'C']) {
+			const next = editCharacterAt(store, 2, name);
+			history.record(`rename ${name}`, store.serialize(), next.serialize());
+			store = next;
+		}
+
+		expect(history.serialize().undo.map(entry => entry.label)).toEqual([
+			'rename B',
+			'rename C',
+		]);
+
+		const tooLarge = new EditHistory(30, entrySize / 2);
+		tooLarge.record(
+			'rename A',
+			s0.serialize(),
+			editCharacterAt(s0, 2, 'A').serialize(),
+		);
+		expect(tooLarge.canUndo).toBe(false);
+	});
+
+	it('applies the size cap to loaded histories', () => {
+		const history = new EditHistory();
+		let store = createStore();
+		for (const name of ['A', 'B', 'C']) {
+			const next = editCharacterAt(store, 2, name);
+			history.record(`rename ${name}`, store.serialize(), next.serialize());
+			store = next;
+		}
+		const data = history.serialize();
+		const entrySize = JSON.stringify(data.undo[0]).length;
+
+		const restored = EditHistory.fromSerialized(data, 30, entrySize * 1.5);
+		expect(restored.serialize().undo.map(entry => entry.label)).toEqual(['rename C']);
+	});
+
+	it('drops redo entries before undo entries beyond the size cap', () => {
+		const history = new EditHistory();
+		let store = createStore();
+		for (const name of ['A', 'B', 'C', 'D']) {
+			const next = editCharacterAt(store, 2, name);
+			history.record(`rename ${name}`, store.serialize(), next.serialize());
+			store = next;
+		}
+		const undone = history.undo(store.serialize())!;
+		history.undo(undone.data);
+		const data = history.serialize();
+		const entrySize = JSON.stringify(data.undo[0]).length;
+
+		const restored = EditHistory.fromSerialized(data, 30, entrySize * 3.5);
+		const trimmed = restored.serialize();
+		expect(trimmed.undo.map(entry => entry.label)).toEqual(['rename A', 'rename B']);
+		expect(trimmed.redo.map(entry => entry.label)).toEqual(['rename C']);
+	});
+
+	it('survives serialization', () => {
+		const history = new EditHistory();
+		const s0 = createStore();
+		const s1 = editCharacterAt(s0, 2, 'Eve');
+		history.record('first', s0.serialize(), s1.serialize());
+
+		const restored = EditHistory.fromSerialized(
+			JSON.parse(JSON.stringify(history.serialize())),
+		);
+		expect(restored.undoLabel).toBe('first');
+		expect(restored.undo(s1.serialize())!.data).toEqual(s0.serialize());
+	});
+
+	it('yields an empty history for invalid data', () => {
+		expect(EditHistory.fromSerialized(null).canUndo).toBe(false);
+		expect(EditHistory.fromSerialized({ undo: [{ nope: true }] }).canUndo).toBe(false);
+	});
+});
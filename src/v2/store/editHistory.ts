@@ -0,0 +1,322 @@
+/**
+ * V2 Edit History
+ *
+ * Bounded undo/redo stack for manual EventStore changes.
+ *
+ * Entries store a patch rather than a full copy of the store: the events that
+ * an operation removed or added (matched by content, since editors keep event
+ * IDs when they replace events) and, only if snapshots changed, the snapshot
+ * lists before and after. Patches are applied by content, so events appended
+ * by later extractions are left alone when an older edit is undone.
+ */
+
+import type { Event } from '../types/event';
+import type { Snapshot } from '../types/snapshot';
+import type { SerializedEventStore } from './serialization';
+import { sortEvents } from './projection';
+
+/**
+ * Default number of undo steps kept per chat.
+ */
+export const MAX_EDIT_HISTORY = 30;
+
+/**
+ * Default size limit of the history, in characters of JSON. The history is
+ * saved in chat metadata, and entries that change snapshots can be large.
+ */
+export const MAX_EDIT_HISTORY_SIZE = 1_000_000;
+
+/**
+ * Difference between two serialized stores.
+ */
+export interface StorePatch {
+	/** Events present before the operation but not after */
+	removedEvents: Event[];
+	/** Events present after the operation but not before */
+	addedEvents: Event[];
+	/** Full snapshot lists, present only if the operation changed snapshots */
+	snapshots: { before: Snapshot[]; after: Snapshot[] } | null;
+}
+
+/**
+ * One undoable operation.
+ */
+export interface EditHistoryEntry {
+	/** Short description shown in buttons and toasts (e.g. "Edit events at message 12") */
+	label: string;
+	/** Real-world timestamp when the operation was recorded */
+	timestamp: number;
+	patch: StorePatch;
+}
+
+/**
+ * Edit history format for chat metadata storage.
+ */
+export interface SerializedEditHistory {
+	undo: EditHistoryEntry[];
+	redo: EditHistoryEntry[];
+}
+
+function getEntrySize(entry: EditHistoryEntry): number {
+	return JSON.stringify(entry).length;
+}
+
+function countByKey(items: readonly unknown[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const item of items) {
+		const key = JSON.stringify(item);
+		counts.set(key, (counts.get(key) ?? 0) + 1);
+	}
+	return counts;
+}
+
+/**
+ * Items of `items` not matched by an equal item in `others` (multiset difference).
+ */
+function subtractByContent<T>(items: readonly T[], others: readonly T[]): T[] {
+	const remaining = countByKey(others);
+	const result: T[] = [];
+	for (const item of items) {
+		const key = JSON.stringify(item);
+		const count = remaining.get(key) ?? 0;
+		if (count > 0) {
+			remaining.set(key, count - 1);
+		} else {
+			result.push(item);
+		}
+	}
+	return result;
+}
+
+/**
+ * Compute the patch that turns `before` into `after`.
+ *
+ * @returns null if the stores hold the same events and snapshots
+ */
+export function diffStores(
+	before: SerializedEventStore,
+	after: SerializedEventStore,
+): StorePatch | null {
+	const removedEvents = subtractByContent(before.events, after.events);
+	const addedEvents = subtractByContent(after.events, before.events);
+	const snapshotsChanged =
+		JSON.stringify(before.snapshots) !== JSON.stringify(after.snapshots);
+
+	if (removedEvents.length === 0 && addedEvents.length === 0 && !snapshotsChanged) {
+		return null;
+	}
+
+	return JSON.parse(
+		JSON.stringify({
+			removedEvents,
+			addedEvents,
+			snapshots: snapshotsChanged
+				? { before: before.snapshots, after: after.snapshots }
+				: null,
+		}),
+	) as StorePatch;
+}
+
+/**
+ * Apply a patch to serialized store data.
+ * Events the patch expects to remove but that are no longer present are skipped.
+ * The input is never mutated.
+ *
+ * @param direction - 'redo' applies the patch, 'undo' reverts it
+ */
+export function applyStorePatch(
+	data: SerializedEventStore,
+	patch: StorePatch,
+	direction: 'undo' | 'redo',
+): SerializedEventStore {
+	const toRemove = direction === 'undo' ? patch.addedEvents : patch.removedEvents;
+	const toAdd = direction === 'undo' ? patch.removedEvents : patch.addedEvents;
+
+	const clone = JSON.parse(JSON.stringify(data)) as SerializedEventStore;
+	const events = subtractByContent(clone.events, toRemove);
+	events.push(...(JSON.parse(JSON.stringify(toAdd)) as Event[]));
+	clone.events = sortEvents(events);
+
+	if (patch.snapshots) {
+		clone.snapshots = JSON.parse(
+			JSON.stringify(
+				direction === 'undo'
+					? patch.snapshots.before
+					: patch.snapshots.after,
+			),
+		) as Snapshot[];
+	}
+
+	return clone;
+}
+
+/**
+ * EditHistory - undo/redo stacks of store patches.
+ *
+ * The history does not own a store: callers pass the current serialized store
+ * in and load the returned data themselves.
+ */
+export class EditHistory {
+	private _undo: EditHistoryEntry[] = [];
+	private _redo: EditHistoryEntry[] = [];
+
+	constructor(
+		private readonly maxEntries: number = MAX_EDIT_HISTORY,
+		private readonly maxSize: number = MAX_EDIT_HISTORY_SIZE,
+	) {}
+
+	get canUndo(): boolean {
+		return this._undo.length > 0;
+	}
+
+	get canRedo(): boolean {
+		return this._redo.length > 0;
+	}
+
+	/**
+	 * Label of the operation the next undo reverts, or null.
+	 */
+	get undoLabel(): string | null {
+		return this._undo[this._undo.length - 1]?.label ?? null;
+	}
+
+	/**
+	 * Label of the operation the next redo reapplies, or null.
+	 */
+	get redoLabel(): string | null {
+		return this._redo[this._redo.length - 1]?.label ?? null;
+	}
+
+	/**
+	 * Record an operation. Clears the redo stack and drops the oldest entries
+	 * beyond the entry and size caps (including this one, if it's larger than
+	 * the size cap on its own).
+	 *
+	 * @returns false if the operation changed nothing (nothing is recorded)
+	 */
+	record(label: string, before: SerializedEventStore, after: SerializedEventStore): boolean {
+		const patch = diffStores(before, after);
+		if (!patch) {
+			return false;
+		}
+
+		this._undo.push({ label, timestamp: Date.now(), patch });
+		if (this._undo.length > this.maxEntries) {
+			this._undo.splice(0, this._undo.length - this.maxEntries);
+		}
+		this._redo = [];
+		this.trimToSize();
+		return true;
+	}
+
+	/**
+	 * Drop entries until the history fits the size cap: redo entries from the
+	 * far end first, then the oldest undo entries.
+	 */
+	private trimToSize(): void {
+		let size = [...this._undo, ...this._redo].reduce(
+			(total, entry) => total + getEntrySize(entry),
+			0,
+		);
+		while (size > this.maxSize && this._redo.length > 0) {
+			size -= getEntrySize(this._redo.shift()!);
+		}
+		while (size > this.maxSize && this._undo.length > 0) {
+			size -= getEntrySize(this._undo.shift()!);
+		}
+	}
+
+	/**
+	 * Revert the latest operation.
+	 *
+	 * @param current - The store as it is now
+	 * @returns The reverted store data and the operation's label, or null if there is nothing to undo
+	 */
+	undo(current: SerializedEventStore): { data: SerializedEventStore; label: string } | null {
+		const entry = this._undo.pop();
+		if (!entry) {
+			return null;
+		}
+		this._redo.push(entry);
+		return { data: applyStorePatch(current, entry.patch, 'undo'), label: entry.label };
+	}
+
+	/**
+	 * Reapply the latest undone operation.
+	 *
+	 * @param current - The store as it is now
+	 * @returns The updated store data and the operation's label, or null if there is nothing to redo
+	 */
+	redo(current: SerializedEventStore): { data: SerializedEventStore; label: string } | null {
+		const entry = this._redo.pop();
+		if (!entry) {
+			return null;
+		}
+		this._undo.push(entry);
+		return { data: applyStorePatch(current, entry.patch, 'redo'), label: entry.label };
+	}
+
+	/**
+	 * Take back the latest undo or redo, when its result couldn't be used:
+	 * the entry moves back to the stack it came from.
+	 *
+	 * @param direction - The step to take back
+	 */
+	cancel(direction: 'undo' | 'redo'): void {
+		const [from, to] =
+			direction === 'undo' ? [this._redo, this._undo] : [this._undo, this._redo];
+		const entry = from.pop();
+		if (entry) {
+			to.push(entry);
+		}
+	}
+
+	/**
+	 * Forget all entries.
+	 */
+	clear(): void {
+		this._undo = [];
+		this._redo = [];
+	}
+
+	/**
+	 * Serialize for chat metadata storage.
+	 */
+	serialize(): SerializedEditHistory {
+		return JSON.parse(
+			JSON.stringify({ undo: this._undo, redo: this._redo }),
+		) as SerializedEditHistory;
+	}
+
+	/**
+	 * Create a history from serialized data. Invalid data yields an empty history.
+	 */
+	static fromSerialized(
+		data: unknown,
+		maxEntries: number = MAX_EDIT_HISTORY,
+		maxSize: number = MAX_EDIT_HISTORY_SIZE,
+	): EditHistory {
+		const history = new EditHistory(maxEntries, maxSize);
+		if (!data || typeof data !== 'object') {
+			return history;
+		}
+
+		const obj = data as Record<string, unknown>;
+		const isEntry = (e: unknown): e is EditHistoryEntry =>
+			!!e &&
+			typeof e === 'object' &&
+			typeof (e as EditHistoryEntry).label === 'string' &&
+			!!(e as EditHistoryEntry).patch &&
+			Array.isArray((e as EditHistoryEntry).patch.removedEvents) &&
+			Array.isArray((e as EditHistoryEntry).patch.addedEvents);
+
+		if (Array.isArray(obj.undo)) {
+			history._undo = obj.undo.filter(isEntry).slice(-maxEntries);
+		}
+		if (Array.isArray(obj.redo)) {
+			history._redo = obj.redo.filter(isEntry);
+		}
+		history.trimToSize();
+		return history;
+	}
+}
@@ -21,6 +21,7 @@ import type {
 	TensionEvent,
 	ChapterEndedEvent,
 	CharacterAkasAddEvent,
+	WeatherOverrideEvent,
 } from '../types/event';
 import type { Projection } from '../types/snapshot';
 import { createEmptySnapshot, createProjectionFromSnapshot } from '../types/snapshot';
@@ -977,6 +978,44 @@ describe('applyEventToProjection', () => {
 		});
 	});
 
+	describe('weather override events', () => {
+		it('adds the override in order', () => {
+			const projection = createTestProjection();
+			const event: WeatherOverrideEvent = {
+				...createBaseEvent(),
+				kind: 'weather_override',
+				areaName: 'Harbor',
+				startTime: '2024-01-05T12:00:00.000Z',
+				endTime: '2024-01-05T18:00:00.000Z',
+				condition: 'foggy',
+			};
+
+			applyEventToProjection(projection, event);
+			applyEventToProjection(projection, {
+				...event,
+				id: 'second',
+				condition: 'snow',
+				temperature: 20,
+			});
+
+			expect(projection.weatherOverrides).toEqual([
+				{
+					areaName: 'Harbor',
+					startTime: '2024-01-05T12:00:00.000Z',
+					endTime: '2024-01-05T18:00:00.000Z',
+					condition: 'foggy',
+				},
+				{
+					areaName: 'Harbor',
+					startTime: '2024-01-05T12:00:00.000Z',
+					endTime: '2024-01-05T18:00:00.000Z',
+					condition: 'snow',
+					temperature: 20,
+				},
+			]);
+		});
+	});
+
 	describe('unknown events', () => {
 		it('does not crash on unknown event kinds', () => {
 			const projection = createTestProjection();
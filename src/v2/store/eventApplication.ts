@@ -19,6 +19,7 @@ import type {
 	LocationPropAddedEvent,
 	LocationPropRemovedEvent,
 	ForecastGeneratedEvent,
+	WeatherOverrideEvent,
 	CharacterAppearedEvent,
 	CharacterDepartedEvent,
 	CharacterProfileSetEvent,
@@ -48,6 +49,7 @@ import {
 	isLocationPropAddedEvent,
 	isLocationPropRemovedEvent,
 	isForecastGeneratedEvent,
+	isWeatherOverrideEvent,
 	isCharacterAppearedEvent,
 	isCharacterDepartedEvent,
 	isCharacterProfileSetEvent,
@@ -118,6 +120,10 @@ export function applyEventToProjection(projection: Projection, event: Event): vo
 		applyForecastGenerated(projection, event);
 		return;
 	}
+	if (isWeatherOverrideEvent(event)) {
+		applyWeatherOverride(projection, event);
+		return;
+	}
 
 	// Character events
 	if (isCharacterAppearedEvent(event)) {
@@ -299,6 +305,20 @@ function applyForecastGenerated(projection: Projection, event: ForecastGenerated
 	projection.forecasts[event.areaName] = event.forecast;
 }
 
+/**
+ * Apply a weather override event.
+ * Overrides are kept in order, so a later override wins where two overlap.
+ */
+function applyWeatherOverride(projection: Projection, event: WeatherOverrideEvent): void {
+	projection.weatherOverrides.push({
+		areaName: event.areaName,
+		startTime: event.startTime,
+		endTime: event.endTime,
+		condition: event.condition,
+		...(event.temperature !== undefined && { temperature: event.temperature }),
+	});
+}
+
 // ============================================
 // Character Event Application
 // ============================================
@@ -0,0 +1,261 @@
+import { describe, it, expect } from 'vitest';
+import moment from 'moment';
+import { EventStore } from './EventStore';
+import {
+	BUNDLE_FORMAT,
+	buildMessageIdMap,
+	createEventStoreBundle,
+	fingerprintChat,
+	findLastSharedMessageId,
+	hashString,
+	importEventStoreBundle,
+	validateEventStoreBundle,
+	type FingerprintableMessage,
+} from './exportBundle';
+import { STORE_VERSION } from './serialization';
+import type { CharacterAppearedEvent } from '../types/event';
+import { createEmptySnapshot, type Snapshot } from '../types/snapshot';
+import { serializeMoment } from '../types/common';
+
+function createChat(texts: string[]): FingerprintableMessage[] {
+	return texts.map((mes, i) => ({
+		mes,
+		is_user: i % 2 === 1,
+		name: i % 2 === 1 ? 'User' : 'Alice',
+	}));
+}
+
+function createAppearedEvent(
+	id: string,
+	messageId: number,
+	character: string,
+): CharacterAppearedEvent {
+	return {
+		id,
+		source: { messageId, swipeId: 0 },
+		timestamp: Date.now(),
+		kind: 'character',
+		subkind: 'appeared',
+		character,
+		initialPosition: 'standing',
+	};
+}
+
+function createInitialSnapshot(messageId: number): Snapshot {
+	const snapshot = createEmptySnapshot({ messageId, swipeId: 0 });
+	snapshot.time = serializeMoment(moment({ year: 2024, month: 0, date: 15, hour: 10 }));
+	return snapshot;
+}
+
+function createStore(): EventStore {
+	const store = new EventStore();
+	store.replaceInitialSnapshot(createInitialSnapshot(1));
+	store.appendEvents([
+		createAppearedEvent('e2', 2, 'Bob'),
+		createAppearedEvent('e3', 3, 'Carol'),
+		createAppearedEvent('e4', 4, 'Dave'),
+	]);
+	return store;
+}
+
+const SOURCE_CHAT = createChat(['Greeting', 'Hi', 'Bob walks in', 'Hey Bob', 'Carol too']);
+
+describe('hashString', () => {
+	it('is deterministic', () => {
+		expect(hashString('hello')).toBe(hashString('hello'));
+	});
+
+	it('differs for different input', () => {
+		expect(hashString('hello')).not.toBe(hashString('hellp'));
+	});
+
+	it('returns 8 hex characters', () => {
+		expect(hashString('')).toMatch(/^[0-9a-f]{8}$/);
+	});
+});
+
+describe('fingerprintChat', () => {
+	it('creates one fingerprint per message', () => {
+		const fp = fingerprintChat(SOURCE_CHAT);
+		expect(fp).toHaveLength(5);
+		expect(fp[1]).toMatchObject({ messageId: 1, isUser: true });
+	});
+
+	it('ignores surrounding whitespace', () => {
+		const a = fingerprintChat([{ mes: 'text', is_user: false }]);
+		const b = fingerprintChat([{ mes: '  text\n', is_user: false }]);
+		expect(a[0].hash).toBe(b[0].hash);
+	});
+});
+
+describe('createEventStoreBundle', () => {
+	it('writes a self-describing bundle', () => {
+		const bundle = createEventStoreBundle(createStore(), SOURCE_CHAT, 'chat-1');
+
+		expect(bundle.format).toBe(BUNDLE_FORMAT);
+		expect(bundle.version).toBe(STORE_VERSION);
+		expect(bundle.sourceChatId).toBe('chat-1');
+		expect(bundle.fingerprint).toHaveLength(5);
+		expect(bundle.snapshots).toHaveLength(1);
+		expect(bundle.events).toHaveLength(3);
+	});
+
+	it('deep clones events', () => {
+		const store = createStore();
+		const bundle = createEventStoreBundle(store, SOURCE_CHAT, null);
+		bundle.events[0].source.messageId = 99;
+		expect(store.events[0].source.messageId).toBe(2);
+	});
+});
+
+describe('validateEventStoreBundle', () => {
+	it('accepts a valid bundle', () => {
+		const bundle = createEventStoreBundle(createStore(), SOURCE_CHAT, null);
+		const result = validateEventStoreBundle(JSON.parse(JSON.stringify(bundle)));
+		expect(result.error).toBeUndefined();
+		expect(result.bundle).toBeDefined();
+	});
+
+	it('rejects non-objects', () => {
+		expect(validateEventStoreBundle(null).error).toBeDefined();
+		expect(validateEventStoreBundle('text').error).toBeDefined();
+	});
+
+	it('rejects data without the format marker', () => {
+		const bundle = createEventStoreBundle(createStore(), SOURCE_CHAT, null);
+		const result = validateEventStoreBundle({ ...bundle, format: 'other' });
+		expect(result.error).toContain('Not a BlazeTracker');
+	});
+
+	it('rejects bundles from a newer version', () => {
+		const bundle = createEventStoreBundle(createStore(), SOURCE_CHAT, null);
+		const result = validateEventStoreBundle({ ...bundle, version: STORE_VERSION + 1 });
+		expect(result.error).toContain('newer');
+	});
+
+	it('rejects invalid events', () => {
+		const bundle = createEventStoreBundle(createStore(), SOURCE_CHAT, null);
+		const result = validateEventStoreBundle({ ...bundle, events: [{ id: 1 }] });
+		expect(result.error).toContain('invalid events');
+	});
+
+	it('rejects bundles without an initial snapshot', () => {
+		const bundle = createEventStoreBundle(createStore(), SOURCE_CHAT, null);
+		const result = validateEventStoreBundle({ ...bundle, snapshots: [] });
+		expect(result.error).toContain('initial snapshot');
+	});
+});
+
+describe('buildMessageIdMap', () => {
+	it('maps identical chats to the identity', () => {
+		const fp = fingerprintChat(SOURCE_CHAT);
+		const map = buildMessageIdMap(fp, fp);
+		expect([...map.entries()]).toEqual([
+			[0, 0],
+			[1, 1],
+			[2, 2],
+			[3, 3],
+			[4, 4],
+		]);
+	});
+
+	it('shifts IDs when messages were inserted', () => {
+		const target = createChat(['Greeting', 'Hi', 'Extra', 'Extra reply']);
+		target.push(
+			...SOURCE_CHAT.slice(2).map((m, i) => ({ ...m, is_user: i % 2 === 1 })),
+		);
+		const map = buildMessageIdMap(
+			fingerprintChat(SOURCE_CHAT),
+			fingerprintChat(target),
+		);
+		expect(map.get(1)).toBe(1);
+		expect(map.get(2)).toBe(4);
+		expect(map.get(4)).toBe(6);
+	});
+
+	it('leaves unmatched messages out', () => {
+		const target = createChat(['Greeting', 'Hi', 'Bob walks in']);
+		const map = buildMessageIdMap(
+			fingerprintChat(SOURCE_CHAT),
+			fingerprintChat(target),
+		);
+		expect(map.has(3)).toBe(false);
+		expect(map.has(4)).toBe(false);
+	});
+});
+
+describe('findLastSharedMessageId', () => {
+	const hashes = (chat: FingerprintableMessage[]) => fingerprintChat(chat).map(fp => fp.hash);
+
+	it('finds the last message of an untouched branch', () => {
+		const branch = SOURCE_CHAT.slice(0, 3);
+		expect(findLastSharedMessageId(hashes(SOURCE_CHAT), hashes(branch))).toBe(2);
+	});
+
+	it('ignores messages added to the branch later', () => {
+		const branch = [
+			...SOURCE_CHAT.slice(0, 3),
+			...createChat(['Something else', 'Oh']),
+		];
+		expect(findLastSharedMessageId(hashes(SOURCE_CHAT), hashes(branch))).toBe(2);
+	});
+
+	it('stops at the end of the source', () => {
+		const branch = [...SOURCE_CHAT, ...createChat(['Later'])];
+		expect(findLastSharedMessageId(hashes(SOURCE_CHAT), hashes(branch))).toBe(4);
+	});
+
+	it('returns -1 when the first messages differ', () => {
+		expect(
+			findLastSharedMessageId(hashes(SOURCE_CHAT), hashes(createChat(['Other']))),
+		).toBe(-1);
+	});
+});
+
+describe('importEventStoreBundle', () => {
+	it('imports without remapping into an identical chat', () => {
+		const bundle = createEventStoreBundle(createStore(), SOURCE_CHAT, null);
+		const { result } = importEventStoreBundle(bundle, SOURCE_CHAT);
+
+		expect(result).toBeDefined();
+		expect(result!.remapped).toBe(false);
+		expect(result!.droppedEvents).toBe(0);
+		expect(result!.store.activeEventCount).toBe(3);
+	});
+
+	it('remaps sources when message IDs differ', () => {
+		const bundle = createEventStoreBundle(createStore(), SOURCE_CHAT, null);
+		const target: FingerprintableMessage[] = [
+			{ mes: 'Note', is_user: false, name: 'System' },
+			...SOURCE_CHAT,
+		];
+		const { result } = importEventStoreBundle(bundle, target);
+
+		expect(result!.remapped).toBe(true);
+		expect(result!.store.initialSnapshotMessageId).toBe(2);
+		expect(result!.store.events.map(e => e.source.messageId)).toEqual([3, 4, 5]);
+	});
+
+	it('drops events whose message is missing', () => {
+		const bundle = createEventStoreBundle(createStore(), SOURCE_CHAT, null);
+		const { result } = importEventStoreBundle(bundle, SOURCE_CHAT.slice(0, 3));
+
+		expect(result!.droppedEvents).toBe(2);
+		expect(result!.store.activeEventCount).toBe(1);
+	});
+
+	it('fails when the initial snapshot message is missing', () => {
+		const bundle = createEventStoreBundle(createStore(), SOURCE_CHAT, null);
+		const { error } = importEventStoreBundle(bundle, createChat(['Other', 'Chat']));
+		expect(error).toContain('initial snapshot');
+	});
+
+	it('does not mutate the bundle', () => {
+		const bundle = createEventStoreBundle(createStore(), SOURCE_CHAT, null);
+		importEventStoreBundle(bundle, [
+			{ mes: 'Note', is_user: false, name: 'System' },
+			...SOURCE_CHAT,
+		]);
+		expect(bundle.events[0].source.messageId).toBe(2);
+	});
+});
@@ -0,0 +1,288 @@
+/**
+ * V2 Export Bundle
+ *
+ * Portable, self-describing export format for moving an EventStore between chats.
+ * The bundle carries a fingerprint of the source chat's messages so that event
+ * sources can be remapped when the target chat's message IDs don't line up.
+ */
+
+import type { Event } from '../types/event';
+import type { Snapshot } from '../types/snapshot';
+import type { MessageAndSwipe } from '../types/common';
+import { EventStore } from './EventStore';
+import {
+	STORE_VERSION,
+	serializeSnapshots,
+	serializeEvents,
+	isValidEvent,
+	isValidSnapshot,
+} from './serialization';
+
+/**
+ * Format identifier written into every bundle.
+ */
+export const BUNDLE_FORMAT = 'blazetracker-event-store';
+
+/**
+ * Fingerprint of a single chat message.
+ * Only a hash of the content is stored, never the message text itself.
+ */
+export interface MessageFingerprint {
+	messageId: number;
+	isUser: boolean;
+	/** Hash of the speaker name and message text */
+	hash: string;
+}
+
+/**
+ * Exported event store bundle.
+ */
+export interface EventStoreBundle {
+	format: typeof BUNDLE_FORMAT;
+	/** Store version of the snapshots and events in this bundle */
+	version: number;
+	/** Real-world timestamp when the bundle was created */
+	exportedAt: number;
+	/** ST chat ID the bundle was exported from (null if unknown) */
+	sourceChatId: string | null;
+	/** Fingerprint of every message in the source chat */
+	fingerprint: MessageFingerprint[];
+	snapshots: Snapshot[];
+	events: Event[];
+}
+
+/**
+ * Minimal chat message shape needed for fingerprinting.
+ */
+export interface FingerprintableMessage {
+	mes: string;
+	is_user: boolean;
+	name?: string;
+}
+
+/**
+ * Result of importing a bundle into a chat.
+ */
+export interface BundleImportResult {
+	store: EventStore;
+	/** True if any message IDs were changed during import */
+	remapped: boolean;
+	/** Number of events dropped because their message has no match in the target chat */
+	droppedEvents: number;
+	/** Number of chapter snapshots dropped for the same reason */
+	droppedSnapshots: number;
+}
+
+/**
+ * Hash a string with 32-bit FNV-1a.
+ * Not cryptographic - only used to detect matching messages.
+ */
+export function hashString(value: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Build a fingerprint for every message in a chat.
+ */
+export function fingerprintChat(chat: readonly FingerprintableMessage[]): MessageFingerprint[] {
+	return chat.map((msg, messageId) => ({
+		messageId,
+		isUser: msg.is_user,
+		hash: hashString(`${msg.name ?? ''}\u0000${(msg.mes ?? '').trim()}`),
+	}));
+}
+
+/**
+ * Create an export bundle from an event store.
+ * Snapshots and events are deep cloned.
+ */
+export function createEventStoreBundle(
+	store: EventStore,
+	chat: readonly FingerprintableMessage[],
+	sourceChatId: string | null,
+): EventStoreBundle {
+	return {
+		format: BUNDLE_FORMAT,
+		version: STORE_VERSION,
+		exportedAt: Date.now(),
+		sourceChatId,
+		fingerprint: fingerprintChat(chat),
+		snapshots: serializeSnapshots(store.snapshots),
+		events: serializeEvents(store.events),
+	};
+}
+
+/**
+ * Validate unknown data as an export bundle.
+ * Returns an error message describing the first problem found, or the typed bundle.
+ */
+export function validateEventStoreBundle(
+	data: unknown,
+): { bundle: EventStoreBundle; error?: never } | { bundle?: never; error: string } {
+	if (!data || typeof data !== 'object') {
+		return { error: 'Bundle is not a JSON object' };
+	}
+
+	const obj = data as Record<string, unknown>;
+
+	if (obj.format !== BUNDLE_FORMAT) {
+		return { error: 'Not a BlazeTracker event store export' };
+	}
+	if (typeof obj.version !== 'number') {
+		return { error: 'Bundle is missing a version' };
+	}
+	if (obj.version > STORE_VERSION) {
+		return {
+			error: `Bundle version ${obj.version} is newer than supported version ${STORE_VERSION}`,
+		};
+	}
+	if (!Array.isArray(obj.fingerprint)) {
+		return { error: 'Bundle is missing the message fingerprint' };
+	}
+	if (!Array.isArray(obj.snapshots) || !obj.snapshots.every(isValidSnapshot)) {
+		return { error: 'Bundle contains invalid snapshots' };
+	}
+	if (!Array.isArray(obj.events) || !obj.events.every(isValidEvent)) {
+		return { error: 'Bundle contains invalid events' };
+	}
+	if (!obj.snapshots.some(s => (s as Snapshot).type === 'initial')) {
+		return { error: 'Bundle has no initial snapshot' };
+	}
+
+	return { bundle: data as EventStoreBundle };
+}
+
+/**
+ * Build a mapping from source message IDs to target message IDs.
+ *
+ * Messages are matched in order by hash: each source message maps to the next
+ * unmatched target message with the same hash. Source messages with no match are
+ * left out of the map.
+ */
+export function buildMessageIdMap(
+	source: readonly MessageFingerprint[],
+	target: readonly MessageFingerprint[],
+): Map<number, number> {
+	const map = new Map<number, number>();
+	let nextTarget = 0;
+
+	for (const fp of source) {
+		for (let j = nextTarget; j < target.length; j++) {
+			if (target[j].hash === fp.hash && target[j].isUser === fp.isUser) {
+				map.set(fp.messageId, target[j].messageId);
+				nextTarget = j + 1;
+				break;
+			}
+		}
+	}
+
+	return map;
+}
+
+/**
+ * Find the last message two chats have in common, comparing message hashes
+ * from the start. Used to find where a branch split off from its parent.
+ *
+ * @returns The ID of the last shared message, or -1 if the first messages differ
+ */
+export function findLastSharedMessageId(
+	source: readonly string[],
+	target: readonly string[],
+): number {
+	let shared = 0;
+	while (
+		shared < source.length &&
+		shared < target.length &&
+		source[shared] === target[shared]
+	) {
+		shared++;
+	}
+	return shared - 1;
+}
+
+/**
+ * Check whether a message ID map is the identity for every mapped message.
+ */
+function isIdentityMap(map: Map<number, number>, sourceCount: number): boolean {
+	if (map.size !== sourceCount) return false;
+	for (const [from, to] of map) {
+		if (from !== to) return false;
+	}
+	return true;
+}
+
+function remapSource(source: MessageAndSwipe, map: Map<number, number>): MessageAndSwipe | null {
+	const messageId = map.get(source.messageId);
+	if (messageId === undefined) return null;
+	return { messageId, swipeId: source.swipeId };
+}
+
+/**
+ * Import a validated bundle into a chat, remapping message IDs where needed.
+ *
+ * @param bundle - A bundle that passed validateEventStoreBundle
+ * @param chat - Messages of the chat being imported into
+ * @returns The new store, or an error if the initial snapshot's message is missing
+ */
+export function importEventStoreBundle(
+	bundle: EventStoreBundle,
+	chat: readonly FingerprintableMessage[],
+): { result: BundleImportResult; error?: never } | { result?: never; error: string } {
+	const targetFingerprint = fingerprintChat(chat);
+	const map = buildMessageIdMap(bundle.fingerprint, targetFingerprint);
+	const remapped = !isIdentityMap(map, bundle.fingerprint.length);
+
+	const snapshots: Snapshot[] = [];
+	let droppedSnapshots = 0;
+	for (const snapshot of serializeSnapshots(bundle.snapshots)) {
+		const source = remapSource(snapshot.source, map);
+		if (!source) {
+			if (snapshot.type === 'initial') {
+				return {
+					error: `Message ${snapshot.source.messageId} of the initial snapshot has no match in this chat`,
+				};
+			}
+			droppedSnapshots++;
+			continue;
+		}
+		snapshot.source = source;
+		if (snapshot.chapterTriggerMessage) {
+			const trigger = remapSource(snapshot.chapterTriggerMessage, map);
+			if (!trigger) {
+				droppedSnapshots++;
+				continue;
+			}
+			snapshot.chapterTriggerMessage = trigger;
+		}
+		// Narrative history without a matching message can't be linked back to the chat
+		snapshot.narrativeEvents = (snapshot.narrativeEvents || []).flatMap(ne => {
+			const neSource = remapSource(ne.source, map);
+			return neSource ? [{ ...ne, source: neSource }] : [];
+		});
+		snapshots.push(snapshot);
+	}
+
+	const events: Event[] = [];
+	let droppedEvents = 0;
+	for (const event of serializeEvents(bundle.events)) {
+		const source = remapSource(event.source, map);
+		if (!source) {
+			droppedEvents++;
+			continue;
+		}
+		event.source = source;
+		events.push(event);
+	}
+
+	const store = EventStore.fromSerialized({ version: bundle.version, snapshots, events });
+	if (!store) {
+		return { error: 'Failed to build event store from bundle' };
+	}
+
+	return { result: { store, remapped, droppedEvents, droppedSnapshots } };
+}
@@ -25,7 +25,7 @@ export {
 } from './projection';
 
 // Serialization
-export type { SerializedEventStore } from './serialization';
+export type { SerializedEventStore, BranchPoint } from './serialization';
 export {
 	STORE_VERSION,
 	serializeSnapshots,
@@ -36,3 +36,35 @@ export {
 	isValidSnapshot,
 	generateEventId,
 } from './serialization';
+
+// Export bundles
+export type {
+	EventStoreBundle,
+	MessageFingerprint,
+	FingerprintableMessage,
+	BundleImportResult,
+} from './exportBundle';
+export {
+	BUNDLE_FORMAT,
+	hashString,
+	fingerprintChat,
+	createEventStoreBundle,
+	validateEventStoreBundle,
+	buildMessageIdMap,
+	findLastSharedMessageId,
+	importEventStoreBundle,
+} from './exportBundle';
+
+// Edit history
+export type { StorePatch, EditHistoryEntry, SerializedEditHistory } from './editHistory';
+export {
+	MAX_EDIT_HISTORY,
+	MAX_EDIT_HISTORY_SIZE,
+	EditHistory,
+	diffStores,
+	applyStorePatch,
+} from './editHistory';
+
+// State diff
+export type { DiffEntityType, StateChange, EntityDiff, ProjectionDiff } from './projectionDiff';
+export { diffProjections, diffStateBetweenMessages, countDiffChanges } from './projectionDiff';
@@ -333,13 +333,14 @@ export function projectFromSnapshot(
 		});
 	}
 
-	// Compute climate from forecasts + time + location
+	// Compute climate from forecasts + time + location (+ weather overrides)
 	// Climate is a derived value, not stored as an event
 	// If computeClimate returns null (no forecasts), preserve the snapshot's climate
 	const computedClimate = computeClimate(
 		projection.forecasts,
 		projection.time,
 		projection.location,
+		projection.weatherOverrides,
 	);
 	if (computedClimate) {
 		projection.climate = computedClimate;
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import { EventStore } from './EventStore';
+import { createSwipeContext } from './projection';
+import { diffProjections, diffStateBetweenMessages, countDiffChanges } from './projectionDiff';
+import type { Event } from '../types/event';
+import {
+	createEmptySnapshot,
+	createEmptyCharacterState,
+	createEmptyRelationshipState,
+	createProjectionFromSnapshot,
+	type Snapshot,
+} from '../types/snapshot';
+
+function createInitialSnapshot(): Snapshot {
+	const snapshot = createEmptySnapshot({ messageId: 1, swipeId: 0 });
+	snapshot.location = {
+		area: 'Town',
+		place: 'Tavern',
+		position: 'bar',
+		props: ['mug'],
+		locationType: 'heated',
+	};
+	snapshot.scene = {
+		topic: 'greetings',
+		tone: 'warm',
+		tension: { level: 'relaxed', type: 'conversation', direction: 'stable' },
+	};
+	snapshot.characters = {
+		Alice: {
+			...createEmptyCharacterState('Alice'),
+			position: 'sitting',
+			mood: ['calm'],
+		},
+		Bob: { ...createEmptyCharacterState('Bob'), position: 'standing' },
+	};
+	snapshot.relationships = {
+		'Alice|Bob': createEmptyRelationshipState(['Alice', 'Bob']),
+	};
+	return snapshot;
+}
+
+function base(id: string, messageId: number) {
+	return { id, source: { messageId, swipeId: 0 }, timestamp: messageId };
+}
+
+function createStore(): EventStore {
+	const store = new EventStore();
+	store.replaceInitialSnapshot(createInitialSnapshot());
+	const events: Event[] = [
+		{
+			...base('mood', 2),
+			kind: 'character',
+			subkind: 'mood_added',
+			character: 'Alice',
+			mood: 'annoyed',
+		},
+		{
+			...base('calm', 2),
+			kind: 'character',
+			subkind: 'mood_removed',
+			character: 'Alice',
+			mood: 'calm',
+		},
+		{
+			...base('outfit', 3),
+			kind: 'character',
+			subkind: 'outfit_changed',
+			character: 'Bob',
+			slot: 'jacket',
+			newValue: 'leather coat',
+		},
+		{
+			...base('feeling', 3),
+			kind: 'relationship',
+			subkind: 'feeling_added',
+			fromCharacter: 'Bob',
+			towardCharacter: 'Alice',
+			value: 'curious',
+		},
+		{ ...base('prop', 4), kind: 'location', subkind: 'prop_added', prop: 'candle' },
+		{
+			...base('tension', 4),
+			kind: 'tension',
+			level: 'tense',
+			type: 'conversation',
+			direction: 'escalating',
+		},
+		{ ...base('carol', 5), kind: 'character', subkind: 'appeared', character: 'Carol' },
+	];
+	store.appendEvents(events);
+	return store;
+}
+
+const context = createSwipeContext(Array.from({ length: 6 }, () => ({ swipe_id: 0 })));
+
+describe('diffProjections', () => {
+	it('returns no entities for identical projections', () => {
+		const projection = createProjectionFromSnapshot(createInitialSnapshot(), {
+			messageId: 1,
+			swipeId: 0,
+		});
+		const diff = diffProjections(projection, projection);
+		expect(diff.entities).toEqual([]);
+		expect(countDiffChanges(diff)).toBe(0);
+	});
+});
+
+describe('diffStateBetweenMessages', () => {
+	const diff = diffStateBetweenMessages(createStore(), 1, 5, context);
+	const entity = (type: string, key: string) =>
+		diff.entities.find(e => e.type === type && e.key === key);
+
+	it('groups changes by entity in a stable order, skipping unchanged new pairs', () => {
+		expect(diff.entities.map(e => `${e.type}:${e.key}`)).toEqual([
+			'location:location',
+			'scene:scene',
+			'character:Alice',
+			'character:Bob',
+			'character:Carol',
+			'relationship:Alice|Bob',
+		]);
+	});
+
+	it('reports mood additions and removals with their events', () => {
+		expect(entity('character', 'Alice')?.changes).toEqual([
+			{ field: 'mood', before: 'calm', after: null, eventIds: ['calm'] },
+			{ field: 'mood', before: null, after: 'annoyed', eventIds: ['mood'] },
+		]);
+	});
+
+	it('reports outfit slot changes', () => {
+		expect(entity('character', 'Bob')?.changes).toEqual([
+			{
+				field: 'outfit.jacket',
+				before: null,
+				after: 'leather coat',
+				eventIds: ['outfit'],
+			},
+		]);
+	});
+
+	it('reports directional relationship changes', () => {
+		expect(entity('relationship', 'Alice|Bob')?.changes).toEqual([
+			{
+				field: 'bToA.feelings',
+				before: null,
+				after: 'curious',
+				eventIds: ['feeling'],
+			},
+		]);
+	});
+
+	it('reports props and scene tension', () => {
+		expect(entity('location', 'location')?.changes).toEqual([
+			{ field: 'props', before: null, after: 'candle', eventIds: ['prop'] },
+		]);
+		expect(entity('scene', 'scene')?.changes.map(c => c.field)).toEqual([
+			'tension.level',
+			'tension.direction',
+		]);
+		expect(entity('scene', 'scene')?.changes[0].eventIds).toEqual(['tension']);
+	});
+
+	it('marks characters that appeared as added', () => {
+		const carol = entity('character', 'Carol');
+		expect(carol?.status).toBe('added');
+		expect(carol?.changes[0]).toEqual({
+			field: 'present',
+			before: 'absent',
+			after: 'present',
+			eventIds: ['carol'],
+		});
+	});
+
+	it('includes only referenced events', () => {
+		expect(Object.keys(diff.events).sort()).toEqual([
+			'calm',
+			'carol',
+			'feeling',
+			'mood',
+			'outfit',
+			'prop',
+			'tension',
+		]);
+	});
+
+	it('accepts messages in either order', () => {
+		const reversed = diffStateBetweenMessages(createStore(), 5, 1, context);
+		expect(reversed).toEqual(diff);
+	});
+
+	it('only links events inside the range', () => {
+		const partial = diffStateBetweenMessages(createStore(), 3, 5, context);
+		expect(partial.entities.find(e => e.key === 'Alice')).toBeUndefined();
+		expect(Object.keys(partial.events)).not.toContain('mood');
+	});
+});
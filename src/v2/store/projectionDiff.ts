@@ -0,0 +1,435 @@
+/**
+ * V2 Projection Diff
+ *
+ * Compares two projections and reports what changed, grouped by entity
+ * (location, scene, each character, each relationship). Each change lists the
+ * events between the two messages that caused it, so the UI can link to them.
+ */
+
+import type { Event } from '../types/event';
+import {
+	isCharacterEvent,
+	isLocationEvent,
+	isRelationshipEvent,
+	isTopicToneEvent,
+	isTensionEvent,
+	getRelationshipPair,
+} from '../types/event';
+import type { Projection, CharacterState, RelationshipState } from '../types/snapshot';
+import { createEmptyCharacterState, createEmptyRelationshipState } from '../types/snapshot';
+import type { MessageAndSwipe } from '../types/common';
+import { OUTFIT_SLOTS } from '../types/common';
+import type { EventStore } from './EventStore';
+import { type SwipeContext, filterActiveEvents, filterCanonicalEvents } from './projection';
+
+// ============================================
+// Types
+// ============================================
+
+export type DiffEntityType = 'location' | 'scene' | 'character' | 'relationship';
+
+/**
+ * A single changed value.
+ * List fields (mood, props, feelings...) produce one change per added or removed
+ * item, with `before` null for additions and `after` null for removals.
+ */
+export interface StateChange {
+	/** Field path, e.g. 'mood', 'outfit.torso', 'aToB.feelings', 'tension.level' */
+	field: string;
+	before: string | null;
+	after: string | null;
+	/** IDs of the events between the two messages that caused this change */
+	eventIds: string[];
+}
+
+/**
+ * All changes to one entity.
+ */
+export interface EntityDiff {
+	type: DiffEntityType;
+	/** 'location', 'scene', a character name, or a relationship pair key ("Alice|Bob") */
+	key: string;
+	/** 'added' if the entity did not exist at the first message */
+	status: 'added' | 'changed';
+	changes: StateChange[];
+}
+
+/**
+ * Difference between the state at two messages.
+ */
+export interface ProjectionDiff {
+	from: MessageAndSwipe;
+	to: MessageAndSwipe;
+	entities: EntityDiff[];
+	/** Events referenced by `eventIds`, keyed by ID */
+	events: Record<string, Event>;
+}
+
+/**
+ * What part of the state an event touches.
+ * `value` is set for list items, so an event is only linked to the matching item.
+ */
+interface EventTarget {
+	type: DiffEntityType;
+	key: string;
+	field: string;
+	value?: string;
+}
+
+// ============================================
+// Field Comparison
+// ============================================
+
+function normalizeValue(value: string | null | undefined): string | null {
+	return value === undefined || value === '' ? null : value;
+}
+
+function diffScalar(
+	changes: StateChange[],
+	field: string,
+	before: string | null | undefined,
+	after: string | null | undefined,
+): void {
+	const b = normalizeValue(before);
+	const a = normalizeValue(after);
+	if (b !== a) {
+		changes.push({ field, before: b, after: a, eventIds: [] });
+	}
+}
+
+function diffList(
+	changes: StateChange[],
+	field: string,
+	before: readonly string[],
+	after: readonly string[],
+): void {
+	for (const item of before) {
+		if (!after.includes(item)) {
+			changes.push({ field, before: item, after: null, eventIds: [] });
+		}
+	}
+	for (const item of after) {
+		if (!before.includes(item)) {
+			changes.push({ field, before: null, after: item, eventIds: [] });
+		}
+	}
+}
+
+function diffCharacter(
+	before: CharacterState,
+	after: CharacterState,
+	wasPresent: boolean,
+	isPresent: boolean,
+): StateChange[] {
+	const changes: StateChange[] = [];
+	if (wasPresent !== isPresent) {
+		diffScalar(
+			changes,
+			'present',
+			wasPresent ? 'present' : 'absent',
+			isPresent ? 'present' : 'absent',
+		);
+	}
+	diffScalar(changes, 'position', before.position, after.position);
+	diffScalar(changes, 'activity', before.activity, after.activity);
+	diffList(changes, 'mood', before.mood, after.mood);
+	diffList(changes, 'physicalState', before.physicalState, after.physicalState);
+	for (const slot of OUTFIT_SLOTS) {
+		diffScalar(changes, `outfit.${slot}`, before.outfit[slot], after.outfit[slot]);
+	}
+	return changes;
+}
+
+function diffRelationship(before: RelationshipState, after: RelationshipState): StateChange[] {
+	const changes: StateChange[] = [];
+	diffScalar(changes, 'status', before.status, after.status);
+	for (const direction of ['aToB', 'bToA'] as const) {
+		for (const list of ['feelings', 'secrets', 'wants'] as const) {
+			diffList(
+				changes,
+				`${direction}.${list}`,
+				before[direction][list],
+				after[direction][list],
+			);
+		}
+	}
+	return changes;
+}
+
+// ============================================
+// Event Attribution
+// ============================================
+
+/**
+ * Describe the parts of the state an event changes.
+ */
+function getEventTargets(event: Event): EventTarget[] {
+	if (isCharacterEvent(event)) {
+		const base = { type: 'character' as const, key: event.character };
+		switch (event.subkind) {
+			case 'appeared':
+				return [
+					{ ...base, field: 'present' },
+					{ ...base, field: 'position' },
+					{ ...base, field: 'activity' },
+					...(event.initialMood ?? []).map(value => ({
+						...base,
+						field: 'mood',
+						value,
+					})),
+					...(event.initialPhysicalState ?? []).map(value => ({
+						...base,
+						field: 'physicalState',
+						value,
+					})),
+				];
+			case 'departed':
+				return [{ ...base, field: 'present' }];
+			case 'position_changed':
+				return [{ ...base, field: 'position' }];
+			case 'activity_changed':
+				return [{ ...base, field: 'activity' }];
+			case 'mood_added':
+			case 'mood_removed':
+				return [{ ...base, field: 'mood', value: event.mood }];
+			case 'physical_added':
+			case 'physical_removed':
+				return [
+					{
+						...base,
+						field: 'physicalState',
+						value: event.physicalState,
+					},
+				];
+			case 'outfit_changed':
+				return [{ ...base, field: `outfit.${event.slot}` }];
+			default:
+				return [];
+		}
+	}
+
+	if (isRelationshipEvent(event)) {
+		const pair = getRelationshipPair(event);
+		const base = { type: 'relationship' as const, key: `${pair[0]}|${pair[1]}` };
+		if (event.subkind === 'status_changed') {
+			return [{ ...base, field: 'status' }];
+		}
+		if (event.subkind === 'subject') {
+			return [];
+		}
+		const direction = event.fromCharacter === pair[0] ? 'aToB' : 'bToA';
+		const list = event.subkind.startsWith('feeling')
+			? 'feelings'
+			: event.subkind.startsWith('secret')
+				? 'secrets'
+				: 'wants';
+		return [{ ...base, field: `${direction}.${list}`, value: event.value }];
+	}
+
+	if (isLocationEvent(event)) {
+		const base = { type: 'location' as const, key: 'location' };
+		if (event.subkind === 'moved') {
+			return [
+				{ ...base, field: 'area' },
+				{ ...base, field: 'place' },
+				{ ...base, field: 'position' },
+				{ ...base, field: 'locationType' },
+			];
+		}
+		return [{ ...base, field: 'props', value: event.prop }];
+	}
+
+	if (isTopicToneEvent(event)) {
+		return [
+			{ type: 'scene', key: 'scene', field: 'topic' },
+			{ type: 'scene', key: 'scene', field: 'tone' },
+		];
+	}
+
+	if (isTensionEvent(event)) {
+		return [
+			{ type: 'scene', key: 'scene', field: 'tension.level' },
+			{ type: 'scene', key: 'scene', field: 'tension.type' },
+			{ type: 'scene', key: 'scene', field: 'tension.direction' },
+		];
+	}
+
+	return [];
+}
+
+/**
+ * Link each change to the events that touched the same field (and item, for lists).
+ */
+function attributeEvents(entities: EntityDiff[], events: readonly Event[]): void {
+	const byEntity = new Map(entities.map(e => [`${e.type}:${e.key}`, e]));
+
+	for (const event of events) {
+		for (const target of getEventTargets(event)) {
+			const entity = byEntity.get(`${target.type}:${target.key}`);
+			if (!entity) continue;
+
+			for (const change of entity.changes) {
+				if (change.field !== target.field) continue;
+				if (
+					target.value !== undefined &&
+					change.before !== target.value &&
+					change.after !== target.value
+				) {
+					continue;
+				}
+				if (!change.eventIds.includes(event.id)) {
+					change.eventIds.push(event.id);
+				}
+			}
+		}
+	}
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Compute what changed between two projections.
+ *
+ * @param before - State at the earlier message
+ * @param after - State at the later message
+ * @param events - Canonical, active events after `before` up to and including
+ *   `after`, used to link changes to their causes
+ */
+export function diffProjections(
+	before: Projection,
+	after: Projection,
+	events: readonly Event[] = [],
+): ProjectionDiff {
+	const entities: EntityDiff[] = [];
+
+	// Location
+	if (before.location || after.location) {
+		const changes: StateChange[] = [];
+		const b = before.location;
+		const a = after.location;
+		diffScalar(changes, 'area', b?.area, a?.area);
+		diffScalar(changes, 'place', b?.place, a?.place);
+		diffScalar(changes, 'position', b?.position, a?.position);
+		diffScalar(changes, 'locationType', b?.locationType, a?.locationType);
+		diffList(changes, 'props', b?.props ?? [], a?.props ?? []);
+		if (changes.length > 0) {
+			entities.push({
+				type: 'location',
+				key: 'location',
+				status: b ? 'changed' : 'added',
+				changes,
+			});
+		}
+	}
+
+	// Scene
+	if (before.scene || after.scene) {
+		const changes: StateChange[] = [];
+		const b = before.scene;
+		const a = after.scene;
+		diffScalar(changes, 'topic', b?.topic, a?.topic);
+		diffScalar(changes, 'tone', b?.tone, a?.tone);
+		diffScalar(changes, 'tension.level', b?.tension.level, a?.tension.level);
+		diffScalar(changes, 'tension.type', b?.tension.type, a?.tension.type);
+		diffScalar(
+			changes,
+			'tension.direction',
+			b?.tension.direction,
+			a?.tension.direction,
+		);
+		if (changes.length > 0) {
+			entities.push({
+				type: 'scene',
+				key: 'scene',
+				status: b ? 'changed' : 'added',
+				changes,
+			});
+		}
+	}
+
+	// Characters
+	const characterNames = new Set([
+		...Object.keys(before.characters),
+		...Object.keys(after.characters),
+	]);
+	for (const name of [...characterNames].sort()) {
+		const b = before.characters[name];
+		const a = after.characters[name] ?? b;
+		const changes = diffCharacter(
+			b ?? createEmptyCharacterState(name),
+			a,
+			before.charactersPresent.includes(name),
+			after.charactersPresent.includes(name),
+		);
+		if (changes.length > 0) {
+			entities.push({
+				type: 'character',
+				key: name,
+				status: b ? 'changed' : 'added',
+				changes,
+			});
+		}
+	}
+
+	// Relationships
+	const pairKeys = new Set([
+		...Object.keys(before.relationships),
+		...Object.keys(after.relationships),
+	]);
+	for (const key of [...pairKeys].sort()) {
+		const b = before.relationships[key];
+		const a = after.relationships[key] ?? b;
+		const changes = diffRelationship(b ?? createEmptyRelationshipState(a.pair), a);
+		if (changes.length > 0) {
+			entities.push({
+				type: 'relationship',
+				key,
+				status: b ? 'changed' : 'added',
+				changes,
+			});
+		}
+	}
+
+	attributeEvents(entities, events);
+
+	const referenced = new Set(entities.flatMap(e => e.changes.flatMap(c => c.eventIds)));
+	return {
+		from: before.source,
+		to: after.source,
+		entities,
+		events: Object.fromEntries(
+			events.filter(e => referenced.has(e.id)).map(e => [e.id, e]),
+		),
+	};
+}
+
+/**
+ * Compute what changed in a store between two messages on the canonical path.
+ * The messages may be given in either order.
+ */
+export function diffStateBetweenMessages(
+	store: EventStore,
+	fromMessageId: number,
+	toMessageId: number,
+	context: SwipeContext,
+): ProjectionDiff {
+	const start = Math.min(fromMessageId, toMessageId);
+	const end = Math.max(fromMessageId, toMessageId);
+
+	const before = store.projectStateAtMessage(start, context);
+	const after = store.projectStateAtMessage(end, context);
+	const events = filterActiveEvents(filterCanonicalEvents(store.events, context)).filter(
+		e => e.source.messageId > start && e.source.messageId <= end,
+	);
+
+	return diffProjections(before, after, events);
+}
+
+/**
+ * Count the individual changes in a diff.
+ */
+export function countDiffChanges(diff: ProjectionDiff): number {
+	return diff.entities.reduce((sum, entity) => sum + entity.changes.length, 0);
+}
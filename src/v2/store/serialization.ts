@@ -9,6 +9,18 @@ import type { Snapshot } from '../types/snapshot';
 import { cloneSnapshot } from '../types/snapshot';
 import { debugWarn } from '../../utils/debug';
 
+/**
+ * Point in a parent chat where a branch or checkpoint was created.
+ */
+export interface BranchPoint {
+	/** ST chat ID of the parent chat */
+	chatId: string;
+	/** Last message copied from the parent chat */
+	messageId: number;
+	/** Real-world timestamp when the branch was detected */
+	branchedAt: number;
+}
+
 /**
  * Serialized event store format for JSON storage.
  */
@@ -16,12 +28,17 @@ export interface SerializedEventStore {
 	version: number;
 	snapshots: Snapshot[];
 	events: Event[];
+	/** ST chat ID the store belongs to (absent in stores saved before branch tracking) */
+	chatId?: string;
+	/** Branch ancestry, oldest ancestor first and direct parent last */
+	lineage?: BranchPoint[];
 }
 
 /**
  * Current serialization version.
+ * Older versions are upgraded by the migrations in migration/storeMigrations.ts.
  */
-export const STORE_VERSION = 1;
+export const STORE_VERSION = 2;
 
 /**
  * Serialize snapshots for storage.
@@ -62,11 +79,15 @@ export function serializeEvents(events: readonly Event[]): Event[] {
 export function serializeEventStore(
 	snapshots: readonly Snapshot[],
 	events: readonly Event[],
+	chatId: string | null = null,
+	lineage: readonly BranchPoint[] = [],
 ): SerializedEventStore {
 	return {
 		version: STORE_VERSION,
 		snapshots: serializeSnapshots(snapshots),
 		events: serializeEvents(events),
+		...(chatId !== null ? { chatId } : {}),
+		...(lineage.length > 0 ? { lineage: lineage.map(b => ({ ...b })) } : {}),
 	};
 }
 
@@ -74,9 +95,12 @@ export function serializeEventStore(
  * Deserialize an event store from JSON.
  * Validates the structure and returns null if invalid.
  */
-export function deserializeEventStore(
-	data: unknown,
-): { snapshots: Snapshot[]; events: Event[] } | null {
+export function deserializeEventStore(data: unknown): {
+	snapshots: Snapshot[];
+	events: Event[];
+	chatId: string | null;
+	lineage: BranchPoint[];
+} | null {
 	if (!data || typeof data !== 'object') {
 		return null;
 	}
@@ -88,10 +112,11 @@ export function deserializeEventStore(
 		return null;
 	}
 
-	// For now, only support version 1
+	// Older versions must be migrated before deserializing (see EventStore.loadFromSerialized)
 	if (obj.version !== STORE_VERSION) {
-		debugWarn(`Unknown event store version: ${obj.version}, expected ${STORE_VERSION}`);
-		// Could implement migration here in the future
+		debugWarn(
+			`Unexpected event store version: ${obj.version}, expected ${STORE_VERSION}`,
+		);
 	}
 
 	// Validate snapshots
@@ -104,19 +129,12 @@ export function deserializeEventStore(
 		return null;
 	}
 
-	// Migrate old snapshots that may be missing new fields
-	const snapshots = obj.snapshots as Snapshot[];
-	for (const snapshot of snapshots) {
-		// Add forecasts field if missing (added in v2 climate update)
-		if (!snapshot.forecasts) {
-			snapshot.forecasts = {};
-		}
-	}
-
 	// Basic validation passed - return the data
 	return {
-		snapshots,
+		snapshots: obj.snapshots as Snapshot[],
 		events: obj.events as Event[],
+		chatId: typeof obj.chatId === 'string' ? obj.chatId : null,
+		lineage: Array.isArray(obj.lineage) ? (obj.lineage as BranchPoint[]) : [],
 	};
 }
 
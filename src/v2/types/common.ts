@@ -187,6 +187,39 @@ export type WeatherCondition =
  */
 export type DaylightPhase = 'dawn' | 'day' | 'dusk' | 'night';
 
+/**
+ * Phase of a moon.
+ */
+export type MoonPhase =
+	| 'new'
+	| 'waxing_crescent'
+	| 'first_quarter'
+	| 'waxing_gibbous'
+	| 'full'
+	| 'waning_gibbous'
+	| 'last_quarter'
+	| 'waning_crescent';
+
+/**
+ * A moon at a moment in time. Elevation is in degrees above the horizon.
+ */
+export interface MoonState {
+	name: string;
+	phase: MoonPhase;
+	illumination: number;
+	elevation: number;
+	rising: boolean;
+}
+
+/**
+ * Sun and moons at a moment in time.
+ */
+export interface SkyState {
+	sunElevation: number;
+	sunRising: boolean;
+	moons: MoonState[];
+}
+
 /**
  * Building type for indoor temperature calculations.
  */
@@ -209,10 +242,24 @@ export interface ClimateForecast {
 	conditionType: WeatherCondition;
 	uvIndex: number;
 	daylight: DaylightPhase;
+	sky?: SkyState;
 	isIndoors: boolean;
 	buildingType?: BuildingType;
 }
 
+/**
+ * Scripted weather for an area, used instead of the forecast between its
+ * start and end. Times are ISO strings.
+ */
+export interface WeatherOverride {
+	areaName: string;
+	startTime: string;
+	endTime: string;
+	condition: WeatherCondition;
+	/** Temperature in °F (the forecast temperature is kept if not set) */
+	temperature?: number;
+}
+
 /**
  * Tension levels from relaxed to explosive.
  */
@@ -287,6 +334,26 @@ export interface CharacterOutfit {
 /**
  * Constants
  */
+export const WEATHER_CONDITIONS: readonly WeatherCondition[] = [
+	'clear',
+	'sunny',
+	'partly_cloudy',
+	'overcast',
+	'foggy',
+	'drizzle',
+	'rain',
+	'heavy_rain',
+	'thunderstorm',
+	'sleet',
+	'snow',
+	'heavy_snow',
+	'blizzard',
+	'windy',
+	'hot',
+	'cold',
+	'humid',
+] as const;
+
 export const TENSION_LEVELS: readonly TensionLevel[] = [
 	'relaxed',
 	'aware',
@@ -349,6 +416,10 @@ export const DAYS_OF_WEEK = [
 /**
  * Type guards
  */
+export function isValidWeatherCondition(value: string): value is WeatherCondition {
+	return WEATHER_CONDITIONS.includes(value as WeatherCondition);
+}
+
 export function isValidTensionLevel(value: string): value is TensionLevel {
 	return TENSION_LEVELS.includes(value as TensionLevel);
 }
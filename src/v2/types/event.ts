@@ -16,6 +16,7 @@ import type {
 	TensionDirection,
 	RelationshipStatus,
 	LocationType,
+	WeatherCondition,
 } from './common';
 import type { LocationForecast } from '../../weather/types';
 import type { Subject } from './subject';
@@ -27,12 +28,15 @@ export type EventKind =
 	| 'time'
 	| 'location'
 	| 'forecast_generated'
+	| 'weather_override'
 	| 'character'
 	| 'relationship'
 	| 'topic_tone'
 	| 'tension'
 	| 'narrative_description'
-	| 'chapter';
+	| 'chapter'
+	| 'arc'
+	| 'scene';
 
 /**
  * Time event subkinds.
@@ -78,6 +82,21 @@ export type RelationshipSubkind =
  */
 export type ChapterSubkind = 'ended' | 'described';
 
+/**
+ * Arc event subkinds.
+ */
+export type ArcSubkind = 'summarized';
+
+/**
+ * Scene event subkinds.
+ */
+export type SceneSubkind = 'ended' | 'described';
+
+/**
+ * What triggered a scene break.
+ */
+export type SceneBreakReason = 'location_change' | 'time_jump' | 'presence_change';
+
 /**
  * Base interface for all events.
  */
@@ -177,6 +196,28 @@ export interface ForecastGeneratedEvent extends BaseEvent {
 	forecast: LocationForecast;
 }
 
+// ============================================
+// Weather Override Events
+// ============================================
+
+/**
+ * Weather override event - scripted weather for an area.
+ * Used instead of the forecast from its start to its end time, with a short
+ * transition on either side. Created by the user, never extracted.
+ */
+export interface WeatherOverrideEvent extends BaseEvent {
+	kind: 'weather_override';
+	/** Area name the override applies to */
+	areaName: string;
+	/** Start of the override as ISO string */
+	startTime: string;
+	/** End of the override as ISO string */
+	endTime: string;
+	condition: WeatherCondition;
+	/** Temperature in °F (the forecast temperature is kept if not set) */
+	temperature?: number;
+}
+
 // ============================================
 // Character Events
 // ============================================
@@ -506,6 +547,65 @@ export interface ChapterDescribedEvent extends BaseEvent {
 
 export type ChapterEvent = ChapterEndedEvent | ChapterDescribedEvent;
 
+// ============================================
+// Arc Events
+// ============================================
+
+/**
+ * Arc summarized event - condenses a run of completed chapters into one summary.
+ */
+export interface ArcSummarizedEvent extends BaseEvent {
+	kind: 'arc';
+	subkind: 'summarized';
+	/** The arc index (0-based) */
+	arcIndex: number;
+	/** First chapter in the arc (0-based) */
+	firstChapter: number;
+	/** Last chapter in the arc (0-based, inclusive) */
+	lastChapter: number;
+	/** Arc title */
+	title: string;
+	/** Arc summary */
+	summary: string;
+}
+
+export type ArcEvent = ArcSummarizedEvent;
+
+// ============================================
+// Scene Events
+// ============================================
+
+/**
+ * Scene ended event - marks a scene boundary within a chapter.
+ * The message it's attached to is the last message of the ended scene.
+ */
+export interface SceneEndedEvent extends BaseEvent {
+	kind: 'scene';
+	subkind: 'ended';
+	/** The scene index that ended (0-based, counted across the whole chat) */
+	sceneIndex: number;
+	/** The chapter the scene belongs to (0-based) */
+	chapterIndex: number;
+	/** What triggered the break */
+	reasons: SceneBreakReason[];
+}
+
+/**
+ * Scene described event - adds a short title and summary to a scene.
+ */
+export interface SceneDescribedEvent extends BaseEvent {
+	kind: 'scene';
+	subkind: 'described';
+	/** The scene index being described */
+	sceneIndex: number;
+	/** Scene title */
+	title: string;
+	/** Scene summary */
+	summary: string;
+}
+
+export type SceneEvent = SceneEndedEvent | SceneDescribedEvent;
+
 // ============================================
 // Union Types
 // ============================================
@@ -517,12 +617,15 @@ export type Event =
 	| TimeEvent
 	| LocationEvent
 	| ForecastGeneratedEvent
+	| WeatherOverrideEvent
 	| CharacterEvent
 	| RelationshipEvent
 	| TopicToneEvent
 	| TensionEvent
 	| NarrativeDescriptionEvent
-	| ChapterEvent;
+	| ChapterEvent
+	| ArcEvent
+	| SceneEvent;
 
 /**
  * Event kind and subkind pair for filtering/matching.
@@ -568,6 +671,10 @@ export function isForecastGeneratedEvent(event: Event): event is ForecastGenerat
 	return event.kind === 'forecast_generated';
 }
 
+export function isWeatherOverrideEvent(event: Event): event is WeatherOverrideEvent {
+	return event.kind === 'weather_override';
+}
+
 export function isCharacterEvent(event: Event): event is CharacterEvent {
 	return event.kind === 'character';
 }
@@ -724,6 +831,26 @@ export function isChapterDescribedEvent(event: Event): event is ChapterDescribed
 	return event.kind === 'chapter' && (event as ChapterEvent).subkind === 'described';
 }
 
+export function isArcEvent(event: Event): event is ArcEvent {
+	return event.kind === 'arc';
+}
+
+export function isArcSummarizedEvent(event: Event): event is ArcSummarizedEvent {
+	return event.kind === 'arc' && (event as ArcEvent).subkind === 'summarized';
+}
+
+export function isSceneEvent(event: Event): event is SceneEvent {
+	return event.kind === 'scene';
+}
+
+export function isSceneEndedEvent(event: Event): event is SceneEndedEvent {
+	return event.kind === 'scene' && (event as SceneEvent).subkind === 'ended';
+}
+
+export function isSceneDescribedEvent(event: Event): event is SceneDescribedEvent {
+	return event.kind === 'scene' && (event as SceneEvent).subkind === 'described';
+}
+
 /**
  * Check if an event is a directional relationship event (has fromCharacter/towardCharacter).
  */
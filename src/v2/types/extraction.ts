@@ -461,6 +461,32 @@ export interface ExtractedChapterDescription {
 	summary: string;
 }
 
+/**
+ * LLM response for condensing completed chapters into an arc summary.
+ */
+export interface ExtractedArcSummary {
+	reasoning: string;
+	title: string;
+	summary: string;
+}
+
+/**
+ * LLM response for confirming a scene break.
+ */
+export interface ExtractedSceneBreak {
+	reasoning: string;
+	isNewScene: boolean;
+}
+
+/**
+ * LLM response for scene description generation.
+ */
+export interface ExtractedSceneDescription {
+	reasoning: string;
+	title: string;
+	summary: string;
+}
+
 /**
  * LLM response for periodic nickname extraction.
  * Extracts pet names, shortened names, titles, aliases used in recent messages.
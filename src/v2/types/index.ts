@@ -11,8 +11,12 @@ export type {
 	LocationState,
 	WeatherCondition,
 	DaylightPhase,
+	MoonPhase,
+	MoonState,
+	SkyState,
 	BuildingType,
 	ClimateForecast,
+	WeatherOverride,
 	TensionLevel,
 	TensionDirection,
 	TensionType,
@@ -22,12 +26,14 @@ export type {
 } from './common';
 
 export {
+	WEATHER_CONDITIONS,
 	TENSION_LEVELS,
 	TENSION_TYPES,
 	TENSION_DIRECTIONS,
 	RELATIONSHIP_STATUSES,
 	OUTFIT_SLOTS,
 	DAYS_OF_WEEK,
+	isValidWeatherCondition,
 	isValidTensionLevel,
 	isValidTensionType,
 	isValidTensionDirection,
@@ -66,6 +72,9 @@ export type {
 	CharacterSubkind,
 	RelationshipSubkind,
 	ChapterSubkind,
+	ArcSubkind,
+	SceneSubkind,
+	SceneBreakReason,
 	BaseEvent,
 	TimeInitialEvent,
 	TimeDeltaEvent,
@@ -75,6 +84,7 @@ export type {
 	LocationPropRemovedEvent,
 	LocationEvent,
 	ForecastGeneratedEvent,
+	WeatherOverrideEvent,
 	CharacterAppearedEvent,
 	CharacterDepartedEvent,
 	CharacterProfileSetEvent,
@@ -102,6 +112,11 @@ export type {
 	ChapterEndedEvent,
 	ChapterDescribedEvent,
 	ChapterEvent,
+	ArcSummarizedEvent,
+	ArcEvent,
+	SceneEndedEvent,
+	SceneDescribedEvent,
+	SceneEvent,
 	Event,
 	KindAndSubkind,
 } from './event';
@@ -115,6 +130,7 @@ export {
 	isLocationPropAddedEvent,
 	isLocationPropRemovedEvent,
 	isForecastGeneratedEvent,
+	isWeatherOverrideEvent,
 	isCharacterEvent,
 	isCharacterAppearedEvent,
 	isCharacterDepartedEvent,
@@ -142,6 +158,11 @@ export {
 	isChapterEvent,
 	isChapterEndedEvent,
 	isChapterDescribedEvent,
+	isArcEvent,
+	isArcSummarizedEvent,
+	isSceneEvent,
+	isSceneEndedEvent,
+	isSceneDescribedEvent,
 	isDirectionalRelationshipEvent,
 	getRelationshipPair,
 	matchesKindAndSubkind,
@@ -210,6 +231,9 @@ export type {
 	ExtractedMilestoneDescription,
 	ExtractedChapterEnded,
 	ExtractedChapterDescription,
+	ExtractedArcSummary,
+	ExtractedSceneBreak,
+	ExtractedSceneDescription,
 	ExtractedCharacterChanges,
 	ExtractedAttitudeChanges,
 } from './extraction';
@@ -390,6 +390,7 @@ describe('cloning functions', () => {
 					locationType: 'heated',
 				},
 				forecasts: {},
+				weatherOverrides: [],
 				climate: null,
 				scene: {
 					topic: 'T',
@@ -19,6 +19,7 @@ import type {
 	TensionDirection,
 	RelationshipStatus,
 	ClimateForecast,
+	WeatherOverride,
 } from './common';
 import { deserializeMoment, serializeMoment } from './common';
 import type { Subject } from './subject';
@@ -200,6 +201,8 @@ export interface Snapshot {
 	location: LocationState | null;
 	/** Weather forecasts keyed by area name */
 	forecasts: Record<string, LocationForecast>;
+	/** Scripted weather in the order it was added (missing in older snapshots) */
+	weatherOverrides?: WeatherOverride[];
 	/** Computed climate (derived from forecasts + time + location, not stored) */
 	climate: ClimateForecast | null;
 	scene: SceneState | null;
@@ -225,6 +228,7 @@ export function createEmptySnapshot(source: MessageAndSwipe): Snapshot {
 		time: null,
 		location: null,
 		forecasts: {},
+		weatherOverrides: [],
 		climate: null,
 		scene: null,
 		characters: {},
@@ -255,6 +259,8 @@ export interface Projection {
 	location: LocationState | null;
 	/** Weather forecasts keyed by area name */
 	forecasts: Record<string, LocationForecast>;
+	/** Scripted weather in the order it was added */
+	weatherOverrides: WeatherOverride[];
 	/** Computed climate (derived from forecasts + time + location) */
 	climate: ClimateForecast | null;
 	scene: SceneState | null;
@@ -300,6 +306,7 @@ export function createProjectionFromSnapshot(
 					),
 				)
 			: {},
+		weatherOverrides: (snapshot.weatherOverrides ?? []).map(o => ({ ...o })),
 		climate: snapshot.climate ? { ...snapshot.climate } : null,
 		scene: snapshot.scene
 			? {
@@ -395,6 +402,7 @@ export function createSnapshotFromProjection(
 				},
 			]),
 		),
+		weatherOverrides: projection.weatherOverrides.map(o => ({ ...o })),
 		climate: projection.climate ? { ...projection.climate } : null,
 		scene: projection.scene
 			? {
@@ -605,6 +613,7 @@ export function cloneSnapshot(snapshot: Snapshot): Snapshot {
 					),
 				)
 			: {},
+		weatherOverrides: snapshot.weatherOverrides?.map(o => ({ ...o })),
 		climate: snapshot.climate ? { ...snapshot.climate } : null,
 		scene: snapshot.scene
 			? {
@@ -689,6 +698,7 @@ export function cloneProjection(projection: Projection): Projection {
 				},
 			]),
 		),
+		weatherOverrides: projection.weatherOverrides.map(o => ({ ...o })),
 		climate: projection.climate ? { ...projection.climate } : null,
 		scene: projection.scene
 			? {
@@ -11,9 +11,15 @@ import type { EventStore } from '../store/EventStore';
 import type { Projection } from '../types/snapshot';
 import type { Event } from '../types/event';
 import { V2StateReadOnly, V2CharacterReadOnly, V2EventCard } from './components';
-import { buildSwipeContext } from '../../v2Bridge';
+import {
+	buildSwipeContext,
+	exportV2EventStoreBundle,
+	buildV2EventStoreFromBundle,
+} from '../../v2Bridge';
+import { getActiveCalendar } from '../cardExtensions';
 import type { STContext } from '../../types/st';
 import { errorLog } from '../../utils/debug';
+import { downloadEventStoreBundle, pickEventStoreBundleFile } from './storeTransfer';
 
 export interface EventStoreEditorProps {
 	store: EventStore;
@@ -51,12 +57,14 @@ export function EventStoreEditor({
 	const [editStore, setEditStore] = useState<EventStore>(() => store.getDeepClone());
 	const [activeTab, setActiveTab] = useState<TabId>('state');
 	const [hasChanges, setHasChanges] = useState(false);
+	const [transferMessage, setTransferMessage] = useState<string | null>(null);
 
 	// Create swipe context for projection - uses actual swipe IDs from each message
 	const swipeContext = useMemo(() => {
 		const stContext = SillyTavern.getContext() as unknown as STContext;
 		return buildSwipeContext(stContext);
 	}, []);
+	const calendar = useMemo(() => getActiveCalendar(), []);
 
 	// Project state at this message
 	const projection: Projection | null = useMemo(() => {
@@ -98,6 +106,42 @@ export function EventStoreEditor({
 		[editStore],
 	);
 
+	// Handle export of the store being edited
+	const handleExport = useCallback(() => {
+		const bundle = exportV2EventStoreBundle(editStore);
+		if (!bundle) {
+			setTransferMessage('Nothing to export');
+			return;
+		}
+		downloadEventStoreBundle(bundle);
+		setTransferMessage(null);
+	}, [editStore]);
+
+	// Handle import - replaces the edit clone, applied on save
+	const handleImport = useCallback(async () => {
+		const picked = await pickEventStoreBundleFile();
+		if (!picked) return;
+		if (picked.error !== undefined) {
+			setTransferMessage(picked.error);
+			return;
+		}
+
+		const imported = buildV2EventStoreFromBundle(picked.data);
+		if (imported.error !== undefined) {
+			setTransferMessage(imported.error);
+			return;
+		}
+
+		const { store: importedStore, droppedEvents, remapped } = imported.result;
+		setEditStore(importedStore);
+		setHasChanges(true);
+		setTransferMessage(
+			`Imported ${importedStore.activeEventCount} events` +
+				(remapped ? ', message IDs remapped' : '') +
+				(droppedEvents > 0 ? `, ${droppedEvents} dropped` : ''),
+		);
+	}, []);
+
 	// Handle save
 	const handleSave = useCallback(() => {
 		onSave(editStore);
@@ -116,6 +160,7 @@ export function EventStoreEditor({
 					<V2StateReadOnly
 						projection={projection}
 						temperatureUnit={temperatureUnit}
+						calendar={calendar}
 					/>
 				) : (
 					<div className="bt-no-data">
@@ -259,6 +304,27 @@ export function EventStoreEditor({
 
 				{/* Footer */}
 				<div className="bt-v2-editor-footer">
+					<button
+						className="bt-transfer-btn"
+						onClick={handleExport}
+						title="Export state to a file"
+					>
+						<i className="fa-solid fa-file-export"></i>
+						Export
+					</button>
+					<button
+						className="bt-transfer-btn"
+						onClick={handleImport}
+						title="Import state from a file"
+					>
+						<i className="fa-solid fa-file-import"></i>
+						Import
+					</button>
+					{transferMessage && (
+						<span className="bt-transfer-message">
+							{transferMessage}
+						</span>
+					)}
 					<button className="bt-cancel-btn" onClick={handleCancel}>
 						Cancel
 					</button>
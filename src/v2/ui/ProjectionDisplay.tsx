@@ -18,8 +18,11 @@ import {
 	V2ChapterSummaryCard,
 } from './components';
 import type { LocationForecast } from '../../weather/types';
+import { serializeMoment, type WeatherOverride } from '../types/common';
 import { getTensionLevelIcon, getTensionColor, getTensionIcon, getTensionTypeColor } from './icons';
 import type { ComputedChapter } from '../narrative/computeChapters';
+import type { CalendarDefinition } from '../../utils/calendar';
+import { formatMoment } from '../../utils/dateFormat';
 
 export interface ExtractionProgress {
 	step: string;
@@ -39,8 +42,12 @@ export interface ProjectionDisplayProps {
 	onOpenEditor?: () => void;
 	/** Callback to open the per-message event editor */
 	onEditEvents?: () => void;
+	/** Callback to open the state diff modal ending at this message */
+	onCompare?: () => void;
 	temperatureUnit?: 'F' | 'C';
 	timeFormat?: '12h' | '24h';
+	/** Custom calendar of the character card (null for Gregorian) */
+	calendar?: CalendarDefinition | null;
 	/** Milestones that occurred at this message (from raw events) */
 	milestones?: MilestoneInfo[];
 	/** Whether this specific message has been extracted (has events) */
@@ -49,12 +56,25 @@ export interface ProjectionDisplayProps {
 	isInitialSnapshotMessage?: boolean;
 	/** Whether this is the latest message in the chat */
 	isLatestMessage?: boolean;
-	/** Callback to retry extraction (delete events and re-extract) */
-	onRetry?: () => void;
+	/**
+	 * Callback to retry extraction (delete events and re-extract).
+	 * `reroll` is set on Shift+click to skip cached responses.
+	 */
+	onRetry?: (reroll: boolean) => void;
 	/** Previous chapter data (for chapter summary card display) */
 	previousChapter?: ComputedChapter | null;
 	/** Callback to view chapter details in narrative modal */
 	onViewChapterDetails?: (chapterIndex: number) => void;
+	/** Label of the change undo would revert (null hides the undo button) */
+	undoLabel?: string | null;
+	/** Label of the change redo would reapply (null hides the redo button) */
+	redoLabel?: string | null;
+	/** Callback to undo the latest manual state change */
+	onUndo?: () => void;
+	/** Callback to redo the latest undone state change */
+	onRedo?: () => void;
+	/** Callback to add a weather override from the forecast modal */
+	onAddWeatherOverride?: (override: WeatherOverride) => void;
 }
 
 /**
@@ -72,14 +92,24 @@ function SceneSection({
 	scene,
 	onOpenNarrative,
 	onEditEvents,
+	onCompare,
 	onRetry,
 	isLatestMessage,
+	undoLabel,
+	redoLabel,
+	onUndo,
+	onRedo,
 }: {
 	scene: SceneState;
 	onOpenNarrative?: () => void;
 	onEditEvents?: () => void;
-	onRetry?: () => void;
+	onCompare?: () => void;
+	onRetry?: (reroll: boolean) => void;
 	isLatestMessage?: boolean;
+	undoLabel?: string | null;
+	redoLabel?: string | null;
+	onUndo?: () => void;
+	onRedo?: () => void;
 }) {
 	return (
 		<div className="bt-scene">
@@ -87,11 +117,29 @@ function SceneSection({
 				<span className="bt-scene-topic">{scene.topic}</span>
 				<span className="bt-scene-tone">{scene.tone}</span>
 				<div className="bt-scene-actions">
+					{isLatestMessage && undoLabel && onUndo && (
+						<button
+							className="bt-action-icon-btn"
+							onClick={onUndo}
+							title={`Undo: ${undoLabel}`}
+						>
+							<i className="fa-solid fa-rotate-left"></i>
+						</button>
+					)}
+					{isLatestMessage && redoLabel && onRedo && (
+						<button
+							className="bt-action-icon-btn"
+							onClick={onRedo}
+							title={`Redo: ${redoLabel}`}
+						>
+							<i className="fa-solid fa-rotate-right"></i>
+						</button>
+					)}
 					{isLatestMessage && onRetry && (
 						<button
 							className="bt-action-icon-btn bt-retry-icon"
-							onClick={onRetry}
-							title="Re-extract this message"
+							onClick={e => onRetry(e.shiftKey)}
+							title="Re-extract this message (Shift+click to re-roll without cached responses)"
 						>
 							<i className="fa-solid fa-fire"></i>
 						</button>
@@ -105,6 +153,15 @@ function SceneSection({
 							<i className="fa-solid fa-pen-to-square"></i>
 						</button>
 					)}
+					{onCompare && (
+						<button
+							className="bt-action-icon-btn"
+							onClick={onCompare}
+							title="Compare state with an earlier message"
+						>
+							<i className="fa-solid fa-code-compare"></i>
+						</button>
+					)}
 					{onOpenNarrative && (
 						<button
 							className="bt-action-icon-btn"
@@ -124,15 +181,19 @@ function SceneSection({
 /**
  * Format narrative time for display.
  */
-function formatNarrativeTime(time: moment.Moment | null, timeFormat: '12h' | '24h'): string {
+function formatNarrativeTime(
+	time: moment.Moment | null,
+	timeFormat: '12h' | '24h',
+	calendar: CalendarDefinition | null,
+): string {
 	if (!time) return '';
 	if (timeFormat === '24h') {
-		return time.format('ddd HH:mm');
+		return formatMoment(time, 'ddd HH:mm', calendar);
 	}
 	const hour12 = time.hour() % 12 || 12;
 	const ampm = time.hour() < 12 ? 'AM' : 'PM';
 	const minute = time.minute().toString().padStart(2, '0');
-	return `${time.format('ddd')} ${hour12}:${minute} ${ampm}`;
+	return `${formatMoment(time, 'ddd', calendar)} ${hour12}:${minute} ${ampm}`;
 }
 
 /**
@@ -142,10 +203,12 @@ function NarrativeEventItem({
 	event,
 	opacity = 1,
 	timeFormat,
+	calendar,
 }: {
 	event: NarrativeEvent;
 	opacity?: number;
 	timeFormat: '12h' | '24h';
+	calendar: CalendarDefinition | null;
 }) {
 	const levelIconClass = getTensionLevelIcon(event.tension.level);
 	const levelColor = getTensionColor(event.tension.level);
@@ -168,7 +231,11 @@ function NarrativeEventItem({
 			{/* Row 1: Time (left), Tension icons (right) */}
 			<div className="bt-event-header">
 				<span className="bt-event-time">
-					{formatNarrativeTime(event.narrativeTime, timeFormat)}
+					{formatNarrativeTime(
+						event.narrativeTime,
+						timeFormat,
+						calendar,
+					)}
 				</span>
 				<div className="bt-event-header-right">
 					<div className="bt-event-tension">
@@ -220,9 +287,11 @@ function NarrativeEventItem({
 function NarrativeEventsSection({
 	events,
 	timeFormat,
+	calendar,
 }: {
 	events: NarrativeEvent[];
 	timeFormat: '12h' | '24h';
+	calendar: CalendarDefinition | null;
 }) {
 	if (events.length === 0) return null;
 
@@ -241,6 +310,7 @@ function NarrativeEventsSection({
 						event={event}
 						opacity={opacity}
 						timeFormat={timeFormat}
+						calendar={calendar}
 					/>
 				);
 			})}
@@ -295,8 +365,10 @@ export function ProjectionDisplay({
 	onOpenNarrative,
 	onOpenEditor: _onOpenEditor,
 	onEditEvents,
+	onCompare,
 	temperatureUnit = 'F',
 	timeFormat = '12h',
+	calendar = null,
 	milestones = [],
 	hasEventsAtThisMessage = true,
 	isInitialSnapshotMessage = false,
@@ -304,6 +376,11 @@ export function ProjectionDisplay({
 	onRetry,
 	previousChapter = null,
 	onViewChapterDetails,
+	undoLabel = null,
+	redoLabel = null,
+	onUndo,
+	onRedo,
+	onAddWeatherOverride,
 }: ProjectionDisplayProps) {
 	const [isExpanded, setIsExpanded] = useState(false);
 	const [showForecastModal, setShowForecastModal] = useState(false);
@@ -350,7 +427,7 @@ export function ProjectionDisplay({
 					{isLatestMessage && onRetry && (
 						<button
 							className="bt-retry-btn"
-							onClick={onRetry}
+							onClick={e => onRetry(e.shiftKey)}
 							title="Retry extraction"
 						>
 							<i className="fa-solid fa-fire"></i>
@@ -409,10 +486,12 @@ export function ProjectionDisplay({
 					{hasTime && projection.time && (
 						<span className="bt-time">
 							<i className="fa-regular fa-clock"></i>{' '}
-							{projection.time.format(
+							{formatMoment(
+								projection.time,
 								timeFormat === '24h'
 									? 'ddd, MMM D YYYY, HH:mm'
 									: 'ddd, MMM D YYYY, h:mm A',
+								calendar,
 							)}
 						</span>
 					)}
@@ -455,8 +534,13 @@ export function ProjectionDisplay({
 					scene={projection.scene}
 					onOpenNarrative={onOpenNarrative}
 					onEditEvents={onEditEvents}
+					onCompare={onCompare}
 					onRetry={onRetry}
 					isLatestMessage={isLatestMessage}
+					undoLabel={undoLabel}
+					redoLabel={redoLabel}
+					onUndo={onUndo}
+					onRedo={onRedo}
 				/>
 			)}
 
@@ -465,6 +549,7 @@ export function ProjectionDisplay({
 				<NarrativeEventsSection
 					events={recentNarrativeEvents}
 					timeFormat={timeFormat}
+					calendar={calendar}
 				/>
 			)}
 
@@ -474,6 +559,7 @@ export function ProjectionDisplay({
 					chapter={previousChapter}
 					onViewDetails={onViewChapterDetails}
 					timeFormat={timeFormat}
+					calendar={calendar}
 				/>
 			)}
 
@@ -552,7 +638,23 @@ export function ProjectionDisplay({
 					currentHour={currentHour}
 					temperatureUnit={temperatureUnit}
 					timeFormat={timeFormat}
+					calendar={calendar}
 					areaName={currentArea}
+					overrides={projection.weatherOverrides.filter(
+						o => o.areaName === currentArea,
+					)}
+					currentTime={
+						projection.time
+							? serializeMoment(projection.time)
+							: null
+					}
+					onAddOverride={
+						onAddWeatherOverride &&
+						(override => {
+							setShowForecastModal(false);
+							onAddWeatherOverride(override);
+						})
+					}
 					onClose={() => setShowForecastModal(false)}
 				/>
 			)}
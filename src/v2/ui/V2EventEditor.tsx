@@ -21,6 +21,7 @@ import type {
 	LocationMovedEvent,
 	LocationPropAddedEvent,
 	LocationPropRemovedEvent,
+	WeatherOverrideEvent,
 	CharacterEvent,
 	CharacterAppearedEvent,
 	CharacterProfileSetEvent,
@@ -43,6 +44,8 @@ import type {
 	TensionEvent,
 	TopicToneEvent,
 	ChapterEvent,
+	ArcEvent,
+	SceneEvent,
 	NarrativeDescriptionEvent,
 } from '../types/event';
 import {
@@ -52,6 +55,7 @@ import {
 	isLocationMovedEvent,
 	isLocationPropAddedEvent,
 	isLocationPropRemovedEvent,
+	isWeatherOverrideEvent,
 	isCharacterEvent,
 	isRelationshipEvent,
 	isRelationshipStatusChangedEvent,
@@ -61,6 +65,8 @@ import {
 	isTopicToneEvent,
 	isNarrativeDescriptionEvent,
 	isChapterEvent,
+	isArcEvent,
+	isSceneEvent,
 } from '../types/event';
 import type { RelationshipSubjectEvent } from '../types/event';
 import type { Subject } from '../types/subject';
@@ -73,13 +79,17 @@ import type {
 	TensionDirection,
 	RelationshipStatus,
 	TimeDelta,
+	WeatherCondition,
 } from '../types/common';
 import {
+	WEATHER_CONDITIONS,
 	TENSION_LEVELS,
 	TENSION_TYPES,
 	TENSION_DIRECTIONS,
 	RELATIONSHIP_STATUSES,
 	OUTFIT_SLOTS,
+	serializeMoment,
+	deserializeMoment,
 } from '../types/common';
 import { sortPair } from '../types/snapshot';
 
@@ -110,6 +120,7 @@ interface V2EventEditorProps {
 type V2EventGroupKind =
 	| 'time'
 	| 'location'
+	| 'weather'
 	| 'character'
 	| 'relationship'
 	| 'scene'
@@ -121,6 +132,14 @@ interface InlineEditorHandle {
 	getCurrentState: () => Partial<Event>;
 }
 
+/**
+ * Apply inline edits to an event. Spreading Partial<Event> directly makes
+ * TypeScript pair up every event type with every other one.
+ */
+function applyEventUpdates(event: Event, updates: Partial<Event>): Event {
+	return { ...event, ...(updates as object) } as Event;
+}
+
 // ============================================
 // Color and Icon Constants
 // ============================================
@@ -128,6 +147,7 @@ interface InlineEditorHandle {
 const V2_EVENT_COLORS = {
 	time: '#8b5cf6', // purple
 	location: '#10b981', // emerald
+	weather: '#0891b2', // cyan
 	character: '#3b82f6', // blue
 	relationship: '#ec4899', // pink
 	scene: '#f59e0b', // amber
@@ -146,6 +166,8 @@ const V2_EVENT_ICONS: Record<string, string> = {
 	location_moved: 'fa-location-dot',
 	location_prop_added: 'fa-plus',
 	location_prop_removed: 'fa-minus',
+	// Weather
+	weather_override: 'fa-cloud-bolt',
 	// Character
 	character_appeared: 'fa-user-plus',
 	character_departed: 'fa-user-minus',
@@ -174,6 +196,11 @@ const V2_EVENT_ICONS: Record<string, string> = {
 	// Chapter
 	chapter_ended: 'fa-flag-checkered',
 	chapter_described: 'fa-book',
+	// Arc
+	arc_summarized: 'fa-layer-group',
+	// Scene boundaries
+	scene_ended: 'fa-clapperboard',
+	scene_described: 'fa-film',
 };
 
 function getEventIcon(event: Event): string {
@@ -191,6 +218,7 @@ function getEventColor(event: Event): string {
 		if (isLocationPropRemovedEvent(event)) return V2_EVENT_COLORS.remove;
 		return V2_EVENT_COLORS.location;
 	}
+	if (isWeatherOverrideEvent(event)) return V2_EVENT_COLORS.weather;
 	if (isCharacterEvent(event)) {
 		const subkind = event.subkind;
 		if (
@@ -212,7 +240,9 @@ function getEventColor(event: Event): string {
 	if (isRelationshipEvent(event)) return V2_EVENT_COLORS.relationship;
 	if (isTensionEvent(event) || isTopicToneEvent(event)) return V2_EVENT_COLORS.scene;
 	if (isNarrativeDescriptionEvent(event)) return V2_EVENT_COLORS.narrative;
-	if (isChapterEvent(event)) return V2_EVENT_COLORS.chapter;
+	if (isChapterEvent(event) || isArcEvent(event) || isSceneEvent(event)) {
+		return V2_EVENT_COLORS.chapter;
+	}
 	return '#6b7280';
 }
 
@@ -237,17 +267,20 @@ export const V2EventEditor = forwardRef<V2EventEditorHandle, V2EventEditorProps>
 		const groupedEvents = useMemo(() => {
 			const timeEvents: TimeEvent[] = [];
 			const locationEvents: LocationEvent[] = [];
+			const weatherEvents: WeatherOverrideEvent[] = [];
 			const characterEvents: CharacterEvent[] = [];
 			const relationshipEvents: RelationshipEvent[] = [];
 			const sceneEvents: (TensionEvent | TopicToneEvent)[] = [];
 			const narrativeDescriptionEvents: NarrativeDescriptionEvent[] = [];
-			const chapterEvents: ChapterEvent[] = [];
+			const chapterEvents: (ChapterEvent | ArcEvent | SceneEvent)[] = [];
 
 			for (const event of events) {
 				if (isTimeEvent(event)) {
 					timeEvents.push(event);
 				} else if (isLocationEvent(event)) {
 					locationEvents.push(event);
+				} else if (isWeatherOverrideEvent(event)) {
+					weatherEvents.push(event);
 				} else if (isCharacterEvent(event)) {
 					characterEvents.push(event);
 				} else if (isRelationshipEvent(event)) {
@@ -256,7 +289,11 @@ export const V2EventEditor = forwardRef<V2EventEditorHandle, V2EventEditorProps>
 					sceneEvents.push(event);
 				} else if (isNarrativeDescriptionEvent(event)) {
 					narrativeDescriptionEvents.push(event);
-				} else if (isChapterEvent(event)) {
+				} else if (
+					isChapterEvent(event) ||
+					isArcEvent(event) ||
+					isSceneEvent(event)
+				) {
 					chapterEvents.push(event);
 				}
 			}
@@ -264,6 +301,7 @@ export const V2EventEditor = forwardRef<V2EventEditorHandle, V2EventEditorProps>
 			return {
 				timeEvents,
 				locationEvents,
+				weatherEvents,
 				characterEvents,
 				relationshipEvents,
 				sceneEvents,
@@ -295,8 +333,10 @@ export const V2EventEditor = forwardRef<V2EventEditorHandle, V2EventEditorProps>
 			(eventId: string, updates: Partial<Event>) => {
 				onEventsChange(
 					events.map(e =>
-						e.id === eventId ? { ...e, ...updates } : e,
-					) as Event[],
+						e.id === eventId
+							? applyEventUpdates(e, updates)
+							: e,
+					),
 				);
 			},
 			[events, onEventsChange],
@@ -307,8 +347,8 @@ export const V2EventEditor = forwardRef<V2EventEditorHandle, V2EventEditorProps>
 			if (editingEventId && inlineEditorRef.current) {
 				const updates = inlineEditorRef.current.getCurrentState();
 				const finalEvents = events.map(e =>
-					e.id === editingEventId ? { ...e, ...updates } : e,
-				) as Event[];
+					e.id === editingEventId ? applyEventUpdates(e, updates) : e,
+				);
 				setEditingEventId(null);
 				return finalEvents;
 			}
@@ -406,6 +446,49 @@ export const V2EventEditor = forwardRef<V2EventEditorHandle, V2EventEditorProps>
 					</EventGroup>
 				)}
 
+				{/* Weather Events */}
+				{groupedEvents.weatherEvents.length > 0 && (
+					<EventGroup
+						kind="weather"
+						label="Weather Events"
+						icon="fa-cloud-bolt"
+						count={groupedEvents.weatherEvents.length}
+						collapsed={collapsedGroups.has('weather')}
+						onToggle={() => toggleGroup('weather')}
+					>
+						{groupedEvents.weatherEvents.map((event, idx) => (
+							<V2WeatherOverrideEventCard
+								key={event.id}
+								event={event}
+								index={idx}
+								isEditing={
+									editingEventId === event.id
+								}
+								onStartEdit={() =>
+									setEditingEventId(event.id)
+								}
+								onEndEdit={() =>
+									setEditingEventId(null)
+								}
+								editorRef={
+									editingEventId === event.id
+										? inlineEditorRef
+										: undefined
+								}
+								onUpdate={updates =>
+									handleUpdateEvent(
+										event.id,
+										updates,
+									)
+								}
+								onDelete={() =>
+									handleDelete(event.id)
+								}
+							/>
+						))}
+					</EventGroup>
+				)}
+
 				{/* Character Events */}
 				{groupedEvents.characterEvents.length > 0 && (
 					<EventGroup
@@ -1097,6 +1180,197 @@ const V2LocationPropEditor = forwardRef<
 	);
 });
 
+// =============================================
+// Weather Override Event Card
+// =============================================
+
+/** Convert an ISO time to a datetime-local input value. */
+function toDateTimeInput(iso: string): string {
+	return deserializeMoment(iso).format('YYYY-MM-DDTHH:mm');
+}
+
+/** Convert a datetime-local input value to an ISO time (null if invalid). */
+function fromDateTimeInput(value: string): string | null {
+	const m = deserializeMoment(value);
+	return value && m.isValid() ? serializeMoment(m) : null;
+}
+
+interface V2WeatherOverrideEventCardProps {
+	event: WeatherOverrideEvent;
+	index: number;
+	isEditing: boolean;
+	onStartEdit: () => void;
+	onEndEdit: () => void;
+	editorRef?: React.RefObject<InlineEditorHandle | null>;
+	onUpdate: (updates: Partial<WeatherOverrideEvent>) => void;
+	onDelete: () => void;
+}
+
+function V2WeatherOverrideEventCard({
+	event,
+	index,
+	isEditing,
+	onStartEdit,
+	onEndEdit,
+	editorRef,
+	onUpdate,
+	onDelete,
+}: V2WeatherOverrideEventCardProps) {
+	const color = V2_EVENT_COLORS.weather;
+
+	if (isEditing) {
+		return (
+			<V2WeatherOverrideEditor
+				ref={editorRef}
+				event={event}
+				onSave={updates => {
+					onUpdate(updates);
+					onEndEdit();
+				}}
+				onCancel={onEndEdit}
+			/>
+		);
+	}
+
+	const temperature =
+		event.temperature !== undefined ? `, ${Math.round(event.temperature)}°F` : '';
+
+	return (
+		<div
+			className="bt-event-card"
+			data-kind="weather"
+			style={{ '--event-type-color': color } as React.CSSProperties}
+		>
+			<div className="bt-event-card-content">
+				<div className="bt-state-event-header">
+					<span className="bt-event-index">#{index + 1}</span>
+					<i
+						className={`fa-solid ${getEventIcon(event)}`}
+						style={{ color }}
+					/>
+					<span className="bt-event-subkind">Weather Override</span>
+				</div>
+				<div className="bt-event-details">
+					<span className="bt-event-value">
+						{formatSubkindLabel(event.condition)}
+						{temperature} in {event.areaName || '(no area)'}
+					</span>
+					<span className="bt-event-value">
+						{new Date(event.startTime).toLocaleString()} –{' '}
+						{new Date(event.endTime).toLocaleString()}
+					</span>
+				</div>
+			</div>
+			<div className="bt-event-actions">
+				<button
+					className="bt-action-btn"
+					onClick={onStartEdit}
+					title="Edit"
+				>
+					<i className="fa-solid fa-pen"></i>
+				</button>
+				<button
+					className="bt-action-btn delete"
+					onClick={onDelete}
+					title="Delete"
+				>
+					<i className="fa-solid fa-trash"></i>
+				</button>
+			</div>
+		</div>
+	);
+}
+
+const V2WeatherOverrideEditor = forwardRef<
+	InlineEditorHandle,
+	{
+		event: WeatherOverrideEvent;
+		onSave: (updates: Partial<WeatherOverrideEvent>) => void;
+		onCancel: () => void;
+	}
+>(function V2WeatherOverrideEditor({ event, onSave, onCancel }, ref) {
+	const [area, setArea] = useState(event.areaName);
+	const [start, setStart] = useState(toDateTimeInput(event.startTime));
+	const [end, setEnd] = useState(toDateTimeInput(event.endTime));
+	const [condition, setCondition] = useState<WeatherCondition>(event.condition);
+	const [temperature, setTemperature] = useState(
+		event.temperature !== undefined ? String(event.temperature) : '',
+	);
+
+	// Times that don't parse keep their previous value
+	const getUpdates = useCallback((): Partial<WeatherOverrideEvent> => {
+		const parsedTemperature = parseFloat(temperature);
+		return {
+			areaName: area.trim(),
+			startTime: fromDateTimeInput(start) ?? event.startTime,
+			endTime: fromDateTimeInput(end) ?? event.endTime,
+			condition,
+			temperature: isNaN(parsedTemperature) ? undefined : parsedTemperature,
+		};
+	}, [area, start, end, condition, temperature, event.startTime, event.endTime]);
+
+	useImperativeHandle(ref, () => ({ getCurrentState: getUpdates }), [getUpdates]);
+
+	return (
+		<div className="bt-event-card bt-event-card-editing" data-kind="weather">
+			<div className="bt-event-card-content">
+				<div className="bt-char-edit-fields">
+					<input
+						type="text"
+						placeholder="Area (e.g., Downtown)"
+						value={area}
+						onChange={e => setArea(e.target.value)}
+					/>
+					<input
+						type="datetime-local"
+						title="From"
+						value={start}
+						onChange={e => setStart(e.target.value)}
+					/>
+					<input
+						type="datetime-local"
+						title="To"
+						value={end}
+						onChange={e => setEnd(e.target.value)}
+					/>
+					<select
+						value={condition}
+						onChange={e =>
+							setCondition(
+								e.target.value as WeatherCondition,
+							)
+						}
+					>
+						{WEATHER_CONDITIONS.map(c => (
+							<option key={c} value={c}>
+								{formatSubkindLabel(c)}
+							</option>
+						))}
+					</select>
+					<input
+						type="number"
+						placeholder="Temperature °F (optional)"
+						value={temperature}
+						onChange={e => setTemperature(e.target.value)}
+					/>
+				</div>
+			</div>
+			<div className="bt-event-actions" style={{ opacity: 1 }}>
+				<button
+					className="bt-action-btn"
+					onClick={() => onSave(getUpdates())}
+					title="Save"
+				>
+					<i className="fa-solid fa-check"></i>
+				</button>
+				<button className="bt-action-btn" onClick={onCancel} title="Cancel">
+					<i className="fa-solid fa-times"></i>
+				</button>
+			</div>
+		</div>
+	);
+});
+
 // =============================================
 // Character Event Card
 // =============================================
@@ -2219,19 +2493,32 @@ const V2NarrativeDescriptionEditor = forwardRef<
 // =============================================
 
 interface V2ChapterEventCardProps {
-	event: ChapterEvent;
+	event: ChapterEvent | ArcEvent | SceneEvent;
 	index: number;
 	onDelete: () => void;
 }
 
 function V2ChapterEventCard({ event, index, onDelete }: V2ChapterEventCardProps) {
-	const isEnded = event.subkind === 'ended';
 	const color = V2_EVENT_COLORS.chapter;
 
+	let label: string;
 	let summary: string;
-	if (isEnded) {
+	if (isArcEvent(event)) {
+		label = 'Arc Summarized';
+		summary = `Arc ${event.arcIndex + 1} (chapters ${event.firstChapter + 1}-${event.lastChapter + 1}): "${event.title}"`;
+	} else if (isSceneEvent(event)) {
+		if (event.subkind === 'ended') {
+			label = 'Scene Ended';
+			summary = `Scene ${event.sceneIndex + 1} ended (${event.reasons.join(', ') || 'chapter ended'})`;
+		} else {
+			label = 'Scene Described';
+			summary = `Scene ${event.sceneIndex + 1}: "${event.title}"`;
+		}
+	} else if (event.subkind === 'ended') {
+		label = 'Chapter Ended';
 		summary = `Chapter ${event.chapterIndex + 1} ended (${event.reason})`;
 	} else {
+		label = 'Chapter Described';
 		summary = `"${event.title}"`;
 	}
 
@@ -2248,9 +2535,7 @@ function V2ChapterEventCard({ event, index, onDelete }: V2ChapterEventCardProps)
 						className={`fa-solid ${getEventIcon(event)}`}
 						style={{ color }}
 					/>
-					<span className="bt-event-subkind">
-						{isEnded ? 'Chapter Ended' : 'Chapter Described'}
-					</span>
+					<span className="bt-event-subkind">{label}</span>
 				</div>
 				<div className="bt-event-details">
 					<span className="bt-event-value">{summary}</span>
@@ -2987,6 +3272,28 @@ export function V2AddEventMenu({
 					<i className="fa-solid fa-location-dot"></i>
 					Location Change
 				</div>
+				<div
+					className="bt-v2-add-event-option"
+					onClick={() => {
+						// Starts at the current narrative time (or now)
+						const start =
+							projection.time?.clone() ??
+							deserializeMoment(new Date().toISOString());
+						onAdd({
+							...createBaseEvent(),
+							kind: 'weather_override',
+							areaName: projection.location?.area ?? '',
+							startTime: serializeMoment(start),
+							endTime: serializeMoment(
+								start.clone().add(6, 'hours'),
+							),
+							condition: 'rain',
+						} as WeatherOverrideEvent);
+					}}
+				>
+					<i className="fa-solid fa-cloud-bolt"></i>
+					Weather Override
+				</div>
 
 				<div className="bt-v2-add-event-section-label">Location Props</div>
 				<div
@@ -0,0 +1,274 @@
+/**
+ * V2 Injection Preview
+ *
+ * Shows what the prompt hook would inject for the next generation: the token
+ * budget, the cost of each section, the chapters and events left out, the
+ * first message kept in context, and the injected blocks. Used inline in the
+ * settings panel and in the /bt-inject-preview modal.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { createPortal } from 'react-dom';
+import { previewInjection } from '../injectors/promptHook';
+import {
+	describePlacement,
+	formatInjectionPreview,
+	type InjectionPreview,
+} from '../injectors/injectionPreview';
+import { debugWarn } from '../../utils/debug';
+
+type CopyStatus = 'idle' | 'copied' | 'failed';
+
+/**
+ * Injection preview with refresh and copy-to-clipboard.
+ */
+export function V2InjectionPreview() {
+	const [preview, setPreview] = useState<InjectionPreview | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [loading, setLoading] = useState(false);
+	const [copyStatus, setCopyStatus] = useState<CopyStatus>('idle');
+
+	const refresh = useCallback(async () => {
+		setLoading(true);
+		setCopyStatus('idle');
+		try {
+			const result = await previewInjection();
+			setPreview(result.preview ?? null);
+			setError(result.error ?? null);
+		} catch (e) {
+			setPreview(null);
+			setError(e instanceof Error ? e.message : String(e));
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		void refresh();
+	}, [refresh]);
+
+	const copy = async () => {
+		if (!preview) return;
+		try {
+			await navigator.clipboard.writeText(formatInjectionPreview(preview));
+			setCopyStatus('copied');
+		} catch (e) {
+			debugWarn('Failed to copy injection preview:', e);
+			setCopyStatus('failed');
+		}
+	};
+
+	return (
+		<div className="bt-inject-preview">
+			<div className="bt-inject-preview-toolbar">
+				<button
+					className="menu_button"
+					onClick={() => void refresh()}
+					disabled={loading}
+					title="Refresh"
+				>
+					<i
+						className={`fa-solid fa-rotate${loading ? ' fa-spin' : ''}`}
+					></i>
+				</button>
+				<button
+					className="menu_button"
+					onClick={() => void copy()}
+					disabled={!preview}
+					title="Copy the report to the clipboard"
+				>
+					<i className="fa-solid fa-copy"></i>{' '}
+					{copyStatus === 'copied'
+						? 'Copied'
+						: copyStatus === 'failed'
+							? 'Copy failed'
+							: 'Copy'}
+				</button>
+			</div>
+
+			{error && <small className="bt-inject-preview-error">{error}</small>}
+			{preview && <InjectionPreviewReport preview={preview} />}
+		</div>
+	);
+}
+
+function InjectionPreviewReport({ preview }: { preview: InjectionPreview }) {
+	const inContext = preview.totalMessages - preview.firstMessageInContext;
+
+	return (
+		<>
+			<table className="bt-inject-preview-table">
+				<tbody>
+					<tr>
+						<td>Context budget</td>
+						<td>{preview.maxBudget}</td>
+					</tr>
+					<tr>
+						<td>Fixed prompt content</td>
+						<td>
+							{preview.fixedTokens === null
+								? 'unknown until the next generation'
+								: `${preview.fixedTokens} (last generation)`}
+						</td>
+					</tr>
+					<tr>
+						<td>Available for messages and injection</td>
+						<td>{preview.availableBudget}</td>
+					</tr>
+					<tr>
+						<td>Planned total</td>
+						<td>{preview.totalTokens}</td>
+					</tr>
+					<tr>
+						<td>Messages in context</td>
+						<td>
+							{preview.firstMessageId === null
+								? `none of ${preview.totalMessages}`
+								: `${inContext} of ${preview.totalMessages}, from message #${preview.firstMessageId}`}
+						</td>
+					</tr>
+					<tr>
+						<td>State</td>
+						<td>
+							{preview.reducedState
+								? 'relevance-filtered'
+								: 'full'}
+						</td>
+					</tr>
+				</tbody>
+			</table>
+
+			<small className="bt-inject-preview-label">
+				Sections ({preview.tokenCounter} tokens)
+			</small>
+			<table className="bt-inject-preview-table">
+				<tbody>
+					{preview.sections.map(section => (
+						<tr
+							key={section.section}
+							className={
+								section.tokens === 0
+									? 'bt-inject-preview-empty'
+									: undefined
+							}
+						>
+							<td>{section.section}</td>
+							<td>{section.tokens}</td>
+							<td>
+								{describePlacement(
+									section.placement,
+								)}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+
+			<HistoryList
+				label="Chapters"
+				included={[
+					...preview.includedArcs.map(
+						arc =>
+							`Arc ${arc.index + 1}: ${arc.title} (Chapters ${arc.firstChapter + 1}-${arc.lastChapter + 1})`,
+					),
+					...preview.includedChapters.map(
+						chapter =>
+							`Chapter ${chapter.index + 1}: ${chapter.title}`,
+					),
+				]}
+				dropped={preview.droppedChapters.map(
+					chapter => `Chapter ${chapter.index + 1}: ${chapter.title}`,
+				)}
+			/>
+			<HistoryList
+				label="Events"
+				included={preview.includedEvents.map(
+					event => `#${event.source.messageId}: ${event.description}`,
+				)}
+				dropped={preview.droppedEvents.map(
+					event => `#${event.source.messageId}: ${event.description}`,
+				)}
+			/>
+
+			{preview.blocks.length === 0 && (
+				<small className="bt-inject-preview-label">Nothing to inject</small>
+			)}
+			{preview.blocks.map((block, i) => (
+				<React.Fragment key={i}>
+					<small className="bt-inject-preview-label">
+						{describePlacement(block.placement)}:{' '}
+						{block.sections.join(', ')} ({block.tokens} tokens)
+					</small>
+					<pre>{block.content}</pre>
+				</React.Fragment>
+			))}
+		</>
+	);
+}
+
+function HistoryList({
+	label,
+	included,
+	dropped,
+}: {
+	label: string;
+	included: string[];
+	dropped: string[];
+}) {
+	if (included.length === 0 && dropped.length === 0) return null;
+
+	return (
+		<details className="bt-inject-preview-history">
+			<summary>
+				{label}: {included.length} included, {dropped.length} left out
+			</summary>
+			<ul>
+				{included.map((item, i) => (
+					<li key={`in-${i}`}>{item}</li>
+				))}
+				{dropped.map((item, i) => (
+					<li key={`out-${i}`} className="bt-inject-preview-dropped">
+						{item}
+					</li>
+				))}
+			</ul>
+		</details>
+	);
+}
+
+export interface V2InjectionPreviewModalProps {
+	onClose: () => void;
+}
+
+/**
+ * The injection preview in a modal.
+ */
+export function V2InjectionPreviewModal({ onClose }: V2InjectionPreviewModalProps) {
+	return createPortal(
+		<div
+			className="bt-v2-narrative-backdrop"
+			onClick={e => e.target === e.currentTarget && onClose()}
+			onKeyDown={e => e.key === 'Escape' && onClose()}
+		>
+			<div className="bt-v2-narrative-modal bt-v2-inject-preview-modal">
+				<div className="bt-v2-narrative-header">
+					<h2>
+						<i className="fa-solid fa-syringe" />
+						Next Injection
+					</h2>
+					<button
+						className="bt-v2-narrative-close"
+						onClick={onClose}
+						title="Close"
+					>
+						<i className="fa-solid fa-xmark" />
+					</button>
+				</div>
+				<div className="bt-v2-narrative-content">
+					<V2InjectionPreview />
+				</div>
+			</div>
+		</div>,
+		document.body,
+	);
+}
@@ -14,7 +14,9 @@ import { V2RelationshipsTab } from './tabs/V2RelationshipsTab';
 import { V2ChaptersTab } from './tabs/V2ChaptersTab';
 import { V2EventsTab } from './tabs/V2EventsTab';
 import { V2RelationshipEditor } from './components/V2RelationshipEditor';
+import { V2LineageBar } from './components/V2LineageBar';
 import { debugWarn } from '../../utils/debug';
+import { getActiveCalendar } from '../cardExtensions';
 
 export interface V2NarrativeModalProps {
 	eventStore: EventStore;
@@ -27,6 +29,8 @@ export interface V2NarrativeModalProps {
 	onRecalculateChapter?: (store: EventStore, chapterIndex: number) => Promise<EventStore>;
 	/** Target chapter to scroll to and highlight (for "Read full summary") */
 	targetChapter?: number;
+	/** Callback to open an ancestor chat from the lineage bar */
+	onOpenLineageChat?: (chatId: string) => void;
 }
 
 type TabType = 'chapters' | 'relationships' | 'events';
@@ -40,6 +44,7 @@ export function V2NarrativeModal({
 	latestMessageId,
 	onRecalculateChapter,
 	targetChapter,
+	onOpenLineageChat,
 }: V2NarrativeModalProps): React.ReactElement | null {
 	const [activeTab, setActiveTab] = useState<TabType>(initialTab);
 	const [localStore, setLocalStore] = useState(() => eventStore.getDeepClone());
@@ -49,6 +54,7 @@ export function V2NarrativeModal({
 
 	// Create SwipeContext from chat array
 	const swipeContext: SwipeContext = useMemo(() => createSwipeContext(chat), [chat]);
+	const calendar = useMemo(() => getActiveCalendar(), []);
 
 	// Project state at latest message
 	const projection = useMemo(() => {
@@ -179,6 +185,12 @@ export function V2NarrativeModal({
 					</button>
 				</div>
 
+				{/* Branch lineage */}
+				<V2LineageBar
+					lineage={localStore.lineage}
+					onOpenChat={onOpenLineageChat}
+				/>
+
 				{/* Tabs */}
 				<div className="bt-v2-narrative-tabs">
 					<button
@@ -231,12 +243,16 @@ export function V2NarrativeModal({
 							onEditRelationship={handleEditRelationship}
 						/>
 					) : activeTab === 'events' ? (
-						<V2EventsTab projection={projection} />
+						<V2EventsTab
+							projection={projection}
+							calendar={calendar}
+						/>
 					) : (
 						<V2ChaptersTab
 							projection={projection}
 							eventStore={localStore}
 							swipeContext={swipeContext}
+							calendar={calendar}
 							onRecalculateChapter={
 								handleRecalculateChapter
 							}
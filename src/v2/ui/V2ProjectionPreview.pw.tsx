@@ -37,6 +37,7 @@ function createProjectionWithAkas(): Projection {
 			locationType: 'heated',
 		},
 		forecasts: {},
+		weatherOverrides: [],
 		climate: null,
 		scene: {
 			topic: 'meeting',
@@ -62,6 +63,7 @@ function createProjectionWithoutAkas(): Projection {
 		time: moment('2024-11-14T15:00:00'),
 		location: null,
 		forecasts: {},
+		weatherOverrides: [],
 		climate: null,
 		scene: null,
 		characters: { Elena: elena },
@@ -10,6 +10,9 @@ import type { Projection, CharacterState, RelationshipState } from '../types/sna
 import type { CharacterOutfit, OutfitSlot } from '../types/common';
 import type { Event } from '../types/event';
 import { getV2Settings } from '../settings';
+import { getActiveCalendar } from '../cardExtensions';
+import { formatMoment } from '../../utils/dateFormat';
+import type { CalendarDefinition } from '../../utils/calendar';
 import {
 	getMilestonesForPair as getMilestonesFromEvents,
 	getMilestoneDisplayName,
@@ -76,7 +79,11 @@ export function V2ProjectionPreview({
 					<h4>Time</h4>
 					<div className="bt-projection-value">
 						<i className="fa-regular fa-clock"></i>{' '}
-						{formatTime(projection.time, settings.v2TimeFormat)}
+						{formatTime(
+							projection.time,
+							settings.v2TimeFormat,
+							getActiveCalendar(),
+						)}
 					</div>
 				</div>
 			)}
@@ -502,11 +509,16 @@ function RelationshipStateCard({ relationship, milestones }: RelationshipStateCa
  * Format time for display using moment.
  * @param time - The moment to format
  * @param timeFormatSetting - The user's time format preference ('12h' or '24h')
+ * @param calendar - Custom calendar of the character card (null for Gregorian)
  */
-function formatTime(time: moment.Moment, timeFormatSetting?: '12h' | '24h'): string {
+function formatTime(
+	time: moment.Moment,
+	timeFormatSetting?: '12h' | '24h',
+	calendar: CalendarDefinition | null = null,
+): string {
 	const fmt =
 		timeFormatSetting === '24h' ? 'ddd, MMM D YYYY, HH:mm' : 'ddd, MMM D YYYY, h:mm A';
-	return time.format(fmt);
+	return formatMoment(time, fmt, calendar);
 }
 
 /**
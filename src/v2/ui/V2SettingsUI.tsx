@@ -11,16 +11,79 @@ import ReactDOM from 'react-dom/client';
 import { createPortal } from 'react-dom';
 import type {
 	V2Settings,
+	V2GeneratorBackend,
+	V2StructuredOutput,
 	V2TrackSettings,
 	V2TemperatureSettings,
 	V2CustomPrompt,
+	V2InjectionTemplates,
+	V2InjectionSection,
+	V2InjectionPosition,
+	V2InjectionRole,
+	V2SectionPlacement,
+	V2RelevanceMode,
+	V2RelevanceSettings,
+	V2HistorySelection,
+	V2HistoryRetrievalSettings,
+	V2LorebookSyncSettings,
+	V2ClimateSource,
+	V2ClimateDataSettings,
+	V2SceneSettings,
+	V2RunStrategy,
+	V2MessageStrategy,
+	V2StrategyEventKind,
+	V2ExtractorStrategy,
 } from '../settings/types';
 import { updateV2Setting, updateV2Track, initializeV2Settings } from '../settings/manager';
-import { isTrackDisabled, getTrackDependencyTooltip, DEFAULT_V2_TEMPERATURES } from '../settings';
+import {
+	isTrackDisabled,
+	getTrackDependencyTooltip,
+	DEFAULT_V2_TEMPERATURES,
+	DEFAULT_V2_INJECTION_PLACEMENTS,
+} from '../settings';
 import { setDebugEnabled, errorLog } from '../../utils/debug';
 import { SelectField, CheckboxField } from '../../ui/components/form';
+import { ClimateProfilesEditor } from '../../ui/components/ClimateProfilesEditor';
+import { parseCityClimateFile } from '../../weather/cityClimates';
 import { mountAllV2ProjectionDisplays } from './mountV2Display';
 import { getAllV2Prompts, type PromptTemplate } from '../prompts';
+import {
+	getGenerationCacheStore,
+	getGenerationCacheStats,
+	clearGenerationCache,
+	type GenerationCacheStats,
+} from '../generator';
+import {
+	DEFAULT_STATE_TEMPLATE,
+	DEFAULT_NARRATIVE_TEMPLATE,
+	INJECTION_TEMPLATE_PRESETS,
+} from '../injectors/templates';
+import { V2TemplatePreview } from './V2TemplatePreview';
+import { V2InjectionPreview } from './V2InjectionPreview';
+import { INJECTION_SECTIONS } from '../injectors/placement';
+import { syncLorebook } from '../lorebook';
+import {
+	getV2EventStoreForEditor,
+	buildSwipeContext,
+	buildExtractionSettingsFromV2,
+} from '../../v2Bridge';
+import type {
+	ConfigurableRunStrategyName,
+	EventExtractor,
+	ExtractorStrategyOverride,
+	MessageStrategyName,
+} from '../extractors/types';
+import {
+	describeRunStrategy,
+	describeMessageStrategy,
+	estimateCallsPerMessage,
+	formatKinds,
+	parseKinds,
+	validateStrategyOverride,
+	type ExtractorScope,
+} from '../extractors/utils';
+import { getAllEventExtractors } from '../extractors/events';
+import type { STContext } from '../../types/st.d';
 
 // ============================================
 // Types
@@ -194,6 +257,9 @@ function getPromptCategory(name: string): keyof V2TemperatureSettings {
 	if (
 		name === 'chapter_ended' ||
 		name === 'chapter_description' ||
+		name === 'arc_summary' ||
+		name === 'scene_break' ||
+		name === 'scene_description' ||
 		name === 'narrative_description' ||
 		name === 'milestone_description'
 	)
@@ -482,53 +548,1486 @@ function PromptEditor({
 	);
 }
 
-// ============================================
-// Prompt List Item Component
-// ============================================
-
-interface PromptListItemProps {
-	definition: PromptTemplate<unknown>;
-	isCustomized: boolean;
-	hasCustomTemperature: boolean;
-	customTemperature?: number;
-	onClick: () => void;
+// ============================================
+// Prompt List Item Component
+// ============================================
+
+interface PromptListItemProps {
+	definition: PromptTemplate<unknown>;
+	isCustomized: boolean;
+	hasCustomTemperature: boolean;
+	customTemperature?: number;
+	onClick: () => void;
+}
+
+function PromptListItem({
+	definition,
+	isCustomized,
+	hasCustomTemperature,
+	customTemperature,
+	onClick,
+}: PromptListItemProps) {
+	return (
+		<div className="bt-prompt-item" onClick={onClick}>
+			<div className="bt-prompt-item-header">
+				<div className="bt-prompt-item-title">
+					<span className="bt-prompt-name">{definition.name}</span>
+				</div>
+				<div className="bt-prompt-item-badges">
+					{hasCustomTemperature && (
+						<span
+							className="bt-prompt-badge bt-prompt-temp-badge"
+							title="Custom temperature"
+						>
+							<i className="fa-solid fa-temperature-half"></i>{' '}
+							{customTemperature?.toFixed(2)}
+						</span>
+					)}
+					{isCustomized && (
+						<span
+							className="bt-prompt-badge bt-prompt-customized"
+							title="Custom prompt"
+						>
+							<i className="fa-solid fa-pen"></i>
+						</span>
+					)}
+				</div>
+			</div>
+			<small className="bt-prompt-description">{definition.description}</small>
+		</div>
+	);
+}
+
+// ============================================
+// Response Cache Section
+// ============================================
+
+interface GenerationCacheSectionProps {
+	settings: V2Settings;
+	onUpdate: <K extends keyof V2Settings>(key: K, value: V2Settings[K]) => void;
+}
+
+function GenerationCacheSection({ settings, onUpdate }: GenerationCacheSectionProps) {
+	const [stats, setStats] = useState<GenerationCacheStats>(getGenerationCacheStats);
+	const [entryCount, setEntryCount] = useState<number | null>(null);
+	const [clearing, setClearing] = useState(false);
+
+	const refresh = useCallback(() => {
+		setStats(getGenerationCacheStats());
+		getGenerationCacheStore().count().then(setEntryCount);
+	}, []);
+
+	useEffect(() => {
+		refresh();
+	}, [refresh]);
+
+	const handleClear = async () => {
+		setClearing(true);
+		try {
+			await clearGenerationCache();
+		} catch (error) {
+			errorLog('Failed to clear response cache:', error);
+		} finally {
+			setClearing(false);
+			refresh();
+		}
+	};
+
+	const lookups = stats.hits + stats.misses;
+	const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : null;
+
+	return (
+		<>
+			<CheckboxField
+				id="bt-v2-cache-enabled"
+				label="Cache Responses"
+				description="Reuse the response to an identical earlier request (same prompt, temperature and connection) instead of calling the LLM again. Shift+click the re-extract button to re-roll without the cache."
+				checked={settings.v2CacheEnabled}
+				onChange={checked => onUpdate('v2CacheEnabled', checked)}
+			/>
+
+			<div
+				className="flex-container flexFlowColumn"
+				style={{ marginBottom: '1em' }}
+			>
+				<label htmlFor="bt-v2-cache-max-entries">
+					Max Cached Responses
+				</label>
+				<small>
+					Number of responses kept, whatever their length. Least
+					recently used responses are dropped beyond this.
+				</small>
+				<input
+					id="bt-v2-cache-max-entries"
+					type="number"
+					className="text_pole"
+					min="1"
+					max="100000"
+					step="100"
+					value={settings.v2CacheMaxEntries}
+					onChange={e => {
+						const value = parseInt(e.target.value, 10);
+						if (!isNaN(value) && value >= 1) {
+							onUpdate('v2CacheMaxEntries', value);
+						}
+					}}
+					style={{ width: '120px' }}
+				/>
+			</div>
+
+			<div
+				className="flex-container alignItemsCenter"
+				style={{ marginBottom: '1em' }}
+			>
+				<small style={{ flex: 1 }}>
+					{hitRate === null
+						? 'No cache lookups this session'
+						: `Hit rate this session: ${hitRate}% (${stats.hits} of ${lookups} requests)`}
+					{stats.bypassed > 0 && `, ${stats.bypassed} re-rolled`}
+					{entryCount !== null && ` · ${entryCount} cached responses`}
+				</small>
+				<button className="menu_button" onClick={refresh} title="Refresh">
+					<i className="fa-solid fa-rotate"></i>
+				</button>
+				<button
+					className="menu_button"
+					onClick={handleClear}
+					disabled={clearing}
+				>
+					Clear Cache
+				</button>
+			</div>
+		</>
+	);
+}
+
+// ============================================
+// Injection Templates Section
+// ============================================
+
+interface InjectionTemplatesSectionProps {
+	settings: V2Settings;
+	onUpdate: <K extends keyof V2Settings>(key: K, value: V2Settings[K]) => void;
+}
+
+const TEMPLATE_FIELDS: {
+	key: keyof V2InjectionTemplates;
+	label: string;
+	description: string;
+	defaultTemplate: string;
+}[] = [
+	{
+		key: 'state',
+		label: 'State Template',
+		description:
+			'chapters, scene, time, location, climate, characters, events, knowledgeGaps, relationships',
+		defaultTemplate: DEFAULT_STATE_TEMPLATE,
+	},
+	{
+		key: 'narrative',
+		label: 'Narrative Template',
+		description: 'chapters, events',
+		defaultTemplate: DEFAULT_NARRATIVE_TEMPLATE,
+	},
+];
+
+function InjectionTemplatesSection({ settings, onUpdate }: InjectionTemplatesSectionProps) {
+	const templates = settings.v2InjectionTemplates;
+	const [expanded, setExpanded] = useState<keyof V2InjectionTemplates | null>(null);
+	const [showPreview, setShowPreview] = useState(false);
+
+	// Store '' while a template matches the default so later default changes apply
+	const updateTemplate = (key: keyof V2InjectionTemplates, value: string) => {
+		const field = TEMPLATE_FIELDS.find(f => f.key === key)!;
+		onUpdate('v2InjectionTemplates', {
+			...templates,
+			[key]: value.trim() === field.defaultTemplate.trim() ? '' : value,
+		});
+	};
+
+	const handleLoadPreset = (id: string) => {
+		const preset = INJECTION_TEMPLATE_PRESETS.find(p => p.id === id);
+		if (!preset) return;
+		onUpdate(
+			'v2InjectionTemplates',
+			id === 'default' ? { state: '', narrative: '' } : { ...preset.templates },
+		);
+	};
+
+	const expandedField = TEMPLATE_FIELDS.find(f => f.key === expanded);
+
+	return (
+		<>
+			<div
+				className="flex-container flexFlowColumn"
+				style={{ marginBottom: '1em' }}
+			>
+				<label htmlFor="bt-v2-template-preset">Injection Templates</label>
+				<small>
+					Handlebars-style templates for the injected state and
+					narrative. Load a preset, then edit it below. Character
+					cards can override these.
+				</small>
+				<select
+					id="bt-v2-template-preset"
+					className="text_pole"
+					value=""
+					onChange={e => handleLoadPreset(e.target.value)}
+					style={{ width: '200px' }}
+				>
+					<option value="" disabled>
+						Load preset...
+					</option>
+					{INJECTION_TEMPLATE_PRESETS.map(preset => (
+						<option
+							key={preset.id}
+							value={preset.id}
+							title={preset.description}
+						>
+							{preset.name}
+						</option>
+					))}
+				</select>
+			</div>
+
+			{TEMPLATE_FIELDS.map(field => (
+				<div className="bt-prompt-section" key={field.key}>
+					<div className="bt-prompt-section-header">
+						<label htmlFor={`bt-v2-template-${field.key}`}>
+							{field.label}{' '}
+							<small>({field.description})</small>
+						</label>
+						<button
+							className="menu_button bt-expand-button"
+							onClick={() => setExpanded(field.key)}
+							title="Expand to full screen"
+						>
+							<i className="fa-solid fa-expand"></i>
+						</button>
+					</div>
+					<textarea
+						id={`bt-v2-template-${field.key}`}
+						className="text_pole bt-prompt-textarea"
+						value={
+							templates[field.key] ||
+							field.defaultTemplate
+						}
+						onChange={e =>
+							updateTemplate(field.key, e.target.value)
+						}
+						rows={8}
+					/>
+					{templates[field.key] && (
+						<small className="bt-modified-indicator">
+							<i className="fa-solid fa-pen"></i> Modified{' '}
+							<button
+								className="menu_button"
+								onClick={() =>
+									updateTemplate(
+										field.key,
+										'',
+									)
+								}
+								title="Reset to default"
+							>
+								<i className="fa-solid fa-rotate-left"></i>
+							</button>
+						</small>
+					)}
+				</div>
+			))}
+
+			<div className="flex-container" style={{ marginBottom: '1em' }}>
+				<button
+					className="menu_button"
+					onClick={() => setShowPreview(show => !show)}
+				>
+					<i
+						className={`fa-solid ${showPreview ? 'fa-eye-slash' : 'fa-eye'}`}
+					></i>{' '}
+					{showPreview ? 'Hide Preview' : 'Preview'}
+				</button>
+			</div>
+			{showPreview && <V2TemplatePreview templates={templates} />}
+
+			{expandedField && (
+				<ExpandableModal
+					title={expandedField.label}
+					value={
+						templates[expandedField.key] ||
+						expandedField.defaultTemplate
+					}
+					onChange={value => updateTemplate(expandedField.key, value)}
+					onClose={() => setExpanded(null)}
+					placeholder="Enter template with {{fields}}..."
+				/>
+			)}
+		</>
+	);
+}
+
+// ============================================
+// Injection Preview Section
+// ============================================
+
+function InjectionPreviewSection() {
+	const [showPreview, setShowPreview] = useState(false);
+
+	return (
+		<>
+			<div
+				className="flex-container flexFlowColumn"
+				style={{ marginBottom: '1em' }}
+			>
+				<label>Next Injection</label>
+				<small>
+					What would be injected for the next generation, with token
+					counts per section and the chapters and events left out for
+					the budget. Also available as /bt-inject-preview.
+				</small>
+				<div className="flex-container">
+					<button
+						className="menu_button"
+						onClick={() => setShowPreview(show => !show)}
+					>
+						<i
+							className={`fa-solid ${showPreview ? 'fa-eye-slash' : 'fa-eye'}`}
+						></i>{' '}
+						{showPreview
+							? 'Hide Preview'
+							: 'Preview Next Injection'}
+					</button>
+				</div>
+			</div>
+			{showPreview && <V2InjectionPreview />}
+		</>
+	);
+}
+
+// ============================================
+// Injection Placement Section
+// ============================================
+
+const PLACEMENT_SECTION_LABELS: Record<V2InjectionSection, string> = {
+	chapters: 'Chapters',
+	events: 'Events',
+	scene: 'Scene',
+	time: 'Time',
+	location: 'Location',
+	climate: 'Climate',
+	characters: 'Characters',
+	relationships: 'Relationships',
+};
+
+const PLACEMENT_POSITION_LABELS: Record<V2InjectionPosition, string> = {
+	system: 'System prompt',
+	beforeHistory: 'Before chat history',
+	atDepth: 'At depth',
+	afterLastUser: 'After last user message',
+};
+
+interface InjectionPlacementSectionProps {
+	settings: V2Settings;
+	onUpdate: <K extends keyof V2Settings>(key: K, value: V2Settings[K]) => void;
+}
+
+function InjectionPlacementSection({ settings, onUpdate }: InjectionPlacementSectionProps) {
+	const placements = settings.v2InjectionPlacements;
+
+	const updatePlacement = (
+		section: V2InjectionSection,
+		update: Partial<V2SectionPlacement>,
+	) => {
+		onUpdate('v2InjectionPlacements', {
+			...placements,
+			[section]: { ...placements[section], ...update },
+		});
+	};
+
+	return (
+		<div className="flex-container flexFlowColumn" style={{ marginBottom: '1em' }}>
+			<label>Injection Placement</label>
+			<small>
+				Where each section is injected. Sections with the same placement are
+				injected together. Depth counts messages from the end of the chat (0
+				= after the last message). Roles only apply to chat completion APIs.
+			</small>
+			<div className="bt-injection-placements">
+				{INJECTION_SECTIONS.map(section => {
+					const placement = placements[section];
+					return (
+						<div
+							className="bt-injection-placement-row"
+							key={section}
+						>
+							<span>
+								{PLACEMENT_SECTION_LABELS[section]}
+							</span>
+							<select
+								className="text_pole"
+								value={placement.position}
+								onChange={e =>
+									updatePlacement(section, {
+										position: e.target
+											.value as V2InjectionPosition,
+									})
+								}
+							>
+								{Object.entries(
+									PLACEMENT_POSITION_LABELS,
+								).map(([value, label]) => (
+									<option
+										key={value}
+										value={value}
+									>
+										{label}
+									</option>
+								))}
+							</select>
+							<input
+								type="number"
+								className="text_pole"
+								min="0"
+								max="999"
+								step="1"
+								value={placement.depth}
+								disabled={
+									placement.position !==
+									'atDepth'
+								}
+								title="Depth"
+								onChange={e => {
+									const value = parseInt(
+										e.target.value,
+										10,
+									);
+									if (
+										!isNaN(value) &&
+										value >= 0
+									) {
+										updatePlacement(
+											section,
+											{
+												depth: value,
+											},
+										);
+									}
+								}}
+							/>
+							<select
+								className="text_pole"
+								value={placement.role}
+								disabled={
+									placement.position ===
+									'system'
+								}
+								title="Role"
+								onChange={e =>
+									updatePlacement(section, {
+										role: e.target
+											.value as V2InjectionRole,
+									})
+								}
+							>
+								<option value="system">
+									System
+								</option>
+								<option value="user">User</option>
+								<option value="assistant">
+									Assistant
+								</option>
+							</select>
+						</div>
+					);
+				})}
+			</div>
+			<div>
+				<button
+					className="menu_button"
+					onClick={() =>
+						onUpdate(
+							'v2InjectionPlacements',
+							DEFAULT_V2_INJECTION_PLACEMENTS,
+						)
+					}
+				>
+					<i className="fa-solid fa-rotate-left"></i> Reset to Default
+				</button>
+			</div>
+		</div>
+	);
+}
+
+// ============================================
+// Relevance Filter Section
+// ============================================
+
+interface RelevanceFilterSectionProps {
+	settings: V2Settings;
+	onUpdate: <K extends keyof V2Settings>(key: K, value: V2Settings[K]) => void;
+}
+
+function RelevanceFilterSection({ settings, onUpdate }: RelevanceFilterSectionProps) {
+	const relevance = settings.v2RelevanceFilter;
+
+	const updateRelevance = (update: Partial<V2RelevanceSettings>) => {
+		onUpdate('v2RelevanceFilter', { ...relevance, ...update });
+	};
+
+	return (
+		<>
+			<SelectField
+				id="bt-v2-relevance-mode"
+				label="Relevance Filtering"
+				description="Inject only the characters and relationships in focus in full detail and list the rest in one line. Focus is scored from recent mentions, presence, {{user}}/{{char}} and recent events."
+				value={relevance.mode}
+				options={[
+					{ value: 'off', label: 'Off - inject everyone in full' },
+					{ value: 'always', label: 'Always' },
+					{
+						value: 'overBudget',
+						label: 'Only when over the token budget',
+					},
+				]}
+				onChange={v => updateRelevance({ mode: v as V2RelevanceMode })}
+			/>
+
+			{relevance.mode !== 'off' && (
+				<div className="flex-container" style={{ marginBottom: '1em' }}>
+					<div className="flex-container flexFlowColumn">
+						<label htmlFor="bt-v2-relevance-topk">
+							Characters in Focus
+						</label>
+						<small>
+							Characters and relationships injected in
+							full
+						</small>
+						<input
+							id="bt-v2-relevance-topk"
+							type="number"
+							className="text_pole"
+							min="1"
+							max="50"
+							step="1"
+							value={relevance.topK}
+							onChange={e => {
+								const value = parseInt(
+									e.target.value,
+									10,
+								);
+								if (
+									!isNaN(value) &&
+									value >= 1 &&
+									value <= 50
+								) {
+									updateRelevance({
+										topK: value,
+									});
+								}
+							}}
+							style={{ width: '120px' }}
+						/>
+					</div>
+					<div className="flex-container flexFlowColumn">
+						<label htmlFor="bt-v2-relevance-messages">
+							Messages Scanned
+						</label>
+						<small>Recent messages searched for mentions</small>
+						<input
+							id="bt-v2-relevance-messages"
+							type="number"
+							className="text_pole"
+							min="1"
+							max="50"
+							step="1"
+							value={relevance.recentMessages}
+							onChange={e => {
+								const value = parseInt(
+									e.target.value,
+									10,
+								);
+								if (
+									!isNaN(value) &&
+									value >= 1 &&
+									value <= 50
+								) {
+									updateRelevance({
+										recentMessages:
+											value,
+									});
+								}
+							}}
+							style={{ width: '120px' }}
+						/>
+					</div>
+				</div>
+			)}
+		</>
+	);
+}
+
+// ============================================
+// History Retrieval Section
+// ============================================
+
+interface HistoryRetrievalSectionProps {
+	settings: V2Settings;
+	onUpdate: <K extends keyof V2Settings>(key: K, value: V2Settings[K]) => void;
+}
+
+function HistoryRetrievalSection({ settings, onUpdate }: HistoryRetrievalSectionProps) {
+	const retrieval = settings.v2HistoryRetrieval;
+
+	const updateRetrieval = (update: Partial<V2HistoryRetrievalSettings>) => {
+		onUpdate('v2HistoryRetrieval', { ...retrieval, ...update });
+	};
+
+	return (
+		<>
+			<SelectField
+				id="bt-v2-retrieval-selection"
+				label="Past Chapters and Events"
+				description="Which past chapters and out-of-context events fill the narrative injection. Relevant ones are scored by the present characters they involve, relationship subjects, the current place and keyword overlap with recent messages."
+				value={retrieval.selection}
+				options={[
+					{ value: 'recent', label: 'Most recent' },
+					{ value: 'relevant', label: 'Most relevant to the scene' },
+				]}
+				onChange={v =>
+					updateRetrieval({ selection: v as V2HistorySelection })
+				}
+			/>
+
+			{retrieval.selection === 'relevant' && (
+				<>
+					<div
+						className="flex-container flexFlowColumn"
+						style={{ marginBottom: '1em' }}
+					>
+						<label htmlFor="bt-v2-retrieval-messages">
+							Messages Scanned
+						</label>
+						<small>
+							Recent messages matched against past
+							chapters and events
+						</small>
+						<input
+							id="bt-v2-retrieval-messages"
+							type="number"
+							className="text_pole"
+							min="1"
+							max="50"
+							step="1"
+							value={retrieval.recentMessages}
+							onChange={e => {
+								const value = parseInt(
+									e.target.value,
+									10,
+								);
+								if (
+									!isNaN(value) &&
+									value >= 1 &&
+									value <= 50
+								) {
+									updateRetrieval({
+										recentMessages:
+											value,
+									});
+								}
+							}}
+							style={{ width: '120px' }}
+						/>
+					</div>
+
+					<CheckboxField
+						id="bt-v2-retrieval-embeddings"
+						label="Use Embeddings"
+						description="Also score by embedding similarity, from an OpenAI-compatible /embeddings endpoint such as a local Ollama or llama.cpp server. Falls back to keywords if it can't be reached."
+						checked={retrieval.embeddings}
+						onChange={checked =>
+							updateRetrieval({ embeddings: checked })
+						}
+					/>
+
+					{retrieval.embeddings && (
+						<>
+							<div className="flex-container flexFlowColumn">
+								<label htmlFor="bt-v2-retrieval-url">
+									Embeddings Base URL
+								</label>
+								<small>
+									Including the version path,
+									e.g.
+									http://localhost:11434/v1
+								</small>
+								<input
+									id="bt-v2-retrieval-url"
+									type="text"
+									className="text_pole"
+									value={
+										retrieval.embeddingsBaseUrl
+									}
+									onChange={e =>
+										updateRetrieval({
+											embeddingsBaseUrl:
+												e
+													.target
+													.value,
+										})
+									}
+									placeholder="http://localhost:11434/v1"
+								/>
+							</div>
+							<div className="flex-container flexFlowColumn">
+								<label htmlFor="bt-v2-retrieval-model">
+									Embeddings Model
+								</label>
+								<input
+									id="bt-v2-retrieval-model"
+									type="text"
+									className="text_pole"
+									value={
+										retrieval.embeddingsModel
+									}
+									onChange={e =>
+										updateRetrieval({
+											embeddingsModel:
+												e
+													.target
+													.value,
+										})
+									}
+									placeholder="nomic-embed-text"
+								/>
+							</div>
+							<div
+								className="flex-container flexFlowColumn"
+								style={{ marginBottom: '1em' }}
+							>
+								<label htmlFor="bt-v2-retrieval-key">
+									API Key
+								</label>
+								<small>
+									Optional. Stored in plain
+									text in SillyTavern's
+									extension settings.
+								</small>
+								<input
+									id="bt-v2-retrieval-key"
+									type="password"
+									className="text_pole"
+									value={
+										retrieval.embeddingsApiKey
+									}
+									onChange={e =>
+										updateRetrieval({
+											embeddingsApiKey:
+												e
+													.target
+													.value,
+										})
+									}
+									autoComplete="off"
+								/>
+							</div>
+						</>
+					)}
+				</>
+			)}
+		</>
+	);
+}
+
+// ============================================
+// Scene Settings Section
+// ============================================
+
+interface SceneSettingsSectionProps {
+	settings: V2Settings;
+	onUpdate: <K extends keyof V2Settings>(key: K, value: V2Settings[K]) => void;
+}
+
+function SceneSettingsSection({ settings, onUpdate }: SceneSettingsSectionProps) {
+	const scenes = settings.v2Scenes;
+
+	const updateScenes = (update: Partial<V2SceneSettings>) => {
+		onUpdate('v2Scenes', { ...scenes, ...update });
+	};
+
+	return (
+		<>
+			<CheckboxField
+				id="bt-v2-scenes-enabled"
+				label="Track Scenes"
+				description="Split chapters into scenes when the characters move, time skips ahead or the cast changes. Each scene gets a short title and summary."
+				checked={scenes.enabled}
+				onChange={checked => updateScenes({ enabled: checked })}
+			/>
+
+			{scenes.enabled && (
+				<>
+					<CheckboxField
+						id="bt-v2-scenes-confirm"
+						label="Confirm Scene Breaks"
+						description="Ask the LLM whether a flagged change really starts a new scene (one extra call per flagged message)"
+						checked={scenes.confirmWithLLM}
+						onChange={checked =>
+							updateScenes({ confirmWithLLM: checked })
+						}
+					/>
+
+					<CheckboxField
+						id="bt-v2-scenes-presence"
+						label="Break on Cast Changes"
+						description="Flag a scene break when at least half the characters present arrive or leave"
+						checked={scenes.presenceChanges}
+						onChange={checked =>
+							updateScenes({ presenceChanges: checked })
+						}
+					/>
+
+					<div
+						className="flex-container flexFlowColumn"
+						style={{ marginBottom: '1em' }}
+					>
+						<label htmlFor="bt-v2-scenes-timejump">
+							Time Jump (minutes)
+						</label>
+						<small>
+							Time skips of at least this many minutes
+							flag a scene break
+						</small>
+						<input
+							id="bt-v2-scenes-timejump"
+							type="number"
+							className="text_pole"
+							min="1"
+							step="1"
+							value={scenes.timeJumpMinutes}
+							onChange={e => {
+								const value = parseInt(
+									e.target.value,
+									10,
+								);
+								if (!isNaN(value) && value >= 1) {
+									updateScenes({
+										timeJumpMinutes:
+											value,
+									});
+								}
+							}}
+							style={{ width: '120px' }}
+						/>
+					</div>
+				</>
+			)}
+		</>
+	);
+}
+
+// ============================================
+// Lorebook Sync Section
+// ============================================
+
+const LOREBOOK_SECTIONS: Array<{
+	key: 'characters' | 'relationships' | 'locations' | 'chapters';
+	label: string;
+}> = [
+	{ key: 'characters', label: 'Characters' },
+	{ key: 'relationships', label: 'Relationships' },
+	{ key: 'locations', label: 'Locations' },
+	{ key: 'chapters', label: 'Chapters' },
+];
+
+interface LorebookSyncSectionProps {
+	settings: V2Settings;
+	onUpdate: <K extends keyof V2Settings>(key: K, value: V2Settings[K]) => void;
+}
+
+function LorebookSyncSection({ settings, onUpdate }: LorebookSyncSectionProps) {
+	const lorebookSync = settings.v2LorebookSync;
+	const [syncing, setSyncing] = useState(false);
+	const [status, setStatus] = useState<string | null>(null);
+
+	const updateLorebookSync = (update: Partial<V2LorebookSyncSettings>) => {
+		onUpdate('v2LorebookSync', { ...lorebookSync, ...update });
+	};
+
+	const handleSync = async () => {
+		const store = getV2EventStoreForEditor();
+		if (!store || !store.hasInitialSnapshot) {
+			setStatus('Open a chat with tracked state to sync.');
+			return;
+		}
+
+		setSyncing(true);
+		try {
+			const stContext = SillyTavern.getContext() as unknown as STContext;
+			const result = await syncLorebook(
+				store,
+				stContext,
+				buildSwipeContext(stContext),
+			);
+			if (!result) {
+				setStatus('Sync failed - see the console for details.');
+				return;
+			}
+			const edited =
+				result.edited.length > 0
+					? ` Left alone (edited by hand): ${result.edited.join(', ')}.`
+					: '';
+			setStatus(
+				`Synced "${result.lorebook}": ${result.created} created, ${result.updated} updated, ${result.removed} removed.${edited}`,
+			);
+		} finally {
+			setSyncing(false);
+		}
+	};
+
+	return (
+		<>
+			<CheckboxField
+				id="bt-v2-lorebook-enabled"
+				label="Sync Lorebook"
+				description="Keep a lorebook in sync with the tracked state, with one entry per character, relationship, place and completed chapter, activated by keyword. Entries you edit by hand are no longer updated."
+				checked={lorebookSync.enabled}
+				onChange={checked => updateLorebookSync({ enabled: checked })}
+			/>
+
+			{lorebookSync.enabled && (
+				<>
+					<div
+						className="flex-container flexFlowColumn"
+						style={{ marginBottom: '1em' }}
+					>
+						<label htmlFor="bt-v2-lorebook-name">
+							Lorebook
+						</label>
+						<small>
+							Leave empty to create a lorebook for the
+							chat and bind it (needs a chat without a
+							lorebook of its own)
+						</small>
+						<input
+							id="bt-v2-lorebook-name"
+							type="text"
+							className="text_pole"
+							value={lorebookSync.lorebook}
+							onChange={e =>
+								updateLorebookSync({
+									lorebook: e.target.value,
+								})
+							}
+							placeholder="BlazeTracker - <chat>"
+							style={{ width: '200px' }}
+						/>
+					</div>
+
+					<div className="bt-lorebook-sections">
+						{LOREBOOK_SECTIONS.map(({ key, label }) => (
+							<label key={key} className="checkbox_label">
+								<input
+									type="checkbox"
+									checked={lorebookSync[key]}
+									onChange={e =>
+										updateLorebookSync({
+											[key]: e
+												.target
+												.checked,
+										})
+									}
+								/>
+								<span>{label}</span>
+							</label>
+						))}
+					</div>
+
+					<div
+						className="flex-container alignItemsCenter"
+						style={{ marginBottom: '1em' }}
+					>
+						<button
+							className="menu_button"
+							onClick={handleSync}
+							disabled={syncing}
+						>
+							<i className="fa-solid fa-book"></i> Sync
+							Now
+						</button>
+						{status && (
+							<small style={{ flex: 1 }}>{status}</small>
+						)}
+					</div>
+				</>
+			)}
+		</>
+	);
+}
+
+// ============================================
+// Climate Data Section
+// ============================================
+
+interface ClimateDataSectionProps {
+	settings: V2Settings;
+	onUpdate: <K extends keyof V2Settings>(key: K, value: V2Settings[K]) => void;
+}
+
+function ClimateDataSection({ settings, onUpdate }: ClimateDataSectionProps) {
+	const climateData = settings.v2ClimateData;
+	const [status, setStatus] = useState<string | null>(null);
+
+	const updateClimateData = (update: Partial<V2ClimateDataSettings>) => {
+		onUpdate('v2ClimateData', { ...climateData, ...update });
+	};
+
+	const handleFile = async (file: File) => {
+		try {
+			const { cities, skipped } = parseCityClimateFile(await file.text());
+			updateClimateData({ fileName: file.name, fileCities: cities });
+			setStatus(
+				`Loaded ${cities.length} cities` +
+					(skipped > 0
+						? ` (${skipped} invalid entries skipped)`
+						: ''),
+			);
+		} catch (error) {
+			setStatus(`Could not read the file: ${(error as Error).message}`);
+		}
+	};
+
+	return (
+		<>
+			<SelectField
+				id="bt-v2-climate-source"
+				label="Climate Data"
+				description="Where monthly climate normals for real places come from"
+				value={climateData.source}
+				options={[
+					{
+						value: 'auto',
+						label: 'Online, offline when unreachable',
+					},
+					{ value: 'network', label: 'Online only (Open-Meteo)' },
+					{ value: 'offline', label: 'Offline (bundled cities)' },
+					{ value: 'file', label: 'Climate data file' },
+				]}
+				onChange={v => updateClimateData({ source: v as V2ClimateSource })}
+			/>
+
+			{climateData.source === 'file' && (
+				<div
+					className="flex-container flexFlowColumn"
+					style={{ marginBottom: '1em' }}
+				>
+					<small>
+						A JSON list of cities with monthly highs, lows,
+						precip, precipDays and humidity (metric), as in the
+						bundled dataset. Places not in the file use the
+						bundled cities.
+					</small>
+					<input
+						id="bt-v2-climate-file"
+						type="file"
+						accept=".json,application/json"
+						onChange={e => {
+							const file = e.target.files?.[0];
+							if (file) handleFile(file);
+						}}
+					/>
+					<small>
+						{status ??
+							(climateData.fileName
+								? `${climateData.fileName}: ${climateData.fileCities.length} cities`
+								: 'No file loaded')}
+					</small>
+				</div>
+			)}
+		</>
+	);
+}
+
+// ============================================
+// Extractor Strategies Section
+// ============================================
+
+const RUN_STRATEGY_LABELS: Record<ConfigurableRunStrategyName, string> = {
+	everyMessage: 'Every message',
+	everyUserMessage: 'Every user message',
+	everyAssistantMessage: 'Every assistant message',
+	everyNMessages: 'Every N messages',
+	nSinceLastProducedEvents: 'N messages after its last change',
+	nSinceLastEventOfKind: 'N messages after an event',
+	newEventsOfKind: 'When an event happens',
+};
+
+const MESSAGE_STRATEGY_LABELS: Record<MessageStrategyName, string> = {
+	fixedNumber: 'Last N messages',
+	lastXMessages: 'Last N messages',
+	sinceLastEvent: 'Since the last event',
+	sinceLastEventOfKind: 'Since an event',
+};
+
+/** Event kinds new strategies watch until the user picks others */
+const DEFAULT_STRATEGY_KINDS: V2StrategyEventKind[] = [{ kind: 'location', subkind: 'moved' }];
+
+/**
+ * Starting values for a newly picked run strategy.
+ */
+function createRunStrategy(name: ConfigurableRunStrategyName): V2RunStrategy {
+	switch (name) {
+		case 'everyNMessages':
+			return { strategy: name, n: 2 };
+		case 'nSinceLastProducedEvents':
+			return { strategy: name, n: 4 };
+		case 'nSinceLastEventOfKind':
+			return { strategy: name, n: 4, kinds: DEFAULT_STRATEGY_KINDS };
+		case 'newEventsOfKind':
+			return { strategy: name, kinds: DEFAULT_STRATEGY_KINDS };
+		default:
+			return { strategy: name };
+	}
+}
+
+/**
+ * Starting values for a newly picked message strategy.
+ */
+function createMessageStrategy(name: MessageStrategyName): V2MessageStrategy {
+	switch (name) {
+		case 'fixedNumber':
+			return { strategy: name, n: 4 };
+		case 'lastXMessages':
+			return { strategy: name, x: 4 };
+		case 'sinceLastEventOfKind':
+			return { strategy: name, kinds: DEFAULT_STRATEGY_KINDS };
+		default:
+			return { strategy: name };
+	}
+}
+
+/**
+ * Text input for a list of event kinds, applied when it loses focus so
+ * half-typed kinds aren't reformatted away.
+ */
+function KindsInput({
+	kinds,
+	onChange,
+}: {
+	kinds: V2StrategyEventKind[];
+	onChange: (kinds: V2StrategyEventKind[]) => void;
+}) {
+	const [text, setText] = useState(() => formatKinds(kinds));
+
+	return (
+		<input
+			type="text"
+			className="text_pole"
+			value={text}
+			placeholder="location:moved"
+			title="Event kinds, comma-separated (e.g. location:moved, character:appeared)"
+			onChange={e => setText(e.target.value)}
+			onBlur={() => onChange(parseKinds(text))}
+		/>
+	);
+}
+
+/**
+ * Number input for a strategy parameter.
+ */
+function StrategyNumberInput({
+	label,
+	value,
+	min,
+	onChange,
+}: {
+	label: string;
+	value: number;
+	min: number;
+	onChange: (value: number) => void;
+}) {
+	return (
+		<label className="bt-strategy-param">
+			{label}
+			<input
+				type="number"
+				className="text_pole"
+				min={min}
+				step="1"
+				value={value}
+				onChange={e => {
+					const parsed = parseInt(e.target.value, 10);
+					if (!isNaN(parsed)) onChange(parsed);
+				}}
+			/>
+		</label>
+	);
+}
+
+interface ExtractorStrategyRowProps {
+	extractor: Omit<EventExtractor, 'run'>;
+	scope: ExtractorScope;
+	strategy: V2ExtractorStrategy | undefined;
+	/** Projected LLM calls per message with the current strategy */
+	calls: number | undefined;
+	onChange: (strategy: V2ExtractorStrategy | undefined) => void;
+}
+
+function ExtractorStrategyRow({
+	extractor,
+	scope,
+	strategy,
+	calls,
+	onChange,
+}: ExtractorStrategyRowProps) {
+	const allowed = extractor.configurableStrategies ?? { run: [], message: [] };
+	const run = strategy?.runStrategy;
+	const messages = strategy?.messageStrategy;
+	const error = strategy
+		? validateStrategyOverride(extractor, strategy as ExtractorStrategyOverride)
+		: null;
+
+	// Drop the entry once both strategies are back to default
+	const update = (next: V2ExtractorStrategy) => {
+		onChange(next.runStrategy || next.messageStrategy ? next : undefined);
+	};
+	const updateRun = (runStrategy: V2RunStrategy | undefined) =>
+		update({ ...strategy, runStrategy });
+	const updateMessages = (messageStrategy: V2MessageStrategy | undefined) =>
+		update({ ...strategy, messageStrategy });
+
+	return (
+		<div className="bt-strategy-row">
+			<div className="bt-strategy-name">
+				<strong>{extractor.displayName}</strong>
+				{scope !== 'global' && (
+					<small>
+						{scope === 'perCharacter'
+							? ' per character'
+							: ' per pair'}
+					</small>
+				)}
+				{calls !== undefined && (
+					<small className="bt-strategy-calls">
+						{calls.toFixed(2)} calls/message
+					</small>
+				)}
+			</div>
+
+			<div className="bt-strategy-fields">
+				<span>Runs</span>
+				<select
+					className="text_pole"
+					value={run?.strategy ?? ''}
+					onChange={e =>
+						updateRun(
+							e.target.value
+								? createRunStrategy(
+										e.target
+											.value as ConfigurableRunStrategyName,
+									)
+								: undefined,
+						)
+					}
+				>
+					<option value="">
+						Default (
+						{describeRunStrategy(extractor.runStrategy)})
+					</option>
+					{allowed.run.map(name => (
+						<option key={name} value={name}>
+							{RUN_STRATEGY_LABELS[name]}
+						</option>
+					))}
+				</select>
+				{run && 'n' in run && (
+					<StrategyNumberInput
+						label="N"
+						value={run.n}
+						min={1}
+						onChange={n => updateRun({ ...run, n })}
+					/>
+				)}
+				{run?.strategy === 'everyNMessages' && (
+					<StrategyNumberInput
+						label="Offset"
+						value={run.offset ?? 0}
+						min={0}
+						onChange={offset => updateRun({ ...run, offset })}
+					/>
+				)}
+				{run && 'kinds' in run && (
+					<KindsInput
+						key={run.strategy}
+						kinds={run.kinds}
+						onChange={kinds => updateRun({ ...run, kinds })}
+					/>
+				)}
+			</div>
+
+			{allowed.message.length > 0 && (
+				<div className="bt-strategy-fields">
+					<span>Reads</span>
+					<select
+						className="text_pole"
+						value={messages?.strategy ?? ''}
+						onChange={e =>
+							updateMessages(
+								e.target.value
+									? createMessageStrategy(
+											e.target
+												.value as MessageStrategyName,
+										)
+									: undefined,
+							)
+						}
+					>
+						<option value="">
+							Default (
+							{describeMessageStrategy(
+								extractor.messageStrategy,
+							)}
+							)
+						</option>
+						{allowed.message.map(name => (
+							<option key={name} value={name}>
+								{MESSAGE_STRATEGY_LABELS[name]}
+							</option>
+						))}
+					</select>
+					{messages?.strategy === 'fixedNumber' && (
+						<StrategyNumberInput
+							label="N"
+							value={messages.n}
+							min={1}
+							onChange={n =>
+								updateMessages({ ...messages, n })
+							}
+						/>
+					)}
+					{messages?.strategy === 'lastXMessages' && (
+						<StrategyNumberInput
+							label="N"
+							value={messages.x}
+							min={1}
+							onChange={x =>
+								updateMessages({ ...messages, x })
+							}
+						/>
+					)}
+					{messages?.strategy === 'sinceLastEventOfKind' && (
+						<KindsInput
+							key={messages.strategy}
+							kinds={messages.kinds}
+							onChange={kinds =>
+								updateMessages({
+									...messages,
+									kinds,
+								})
+							}
+						/>
+					)}
+				</div>
+			)}
+
+			{error && (
+				<small className="bt-strategy-error">
+					{error} - the default is used until this is fixed
+				</small>
+			)}
+		</div>
+	);
+}
+
+interface ExtractorStrategiesSectionProps {
+	settings: V2Settings;
+	onUpdate: <K extends keyof V2Settings>(key: K, value: V2Settings[K]) => void;
 }
 
-function PromptListItem({
-	definition,
-	isCustomized,
-	hasCustomTemperature,
-	customTemperature,
-	onClick,
-}: PromptListItemProps) {
+function ExtractorStrategiesSection({ settings, onUpdate }: ExtractorStrategiesSectionProps) {
+	const [characters, setCharacters] = useState(3);
+	const extractors = useMemo(() => getAllEventExtractors(), []);
+	const extractionSettings = useMemo(
+		() => buildExtractionSettingsFromV2(settings),
+		[settings],
+	);
+
+	const estimate = useMemo(
+		() => estimateCallsPerMessage(extractors, extractionSettings, characters),
+		[extractors, extractionSettings, characters],
+	);
+	const callsByName = new Map(estimate.extractors.map(e => [e.name, e.calls]));
+	const eventTriggered = estimate.extractors
+		.filter(e => e.eventTriggered)
+		.map(e => e.displayName);
+
+	// Only extractors that are tracked and can be reconfigured
+	const configurable = extractors.filter(
+		({ extractor }) =>
+			extractor.configurableStrategies &&
+			extractionSettings.track[extractor.category],
+	);
+
+	const updateStrategy = (name: string, strategy: V2ExtractorStrategy | undefined) => {
+		const strategies = { ...settings.v2ExtractorStrategies };
+		if (strategy) {
+			strategies[name] = strategy;
+		} else {
+			delete strategies[name];
+		}
+		onUpdate('v2ExtractorStrategies', strategies);
+	};
+
 	return (
-		<div className="bt-prompt-item" onClick={onClick}>
-			<div className="bt-prompt-item-header">
-				<div className="bt-prompt-item-title">
-					<span className="bt-prompt-name">{definition.name}</span>
-				</div>
-				<div className="bt-prompt-item-badges">
-					{hasCustomTemperature && (
-						<span
-							className="bt-prompt-badge bt-prompt-temp-badge"
-							title="Custom temperature"
-						>
-							<i className="fa-solid fa-temperature-half"></i>{' '}
-							{customTemperature?.toFixed(2)}
-						</span>
-					)}
-					{isCustomized && (
-						<span
-							className="bt-prompt-badge bt-prompt-customized"
-							title="Custom prompt"
-						>
-							<i className="fa-solid fa-pen"></i>
-						</span>
-					)}
+		<>
+			<div className="bt-strategy-estimate">
+				<label className="bt-strategy-param">
+					Characters present
+					<input
+						type="number"
+						className="text_pole"
+						min="1"
+						max="20"
+						step="1"
+						value={characters}
+						onChange={e => {
+							const value = parseInt(e.target.value, 10);
+							if (!isNaN(value) && value >= 1) {
+								setCharacters(value);
+							}
+						}}
+					/>
+				</label>
+				<div>
+					About <strong>{estimate.total.toFixed(1)}</strong> LLM calls
+					per message
 				</div>
+				{eventTriggered.length > 0 && (
+					<small>
+						Plus calls when something happens in the story:{' '}
+						{eventTriggered.join(', ')}
+					</small>
+				)}
 			</div>
-			<small className="bt-prompt-description">{definition.description}</small>
-		</div>
+
+			<div className="bt-strategy-list">
+				{configurable.map(({ extractor, scope }) => (
+					<ExtractorStrategyRow
+						key={extractor.name}
+						extractor={extractor}
+						scope={scope}
+						strategy={
+							settings.v2ExtractorStrategies[
+								extractor.name
+							]
+						}
+						calls={callsByName.get(extractor.name)}
+						onChange={strategy =>
+							updateStrategy(extractor.name, strategy)
+						}
+					/>
+				))}
+			</div>
+		</>
 	);
 }
 
@@ -637,26 +2136,146 @@ function V2SettingsPanel() {
 
 	return (
 		<div className="blazetracker-settings-content">
-			{/* Connection Profile */}
-			<div className="flex-container flexFlowColumn">
-				<label htmlFor="bt-v2-profile">Connection Profile</label>
-				<small>
-					Select which API connection to use for state extraction
-				</small>
-				<select
-					id="bt-v2-profile"
-					className="text_pole"
-					value={settings.v2ProfileId}
-					onChange={e => handleUpdate('v2ProfileId', e.target.value)}
-				>
-					<option value="">-- Select a profile --</option>
-					{profiles.map(profile => (
-						<option key={profile.id} value={profile.id}>
-							{profile.name || profile.id}
-						</option>
-					))}
-				</select>
-			</div>
+			{/* Backend */}
+			<SelectField
+				id="bt-v2-backend"
+				label="Extraction Backend"
+				description="Send extraction requests through a SillyTavern connection profile, or directly to an OpenAI-compatible API"
+				value={settings.v2GeneratorBackend}
+				options={[
+					{
+						value: 'sillytavern',
+						label: 'SillyTavern connection profile',
+					},
+					{
+						value: 'openai-compatible',
+						label: 'OpenAI-compatible API',
+					},
+				]}
+				onChange={v =>
+					handleUpdate('v2GeneratorBackend', v as V2GeneratorBackend)
+				}
+			/>
+
+			{settings.v2GeneratorBackend === 'sillytavern' ? (
+				<div className="flex-container flexFlowColumn">
+					<label htmlFor="bt-v2-profile">Connection Profile</label>
+					<small>
+						Select which API connection to use for state
+						extraction
+					</small>
+					<select
+						id="bt-v2-profile"
+						className="text_pole"
+						value={settings.v2ProfileId}
+						onChange={e =>
+							handleUpdate('v2ProfileId', e.target.value)
+						}
+					>
+						<option value="">-- Select a profile --</option>
+						{profiles.map(profile => (
+							<option key={profile.id} value={profile.id}>
+								{profile.name || profile.id}
+							</option>
+						))}
+					</select>
+				</div>
+			) : (
+				<>
+					<div className="flex-container flexFlowColumn">
+						<label htmlFor="bt-v2-direct-url">
+							API Base URL
+						</label>
+						<small>
+							Including the version path, e.g.
+							http://localhost:8080/v1
+						</small>
+						<input
+							id="bt-v2-direct-url"
+							type="text"
+							className="text_pole"
+							value={settings.v2DirectBaseUrl}
+							onChange={e =>
+								handleUpdate(
+									'v2DirectBaseUrl',
+									e.target.value,
+								)
+							}
+							placeholder="http://localhost:8080/v1"
+						/>
+					</div>
+					<div className="flex-container flexFlowColumn">
+						<label htmlFor="bt-v2-direct-model">Model</label>
+						<small>Model name sent with each request</small>
+						<input
+							id="bt-v2-direct-model"
+							type="text"
+							className="text_pole"
+							value={settings.v2DirectModel}
+							onChange={e =>
+								handleUpdate(
+									'v2DirectModel',
+									e.target.value,
+								)
+							}
+						/>
+					</div>
+					<div className="flex-container flexFlowColumn">
+						<label htmlFor="bt-v2-direct-key">API Key</label>
+						<small>
+							Optional. Stored in plain text in
+							SillyTavern's extension settings.
+						</small>
+						<input
+							id="bt-v2-direct-key"
+							type="password"
+							className="text_pole"
+							value={settings.v2DirectApiKey}
+							onChange={e =>
+								handleUpdate(
+									'v2DirectApiKey',
+									e.target.value,
+								)
+							}
+							autoComplete="off"
+						/>
+					</div>
+					<CheckboxField
+						id="bt-v2-direct-stream"
+						label="Stream Responses"
+						description="Request streamed responses (helps with proxies that time out long requests)"
+						checked={settings.v2DirectStream}
+						onChange={checked =>
+							handleUpdate('v2DirectStream', checked)
+						}
+					/>
+				</>
+			)}
+
+			<SelectField
+				id="bt-v2-structured-output"
+				label="Structured Output"
+				description="Send each prompt's response schema so the backend can constrain its output to valid JSON. Pick the format your backend supports."
+				value={settings.v2StructuredOutput}
+				options={[
+					{ value: 'off', label: 'Off' },
+					{
+						value: 'json_schema',
+						label: 'JSON schema (OpenAI, SillyTavern chat completion)',
+					},
+					{
+						value: 'grammar',
+						label: 'GBNF grammar (llama.cpp, KoboldCpp)',
+					},
+					{
+						value: 'guided_json',
+						label: 'Guided JSON (vLLM, TabbyAPI)',
+					},
+				]}
+				onChange={v =>
+					handleUpdate('v2StructuredOutput', v as V2StructuredOutput)
+				}
+			/>
 
 			<hr />
 
@@ -1000,6 +2619,94 @@ function V2SettingsPanel() {
 							/>
 						</div>
 
+						{/* Extraction Concurrency */}
+						<div
+							className="flex-container flexFlowColumn"
+							style={{ marginBottom: '1em' }}
+						>
+							<label htmlFor="bt-v2-concurrency">
+								Parallel Extractors
+							</label>
+							<small>
+								Extractors that don't depend on each
+								other run at the same time (1 = one
+								at a time). Your backend must accept
+								parallel requests.
+							</small>
+							<input
+								id="bt-v2-concurrency"
+								type="number"
+								className="text_pole"
+								min="1"
+								max="16"
+								step="1"
+								value={
+									settings.v2ExtractionConcurrency
+								}
+								onChange={e => {
+									const value = parseInt(
+										e.target.value,
+										10,
+									);
+									if (
+										!isNaN(value) &&
+										value >= 1
+									) {
+										handleUpdate(
+											'v2ExtractionConcurrency',
+											value,
+										);
+									}
+								}}
+								style={{ width: '120px' }}
+							/>
+						</div>
+
+						{/* Batched Extraction */}
+						<CheckboxField
+							id="bt-v2-batch-characters"
+							label="Batch Character Extractors"
+							description="Ask about all present characters in one call instead of one call per character (falls back to per-character calls if the answer can't be parsed)"
+							checked={
+								settings.v2BatchedExtraction
+									.characters
+							}
+							onChange={checked =>
+								handleUpdate(
+									'v2BatchedExtraction',
+									{
+										...settings.v2BatchedExtraction,
+										characters: checked,
+									},
+								)
+							}
+						/>
+						<CheckboxField
+							id="bt-v2-batch-relationships"
+							label="Batch Relationship Extractors"
+							description="Ask about all character pairs in one call instead of one call per pair (falls back to per-pair calls if the answer can't be parsed)"
+							checked={
+								settings.v2BatchedExtraction
+									.relationships
+							}
+							onChange={checked =>
+								handleUpdate(
+									'v2BatchedExtraction',
+									{
+										...settings.v2BatchedExtraction,
+										relationships:
+											checked,
+									},
+								)
+							}
+						/>
+
+						{/* Response Cache */}
+						<GenerationCacheSection
+							settings={settings}
+							onUpdate={handleUpdate}
+						/>
+
 						{/* Max Messages to Send */}
 						<div
 							className="flex-container flexFlowColumn"
@@ -1080,6 +2787,52 @@ function V2SettingsPanel() {
 							/>
 						</div>
 
+						{/* Chapters Per Arc */}
+						<div
+							className="flex-container flexFlowColumn"
+							style={{ marginBottom: '1em' }}
+						>
+							<label htmlFor="bt-v2-chaptersperarc">
+								Chapters Per Arc
+							</label>
+							<small>
+								Completed chapters condensed into
+								each arc summary. Arcs replace older
+								chapters in Story So Far (0 = no
+								arcs)
+							</small>
+							<input
+								id="bt-v2-chaptersperarc"
+								type="number"
+								className="text_pole"
+								min="0"
+								max="50"
+								step="1"
+								value={settings.v2ChaptersPerArc}
+								onChange={e => {
+									const value = parseInt(
+										e.target.value,
+										10,
+									);
+									if (
+										!isNaN(value) &&
+										value >= 0
+									) {
+										handleUpdate(
+											'v2ChaptersPerArc',
+											value,
+										);
+									}
+								}}
+								style={{ width: '120px' }}
+							/>
+						</div>
+
+						<SceneSettingsSection
+							settings={settings}
+							onUpdate={handleUpdate}
+						/>
+
 						<hr />
 
 						{/* Context Injection Settings Section */}
@@ -1238,6 +2991,24 @@ function V2SettingsPanel() {
 							/>
 						</div>
 
+						{/* Relevance Filtering */}
+						<RelevanceFilterSection
+							settings={settings}
+							onUpdate={handleUpdate}
+						/>
+
+						{/* Past chapters and events */}
+						<HistoryRetrievalSection
+							settings={settings}
+							onUpdate={handleUpdate}
+						/>
+
+						{/* Injection Templates */}
+						<InjectionTemplatesSection
+							settings={settings}
+							onUpdate={handleUpdate}
+						/>
+
 						<hr />
 
 						{/* Prompt Prefix */}
@@ -1296,45 +3067,67 @@ function V2SettingsPanel() {
 							/>
 						</div>
 
-						{/* Injection Depth */}
-						<div
-							className="flex-container flexFlowColumn"
-							style={{ marginBottom: '1em' }}
-						>
-							<label htmlFor="bt-v2-injectdepth">
-								Injection Depth
-							</label>
+						{/* Injection Placement */}
+						<InjectionPlacementSection
+							settings={settings}
+							onUpdate={handleUpdate}
+						/>
+
+						{/* Injection Preview */}
+						<InjectionPreviewSection />
+
+						{/* Lorebook Sync Section */}
+						<div className="bt-section-header">
+							<strong>Lorebook</strong>
 							<small>
-								Chat depth that the tracker will be
-								injected at (0 = default behavior)
+								Mirror tracked state into a lorebook
+								for keyword activation
+							</small>
+						</div>
+
+						<LorebookSyncSection
+							settings={settings}
+							onUpdate={handleUpdate}
+						/>
+
+						{/* Weather Section */}
+						<div className="bt-section-header">
+							<strong>Weather</strong>
+							<small>
+								Climate data for real places and
+								custom climates for fictional areas
+							</small>
+						</div>
+
+						<ClimateDataSection
+							settings={settings}
+							onUpdate={handleUpdate}
+						/>
+
+						<ClimateProfilesEditor
+							profiles={settings.v2ClimateProfiles}
+							onChange={profiles =>
+								handleUpdate(
+									'v2ClimateProfiles',
+									profiles,
+								)
+							}
+						/>
+
+						{/* Extractor Strategies Section */}
+						<div className="bt-section-header">
+							<strong>Run Strategies</strong>
+							<small>
+								When each extractor runs and which
+								messages it reads
 							</small>
-							<input
-								id="bt-v2-injectiondepth"
-								type="number"
-								className="text_pole"
-								min="0"
-								max="999"
-								step="1"
-								value={settings.v2InjectionDepth}
-								onChange={e => {
-									const value = parseInt(
-										e.target.value,
-										10,
-									);
-									if (
-										!isNaN(value) &&
-										value >= 0
-									) {
-										handleUpdate(
-											'v2InjectionDepth',
-											value,
-										);
-									}
-								}}
-								style={{ width: '120px' }}
-							/>
 						</div>
 
+						<ExtractorStrategiesSection
+							settings={settings}
+							onUpdate={handleUpdate}
+						/>
+
 						{/* Temperature Sliders */}
 						<div className="bt-temperature-section">
 							<div className="bt-section-header">
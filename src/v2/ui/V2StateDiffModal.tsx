@@ -0,0 +1,341 @@
+/**
+ * V2 State Diff Modal
+ *
+ * Shows what changed in the tracked state between two messages, grouped by
+ * entity. Each change links to the events that caused it. Once scenes have
+ * been detected, a scene can be picked instead of a message range.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import type { EventStore } from '../store/EventStore';
+import type { SwipeContext } from '../store/projection';
+import {
+	diffStateBetweenMessages,
+	countDiffChanges,
+	type EntityDiff,
+	type ProjectionDiff,
+	type StateChange,
+} from '../store/projectionDiff';
+import type { Event } from '../types/event';
+import { computeScenes, getSceneDiffRange } from '../narrative/computeScenes';
+import { debugWarn } from '../../utils/debug';
+
+export interface V2StateDiffModalProps {
+	eventStore: EventStore;
+	swipeContext: SwipeContext;
+	/** Earlier message to compare */
+	fromMessageId: number;
+	/** Later message to compare */
+	toMessageId: number;
+	/** Highest message ID that can be selected */
+	maxMessageId: number;
+	/** Open the events at a message (e.g. in the event editor) */
+	onOpenEvents?: (messageId: number, swipeId: number) => void;
+	onClose: () => void;
+}
+
+const ENTITY_ICONS: Record<EntityDiff['type'], string> = {
+	location: 'fa-location-dot',
+	scene: 'fa-masks-theater',
+	character: 'fa-user',
+	relationship: 'fa-heart',
+};
+
+/**
+ * Human-readable label for a changed field.
+ */
+function formatFieldLabel(entity: EntityDiff, field: string): string {
+	if (field.startsWith('outfit.')) {
+		return `Outfit (${field.slice('outfit.'.length)})`;
+	}
+	if (field.startsWith('tension.')) {
+		return `Tension ${field.slice('tension.'.length)}`;
+	}
+	if (entity.type === 'relationship' && field.includes('.')) {
+		const [direction, list] = field.split('.');
+		const [a, b] = entity.key.split('|');
+		return direction === 'aToB' ? `${a} → ${b} ${list}` : `${b} → ${a} ${list}`;
+	}
+	switch (field) {
+		case 'present':
+			return 'Presence';
+		case 'physicalState':
+			return 'Physical state';
+		case 'locationType':
+			return 'Location type';
+		default:
+			return field.charAt(0).toUpperCase() + field.slice(1);
+	}
+}
+
+function formatEntityLabel(entity: EntityDiff): string {
+	switch (entity.type) {
+		case 'location':
+			return 'Location';
+		case 'scene':
+			return 'Scene';
+		case 'relationship':
+			return entity.key.replace('|', ' & ');
+		default:
+			return entity.key;
+	}
+}
+
+function formatEventLabel(event: Event): string {
+	const subkind = 'subkind' in event ? `:${event.subkind}` : '';
+	return `#${event.source.messageId} ${event.kind}${subkind}`;
+}
+
+function ChangeRow({
+	entity,
+	change,
+	events,
+	onOpenEvents,
+}: {
+	entity: EntityDiff;
+	change: StateChange;
+	events: ProjectionDiff['events'];
+	onOpenEvents?: (messageId: number, swipeId: number) => void;
+}) {
+	let value: React.ReactNode;
+	if (change.before === null) {
+		value = <span className="bt-v2-diff-added">+ {change.after}</span>;
+	} else if (change.after === null) {
+		value = <span className="bt-v2-diff-removed">− {change.before}</span>;
+	} else {
+		value = (
+			<>
+				<span className="bt-v2-diff-removed">{change.before}</span>
+				<i className="fa-solid fa-arrow-right bt-v2-diff-arrow" />
+				<span className="bt-v2-diff-added">{change.after}</span>
+			</>
+		);
+	}
+
+	return (
+		<div className="bt-v2-diff-change">
+			<span className="bt-v2-diff-field">
+				{formatFieldLabel(entity, change.field)}
+			</span>
+			<span className="bt-v2-diff-value">{value}</span>
+			<span className="bt-v2-diff-events">
+				{change.eventIds.map(id => {
+					const event = events[id];
+					if (!event) return null;
+					return (
+						<button
+							key={id}
+							className="bt-v2-diff-event-link"
+							onClick={() =>
+								onOpenEvents?.(
+									event.source.messageId,
+									event.source.swipeId,
+								)
+							}
+							disabled={!onOpenEvents}
+							title="Open the events at this message"
+						>
+							{formatEventLabel(event)}
+						</button>
+					);
+				})}
+			</span>
+		</div>
+	);
+}
+
+export function V2StateDiffModal({
+	eventStore,
+	swipeContext,
+	fromMessageId,
+	toMessageId,
+	maxMessageId,
+	onOpenEvents,
+	onClose,
+}: V2StateDiffModalProps): React.ReactElement | null {
+	const minMessageId = Math.max(0, eventStore.initialSnapshotMessageId);
+	const [from, setFrom] = useState(fromMessageId);
+	const [to, setTo] = useState(toMessageId);
+	const [sceneIndex, setSceneIndex] = useState<number | null>(null);
+
+	// Scenes are only offered once at least one scene break has been detected
+	const scenes = useMemo(() => {
+		const all = computeScenes(eventStore, swipeContext);
+		return all.some(scene => scene.endedAtMessage) ? all : [];
+	}, [eventStore, swipeContext]);
+
+	const selectScene = (raw: string) => {
+		const scene = scenes.find(s => s.index === parseInt(raw, 10));
+		setSceneIndex(scene ? scene.index : null);
+		if (!scene) return;
+		const range = getSceneDiffRange(scene, maxMessageId);
+		setFrom(Math.max(minMessageId, range.from));
+		setTo(Math.min(maxMessageId, range.to));
+	};
+
+	const diff = useMemo((): ProjectionDiff | null => {
+		try {
+			return diffStateBetweenMessages(eventStore, from, to, swipeContext);
+		} catch (e) {
+			debugWarn('V2StateDiffModal: Failed to compute diff:', e);
+			return null;
+		}
+	}, [eventStore, from, to, swipeContext]);
+
+	const parseMessageId = (raw: string): number => {
+		const value = parseInt(raw, 10);
+		return Math.min(
+			maxMessageId,
+			Math.max(minMessageId, isNaN(value) ? minMessageId : value),
+		);
+	};
+
+	return createPortal(
+		<div
+			className="bt-v2-narrative-backdrop"
+			onClick={e => e.target === e.currentTarget && onClose()}
+			onKeyDown={e => e.key === 'Escape' && onClose()}
+		>
+			<div className="bt-v2-narrative-modal bt-v2-diff-modal">
+				<div className="bt-v2-narrative-header">
+					<h2>
+						<i className="fa-solid fa-code-compare" />
+						State Changes
+					</h2>
+					<button
+						className="bt-v2-narrative-close"
+						onClick={onClose}
+						title="Close"
+					>
+						<i className="fa-solid fa-xmark" />
+					</button>
+				</div>
+
+				<div className="bt-v2-diff-range">
+					<label>
+						From message
+						<input
+							type="number"
+							className="text_pole"
+							min={minMessageId}
+							max={maxMessageId}
+							value={from}
+							onChange={e => {
+								setSceneIndex(null);
+								setFrom(
+									parseMessageId(
+										e.target.value,
+									),
+								);
+							}}
+						/>
+					</label>
+					<label>
+						To message
+						<input
+							type="number"
+							className="text_pole"
+							min={minMessageId}
+							max={maxMessageId}
+							value={to}
+							onChange={e => {
+								setSceneIndex(null);
+								setTo(
+									parseMessageId(
+										e.target.value,
+									),
+								);
+							}}
+						/>
+					</label>
+					{scenes.length > 0 && (
+						<label>
+							Scene
+							<select
+								className="text_pole"
+								value={sceneIndex ?? ''}
+								onChange={e =>
+									selectScene(e.target.value)
+								}
+							>
+								<option value="">
+									Custom range
+								</option>
+								{scenes.map(scene => (
+									<option
+										key={scene.index}
+										value={scene.index}
+									>
+										{scene.index + 1}:{' '}
+										{scene.title}
+									</option>
+								))}
+							</select>
+						</label>
+					)}
+					{diff && (
+						<span className="bt-v2-diff-summary">
+							{countDiffChanges(diff)} changes in{' '}
+							{diff.entities.length}{' '}
+							{diff.entities.length === 1
+								? 'entity'
+								: 'entities'}
+						</span>
+					)}
+				</div>
+
+				<div className="bt-v2-narrative-content">
+					{!diff && (
+						<div className="bt-v2-relationships-empty">
+							<i className="fa-solid fa-circle-exclamation" />
+							<p>
+								Unable to compute state for these
+								messages.
+							</p>
+						</div>
+					)}
+					{diff && diff.entities.length === 0 && (
+						<div className="bt-v2-relationships-empty">
+							<i className="fa-solid fa-equals" />
+							<p>
+								No tracked changes between these
+								messages.
+							</p>
+						</div>
+					)}
+					{diff?.entities.map(entity => (
+						<div
+							key={`${entity.type}:${entity.key}`}
+							className="bt-v2-diff-entity"
+						>
+							<div className="bt-v2-diff-entity-header">
+								<i
+									className={`fa-solid ${ENTITY_ICONS[entity.type]}`}
+								/>
+								<span>
+									{formatEntityLabel(entity)}
+								</span>
+								{entity.status === 'added' && (
+									<span className="bt-v2-diff-badge">
+										new
+									</span>
+								)}
+							</div>
+							{entity.changes.map((change, i) => (
+								<ChangeRow
+									key={`${change.field}-${i}`}
+									entity={entity}
+									change={change}
+									events={diff.events}
+									onOpenEvents={onOpenEvents}
+								/>
+							))}
+						</div>
+					))}
+				</div>
+			</div>
+		</div>,
+		document.body,
+	);
+}
@@ -0,0 +1,163 @@
+/**
+ * V2 Injection Template Preview
+ *
+ * Live preview for the injection templates in settings: renders the templates
+ * against the current chat's projection (the one the next generation would
+ * use) and shows the projection next to the rendered text.
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import type { STContext } from '../../types/st.d';
+import type { V2InjectionTemplates } from '../settings/types';
+import type { Projection } from '../types/snapshot';
+import { getV2Settings } from '../settings';
+import { getV2EventStoreForEditor, buildSwipeContext } from '../../v2Bridge';
+import { computeAllChapters } from '../narrative/computeChapters';
+import { computeArcs, selectArcsForOmittedChapters } from '../narrative/computeArcs';
+import { getAllCurrentChapterEvents } from '../injectors/events';
+import { formatStateForInjection } from '../injectors/state';
+import { buildInjectOptions } from '../injectors/promptHook';
+import { buildNarrativeTemplateData, renderNarrativeTemplate } from '../injectors/templates';
+import { compileTemplate, TemplateError } from '../injectors/templateEngine';
+import { V2ProjectionPreview } from './V2ProjectionPreview';
+
+interface V2TemplatePreviewProps {
+	/** Templates being edited ('' = default) */
+	templates: V2InjectionTemplates;
+}
+
+interface PreviewSource {
+	projection: Projection;
+	state: string;
+	narrative: string;
+}
+
+/**
+ * Get the syntax error of a template, if any.
+ */
+function getTemplateError(template: string): string | null {
+	try {
+		compileTemplate(template);
+		return null;
+	} catch (error) {
+		return error instanceof TemplateError ? error.message : String(error);
+	}
+}
+
+/**
+ * Render both templates against the projection before the last message,
+ * the same way the prompt hook does. Returns null without a tracked chat.
+ */
+function renderPreview(templates: V2InjectionTemplates): PreviewSource | null {
+	const store = getV2EventStoreForEditor();
+	if (!store || !store.hasInitialSnapshot) return null;
+
+	const stContext = SillyTavern.getContext() as unknown as STContext;
+	const swipeContext = buildSwipeContext(stContext);
+	const messageId = Math.max(store.initialSnapshotMessageId, stContext.chat.length - 2);
+
+	let projection: Projection;
+	try {
+		projection = store.projectStateAtMessage(messageId, swipeContext);
+	} catch {
+		return null;
+	}
+
+	const settings = getV2Settings();
+	const state = formatStateForInjection(projection, store, swipeContext, {
+		...buildInjectOptions(),
+		template: templates.state,
+	});
+	const completedChapters = computeAllChapters(store, swipeContext).filter(
+		ch => ch.endReason !== null,
+	);
+	const chapters = completedChapters.slice(-settings.v2MaxRecentChapters);
+	// Arcs stand in for the older chapters
+	const arcs = selectArcsForOmittedChapters(
+		computeArcs(store, swipeContext),
+		completedChapters,
+		chapters,
+		projection.currentChapter,
+	);
+	const events = getAllCurrentChapterEvents(
+		store,
+		swipeContext,
+		projection.currentChapter,
+	).slice(-settings.v2MaxRecentEvents);
+	const narrative = renderNarrativeTemplate(
+		buildNarrativeTemplateData(chapters, events, arcs),
+		templates.narrative,
+	);
+
+	return { projection, state, narrative };
+}
+
+export function V2TemplatePreview({ templates }: V2TemplatePreviewProps) {
+	const [preview, setPreview] = useState<PreviewSource | null>(null);
+
+	// Re-render whenever the templates change (and on refresh, to pick up new messages)
+	const refresh = useCallback(() => setPreview(renderPreview(templates)), [templates]);
+	useEffect(refresh, [refresh]);
+
+	const stateError = useMemo(() => getTemplateError(templates.state), [templates.state]);
+	const narrativeError = useMemo(
+		() => getTemplateError(templates.narrative),
+		[templates.narrative],
+	);
+
+	if (!preview) {
+		return (
+			<div className="bt-template-preview-empty">
+				<small>
+					Open a chat with tracked state to preview the templates.
+				</small>
+				<button className="menu_button" onClick={refresh} title="Refresh">
+					<i className="fa-solid fa-rotate"></i>
+				</button>
+			</div>
+		);
+	}
+
+	const stContext = SillyTavern.getContext() as unknown as STContext;
+
+	return (
+		<div className="bt-template-preview">
+			<div className="bt-template-preview-projection">
+				<div className="bt-template-preview-label">
+					<small>Current state</small>
+					<button
+						className="menu_button"
+						onClick={refresh}
+						title="Refresh"
+					>
+						<i className="fa-solid fa-rotate"></i>
+					</button>
+				</div>
+				<V2ProjectionPreview
+					projection={preview.projection}
+					compact
+					swipeContext={buildSwipeContext(stContext)}
+				/>
+			</div>
+			<div className="bt-template-preview-output">
+				<small className="bt-template-preview-label">State</small>
+				{stateError && (
+					<small className="bt-template-error">
+						<i className="fa-solid fa-triangle-exclamation"></i>{' '}
+						{stateError} - the default template is used instead
+					</small>
+				)}
+				<pre>{preview.state || '(empty)'}</pre>
+				<small className="bt-template-preview-label">Narrative</small>
+				{narrativeError && (
+					<small className="bt-template-error">
+						<i className="fa-solid fa-triangle-exclamation"></i>{' '}
+						{narrativeError} - the default template is used
+						instead
+					</small>
+				)}
+				<pre>{preview.narrative || '(empty)'}</pre>
+			</div>
+		</div>
+	);
+}
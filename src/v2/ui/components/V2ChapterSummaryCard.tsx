@@ -9,36 +9,47 @@
  */
 
 import type { ComputedChapter } from '../../narrative/computeChapters';
+import type { CalendarDefinition } from '../../../utils/calendar';
+import { formatMoment } from '../../../utils/dateFormat';
 
 export interface V2ChapterSummaryCardProps {
 	chapter: ComputedChapter;
 	/** Callback when "Read full summary" is clicked, passes chapter index */
 	onViewDetails?: (chapterIndex: number) => void;
 	timeFormat?: '12h' | '24h';
+	calendar?: CalendarDefinition | null;
 }
 
 /**
  * Format time for display based on format preference.
  */
-function formatTime(time: moment.Moment | null, timeFormat: '12h' | '24h'): string {
+function formatTime(
+	time: moment.Moment | null,
+	timeFormat: '12h' | '24h',
+	calendar: CalendarDefinition | null,
+): string {
 	if (!time) return '';
 	if (timeFormat === '24h') {
-		return time.format('ddd HH:mm');
+		return formatMoment(time, 'ddd HH:mm', calendar);
 	}
 	const hour12 = time.hour() % 12 || 12;
 	const ampm = time.hour() < 12 ? 'AM' : 'PM';
 	const minute = time.minute().toString().padStart(2, '0');
-	return `${time.format('ddd')} ${hour12}:${minute} ${ampm}`;
+	return `${formatMoment(time, 'ddd', calendar)} ${hour12}:${minute} ${ampm}`;
 }
 
 /**
  * Get time range from chapter start/end times (computed from projections).
  */
-function getTimeRange(chapter: ComputedChapter, timeFormat: '12h' | '24h'): string {
+function getTimeRange(
+	chapter: ComputedChapter,
+	timeFormat: '12h' | '24h',
+	calendar: CalendarDefinition | null,
+): string {
 	if (!chapter.startTime && !chapter.endTime) return '';
 
-	const start = chapter.startTime ? formatTime(chapter.startTime, timeFormat) : '';
-	const end = chapter.endTime ? formatTime(chapter.endTime, timeFormat) : '';
+	const start = chapter.startTime ? formatTime(chapter.startTime, timeFormat, calendar) : '';
+	const end = chapter.endTime ? formatTime(chapter.endTime, timeFormat, calendar) : '';
 
 	if (!start) return end;
 	if (!end || start === end) return start;
@@ -72,6 +83,7 @@ export function V2ChapterSummaryCard({
 	chapter,
 	onViewDetails,
 	timeFormat = '12h',
+	calendar = null,
 }: V2ChapterSummaryCardProps) {
 	// Get first paragraph of summary
 	const firstParagraph = chapter.summary
@@ -79,7 +91,7 @@ export function V2ChapterSummaryCard({
 		: 'No summary available';
 
 	const hasMoreContent = chapter.summary && chapter.summary.includes('\n\n');
-	const timeRange = getTimeRange(chapter, timeFormat);
+	const timeRange = getTimeRange(chapter, timeFormat, calendar);
 	const characters = getChapterCharacters(chapter);
 
 	return (
@@ -7,8 +7,9 @@
 
 import React, { useState } from 'react';
 import { createPortal } from 'react-dom';
-import type { ClimateForecast, DaylightPhase, BuildingType } from '../../types/common';
+import type { ClimateForecast, DaylightPhase, BuildingType, MoonState } from '../../types/common';
 import { getConditionIconDayNight } from '../icons';
+import { describeMoon } from '../../../weather/astronomy';
 
 export interface V2ClimateDisplayProps {
 	climate: ClimateForecast;
@@ -74,6 +75,13 @@ function getHumidityDescription(humidity: number): string {
 	return 'Very humid';
 }
 
+function getMoonDescription(moon: MoonState): string {
+	const name = describeMoon(moon);
+	const position =
+		moon.elevation <= 0 ? 'below the horizon' : moon.rising ? 'rising' : 'setting';
+	return `${name.charAt(0).toUpperCase() + name.slice(1)} (${Math.round(moon.illumination * 100)}%), ${position}`;
+}
+
 function getUVDescription(uv: number): string {
 	if (uv < 3) return 'Low';
 	if (uv < 6) return 'Moderate';
@@ -185,6 +193,17 @@ export function V2ClimateDisplay({ climate, temperatureUnit = 'F' }: V2ClimateDi
 								{DAYLIGHT_LABELS[climate.daylight]}
 							</span>
 						</div>
+						{climate.sky?.moons.map(moon => (
+							<div
+								key={moon.name}
+								className="bt-climate-tooltip-row"
+							>
+								<i className="fa-solid fa-moon"></i>
+								<span>
+									{getMoonDescription(moon)}
+								</span>
+							</div>
+						))}
 						<div className="bt-climate-tooltip-section">
 							{isIndoors &&
 								climate.indoorTemperature !==
@@ -19,12 +19,15 @@ const EVENT_KIND_ICONS: Record<EventKind, string> = {
 	time: 'fa-clock',
 	location: 'fa-location-dot',
 	forecast_generated: 'fa-cloud-sun',
+	weather_override: 'fa-cloud-bolt',
 	character: 'fa-user',
 	relationship: 'fa-heart',
 	topic_tone: 'fa-comments',
 	tension: 'fa-bolt',
 	narrative_description: 'fa-book',
 	chapter: 'fa-bookmark',
+	arc: 'fa-layer-group',
+	scene: 'fa-clapperboard',
 };
 
 // Color mappings for event kinds
@@ -32,12 +35,15 @@ const EVENT_KIND_COLORS: Record<EventKind, string> = {
 	time: '#8b5cf6',
 	location: '#f59e0b',
 	forecast_generated: '#06b6d4',
+	weather_override: '#0891b2',
 	character: '#3b82f6',
 	relationship: '#ec4899',
 	topic_tone: '#6b7280',
 	tension: '#ef4444',
 	narrative_description: '#22c55e',
 	chapter: '#a855f7',
+	arc: '#7c3aed',
+	scene: '#c084fc',
 };
 
 /**
@@ -73,6 +79,9 @@ function getEventSummary(event: Event): string {
 		case 'forecast_generated':
 			return `Forecast for ${event.areaName} (${event.startDate})`;
 
+		case 'weather_override':
+			return `${event.condition.replace(/_/g, ' ')} in ${event.areaName} (${event.startTime} to ${event.endTime})`;
+
 		case 'character':
 			switch (event.subkind) {
 				case 'appeared':
@@ -146,6 +155,16 @@ function getEventSummary(event: Event): string {
 			}
 			return 'Chapter event';
 
+		case 'arc':
+			return `Arc ${event.arcIndex + 1} (chapters ${event.firstChapter + 1}-${event.lastChapter + 1}): ${event.title}`;
+
+		case 'scene':
+			if (event.subkind === 'ended') {
+				const reasons = event.reasons.join(', ') || 'chapter ended';
+				return `Scene ${event.sceneIndex + 1} ended (${reasons})`;
+			}
+			return `Scene ${event.sceneIndex + 1}: ${event.title}`;
+
 		default:
 			return 'Unknown event';
 	}
@@ -0,0 +1,49 @@
+/**
+ * V2 Lineage Bar Component
+ *
+ * Shows the chain of chats the current chat was branched from,
+ * with each ancestor clickable to open it.
+ */
+
+import React from 'react';
+import type { BranchPoint } from '../../store/serialization';
+
+export interface V2LineageBarProps {
+	lineage: readonly BranchPoint[];
+	/** Open an ancestor chat. Ancestors are plain text if omitted. */
+	onOpenChat?: (chatId: string) => void;
+}
+
+export function V2LineageBar({ lineage, onOpenChat }: V2LineageBarProps) {
+	if (lineage.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="bt-v2-lineage" title="Chats this chat was branched from">
+			<i className="fa-solid fa-code-branch" />
+			{lineage.map((point, index) => (
+				<span
+					key={`${point.chatId}-${index}`}
+					className="bt-v2-lineage-item"
+				>
+					{onOpenChat ? (
+						<button
+							className="bt-v2-lineage-link"
+							onClick={() => onOpenChat(point.chatId)}
+						>
+							{point.chatId}
+						</button>
+					) : (
+						<span>{point.chatId}</span>
+					)}
+					<span className="bt-v2-lineage-message">
+						@ #{point.messageId}
+					</span>
+					<i className="fa-solid fa-chevron-right bt-v2-lineage-separator" />
+				</span>
+			))}
+			<span className="bt-v2-lineage-current">This chat</span>
+		</div>
+	);
+}
@@ -9,10 +9,13 @@ import React from 'react';
 import type { Projection } from '../../types/snapshot';
 import { V2ClimateDisplay } from './V2ClimateDisplay';
 import { V2TensionBadges } from './V2TensionBadges';
+import type { CalendarDefinition } from '../../../utils/calendar';
+import { formatMoment } from '../../../utils/dateFormat';
 
 export interface V2StateReadOnlyProps {
 	projection: Projection;
 	temperatureUnit?: 'F' | 'C';
+	calendar?: CalendarDefinition | null;
 }
 
 function formatLocation(location: { area: string; place: string; position: string }): string {
@@ -20,7 +23,11 @@ function formatLocation(location: { area: string; place: string; position: strin
 	return parts.filter(Boolean).join(' · ');
 }
 
-export function V2StateReadOnly({ projection, temperatureUnit = 'F' }: V2StateReadOnlyProps) {
+export function V2StateReadOnly({
+	projection,
+	temperatureUnit = 'F',
+	calendar = null,
+}: V2StateReadOnlyProps) {
 	return (
 		<div className="bt-v2-state-readonly">
 			{/* Time */}
@@ -28,7 +35,11 @@ export function V2StateReadOnly({ projection, temperatureUnit = 'F' }: V2StateRe
 				<div className="bt-readonly-row">
 					<i className="fa-regular fa-clock"></i>
 					<span>
-						{projection.time.format('ddd, MMM D YYYY, h:mm A')}
+						{formatMoment(
+							projection.time,
+							'ddd, MMM D YYYY, h:mm A',
+							calendar,
+						)}
 					</span>
 				</div>
 			)}
@@ -12,6 +12,8 @@ import type {
 import { getConditionIconDayNight } from '../icons';
 import { formatTemperature } from '../../../utils/temperatures';
 import { formatDecimalHour, getDayAbbreviation, formatHour } from '../../../utils/dateFormat';
+import type { CalendarDefinition } from '../../../utils/calendar';
+import { describeMoon, getDayAstronomy, getForecastLatitude } from '../../../weather/astronomy';
 
 // ============================================
 // Types
@@ -22,6 +24,7 @@ export interface V2WeatherForecastProps {
 	currentHour: number; // 0-23
 	temperatureUnit?: 'F' | 'C';
 	timeFormat?: '12h' | '24h';
+	calendar?: CalendarDefinition | null;
 }
 
 // ============================================
@@ -72,10 +75,11 @@ function HourlySlot({
 interface DailySlotProps {
 	day: DailyForecast;
 	temperatureUnit: 'F' | 'C';
+	calendar: CalendarDefinition | null;
 }
 
-function DailySlot({ day, temperatureUnit }: DailySlotProps) {
-	const dayAbbr = getDayAbbreviation(day.date);
+function DailySlot({ day, temperatureUnit, calendar }: DailySlotProps) {
+	const dayAbbr = getDayAbbreviation(day.date, calendar);
 	const icon = getConditionIconDayNight(day.dominantCondition, false);
 	const tempUnit = temperatureUnit === 'C' ? 'celsius' : 'fahrenheit';
 	const highDisplay = formatTemperature(day.high, tempUnit);
@@ -110,6 +114,7 @@ export function V2WeatherForecast({
 	currentHour,
 	temperatureUnit = 'F',
 	timeFormat = '12h',
+	calendar = null,
 }: V2WeatherForecastProps) {
 	const hourlyScrollRef = useRef<HTMLDivElement>(null);
 
@@ -140,6 +145,15 @@ export function V2WeatherForecast({
 	// Get 7-day forecast
 	const weekForecast = forecast.days.slice(0, 7);
 
+	// Sun and moons today
+	const [year, month, dayOfMonth] = today.date.split('-').map(Number);
+	const sky = getDayAstronomy(
+		{ year, month, day: dayOfMonth },
+		getForecastLatitude(forecast),
+		forecast.astronomy,
+	);
+	const polar = sky.sunrise === null && sky.sunset === null;
+
 	// Determine if an hour is nighttime
 	const isNightHour = (hour: number, dayForecast: DailyForecast): boolean => {
 		return hour < dayForecast.sunrise || hour >= dayForecast.sunset;
@@ -152,12 +166,54 @@ export function V2WeatherForecast({
 				<span className="bt-forecast-title">TODAY</span>
 				<span className="bt-forecast-sun">
 					<i className="fa-solid fa-sun"></i>
-					{formatDecimalHour(today.sunrise, timeFormat)}
-					<i className="fa-solid fa-moon"></i>
-					{formatDecimalHour(today.sunset, timeFormat)}
+					{polar ? (
+						sky.daylightHours > 0 ? (
+							'Up all day'
+						) : (
+							'Down all day'
+						)
+					) : (
+						<>
+							{formatDecimalHour(
+								today.sunrise,
+								timeFormat,
+							)}
+							<i className="fa-solid fa-moon"></i>
+							{formatDecimalHour(
+								today.sunset,
+								timeFormat,
+							)}
+						</>
+					)}
 				</span>
 			</div>
 
+			{/* Twilight and moons */}
+			<div className="bt-forecast-sky">
+				{sky.civilDawn !== null && sky.civilDusk !== null && (
+					<span title="Civil twilight">
+						<i className="fa-solid fa-circle-half-stroke"></i>
+						{formatDecimalHour(
+							sky.civilDawn,
+							timeFormat,
+						)} – {formatDecimalHour(sky.civilDusk, timeFormat)}
+					</span>
+				)}
+				{sky.moons.map(moon => (
+					<span
+						key={moon.name}
+						title={`${Math.round(moon.illumination * 100)}% lit`}
+					>
+						<i className="fa-solid fa-moon"></i>
+						{describeMoon(moon)}
+						{moon.moonrise !== null &&
+							`, rises ${formatDecimalHour(moon.moonrise, timeFormat)}`}
+						{moon.moonset !== null &&
+							`, sets ${formatDecimalHour(moon.moonset, timeFormat)}`}
+					</span>
+				))}
+			</div>
+
 			{/* Hourly Forecast (scrollable) */}
 			<div className="bt-forecast-hourly" ref={hourlyScrollRef}>
 				{hourlyForecast.map((hourData, idx) => {
@@ -198,6 +254,7 @@ export function V2WeatherForecast({
 						key={day.date}
 						day={day}
 						temperatureUnit={temperatureUnit}
+						calendar={calendar}
 					/>
 				))}
 			</div>
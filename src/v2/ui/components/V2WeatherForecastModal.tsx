@@ -2,25 +2,190 @@
 // V2 Weather Forecast Modal Component
 // ============================================
 
+import { useState } from 'react';
 import { createPortal } from 'react-dom';
-import type { LocationForecast } from '../../../weather/types';
+import type { LocationForecast, WeatherCondition } from '../../../weather/types';
 import { V2WeatherForecast } from './V2WeatherForecast';
+import type { CalendarDefinition } from '../../../utils/calendar';
+import { formatMoment } from '../../../utils/dateFormat';
+import { fahrenheitToCelsius, celsiusToFahrenheit } from '../../../utils/temperatures';
+import type { WeatherOverride } from '../../types/common';
+import { WEATHER_CONDITIONS, serializeMoment, deserializeMoment } from '../../types/common';
 
 export interface V2WeatherForecastModalProps {
 	forecast: LocationForecast;
 	currentHour: number;
 	temperatureUnit: 'F' | 'C';
 	timeFormat: '12h' | '24h';
+	calendar?: CalendarDefinition | null;
 	areaName?: string;
+	/** Weather overrides scheduled for this area */
+	overrides?: WeatherOverride[];
+	/** Current narrative time (ISO), the default start of a new override */
+	currentTime?: string | null;
+	/** Callback to add a weather override (hides the form if not set) */
+	onAddOverride?: (override: WeatherOverride) => void;
 	onClose: () => void;
 }
 
+const DATETIME_INPUT_FORMAT = 'YYYY-MM-DDTHH:mm';
+
+function formatCondition(condition: WeatherCondition): string {
+	const label = condition.replace(/_/g, ' ');
+	return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * List of scheduled overrides with a form to add another.
+ */
+function WeatherOverrideSection({
+	areaName,
+	overrides,
+	currentTime,
+	temperatureUnit,
+	timeFormat,
+	calendar,
+	onAddOverride,
+}: {
+	areaName: string;
+	overrides: WeatherOverride[];
+	currentTime: string | null;
+	temperatureUnit: 'F' | 'C';
+	timeFormat: '12h' | '24h';
+	calendar: CalendarDefinition | null;
+	onAddOverride?: (override: WeatherOverride) => void;
+}) {
+	const start = currentTime ? deserializeMoment(currentTime) : null;
+	const [condition, setCondition] = useState<WeatherCondition>('rain');
+	const [from, setFrom] = useState(start?.format(DATETIME_INPUT_FORMAT) ?? '');
+	const [to, setTo] = useState(
+		start?.clone().add(6, 'hours').format(DATETIME_INPUT_FORMAT) ?? '',
+	);
+	const [temperature, setTemperature] = useState('');
+
+	const fromTime = deserializeMoment(from);
+	const toTime = deserializeMoment(to);
+	const isValid =
+		from !== '' &&
+		to !== '' &&
+		fromTime.isValid() &&
+		toTime.isValid() &&
+		toTime > fromTime;
+
+	const formatTemp = (fahrenheit: number) =>
+		temperatureUnit === 'C'
+			? `${fahrenheitToCelsius(fahrenheit)}°C`
+			: `${Math.round(fahrenheit)}°F`;
+
+	const formatTime = (iso: string) =>
+		formatMoment(
+			deserializeMoment(iso),
+			timeFormat === '24h' ? 'MMM D, HH:mm' : 'MMM D, h:mm A',
+			calendar,
+		);
+
+	const handleAdd = () => {
+		if (!onAddOverride || !isValid) return;
+		const temp = parseFloat(temperature);
+		onAddOverride({
+			areaName,
+			startTime: serializeMoment(fromTime),
+			endTime: serializeMoment(toTime),
+			condition,
+			...(!isNaN(temp) && {
+				temperature:
+					temperatureUnit === 'C' ? celsiusToFahrenheit(temp) : temp,
+			}),
+		});
+	};
+
+	return (
+		<div className="bt-weather-overrides">
+			<h4>Scripted Weather</h4>
+			{overrides.length > 0 ? (
+				<ul className="bt-weather-override-list">
+					{overrides.map((override, idx) => (
+						<li key={idx}>
+							<strong>
+								{formatCondition(
+									override.condition,
+								)}
+							</strong>
+							{override.temperature !== undefined &&
+								`, ${formatTemp(override.temperature)}`}{' '}
+							<span className="bt-weather-override-time">
+								{formatTime(override.startTime)} –{' '}
+								{formatTime(override.endTime)}
+							</span>
+						</li>
+					))}
+				</ul>
+			) : (
+				<p className="bt-weather-override-empty">
+					No scripted weather. The forecast is used.
+				</p>
+			)}
+			{onAddOverride && (
+				<div className="bt-weather-override-form">
+					<select
+						className="text_pole"
+						value={condition}
+						onChange={e =>
+							setCondition(
+								e.target.value as WeatherCondition,
+							)
+						}
+					>
+						{WEATHER_CONDITIONS.map(c => (
+							<option key={c} value={c}>
+								{formatCondition(c)}
+							</option>
+						))}
+					</select>
+					<input
+						type="datetime-local"
+						className="text_pole"
+						title="From"
+						value={from}
+						onChange={e => setFrom(e.target.value)}
+					/>
+					<input
+						type="datetime-local"
+						className="text_pole"
+						title="To"
+						value={to}
+						onChange={e => setTo(e.target.value)}
+					/>
+					<input
+						type="number"
+						className="text_pole"
+						placeholder={`°${temperatureUnit} (optional)`}
+						value={temperature}
+						onChange={e => setTemperature(e.target.value)}
+					/>
+					<button
+						className="menu_button"
+						onClick={handleAdd}
+						disabled={!isValid}
+					>
+						<i className="fa-solid fa-plus"></i> Add
+					</button>
+				</div>
+			)}
+		</div>
+	);
+}
+
 export function V2WeatherForecastModal({
 	forecast,
 	currentHour,
 	temperatureUnit,
 	timeFormat,
+	calendar = null,
 	areaName,
+	overrides = [],
+	currentTime = null,
+	onAddOverride,
 	onClose,
 }: V2WeatherForecastModalProps) {
 	return createPortal(
@@ -43,7 +208,19 @@ export function V2WeatherForecastModal({
 						currentHour={currentHour}
 						temperatureUnit={temperatureUnit}
 						timeFormat={timeFormat}
+						calendar={calendar}
 					/>
+					{areaName && (
+						<WeatherOverrideSection
+							areaName={areaName}
+							overrides={overrides}
+							currentTime={currentTime}
+							temperatureUnit={temperatureUnit}
+							timeFormat={timeFormat}
+							calendar={calendar}
+							onAddOverride={onAddOverride}
+						/>
+					)}
 				</div>
 			</div>
 		</div>,
@@ -12,3 +12,4 @@ export { V2EventCard, type V2EventCardProps } from './V2EventCard';
 export { V2WeatherForecast, type V2WeatherForecastProps } from './V2WeatherForecast';
 export { V2WeatherForecastModal, type V2WeatherForecastModalProps } from './V2WeatherForecastModal';
 export { V2ChapterSummaryCard, type V2ChapterSummaryCardProps } from './V2ChapterSummaryCard';
+export { V2LineageBar, type V2LineageBarProps } from './V2LineageBar';
@@ -29,6 +29,12 @@ export {
 export { V2EventEditor, type V2EventEditorHandle } from './V2EventEditor';
 export { V2EventEditorModal, type V2EventEditorModalProps } from './V2EventEditorModal';
 export { V2ProjectionPreview } from './V2ProjectionPreview';
+export { V2StateDiffModal, type V2StateDiffModalProps } from './V2StateDiffModal';
+export {
+	V2InjectionPreview,
+	V2InjectionPreviewModal,
+	type V2InjectionPreviewModalProps,
+} from './V2InjectionPreview';
 
 // Mount functions
 export {
@@ -41,6 +47,10 @@ export {
 	isV2ExtractionInProgress,
 	setV2ExtractionInProgress,
 	updateV2ExtractionProgress,
+	applyV2EditHistory,
+	registerV2EditHistoryShortcuts,
+	openV2StateDiffModal,
+	openV2InjectionPreviewModal,
 } from './mountV2Display';
 
 // V2 Settings UI
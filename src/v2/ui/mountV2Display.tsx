@@ -11,6 +11,8 @@ import { openV2EventStoreEditor } from './EventStoreEditor';
 import { V2EventEditorModal } from './V2EventEditorModal';
 import { V2SnapshotEditorModal } from './V2SnapshotEditorModal';
 import { V2NarrativeModal } from './V2NarrativeModal';
+import { V2StateDiffModal } from './V2StateDiffModal';
+import { V2InjectionPreviewModal } from './V2InjectionPreview';
 import {
 	getProjectionForMessage,
 	getV2EventStoreForEditor,
@@ -24,15 +26,24 @@ import {
 	getInitialSnapshotMessageId,
 	recalculateV2Chapter,
 	getV2EventStore,
+	openV2LineageChat,
+	runV2StoreOperation,
+	getV2EditHistoryState,
+	undoV2Edit,
+	redoV2Edit,
+	addV2WeatherOverride,
 	type V2ExtractionProgress,
 } from '../../v2Bridge';
 import { computeChapterData } from '../narrative/computeChapters';
+import { getActiveCalendar } from '../cardExtensions';
 import { setManualExtractionInProgress } from '../../index';
 import type { EventStore } from '../store/EventStore';
 import type { SwipeContext } from '../store/projection';
+import type { WeatherOverride } from '../types/common';
 import type { STContext } from '../../types/st';
 import { getV2Settings } from '../settings';
 import { debugLog, debugWarn } from '../../utils/debug';
+import { st_echo } from 'sillytavern-utils-lib/config';
 
 // Track the event editor modal root
 let eventEditorRoot: ReactDOM.Root | null = null;
@@ -42,6 +53,14 @@ let eventEditorContainer: HTMLElement | null = null;
 let narrativeModalRoot: ReactDOM.Root | null = null;
 let narrativeModalContainer: HTMLElement | null = null;
 
+// Track the state diff modal root
+let diffModalRoot: ReactDOM.Root | null = null;
+let diffModalContainer: HTMLElement | null = null;
+
+// Track the injection preview modal root
+let injectionPreviewRoot: ReactDOM.Root | null = null;
+let injectionPreviewContainer: HTMLElement | null = null;
+
 // Track React roots so we can unmount/update them
 const roots = new Map<number, ReactDOM.Root>();
 
@@ -121,7 +140,7 @@ async function handleOpenEditor(messageId: number, swipeId: number): Promise<voi
 
 	const saved = await openV2EventStoreEditor(store, messageId, swipeId, async editedStore => {
 		// Replace the store with the edited version
-		replaceV2EventStore(editedStore);
+		replaceV2EventStore(editedStore, 'Edit event store');
 
 		// Re-render all displays to reflect changes
 		mountAllV2ProjectionDisplays();
@@ -206,25 +225,123 @@ function handleOpenNarrativeModal(messageId: number, targetChapter?: number): vo
 			latestMessageId={messageId}
 			onClose={closeNarrativeModal}
 			onSave={async editedStore => {
-				await replaceV2EventStore(editedStore);
+				await replaceV2EventStore(editedStore, 'Edit narrative');
 				mountAllV2ProjectionDisplays();
 				closeNarrativeModal();
 			}}
 			onRecalculateChapter={handleRecalculateChapter}
 			initialTab={targetChapter !== undefined ? 'chapters' : 'relationships'}
 			targetChapter={targetChapter}
+			onOpenLineageChat={chatId => {
+				closeNarrativeModal();
+				void openV2LineageChat(chatId);
+			}}
 		/>,
 	);
 }
 
 /**
- * Handle retry extraction for a message.
- * Deletes events for the message/swipe and re-extracts.
+ * Close the state diff modal.
+ */
+function closeStateDiffModal(): void {
+	if (diffModalRoot) {
+		diffModalRoot.unmount();
+		diffModalRoot = null;
+	}
+	if (diffModalContainer) {
+		diffModalContainer.remove();
+		diffModalContainer = null;
+	}
+}
+
+/**
+ * Open the state diff modal comparing two messages.
+ *
+ * @param fromMessageId - Earlier message (defaults to the initial snapshot message)
+ * @param toMessageId - Later message (defaults to the latest message)
+ * @returns false if there is no state to compare
+ */
+export function openV2StateDiffModal(fromMessageId?: number, toMessageId?: number): boolean {
+	const store = getV2EventStoreForEditor();
+	if (!store?.hasInitialSnapshot) {
+		debugWarn('No event store available for state diff');
+		return false;
+	}
+
+	const stContext = SillyTavern.getContext() as unknown as STContext;
+	const swipeContext = buildSwipeContext(stContext);
+	const maxMessageId = stContext.chat.length - 1;
+
+	if (!diffModalContainer) {
+		diffModalContainer = document.createElement('div');
+		diffModalContainer.id = 'bt-v2-diff-modal-container';
+		document.body.appendChild(diffModalContainer);
+	}
+
+	if (!diffModalRoot) {
+		diffModalRoot = ReactDOM.createRoot(diffModalContainer);
+	}
+
+	diffModalRoot.render(
+		<V2StateDiffModal
+			eventStore={store}
+			swipeContext={swipeContext}
+			fromMessageId={fromMessageId ?? store.initialSnapshotMessageId}
+			toMessageId={toMessageId ?? maxMessageId}
+			maxMessageId={maxMessageId}
+			onOpenEvents={(messageId, swipeId) => {
+				closeStateDiffModal();
+				handleEditEvents(messageId, swipeId);
+			}}
+			onClose={closeStateDiffModal}
+		/>,
+	);
+	return true;
+}
+
+/**
+ * Close the injection preview modal.
  */
-async function handleRetryExtraction(messageId: number, swipeId: number): Promise<void> {
-	// Delete existing events for this message/swipe
-	await deleteV2EventsForSwipe(messageId, swipeId);
+function closeInjectionPreviewModal(): void {
+	if (injectionPreviewRoot) {
+		injectionPreviewRoot.unmount();
+		injectionPreviewRoot = null;
+	}
+	if (injectionPreviewContainer) {
+		injectionPreviewContainer.remove();
+		injectionPreviewContainer = null;
+	}
+}
+
+/**
+ * Open the modal showing what would be injected for the next generation.
+ */
+export function openV2InjectionPreviewModal(): void {
+	if (!injectionPreviewContainer) {
+		injectionPreviewContainer = document.createElement('div');
+		injectionPreviewContainer.id = 'bt-v2-inject-preview-modal-container';
+		document.body.appendChild(injectionPreviewContainer);
+	}
+
+	if (!injectionPreviewRoot) {
+		injectionPreviewRoot = ReactDOM.createRoot(injectionPreviewContainer);
+	}
 
+	injectionPreviewRoot.render(
+		<V2InjectionPreviewModal onClose={closeInjectionPreviewModal} />,
+	);
+}
+
+/**
+ * Handle retry extraction for a message.
+ * Deletes events for the message/swipe and re-extracts. Unchanged prompts are
+ * answered from the generation cache unless `reroll` is set.
+ */
+async function handleRetryExtraction(
+	messageId: number,
+	swipeId: number,
+	reroll: boolean,
+): Promise<void> {
 	// Mark manual extraction in progress to prevent GENERATION_ENDED from triggering another extraction
 	setManualExtractionInProgress(true);
 
@@ -233,9 +350,15 @@ async function handleRetryExtraction(messageId: number, swipeId: number): Promis
 	mountV2ProjectionDisplay(messageId);
 
 	try {
-		// Run extraction
-		await runV2Extraction(messageId, {
-			onProgress: updateV2ExtractionProgress,
+		await runV2StoreOperation(`Re-extract message ${messageId}`, async () => {
+			// Delete existing events for this message/swipe
+			await deleteV2EventsForSwipe(messageId, swipeId);
+
+			// Run extraction
+			await runV2Extraction(messageId, {
+				onProgress: updateV2ExtractionProgress,
+				reroll,
+			});
 		});
 	} finally {
 		// Clear extraction state
@@ -246,6 +369,71 @@ async function handleRetryExtraction(messageId: number, swipeId: number): Promis
 	}
 }
 
+/**
+ * Undo or redo the latest manual store change and refresh all displays.
+ * Refused while an extraction runs or an editor is open, since both work on
+ * the current store and would overwrite the result.
+ *
+ * @returns Message describing the outcome, for toasts and slash command output
+ */
+export async function applyV2EditHistory(direction: 'undo' | 'redo'): Promise<string> {
+	if (extractionInProgress.size > 0) {
+		return `Cannot ${direction} while an extraction is running`;
+	}
+	if (eventEditorRoot || narrativeModalRoot) {
+		return `Close the BlazeTracker editor before using ${direction}`;
+	}
+
+	const label = direction === 'undo' ? await undoV2Edit() : await redoV2Edit();
+	if (!label) {
+		return `Nothing to ${direction}`;
+	}
+
+	// Undo can remove the initial snapshot (e.g. undoing an import), so start clean
+	unmountAllV2ProjectionDisplays();
+	mountAllV2ProjectionDisplays();
+	return `${direction === 'undo' ? 'Undid' : 'Redid'}: ${label}`;
+}
+
+/**
+ * Handle the undo/redo toolbar buttons and keyboard shortcuts.
+ */
+export async function handleEditHistoryButton(direction: 'undo' | 'redo'): Promise<void> {
+	const message = await applyV2EditHistory(direction);
+	st_echo('info', `🔥 ${message}`);
+}
+
+/**
+ * Register keyboard shortcuts for undo (Alt+Z) and redo (Alt+Shift+Z or Alt+Y).
+ * Ignored while typing, so text fields keep their own undo.
+ */
+export function registerV2EditHistoryShortcuts(): void {
+	document.addEventListener('keydown', e => {
+		if (!e.altKey || e.ctrlKey || e.metaKey) return;
+
+		const target = e.target as HTMLElement | null;
+		if (
+			target &&
+			(target.isContentEditable ||
+				['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+		) {
+			return;
+		}
+
+		// Match on code, since Alt changes the typed character on some layouts
+		let direction: 'undo' | 'redo' | null = null;
+		if (e.code === 'KeyZ') {
+			direction = e.shiftKey ? 'redo' : 'undo';
+		} else if (e.code === 'KeyY' && !e.shiftKey) {
+			direction = 'redo';
+		}
+		if (!direction) return;
+
+		e.preventDefault();
+		void handleEditHistoryButton(direction);
+	});
+}
+
 /**
  * Handle opening the per-message event editor.
  * For the initial snapshot message, opens the snapshot editor instead.
@@ -286,7 +474,10 @@ function handleEditEvents(messageId: number, swipeId: number): void {
 			swipeId={swipeId}
 			swipeContext={swipeContext}
 			onSave={async editedStore => {
-				await replaceV2EventStore(editedStore);
+				await replaceV2EventStore(
+					editedStore,
+					`Edit events at message ${messageId}`,
+				);
 				mountAllV2ProjectionDisplays();
 				closeEventEditorModal();
 			}}
@@ -295,6 +486,28 @@ function handleEditEvents(messageId: number, swipeId: number): void {
 	);
 }
 
+/**
+ * Add a weather override from the forecast modal and refresh all displays.
+ */
+async function handleAddWeatherOverride(
+	messageId: number,
+	override: WeatherOverride,
+): Promise<void> {
+	if (extractionInProgress.size > 0) {
+		st_echo('warning', '🔥 Cannot add weather while an extraction is running');
+		return;
+	}
+	if (!(await addV2WeatherOverride(messageId, override))) {
+		st_echo('warning', '🔥 Weather can only be added after the initial state');
+		return;
+	}
+	mountAllV2ProjectionDisplays();
+	st_echo(
+		'info',
+		`🔥 Added ${override.condition.replace(/_/g, ' ')} weather for ${override.areaName}`,
+	);
+}
+
 /**
  * Open the snapshot editor modal for the initial snapshot message.
  */
@@ -322,7 +535,7 @@ function openSnapshotEditorModal(
 			swipeId={swipeId}
 			swipeContext={swipeContext}
 			onSave={async editedStore => {
-				await replaceV2EventStore(editedStore);
+				await replaceV2EventStore(editedStore, 'Edit initial state');
 				mountAllV2ProjectionDisplays();
 				closeEventEditorModal();
 			}}
@@ -419,6 +632,8 @@ export function mountV2ProjectionDisplay(messageId: number): void {
 		}
 	}
 
+	const { undoLabel, redoLabel } = getV2EditHistoryState();
+
 	// Render the component
 	root.render(
 		<ProjectionDisplay
@@ -429,17 +644,32 @@ export function mountV2ProjectionDisplay(messageId: number): void {
 			onOpenNarrative={() => handleOpenNarrativeModal(messageId)}
 			onOpenEditor={() => handleOpenEditor(messageId, swipeId)}
 			onEditEvents={() => handleEditEvents(messageId, swipeId)}
+			onCompare={() => openV2StateDiffModal(undefined, messageId)}
 			temperatureUnit={getTemperatureUnit()}
 			timeFormat={getTimeFormat()}
+			calendar={getActiveCalendar()}
 			milestones={milestones}
 			hasEventsAtThisMessage={hasEventsAtThisMessage}
 			isInitialSnapshotMessage={isInitialSnapshotMessage}
 			isLatestMessage={isLatestMessage}
-			onRetry={() => handleRetryExtraction(messageId, swipeId)}
+			onRetry={reroll => handleRetryExtraction(messageId, swipeId, reroll)}
 			previousChapter={previousChapter}
 			onViewChapterDetails={chapterIndex =>
 				handleOpenNarrativeModal(messageId, chapterIndex)
 			}
+			undoLabel={undoLabel}
+			redoLabel={redoLabel}
+			onUndo={() => void handleEditHistoryButton('undo')}
+			onRedo={() => void handleEditHistoryButton('redo')}
+			onAddWeatherOverride={
+				messageId > initialSnapshotMsgId
+					? override =>
+							void handleAddWeatherOverride(
+								messageId,
+								override,
+							)
+					: undefined
+			}
 		/>,
 	);
 }
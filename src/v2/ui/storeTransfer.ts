@@ -0,0 +1,64 @@
+/**
+ * Event Store File Transfer
+ *
+ * Browser helpers for saving an export bundle to disk and reading one back.
+ */
+
+import type { EventStoreBundle } from '../store/exportBundle';
+
+/**
+ * Build a download filename for a bundle.
+ */
+export function getBundleFilename(bundle: EventStoreBundle): string {
+	const chatPart = (bundle.sourceChatId ?? 'chat').replace(/[^\w\- @.]+/g, '_');
+	const datePart = new Date(bundle.exportedAt).toISOString().slice(0, 10);
+	return `blazetracker-${chatPart}-${datePart}.json`;
+}
+
+/**
+ * Save a bundle as a JSON file download.
+ */
+export function downloadEventStoreBundle(bundle: EventStoreBundle): void {
+	const blob = new Blob([JSON.stringify(bundle, null, '\t')], { type: 'application/json' });
+	const url = URL.createObjectURL(blob);
+
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = getBundleFilename(bundle);
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+
+	// Revoke after the click has been handled
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Let the user pick a bundle file and parse it as JSON.
+ * Resolves to null if the picker was dismissed without choosing a file.
+ */
+export function pickEventStoreBundleFile(): Promise<
+	{ data: unknown; error?: never } | { data?: never; error: string } | null
+> {
+	return new Promise(resolve => {
+		const input = document.createElement('input');
+		input.type = 'file';
+		input.accept = '.json,application/json';
+
+		input.addEventListener('change', async () => {
+			const file = input.files?.[0];
+			if (!file) {
+				resolve(null);
+				return;
+			}
+			try {
+				resolve({ data: JSON.parse(await file.text()) });
+			} catch {
+				resolve({ error: `${file.name} is not valid JSON` });
+			}
+		});
+		input.addEventListener('cancel', () => resolve(null));
+
+		input.click();
+	});
+}
@@ -4,6 +4,8 @@
  * Displays chapters with tension graph and expandable chapter list.
  * Uses computed chapter data from snapshots + events.
  * Chapters appear newest first, with the newest auto-expanded.
+ * Chapters summarized into an arc are grouped under it, collapsed by default.
+ * Expanded chapters list their scenes once scene breaks have been detected.
  */
 
 import React, { useMemo, useState, useEffect, useRef } from 'react';
@@ -12,31 +14,100 @@ import type { EventStore } from '../../store/EventStore';
 import type { SwipeContext } from '../../store/projection';
 import { V2TensionGraph } from '../components/V2TensionGraph';
 import { computeAllChapters, type ComputedChapter } from '../../narrative/computeChapters';
+import { computeArcs, getArcForChapter, type ComputedArc } from '../../narrative/computeArcs';
+import { computeScenes, type ComputedScene } from '../../narrative/computeScenes';
+import type { SceneBreakReason } from '../../types/event';
 import { getMilestoneDisplayName } from '../../store/projection';
+import type { CalendarDefinition } from '../../../utils/calendar';
+import { formatMoment } from '../../../utils/dateFormat';
 
 export interface V2ChaptersTabProps {
 	projection: Projection;
 	eventStore: EventStore;
 	swipeContext: SwipeContext;
 	timeFormat?: '12h' | '24h';
+	/** Custom calendar of the character card (null for Gregorian) */
+	calendar?: CalendarDefinition | null;
 	/** Callback when manual recalculation is requested */
 	onRecalculateChapter?: (chapterIndex: number) => Promise<void>;
 	/** Target chapter to scroll to and highlight (for "Read full summary") */
 	targetChapter?: number;
 }
 
+/**
+ * A row of the chapter list: a chapter on its own, or an arc with its chapters.
+ */
+type ChapterListItem =
+	| { type: 'chapter'; chapter: ComputedChapter }
+	| { type: 'arc'; arc: ComputedArc; chapters: ComputedChapter[] };
+
 /**
  * Format narrative time for display.
  */
-function formatNarrativeTime(time: moment.Moment | null, timeFormat: '12h' | '24h'): string {
+function formatNarrativeTime(
+	time: moment.Moment | null,
+	timeFormat: '12h' | '24h',
+	calendar: CalendarDefinition | null,
+): string {
 	if (!time) return '';
 	if (timeFormat === '24h') {
-		return time.format('ddd, MMM D [at] HH:mm');
+		return formatMoment(time, 'ddd, MMM D [at] HH:mm', calendar);
 	}
 	const hour12 = time.hour() % 12 || 12;
 	const ampm = time.hour() < 12 ? 'AM' : 'PM';
 	const minute = time.minute().toString().padStart(2, '0');
-	return `${time.format('ddd, MMM D')} at ${hour12}:${minute} ${ampm}`;
+	return `${formatMoment(time, 'ddd, MMM D', calendar)} at ${hour12}:${minute} ${ampm}`;
+}
+
+/**
+ * Format scene break reasons for display.
+ */
+function formatSceneReasons(reasons: SceneBreakReason[]): string {
+	return reasons
+		.map(reason => {
+			switch (reason) {
+				case 'location_change':
+					return 'Location change';
+				case 'time_jump':
+					return 'Time jump';
+				case 'presence_change':
+					return 'Cast change';
+			}
+		})
+		.join(', ');
+}
+
+/**
+ * Single scene row in an expanded chapter.
+ */
+function SceneItem({ scene }: { scene: ComputedScene }) {
+	const end = scene.endedAtMessage?.messageId;
+	const range =
+		end === undefined
+			? `Msg ${scene.startMessageId}–`
+			: `Msg ${scene.startMessageId}–${end}`;
+
+	return (
+		<div className={`bt-v2-scene-item ${end === undefined ? 'bt-current' : ''}`}>
+			<div className="bt-v2-scene-header">
+				<span className="bt-v2-scene-index">Scene {scene.index + 1}</span>
+				<span className="bt-v2-scene-title">{scene.title}</span>
+				<span className="bt-v2-scene-range">{range}</span>
+			</div>
+			{scene.summary && (
+				<div className="bt-v2-scene-summary">{scene.summary}</div>
+			)}
+			{end === undefined ? (
+				<div className="bt-v2-scene-reasons">In progress</div>
+			) : (
+				scene.reasons.length > 0 && (
+					<div className="bt-v2-scene-reasons">
+						Ended by: {formatSceneReasons(scene.reasons)}
+					</div>
+				)
+			)}
+		</div>
+	);
 }
 
 /**
@@ -46,16 +117,22 @@ function formatNarrativeTime(time: moment.Moment | null, timeFormat: '12h' | '24
 function NarrativeEventItem({
 	event,
 	timeFormat,
+	calendar,
 }: {
 	event: NarrativeEvent;
 	timeFormat: '12h' | '24h';
+	calendar: CalendarDefinition | null;
 }) {
 	return (
 		<div className="bt-event-item">
 			{/* Row 1: Time only (no tension icons) */}
 			<div className="bt-event-header">
 				<span className="bt-event-time">
-					{formatNarrativeTime(event.narrativeTime, timeFormat)}
+					{formatNarrativeTime(
+						event.narrativeTime,
+						timeFormat,
+						calendar,
+					)}
 				</span>
 			</div>
 
@@ -126,6 +203,7 @@ function NarrativeEventItem({
  */
 function ChapterCard({
 	chapter,
+	scenes,
 	isCurrentChapter,
 	isExpanded,
 	isHighlighted,
@@ -133,10 +211,13 @@ function ChapterCard({
 	eventStore,
 	swipeContext,
 	timeFormat,
+	calendar,
 	onRecalculate,
 	isRecalculating,
 }: {
 	chapter: ComputedChapter;
+	/** Scenes in this chapter (empty when no scene breaks have been detected) */
+	scenes: ComputedScene[];
 	isCurrentChapter: boolean;
 	isExpanded: boolean;
 	isHighlighted?: boolean;
@@ -144,6 +225,7 @@ function ChapterCard({
 	eventStore: EventStore;
 	swipeContext: SwipeContext;
 	timeFormat: '12h' | '24h';
+	calendar: CalendarDefinition | null;
 	onRecalculate?: () => void;
 	isRecalculating?: boolean;
 }) {
@@ -227,6 +309,15 @@ function ChapterCard({
 						</span>
 					</span>
 				)}
+				{scenes.length > 0 && (
+					<span className="bt-v2-chapter-stat">
+						<i className="fa-solid fa-clapperboard" />
+						<span>
+							{scenes.length} scene
+							{scenes.length !== 1 ? 's' : ''}
+						</span>
+					</span>
+				)}
 				{chapter.endReason && (
 					<span className="bt-v2-chapter-stat bt-end-reason">
 						<i className="fa-solid fa-flag-checkered" />
@@ -255,6 +346,24 @@ function ChapterCard({
 			{/* Expanded content */}
 			{isExpanded && (
 				<div className="bt-v2-chapter-expanded-content">
+					{/* Scenes */}
+					{scenes.length > 0 && (
+						<div className="bt-v2-chapter-scenes">
+							<h4>
+								<i className="fa-solid fa-clapperboard" />
+								<span>Scenes</span>
+							</h4>
+							<div className="bt-v2-scene-list">
+								{scenes.map(scene => (
+									<SceneItem
+										key={scene.index}
+										scene={scene}
+									/>
+								))}
+							</div>
+						</div>
+					)}
+
 					{/* Milestones */}
 					{chapter.milestones.length > 0 && (
 						<div className="bt-v2-chapter-milestones">
@@ -338,6 +447,9 @@ function ChapterCard({
 											timeFormat={
 												timeFormat
 											}
+											calendar={
+												calendar
+											}
 										/>
 									),
 								)}
@@ -350,11 +462,53 @@ function ChapterCard({
 	);
 }
 
+/**
+ * Collapsible group of the chapters summarized into one arc.
+ */
+function ArcGroup({
+	arc,
+	isExpanded,
+	onToggle,
+	children,
+}: {
+	arc: ComputedArc;
+	isExpanded: boolean;
+	onToggle: () => void;
+	children: React.ReactNode;
+}) {
+	return (
+		<div className={`bt-v2-arc-group ${isExpanded ? 'bt-expanded' : ''}`}>
+			<div className="bt-v2-arc-header" onClick={onToggle}>
+				<span className="bt-v2-arc-index">Arc {arc.index + 1}</span>
+				<span className="bt-v2-arc-title">{arc.title}</span>
+				<span className="bt-v2-arc-range">
+					Ch. {arc.firstChapter + 1}–{arc.lastChapter + 1}
+				</span>
+				<button
+					className="bt-v2-chapter-expand-btn"
+					onClick={e => {
+						e.stopPropagation();
+						onToggle();
+					}}
+					aria-label={isExpanded ? 'Collapse' : 'Expand'}
+				>
+					<i
+						className={`fa-solid fa-chevron-${isExpanded ? 'up' : 'down'}`}
+					/>
+				</button>
+			</div>
+			<div className="bt-v2-arc-summary">{arc.summary}</div>
+			{isExpanded && <div className="bt-v2-arc-chapters">{children}</div>}
+		</div>
+	);
+}
+
 export function V2ChaptersTab({
 	projection,
 	eventStore,
 	swipeContext,
 	timeFormat = '12h',
+	calendar = null,
 	onRecalculateChapter,
 	targetChapter,
 }: V2ChaptersTabProps): React.ReactElement {
@@ -365,9 +519,58 @@ export function V2ChaptersTab({
 		return [...all].reverse();
 	}, [eventStore, swipeContext]);
 
+	const arcs = useMemo(
+		() => computeArcs(eventStore, swipeContext),
+		[eventStore, swipeContext],
+	);
+
+	// Scenes are only listed once at least one scene break has been detected
+	const scenes = useMemo(() => {
+		const all = computeScenes(eventStore, swipeContext);
+		return all.some(scene => scene.endedAtMessage) ? all : [];
+	}, [eventStore, swipeContext]);
+
+	// Group chapters under their arcs (still newest first)
+	const listItems = useMemo(() => {
+		const items: ChapterListItem[] = [];
+		for (const chapter of chapters) {
+			const arc = getArcForChapter(arcs, chapter.index);
+			const last = items[items.length - 1];
+			if (!arc) {
+				items.push({ type: 'chapter', chapter });
+			} else if (last?.type === 'arc' && last.arc.index === arc.index) {
+				last.chapters.push(chapter);
+			} else {
+				items.push({ type: 'arc', arc, chapters: [chapter] });
+			}
+		}
+		return items;
+	}, [chapters, arcs]);
+
 	// Get the newest chapter index (for auto-expand)
 	const newestChapterIndex = chapters.length > 0 ? chapters[0].index : null;
 
+	// Arcs start collapsed, except the one holding the target chapter
+	const [expandedArcs, setExpandedArcs] = useState<Set<number>>(() => {
+		const targetArc =
+			targetChapter !== undefined
+				? getArcForChapter(arcs, targetChapter)
+				: undefined;
+		return new Set(targetArc ? [targetArc.index] : []);
+	});
+
+	const toggleArc = (arcIndex: number) => {
+		setExpandedArcs(prev => {
+			const next = new Set(prev);
+			if (next.has(arcIndex)) {
+				next.delete(arcIndex);
+			} else {
+				next.add(arcIndex);
+			}
+			return next;
+		});
+	};
+
 	// Refs for scrolling to target chapter
 	const chapterRefs = useRef<Map<number, HTMLDivElement>>(new Map());
 
@@ -385,6 +588,10 @@ export function V2ChaptersTab({
 		if (targetChapter !== undefined) {
 			setExpandedChapter(targetChapter);
 			setHighlightedChapter(targetChapter);
+			const targetArc = getArcForChapter(arcs, targetChapter);
+			if (targetArc) {
+				setExpandedArcs(prev => new Set(prev).add(targetArc.index));
+			}
 
 			// Scroll to chapter after a brief delay for DOM update
 			setTimeout(() => {
@@ -402,7 +609,7 @@ export function V2ChaptersTab({
 				setHighlightedChapter(null);
 			}, 2000);
 		}
-	}, [targetChapter]);
+	}, [targetChapter, arcs]);
 
 	// Handle chapter recalculation
 	const handleRecalculate = async (chapterIndex: number) => {
@@ -416,6 +623,42 @@ export function V2ChaptersTab({
 		}
 	};
 
+	const renderChapter = (chapter: ComputedChapter) => (
+		<div
+			key={chapter.index}
+			ref={el => {
+				if (el) chapterRefs.current.set(chapter.index, el);
+			}}
+		>
+			<ChapterCard
+				chapter={chapter}
+				scenes={scenes.filter(
+					scene => scene.chapterIndex === chapter.index,
+				)}
+				isCurrentChapter={chapter.index === projection.currentChapter}
+				isExpanded={expandedChapter === chapter.index}
+				isHighlighted={highlightedChapter === chapter.index}
+				onToggle={() =>
+					setExpandedChapter(
+						expandedChapter === chapter.index
+							? null
+							: chapter.index,
+					)
+				}
+				eventStore={eventStore}
+				swipeContext={swipeContext}
+				timeFormat={timeFormat}
+				calendar={calendar}
+				onRecalculate={
+					onRecalculateChapter
+						? () => handleRecalculate(chapter.index)
+						: undefined
+				}
+				isRecalculating={recalculatingChapter === chapter.index}
+			/>
+		</div>
+	);
+
 	if (chapters.length === 0) {
 		return (
 			<div className="bt-v2-chapters-empty">
@@ -433,55 +676,22 @@ export function V2ChaptersTab({
 		<div className="bt-v2-chapters-container">
 			{/* Chapters List - newest first */}
 			<div className="bt-v2-chapters-list">
-				{chapters.map(chapter => (
-					<div
-						key={chapter.index}
-						ref={el => {
-							if (el)
-								chapterRefs.current.set(
-									chapter.index,
-									el,
-								);
-						}}
-					>
-						<ChapterCard
-							chapter={chapter}
-							isCurrentChapter={
-								chapter.index ===
-								projection.currentChapter
-							}
-							isExpanded={
-								expandedChapter === chapter.index
-							}
-							isHighlighted={
-								highlightedChapter === chapter.index
-							}
-							onToggle={() =>
-								setExpandedChapter(
-									expandedChapter ===
-										chapter.index
-										? null
-										: chapter.index,
-								)
-							}
-							eventStore={eventStore}
-							swipeContext={swipeContext}
-							timeFormat={timeFormat}
-							onRecalculate={
-								onRecalculateChapter
-									? () =>
-											handleRecalculate(
-												chapter.index,
-											)
-									: undefined
-							}
-							isRecalculating={
-								recalculatingChapter ===
-								chapter.index
-							}
-						/>
-					</div>
-				))}
+				{listItems.map(item =>
+					item.type === 'chapter' ? (
+						renderChapter(item.chapter)
+					) : (
+						<ArcGroup
+							key={`arc-${item.arc.index}`}
+							arc={item.arc}
+							isExpanded={expandedArcs.has(
+								item.arc.index,
+							)}
+							onToggle={() => toggleArc(item.arc.index)}
+						>
+							{item.chapters.map(renderChapter)}
+						</ArcGroup>
+					),
+				)}
 			</div>
 		</div>
 	);
@@ -13,24 +13,32 @@ import {
 	getTensionIcon,
 	getTensionTypeColor,
 } from '../icons';
+import type { CalendarDefinition } from '../../../utils/calendar';
+import { formatMoment } from '../../../utils/dateFormat';
 
 export interface V2EventsTabProps {
 	projection: Projection;
 	timeFormat?: '12h' | '24h';
+	/** Custom calendar of the character card (null for Gregorian) */
+	calendar?: CalendarDefinition | null;
 }
 
 /**
  * Format narrative time for display.
  */
-function formatNarrativeTime(time: moment.Moment | null, timeFormat: '12h' | '24h'): string {
+function formatNarrativeTime(
+	time: moment.Moment | null,
+	timeFormat: '12h' | '24h',
+	calendar: CalendarDefinition | null,
+): string {
 	if (!time) return '';
 	if (timeFormat === '24h') {
-		return time.format('ddd, MMM D [at] HH:mm');
+		return formatMoment(time, 'ddd, MMM D [at] HH:mm', calendar);
 	}
 	const hour12 = time.hour() % 12 || 12;
 	const ampm = time.hour() < 12 ? 'AM' : 'PM';
 	const minute = time.minute().toString().padStart(2, '0');
-	return `${time.format('ddd, MMM D')} at ${hour12}:${minute} ${ampm}`;
+	return `${formatMoment(time, 'ddd, MMM D', calendar)} at ${hour12}:${minute} ${ampm}`;
 }
 
 /**
@@ -39,9 +47,11 @@ function formatNarrativeTime(time: moment.Moment | null, timeFormat: '12h' | '24
 function NarrativeEventItem({
 	event,
 	timeFormat,
+	calendar,
 }: {
 	event: NarrativeEvent;
 	timeFormat: '12h' | '24h';
+	calendar: CalendarDefinition | null;
 }) {
 	const levelIconClass = getTensionLevelIcon(event.tension.level);
 	const levelColor = getTensionColor(event.tension.level);
@@ -56,7 +66,11 @@ function NarrativeEventItem({
 			{/* Row 1: Time (left), Tension icons (right) */}
 			<div className="bt-event-header">
 				<span className="bt-event-time">
-					{formatNarrativeTime(event.narrativeTime, timeFormat)}
+					{formatNarrativeTime(
+						event.narrativeTime,
+						timeFormat,
+						calendar,
+					)}
 				</span>
 				<div className="bt-event-header-right">
 					<div className="bt-event-tension">
@@ -139,6 +153,7 @@ function NarrativeEventItem({
 export function V2EventsTab({
 	projection,
 	timeFormat = '12h',
+	calendar = null,
 }: V2EventsTabProps): React.ReactElement {
 	// Get events for current chapter from projection, newest first
 	const events = useMemo(() => {
@@ -177,6 +192,7 @@ export function V2EventsTab({
 						key={`${event.source.messageId}-${event.source.swipeId}-${idx}`}
 						event={event}
 						timeFormat={timeFormat}
+						calendar={calendar}
 					/>
 				))}
 			</div>
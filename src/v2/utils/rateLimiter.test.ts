@@ -149,6 +149,69 @@ describe('RateLimiter', () => {
 		});
 	});
 
+	describe('acquireSlot', () => {
+		it('claims the slot so concurrent callers wait their turn', async () => {
+			const limiter = new RateLimiter(1);
+
+			const first = limiter.acquireSlot();
+			const second = limiter.acquireSlot();
+			let secondResolved = false;
+			second.then(() => {
+				secondResolved = true;
+			});
+
+			(await first).complete();
+			await vi.advanceTimersByTimeAsync(30_000);
+			expect(secondResolved).toBe(false);
+
+			await vi.advanceTimersByTimeAsync(31_000);
+			expect(secondResolved).toBe(true);
+		});
+
+		it('does not count released slots against the limit', async () => {
+			const limiter = new RateLimiter(1);
+
+			const failed = await limiter.acquireSlot();
+			const next = limiter.acquireSlot();
+			let nextResolved = false;
+			next.then(() => {
+				nextResolved = true;
+			});
+
+			await vi.advanceTimersByTimeAsync(5_000);
+			expect(nextResolved).toBe(false);
+
+			// The failed request gives its slot back
+			failed.release();
+			await vi.advanceTimersByTimeAsync(1_100);
+			expect(nextResolved).toBe(true);
+		});
+
+		it('counts completed slots only once', async () => {
+			const limiter = new RateLimiter(2);
+
+			const slot = await limiter.acquireSlot();
+			slot.complete();
+			slot.complete();
+			slot.release();
+
+			await vi.advanceTimersByTimeAsync(1_000);
+			const next = limiter.acquireSlot();
+			let nextResolved = false;
+			next.then(() => {
+				nextResolved = true;
+			});
+			await vi.advanceTimersByTimeAsync(100);
+			expect(nextResolved).toBe(true);
+		});
+
+		it('does not wait when disabled', async () => {
+			const limiter = new RateLimiter(0);
+			await limiter.acquireSlot();
+			await limiter.acquireSlot();
+		});
+	});
+
 	describe('sliding window', () => {
 		it('correctly prunes old timestamps', async () => {
 			const limiter = new RateLimiter(2);
@@ -7,12 +7,33 @@
 
 import { debugLog } from '../../utils/debug';
 
+/**
+ * A claimed rate limit slot. Like recordRequest, only requests that succeed
+ * count against the limit: complete the slot after success, or release it
+ * if the request failed or was aborted.
+ */
+export interface RateLimitSlot {
+	/** Count the request, as of now */
+	complete(): void;
+	/** Give the slot back without counting the request */
+	release(): void;
+}
+
+const NO_OP_SLOT: RateLimitSlot = {
+	complete: () => {},
+	release: () => {},
+};
+
 /**
  * Rate limiter using sliding window algorithm.
  * Provides non-blocking async wait for rate limit slots.
  */
 export class RateLimiter {
 	private timestamps: number[] = [];
+	/** Claimed slots whose requests haven't finished */
+	private pending = 0;
+	/** When the last slot was claimed, for the buffer between requests */
+	private lastClaim = 0;
 	private readonly windowMs = 60_000; // 1 minute window
 	private readonly bufferMs = 1000; // 1 second buffer between requests
 
@@ -31,6 +52,41 @@ export class RateLimiter {
 	 * @throws Error if aborted
 	 */
 	async waitForSlot(abortSignal?: AbortSignal): Promise<void> {
+		await this.waitUntilAvailable(false, abortSignal);
+	}
+
+	/**
+	 * Wait until a rate limit slot is available and claim it immediately.
+	 * Unlike waitForSlot + recordRequest, concurrent callers can't both take
+	 * the last slot in the window. The request only counts once the slot is
+	 * completed.
+	 * @param abortSignal - Optional signal to abort waiting
+	 * @throws Error if aborted
+	 */
+	async acquireSlot(abortSignal?: AbortSignal): Promise<RateLimitSlot> {
+		await this.waitUntilAvailable(true, abortSignal);
+		if (this._maxRequestsPerMinute <= 0) return NO_OP_SLOT;
+
+		let settled = false;
+		const settle = (count: boolean) => {
+			if (settled) return;
+			settled = true;
+			this.pending--;
+			if (count) this.recordRequest();
+		};
+		return { complete: () => settle(true), release: () => settle(false) };
+	}
+
+	/**
+	 * Record that a request was made.
+	 * Call this after successful request completion.
+	 */
+	recordRequest(): void {
+		if (this._maxRequestsPerMinute <= 0) return;
+		this.timestamps.push(Date.now());
+	}
+
+	private async waitUntilAvailable(claim: boolean, abortSignal?: AbortSignal): Promise<void> {
 		// Disabled when maxRequestsPerMinute <= 0
 		if (this._maxRequestsPerMinute <= 0) return;
 
@@ -43,10 +99,13 @@ export class RateLimiter {
 			const now = Date.now();
 			this.pruneOldTimestamps(now);
 
-			// Check if we have capacity
-			if (this.timestamps.length < this._maxRequestsPerMinute) {
-				// Check buffer from last request
-				const lastRequest = this.timestamps[this.timestamps.length - 1];
+			// Check if we have capacity (slots still in flight count too)
+			if (this.timestamps.length + this.pending < this._maxRequestsPerMinute) {
+				// Check buffer from last request (or claimed slot)
+				const lastRequest = Math.max(
+					this.timestamps[this.timestamps.length - 1] ?? 0,
+					this.lastClaim,
+				);
 				if (lastRequest && now - lastRequest < this.bufferMs) {
 					const waitTime = this.bufferMs - (now - lastRequest);
 					debugLog(
@@ -55,10 +114,20 @@ export class RateLimiter {
 					await this.sleep(waitTime, abortSignal);
 					continue;
 				}
-				// Slot available
+				// Slot available (claimed synchronously, before other waiters resume)
+				if (claim) {
+					this.pending++;
+					this.lastClaim = now;
+				}
 				return;
 			}
 
+			// A slot in flight may be released: check again shortly
+			if (this.pending > 0) {
+				await this.sleep(this.bufferMs, abortSignal);
+				continue;
+			}
+
 			// Wait until oldest request falls out of window
 			const oldestTimestamp = this.timestamps[0];
 			const waitTime = this.windowMs - (now - oldestTimestamp) + 10;
@@ -70,15 +139,6 @@ export class RateLimiter {
 		}
 	}
 
-	/**
-	 * Record that a request was made.
-	 * Call this after successful request completion.
-	 */
-	recordRequest(): void {
-		if (this._maxRequestsPerMinute <= 0) return;
-		this.timestamps.push(Date.now());
-	}
-
 	/**
 	 * Remove timestamps older than the window.
 	 */
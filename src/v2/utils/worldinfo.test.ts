@@ -338,6 +338,67 @@ describe('worldinfo utility', () => {
 			expect(result.formattedAfter).toBe('After content');
 		});
 
+		it('should leave out entries written by lorebook sync', async () => {
+			mockCheckWorldInfo.mockResolvedValue({
+				allActivatedEntries: new Set([
+					...mockEntries,
+					{
+						...mockEntries[0],
+						uid: 2,
+						content: 'Elena trusts no one.',
+						blazetracker: { id: 'character:elena', hash: '0' },
+					},
+				]),
+				worldInfoBefore: 'Elena is a thief.\nElena trusts no one.',
+				worldInfoAfter: '',
+			});
+
+			const result = await getMatchedWorldinfo(['Hello Elena']);
+
+			expect(result.entries.map(entry => entry.uid)).toEqual([1]);
+			expect(result.formattedBefore).toBe('Elena is a thief.');
+			expect(result.formattedAfter).toBe('');
+		});
+
+		it('should rebuild the formatted content from unmanaged entries', async () => {
+			const managedContent = 'It is raining in Seattle.';
+			mockCheckWorldInfo.mockResolvedValue({
+				allActivatedEntries: new Set([
+					{ ...mockEntries[0], order: 100, position: 0 },
+					{
+						...mockEntries[0],
+						uid: 2,
+						order: 50,
+						position: 0,
+						content: `Seattle weather: ${managedContent}`,
+					},
+					{
+						...mockEntries[0],
+						uid: 3,
+						order: 10,
+						position: 1,
+						content: 'The city never sleeps.',
+					},
+					{
+						...mockEntries[0],
+						uid: 4,
+						content: managedContent,
+						blazetracker: { id: 'location:seattle', hash: '0' },
+					},
+				]),
+				worldInfoBefore: `Seattle weather: ${managedContent}\nElena is a thief.\n${managedContent}`,
+				worldInfoAfter: 'The city never sleeps.',
+			});
+
+			const result = await getMatchedWorldinfo(['Hello Elena']);
+
+			expect(result.entries.map(entry => entry.uid)).toEqual([1, 2, 3]);
+			expect(result.formattedBefore).toBe(
+				`Seattle weather: ${managedContent}\nElena is a thief.`,
+			);
+			expect(result.formattedAfter).toBe('The city never sleeps.');
+		});
+
 		it('should return empty result when checkWorldInfo returns no entries', async () => {
 			mockCheckWorldInfo.mockResolvedValue({
 				allActivatedEntries: new Set(),
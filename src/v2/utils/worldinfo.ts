@@ -7,6 +7,7 @@
 
 import { debugLog, debugWarn } from '../../utils/debug';
 import type { WIScanEntry, WIGlobalScanData, WIActivated } from '../../types/world-info';
+import { getLorebookMarker } from '../lorebook/marker';
 
 // ============================================
 // Types
@@ -96,6 +97,25 @@ async function getCheckWorldInfo(): Promise<CheckWorldInfoFn | null> {
 	}
 }
 
+/** ST's world_info_position for entries before the character definitions */
+const WI_POSITION_BEFORE = 0;
+
+/** ST's world_info_position for entries after the character definitions */
+const WI_POSITION_AFTER = 1;
+
+/**
+ * Join the content of entries at one position the way ST builds
+ * worldInfoBefore/worldInfoAfter: lowest order first, one entry per line.
+ */
+function formatEntriesAtPosition(entries: WorldinfoEntry[], position: number): string {
+	return entries
+		.filter(entry => (entry.position ?? WI_POSITION_BEFORE) === position)
+		.sort((a, b) => (a.order || 0) - (b.order || 0))
+		.map(entry => entry.content)
+		.filter(Boolean)
+		.join('\n');
+}
+
 /**
  * Fetch worldinfo entries that match the given messages.
  *
@@ -130,11 +150,27 @@ export async function getMatchedWorldinfo(messages: string[]): Promise<Worldinfo
 			globalScanData,
 		);
 
-		// Convert Set to Array
-		const entries = Array.from(result.allActivatedEntries || []);
+		// Convert Set to Array, leaving out the entries BlazeTracker syncs
+		// itself so tracked state isn't fed back into extraction
+		const activated = Array.from(result.allActivatedEntries || []);
+		const entries = activated.filter(entry => !getLorebookMarker(entry));
+		const hasManagedEntries = entries.length < activated.length;
 
 		debugLog(`Worldinfo: Found ${entries.length} activated entries`);
 
+		// ST's formatted output includes the managed entries, so rebuild it
+		// from the others when any activated
+		if (hasManagedEntries) {
+			return {
+				entries,
+				formattedBefore: formatEntriesAtPosition(
+					entries,
+					WI_POSITION_BEFORE,
+				),
+				formattedAfter: formatEntriesAtPosition(entries, WI_POSITION_AFTER),
+			};
+		}
+
 		return {
 			entries,
 			formattedBefore: result.worldInfoBefore || '',
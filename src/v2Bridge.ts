@@ -9,7 +9,8 @@ import type { STContext } from './types/st';
 import { getV2Settings } from './v2/settings/manager';
 import type { V2Settings } from './v2/settings/types';
 import {
-	SillyTavernGenerator,
+	isGeneratorConfigured,
+	createGeneratorFromSettings,
 	EventStore as V2EventStore,
 	extractTurn,
 	type ExtractionContext,
@@ -21,7 +22,30 @@ import { recalculateChapterDescription } from './v2/orchestrators/chapterInvalid
 import type { SwipeContext } from './v2/store/projection';
 import type { MilestoneInfo } from './v2/store/projection';
 import { isMilestoneWorthy, type Subject } from './v2/types/subject';
+import {
+	createEventStoreBundle,
+	validateEventStoreBundle,
+	importEventStoreBundle,
+	fingerprintChat,
+	findLastSharedMessageId,
+	type FingerprintableMessage,
+	type EventStoreBundle,
+	type BundleImportResult,
+} from './v2/store/exportBundle';
+import { needsStoreMigration, formatStoreMigrationReport } from './v2/migration/storeMigrations';
+import { EditHistory } from './v2/store/editHistory';
+import { generateEventId, type SerializedEventStore } from './v2/store/serialization';
+import type { WeatherOverride, WeatherOverrideEvent } from './v2/types';
+import { requestLorebookSync } from './v2/lorebook';
 import { EXTENSION_KEY } from './constants';
+import {
+	getActiveAstronomy,
+	getActiveCalendar,
+	getCardClimateProfiles,
+} from './v2/cardExtensions/reader';
+import type { CalendarDefinition } from './utils/calendar';
+import type { AstronomySettings, CustomClimateProfile } from './weather/types';
+import { isValidCustomClimateProfile } from './weather/climateProfiles';
 import {
 	setProgressCallback,
 	startExtractionRun,
@@ -34,6 +58,16 @@ import { debugLog, debugWarn, errorLog } from './utils/debug';
 // Storage key for v2 event store (stored in message 0)
 const V2_STORE_KEY = 'v2EventStore';
 
+// Storage key for hashes of the chat's messages when the store was last saved
+// (stored in message 0), used to find where a branch split off
+const V2_CHAT_HASHES_KEY = 'v2ChatHashes';
+
+// Chat metadata key for raw pre-migration store backups, keyed by source version
+const V2_STORE_BACKUPS_KEY = 'v2EventStoreBackups';
+
+// Chat metadata key for the undo/redo history of manual store edits
+const V2_EDIT_HISTORY_KEY = 'v2EditHistory';
+
 // ============================================
 // Abort Controller Management
 // ============================================
@@ -124,8 +158,18 @@ export function buildExtractionContext(stContext: STContext): ExtractionContext
 /**
  * Convert V2 settings to ExtractionSettings.
  * Uses the new V2Settings format with proper per-prompt temperature support.
+ *
+ * @param settings - The V2 settings
+ * @param calendar - Custom calendar of the current character (null = Gregorian)
+ * @param cardClimateProfiles - Climate profiles of the current character card
+ * @param astronomy - Sun and moons of the current character's world (null = Earth's)
  */
-export function buildExtractionSettingsFromV2(settings: V2Settings): ExtractionSettings {
+export function buildExtractionSettingsFromV2(
+	settings: V2Settings,
+	calendar: CalendarDefinition | null = null,
+	cardClimateProfiles: CustomClimateProfile[] = [],
+	astronomy: AstronomySettings | null = null,
+): ExtractionSettings {
 	return {
 		profileId: settings.v2ProfileId,
 		track: {
@@ -153,9 +197,27 @@ export function buildExtractionSettingsFromV2(settings: V2Settings): ExtractionS
 		promptTemperatures: settings.v2PromptTemperatures,
 		maxMessagesToSend: settings.v2MaxMessagesToSend,
 		maxChapterMessagesToSend: settings.v2MaxChapterMessagesToSend,
+		chaptersPerArc: settings.v2ChaptersPerArc,
+		scenes: settings.v2Scenes.enabled
+			? {
+					confirm: settings.v2Scenes.confirmWithLLM,
+					timeJumpMinutes: settings.v2Scenes.timeJumpMinutes,
+					presenceChanges: settings.v2Scenes.presenceChanges,
+				}
+			: undefined,
 		promptPrefix: settings.v2PromptPrefix || undefined,
 		promptSuffix: settings.v2PromptSuffix || undefined,
 		includeWorldinfo: settings.v2IncludeWorldinfo,
+		concurrency: settings.v2ExtractionConcurrency,
+		batched: settings.v2BatchedExtraction,
+		strategyOverrides:
+			settings.v2ExtractorStrategies as ExtractionSettings['strategyOverrides'],
+		calendar,
+		climateProfiles: [
+			...cardClimateProfiles,
+			...settings.v2ClimateProfiles.filter(isValidCustomClimateProfile),
+		],
+		astronomy,
 	};
 }
 
@@ -166,6 +228,9 @@ export function buildExtractionSettingsFromV2(settings: V2Settings): ExtractionS
 // In-memory store for the current chat session
 let currentEventStore: V2EventStore | null = null;
 
+// Message hashes of the current chat, as of loading or the last save
+let currentChatHashes: string[] | null = null;
+
 /**
  * Get or create the v2 EventStore for the current chat.
  */
@@ -180,9 +245,14 @@ export function getV2EventStore(): V2EventStore {
  * Reset the event store and load from storage (call on chat change).
  */
 export function resetV2EventStore(): void {
+	// Keep the outgoing store - a new branch may need to inherit it
+	const previousStore = currentEventStore;
+	const previousChatHashes = currentChatHashes;
 	currentEventStore = null;
+	currentChatHashes = null;
+	loadV2EditHistory();
 	// Try to load from storage
-	loadV2EventStore();
+	loadV2EventStore(previousStore, previousChatHashes);
 }
 
 /**
@@ -195,8 +265,19 @@ export function setV2EventStore(store: V2EventStore): void {
 /**
  * Load the v2 EventStore from chat storage (message 0).
  * Returns true if successfully loaded, false otherwise.
+ *
+ * If the chat is a branch or checkpoint of another chat, the store is trimmed to
+ * the branch point and the parent is recorded in its lineage. This covers both a
+ * stale copy of the parent's store in message 0 and a branch with no store at all,
+ * in which case the parent's store is taken from `previousStore`.
+ *
+ * @param previousStore - Store of the chat that was open before (if any)
+ * @param previousChatHashes - Message hashes of the chat that was open before
  */
-export function loadV2EventStore(): boolean {
+export function loadV2EventStore(
+	previousStore: V2EventStore | null = null,
+	previousChatHashes: string[] | null = null,
+): boolean {
 	try {
 		const context = SillyTavern.getContext() as unknown as STContext;
 		const chat = context.chat;
@@ -205,16 +286,28 @@ export function loadV2EventStore(): boolean {
 			return false;
 		}
 
+		currentChatHashes = hashChatMessages(chat);
+
 		const firstMessage = chat[0];
 		const storage = firstMessage.extra?.[EXTENSION_KEY] as
 			| Record<string, unknown>
 			| undefined;
 
 		if (!storage || !storage[V2_STORE_KEY]) {
-			return false;
+			return inheritParentV2EventStore(
+				context,
+				previousStore,
+				previousChatHashes,
+			);
 		}
 
 		const serializedData = storage[V2_STORE_KEY];
+		const needsMigration = needsStoreMigration(serializedData);
+		if (needsMigration) {
+			// Keep the raw payload before anything touches it
+			backupRawV2EventStore(context, serializedData);
+		}
+
 		const loadedStore = V2EventStore.fromSerialized(serializedData);
 
 		if (loadedStore) {
@@ -223,9 +316,37 @@ export function loadV2EventStore(): boolean {
 				`Loaded v2 EventStore: ${loadedStore.activeEventCount} events, ` +
 					`${loadedStore.snapshots.length} snapshots`,
 			);
+
+			const migration = loadedStore.lastMigration;
+			if (migration) {
+				const summary = formatStoreMigrationReport(migration);
+				debugLog(`Migrated v2 EventStore ${summary}`);
+				st_echo?.(
+					'info',
+					`🔥 BlazeTracker state upgraded from v${migration.fromVersion} to v${migration.toVersion} (backup kept in chat metadata)`,
+				);
+			}
+
+			const storedHashes = storage[V2_CHAT_HASHES_KEY];
+			const chatChanged = assignV2EventStoreToChat(
+				context,
+				loadedStore,
+				Array.isArray(storedHashes) ? (storedHashes as string[]) : null,
+			);
+
+			// Persist so migration and branch detection only run once
+			if (migration || chatChanged) {
+				void saveV2EventStore();
+			}
 			return true;
 		}
 
+		if (needsMigration) {
+			errorLog(
+				'Failed to migrate v2 EventStore - raw data kept in chat metadata backup',
+			);
+		}
+
 		return false;
 	} catch (e) {
 		debugWarn('Failed to load v2 EventStore:', e);
@@ -233,6 +354,189 @@ export function loadV2EventStore(): boolean {
 	}
 }
 
+/**
+ * Hash every message of a chat, for finding branch points.
+ */
+function hashChatMessages(chat: readonly FingerprintableMessage[]): string[] {
+	return fingerprintChat(chat).map(fp => fp.hash);
+}
+
+/**
+ * Find the message a chat was branched from, by comparing its messages with
+ * the parent's. Messages added to the branch since don't count.
+ *
+ * @param parentHashes - Message hashes of the parent chat
+ * @returns The branch message ID, or null if it can't be found
+ */
+function findBranchMessageId(context: STContext, parentHashes: string[] | null): number | null {
+	if (!parentHashes) return null;
+	const branchMessageId = findLastSharedMessageId(
+		parentHashes,
+		hashChatMessages(context.chat),
+	);
+	return branchMessageId >= 0 ? branchMessageId : null;
+}
+
+/**
+ * Get the chat a branch or checkpoint was created from.
+ * ST records it as `main_chat` in the new chat's metadata.
+ */
+function getParentChatId(context: STContext): string | null {
+	const mainChat = context.chatMetadata?.main_chat;
+	return typeof mainChat === 'string' && mainChat ? mainChat : null;
+}
+
+/**
+ * Make sure a loaded store belongs to the current chat.
+ *
+ * A store whose chat ID is the current chat's parent is a copy made by ST when
+ * branching, and is converted into a branch store. Stores without a chat ID (saved
+ * before branch tracking) or with a different, unrelated ID (renamed chat) are
+ * simply stamped with the current chat ID, as are copies whose branch point can't
+ * be found.
+ *
+ * @param parentHashes - Message hashes saved with the store (the parent's, for a copy)
+ * @returns true if the store was changed and needs saving
+ */
+function assignV2EventStoreToChat(
+	context: STContext,
+	store: V2EventStore,
+	parentHashes: string[] | null,
+): boolean {
+	const chatId = getCurrentChatId();
+	if (!chatId || store.chatId === chatId) {
+		return false;
+	}
+
+	const parentChatId = getParentChatId(context);
+	const isBranchCopy =
+		parentChatId !== null &&
+		parentChatId !== chatId &&
+		(store.chatId === parentChatId ||
+			(store.chatId === null && store.lineage.length === 0));
+
+	if (!isBranchCopy) {
+		store.setChatId(chatId);
+		return true;
+	}
+
+	const branchMessageId = findBranchMessageId(context, parentHashes);
+	if (branchMessageId === null) {
+		debugWarn(
+			`Could not find where this chat branched from ${parentChatId}, keeping its store as is`,
+		);
+		store.setChatId(chatId);
+		return true;
+	}
+
+	store.convertToBranch(parentChatId, branchMessageId, chatId);
+	// ST copies chat metadata into the branch, including the parent's edit history
+	clearV2EditHistory();
+	debugLog(
+		`Converted v2 EventStore copy from ${parentChatId} into branch at message ${branchMessageId}`,
+	);
+	st_echo?.(
+		'info',
+		`🔥 BlazeTracker state follows branch from "${parentChatId}" (up to message ${branchMessageId})`,
+	);
+	return true;
+}
+
+/**
+ * Give a freshly created branch the state of the chat it was branched from.
+ * Only applies when the branch has no store of its own and the previously open
+ * chat is the branch's parent.
+ *
+ * @returns true if a store was inherited
+ */
+function inheritParentV2EventStore(
+	context: STContext,
+	previousStore: V2EventStore | null,
+	previousChatHashes: string[] | null,
+): boolean {
+	const parentChatId = getParentChatId(context);
+	if (!parentChatId || !previousStore?.hasInitialSnapshot) {
+		return false;
+	}
+	if (previousStore.chatId !== parentChatId) {
+		return false;
+	}
+
+	const branchMessageId = findBranchMessageId(context, previousChatHashes);
+	if (branchMessageId === null) {
+		debugWarn(`Could not find where this chat branched from ${parentChatId}`);
+		return false;
+	}
+
+	const store = previousStore.getDeepClone();
+	store.convertToBranch(parentChatId, branchMessageId, getCurrentChatId());
+
+	if (!store.hasInitialSnapshot) {
+		return false;
+	}
+
+	currentEventStore = store;
+	clearV2EditHistory();
+	debugLog(`Inherited v2 EventStore from ${parentChatId} up to message ${branchMessageId}`);
+	st_echo?.(
+		'info',
+		`🔥 BlazeTracker state carried over from "${parentChatId}" (up to message ${branchMessageId})`,
+	);
+	void saveV2EventStore();
+	return true;
+}
+
+/**
+ * Open a chat from the current store's lineage.
+ *
+ * @param chatId - Chat ID of the ancestor to open
+ */
+export async function openV2LineageChat(chatId: string): Promise<void> {
+	const context = SillyTavern.getContext() as unknown as STContext;
+
+	try {
+		if (context.groupId && context.openGroupChat) {
+			await context.openGroupChat(context.groupId, chatId);
+		} else if (context.openCharacterChat) {
+			await context.openCharacterChat(chatId);
+		} else {
+			debugWarn('Chat navigation not available in this SillyTavern version');
+		}
+	} catch (e) {
+		errorLog(`Failed to open chat ${chatId}:`, e);
+	}
+}
+
+/**
+ * Back up a raw serialized store into chat metadata before migrating it.
+ * An existing backup for the same version is never overwritten, so the
+ * oldest copy of each version survives repeated load attempts.
+ */
+function backupRawV2EventStore(context: STContext, data: unknown): void {
+	const version = (data as { version: number }).version;
+
+	if (!context.chatMetadata[EXTENSION_KEY]) {
+		context.chatMetadata[EXTENSION_KEY] = {};
+	}
+	const metadata = context.chatMetadata[EXTENSION_KEY] as Record<string, unknown>;
+	if (!metadata[V2_STORE_BACKUPS_KEY]) {
+		metadata[V2_STORE_BACKUPS_KEY] = {};
+	}
+	const backups = metadata[V2_STORE_BACKUPS_KEY] as Record<string, unknown>;
+
+	const key = `v${version}`;
+	if (backups[key]) {
+		return;
+	}
+
+	backups[key] = {
+		backedUpAt: Date.now(),
+		data: JSON.parse(JSON.stringify(data)),
+	};
+	context.saveMetadataDebounced();
+	debugLog(`Backed up v${version} EventStore to chat metadata`);
+}
+
 /**
  * Save the v2 EventStore to chat storage (message 0).
  * Also persists the chat to disk.
@@ -261,10 +565,19 @@ export async function saveV2EventStore(): Promise<void> {
 			firstMessage.extra[EXTENSION_KEY] = {};
 		}
 
+		// Stores created in this chat (or imported) are stamped with its ID
+		if (!currentEventStore.chatId) {
+			currentEventStore.setChatId(getCurrentChatId());
+		}
+
 		// Serialize and save
 		const serialized = currentEventStore.serialize();
-		(firstMessage.extra[EXTENSION_KEY] as Record<string, unknown>)[V2_STORE_KEY] =
-			serialized;
+		const storage = firstMessage.extra[EXTENSION_KEY] as Record<string, unknown>;
+		storage[V2_STORE_KEY] = serialized;
+
+		// Branches made from here find their branch point with these
+		currentChatHashes = hashChatMessages(chat);
+		storage[V2_CHAT_HASHES_KEY] = currentChatHashes;
 
 		// Persist to disk
 		await context.saveChat();
@@ -273,6 +586,9 @@ export async function saveV2EventStore(): Promise<void> {
 			`Saved v2 EventStore: ${currentEventStore.activeEventCount} events, ` +
 				`${currentEventStore.snapshots.length} snapshots`,
 		);
+
+		// Mirror the new state into the managed lorebook
+		requestLorebookSync(() => currentEventStore);
 	} catch (e) {
 		errorLog('Failed to save v2 EventStore:', e);
 	}
@@ -283,6 +599,7 @@ export async function saveV2EventStore(): Promise<void> {
  */
 export async function clearV2EventStore(): Promise<void> {
 	currentEventStore = null;
+	clearV2EditHistory();
 
 	try {
 		const context = SillyTavern.getContext() as unknown as STContext;
@@ -299,6 +616,7 @@ export async function clearV2EventStore(): Promise<void> {
 
 		if (storage && storage[V2_STORE_KEY]) {
 			delete storage[V2_STORE_KEY];
+			delete storage[V2_CHAT_HASHES_KEY];
 			await context.saveChat();
 		}
 	} catch (e) {
@@ -306,6 +624,61 @@ export async function clearV2EventStore(): Promise<void> {
 	}
 }
 
+// ============================================
+// Export / Import
+// ============================================
+
+/**
+ * Get the current ST chat ID, or null if unavailable.
+ */
+export function getCurrentChatId(): string | null {
+	const context = SillyTavern.getContext() as unknown as STContext;
+	return context.getCurrentChatId?.() ?? null;
+}
+
+/**
+ * Build a portable export bundle for a store in the current chat.
+ *
+ * @param store - Store to export (defaults to the current chat's store)
+ * @returns The bundle, or null if there is nothing to export
+ */
+export function exportV2EventStoreBundle(store?: V2EventStore): EventStoreBundle | null {
+	const source = store ?? currentEventStore;
+	if (!source || !source.hasInitialSnapshot) {
+		return null;
+	}
+
+	const context = SillyTavern.getContext() as unknown as STContext;
+	return createEventStoreBundle(source, context.chat, getCurrentChatId());
+}
+
+/**
+ * Validate bundle data and build a store for the current chat from it.
+ * Does not replace the current store - callers decide whether to apply the result.
+ *
+ * @param data - Parsed JSON from an export file
+ * @returns The import result, or an error message
+ */
+export function buildV2EventStoreFromBundle(
+	data: unknown,
+): { result: BundleImportResult; error?: never } | { result?: never; error: string } {
+	const validation = validateEventStoreBundle(data);
+	if (validation.error !== undefined) {
+		return { error: validation.error };
+	}
+
+	const context = SillyTavern.getContext() as unknown as STContext;
+	const imported = importEventStoreBundle(validation.bundle, context.chat);
+	if (imported.result) {
+		debugLog(
+			`Imported v2 EventStore bundle from chat ${validation.bundle.sourceChatId ?? 'unknown'}: ` +
+				`${imported.result.store.activeEventCount} events, ` +
+				`${imported.result.droppedEvents} dropped, remapped=${imported.result.remapped}`,
+		);
+	}
+	return imported;
+}
+
 // ============================================
 // Progress Tracking
 // ============================================
@@ -324,6 +697,8 @@ export interface V2ExtractionOptions {
 	onStatus?: (status: string) => void;
 	/** Whether this is a manual extraction (vs auto) */
 	isManual?: boolean;
+	/** Ask the LLM again instead of reusing cached responses (explicit re-roll) */
+	reroll?: boolean;
 	/** Called when extraction starts for a message (for UI updates) */
 	onMessageStart?: (messageId: number) => void;
 	/** Called when extraction ends for a message (for UI updates) */
@@ -347,14 +722,19 @@ export async function runV2Extraction(
 	const stContext = SillyTavern.getContext() as unknown as STContext;
 	const v2Settings = getV2Settings();
 
-	if (!v2Settings.v2ProfileId) {
-		debugWarn('No profile ID configured');
+	if (!isGeneratorConfigured(v2Settings)) {
+		debugWarn('No connection profile or API configured');
 		return null;
 	}
 
 	// Build v2 context and settings
 	const extractionContext = buildExtractionContext(stContext);
-	const extractionSettings = buildExtractionSettingsFromV2(v2Settings);
+	const extractionSettings = buildExtractionSettingsFromV2(
+		v2Settings,
+		getActiveCalendar(),
+		getCardClimateProfiles(),
+		getActiveAstronomy(),
+	);
 
 	// Slice context to only include messages up to messageId
 	extractionContext.chat = extractionContext.chat.slice(0, messageId + 1);
@@ -364,7 +744,9 @@ export async function runV2Extraction(
 
 	// Create abort controller and generator
 	const abortController = getExtractionAbortController();
-	const generator = new SillyTavernGenerator({ profileId: v2Settings.v2ProfileId });
+	const generator = createGeneratorFromSettings(v2Settings, {
+		bypassCache: options.reroll,
+	});
 
 	// Set up progress tracking
 	if (onProgress) {
@@ -582,7 +964,13 @@ export function getProjectionForMessage(messageId: number): Projection | null {
  *
  * @param newStore - The edited store to replace the current one
  */
-export async function replaceV2EventStore(newStore: V2EventStore): Promise<void> {
+export async function replaceV2EventStore(
+	newStore: V2EventStore,
+	historyLabel: string = 'Edit state',
+): Promise<void> {
+	if (currentEventStore) {
+		recordV2EditHistory(historyLabel, currentEventStore.serialize(), newStore);
+	}
 	currentEventStore = newStore;
 	await saveV2EventStore();
 }
@@ -619,6 +1007,62 @@ export function getInitialSnapshotMessageId(): number {
 	return currentEventStore?.initialSnapshotMessageId ?? -1;
 }
 
+/**
+ * Get the latest message after the initial snapshot that has events on its
+ * current swipe. Returns -1 if no such message exists.
+ */
+export function getLatestExtractedMessageId(): number {
+	const store = currentEventStore;
+	if (!store?.hasInitialSnapshot) return -1;
+
+	const stContext = SillyTavern.getContext() as unknown as STContext;
+	const swipeContext = buildSwipeContext(stContext);
+	const messageIds = store.getMessageIdsWithEvents().filter(
+		id =>
+			id > store.initialSnapshotMessageId &&
+			store.getEventsAtMessage({
+				messageId: id,
+				swipeId: swipeContext.getCanonicalSwipeId(id),
+			}).length > 0,
+	);
+	return messageIds.length > 0 ? Math.max(...messageIds) : -1;
+}
+
+/**
+ * Add a weather override event at a message (on its current swipe).
+ * Events at the initial snapshot message are not projected, so the message
+ * must come after it.
+ *
+ * @returns false if there is no store or the message is not after the snapshot
+ */
+export async function addV2WeatherOverride(
+	messageId: number,
+	override: WeatherOverride,
+): Promise<boolean> {
+	if (!currentEventStore?.hasInitialSnapshot) return false;
+	if (messageId <= currentEventStore.initialSnapshotMessageId) return false;
+
+	const stContext = SillyTavern.getContext() as unknown as STContext;
+	const source = {
+		messageId,
+		swipeId: buildSwipeContext(stContext).getCanonicalSwipeId(messageId),
+	};
+	const event: WeatherOverrideEvent = {
+		id: generateEventId(),
+		source,
+		timestamp: Date.now(),
+		kind: 'weather_override',
+		...override,
+	};
+
+	const newStore = currentEventStore.getDeepClone();
+	newStore.appendEvents([event]);
+	newStore.rebuildSnapshotsAfterMessage(source);
+	await replaceV2EventStore(newStore, 'Add weather override');
+	debugLog(`Added ${override.condition} weather override for "${override.areaName}"`);
+	return true;
+}
+
 /**
  * Delete all events for a message from the v2 store.
  * Used when a message is deleted.
@@ -762,6 +1206,147 @@ function isFirstOccurrenceOfSubject(
 	return true; // This is the first
 }
 
+// ============================================
+// Edit History (Undo / Redo)
+// ============================================
+
+// Undo/redo history for the current chat
+let currentEditHistory = new EditHistory();
+
+/**
+ * Load the edit history for the current chat from chat metadata.
+ */
+function loadV2EditHistory(): void {
+	const context = SillyTavern.getContext() as unknown as STContext;
+	const metadata = context.chatMetadata?.[EXTENSION_KEY] as
+		| Record<string, unknown>
+		| undefined;
+	currentEditHistory = EditHistory.fromSerialized(metadata?.[V2_EDIT_HISTORY_KEY]);
+}
+
+/**
+ * Persist the edit history to chat metadata.
+ */
+function saveV2EditHistory(): void {
+	const context = SillyTavern.getContext() as unknown as STContext;
+	if (!context.chatMetadata) {
+		return;
+	}
+	if (!context.chatMetadata[EXTENSION_KEY]) {
+		context.chatMetadata[EXTENSION_KEY] = {};
+	}
+	const metadata = context.chatMetadata[EXTENSION_KEY] as Record<string, unknown>;
+	metadata[V2_EDIT_HISTORY_KEY] = currentEditHistory.serialize();
+	context.saveMetadataDebounced();
+}
+
+/**
+ * Forget the edit history of the current chat.
+ */
+function clearV2EditHistory(): void {
+	if (!currentEditHistory.canUndo && !currentEditHistory.canRedo) {
+		return;
+	}
+	currentEditHistory.clear();
+	saveV2EditHistory();
+}
+
+/**
+ * Record a store change in the edit history.
+ */
+function recordV2EditHistory(
+	label: string,
+	before: SerializedEventStore,
+	after: V2EventStore,
+): void {
+	if (currentEditHistory.record(label, before, after.serialize())) {
+		saveV2EditHistory();
+	}
+}
+
+/**
+ * Run an operation that changes the current store in place (e.g. a re-extraction)
+ * and record the change so it can be undone.
+ *
+ * @param label - Description shown in the undo button and toasts
+ * @param operation - The operation to run
+ */
+export async function runV2StoreOperation<T>(
+	label: string,
+	operation: () => Promise<T>,
+): Promise<T> {
+	const store = currentEventStore;
+	const before = store?.serialize() ?? null;
+
+	const result = await operation();
+
+	// Skip recording if the chat changed while the operation ran
+	if (before && store && store === currentEventStore) {
+		recordV2EditHistory(label, before, store);
+	}
+	return result;
+}
+
+/**
+ * Labels of the operations that undo and redo would affect (null if none).
+ */
+export function getV2EditHistoryState(): { undoLabel: string | null; redoLabel: string | null } {
+	return {
+		undoLabel: currentEditHistory.undoLabel,
+		redoLabel: currentEditHistory.redoLabel,
+	};
+}
+
+/**
+ * Apply an undo or redo step to the current store and save it.
+ */
+async function applyV2EditHistoryStep(direction: 'undo' | 'redo'): Promise<string | null> {
+	if (!currentEventStore) {
+		return null;
+	}
+
+	const current = currentEventStore.serialize();
+	const step =
+		direction === 'undo'
+			? currentEditHistory.undo(current)
+			: currentEditHistory.redo(current);
+	if (!step) {
+		return null;
+	}
+
+	const restored = V2EventStore.fromSerialized(step.data);
+	if (!restored) {
+		// The store didn't change, so neither does the history
+		currentEditHistory.cancel(direction);
+		errorLog(`Failed to ${direction} "${step.label}": restored store is invalid`);
+		return null;
+	}
+
+	currentEventStore = restored;
+	saveV2EditHistory();
+	await saveV2EventStore();
+	debugLog(`${direction === 'undo' ? 'Undid' : 'Redid'} "${step.label}"`);
+	return step.label;
+}
+
+/**
+ * Revert the latest recorded store change.
+ *
+ * @returns The label of the undone operation, or null if there was nothing to undo
+ */
+export function undoV2Edit(): Promise<string | null> {
+	return applyV2EditHistoryStep('undo');
+}
+
+/**
+ * Reapply the latest undone store change.
+ *
+ * @returns The label of the redone operation, or null if there was nothing to redo
+ */
+export function redoV2Edit(): Promise<string | null> {
+	return applyV2EditHistoryStep('redo');
+}
+
 // ============================================
 // Chapter Recalculation
 // ============================================
@@ -784,17 +1369,22 @@ export async function recalculateV2Chapter(
 	const stContext = SillyTavern.getContext() as unknown as STContext;
 	const v2Settings = getV2Settings();
 
-	if (!v2Settings.v2ProfileId) {
-		debugWarn('No profile ID configured for chapter recalculation');
+	if (!isGeneratorConfigured(v2Settings)) {
+		debugWarn('No connection profile or API configured for chapter recalculation');
 		return store;
 	}
 
 	// Build extraction context and settings
 	const extractionContext = buildExtractionContext(stContext);
-	const extractionSettings = buildExtractionSettingsFromV2(v2Settings);
+	const extractionSettings = buildExtractionSettingsFromV2(
+		v2Settings,
+		getActiveCalendar(),
+		getCardClimateProfiles(),
+		getActiveAstronomy(),
+	);
 
 	// Create generator
-	const generator = new SillyTavernGenerator({ profileId: v2Settings.v2ProfileId });
+	const generator = createGeneratorFromSettings(v2Settings);
 
 	// Create abort controller (allow cancellation)
 	const abortController = new AbortController();
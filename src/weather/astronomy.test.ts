@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import {
+	DEFAULT_ASTRONOMY,
+	describeSky,
+	getDayAstronomy,
+	getDaylightPhase,
+	getForecastLatitude,
+	getSkyState,
+	getSunTimes,
+	isValidAstronomySettings,
+	parseMoonDefinitions,
+	formatMoonDefinitions,
+} from './astronomy';
+import type { AstronomySettings, LocationForecast, SkyState } from './types';
+
+const midsummer = { year: 2024, month: 6, day: 21 };
+const midwinter = { year: 2024, month: 12, day: 21 };
+
+// ============================================
+// Sun
+// ============================================
+
+describe('getDayAstronomy', () => {
+	it('gives long summer days at high latitudes', () => {
+		const london = getDayAstronomy(midsummer, 51.5);
+
+		expect(london.sunrise).toBeCloseTo(3.7, 0);
+		expect(london.sunset).toBeCloseTo(20.3, 0);
+		expect(london.daylightHours).toBeGreaterThan(16);
+	});
+
+	it('gives about 12 hours of daylight at the equator', () => {
+		expect(getDayAstronomy(midsummer, 0).daylightHours).toBeCloseTo(12, 0);
+		expect(getDayAstronomy(midwinter, 0).daylightHours).toBeCloseTo(12, 0);
+	});
+
+	it('reverses the seasons in the southern hemisphere', () => {
+		const june = getDayAstronomy(midsummer, -34).daylightHours;
+		const december = getDayAstronomy(midwinter, -34).daylightHours;
+
+		expect(december).toBeGreaterThan(june + 3);
+	});
+
+	it('puts civil twilight before sunrise and after sunset', () => {
+		const day = getDayAstronomy({ year: 2024, month: 3, day: 20 }, 45);
+
+		expect(day.civilDawn!).toBeLessThan(day.sunrise!);
+		expect(day.civilDusk!).toBeGreaterThan(day.sunset!);
+	});
+
+	it('handles polar day and night', () => {
+		const summer = getDayAstronomy(midsummer, 75);
+		const winter = getDayAstronomy(midwinter, 75);
+
+		expect(summer.sunrise).toBeNull();
+		expect(summer.daylightHours).toBe(24);
+		expect(winter.sunrise).toBeNull();
+		expect(winter.daylightHours).toBe(0);
+	});
+
+	it('uses the axial tilt of custom astronomy', () => {
+		const untilted: AstronomySettings = { ...DEFAULT_ASTRONOMY, axialTilt: 0 };
+
+		expect(getDayAstronomy(midsummer, 60, untilted).daylightHours).toBeCloseTo(12, 0);
+	});
+});
+
+describe('getSunTimes', () => {
+	it('keeps the sun up all day during polar day', () => {
+		expect(getSunTimes(midsummer, 75)).toEqual({ sunrise: 0, sunset: 24 });
+	});
+
+	it('rises and sets at noon during polar night', () => {
+		expect(getSunTimes(midwinter, 75)).toEqual({ sunrise: 12, sunset: 12 });
+	});
+});
+
+// ============================================
+// Moons
+// ============================================
+
+describe('moon phases', () => {
+	it('follows the real moon', () => {
+		// New moon (solar eclipse) on 2024-04-08, full moon on 2024-04-23
+		expect(getDayAstronomy({ year: 2024, month: 4, day: 8 }, 40).moons[0].phase).toBe(
+			'new',
+		);
+
+		const full = getDayAstronomy({ year: 2024, month: 4, day: 23 }, 40);
+		expect(full.moons[0].phase).toBe('full');
+		expect(full.moons[0].illumination).toBeGreaterThan(0.95);
+	});
+
+	it('rises around sunset when full', () => {
+		const day = getDayAstronomy({ year: 2024, month: 4, day: 23 }, 40);
+
+		expect(Math.abs(day.moons[0].moonrise! - day.sunset!)).toBeLessThan(1.5);
+	});
+
+	it('tracks each custom moon separately', () => {
+		const astronomy: AstronomySettings = {
+			...DEFAULT_ASTRONOMY,
+			moons: [
+				{ name: 'Masser', period: 30, newMoon: '2024-01-01' },
+				{ name: 'Secunda', period: 10, newMoon: '2024-01-06' },
+			],
+		};
+
+		const day = getDayAstronomy({ year: 2024, month: 1, day: 16 }, 50, astronomy);
+
+		expect(day.moons.map(m => m.phase)).toEqual(['full', 'new']);
+	});
+});
+
+// ============================================
+// Sky
+// ============================================
+
+describe('getSkyState', () => {
+	it('has the full moon high at midnight', () => {
+		const sky = getSkyState({ year: 2024, month: 4, day: 24, hour: 0 }, 40);
+
+		expect(sky.sunElevation).toBeLessThan(-30);
+		expect(sky.moons[0].elevation).toBeGreaterThan(30);
+	});
+
+	it('knows whether the sun is rising', () => {
+		expect(getSkyState({ ...midsummer, hour: 7 }, 45).sunRising).toBe(true);
+		expect(getSkyState({ ...midsummer, hour: 17 }, 45).sunRising).toBe(false);
+	});
+});
+
+describe('getDaylightPhase', () => {
+	it('derives the phase from the sun elevation', () => {
+		expect(getDaylightPhase(-12, true)).toBe('night');
+		expect(getDaylightPhase(-3, true)).toBe('dawn');
+		expect(getDaylightPhase(2, false)).toBe('dusk');
+		expect(getDaylightPhase(30, false)).toBe('day');
+	});
+
+	it('matches the time of day', () => {
+		const phaseAt = (hour: number) => {
+			const sky = getSkyState({ ...midsummer, hour }, 45);
+			return getDaylightPhase(sky.sunElevation, sky.sunRising);
+		};
+
+		expect(phaseAt(1)).toBe('night');
+		expect(phaseAt(4)).toBe('dawn');
+		expect(phaseAt(12)).toBe('day');
+		expect(phaseAt(20)).toBe('dusk');
+	});
+});
+
+describe('describeSky', () => {
+	const sky = (moons: SkyState['moons']): SkyState => ({
+		sunElevation: -20,
+		sunRising: false,
+		moons,
+	});
+
+	it('describes moons above the horizon', () => {
+		expect(
+			describeSky(
+				sky([
+					{
+						name: 'Moon',
+						phase: 'full',
+						illumination: 1,
+						elevation: 5,
+						rising: true,
+					},
+					{
+						name: 'Secunda',
+						phase: 'waning_crescent',
+						illumination: 0.2,
+						elevation: 40,
+						rising: false,
+					},
+				]),
+			),
+		).toBe('full moon rising, waning crescent Secunda up');
+	});
+
+	it('leaves out set and new moons', () => {
+		expect(
+			describeSky(
+				sky([
+					{
+						name: 'Moon',
+						phase: 'full',
+						illumination: 1,
+						elevation: -5,
+						rising: true,
+					},
+					{
+						name: 'Secunda',
+						phase: 'new',
+						illumination: 0,
+						elevation: 40,
+						rising: true,
+					},
+				]),
+			),
+		).toBe('');
+	});
+});
+
+// ============================================
+// Forecasts and validation
+// ============================================
+
+describe('getForecastLatitude', () => {
+	const forecast: LocationForecast = { locationId: 'x', startDate: '2024-01-01', days: [] };
+
+	it('prefers the stored latitude, then the real-world analog, then the base climate', () => {
+		expect(
+			getForecastLatitude({
+				...forecast,
+				latitude: -20,
+				baseClimateType: 'arctic',
+			}),
+		).toBe(-20);
+		expect(
+			getForecastLatitude({
+				...forecast,
+				realWorldAnalog: { name: 'Oslo', latitude: 59.9, longitude: 10.8 },
+			}),
+		).toBe(59.9);
+		expect(getForecastLatitude({ ...forecast, baseClimateType: 'arctic' })).toBe(70);
+		expect(getForecastLatitude(forecast)).toBe(45);
+	});
+});
+
+describe('isValidAstronomySettings', () => {
+	it('accepts the default astronomy', () => {
+		expect(isValidAstronomySettings(DEFAULT_ASTRONOMY)).toBe(true);
+	});
+
+	it('rejects bad moons and tilts', () => {
+		expect(isValidAstronomySettings({ ...DEFAULT_ASTRONOMY, axialTilt: 100 })).toBe(
+			false,
+		);
+		expect(
+			isValidAstronomySettings({
+				...DEFAULT_ASTRONOMY,
+				moons: [{ name: 'Moon', period: 0, newMoon: '2000-01-06' }],
+			}),
+		).toBe(false);
+		expect(
+			isValidAstronomySettings({
+				...DEFAULT_ASTRONOMY,
+				moons: [{ name: 'Moon', period: 28, newMoon: 'yesterday' }],
+			}),
+		).toBe(false);
+	});
+});
+
+describe('parseMoonDefinitions / formatMoonDefinitions', () => {
+	it('skips lines that do not parse', () => {
+		expect(
+			parseMoonDefinitions(
+				'Masser, 30, 2024-01-01\nSecunda, ten, 2024-01-06\n\n',
+			),
+		).toEqual([{ name: 'Masser', period: 30, newMoon: '2024-01-01' }]);
+	});
+
+	it('round-trips moons', () => {
+		expect(
+			parseMoonDefinitions(formatMoonDefinitions(DEFAULT_ASTRONOMY.moons)),
+		).toEqual(DEFAULT_ASTRONOMY.moons);
+	});
+});
@@ -0,0 +1,424 @@
+/**
+ * Astronomy
+ *
+ * Positions of the sun and moons from latitude, date and time: sunrise,
+ * sunset, civil twilight, moon phases, moonrise and moonset. Narrative time
+ * is treated as local solar time, so the sun is always highest at noon.
+ */
+
+import type {
+	AstronomySettings,
+	BaseClimateType,
+	DayAstronomy,
+	DaylightPhase,
+	LocationForecast,
+	MoonDefinition,
+	MoonPhase,
+	SkyState,
+} from './types';
+
+// ============================================
+// Constants
+// ============================================
+
+export const DEFAULT_ASTRONOMY: AstronomySettings = {
+	yearLength: 365.2422,
+	axialTilt: 23.44,
+	moons: [{ name: 'Moon', period: 29.530589, newMoon: '2000-01-06' }],
+};
+
+/**
+ * Typical latitude of each base climate, used when an area has no real
+ * place to take its latitude from.
+ */
+export const BASE_CLIMATE_LATITUDES: Record<BaseClimateType, number> = {
+	arctic: 70,
+	continental: 50,
+	oceanic: 52,
+	temperate: 45,
+	mediterranean: 38,
+	desert: 25,
+	tropical: 10,
+};
+
+export const DEFAULT_LATITUDE = BASE_CLIMATE_LATITUDES.temperate;
+
+export const MOON_PHASE_LABELS: Record<MoonPhase, string> = {
+	new: 'New',
+	waxing_crescent: 'Waxing crescent',
+	first_quarter: 'First quarter',
+	waxing_gibbous: 'Waxing gibbous',
+	full: 'Full',
+	waning_gibbous: 'Waning gibbous',
+	last_quarter: 'Last quarter',
+	waning_crescent: 'Waning crescent',
+};
+
+const MOON_PHASES = Object.keys(MOON_PHASE_LABELS) as MoonPhase[];
+
+const DEG = Math.PI / 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPOCH_MS = Date.UTC(2000, 0, 1);
+
+/** Spring equinox 2000-03-20, in days since the epoch */
+const SPRING_EQUINOX = 79;
+
+/** Sun elevation at sunrise and sunset (refraction and the sun's radius) */
+const SUNRISE_ELEVATION = -0.833;
+/** Sun elevation at the start of dawn and end of dusk */
+const CIVIL_TWILIGHT_ELEVATION = -6;
+/** Sun elevation at which dawn becomes day */
+const DAYLIGHT_ELEVATION = 6;
+
+/** Sampling step for rise and set times, in hours */
+const STEP_HOURS = 1 / 6;
+
+// ============================================
+// Time
+// ============================================
+
+/**
+ * A date and optional time. NarrativeDateTime fits this shape.
+ */
+export interface AstronomyTime {
+	year: number;
+	month: number; // 1-12
+	day: number;
+	hour?: number;
+	minute?: number;
+}
+
+/**
+ * Days since 2000-01-01 00:00.
+ * setUTCFullYear is used so that years 0-99 aren't read as 1900-1999.
+ */
+function toDays(time: AstronomyTime): number {
+	const date = new Date(0);
+	date.setUTCFullYear(time.year, time.month - 1, time.day);
+	const hours = (time.hour ?? 0) + (time.minute ?? 0) / 60;
+	return (date.getTime() - EPOCH_MS) / DAY_MS + hours / 24;
+}
+
+function parseDays(date: string): number {
+	const [year, month, day] = date.split('-').map(Number);
+	return toDays({ year, month, day });
+}
+
+function fraction(value: number): number {
+	return value - Math.floor(value);
+}
+
+function round(value: number, decimals: number): number {
+	const factor = 10 ** decimals;
+	return Math.round(value * factor) / factor;
+}
+
+// ============================================
+// Positions
+// ============================================
+
+/**
+ * Elevation above the horizon in degrees.
+ * @param declination - Radians north of the celestial equator
+ * @param hourAngle - Radians past the highest point in the sky
+ */
+function getElevation(latitude: number, declination: number, hourAngle: number): number {
+	const lat = latitude * DEG;
+	const sinElevation =
+		Math.sin(lat) * Math.sin(declination) +
+		Math.cos(lat) * Math.cos(declination) * Math.cos(hourAngle);
+	return Math.asin(sinElevation) / DEG;
+}
+
+/** Angle of the sun through the year (0 at the spring equinox), radians */
+function getSeasonAngle(days: number, astronomy: AstronomySettings): number {
+	return (2 * Math.PI * (days - SPRING_EQUINOX)) / astronomy.yearLength;
+}
+
+function getSunElevation(days: number, latitude: number, astronomy: AstronomySettings): number {
+	const declination = astronomy.axialTilt * DEG * Math.sin(getSeasonAngle(days, astronomy));
+	const hourAngle = 2 * Math.PI * (fraction(days) - 0.5);
+	return getElevation(latitude, declination, hourAngle);
+}
+
+/**
+ * How far a moon is through its cycle: 0 = new, 0.5 = full.
+ */
+function getMoonAge(days: number, moon: MoonDefinition): number {
+	return fraction((days - parseDays(moon.newMoon)) / moon.period);
+}
+
+/**
+ * A moon trails the sun across the sky by its age; a full moon is opposite
+ * the sun, so it rises at sunset and is low in summer.
+ */
+function getMoonElevation(
+	days: number,
+	latitude: number,
+	moon: MoonDefinition,
+	astronomy: AstronomySettings,
+): number {
+	const lag = 2 * Math.PI * getMoonAge(days, moon);
+	const declination =
+		astronomy.axialTilt * DEG * Math.sin(getSeasonAngle(days, astronomy) + lag);
+	const hourAngle = 2 * Math.PI * (fraction(days) - 0.5) - lag;
+	return getElevation(latitude, declination, hourAngle);
+}
+
+function getMoonPhase(age: number): MoonPhase {
+	return MOON_PHASES[Math.round(age * MOON_PHASES.length) % MOON_PHASES.length];
+}
+
+function getIllumination(age: number): number {
+	return round((1 - Math.cos(2 * Math.PI * age)) / 2, 2);
+}
+
+// ============================================
+// Days
+// ============================================
+
+/**
+ * Find when an elevation first goes above and below a threshold during a day.
+ * @param elevationAt - Elevation at an hour of the day (0-24)
+ */
+function findCrossings(
+	elevationAt: (hour: number) => number,
+	threshold: number,
+): { rise: number | null; set: number | null } {
+	let rise: number | null = null;
+	let set: number | null = null;
+	let previous = elevationAt(0);
+
+	for (let hour = STEP_HOURS; hour <= 24 + STEP_HOURS / 2; hour += STEP_HOURS) {
+		const current = elevationAt(hour);
+		const crossing = hour - STEP_HOURS * ((current - threshold) / (current - previous));
+		if (rise === null && previous < threshold && current >= threshold) {
+			rise = round(crossing, 2);
+		}
+		if (set === null && previous >= threshold && current < threshold) {
+			set = round(crossing, 2);
+		}
+		previous = current;
+	}
+
+	return { rise, set };
+}
+
+/**
+ * Sun and moon events of a day at a latitude.
+ */
+export function getDayAstronomy(
+	date: AstronomyTime,
+	latitude: number,
+	astronomy: AstronomySettings = DEFAULT_ASTRONOMY,
+): DayAstronomy {
+	const start = toDays({ year: date.year, month: date.month, day: date.day });
+	const sunAt = (hour: number) => getSunElevation(start + hour / 24, latitude, astronomy);
+
+	const { rise: sunrise, set: sunset } = findCrossings(sunAt, SUNRISE_ELEVATION);
+	const { rise: civilDawn, set: civilDusk } = findCrossings(sunAt, CIVIL_TWILIGHT_ELEVATION);
+
+	let daylightHours: number;
+	if (sunrise === null && sunset === null) {
+		daylightHours = sunAt(12) >= SUNRISE_ELEVATION ? 24 : 0;
+	} else {
+		daylightHours = round((sunset ?? 24) - (sunrise ?? 0), 2);
+	}
+
+	const moons = astronomy.moons.map(moon => {
+		const { rise, set } = findCrossings(
+			hour => getMoonElevation(start + hour / 24, latitude, moon, astronomy),
+			0,
+		);
+		const age = getMoonAge(start + 0.5, moon);
+		return {
+			name: moon.name,
+			phase: getMoonPhase(age),
+			illumination: getIllumination(age),
+			moonrise: rise,
+			moonset: set,
+		};
+	});
+
+	return { sunrise, sunset, civilDawn, civilDusk, daylightHours, moons };
+}
+
+/**
+ * Sunrise and sunset of a day as hours, for the forecast.
+ * During polar day the sun is up from 0 to 24; during polar night it rises
+ * and sets at noon.
+ */
+export function getSunTimes(
+	date: AstronomyTime,
+	latitude: number,
+	astronomy: AstronomySettings = DEFAULT_ASTRONOMY,
+): { sunrise: number; sunset: number } {
+	const { sunrise, sunset, daylightHours } = getDayAstronomy(date, latitude, {
+		...astronomy,
+		moons: [],
+	});
+	if (sunrise === null && sunset === null) {
+		return daylightHours > 0 ? { sunrise: 0, sunset: 24 } : { sunrise: 12, sunset: 12 };
+	}
+	return { sunrise: sunrise ?? 0, sunset: sunset ?? 24 };
+}
+
+/**
+ * Sunrise and sunset in the middle of a month on Earth, for climate normals.
+ */
+export function getMidMonthSunTimes(
+	latitude: number,
+	month: number,
+): { sunrise: number; sunset: number } {
+	return getSunTimes({ year: 2001, month, day: 15 }, latitude);
+}
+
+// ============================================
+// Sky
+// ============================================
+
+/**
+ * Positions of the sun and moons at a moment.
+ */
+export function getSkyState(
+	time: AstronomyTime,
+	latitude: number,
+	astronomy: AstronomySettings = DEFAULT_ASTRONOMY,
+): SkyState {
+	const days = toDays(time);
+	const soon = days + STEP_HOURS / 24;
+
+	const sunElevation = getSunElevation(days, latitude, astronomy);
+
+	return {
+		sunElevation: round(sunElevation, 1),
+		sunRising: getSunElevation(soon, latitude, astronomy) > sunElevation,
+		moons: astronomy.moons.map(moon => {
+			const age = getMoonAge(days, moon);
+			const elevation = getMoonElevation(days, latitude, moon, astronomy);
+			return {
+				name: moon.name,
+				phase: getMoonPhase(age),
+				illumination: getIllumination(age),
+				elevation: round(elevation, 1),
+				rising:
+					getMoonElevation(soon, latitude, moon, astronomy) >
+					elevation,
+			};
+		}),
+	};
+}
+
+/**
+ * Daylight phase from the sun's elevation. Dawn and dusk run from the start
+ * of civil twilight until the sun is a few degrees above the horizon.
+ */
+export function getDaylightPhase(sunElevation: number, sunRising: boolean): DaylightPhase {
+	if (sunElevation < CIVIL_TWILIGHT_ELEVATION) return 'night';
+	if (sunElevation < DAYLIGHT_ELEVATION) return sunRising ? 'dawn' : 'dusk';
+	return 'day';
+}
+
+/**
+ * Name a moon with its phase, e.g. "full moon" or "waxing crescent Secunda".
+ */
+export function describeMoon(moon: { name: string; phase: MoonPhase }): string {
+	const name = moon.name.toLowerCase() === 'moon' ? 'moon' : moon.name;
+	return `${MOON_PHASE_LABELS[moon.phase].toLowerCase()} ${name}`;
+}
+
+/**
+ * Describe the moons above the horizon, e.g. "full moon rising".
+ * New moons can't be seen and are left out.
+ */
+export function describeSky(sky: SkyState): string {
+	return sky.moons
+		.filter(moon => moon.elevation > 0 && moon.phase !== 'new')
+		.map(moon => {
+			const position =
+				moon.elevation < 15
+					? moon.rising
+						? 'rising'
+						: 'setting'
+					: moon.elevation < 60
+						? 'up'
+						: 'overhead';
+			return `${describeMoon(moon)} ${position}`;
+		})
+		.join(', ');
+}
+
+// ============================================
+// Forecasts
+// ============================================
+
+/**
+ * Latitude of a forecast's area. Older forecasts didn't store one, so it's
+ * taken from the real-world analog or base climate when missing.
+ */
+export function getForecastLatitude(forecast: LocationForecast): number {
+	return (
+		forecast.latitude ??
+		forecast.realWorldAnalog?.latitude ??
+		(forecast.baseClimateType
+			? BASE_CLIMATE_LATITUDES[forecast.baseClimateType]
+			: DEFAULT_LATITUDE)
+	);
+}
+
+// ============================================
+// Validation and Editing
+// ============================================
+
+function isValidMoonDefinition(value: unknown): value is MoonDefinition {
+	if (!value || typeof value !== 'object') return false;
+	const v = value as Record<string, unknown>;
+	return (
+		typeof v.name === 'string' &&
+		v.name.trim().length > 0 &&
+		typeof v.period === 'number' &&
+		Number.isFinite(v.period) &&
+		v.period > 0 &&
+		typeof v.newMoon === 'string' &&
+		/^\d{4}-\d{2}-\d{2}$/.test(v.newMoon)
+	);
+}
+
+/**
+ * Type guard for AstronomySettings.
+ */
+export function isValidAstronomySettings(value: unknown): value is AstronomySettings {
+	if (!value || typeof value !== 'object') return false;
+	const v = value as Record<string, unknown>;
+	return (
+		typeof v.yearLength === 'number' &&
+		Number.isFinite(v.yearLength) &&
+		v.yearLength > 0 &&
+		typeof v.axialTilt === 'number' &&
+		v.axialTilt >= 0 &&
+		v.axialTilt <= 90 &&
+		Array.isArray(v.moons) &&
+		v.moons.every(isValidMoonDefinition)
+	);
+}
+
+/**
+ * Parse moons written one per line as "Name, period, new moon date".
+ * Lines that don't parse are skipped.
+ */
+export function parseMoonDefinitions(text: string): MoonDefinition[] {
+	const moons: MoonDefinition[] = [];
+	for (const line of text.split('\n')) {
+		const [name, period, newMoon] = line.split(',').map(part => part.trim());
+		const moon = { name, period: Number(period), newMoon };
+		if (isValidMoonDefinition(moon)) moons.push(moon);
+	}
+	return moons;
+}
+
+/**
+ * Format moons for editing (inverse of parseMoonDefinitions).
+ */
+export function formatMoonDefinitions(moons: MoonDefinition[]): string {
+	return moons.map(moon => `${moon.name}, ${moon.period}, ${moon.newMoon}`).join('\n');
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+	CITY_CLIMATES,
+	distanceKm,
+	findCityByName,
+	findNearestCity,
+	isValidCityClimate,
+	parseCityClimateFile,
+} from './cityClimates';
+import type { CityClimate } from './types';
+
+const whiterun: CityClimate = {
+	name: 'Whiterun',
+	country: 'Skyrim',
+	aliases: ['Whiterun Hold'],
+	latitude: 62,
+	longitude: 10,
+	highs: [-2, -1, 3, 8, 13, 17, 19, 18, 13, 7, 2, -1],
+	lows: [-9, -9, -6, -1, 4, 8, 10, 9, 5, 1, -4, -8],
+	precip: [50, 45, 40, 35, 40, 50, 60, 65, 60, 60, 55, 55],
+	precipDays: [10, 9, 8, 7, 8, 9, 10, 11, 10, 11, 11, 11],
+	humidity: [85, 82, 76, 70, 68, 70, 74, 78, 82, 85, 87, 87],
+};
+
+describe('CITY_CLIMATES', () => {
+	it('only contains valid cities', () => {
+		expect(CITY_CLIMATES.every(isValidCityClimate)).toBe(true);
+	});
+
+	it('has lows no higher than highs', () => {
+		for (const city of CITY_CLIMATES) {
+			expect(city.lows.every((low, i) => low <= city.highs[i])).toBe(true);
+		}
+	});
+});
+
+describe('findCityByName', () => {
+	it('matches names and aliases without case or accents', () => {
+		expect(findCityByName('tokyo')?.name).toBe('Tokyo');
+		expect(findCityByName('Bombay')?.name).toBe('Mumbai');
+		expect(findCityByName('Sao Paulo')?.name).toBe('São Paulo');
+	});
+
+	it('ignores regions and accepts matching countries', () => {
+		expect(findCityByName('New York, NY, USA')?.name).toBe('New York City');
+		expect(findCityByName('Paris, France')?.name).toBe('Paris');
+	});
+
+	it('rejects a city in another country', () => {
+		expect(findCityByName('Paris, Japan')).toBeNull();
+	});
+
+	it('returns null for unknown places', () => {
+		expect(findCityByName('Whiterun')).toBeNull();
+		expect(findCityByName('Whiterun Hold', [whiterun])).toBe(whiterun);
+	});
+});
+
+describe('findNearestCity', () => {
+	it('returns the closest city within range', () => {
+		// Brighton is about 75 km from London
+		expect(findNearestCity(50.82, -0.14)?.name).toBe('London');
+	});
+
+	it('returns null when no city is in range', () => {
+		expect(findNearestCity(-45, -140)).toBeNull();
+	});
+
+	it('measures great-circle distances', () => {
+		expect(distanceKm(51.51, -0.13, 48.86, 2.35)).toBeCloseTo(344, -1);
+	});
+});
+
+describe('parseCityClimateFile', () => {
+	it('reads a list of cities and skips invalid ones', () => {
+		const result = parseCityClimateFile(
+			JSON.stringify([whiterun, { ...whiterun, highs: [1, 2, 3] }]),
+		);
+
+		expect(result.cities).toEqual([whiterun]);
+		expect(result.skipped).toBe(1);
+	});
+
+	it('reads an object with a cities list', () => {
+		expect(
+			parseCityClimateFile(JSON.stringify({ cities: [whiterun] })).cities,
+		).toHaveLength(1);
+	});
+
+	it('throws on files without cities', () => {
+		expect(() => parseCityClimateFile('{"name": "x"}')).toThrow();
+		expect(() => parseCityClimateFile('not json')).toThrow();
+	});
+});
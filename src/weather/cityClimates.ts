@@ -0,0 +1,871 @@
+/**
+ * City Climates
+ *
+ * Bundled monthly climate normals for major world cities, so forecasts for
+ * real places work without geocoding or weather API calls. Values are
+ * rounded long-term averages. Metric units, index 0 = January.
+ */
+
+import type { CityClimate } from './types';
+
+// ============================================
+// Dataset
+// ============================================
+
+export const CITY_CLIMATES: CityClimate[] = [
+	// Europe
+	{
+		name: 'London',
+		country: 'United Kingdom',
+		latitude: 51.51,
+		longitude: -0.13,
+		highs: [8, 9, 11, 15, 18, 21, 23, 23, 20, 16, 11, 9],
+		lows: [3, 3, 4, 6, 9, 12, 14, 14, 12, 9, 6, 4],
+		precip: [55, 41, 42, 44, 49, 45, 45, 50, 49, 69, 59, 55],
+		precipDays: [11, 9, 9, 9, 8, 8, 7, 8, 8, 10, 10, 10],
+		humidity: [80, 76, 71, 66, 66, 66, 65, 68, 72, 78, 81, 82],
+	},
+	{
+		name: 'Edinburgh',
+		country: 'United Kingdom',
+		latitude: 55.95,
+		longitude: -3.19,
+		highs: [7, 7, 9, 12, 15, 17, 19, 19, 17, 13, 9, 7],
+		lows: [1, 1, 2, 4, 7, 9, 11, 11, 9, 6, 3, 1],
+		precip: [67, 50, 53, 41, 49, 60, 67, 67, 61, 76, 66, 63],
+		precipDays: [12, 9, 10, 9, 9, 9, 10, 10, 10, 12, 11, 11],
+		humidity: [84, 81, 78, 75, 74, 76, 78, 79, 80, 83, 84, 85],
+	},
+	{
+		name: 'Dublin',
+		country: 'Ireland',
+		latitude: 53.35,
+		longitude: -6.26,
+		highs: [8, 9, 11, 13, 16, 18, 20, 19, 17, 14, 10, 8],
+		lows: [2, 2, 3, 5, 7, 10, 12, 12, 10, 7, 4, 3],
+		precip: [63, 48, 51, 54, 59, 66, 56, 73, 59, 79, 73, 72],
+		precipDays: [12, 10, 11, 10, 10, 9, 9, 10, 10, 11, 11, 12],
+		humidity: [86, 84, 80, 76, 76, 78, 79, 81, 83, 85, 87, 87],
+	},
+	{
+		name: 'Paris',
+		country: 'France',
+		latitude: 48.86,
+		longitude: 2.35,
+		highs: [7, 9, 13, 16, 20, 23, 25, 25, 21, 16, 11, 8],
+		lows: [3, 3, 5, 7, 11, 14, 16, 16, 13, 10, 6, 3],
+		precip: [51, 41, 48, 52, 63, 50, 62, 53, 48, 62, 51, 58],
+		precipDays: [10, 9, 10, 9, 9, 8, 7, 7, 7, 9, 10, 11],
+		humidity: [83, 78, 72, 68, 70, 69, 68, 70, 75, 81, 85, 85],
+	},
+	{
+		name: 'Amsterdam',
+		country: 'Netherlands',
+		latitude: 52.37,
+		longitude: 4.9,
+		highs: [6, 7, 10, 14, 18, 20, 22, 22, 19, 15, 10, 7],
+		lows: [1, 1, 3, 5, 9, 11, 13, 13, 11, 8, 4, 2],
+		precip: [68, 51, 59, 42, 53, 65, 78, 82, 80, 84, 84, 75],
+		precipDays: [12, 10, 11, 9, 9, 9, 10, 10, 11, 12, 13, 13],
+		humidity: [88, 85, 81, 75, 74, 76, 77, 79, 83, 86, 89, 89],
+	},
+	{
+		name: 'Berlin',
+		country: 'Germany',
+		latitude: 52.52,
+		longitude: 13.4,
+		highs: [3, 5, 9, 15, 19, 22, 24, 24, 19, 14, 8, 4],
+		lows: [-2, -2, 1, 4, 9, 12, 14, 14, 10, 6, 2, -1],
+		precip: [43, 33, 40, 37, 54, 69, 56, 58, 45, 37, 44, 55],
+		precipDays: [10, 8, 8, 7, 8, 8, 8, 8, 7, 7, 9, 10],
+		humidity: [85, 81, 75, 67, 66, 67, 67, 70, 77, 83, 87, 87],
+	},
+	{
+		name: 'Madrid',
+		country: 'Spain',
+		latitude: 40.42,
+		longitude: -3.7,
+		highs: [10, 12, 16, 18, 22, 28, 32, 31, 26, 19, 13, 10],
+		lows: [3, 3, 6, 8, 11, 16, 19, 19, 15, 11, 6, 3],
+		precip: [33, 35, 25, 45, 48, 20, 11, 10, 28, 49, 56, 56],
+		precipDays: [6, 5, 4, 7, 7, 3, 1, 2, 3, 6, 7, 7],
+		humidity: [71, 65, 56, 56, 51, 42, 36, 38, 47, 61, 69, 73],
+	},
+	{
+		name: 'Rome',
+		country: 'Italy',
+		aliases: ['Roma'],
+		latitude: 41.9,
+		longitude: 12.5,
+		highs: [12, 13, 15, 18, 23, 27, 30, 31, 27, 22, 16, 13],
+		lows: [3, 4, 6, 8, 12, 16, 18, 18, 15, 11, 7, 4],
+		precip: [67, 73, 58, 81, 53, 34, 19, 37, 73, 113, 115, 81],
+		precipDays: [7, 7, 7, 8, 5, 3, 2, 3, 5, 8, 9, 8],
+		humidity: [77, 75, 73, 72, 70, 68, 65, 67, 72, 76, 79, 78],
+	},
+	{
+		name: 'Athens',
+		country: 'Greece',
+		latitude: 37.98,
+		longitude: 23.73,
+		highs: [13, 14, 16, 20, 25, 30, 33, 33, 29, 24, 19, 15],
+		lows: [7, 7, 9, 12, 16, 20, 23, 23, 20, 16, 12, 8],
+		precip: [57, 47, 41, 31, 23, 10, 6, 7, 15, 53, 59, 71],
+		precipDays: [7, 6, 5, 4, 3, 1, 1, 1, 2, 4, 6, 7],
+		humidity: [69, 68, 66, 62, 58, 52, 47, 48, 56, 64, 70, 71],
+	},
+	{
+		name: 'Istanbul',
+		country: 'Turkey',
+		aliases: ['Constantinople'],
+		latitude: 41.01,
+		longitude: 28.98,
+		highs: [9, 9, 12, 16, 21, 26, 28, 29, 25, 20, 15, 11],
+		lows: [3, 3, 5, 8, 13, 17, 20, 21, 17, 13, 8, 5],
+		precip: [99, 78, 68, 44, 32, 30, 20, 33, 56, 80, 97, 119],
+		precipDays: [12, 10, 9, 7, 5, 4, 2, 3, 5, 8, 10, 12],
+		humidity: [77, 76, 74, 73, 74, 71, 70, 71, 72, 75, 76, 77],
+	},
+	{
+		name: 'Stockholm',
+		country: 'Sweden',
+		latitude: 59.33,
+		longitude: 18.07,
+		highs: [-1, -1, 3, 9, 16, 20, 23, 21, 16, 9, 4, 1],
+		lows: [-5, -6, -3, 1, 6, 11, 14, 13, 9, 5, 0, -3],
+		precip: [39, 27, 26, 30, 30, 45, 72, 66, 55, 50, 53, 46],
+		precipDays: [9, 7, 7, 7, 6, 7, 8, 8, 8, 9, 10, 10],
+		humidity: [86, 83, 76, 68, 64, 66, 69, 73, 79, 84, 88, 88],
+	},
+	{
+		name: 'Moscow',
+		country: 'Russia',
+		aliases: ['Moskva'],
+		latitude: 55.76,
+		longitude: 37.62,
+		highs: [-6, -4, 2, 11, 19, 22, 24, 22, 16, 8, 1, -4],
+		lows: [-12, -11, -6, 1, 7, 11, 13, 12, 7, 2, -3, -8],
+		precip: [42, 36, 34, 37, 49, 80, 85, 82, 68, 71, 55, 52],
+		precipDays: [10, 9, 8, 7, 8, 9, 9, 8, 8, 9, 10, 11],
+		humidity: [85, 82, 77, 68, 63, 68, 71, 75, 80, 82, 86, 86],
+	},
+	{
+		name: 'Reykjavik',
+		country: 'Iceland',
+		latitude: 64.15,
+		longitude: -21.94,
+		highs: [3, 3, 3, 6, 9, 12, 14, 13, 11, 7, 4, 3],
+		lows: [-2, -2, -2, 0, 4, 7, 9, 8, 6, 2, -1, -2],
+		precip: [76, 72, 82, 58, 44, 50, 52, 62, 67, 86, 73, 79],
+		precipDays: [15, 13, 14, 12, 10, 10, 10, 11, 13, 15, 13, 15],
+		humidity: [78, 77, 77, 75, 74, 77, 79, 80, 79, 78, 78, 78],
+	},
+	{
+		name: 'Nuuk',
+		country: 'Greenland',
+		aliases: ['Godthåb'],
+		latitude: 64.18,
+		longitude: -51.72,
+		highs: [-4, -5, -5, -1, 4, 8, 11, 10, 6, 1, -2, -4],
+		lows: [-10, -11, -11, -7, -2, 1, 4, 4, 1, -4, -8, -10],
+		precip: [39, 47, 44, 35, 46, 59, 82, 94, 86, 66, 68, 41],
+		precipDays: [10, 10, 11, 9, 9, 9, 11, 12, 13, 12, 11, 10],
+		humidity: [73, 73, 73, 75, 77, 79, 82, 82, 80, 76, 73, 73],
+	},
+
+	// Africa and the Middle East
+	{
+		name: 'Cairo',
+		country: 'Egypt',
+		latitude: 30.04,
+		longitude: 31.24,
+		highs: [19, 21, 24, 28, 32, 34, 35, 35, 33, 30, 25, 21],
+		lows: [9, 10, 12, 15, 18, 21, 23, 23, 21, 18, 14, 11],
+		precip: [5, 4, 4, 1, 0, 0, 0, 0, 0, 1, 3, 6],
+		precipDays: [1, 1, 1, 0, 0, 0, 0, 0, 0, 0, 1, 1],
+		humidity: [59, 54, 53, 47, 46, 49, 58, 61, 60, 60, 61, 61],
+	},
+	{
+		name: 'Marrakesh',
+		country: 'Morocco',
+		aliases: ['Marrakech'],
+		latitude: 31.63,
+		longitude: -7.99,
+		highs: [18, 20, 23, 25, 29, 33, 37, 37, 32, 28, 22, 19],
+		lows: [5, 7, 9, 11, 14, 17, 20, 21, 18, 15, 10, 7],
+		precip: [32, 38, 38, 39, 24, 5, 2, 3, 6, 24, 41, 31],
+		precipDays: [4, 4, 5, 4, 2, 1, 0, 1, 2, 3, 4, 4],
+		humidity: [67, 64, 61, 58, 54, 51, 46, 47, 52, 58, 64, 67],
+	},
+	{
+		name: 'Lagos',
+		country: 'Nigeria',
+		latitude: 6.52,
+		longitude: 3.38,
+		highs: [32, 33, 33, 32, 31, 29, 28, 28, 29, 30, 31, 32],
+		lows: [23, 25, 26, 25, 24, 23, 23, 23, 23, 23, 24, 24],
+		precip: [27, 46, 101, 147, 217, 316, 194, 62, 142, 156, 62, 23],
+		precipDays: [2, 3, 7, 10, 14, 19, 14, 10, 14, 13, 6, 2],
+		humidity: [80, 80, 80, 82, 84, 87, 87, 86, 86, 85, 83, 81],
+	},
+	{
+		name: 'Nairobi',
+		country: 'Kenya',
+		latitude: -1.29,
+		longitude: 36.82,
+		highs: [25, 27, 26, 24, 23, 22, 21, 22, 24, 25, 23, 23],
+		lows: [12, 12, 14, 15, 14, 12, 11, 11, 11, 13, 14, 13],
+		precip: [58, 45, 73, 161, 137, 33, 16, 21, 25, 52, 147, 84],
+		precipDays: [5, 4, 8, 15, 13, 5, 4, 4, 4, 7, 14, 9],
+		humidity: [67, 61, 66, 75, 78, 76, 75, 73, 66, 65, 75, 73],
+	},
+	{
+		name: 'Cape Town',
+		country: 'South Africa',
+		latitude: -33.92,
+		longitude: 18.42,
+		highs: [26, 27, 25, 23, 20, 18, 18, 18, 19, 21, 24, 25],
+		lows: [16, 16, 14, 12, 9, 8, 7, 8, 9, 11, 13, 15],
+		precip: [15, 17, 20, 41, 69, 93, 82, 77, 40, 30, 14, 17],
+		precipDays: [3, 3, 4, 7, 10, 11, 11, 11, 8, 6, 4, 3],
+		humidity: [69, 70, 72, 75, 77, 77, 77, 76, 74, 71, 69, 69],
+	},
+	{
+		name: 'Dubai',
+		country: 'United Arab Emirates',
+		latitude: 25.2,
+		longitude: 55.27,
+		highs: [24, 25, 28, 33, 38, 40, 41, 41, 39, 35, 30, 26],
+		lows: [14, 15, 18, 21, 25, 28, 30, 30, 27, 23, 19, 16],
+		precip: [19, 25, 22, 7, 0, 0, 1, 0, 0, 1, 3, 16],
+		precipDays: [2, 3, 3, 1, 0, 0, 0, 0, 0, 0, 1, 2],
+		humidity: [65, 65, 63, 55, 53, 58, 56, 57, 60, 60, 61, 64],
+	},
+	{
+		name: 'Riyadh',
+		country: 'Saudi Arabia',
+		latitude: 24.71,
+		longitude: 46.68,
+		highs: [20, 23, 28, 33, 39, 43, 44, 44, 41, 35, 27, 22],
+		lows: [9, 11, 15, 21, 26, 28, 30, 29, 27, 21, 15, 11],
+		precip: [13, 8, 25, 27, 6, 0, 0, 0, 0, 1, 7, 15],
+		precipDays: [2, 1, 3, 3, 1, 0, 0, 0, 0, 0, 1, 2],
+		humidity: [45, 37, 34, 30, 20, 13, 13, 14, 15, 21, 36, 46],
+	},
+
+	// Asia
+	{
+		name: 'Delhi',
+		country: 'India',
+		aliases: ['New Delhi'],
+		latitude: 28.61,
+		longitude: 77.21,
+		highs: [20, 24, 30, 36, 40, 39, 35, 34, 34, 33, 28, 23],
+		lows: [8, 10, 15, 21, 26, 28, 27, 27, 25, 19, 13, 8],
+		precip: [19, 20, 15, 10, 30, 74, 210, 233, 124, 15, 5, 8],
+		precipDays: [2, 2, 2, 1, 3, 5, 12, 12, 6, 1, 0, 1],
+		humidity: [71, 63, 52, 38, 38, 52, 73, 78, 71, 60, 62, 70],
+	},
+	{
+		name: 'Mumbai',
+		country: 'India',
+		aliases: ['Bombay'],
+		latitude: 19.08,
+		longitude: 72.88,
+		highs: [31, 31, 33, 33, 34, 32, 30, 30, 31, 33, 33, 32],
+		lows: [17, 18, 21, 24, 27, 26, 25, 25, 25, 24, 21, 19],
+		precip: [1, 0, 0, 1, 11, 493, 840, 585, 341, 89, 9, 2],
+		precipDays: [0, 0, 0, 0, 1, 14, 22, 19, 13, 3, 1, 0],
+		humidity: [62, 63, 66, 70, 72, 80, 85, 85, 82, 75, 66, 63],
+	},
+	{
+		name: 'Bangkok',
+		country: 'Thailand',
+		latitude: 13.76,
+		longitude: 100.5,
+		highs: [32, 33, 34, 35, 34, 33, 33, 33, 32, 32, 32, 31],
+		lows: [22, 24, 26, 27, 27, 26, 26, 26, 25, 25, 24, 22],
+		precip: [13, 20, 42, 91, 248, 237, 199, 231, 328, 243, 56, 9],
+		precipDays: [1, 2, 3, 6, 16, 17, 17, 19, 21, 16, 5, 1],
+		humidity: [68, 70, 71, 71, 74, 75, 75, 76, 79, 79, 72, 67],
+	},
+	{
+		name: 'Singapore',
+		country: 'Singapore',
+		latitude: 1.35,
+		longitude: 103.82,
+		highs: [30, 32, 32, 32, 32, 31, 31, 31, 31, 31, 31, 30],
+		lows: [24, 24, 24, 25, 25, 25, 25, 25, 24, 24, 24, 24],
+		precip: [242, 160, 186, 179, 171, 163, 159, 175, 170, 194, 256, 288],
+		precipDays: [12, 9, 11, 13, 13, 12, 12, 13, 12, 14, 18, 17],
+		humidity: [84, 82, 83, 84, 84, 82, 82, 82, 83, 84, 86, 86],
+	},
+	{
+		name: 'Jakarta',
+		country: 'Indonesia',
+		aliases: ['Batavia'],
+		latitude: -6.21,
+		longitude: 106.85,
+		highs: [31, 31, 32, 33, 33, 32, 32, 33, 33, 33, 33, 32],
+		lows: [24, 24, 25, 25, 25, 24, 24, 24, 25, 25, 25, 25],
+		precip: [300, 300, 211, 147, 114, 97, 64, 43, 67, 112, 142, 203],
+		precipDays: [18, 16, 14, 12, 9, 7, 5, 4, 5, 8, 12, 14],
+		humidity: [85, 85, 83, 82, 81, 80, 77, 74, 74, 76, 80, 83],
+	},
+	{
+		name: 'Manila',
+		country: 'Philippines',
+		latitude: 14.6,
+		longitude: 120.98,
+		highs: [30, 31, 32, 34, 34, 33, 31, 31, 31, 31, 31, 30],
+		lows: [21, 21, 22, 24, 25, 25, 25, 25, 25, 24, 23, 22],
+		precip: [18, 8, 11, 18, 130, 296, 424, 490, 347, 245, 134, 57],
+		precipDays: [3, 2, 2, 3, 8, 16, 20, 22, 20, 15, 9, 5],
+		humidity: [72, 68, 66, 65, 70, 76, 81, 83, 83, 80, 77, 75],
+	},
+	{
+		name: 'Hong Kong',
+		country: 'China',
+		latitude: 22.32,
+		longitude: 114.17,
+		highs: [19, 19, 22, 25, 29, 31, 32, 32, 31, 28, 24, 20],
+		lows: [14, 15, 17, 21, 24, 26, 27, 27, 26, 24, 20, 16],
+		precip: [33, 47, 70, 165, 280, 456, 374, 387, 297, 101, 37, 26],
+		precipDays: [5, 8, 10, 11, 14, 19, 17, 17, 14, 7, 5, 4],
+		humidity: [74, 80, 82, 83, 83, 83, 81, 81, 78, 73, 71, 69],
+	},
+	{
+		name: 'Shanghai',
+		country: 'China',
+		latitude: 31.23,
+		longitude: 121.47,
+		highs: [8, 10, 14, 20, 25, 28, 32, 32, 28, 23, 17, 11],
+		lows: [2, 3, 7, 12, 17, 21, 26, 25, 22, 16, 10, 4],
+		precip: [75, 59, 98, 80, 92, 185, 146, 214, 87, 56, 53, 48],
+		precipDays: [10, 9, 12, 11, 11, 14, 11, 12, 9, 7, 8, 7],
+		humidity: [75, 74, 74, 73, 73, 80, 80, 79, 77, 73, 74, 72],
+	},
+	{
+		name: 'Beijing',
+		country: 'China',
+		aliases: ['Peking'],
+		latitude: 39.9,
+		longitude: 116.41,
+		highs: [2, 5, 12, 21, 27, 30, 31, 30, 26, 19, 10, 3],
+		lows: [-8, -5, 1, 8, 14, 19, 22, 21, 15, 8, 0, -6],
+		precip: [3, 5, 10, 25, 35, 79, 173, 137, 48, 22, 9, 2],
+		precipDays: [1, 2, 3, 5, 6, 10, 13, 11, 6, 4, 2, 1],
+		humidity: [43, 43, 44, 46, 53, 61, 75, 77, 68, 61, 56, 47],
+	},
+	{
+		name: 'Ulaanbaatar',
+		country: 'Mongolia',
+		aliases: ['Ulan Bator'],
+		latitude: 47.89,
+		longitude: 106.91,
+		highs: [-16, -11, -1, 8, 16, 21, 23, 21, 14, 6, -5, -14],
+		lows: [-27, -24, -15, -6, 1, 7, 11, 9, 2, -6, -16, -24],
+		precip: [2, 2, 4, 9, 15, 46, 64, 58, 23, 7, 4, 3],
+		precipDays: [1, 1, 2, 2, 4, 10, 13, 12, 6, 2, 2, 1],
+		humidity: [75, 71, 60, 46, 42, 55, 63, 66, 60, 59, 68, 75],
+	},
+	{
+		name: 'Seoul',
+		country: 'South Korea',
+		latitude: 37.57,
+		longitude: 126.98,
+		highs: [2, 5, 11, 18, 23, 27, 29, 30, 26, 20, 12, 4],
+		lows: [-6, -4, 1, 7, 13, 18, 22, 23, 17, 10, 3, -3],
+		precip: [17, 26, 44, 90, 102, 133, 395, 364, 169, 52, 53, 22],
+		precipDays: [3, 4, 5, 7, 8, 9, 16, 14, 8, 5, 7, 4],
+		humidity: [59, 57, 57, 56, 62, 68, 78, 75, 69, 64, 62, 60],
+	},
+	{
+		name: 'Tokyo',
+		country: 'Japan',
+		aliases: ['Edo'],
+		latitude: 35.68,
+		longitude: 139.69,
+		highs: [10, 10, 14, 19, 23, 26, 30, 31, 27, 22, 17, 12],
+		lows: [1, 2, 5, 10, 15, 19, 23, 24, 21, 15, 9, 4],
+		precip: [52, 56, 118, 125, 138, 168, 154, 168, 210, 198, 93, 51],
+		precipDays: [5, 6, 10, 10, 10, 12, 11, 8, 11, 10, 7, 5],
+		humidity: [52, 53, 56, 62, 69, 75, 77, 73, 75, 71, 64, 56],
+	},
+
+	// Oceania
+	{
+		name: 'Sydney',
+		country: 'Australia',
+		latitude: -33.87,
+		longitude: 151.21,
+		highs: [26, 26, 25, 23, 20, 18, 17, 19, 21, 23, 24, 25],
+		lows: [19, 19, 18, 15, 12, 9, 8, 9, 11, 14, 16, 18],
+		precip: [91, 131, 117, 115, 92, 132, 70, 76, 63, 70, 84, 78],
+		precipDays: [8, 9, 10, 9, 9, 9, 7, 6, 7, 8, 9, 8],
+		humidity: [65, 67, 66, 64, 64, 63, 58, 55, 55, 58, 62, 63],
+	},
+	{
+		name: 'Melbourne',
+		country: 'Australia',
+		latitude: -37.81,
+		longitude: 144.96,
+		highs: [26, 26, 24, 20, 17, 14, 14, 15, 17, 20, 22, 24],
+		lows: [14, 15, 13, 11, 9, 7, 6, 7, 8, 9, 11, 13],
+		precip: [47, 48, 50, 57, 56, 49, 48, 50, 58, 66, 60, 59],
+		precipDays: [6, 5, 6, 8, 9, 9, 10, 10, 10, 9, 8, 7],
+		humidity: [55, 57, 59, 63, 70, 74, 73, 68, 64, 59, 58, 56],
+	},
+	{
+		name: 'Auckland',
+		country: 'New Zealand',
+		latitude: -36.85,
+		longitude: 174.76,
+		highs: [23, 24, 22, 20, 17, 15, 14, 15, 16, 18, 20, 22],
+		lows: [16, 16, 15, 13, 11, 9, 8, 8, 10, 11, 13, 15],
+		precip: [73, 66, 87, 99, 113, 126, 145, 118, 105, 100, 86, 93],
+		precipDays: [8, 7, 9, 10, 13, 15, 17, 16, 14, 12, 10, 10],
+		humidity: [72, 74, 75, 78, 80, 83, 82, 80, 77, 74, 73, 73],
+	},
+	{
+		name: 'Honolulu',
+		country: 'United States',
+		latitude: 21.31,
+		longitude: -157.86,
+		highs: [27, 27, 28, 28, 29, 30, 31, 31, 31, 30, 29, 27],
+		lows: [19, 19, 20, 21, 22, 23, 23, 24, 23, 23, 22, 20],
+		precip: [59, 63, 50, 31, 29, 11, 15, 14, 19, 50, 78, 74],
+		precipDays: [9, 8, 9, 9, 7, 6, 8, 7, 8, 9, 10, 10],
+		humidity: [73, 71, 69, 67, 66, 64, 64, 64, 65, 68, 71, 73],
+	},
+
+	// North America
+	{
+		name: 'New York City',
+		country: 'United States',
+		aliases: ['New York', 'NYC', 'Manhattan', 'Brooklyn'],
+		latitude: 40.71,
+		longitude: -74.01,
+		highs: [4, 6, 10, 17, 22, 27, 29, 29, 25, 18, 12, 6],
+		lows: [-3, -2, 2, 7, 12, 18, 21, 20, 16, 10, 5, 0],
+		precip: [92, 78, 110, 102, 96, 105, 117, 108, 97, 99, 87, 100],
+		precipDays: [11, 9, 11, 11, 11, 10, 10, 9, 8, 9, 9, 11],
+		humidity: [61, 59, 58, 56, 62, 64, 65, 67, 68, 66, 64, 64],
+	},
+	{
+		name: 'Chicago',
+		country: 'United States',
+		latitude: 41.88,
+		longitude: -87.63,
+		highs: [-1, 2, 8, 15, 21, 27, 29, 28, 24, 17, 9, 2],
+		lows: [-9, -7, -2, 4, 10, 16, 19, 19, 14, 7, 1, -6],
+		precip: [51, 49, 66, 93, 105, 103, 95, 104, 84, 80, 74, 60],
+		precipDays: [11, 9, 11, 12, 11, 10, 10, 9, 9, 10, 10, 11],
+		humidity: [72, 72, 70, 66, 66, 68, 70, 73, 73, 70, 74, 76],
+	},
+	{
+		name: 'Miami',
+		country: 'United States',
+		latitude: 25.76,
+		longitude: -80.19,
+		highs: [24, 25, 27, 28, 30, 32, 33, 33, 32, 30, 27, 25],
+		lows: [16, 17, 19, 21, 23, 25, 26, 26, 25, 23, 20, 18],
+		precip: [47, 53, 62, 86, 139, 240, 165, 222, 243, 172, 71, 50],
+		precipDays: [6, 6, 6, 6, 10, 17, 17, 19, 18, 13, 8, 7],
+		humidity: [72, 71, 69, 67, 70, 75, 75, 76, 77, 75, 73, 72],
+	},
+	{
+		name: 'New Orleans',
+		country: 'United States',
+		aliases: ['NOLA'],
+		latitude: 29.95,
+		longitude: -90.07,
+		highs: [17, 19, 23, 26, 30, 32, 33, 33, 31, 27, 22, 18],
+		lows: [7, 9, 12, 16, 20, 23, 24, 24, 22, 17, 12, 9],
+		precip: [130, 123, 114, 128, 117, 202, 150, 158, 131, 89, 110, 134],
+		precipDays: [9, 8, 7, 6, 7, 12, 14, 13, 10, 6, 7, 9],
+		humidity: [75, 73, 72, 72, 73, 75, 78, 78, 77, 74, 76, 76],
+	},
+	{
+		name: 'Denver',
+		country: 'United States',
+		latitude: 39.74,
+		longitude: -104.99,
+		highs: [7, 8, 12, 16, 21, 28, 32, 30, 25, 18, 11, 6],
+		lows: [-8, -7, -3, 1, 6, 11, 15, 14, 9, 2, -4, -8],
+		precip: [11, 11, 27, 45, 58, 50, 53, 46, 31, 25, 17, 13],
+		precipDays: [4, 5, 7, 8, 9, 7, 8, 8, 6, 5, 4, 4],
+		humidity: [53, 53, 50, 47, 49, 45, 45, 47, 46, 46, 54, 55],
+	},
+	{
+		name: 'Phoenix',
+		country: 'United States',
+		latitude: 33.45,
+		longitude: -112.07,
+		highs: [19, 22, 25, 30, 35, 41, 41, 40, 38, 31, 24, 19],
+		lows: [8, 9, 12, 16, 21, 26, 29, 29, 25, 18, 11, 7],
+		precip: [23, 24, 25, 7, 3, 1, 27, 25, 17, 15, 17, 23],
+		precipDays: [4, 4, 3, 1, 1, 0, 4, 5, 3, 2, 2, 3],
+		humidity: [50, 44, 39, 28, 21, 19, 32, 36, 35, 37, 44, 51],
+	},
+	{
+		name: 'Los Angeles',
+		country: 'United States',
+		aliases: ['LA', 'Hollywood'],
+		latitude: 34.05,
+		longitude: -118.24,
+		highs: [20, 20, 21, 23, 23, 26, 28, 29, 28, 26, 23, 20],
+		lows: [9, 10, 11, 12, 14, 16, 18, 18, 17, 15, 11, 9],
+		precip: [79, 97, 62, 23, 6, 2, 0, 0, 2, 16, 27, 59],
+		precipDays: [6, 6, 5, 3, 1, 0, 0, 0, 1, 2, 3, 5],
+		humidity: [62, 66, 70, 70, 73, 75, 74, 74, 73, 70, 64, 62],
+	},
+	{
+		name: 'San Francisco',
+		country: 'United States',
+		aliases: ['SF'],
+		latitude: 37.77,
+		longitude: -122.42,
+		highs: [14, 16, 17, 18, 19, 21, 21, 22, 23, 21, 17, 14],
+		lows: [8, 9, 9, 10, 11, 12, 13, 13, 13, 12, 10, 8],
+		precip: [114, 114, 74, 37, 16, 4, 0, 1, 3, 28, 80, 114],
+		precipDays: [10, 10, 9, 5, 3, 1, 0, 0, 1, 3, 7, 10],
+		humidity: [77, 76, 75, 73, 73, 73, 76, 77, 74, 72, 74, 77],
+	},
+	{
+		name: 'Seattle',
+		country: 'United States',
+		latitude: 47.61,
+		longitude: -122.33,
+		highs: [8, 9, 12, 15, 18, 21, 25, 25, 22, 16, 10, 7],
+		lows: [2, 2, 4, 6, 9, 12, 14, 14, 12, 8, 4, 2],
+		precip: [142, 89, 95, 70, 52, 40, 17, 22, 39, 89, 156, 141],
+		precipDays: [18, 14, 16, 13, 10, 8, 4, 4, 7, 13, 18, 18],
+		humidity: [78, 75, 72, 68, 65, 62, 60, 63, 68, 75, 80, 80],
+	},
+	{
+		name: 'Anchorage',
+		country: 'United States',
+		latitude: 61.22,
+		longitude: -149.9,
+		highs: [-5, -3, 1, 7, 13, 17, 19, 18, 13, 5, -2, -4],
+		lows: [-12, -11, -8, -2, 4, 9, 11, 10, 5, -2, -9, -11],
+		precip: [19, 19, 15, 12, 18, 26, 47, 76, 76, 51, 29, 29],
+		precipDays: [8, 7, 6, 5, 6, 8, 11, 14, 14, 11, 8, 9],
+		humidity: [74, 72, 68, 66, 63, 68, 74, 77, 77, 76, 77, 76],
+	},
+	{
+		name: 'Toronto',
+		country: 'Canada',
+		latitude: 43.65,
+		longitude: -79.38,
+		highs: [-1, 0, 5, 12, 19, 24, 27, 26, 22, 14, 7, 2],
+		lows: [-7, -7, -3, 3, 9, 14, 17, 17, 12, 6, 1, -4],
+		precip: [62, 55, 54, 68, 74, 71, 75, 79, 77, 64, 84, 62],
+		precipDays: [12, 10, 10, 11, 11, 10, 9, 9, 9, 10, 12, 12],
+		humidity: [75, 73, 70, 66, 66, 68, 69, 72, 74, 74, 76, 77],
+	},
+	{
+		name: 'Montreal',
+		country: 'Canada',
+		aliases: ['Montréal'],
+		latitude: 45.5,
+		longitude: -73.57,
+		highs: [-5, -3, 2, 11, 19, 24, 26, 25, 20, 13, 5, -2],
+		lows: [-14, -12, -6, 1, 8, 13, 16, 15, 10, 4, -2, -9],
+		precip: [77, 62, 70, 82, 82, 87, 89, 94, 84, 91, 96, 87],
+		precipDays: [13, 11, 11, 12, 12, 12, 12, 11, 11, 12, 13, 14],
+		humidity: [73, 70, 67, 62, 63, 68, 70, 73, 76, 75, 77, 78],
+	},
+	{
+		name: 'Vancouver',
+		country: 'Canada',
+		latitude: 49.28,
+		longitude: -123.12,
+		highs: [7, 8, 10, 13, 17, 20, 22, 22, 19, 14, 9, 6],
+		lows: [1, 1, 3, 5, 8, 11, 13, 13, 11, 7, 3, 1],
+		precip: [168, 104, 113, 88, 65, 53, 36, 37, 50, 120, 188, 161],
+		precipDays: [19, 15, 17, 14, 12, 10, 6, 6, 8, 15, 20, 19],
+		humidity: [84, 81, 77, 74, 72, 71, 71, 73, 77, 82, 85, 85],
+	},
+	{
+		name: 'Mexico City',
+		country: 'Mexico',
+		aliases: ['Ciudad de México', 'CDMX'],
+		latitude: 19.43,
+		longitude: -99.13,
+		highs: [22, 24, 26, 27, 27, 25, 24, 24, 23, 23, 23, 22],
+		lows: [6, 7, 9, 11, 12, 13, 12, 12, 12, 10, 8, 6],
+		precip: [8, 8, 13, 25, 56, 137, 165, 159, 136, 58, 12, 6],
+		precipDays: [2, 2, 3, 6, 10, 16, 20, 19, 16, 8, 3, 1],
+		humidity: [48, 43, 39, 40, 46, 59, 65, 66, 68, 63, 56, 51],
+	},
+	{
+		name: 'Havana',
+		country: 'Cuba',
+		aliases: ['La Habana'],
+		latitude: 23.11,
+		longitude: -82.37,
+		highs: [26, 26, 28, 29, 30, 31, 32, 32, 31, 29, 28, 27],
+		lows: [19, 19, 20, 21, 22, 23, 24, 24, 24, 23, 21, 20],
+		precip: [64, 69, 46, 54, 98, 182, 106, 100, 144, 181, 88, 58],
+		precipDays: [5, 5, 3, 3, 6, 10, 7, 8, 10, 11, 6, 5],
+		humidity: [75, 74, 72, 72, 74, 78, 77, 78, 79, 80, 77, 75],
+	},
+
+	// South America
+	{
+		name: 'Bogotá',
+		country: 'Colombia',
+		latitude: 4.71,
+		longitude: -74.07,
+		highs: [19, 20, 20, 19, 19, 19, 19, 19, 19, 19, 19, 19],
+		lows: [7, 7, 8, 9, 9, 9, 8, 8, 8, 8, 9, 8],
+		precip: [42, 52, 80, 112, 100, 62, 44, 49, 64, 119, 110, 67],
+		precipDays: [9, 10, 14, 17, 17, 14, 13, 13, 13, 18, 17, 13],
+		humidity: [77, 77, 79, 82, 82, 80, 78, 77, 78, 81, 83, 80],
+	},
+	{
+		name: 'Lima',
+		country: 'Peru',
+		latitude: -12.05,
+		longitude: -77.04,
+		highs: [26, 27, 26, 24, 22, 20, 19, 19, 20, 21, 23, 25],
+		lows: [20, 21, 20, 18, 17, 16, 15, 15, 15, 16, 17, 19],
+		precip: [1, 1, 1, 0, 0, 1, 1, 1, 1, 0, 0, 0],
+		precipDays: [0, 0, 0, 0, 0, 1, 1, 1, 1, 0, 0, 0],
+		humidity: [78, 78, 79, 82, 84, 85, 85, 86, 85, 83, 81, 79],
+	},
+	{
+		name: 'Rio de Janeiro',
+		country: 'Brazil',
+		aliases: ['Rio'],
+		latitude: -22.91,
+		longitude: -43.17,
+		highs: [30, 31, 30, 28, 26, 25, 25, 26, 25, 27, 28, 29],
+		lows: [24, 24, 24, 22, 21, 19, 19, 19, 20, 21, 22, 23],
+		precip: [137, 130, 136, 95, 69, 42, 42, 40, 54, 86, 97, 169],
+		precipDays: [11, 8, 9, 8, 7, 5, 5, 5, 7, 9, 10, 11],
+		humidity: [79, 79, 80, 80, 80, 79, 77, 77, 79, 80, 79, 80],
+	},
+	{
+		name: 'São Paulo',
+		country: 'Brazil',
+		latitude: -23.55,
+		longitude: -46.63,
+		highs: [28, 29, 28, 26, 24, 23, 23, 24, 25, 26, 27, 28],
+		lows: [19, 19, 18, 17, 14, 13, 12, 13, 14, 16, 17, 18],
+		precip: [238, 215, 161, 75, 74, 56, 44, 39, 80, 123, 146, 201],
+		precipDays: [16, 14, 13, 7, 7, 5, 4, 4, 7, 10, 11, 14],
+		humidity: [77, 77, 78, 77, 77, 76, 74, 71, 72, 75, 75, 76],
+	},
+	{
+		name: 'Buenos Aires',
+		country: 'Argentina',
+		latitude: -34.6,
+		longitude: -58.38,
+		highs: [30, 29, 26, 23, 19, 16, 15, 17, 19, 22, 25, 28],
+		lows: [20, 19, 18, 14, 11, 8, 7, 9, 10, 13, 16, 18],
+		precip: [138, 127, 140, 114, 92, 58, 66, 68, 73, 123, 119, 117],
+		precipDays: [9, 8, 9, 9, 7, 7, 7, 7, 7, 10, 10, 9],
+		humidity: [64, 69, 72, 76, 78, 79, 79, 74, 71, 70, 66, 62],
+	},
+	{
+		name: 'Santiago',
+		country: 'Chile',
+		latitude: -33.45,
+		longitude: -70.67,
+		highs: [30, 30, 28, 24, 19, 15, 15, 17, 19, 23, 26, 29],
+		lows: [13, 13, 11, 8, 6, 4, 3, 4, 6, 8, 10, 12],
+		precip: [1, 1, 5, 12, 44, 77, 76, 46, 21, 11, 8, 3],
+		precipDays: [0, 0, 1, 2, 5, 6, 6, 5, 3, 2, 1, 0],
+		humidity: [55, 57, 61, 68, 77, 82, 82, 78, 73, 67, 60, 56],
+	},
+];
+
+// ============================================
+// Constants
+// ============================================
+
+/** Farthest a place can be from a city to use that city's climate */
+export const MAX_CITY_DISTANCE_KM = 250;
+
+const EARTH_RADIUS_KM = 6371;
+
+/** Other names of countries in the dataset, as used in place names */
+const COUNTRY_ALIASES: Record<string, string> = {
+	usa: 'united states',
+	us: 'united states',
+	'united states of america': 'united states',
+	america: 'united states',
+	uk: 'united kingdom',
+	'great britain': 'united kingdom',
+	britain: 'united kingdom',
+	england: 'united kingdom',
+	scotland: 'united kingdom',
+	uae: 'united arab emirates',
+	korea: 'south korea',
+	holland: 'netherlands',
+	'the netherlands': 'netherlands',
+};
+
+// ============================================
+// Lookup
+// ============================================
+
+/**
+ * Normalize a name for comparison: lowercase, no accents, single spaces.
+ */
+function normalizeName(name: string): string {
+	return name
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+function normalizeCountry(name: string): string {
+	const normalized = normalizeName(name);
+	return COUNTRY_ALIASES[normalized] ?? normalized;
+}
+
+function matchesCityName(city: CityClimate, name: string): boolean {
+	return [city.name, ...(city.aliases ?? [])].some(n => normalizeName(n) === name);
+}
+
+/**
+ * Find a city by name or alias.
+ * Accepts "City" and "City, Region, Country"; a country that doesn't match
+ * the city's rules it out, other parts are ignored.
+ */
+export function findCityByName(
+	placeName: string,
+	cities: CityClimate[] = CITY_CLIMATES,
+): CityClimate | null {
+	const [first, ...rest] = placeName.split(',').map(normalizeName);
+	if (!first) return null;
+
+	const knownCountries = new Set(cities.map(city => normalizeCountry(city.country)));
+	const countries = rest
+		.map(part => COUNTRY_ALIASES[part] ?? part)
+		.filter(part => knownCountries.has(part));
+
+	return (
+		cities.find(
+			city =>
+				matchesCityName(city, first) &&
+				countries.every(
+					country => normalizeCountry(city.country) === country,
+				),
+		) ?? null
+	);
+}
+
+/**
+ * Great-circle distance between two points in kilometres.
+ */
+export function distanceKm(
+	latitude1: number,
+	longitude1: number,
+	latitude2: number,
+	longitude2: number,
+): number {
+	const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+	const dLat = toRadians(latitude2 - latitude1);
+	const dLon = toRadians(longitude2 - longitude1);
+	const a =
+		Math.sin(dLat / 2) ** 2 +
+		Math.cos(toRadians(latitude1)) *
+			Math.cos(toRadians(latitude2)) *
+			Math.sin(dLon / 2) ** 2;
+	return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Find the city closest to a point.
+ * @returns The city, or null if none is within maxDistanceKm
+ */
+export function findNearestCity(
+	latitude: number,
+	longitude: number,
+	cities: CityClimate[] = CITY_CLIMATES,
+	maxDistanceKm: number = MAX_CITY_DISTANCE_KM,
+): CityClimate | null {
+	let nearest: CityClimate | null = null;
+	let nearestDistance = maxDistanceKm;
+
+	for (const city of cities) {
+		const distance = distanceKm(latitude, longitude, city.latitude, city.longitude);
+		if (distance <= nearestDistance) {
+			nearest = city;
+			nearestDistance = distance;
+		}
+	}
+
+	return nearest;
+}
+
+// ============================================
+// Climate Data Files
+// ============================================
+
+function isMonthlyValues(value: unknown): value is number[] {
+	return (
+		Array.isArray(value) &&
+		value.length === 12 &&
+		value.every(v => typeof v === 'number' && Number.isFinite(v))
+	);
+}
+
+/**
+ * Type guard for CityClimate.
+ */
+export function isValidCityClimate(value: unknown): value is CityClimate {
+	if (typeof value !== 'object' || value === null) return false;
+	const c = value as Record<string, unknown>;
+	return (
+		typeof c.name === 'string' &&
+		c.name.trim().length > 0 &&
+		typeof c.country === 'string' &&
+		(c.aliases === undefined ||
+			(Array.isArray(c.aliases) &&
+				c.aliases.every(a => typeof a === 'string'))) &&
+		typeof c.latitude === 'number' &&
+		Math.abs(c.latitude) <= 90 &&
+		typeof c.longitude === 'number' &&
+		Math.abs(c.longitude) <= 180 &&
+		isMonthlyValues(c.highs) &&
+		isMonthlyValues(c.lows) &&
+		isMonthlyValues(c.precip) &&
+		isMonthlyValues(c.precipDays) &&
+		isMonthlyValues(c.humidity)
+	);
+}
+
+/**
+ * Parse a climate data file: a JSON array of cities in the format of the
+ * bundled dataset, or an object with a "cities" array.
+ * @returns The valid cities and the number of entries skipped
+ * @throws If the text isn't JSON or has no city list
+ */
+export function parseCityClimateFile(text: string): {
+	cities: CityClimate[];
+	skipped: number;
+} {
+	const data: unknown = JSON.parse(text);
+	const entries = Array.isArray(data)
+		? data
+		: typeof data === 'object' &&
+			  data !== null &&
+			  Array.isArray((data as { cities?: unknown }).cities)
+			? (data as { cities: unknown[] }).cities
+			: null;
+
+	if (!entries) {
+		throw new Error('Expected a list of cities');
+	}
+
+	const cities = entries.filter(isValidCityClimate);
+	return { cities, skipped: entries.length - cities.length };
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	clearCaches,
+	createAutoClimateProvider,
+	fetchClimateNormals,
+	geocodeLocation,
+	getClimateNormalsFromCity,
+	getClimateProvider,
+	networkClimateProvider,
+	offlineClimateProvider,
+} from './climateApi';
+import { CITY_CLIMATES } from './cityClimates';
+import type { ClimateNormals, ClimateProvider } from './types';
+
+function createProvider(overrides: Partial<ClimateProvider> = {}): ClimateProvider {
+	return {
+		name: 'test',
+		geocode: vi.fn().mockResolvedValue(null),
+		fetchNormals: vi.fn().mockResolvedValue(null),
+		...overrides,
+	};
+}
+
+const london = CITY_CLIMATES.find(city => city.name === 'London')!;
+
+beforeEach(() => {
+	clearCaches();
+});
+
+describe('getClimateNormalsFromCity', () => {
+	it('converts metric monthly values', () => {
+		const normals = getClimateNormalsFromCity(london, 7);
+
+		expect(normals.avgHigh).toBeCloseTo(73.4);
+		expect(normals.avgLow).toBeCloseTo(57.2);
+		expect(normals.avgPrecipDays).toBe(7);
+		expect(normals.month).toBe(7);
+	});
+
+	it('gives snow to freezing months and rain to others', () => {
+		const moscow = CITY_CLIMATES.find(city => city.name === 'Moscow')!;
+
+		const january = getClimateNormalsFromCity(moscow, 1).conditionProbabilities;
+
+		expect(january.snow).toBeGreaterThan(january.rain);
+		expect(getClimateNormalsFromCity(london, 7).conditionProbabilities.snow).toBe(0);
+	});
+});
+
+describe('offlineClimateProvider', () => {
+	it('geocodes bundled cities', async () => {
+		expect(await offlineClimateProvider.geocode('London, UK')).toEqual({
+			latitude: london.latitude,
+			longitude: london.longitude,
+		});
+	});
+
+	it('uses the nearest city for climate normals', async () => {
+		const normals = await offlineClimateProvider.fetchNormals(51.4, 0, 3);
+
+		expect(normals?.latitude).toBe(london.latitude);
+		expect(await offlineClimateProvider.fetchNormals(-45, -140, 3)).toBeNull();
+	});
+});
+
+describe('createAutoClimateProvider', () => {
+	it('uses the network when it answers', async () => {
+		const network = createProvider({
+			geocode: vi.fn().mockResolvedValue({ latitude: 1, longitude: 2 }),
+		});
+
+		const auto = createAutoClimateProvider(network, offlineClimateProvider);
+
+		expect(await auto.geocode('London')).toEqual({ latitude: 1, longitude: 2 });
+	});
+
+	it('falls back to offline data when the network has no answer', async () => {
+		const auto = createAutoClimateProvider(createProvider(), offlineClimateProvider);
+
+		expect(await auto.geocode('London')).not.toBeNull();
+	});
+
+	it('skips the network for a while after it fails', async () => {
+		const network = createProvider({
+			geocode: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')),
+		});
+		const auto = createAutoClimateProvider(network, offlineClimateProvider);
+
+		expect(await auto.geocode('London')).not.toBeNull();
+		expect(await auto.geocode('Paris')).not.toBeNull();
+		expect(network.geocode).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('fetchClimateNormals', () => {
+	it('uses the fallback profile when the provider has no data', async () => {
+		const normals = await fetchClimateNormals(70, 20, 1, 'arctic', createProvider());
+
+		expect(normals.latitude).toBe(70);
+		expect(normals.avgHigh).toBeLessThan(20);
+	});
+
+	it('caches normals per provider', async () => {
+		const normals = { month: 3 } as ClimateNormals;
+		const provider = createProvider({
+			fetchNormals: vi.fn().mockResolvedValue(normals),
+		});
+
+		await fetchClimateNormals(10, 10, 3, undefined, provider);
+		expect(await fetchClimateNormals(10, 10, 3, undefined, provider)).toBe(normals);
+		expect(provider.fetchNormals).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('networkClimateProvider', () => {
+	function stubArchive(lowCelsius: number) {
+		const days = 28;
+		const daily = {
+			temperature_2m_max: Array(days).fill(lowCelsius + 5),
+			temperature_2m_min: Array(days).fill(lowCelsius),
+			precipitation_sum: Array(days).fill(5),
+			relative_humidity_2m_mean: Array(days).fill(80),
+			windspeed_10m_max: Array(days).fill(10),
+			cloudcover_mean: Array(days).fill(70),
+		};
+		vi.stubGlobal(
+			'fetch',
+			vi.fn().mockResolvedValue({
+				ok: true,
+				json: () => Promise.resolve({ daily }),
+			}),
+		);
+	}
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('allows snow when the average low is at or below freezing', async () => {
+		stubArchive(-1);
+
+		const normals = await networkClimateProvider.fetchNormals(55, 37, 1);
+
+		expect(normals!.conditionProbabilities.snow).toBeGreaterThan(0);
+	});
+
+	it('rules out snow when the average low is above freezing', async () => {
+		// 2°C is 35.6°F: above freezing, though below 32 if read as Fahrenheit
+		stubArchive(2);
+
+		const normals = await networkClimateProvider.fetchNormals(51, 0, 3);
+
+		expect(normals!.conditionProbabilities.snow).toBe(0);
+		expect(normals!.conditionProbabilities.rain).toBeGreaterThan(0);
+	});
+});
+
+describe('geocodeLocation', () => {
+	it('returns null when the provider throws', async () => {
+		const provider = createProvider({
+			geocode: vi.fn().mockRejectedValue(new Error('boom')),
+		});
+
+		expect(await geocodeLocation('London', provider)).toBeNull();
+	});
+});
+
+describe('getClimateProvider', () => {
+	it('looks up cities from the climate data file first', async () => {
+		const provider = getClimateProvider({
+			source: 'file',
+			fileName: 'skyrim.json',
+			fileCities: [{ ...london, name: 'Whiterun', latitude: 62, longitude: 10 }],
+		});
+
+		expect(await provider.geocode('Whiterun')).toEqual({ latitude: 62, longitude: 10 });
+		expect(await provider.geocode('Tokyo')).not.toBeNull();
+	});
+});
@@ -1,13 +1,19 @@
 /**
  * Climate API Client
  *
- * Fetches historical climate data from Open-Meteo API.
+ * Geocodes places and fetches climate normals through a climate provider:
+ * the Open-Meteo and Nominatim APIs, the bundled city dataset, or a
+ * user-supplied climate data file.
  * Converts metric units to imperial (Fahrenheit, mph, inches).
  */
 
-import type { ClimateNormals } from './types';
+import type { CityClimate, ClimateNormals, ClimateProvider } from './types';
 import { getClimateNormalsFromFallback } from './fallbackProfiles';
-import { debugWarn, errorLog } from '../utils/debug';
+import { CITY_CLIMATES, findCityByName, findNearestCity, isValidCityClimate } from './cityClimates';
+import { getMidMonthSunTimes } from './astronomy';
+import { getV2Settings } from '../v2/settings';
+import type { V2ClimateDataSettings } from '../v2/settings';
+import { debugLog, debugWarn, errorLog } from '../utils/debug';
 
 // ============================================
 // Constants
@@ -17,10 +23,16 @@ const OPEN_METEO_ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive';
 const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search';
 const USER_AGENT = 'BlazeTracker/1.0 (SillyTavern Extension)';
 
+/** How long to stay on offline data after a network request fails */
+const NETWORK_RETRY_MS = 5 * 60 * 1000;
+
 // Cache for API responses
 const climateCache = new Map<string, ClimateNormals>();
 const geocodeCache = new Map<string, { latitude: number; longitude: number } | null>();
 
+// Time until which the network is considered unreachable
+let networkUnreachableUntil = 0;
+
 // ============================================
 // Unit Conversion
 // ============================================
@@ -42,49 +54,23 @@ function mmToInches(mm: number): number {
 // ============================================
 
 /**
- * Geocode a place name to coordinates using Nominatim
+ * Geocode a place name to coordinates with the configured climate provider
  */
 export async function geocodeLocation(
 	placeName: string,
+	provider: ClimateProvider = getClimateProvider(),
 ): Promise<{ latitude: number; longitude: number } | null> {
-	const cacheKey = placeName.toLowerCase().trim();
+	const cacheKey = `${provider.name}:${placeName.toLowerCase().trim()}`;
 
 	if (geocodeCache.has(cacheKey)) {
 		return geocodeCache.get(cacheKey)!;
 	}
 
 	try {
-		const params = new URLSearchParams({
-			q: placeName,
-			format: 'json',
-			limit: '1',
-		});
-
-		const response = await fetch(`${NOMINATIM_URL}?${params}`, {
-			headers: {
-				'User-Agent': USER_AGENT,
-			},
-		});
-
-		if (!response.ok) {
-			debugWarn(`Geocoding failed for "${placeName}": ${response.status}`);
-			geocodeCache.set(cacheKey, null);
-			return null;
-		}
-
-		const data = await response.json();
-
-		if (!Array.isArray(data) || data.length === 0) {
-			debugWarn(`No geocoding results for "${placeName}"`);
-			geocodeCache.set(cacheKey, null);
-			return null;
+		const result = await provider.geocode(placeName);
+		if (!result) {
+			debugWarn(`No geocoding results for "${placeName}" (${provider.name})`);
 		}
-
-		const result = {
-			latitude: parseFloat(data[0].lat),
-			longitude: parseFloat(data[0].lon),
-		};
-
 		geocodeCache.set(cacheKey, result);
 		return result;
 	} catch (error) {
@@ -94,49 +80,71 @@ export async function geocodeLocation(
 	}
 }
 
+/**
+ * Geocode a place name to coordinates using Nominatim.
+ * Throws if the network can't be reached.
+ */
+async function geocodeWithNominatim(
+	placeName: string,
+): Promise<{ latitude: number; longitude: number } | null> {
+	const params = new URLSearchParams({
+		q: placeName,
+		format: 'json',
+		limit: '1',
+	});
+
+	const response = await fetch(`${NOMINATIM_URL}?${params}`, {
+		headers: {
+			'User-Agent': USER_AGENT,
+		},
+	});
+
+	if (!response.ok) {
+		debugWarn(`Geocoding failed for "${placeName}": ${response.status}`);
+		return null;
+	}
+
+	const data = await response.json();
+
+	if (!Array.isArray(data) || data.length === 0) {
+		return null;
+	}
+
+	return {
+		latitude: parseFloat(data[0].lat),
+		longitude: parseFloat(data[0].lon),
+	};
+}
+
 // ============================================
 // Climate Data Fetching
 // ============================================
 
 /**
- * Fetch historical climate data from Open-Meteo
- * Returns averages for the specified month based on historical data
+ * Fetch climate normals for a month with the configured climate provider.
+ * Falls back to a base climate profile when the provider has no data.
  */
 export async function fetchClimateNormals(
 	latitude: number,
 	longitude: number,
 	month: number,
 	fallbackClimateType?: string,
+	provider: ClimateProvider = getClimateProvider(),
 ): Promise<ClimateNormals> {
-	const cacheKey = `${latitude.toFixed(2)},${longitude.toFixed(2)},${month}`;
+	const cacheKey = `${provider.name}:${latitude.toFixed(2)},${longitude.toFixed(2)},${month}`;
 
 	if (climateCache.has(cacheKey)) {
 		return climateCache.get(cacheKey)!;
 	}
 
 	try {
-		// Query last 10 years of data for this month
-		const currentYear = new Date().getFullYear();
-		const years: number[] = [];
-		for (let y = currentYear - 10; y < currentYear; y++) {
-			years.push(y);
-		}
-
-		// Build date ranges for the target month across all years
-		const allData = await Promise.all(
-			years.map(year => fetchMonthData(latitude, longitude, year, month)),
-		);
+		const normals = await provider.fetchNormals(latitude, longitude, month);
 
-		// Filter out failed fetches
-		const validData = allData.filter(d => d !== null) as MonthData[];
-
-		if (validData.length === 0) {
-			debugWarn(`No climate data available, using fallback`);
+		if (!normals) {
+			debugWarn(`No climate data available (${provider.name}), using fallback`);
 			return getFallbackNormals(latitude, longitude, month, fallbackClimateType);
 		}
 
-		// Calculate averages
-		const normals = calculateNormals(validData, latitude, longitude, month);
 		climateCache.set(cacheKey, normals);
 		return normals;
 	} catch (error) {
@@ -145,6 +153,39 @@ export async function fetchClimateNormals(
 	}
 }
 
+/**
+ * Fetch historical climate data from Open-Meteo
+ * Returns averages for the specified month based on historical data.
+ * Throws if the network can't be reached.
+ */
+async function fetchOpenMeteoNormals(
+	latitude: number,
+	longitude: number,
+	month: number,
+): Promise<ClimateNormals | null> {
+	// Query last 10 years of data for this month
+	const currentYear = new Date().getFullYear();
+	const years: number[] = [];
+	for (let y = currentYear - 10; y < currentYear; y++) {
+		years.push(y);
+	}
+
+	// Build date ranges for the target month across all years
+	const allData = await Promise.all(
+		years.map(year => fetchMonthData(latitude, longitude, year, month)),
+	);
+
+	// Filter out failed fetches
+	const validData = allData.filter(d => d !== null) as MonthData[];
+
+	if (validData.length === 0) {
+		return null;
+	}
+
+	// Calculate averages
+	return calculateNormals(validData, latitude, longitude, month);
+}
+
 interface MonthData {
 	highs: number[];
 	lows: number[];
@@ -155,7 +196,9 @@ interface MonthData {
 }
 
 /**
- * Fetch data for a single month in a single year
+ * Fetch data for a single month in a single year.
+ * Network errors are thrown so an unreachable network can be told apart
+ * from missing data.
  */
 async function fetchMonthData(
 	latitude: number,
@@ -163,34 +206,34 @@ async function fetchMonthData(
 	year: number,
 	month: number,
 ): Promise<MonthData | null> {
-	try {
-		// Calculate date range for the month
-		const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
-		const lastDay = new Date(year, month, 0).getDate();
-		const endDate = `${year}-${String(month).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
-
-		const params = new URLSearchParams({
-			latitude: latitude.toString(),
-			longitude: longitude.toString(),
-			start_date: startDate,
-			end_date: endDate,
-			daily: [
-				'temperature_2m_max',
-				'temperature_2m_min',
-				'precipitation_sum',
-				'relative_humidity_2m_mean',
-				'windspeed_10m_max',
-				'cloudcover_mean',
-			].join(','),
-			timezone: 'auto',
-		});
-
-		const response = await fetch(`${OPEN_METEO_ARCHIVE_URL}?${params}`);
-
-		if (!response.ok) {
-			return null;
-		}
+	// Calculate date range for the month
+	const startDate = `${year}-${String(month).padStart(2, '0')}-01`;
+	const lastDay = new Date(year, month, 0).getDate();
+	const endDate = `${year}-${String(month).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
+
+	const params = new URLSearchParams({
+		latitude: latitude.toString(),
+		longitude: longitude.toString(),
+		start_date: startDate,
+		end_date: endDate,
+		daily: [
+			'temperature_2m_max',
+			'temperature_2m_min',
+			'precipitation_sum',
+			'relative_humidity_2m_mean',
+			'windspeed_10m_max',
+			'cloudcover_mean',
+		].join(','),
+		timezone: 'auto',
+	});
+
+	const response = await fetch(`${OPEN_METEO_ARCHIVE_URL}?${params}`);
+
+	if (!response.ok) {
+		return null;
+	}
 
+	try {
 		const data = await response.json();
 
 		if (!data.daily) {
@@ -241,34 +284,16 @@ function calculateNormals(
 	const precipDays = allPrecip.filter(p => p > 1).length / data.length;
 
 	// Calculate sun times based on latitude and month
-	const sunTimes = calculateSunTimes(latitude, month);
+	const sunTimes = getMidMonthSunTimes(latitude, month);
 
-	// Estimate condition probabilities from cloud cover and precip
-	const avgCloudCover = avg(allClouds);
-	const precipProb = precipDays / 30;
-
-	const conditionProbabilities = {
-		clear: Math.max(0, (100 - avgCloudCover) / 100 - precipProb) * 0.5,
-		partlyCloudy: Math.min(0.3, avgCloudCover / 200),
-		overcast: Math.min(0.3, avgCloudCover / 150),
-		rain: precipProb * (avg(allLows) > 32 ? 1 : 0.3),
-		snow: precipProb * (avg(allLows) <= 32 ? 1 : 0),
-	};
-
-	// Normalize probabilities
-	const total = Object.values(conditionProbabilities).reduce((a, b) => a + b, 0);
-	if (total > 0) {
-		Object.keys(conditionProbabilities).forEach(k => {
-			conditionProbabilities[k as keyof typeof conditionProbabilities] /= total;
-		});
-	}
+	const avgLow = celsiusToFahrenheit(avg(allLows));
 
 	return {
 		latitude,
 		longitude,
 		month,
 		avgHigh: celsiusToFahrenheit(avg(allHighs)),
-		avgLow: celsiusToFahrenheit(avg(allLows)),
+		avgLow,
 		avgPrecipitation: mmToInches(avg(allPrecip)),
 		avgPrecipDays: Math.round(precipDays),
 		avgHumidity: avg(allHumidity),
@@ -277,42 +302,75 @@ function calculateNormals(
 		avgSunriseHour: sunTimes.sunrise,
 		avgSunsetHour: sunTimes.sunset,
 		tempStdDev: celsiusToFahrenheit(stdDev(allHighs)) - 32, // Convert std dev
-		conditionProbabilities,
+		conditionProbabilities: estimateConditionProbabilities(
+			avg(allClouds),
+			precipDays,
+			avgLow,
+		),
 	};
 }
 
 /**
- * Calculate approximate sunrise/sunset times based on latitude and month
+ * Estimate condition probabilities from cloud cover and precip
  */
-function calculateSunTimes(latitude: number, month: number): { sunrise: number; sunset: number } {
-	// Simplified calculation based on latitude and time of year
-	// June 21 = summer solstice (longest day in northern hemisphere)
-	// December 21 = winter solstice (shortest day)
+function estimateConditionProbabilities(
+	avgCloudCover: number,
+	precipDays: number,
+	avgLowF: number,
+): ClimateNormals['conditionProbabilities'] {
+	const precipProb = precipDays / 30;
 
-	const dayOfYear = (month - 1) * 30 + 15; // Approximate mid-month
-	const summerSolstice = 172; // ~June 21
+	const conditionProbabilities = {
+		clear: Math.max(0, (100 - avgCloudCover) / 100 - precipProb) * 0.5,
+		partlyCloudy: Math.min(0.3, avgCloudCover / 200),
+		overcast: Math.min(0.3, avgCloudCover / 150),
+		rain: precipProb * (avgLowF > 32 ? 1 : 0.3),
+		snow: precipProb * (avgLowF <= 32 ? 1 : 0),
+	};
 
-	// Calculate day length variation based on latitude
-	// At equator, day length is ~12 hours year-round
-	// At 60° latitude, variation is ~6 hours
-	const latitudeRadians = (Math.abs(latitude) * Math.PI) / 180;
-	const maxVariation = Math.min(6, Math.tan(latitudeRadians) * 3);
+	// Normalize probabilities
+	const total = Object.values(conditionProbabilities).reduce((a, b) => a + b, 0);
+	if (total > 0) {
+		Object.keys(conditionProbabilities).forEach(k => {
+			conditionProbabilities[k as keyof typeof conditionProbabilities] /= total;
+		});
+	}
 
-	// Sinusoidal variation through the year
-	const variation =
-		Math.cos(((dayOfYear - summerSolstice) * 2 * Math.PI) / 365) * maxVariation;
+	return conditionProbabilities;
+}
 
-	// Apply hemisphere correction
-	const hemisphereCorrection = latitude >= 0 ? 1 : -1;
-	const dayLengthHours = 12 + variation * hemisphereCorrection;
+/**
+ * Convert a city's monthly normals to ClimateNormals for a given month
+ */
+export function getClimateNormalsFromCity(city: CityClimate, month: number): ClimateNormals {
+	const i = month - 1;
+	const avgHigh = celsiusToFahrenheit(city.highs[i]);
+	const avgLow = celsiusToFahrenheit(city.lows[i]);
+	const sunTimes = getMidMonthSunTimes(city.latitude, month);
 
-	// Calculate sunrise/sunset from day length
-	const sunrise = 12 - dayLengthHours / 2;
-	const sunset = 12 + dayLengthHours / 2;
+	// The dataset has no cloud cover; more wet days means more cloud
+	const avgCloudCover = Math.min(90, 20 + city.precipDays[i] * 3);
 
 	return {
-		sunrise: Math.max(4, Math.min(9, sunrise)),
-		sunset: Math.max(17, Math.min(21, sunset)),
+		latitude: city.latitude,
+		longitude: city.longitude,
+		month,
+		avgHigh,
+		avgLow,
+		avgPrecipitation: mmToInches(city.precip[i] / 30),
+		avgPrecipDays: city.precipDays[i],
+		avgHumidity: city.humidity[i],
+		avgWindSpeed: 8, // Default moderate wind
+		avgCloudCover,
+		avgSunriseHour: sunTimes.sunrise,
+		avgSunsetHour: sunTimes.sunset,
+		// Day-to-day variation roughly follows the daily range
+		tempStdDev: Math.min(10, Math.max(3, (avgHigh - avgLow) * 0.35)),
+		conditionProbabilities: estimateConditionProbabilities(
+			avgCloudCover,
+			city.precipDays[i],
+			avgLow,
+		),
 	};
 }
 
@@ -349,10 +407,115 @@ function getFallbackNormals(
 	};
 }
 
+// ============================================
+// Climate Providers
+// ============================================
+
+/**
+ * Geocoding with Nominatim and historical weather from Open-Meteo
+ */
+export const networkClimateProvider: ClimateProvider = {
+	name: 'network',
+	geocode: geocodeWithNominatim,
+	fetchNormals: fetchOpenMeteoNormals,
+};
+
+/**
+ * Create a provider that looks places up in a list of cities.
+ * Geocoding matches city names and aliases; climate normals come from the
+ * nearest city.
+ */
+export function createDatasetClimateProvider(name: string, cities: CityClimate[]): ClimateProvider {
+	return {
+		name,
+		geocode: async placeName => {
+			const city = findCityByName(placeName, cities);
+			return city ? { latitude: city.latitude, longitude: city.longitude } : null;
+		},
+		fetchNormals: async (latitude, longitude, month) => {
+			const city = findNearestCity(latitude, longitude, cities);
+			return city ? getClimateNormalsFromCity(city, month) : null;
+		},
+	};
+}
+
+/**
+ * The bundled dataset of major cities
+ */
+export const offlineClimateProvider = createDatasetClimateProvider('offline', CITY_CLIMATES);
+
+function isNetworkReachable(): boolean {
+	if (typeof navigator !== 'undefined' && navigator.onLine === false) return false;
+	return Date.now() >= networkUnreachableUntil;
+}
+
+/**
+ * Create a provider that asks the network provider first, and the offline
+ * provider when it has no data or the network is unreachable. After a
+ * network failure the network is skipped for a few minutes.
+ */
+export function createAutoClimateProvider(
+	network: ClimateProvider,
+	offline: ClimateProvider,
+): ClimateProvider {
+	const withFallback =
+		<A extends unknown[], R>(
+			networkCall: (...args: A) => Promise<R | null>,
+			offlineCall: (...args: A) => Promise<R | null>,
+		) =>
+		async (...args: A): Promise<R | null> => {
+			if (isNetworkReachable()) {
+				try {
+					const result = await networkCall(...args);
+					if (result) return result;
+				} catch (error) {
+					debugLog(
+						'Network unreachable, using offline climate data:',
+						error,
+					);
+					networkUnreachableUntil = Date.now() + NETWORK_RETRY_MS;
+				}
+			}
+			return offlineCall(...args);
+		};
+
+	return {
+		name: 'auto',
+		geocode: withFallback(network.geocode, offline.geocode),
+		fetchNormals: withFallback(network.fetchNormals, offline.fetchNormals),
+	};
+}
+
+/**
+ * Get the climate provider for the current settings
+ */
+export function getClimateProvider(
+	climateData: V2ClimateDataSettings = getV2Settings().v2ClimateData,
+): ClimateProvider {
+	switch (climateData.source) {
+		case 'network':
+			return networkClimateProvider;
+		case 'offline':
+			return offlineClimateProvider;
+		case 'file':
+			// Cities in the file come first, then the bundled ones
+			return createDatasetClimateProvider(`file:${climateData.fileName}`, [
+				...climateData.fileCities.filter(isValidCityClimate),
+				...CITY_CLIMATES,
+			]);
+		default:
+			return createAutoClimateProvider(
+				networkClimateProvider,
+				offlineClimateProvider,
+			);
+	}
+}
+
 /**
  * Clear all caches (for testing)
  */
 export function clearCaches(): void {
 	climateCache.clear();
 	geocodeCache.clear();
+	networkUnreachableUntil = 0;
 }
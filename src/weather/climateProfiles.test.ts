@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+	createClimateProfile,
+	findClimateProfile,
+	formatConditionWeights,
+	formatMonthlyValues,
+	getClimateNormalsFromCustomProfile,
+	isValidCustomClimateProfile,
+	matchesAreaPattern,
+	parseConditionWeights,
+	parseMonthlyValues,
+} from './climateProfiles';
+import type { CustomClimateProfile } from './types';
+
+function createProfile(overrides: Partial<CustomClimateProfile> = {}): CustomClimateProfile {
+	return { ...createClimateProfile('Ashlands', 'desert'), ...overrides };
+}
+
+// ============================================
+// Area matching
+// ============================================
+
+describe('matchesAreaPattern', () => {
+	it('matches names case-insensitively', () => {
+		expect(matchesAreaPattern('The Ashlands', 'the ashlands')).toBe(true);
+		expect(matchesAreaPattern('The Ashlands', 'Ashlands')).toBe(false);
+	});
+
+	it('matches any comma-separated part of the area', () => {
+		expect(matchesAreaPattern('Whiterun, Skyrim', 'Skyrim')).toBe(true);
+		expect(matchesAreaPattern('Whiterun, Skyrim', 'Whiterun')).toBe(true);
+	});
+
+	it('supports * wildcards', () => {
+		expect(matchesAreaPattern('Northern Wastes', '*wastes')).toBe(true);
+		expect(matchesAreaPattern('Ash Wastes of Dunmar', 'ash*')).toBe(true);
+		expect(matchesAreaPattern('Dunmar', 'ash*')).toBe(false);
+	});
+
+	it('treats other characters literally', () => {
+		expect(matchesAreaPattern('Port (Old Town)', 'Port (Old Town)')).toBe(true);
+		expect(matchesAreaPattern('Portx', 'Port.')).toBe(false);
+	});
+
+	it('never matches an empty pattern', () => {
+		expect(matchesAreaPattern('Anywhere', '  ')).toBe(false);
+	});
+});
+
+describe('findClimateProfile', () => {
+	it('returns the first profile with a matching area', () => {
+		const ash = createProfile({ areas: ['Ash*'] });
+		const frost = createProfile({ name: 'Frost', areas: ['*'] });
+
+		expect(findClimateProfile('Ashfall', [ash, frost])).toBe(ash);
+		expect(findClimateProfile('Winterhold', [ash, frost])).toBe(frost);
+	});
+
+	it('returns null without a match', () => {
+		expect(
+			findClimateProfile('Winterhold', [createProfile({ areas: ['Ash*'] })]),
+		).toBeNull();
+	});
+});
+
+// ============================================
+// Climate normals
+// ============================================
+
+describe('getClimateNormalsFromCustomProfile', () => {
+	it('uses the values of the given month', () => {
+		const profile = createProfile();
+		profile.monthlyHighs[6] = 120;
+		profile.monthlyLows[6] = 95;
+
+		const normals = getClimateNormalsFromCustomProfile(profile, 7);
+
+		expect(normals.avgHigh).toBe(120);
+		expect(normals.avgLow).toBe(95);
+		expect(normals.month).toBe(7);
+	});
+
+	it('turns seasonal condition weights into probabilities', () => {
+		const profile = createProfile({
+			conditionWeights: {
+				winter: { snow: 3, overcast: 1 },
+				spring: { rain: 1 },
+				summer: { sunny: 1 },
+				fall: { rain: 1 },
+			},
+		});
+
+		const normals = getClimateNormalsFromCustomProfile(profile, 1);
+
+		expect(normals.conditionProbabilities.snow).toBeCloseTo(0.75);
+		expect(normals.conditionProbabilities.overcast).toBeCloseTo(0.25);
+	});
+});
+
+// ============================================
+// Validation and editing
+// ============================================
+
+describe('isValidCustomClimateProfile', () => {
+	it('accepts a profile created from a fallback profile', () => {
+		expect(isValidCustomClimateProfile(createProfile())).toBe(true);
+	});
+
+	it('rejects missing names and incomplete months', () => {
+		expect(isValidCustomClimateProfile(createProfile({ name: ' ' }))).toBe(false);
+		expect(isValidCustomClimateProfile(createProfile({ monthlyHighs: [80, 85] }))).toBe(
+			false,
+		);
+	});
+
+	it('rejects negative condition weights', () => {
+		const profile = createProfile();
+		profile.conditionWeights.summer = { sunny: -1 };
+
+		expect(isValidCustomClimateProfile(profile)).toBe(false);
+	});
+});
+
+describe('parseMonthlyValues / formatMonthlyValues', () => {
+	it('needs exactly 12 numbers', () => {
+		expect(parseMonthlyValues('1, 2, 3')).toBeNull();
+		expect(parseMonthlyValues('1,2,3,4,5,6,7,8,9,10,11,x')).toBeNull();
+		expect(parseMonthlyValues('1,2,3,4,5,6,7,8,9,10,11,-12')).toHaveLength(12);
+	});
+
+	it('round-trips values', () => {
+		const values = [40, 43, 52, 62, 72, 80, 85, 83, 76, 64, 52, 43];
+
+		expect(parseMonthlyValues(formatMonthlyValues(values))).toEqual(values);
+	});
+});
+
+describe('parseConditionWeights / formatConditionWeights', () => {
+	it('skips unknown conditions and bad weights', () => {
+		expect(parseConditionWeights('sunny: 0.5, lava: 1, rain: x, snow: 0.2')).toEqual({
+			sunny: 0.5,
+			snow: 0.2,
+		});
+	});
+
+	it('formats weights back to text', () => {
+		const text = 'overcast: 0.4, rain: 0.6';
+
+		expect(formatConditionWeights(parseConditionWeights(text))).toBe(text);
+	});
+});
@@ -0,0 +1,210 @@
+/**
+ * Custom Climate Profiles
+ *
+ * User-authored climate profiles for fictional regions, assigned to areas
+ * by name or pattern. A matching profile is used instead of geocoding or
+ * the fallback profiles when generating a forecast.
+ */
+
+import type { BaseClimateType, ClimateNormals, ClimateSeason, CustomClimateProfile } from './types';
+import { FALLBACK_PROFILES, getClimateNormalsFromProfile } from './fallbackProfiles';
+
+// ============================================
+// Constants
+// ============================================
+
+export const CLIMATE_SEASONS: ClimateSeason[] = ['winter', 'spring', 'summer', 'fall'];
+
+/**
+ * Conditions a profile's condition weights can use.
+ */
+export const WEIGHTED_CONDITIONS = [
+	'clear',
+	'sunny',
+	'partly_cloudy',
+	'overcast',
+	'drizzle',
+	'rain',
+	'thunderstorm',
+	'snow',
+] as const;
+
+// ============================================
+// Area Matching
+// ============================================
+
+function patternToRegex(pattern: string): RegExp {
+	const escaped = pattern
+		.trim()
+		.split('*')
+		.map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+	return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Check if an area matches a profile's area name or pattern.
+ * Matches the whole area or any comma-separated part of it, so "Skyrim"
+ * matches "Whiterun, Skyrim". "*" matches any text.
+ */
+export function matchesAreaPattern(area: string, pattern: string): boolean {
+	if (!pattern.trim()) return false;
+	const regex = patternToRegex(pattern);
+	const candidates = [area, ...area.split(',')].map(part => part.trim());
+	return candidates.some(candidate => regex.test(candidate));
+}
+
+/**
+ * Find the first profile assigned to an area.
+ */
+export function findClimateProfile(
+	area: string,
+	profiles: CustomClimateProfile[],
+): CustomClimateProfile | null {
+	return (
+		profiles.find(profile =>
+			profile.areas.some(pattern => matchesAreaPattern(area, pattern)),
+		) ?? null
+	);
+}
+
+/**
+ * Convert a custom profile to ClimateNormals for a given month
+ */
+export function getClimateNormalsFromCustomProfile(
+	profile: CustomClimateProfile,
+	month: number,
+): ClimateNormals {
+	return getClimateNormalsFromProfile(profile, month, profile.latitude);
+}
+
+// ============================================
+// Validation
+// ============================================
+
+function isMonthlyValues(value: unknown): value is number[] {
+	return (
+		Array.isArray(value) &&
+		value.length === 12 &&
+		value.every(v => typeof v === 'number' && Number.isFinite(v))
+	);
+}
+
+function isConditionWeights(value: unknown): boolean {
+	if (typeof value !== 'object' || value === null) return false;
+	const weights = value as Record<string, unknown>;
+	return CLIMATE_SEASONS.every(season => {
+		const seasonWeights = weights[season];
+		return (
+			typeof seasonWeights === 'object' &&
+			seasonWeights !== null &&
+			Object.values(seasonWeights).every(
+				w => typeof w === 'number' && Number.isFinite(w) && w >= 0,
+			)
+		);
+	});
+}
+
+/**
+ * Type guard for CustomClimateProfile.
+ */
+export function isValidCustomClimateProfile(value: unknown): value is CustomClimateProfile {
+	if (typeof value !== 'object' || value === null) return false;
+	const p = value as Record<string, unknown>;
+	return (
+		typeof p.name === 'string' &&
+		p.name.trim().length > 0 &&
+		Array.isArray(p.areas) &&
+		p.areas.every(a => typeof a === 'string') &&
+		isMonthlyValues(p.monthlyHighs) &&
+		isMonthlyValues(p.monthlyLows) &&
+		isMonthlyValues(p.monthlyPrecipDays) &&
+		isMonthlyValues(p.monthlyHumidity) &&
+		typeof p.tempStdDev === 'number' &&
+		p.tempStdDev >= 0 &&
+		(p.latitude === undefined ||
+			(typeof p.latitude === 'number' &&
+				p.latitude >= -90 &&
+				p.latitude <= 90)) &&
+		isConditionWeights(p.conditionWeights)
+	);
+}
+
+// ============================================
+// Editing Helpers
+// ============================================
+
+/**
+ * Create a profile starting from one of the fallback profiles.
+ */
+export function createClimateProfile(
+	name: string,
+	base: BaseClimateType = 'temperate',
+): CustomClimateProfile {
+	const fallback = FALLBACK_PROFILES[base];
+	return {
+		name,
+		areas: [],
+		monthlyHighs: [...fallback.monthlyHighs],
+		monthlyLows: [...fallback.monthlyLows],
+		monthlyPrecipDays: [...fallback.monthlyPrecipDays],
+		monthlyHumidity: [...fallback.monthlyHumidity],
+		tempStdDev: fallback.tempStdDev,
+		conditionWeights: {
+			winter: { ...fallback.conditionWeights.winter },
+			spring: { ...fallback.conditionWeights.spring },
+			summer: { ...fallback.conditionWeights.summer },
+			fall: { ...fallback.conditionWeights.fall },
+		},
+	};
+}
+
+/**
+ * Parse 12 comma-separated monthly values (January first).
+ * @returns The values, or null unless there are exactly 12 numbers
+ */
+export function parseMonthlyValues(text: string): number[] | null {
+	const values = text
+		.split(',')
+		.map(part => part.trim())
+		.filter(part => part.length > 0)
+		.map(Number);
+	return values.length === 12 && values.every(Number.isFinite) ? values : null;
+}
+
+/**
+ * Format monthly values for editing (inverse of parseMonthlyValues).
+ */
+export function formatMonthlyValues(values: number[]): string {
+	return values.join(', ');
+}
+
+/**
+ * Parse condition weights such as "sunny: 0.5, rain: 0.2".
+ * Unknown conditions and bad weights are skipped.
+ */
+export function parseConditionWeights(text: string): Record<string, number> {
+	const weights: Record<string, number> = {};
+	for (const part of text.split(',')) {
+		const [condition, weight] = part.split(':').map(p => p.trim());
+		const value = Number(weight);
+		if (
+			(WEIGHTED_CONDITIONS as readonly string[]).includes(condition) &&
+			weight &&
+			Number.isFinite(value) &&
+			value >= 0
+		) {
+			weights[condition] = value;
+		}
+	}
+	return weights;
+}
+
+/**
+ * Format condition weights for editing (inverse of parseConditionWeights).
+ */
+export function formatConditionWeights(weights: Record<string, number>): string {
+	return Object.entries(weights)
+		.map(([condition, weight]) => `${condition}: ${weight}`)
+		.join(', ');
+}
@@ -5,7 +5,14 @@
  * All temperatures in Fahrenheit.
  */
 
-import type { BaseClimateType, FallbackClimateProfile, ClimateNormals } from './types';
+import type {
+	BaseClimateType,
+	ClimateProfileData,
+	ClimateSeason,
+	FallbackClimateProfile,
+	ClimateNormals,
+} from './types';
+import { BASE_CLIMATE_LATITUDES, DEFAULT_LATITUDE, getMidMonthSunTimes } from './astronomy';
 
 // ============================================
 // Profiles
@@ -126,7 +133,7 @@ export const FALLBACK_PROFILES: Record<BaseClimateType, FallbackClimateProfile>
 /**
  * Get season from month (Northern Hemisphere)
  */
-function getSeason(month: number): 'winter' | 'spring' | 'summer' | 'fall' {
+function getSeason(month: number): ClimateSeason {
 	if (month >= 3 && month <= 5) return 'spring';
 	if (month >= 6 && month <= 8) return 'summer';
 	if (month >= 9 && month <= 11) return 'fall';
@@ -134,50 +141,31 @@ function getSeason(month: number): 'winter' | 'spring' | 'summer' | 'fall' {
 }
 
 /**
- * Get approximate sunrise/sunset for a month
- * Returns hours (e.g., 6.5 = 6:30 AM)
+ * Convert a fallback profile to ClimateNormals for a given month
  */
-function getApproxSunTimes(
-	month: number,
+export function getClimateNormalsFromFallback(
 	baseClimate: BaseClimateType,
-): { sunrise: number; sunset: number } {
-	// Base times vary by latitude approximation
-	const latitudeEffect: Record<BaseClimateType, number> = {
-		arctic: 3, // Extreme variation
-		continental: 1.5,
-		temperate: 1,
-		oceanic: 0.8,
-		mediterranean: 0.7,
-		desert: 0.5,
-		tropical: 0.3, // Minimal variation
-	};
-
-	const effect = latitudeEffect[baseClimate];
-
-	// June = longest day (month 6), December = shortest (month 12)
-	// Sinusoidal variation
-	const dayOfYear = (month - 1) * 30 + 15; // Approximate
-	const summerSolstice = 172; // ~June 21
-	const variation = Math.cos(((dayOfYear - summerSolstice) * 2 * Math.PI) / 365);
-
-	// Base: 6 AM sunrise, 6 PM sunset (equinox)
-	const sunrise = 6 - variation * effect;
-	const sunset = 18 + variation * effect;
-
-	return { sunrise, sunset };
+	month: number,
+): ClimateNormals {
+	return getClimateNormalsFromProfile(
+		FALLBACK_PROFILES[baseClimate],
+		month,
+		BASE_CLIMATE_LATITUDES[baseClimate],
+	);
 }
 
 /**
- * Convert a fallback profile to ClimateNormals for a given month
+ * Convert any climate profile to ClimateNormals for a given month
+ * @param latitude - Latitude for sunrise and sunset
  */
-export function getClimateNormalsFromFallback(
-	baseClimate: BaseClimateType,
+export function getClimateNormalsFromProfile(
+	profile: ClimateProfileData,
 	month: number,
+	latitude: number = DEFAULT_LATITUDE,
 ): ClimateNormals {
-	const profile = FALLBACK_PROFILES[baseClimate];
 	const monthIndex = month - 1;
 	const season = getSeason(month);
-	const { sunrise, sunset } = getApproxSunTimes(month, baseClimate);
+	const { sunrise, sunset } = getMidMonthSunTimes(latitude, month);
 
 	// Calculate condition probabilities from weights
 	const weights = profile.conditionWeights[season];
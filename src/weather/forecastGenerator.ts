@@ -7,6 +7,7 @@
 
 import seedrandom from 'seedrandom';
 import type {
+	AstronomySettings,
 	ClimateNormals,
 	DailyForecast,
 	HourlyWeather,
@@ -15,6 +16,7 @@ import type {
 } from './types';
 import type { NarrativeDateTime } from '../types/state';
 import { deriveCondition, calculateFeelsLike, getDominantCondition } from './weatherDeriver';
+import { getSunTimes } from './astronomy';
 
 // ============================================
 // Types
@@ -29,6 +31,15 @@ export interface ForecastGeneratorParams {
 	} | null;
 	seed: string;
 	days?: number; // Default 28
+	// Sunrise and sunset are worked out per day when set, otherwise the
+	// month's averages from the climate normals are used
+	latitude?: number;
+	astronomy?: AstronomySettings;
+}
+
+interface SunTimes {
+	sunrise: number;
+	sunset: number;
 }
 
 interface DayGeneratorState {
@@ -409,12 +420,26 @@ function generateHourlyUV(
 // Main Generator
 // ============================================
 
+/**
+ * Sun times for the temperature, UV and condition curves. Polar days and
+ * nights are given at least 6 hours of day and night so the curves keep a
+ * warm and a cold part.
+ */
+function getCurveSunTimes({ sunrise, sunset }: SunTimes): SunTimes {
+	const noon = (sunrise + sunset) / 2;
+	return {
+		sunrise: clamp(sunrise, 3, noon - 3),
+		sunset: clamp(sunset, noon + 3, 21),
+	};
+}
+
 /**
  * Generate a complete day forecast
  */
 function generateDay(
 	dateStr: string,
 	normals: ClimateNormals,
+	sunTimes: SunTimes,
 	state: DayGeneratorState,
 	dayIndex: number,
 	initialConditions?: { temperature: number; condition: string } | null,
@@ -439,15 +464,10 @@ function generateDay(
 
 	const hourly: HourlyWeather[] = [];
 	const conditions: WeatherCondition[] = [];
+	const curve = getCurveSunTimes(sunTimes);
 
 	for (let h = 0; h < 24; h++) {
-		const temp = generateHourlyTemp(
-			h,
-			high,
-			low,
-			normals.avgSunriseHour,
-			normals.avgSunsetHour,
-		);
+		const temp = generateHourlyTemp(h, high, low, curve.sunrise, curve.sunset);
 
 		const humidity = generateHourlyHumidity(
 			[temp],
@@ -485,8 +505,8 @@ function generateDay(
 	const uvIndex = generateHourlyUV(
 		hourly.map(h => h.temperature),
 		hourly.map(h => h.cloudCover),
-		normals.avgSunriseHour,
-		normals.avgSunsetHour,
+		curve.sunrise,
+		curve.sunset,
 		normals,
 	);
 
@@ -496,18 +516,14 @@ function generateDay(
 	});
 
 	// Determine dominant condition for the day
-	const dominantCondition = getDominantCondition(
-		conditions,
-		normals.avgSunriseHour,
-		normals.avgSunsetHour,
-	);
+	const dominantCondition = getDominantCondition(conditions, curve.sunrise, curve.sunset);
 
 	return {
 		date: dateStr,
 		high,
 		low,
-		sunrise: Math.round(normals.avgSunriseHour * 10) / 10,
-		sunset: Math.round(normals.avgSunsetHour * 10) / 10,
+		sunrise: Math.round(sunTimes.sunrise * 10) / 10,
+		sunset: Math.round(sunTimes.sunset * 10) / 10,
 		hourly,
 		dominantCondition,
 	};
@@ -517,7 +533,15 @@ function generateDay(
  * Generate a complete forecast
  */
 export function generateForecast(params: ForecastGeneratorParams): LocationForecast {
-	const { climateNormals, startDate, initialConditions, seed, days = 28 } = params;
+	const {
+		climateNormals,
+		startDate,
+		initialConditions,
+		seed,
+		days = 28,
+		latitude,
+		astronomy,
+	} = params;
 
 	// Create seeded RNG
 	const rng = seedrandom(seed);
@@ -545,14 +569,24 @@ export function generateForecast(params: ForecastGeneratorParams): LocationForec
 		);
 		const dateStr = formatDate(year, month, day);
 
+		const sunTimes =
+			latitude !== undefined
+				? getSunTimes({ year, month, day }, latitude, astronomy)
+				: {
+						sunrise: climateNormals.avgSunriseHour,
+						sunset: climateNormals.avgSunsetHour,
+					};
+
 		// Only use initial conditions for first 3 days (anchor period)
 		const anchor = i < 3 ? initialConditions : null;
 
-		forecastDays.push(generateDay(dateStr, climateNormals, state, i, anchor));
+		forecastDays.push(generateDay(dateStr, climateNormals, sunTimes, state, i, anchor));
 	}
 
 	return {
 		locationId: seed.split('-')[0] || 'unknown',
+		latitude,
+		astronomy,
 		startDate: formatDate(startDate.year, startDate.month, startDate.day),
 		generatedFrom: initialConditions || undefined,
 		days: forecastDays,
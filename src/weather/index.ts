@@ -23,12 +23,12 @@ import {
 	deriveCondition,
 	describeCondition,
 	getWindDirection,
-	getDaylightPhase,
 	calculateFeelsLike,
 	mapLegacyWeather,
 	toLegacyWeather,
 } from './weatherDeriver';
 import { calculateEffectiveTemperature } from './indoorTemperature';
+import { getDaylightPhase, getForecastLatitude, getSkyState } from './astronomy';
 import { shouldMentionTransition, generateTransitionInjection } from './weatherTransitions';
 
 // Re-export types
@@ -223,11 +223,8 @@ export async function extractProceduralClimate(
 
 	// Derive condition
 	const conditionType = deriveCondition(hourlyWeather);
-	const daylight = getDaylightPhase(
-		currentTime.hour,
-		dayForecast.sunrise,
-		dayForecast.sunset,
-	);
+	const sky = getSkyState(currentTime, getForecastLatitude(forecast), forecast.astronomy);
+	const daylight = getDaylightPhase(sky.sunElevation, sky.sunRising);
 	const isNight = daylight === 'night' || daylight === 'dusk';
 	const conditions = describeCondition(conditionType, undefined, isNight);
 
@@ -250,6 +247,7 @@ export async function extractProceduralClimate(
 		conditionType,
 		uvIndex: hourlyWeather.uvIndex,
 		daylight,
+		sky,
 		isIndoors: tempResult.isIndoors,
 		buildingType: tempResult.buildingType,
 	};
@@ -8,7 +8,7 @@
 import type { LocationMapping, BaseClimateType } from './types';
 import { geocodeLocation } from './climateApi';
 import { getV2Settings } from '../v2/settings';
-import { makeGeneratorRequest, buildExtractionMessages } from '../utils/generator';
+import { createGeneratorFromSettings, buildPrompt } from '../v2/generator';
 import { parseJsonResponse } from '../utils/json';
 import { debugWarn, errorLog } from '../utils/debug';
 
@@ -257,15 +257,17 @@ async function analyzeLocation(
 		context || 'No additional context',
 	);
 
-	const messages = buildExtractionMessages(SYSTEM_PROMPT, prompt);
+	const generator = createGeneratorFromSettings(settings);
+	const generatorPrompt = buildPrompt(SYSTEM_PROMPT, prompt);
+	const generatorSettings = {
+		maxTokens: 500,
+		temperature: settings.v2Temperatures.climate,
+		abortSignal,
+	};
+	let response: string | null = null;
 
 	try {
-		const response = await makeGeneratorRequest(messages, {
-			profileId: settings.v2ProfileId,
-			maxTokens: 500,
-			temperature: settings.v2Temperatures.climate,
-			abortSignal,
-		});
+		response = await generator.generate(generatorPrompt, generatorSettings);
 
 		const parsed = parseJsonResponse(response, {
 			shape: 'object',
@@ -274,6 +276,10 @@ async function analyzeLocation(
 
 		return validateAnalysisResult(parsed);
 	} catch (error) {
+		// Don't get the unusable response from the cache next time
+		if (response !== null) {
+			await generator.discardResponse?.(generatorPrompt, generatorSettings);
+		}
 		errorLog('Location analysis failed:', error);
 		// Return safe default
 		return {
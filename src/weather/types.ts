@@ -29,6 +29,75 @@ export type WeatherCondition =
 
 export type DaylightPhase = 'dawn' | 'day' | 'dusk' | 'night';
 
+// ============================================
+// Astronomy
+// ============================================
+
+export type MoonPhase =
+	| 'new'
+	| 'waxing_crescent'
+	| 'first_quarter'
+	| 'waxing_gibbous'
+	| 'full'
+	| 'waning_gibbous'
+	| 'last_quarter'
+	| 'waning_crescent';
+
+export interface MoonDefinition {
+	name: string;
+	period: number; // Days from new moon to new moon
+	newMoon: string; // YYYY-MM-DD of any new moon
+}
+
+/**
+ * The sun and moons of a world. Earth's by default; fantasy worlds can
+ * change the year, the tilt (how much day length changes through the year)
+ * and the moons.
+ */
+export interface AstronomySettings {
+	yearLength: number; // Days from one spring equinox to the next
+	axialTilt: number; // Degrees, 0 = 12-hour days all year
+	moons: MoonDefinition[];
+}
+
+export interface MoonState {
+	name: string;
+	phase: MoonPhase;
+	illumination: number; // 0-1
+	elevation: number; // Degrees above the horizon
+	rising: boolean;
+}
+
+/**
+ * Sun and moons at a moment in time.
+ */
+export interface SkyState {
+	sunElevation: number; // Degrees above the horizon
+	sunRising: boolean; // Before solar noon
+	moons: MoonState[];
+}
+
+export interface MoonDay {
+	name: string;
+	phase: MoonPhase; // At noon
+	illumination: number; // 0-1, at noon
+	moonrise: number | null; // hour, null if the moon doesn't rise this day
+	moonset: number | null;
+}
+
+/**
+ * Sun and moon events of a day. Times are hours (6.5 = 6:30 AM); the sun is
+ * highest at noon.
+ */
+export interface DayAstronomy {
+	sunrise: number | null; // null during polar day and night
+	sunset: number | null;
+	civilDawn: number | null; // Sun 6° below the horizon
+	civilDusk: number | null;
+	daylightHours: number;
+	moons: MoonDay[];
+}
+
 // ============================================
 // Building Types (for indoor temperature)
 // ============================================
@@ -97,6 +166,9 @@ export interface LocationForecast {
 		longitude: number;
 	};
 	baseClimateType?: BaseClimateType; // Fallback if no real-world match
+	climateProfile?: string; // Name of the custom climate profile used
+	latitude?: number; // Used for the sun and moons
+	astronomy?: AstronomySettings; // Custom sun and moons, Earth's if not set
 	startDate: string; // YYYY-MM-DD when forecast begins
 	generatedFrom?: {
 		// Initial conditions that seeded this forecast
@@ -158,6 +230,7 @@ export interface ProceduralClimate {
 	// Other
 	uvIndex: number;
 	daylight: DaylightPhase;
+	sky?: SkyState;
 
 	// Indoor tracking
 	isIndoors: boolean;
@@ -194,25 +267,75 @@ export interface ClimateNormals {
 }
 
 // ============================================
-// Fallback Profile Type
+// Climate Profile Types
 // ============================================
 
-export interface FallbackClimateProfile {
-	type: BaseClimateType;
+export type ClimateSeason = 'winter' | 'spring' | 'summer' | 'fall';
+
+/**
+ * Monthly climate data shared by fallback and custom profiles.
+ */
+export interface ClimateProfileData {
 	// Monthly averages (index 0 = January)
 	monthlyHighs: number[]; // °F
 	monthlyLows: number[]; // °F
 	monthlyPrecipDays: number[]; // days with precipitation
 	monthlyHumidity: number[]; // %
 	tempStdDev: number; // day-to-day variation
-	precipPersistence: number; // Markov chain probability
 	// Condition probabilities by season
-	conditionWeights: {
-		winter: Record<string, number>;
-		spring: Record<string, number>;
-		summer: Record<string, number>;
-		fall: Record<string, number>;
-	};
+	conditionWeights: Record<ClimateSeason, Record<string, number>>;
+}
+
+export interface FallbackClimateProfile extends ClimateProfileData {
+	type: BaseClimateType;
+	precipPersistence: number; // Markov chain probability
+}
+
+/**
+ * User-authored climate profile for fictional regions.
+ * Used in preference to geocoding and fallback profiles for matching areas.
+ */
+export interface CustomClimateProfile extends ClimateProfileData {
+	name: string;
+	// Area names or patterns ("*" matches any text), case-insensitive
+	areas: string[];
+	latitude?: number; // For sunrise, sunset and moonrise; 45 if not set
+}
+
+// ============================================
+// Climate Data Sources
+// ============================================
+
+/**
+ * Monthly climate normals of a real city, as stored in the bundled dataset
+ * and in user-supplied climate data files. Metric units, index 0 = January.
+ */
+export interface CityClimate {
+	name: string;
+	country: string;
+	aliases?: string[]; // Other names, e.g. "Bombay" for Mumbai
+	latitude: number;
+	longitude: number;
+	highs: number[]; // °C
+	lows: number[]; // °C
+	precip: number[]; // mm per month
+	precipDays: number[]; // days with >1mm precip
+	humidity: number[]; // %
+}
+
+/**
+ * Where geocoding and climate normals come from.
+ * Providers return null when they have no data for a place; network
+ * providers throw when the network can't be reached.
+ */
+export interface ClimateProvider {
+	name: string;
+	geocode(placeName: string): Promise<{ latitude: number; longitude: number } | null>;
+	fetchNormals(
+		latitude: number,
+		longitude: number,
+		month: number,
+	): Promise<ClimateNormals | null>;
 }
 
 // ============================================
@@ -3,7 +3,6 @@ import {
 	deriveCondition,
 	describeCondition,
 	getWindDirection,
-	getDaylightPhase,
 	calculateFeelsLike,
 	getDominantCondition,
 	mapLegacyWeather,
@@ -331,39 +330,6 @@ describe('getWindDirection', () => {
 	});
 });
 
-// ============================================
-// getDaylightPhase
-// ============================================
-
-describe('getDaylightPhase', () => {
-	const sunrise = 6; // 6 AM
-	const sunset = 18; // 6 PM
-
-	it('returns dawn around sunrise', () => {
-		expect(getDaylightPhase(5.6, sunrise, sunset)).toBe('dawn');
-		expect(getDaylightPhase(6, sunrise, sunset)).toBe('dawn');
-		expect(getDaylightPhase(6.4, sunrise, sunset)).toBe('dawn');
-	});
-
-	it('returns day during daytime hours', () => {
-		expect(getDaylightPhase(10, sunrise, sunset)).toBe('day');
-		expect(getDaylightPhase(12, sunrise, sunset)).toBe('day');
-		expect(getDaylightPhase(15, sunrise, sunset)).toBe('day');
-	});
-
-	it('returns dusk around sunset', () => {
-		expect(getDaylightPhase(17.6, sunrise, sunset)).toBe('dusk');
-		expect(getDaylightPhase(18, sunrise, sunset)).toBe('dusk');
-		expect(getDaylightPhase(18.4, sunrise, sunset)).toBe('dusk');
-	});
-
-	it('returns night during nighttime hours', () => {
-		expect(getDaylightPhase(0, sunrise, sunset)).toBe('night');
-		expect(getDaylightPhase(3, sunrise, sunset)).toBe('night');
-		expect(getDaylightPhase(22, sunrise, sunset)).toBe('night');
-	});
-});
-
 // ============================================
 // calculateFeelsLike
 // ============================================
@@ -5,7 +5,7 @@
  * All temperatures in Fahrenheit, wind in mph, precipitation in inches.
  */
 
-import type { HourlyWeather, WeatherCondition, DaylightPhase } from './types';
+import type { HourlyWeather, WeatherCondition } from './types';
 
 // ============================================
 // Condition Derivation
@@ -136,27 +136,6 @@ export function getWindDirection(degrees: number): string {
 	return WIND_DIRECTIONS[index];
 }
 
-// ============================================
-// Daylight Phase
-// ============================================
-
-/**
- * Determine daylight phase based on current hour and sun times
- */
-export function getDaylightPhase(hour: number, sunrise: number, sunset: number): DaylightPhase {
-	// Dawn: 30 min before to 30 min after sunrise
-	if (hour >= sunrise - 0.5 && hour < sunrise + 0.5) return 'dawn';
-
-	// Day: after dawn until 30 min before sunset
-	if (hour >= sunrise + 0.5 && hour < sunset - 0.5) return 'day';
-
-	// Dusk: 30 min before to 30 min after sunset
-	if (hour >= sunset - 0.5 && hour < sunset + 0.5) return 'dusk';
-
-	// Night: everything else
-	return 'night';
-}
-
 // ============================================
 // Feels Like Temperature
 // ============================================
@@ -3,8 +3,13 @@ import {
 	shouldMentionTransition,
 	getTransitionText,
 	generateTransitionInjection,
+	getOverrideWeight,
+	getOverrideWeather,
+	blendWeather,
 } from './weatherTransitions';
-import type { ProceduralClimate, WeatherCondition } from './types';
+import { deriveCondition } from './weatherDeriver';
+import { WEATHER_CONDITIONS } from '../v2/types/common';
+import type { HourlyWeather, ProceduralClimate, WeatherCondition } from './types';
 
 // ============================================
 // Test Helpers
@@ -290,3 +295,89 @@ describe('generateTransitionInjection', () => {
 		expect(text).toBeTruthy();
 	});
 });
+
+// ============================================
+// Scripted Weather
+// ============================================
+
+const HOUR = 60 * 60 * 1000;
+
+const baseHour: HourlyWeather = {
+	hour: 12,
+	temperature: 70,
+	feelsLike: 72,
+	humidity: 50,
+	precipitation: 0,
+	precipProbability: 10,
+	cloudCover: 30,
+	windSpeed: 5,
+	windDirection: 180,
+	uvIndex: 6,
+};
+
+describe('getOverrideWeight', () => {
+	const start = 10 * HOUR;
+	const end = 16 * HOUR;
+
+	it('is 1 inside the override', () => {
+		expect(getOverrideWeight(start, start, end)).toBe(1);
+		expect(getOverrideWeight(12 * HOUR, start, end)).toBe(1);
+		expect(getOverrideWeight(end, start, end)).toBe(1);
+	});
+
+	it('eases in before the start and out after the end', () => {
+		expect(getOverrideWeight(9 * HOUR, start, end)).toBe(0.5);
+		expect(getOverrideWeight(17.5 * HOUR, start, end)).toBe(0.25);
+	});
+
+	it('is 0 outside the transition hours', () => {
+		expect(getOverrideWeight(7 * HOUR, start, end)).toBe(0);
+		expect(getOverrideWeight(19 * HOUR, start, end)).toBe(0);
+	});
+
+	it('is 0 when the end is before the start', () => {
+		expect(getOverrideWeight(12 * HOUR, end, start)).toBe(0);
+	});
+});
+
+describe('getOverrideWeather', () => {
+	it.each(WEATHER_CONDITIONS.map(c => [c]))('produces weather derived as %s', condition => {
+		expect(deriveCondition(getOverrideWeather(baseHour, condition))).toBe(condition);
+	});
+
+	it('keeps the forecast temperature when it fits the condition', () => {
+		expect(getOverrideWeather(baseHour, 'rain').temperature).toBe(70);
+	});
+
+	it('moves the temperature into the condition range', () => {
+		const snow = getOverrideWeather(baseHour, 'snow');
+		expect(snow.temperature).toBe(30);
+		expect(snow.feelsLike).toBe(32);
+	});
+
+	it('uses the given temperature', () => {
+		expect(getOverrideWeather(baseHour, 'sunny', 85).temperature).toBe(85);
+	});
+
+	it('keeps the wind direction and hour', () => {
+		const storm = getOverrideWeather(baseHour, 'thunderstorm');
+		expect(storm.hour).toBe(12);
+		expect(storm.windDirection).toBe(180);
+	});
+});
+
+describe('blendWeather', () => {
+	const storm = getOverrideWeather(baseHour, 'thunderstorm');
+
+	it('returns either end at weight 0 and 1', () => {
+		expect(blendWeather(baseHour, storm, 0)).toEqual(baseHour);
+		expect(blendWeather(baseHour, storm, 1)).toEqual(storm);
+	});
+
+	it('mixes values in between', () => {
+		const half = blendWeather(baseHour, storm, 0.5);
+		expect(half.cloudCover).toBe(65);
+		expect(half.precipitation).toBe(0.15);
+		expect(half.windSpeed).toBe(15);
+	});
+});
@@ -1,10 +1,11 @@
 /**
  * Weather Transitions
  *
- * Generates narrative text when weather changes significantly.
+ * Generates narrative text when weather changes significantly, and eases
+ * forecast weather into and out of scripted weather overrides.
  */
 
-import type { WeatherCondition, ProceduralClimate } from './types';
+import type { WeatherCondition, ProceduralClimate, HourlyWeather } from './types';
 
 // ============================================
 // Transition Templates
@@ -354,3 +355,167 @@ export function generateTransitionInjection(
 
 	return transitionText;
 }
+
+// ============================================
+// Scripted Weather
+// ============================================
+
+/** Hours over which the weather eases into and out of an override */
+export const OVERRIDE_TRANSITION_HOURS = 2;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Typical hourly values for a condition. Bounds are only applied when the
+ * forecast value falls outside them.
+ */
+interface ConditionSignature {
+	precipitation: number; // inches
+	precipProbability: number; // 0-100%
+	cloudCover: number; // 0-100%
+	minHumidity?: number;
+	minWindSpeed?: number;
+	maxWindSpeed?: number;
+	minTemperature?: number;
+	maxTemperature?: number;
+}
+
+const CONDITION_SIGNATURES: Record<WeatherCondition, ConditionSignature> = {
+	clear: { precipitation: 0, precipProbability: 5, cloudCover: 25 },
+	sunny: { precipitation: 0, precipProbability: 0, cloudCover: 5 },
+	partly_cloudy: { precipitation: 0, precipProbability: 15, cloudCover: 65 },
+	overcast: { precipitation: 0, precipProbability: 30, cloudCover: 95 },
+	foggy: {
+		precipitation: 0,
+		precipProbability: 20,
+		cloudCover: 90,
+		minHumidity: 98,
+		maxWindSpeed: 4,
+	},
+	drizzle: { precipitation: 0.05, precipProbability: 80, cloudCover: 95, minHumidity: 85 },
+	rain: { precipitation: 0.15, precipProbability: 90, cloudCover: 100, minHumidity: 90 },
+	heavy_rain: {
+		precipitation: 0.5,
+		precipProbability: 100,
+		cloudCover: 100,
+		minHumidity: 95,
+	},
+	thunderstorm: {
+		precipitation: 0.3,
+		precipProbability: 100,
+		cloudCover: 100,
+		minHumidity: 90,
+		minWindSpeed: 25,
+		minTemperature: 40,
+	},
+	sleet: {
+		precipitation: 0.1,
+		precipProbability: 90,
+		cloudCover: 100,
+		minHumidity: 90,
+		minTemperature: 33,
+		maxTemperature: 35,
+	},
+	snow: {
+		precipitation: 0.1,
+		precipProbability: 90,
+		cloudCover: 100,
+		minHumidity: 85,
+		maxTemperature: 30,
+	},
+	heavy_snow: {
+		precipitation: 0.3,
+		precipProbability: 100,
+		cloudCover: 100,
+		minHumidity: 90,
+		maxTemperature: 28,
+	},
+	blizzard: {
+		precipitation: 0.3,
+		precipProbability: 100,
+		cloudCover: 100,
+		minHumidity: 85,
+		minWindSpeed: 35,
+		maxTemperature: 25,
+	},
+	windy: { precipitation: 0, precipProbability: 10, cloudCover: 40, minWindSpeed: 35 },
+	hot: { precipitation: 0, precipProbability: 0, cloudCover: 10, minTemperature: 98 },
+	cold: { precipitation: 0, precipProbability: 5, cloudCover: 15, maxTemperature: 10 },
+	humid: {
+		precipitation: 0,
+		precipProbability: 20,
+		cloudCover: 30,
+		minHumidity: 90,
+		minTemperature: 80,
+	},
+};
+
+function bound(value: number, min = -Infinity, max = Infinity): number {
+	return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * How strongly an override applies at a time, from 0 (not at all) to 1
+ * (fully). It eases in over the transition hours before its start and out
+ * over the transition hours after its end. Times are in milliseconds.
+ */
+export function getOverrideWeight(time: number, start: number, end: number): number {
+	if (end < start) return 0;
+	if (time >= start && time <= end) return 1;
+
+	const hoursAway = (time < start ? start - time : time - end) / HOUR_MS;
+	return Math.max(0, 1 - hoursAway / OVERRIDE_TRANSITION_HOURS);
+}
+
+/**
+ * Turn an hour of forecast weather into the given condition. Wind direction
+ * and the time-of-day shape of the forecast are kept.
+ *
+ * @param temperature - Temperature to use (°F); defaults to the forecast
+ *   temperature, moved into the condition's range (e.g. below freezing for snow)
+ */
+export function getOverrideWeather(
+	base: HourlyWeather,
+	condition: WeatherCondition,
+	temperature?: number,
+): HourlyWeather {
+	const signature = CONDITION_SIGNATURES[condition];
+	const temp =
+		temperature ??
+		bound(base.temperature, signature.minTemperature, signature.maxTemperature);
+
+	return {
+		...base,
+		temperature: Math.round(temp),
+		feelsLike: Math.round(base.feelsLike + temp - base.temperature),
+		humidity: Math.max(base.humidity, signature.minHumidity ?? 0),
+		precipitation: signature.precipitation,
+		precipProbability: signature.precipProbability,
+		cloudCover: signature.cloudCover,
+		windSpeed: bound(base.windSpeed, signature.minWindSpeed, signature.maxWindSpeed),
+		uvIndex: signature.cloudCover > 80 ? Math.min(base.uvIndex, 2) : base.uvIndex,
+	};
+}
+
+/**
+ * Blend two hours of weather: weight 0 gives `from`, 1 gives `to`.
+ */
+export function blendWeather(
+	from: HourlyWeather,
+	to: HourlyWeather,
+	weight: number,
+): HourlyWeather {
+	const mix = (a: number, b: number) => a + (b - a) * weight;
+
+	return {
+		...from,
+		temperature: Math.round(mix(from.temperature, to.temperature)),
+		feelsLike: Math.round(mix(from.feelsLike, to.feelsLike)),
+		humidity: Math.round(mix(from.humidity, to.humidity)),
+		precipitation: Math.round(mix(from.precipitation, to.precipitation) * 100) / 100,
+		precipProbability: Math.round(mix(from.precipProbability, to.precipProbability)),
+		cloudCover: Math.round(mix(from.cloudCover, to.cloudCover)),
+		windSpeed: Math.round(mix(from.windSpeed, to.windSpeed)),
+		uvIndex: Math.round(mix(from.uvIndex, to.uvIndex)),
+	};
+}